@@ -1,13 +1,19 @@
 /// <reference types="jest" />
 
 import { POST } from '@/app/api/analyze/route'
+import { analyzeFeedbackBatch } from '@/lib/analyze'
 import { NextRequest } from 'next/server'
 
 // Mock Supabase client
 jest.mock('@/lib/supabase', () => {
   const mockInsertFeedback = jest.fn()
+  const mockDeleteFeedback = jest.fn()
   const mockInsertAnalysis = jest.fn()
+  const mockInsertTopicSentiments = jest.fn()
   const mockUpdateFeedbackEmbedding = jest.fn()
+  const mockUpdateFeedbackEmbeddings = jest.fn()
+  const mockUpdateFeedbackTranslation = jest.fn()
+  const mockSearchSimilarFeedback = jest.fn()
 
   return {
     createServerClient: jest.fn(() => ({
@@ -23,20 +29,30 @@ jest.mock('@/lib/supabase', () => {
       })),
     })),
     insertFeedback: mockInsertFeedback,
+    deleteFeedback: mockDeleteFeedback,
     insertAnalysis: mockInsertAnalysis,
+    insertTopicSentiments: mockInsertTopicSentiments,
     updateFeedbackEmbedding: mockUpdateFeedbackEmbedding,
+    updateFeedbackEmbeddings: mockUpdateFeedbackEmbeddings,
+    updateFeedbackTranslation: mockUpdateFeedbackTranslation,
+    searchSimilarFeedback: mockSearchSimilarFeedback,
   }
 })
 
 // Mock OpenAI
 jest.mock('@/lib/openai', () => ({
   embedText: jest.fn(),
+  embedTexts: jest.fn(),
   getOpenAIClient: jest.fn(),
 }))
 
-// Mock LangChain analyze function
+// Mock LangChain analyze function (generateEmbedding(s) stay real and use the embedText(s) mocks)
 jest.mock('@/lib/langchain', () => ({
+  ...jest.requireActual('@/lib/langchain'),
   analyzeFeedback: jest.fn(),
+  classifyFeedback: jest.fn(),
+  detectAndTranslate: jest.fn(),
+  getAnalysisVersion: jest.fn(),
 }))
 
 // Mock billing/quota functions
@@ -45,18 +61,108 @@ jest.mock('@/lib/billing', () => ({
   incrementUsage: jest.fn(),
 }))
 
-import { insertFeedback, insertAnalysis, updateFeedbackEmbedding } from '@/lib/supabase'
-import { embedText } from '@/lib/openai'
-import { analyzeFeedback } from '@/lib/langchain'
+// Mock account settings
+jest.mock('@/lib/settings', () => ({
+  ...jest.requireActual('@/lib/settings'),
+  getAccountSettings: jest.fn(),
+}))
+
+// Mock the account taxonomy (labels and prompt formatting stay real)
+jest.mock('@/lib/taxonomy', () => ({
+  ...jest.requireActual('@/lib/taxonomy'),
+  getTaxonomy: jest.fn(),
+}))
+
+// Mock topic canonicalization
+jest.mock('@/lib/topics', () => ({
+  assignCanonicalTopics: jest.fn(),
+}))
+
+// Mock anomaly detection (runs after every batch)
+jest.mock('@/lib/anomalies', () => ({
+  detectAnomalies: jest.fn(),
+}))
+
+// Mock entity storage and the entity dictionary (normalization stays real)
+jest.mock('@/lib/entities', () => ({
+  ...jest.requireActual('@/lib/entities'),
+  getEntityDictionary: jest.fn(),
+  insertFeedbackEntities: jest.fn(),
+}))
+
+// Mock duplicate lookups (content hashing stays real)
+jest.mock('@/lib/dedupe', () => ({
+  ...jest.requireActual('@/lib/dedupe'),
+  findFeedbackByContentHash: jest.fn(),
+  copyFeedbackAnalysis: jest.fn(),
+  flagNearDuplicates: jest.fn(),
+}))
+
+// Mock the PII vault (redactPII stays real)
+jest.mock('@/lib/redaction', () => ({
+  ...jest.requireActual('@/lib/redaction'),
+  isVaultConfigured: jest.fn(),
+  storeRedactedValues: jest.fn(),
+}))
+
+// Mock LLM usage storage
+jest.mock('@/lib/costs', () => ({
+  storeUsageRecords: jest.fn(),
+}))
+
+import {
+  insertFeedback,
+  deleteFeedback,
+  insertAnalysis,
+  insertTopicSentiments,
+  updateFeedbackEmbedding,
+  updateFeedbackEmbeddings,
+  updateFeedbackTranslation,
+  searchSimilarFeedback,
+} from '@/lib/supabase'
+import { embedText, embedTexts } from '@/lib/openai'
+import { analyzeFeedback, classifyFeedback, detectAndTranslate, getAnalysisVersion } from '@/lib/langchain'
+import { hashInstructions } from '@/lib/prompts'
 import { checkUserQuota, incrementUsage } from '@/lib/billing'
+import { AccountSettingsError, getAccountSettings } from '@/lib/settings'
+import { isVaultConfigured, storeRedactedValues } from '@/lib/redaction'
+import { getTaxonomy } from '@/lib/taxonomy'
+import { assignCanonicalTopics } from '@/lib/topics'
+import { copyFeedbackAnalysis, findFeedbackByContentHash, flagNearDuplicates } from '@/lib/dedupe'
+import { ProviderError } from '@/lib/resilience'
+import { recordUsage } from '@/lib/usage'
+import { storeUsageRecords } from '@/lib/costs'
+import { detectAnomalies } from '@/lib/anomalies'
+import { getEntityDictionary, insertFeedbackEntities } from '@/lib/entities'
 
 const mockInsertFeedback = insertFeedback as jest.MockedFunction<typeof insertFeedback>
+const mockDeleteFeedback = deleteFeedback as jest.MockedFunction<typeof deleteFeedback>
 const mockInsertAnalysis = insertAnalysis as jest.MockedFunction<typeof insertAnalysis>
+const mockInsertTopicSentiments = insertTopicSentiments as jest.MockedFunction<typeof insertTopicSentiments>
 const mockUpdateFeedbackEmbedding = updateFeedbackEmbedding as jest.MockedFunction<typeof updateFeedbackEmbedding>
+const mockUpdateFeedbackTranslation = updateFeedbackTranslation as jest.MockedFunction<typeof updateFeedbackTranslation>
+const mockUpdateFeedbackEmbeddings = updateFeedbackEmbeddings as jest.MockedFunction<typeof updateFeedbackEmbeddings>
 const mockEmbedText = embedText as jest.MockedFunction<typeof embedText>
+const mockEmbedTexts = embedTexts as jest.MockedFunction<typeof embedTexts>
 const mockAnalyzeFeedback = analyzeFeedback as jest.MockedFunction<typeof analyzeFeedback>
+const mockClassifyFeedback = classifyFeedback as jest.MockedFunction<typeof classifyFeedback>
+const mockGetTaxonomy = getTaxonomy as jest.MockedFunction<typeof getTaxonomy>
+const mockAssignCanonicalTopics = assignCanonicalTopics as jest.MockedFunction<typeof assignCanonicalTopics>
+const mockFindFeedbackByContentHash = findFeedbackByContentHash as jest.MockedFunction<typeof findFeedbackByContentHash>
+const mockSearchSimilarFeedback = searchSimilarFeedback as jest.MockedFunction<typeof searchSimilarFeedback>
+const mockFlagNearDuplicates = flagNearDuplicates as jest.MockedFunction<typeof flagNearDuplicates>
+const mockCopyFeedbackAnalysis = copyFeedbackAnalysis as jest.MockedFunction<typeof copyFeedbackAnalysis>
+const mockDetectAndTranslate = detectAndTranslate as jest.MockedFunction<typeof detectAndTranslate>
+const mockGetAnalysisVersion = getAnalysisVersion as jest.MockedFunction<typeof getAnalysisVersion>
 const mockCheckUserQuota = checkUserQuota as jest.MockedFunction<typeof checkUserQuota>
 const mockIncrementUsage = incrementUsage as jest.MockedFunction<typeof incrementUsage>
+const mockGetAccountSettings = getAccountSettings as jest.MockedFunction<typeof getAccountSettings>
+const mockIsVaultConfigured = isVaultConfigured as jest.MockedFunction<typeof isVaultConfigured>
+const mockStoreRedactedValues = storeRedactedValues as jest.MockedFunction<typeof storeRedactedValues>
+const mockStoreUsageRecords = storeUsageRecords as jest.MockedFunction<typeof storeUsageRecords>
+const mockDetectAnomalies = detectAnomalies as jest.MockedFunction<typeof detectAnomalies>
+const mockGetEntityDictionary = getEntityDictionary as jest.MockedFunction<typeof getEntityDictionary>
+const mockInsertFeedbackEntities = insertFeedbackEntities as jest.MockedFunction<typeof insertFeedbackEntities>
 
 describe('POST /api/analyze - Integration Test', () => {
   const testUserId = 'user_test_123'
@@ -97,6 +203,46 @@ describe('POST /api/analyze - Integration Test', () => {
     })
 
     mockIncrementUsage.mockResolvedValue(true)
+
+    // Feedback is English unless a test says otherwise
+    mockDetectAndTranslate.mockResolvedValue({ language: 'en', translation: null })
+    mockUpdateFeedbackTranslation.mockResolvedValue(true)
+    mockGetAnalysisVersion.mockReturnValue({ model: 'gpt-4o-mini', prompt_version: 1 })
+
+    // Raw text is stored unless a test enables redaction before storage
+    mockGetAccountSettings.mockResolvedValue({
+      redact_before_storage: false,
+      duplicate_handling: 'skip',
+      prompt_context: '',
+      prompt_rules: [],
+    })
+    mockStoreRedactedValues.mockResolvedValue(true)
+    mockStoreUsageRecords.mockResolvedValue(true)
+    mockDetectAnomalies.mockResolvedValue([])
+
+    // No taxonomy unless a test defines one
+    mockGetTaxonomy.mockResolvedValue([])
+    mockClassifyFeedback.mockResolvedValue([])
+    mockInsertTopicSentiments.mockResolvedValue([])
+    mockAssignCanonicalTopics.mockResolvedValue({ created: 0, merged: 0 })
+
+    // No entity dictionary unless a test defines one
+    mockGetEntityDictionary.mockResolvedValue([])
+    mockInsertFeedbackEntities.mockResolvedValue([])
+
+    // No previously analyzed duplicates unless a test adds them
+    mockFindFeedbackByContentHash.mockResolvedValue(new Map())
+    mockSearchSimilarFeedback.mockResolvedValue([])
+    mockFlagNearDuplicates.mockImplementation(async (userId, matches) => new Map(matches))
+
+    // Batched embeddings behave like the per-item mocks each test sets up
+    mockEmbedTexts.mockImplementation(async (texts) => Promise.all(texts.map((text) => mockEmbedText(text))))
+    mockUpdateFeedbackEmbeddings.mockImplementation(async (updates) => {
+      const results = await Promise.all(
+        updates.map(({ id, embedding }) => mockUpdateFeedbackEmbedding(id, embedding))
+      )
+      return results.every(Boolean)
+    })
   })
 
   afterEach(() => {
@@ -132,6 +278,15 @@ describe('POST /api/analyze - Integration Test', () => {
         source: 'web',
         product_id: null,
         username: null,
+        language: null,
+        translated_text: null,
+        content_hash: null,
+        duplicate_of: null,
+        duplicate_similarity: null,
+        near_duplicate_of: null,
+        near_duplicate_similarity: null,
+        submitted_at: null,
+        upload_id: null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
         embedding: null,
@@ -147,21 +302,42 @@ describe('POST /api/analyze - Integration Test', () => {
       mockAnalyzeFeedback.mockResolvedValue({
         sentiment: 'positive',
         sentiment_score: 0.95,
+        emotion: 'delight',
+        urgency: 'low',
+        severity_score: 0.1,
+        intents: [],
+        entities: [],
         topics: ['satisfaction', 'product quality'],
+        topic_sentiments: [
+          { topic: 'satisfaction', sentiment: 'positive', score: 0.8 },
+          { topic: 'product quality', sentiment: 'positive', score: 0.8 },
+        ],
         summary: 'Customer is very satisfied with the product',
         recommendation: 'Continue maintaining quality standards',
       })
 
-      // Mock analysis insertion
+      // Mock analysis and topic sentiment insertion
+      mockInsertTopicSentiments.mockResolvedValue([])
       mockInsertAnalysis.mockResolvedValue({
         id: testAnalysisId,
         feedback_id: testFeedbackId,
         sentiment: 'positive',
         sentiment_score: 0.95,
+        emotion: 'delight',
+        urgency: 'low',
+        severity_score: 0.1,
+        intents: [],
         topics: ['satisfaction', 'product quality'],
         summary: 'Customer is very satisfied with the product',
         recommendation: 'Continue maintaining quality standards',
+        categories: [],
         confidence_score: null,
+        status: 'complete',
+        subtask_status: {},
+        model: null,
+        prompt_version: null,
+        instructions_hash: null,
+        analyzed_at: new Date().toISOString(),
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
@@ -194,6 +370,8 @@ describe('POST /api/analyze - Integration Test', () => {
           source: 'web',
           product_id: undefined,
           username: undefined,
+          content_hash: expect.any(String),
+          upload_id: expect.any(String),
         }
       )
 
@@ -205,7 +383,7 @@ describe('POST /api/analyze - Integration Test', () => {
       )
 
       // Verify AI analysis was called
-      expect(mockAnalyzeFeedback).toHaveBeenCalledWith(testItems[0].text)
+      expect(mockAnalyzeFeedback).toHaveBeenCalledWith(testItems[0].text, { context: '', rules: [] })
 
       // Verify analysis insertion was called with expected fields
       expect(mockInsertAnalysis).toHaveBeenCalledTimes(1)
@@ -214,11 +392,35 @@ describe('POST /api/analyze - Integration Test', () => {
         {
           sentiment: 'positive',
           sentiment_score: 0.95,
+          emotion: 'delight',
+          urgency: 'low',
+          severity_score: 0.1,
+          intents: [],
           topics: ['satisfaction', 'product quality'],
+          categories: [],
           summary: 'Customer is very satisfied with the product',
           recommendation: 'Continue maintaining quality standards',
+          status: 'complete',
+          subtask_status: {
+            translation: 'ok',
+            embedding: 'ok',
+            analysis: 'ok',
+            classification: 'skipped',
+            topic_sentiments: 'ok',
+            entities: 'skipped',
+          },
+          model: 'gpt-4o-mini',
+          prompt_version: 1,
+          instructions_hash: hashInstructions({ context: '', rules: [] }),
         }
       )
+      expect(mockInsertFeedbackEntities).not.toHaveBeenCalled()
+
+      // Verify per-topic sentiment was stored
+      expect(mockInsertTopicSentiments).toHaveBeenCalledWith(testFeedbackId, [
+        { topic: 'satisfaction', sentiment: 'positive', score: 0.8 },
+        { topic: 'product quality', sentiment: 'positive', score: 0.8 },
+      ])
 
       // Verify usage was incremented
       expect(mockIncrementUsage).toHaveBeenCalledTimes(1)
@@ -237,6 +439,95 @@ describe('POST /api/analyze - Integration Test', () => {
       expect(result.analysis).toHaveProperty('recommendation')
     })
 
+    it('should store entities normalized with the account dictionary', async () => {
+      const text = 'Since v2.3 the iPhone app crashes, moving to GlobexCRM'
+
+      mockInsertFeedback.mockResolvedValue({ id: testFeedbackId, user_id: testUserId, text } as any)
+      mockEmbedText.mockResolvedValue([0.1, 0.2, 0.3])
+      mockUpdateFeedbackEmbedding.mockResolvedValue(true)
+      mockGetEntityDictionary.mockResolvedValue([
+        {
+          id: 'entry_1',
+          user_id: testUserId,
+          type: 'competitor',
+          name: 'Globex',
+          aliases: ['GlobexCRM'],
+          created_at: '2026-01-01T00:00:00.000Z',
+          updated_at: '2026-01-01T00:00:00.000Z',
+        },
+      ])
+      mockAnalyzeFeedback.mockResolvedValue({
+        sentiment: 'negative',
+        sentiment_score: -0.7,
+        emotion: 'frustration',
+        urgency: 'high',
+        severity_score: 0.7,
+        intents: ['bug_report', 'cancellation_intent'],
+        entities: [
+          { type: 'version', text: 'v2.3' },
+          { type: 'platform', text: 'iPhone' },
+        ],
+        topics: ['app crash'],
+        topic_sentiments: [],
+        summary: 'App crashes since 2.3',
+        recommendation: 'Fix the crash',
+      })
+      mockInsertAnalysis.mockImplementation(
+        async (feedbackId, analysis) => ({ id: testAnalysisId, feedback_id: feedbackId, ...analysis }) as any
+      )
+
+      const response = await POST(createMockRequest({ userId: testUserId, items: [{ text }] }))
+
+      expect(response.status).toBe(200)
+      expect(mockInsertFeedbackEntities).toHaveBeenCalledWith(testFeedbackId, [
+        { type: 'version', value: '2.3', mention: 'v2.3' },
+        { type: 'platform', value: 'iOS', mention: 'iPhone' },
+        { type: 'competitor', value: 'Globex', mention: 'GlobexCRM' },
+      ])
+      expect(mockInsertAnalysis.mock.calls[0][1].subtask_status).toMatchObject({ entities: 'ok' })
+    })
+
+    it('should store the date feedback was given and not check anomalies in the request', async () => {
+      mockInsertFeedback.mockResolvedValue({
+        id: testFeedbackId,
+        user_id: testUserId,
+        text: 'Checkout failed',
+        rating: null,
+        source: null,
+        product_id: null,
+        username: null,
+        language: null,
+        translated_text: null,
+        content_hash: null,
+        duplicate_of: null,
+        duplicate_similarity: null,
+        near_duplicate_of: null,
+        near_duplicate_similarity: null,
+        submitted_at: '2025-11-02T09:30:00.000Z',
+        upload_id: null,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        embedding: null,
+      })
+      mockEmbedText.mockResolvedValue([0.1, 0.2])
+      mockUpdateFeedbackEmbedding.mockResolvedValue(true)
+      mockAnalyzeFeedback.mockRejectedValue(new Error('stop after analysis call'))
+
+      await POST(
+        createMockRequest({
+          userId: testUserId,
+          items: [{ text: 'Checkout failed', submittedAt: '2025-11-02T09:30:00.000Z' }],
+        })
+      )
+
+      expect(mockInsertFeedback).toHaveBeenCalledWith(
+        testUserId,
+        'Checkout failed',
+        expect.objectContaining({ submitted_at: '2025-11-02T09:30:00.000Z' })
+      )
+      expect(mockDetectAnomalies).not.toHaveBeenCalled()
+    })
+
     it('should handle batch of multiple items', async () => {
       const testItems = [
         { text: 'First feedback item', rating: 4 },
@@ -253,6 +544,15 @@ describe('POST /api/analyze - Integration Test', () => {
           source: null,
           product_id: null,
           username: null,
+          language: null,
+          translated_text: null,
+          content_hash: null,
+          duplicate_of: null,
+          duplicate_similarity: null,
+          near_duplicate_of: null,
+          near_duplicate_similarity: null,
+          submitted_at: null,
+          upload_id: null,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
           embedding: null,
@@ -265,6 +565,15 @@ describe('POST /api/analyze - Integration Test', () => {
           source: null,
           product_id: null,
           username: null,
+          language: null,
+          translated_text: null,
+          content_hash: null,
+          duplicate_of: null,
+          duplicate_similarity: null,
+          near_duplicate_of: null,
+          near_duplicate_similarity: null,
+          submitted_at: null,
+          upload_id: null,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
           embedding: null,
@@ -280,14 +589,30 @@ describe('POST /api/analyze - Integration Test', () => {
         .mockResolvedValueOnce({
           sentiment: 'positive',
           sentiment_score: 0.8,
+          emotion: 'delight',
+          urgency: 'low',
+          severity_score: 0.1,
+          intents: [],
+          entities: [],
           topics: ['topic1'],
+          topic_sentiments: [
+            { topic: 'topic1', sentiment: 'positive', score: 0.8 },
+          ],
           summary: 'Summary 1',
           recommendation: 'Rec 1',
         })
         .mockResolvedValueOnce({
           sentiment: 'neutral',
           sentiment_score: 0.6,
+          emotion: 'neutral',
+          urgency: 'low',
+          severity_score: 0.1,
+          intents: [],
+          entities: [],
           topics: ['topic2'],
+          topic_sentiments: [
+            { topic: 'topic2', sentiment: 'neutral', score: 0 },
+          ],
           summary: 'Summary 2',
           recommendation: 'Rec 2',
         })
@@ -298,10 +623,21 @@ describe('POST /api/analyze - Integration Test', () => {
           feedback_id: 'feedback_1',
           sentiment: 'positive',
           sentiment_score: 0.8,
+          emotion: 'delight',
+          urgency: 'low',
+          severity_score: 0.1,
+          intents: [],
           topics: ['topic1'],
           summary: 'Summary 1',
           recommendation: 'Rec 1',
+          categories: [],
           confidence_score: null,
+          status: 'complete',
+          subtask_status: {},
+          model: null,
+          prompt_version: null,
+          instructions_hash: null,
+          analyzed_at: new Date().toISOString(),
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         })
@@ -310,10 +646,21 @@ describe('POST /api/analyze - Integration Test', () => {
           feedback_id: 'feedback_2',
           sentiment: 'neutral',
           sentiment_score: 0.6,
+          emotion: 'neutral',
+          urgency: 'low',
+          severity_score: 0.1,
+          intents: [],
           topics: ['topic2'],
           summary: 'Summary 2',
           recommendation: 'Rec 2',
+          categories: [],
           confidence_score: null,
+          status: 'complete',
+          subtask_status: {},
+          model: null,
+          prompt_version: null,
+          instructions_hash: null,
+          analyzed_at: new Date().toISOString(),
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         })
@@ -336,6 +683,689 @@ describe('POST /api/analyze - Integration Test', () => {
       expect(mockAnalyzeFeedback).toHaveBeenCalledTimes(2)
       expect(mockInsertAnalysis).toHaveBeenCalledTimes(2)
       expect(mockIncrementUsage).toHaveBeenCalledTimes(2)
+
+      // Embeddings are requested and stored for the whole batch at once
+      expect(mockEmbedTexts).toHaveBeenCalledTimes(1)
+      expect(mockEmbedTexts).toHaveBeenCalledWith([testItems[0].text, testItems[1].text])
+      expect(mockUpdateFeedbackEmbeddings).toHaveBeenCalledTimes(1)
+      expect(mockUpdateFeedbackEmbeddings).toHaveBeenCalledWith([
+        { id: 'feedback_1', embedding: [0.1, 0.2] },
+        { id: 'feedback_2', embedding: [0.3, 0.4] },
+      ])
+    })
+
+    it('should fall back to per-item embeddings when the batched request fails', async () => {
+      mockInsertFeedback.mockResolvedValue({
+        id: testFeedbackId,
+        user_id: testUserId,
+        text: 'Fallback feedback',
+        rating: null,
+        source: null,
+        product_id: null,
+        username: null,
+        language: null,
+        translated_text: null,
+        content_hash: null,
+        duplicate_of: null,
+        duplicate_similarity: null,
+        near_duplicate_of: null,
+        near_duplicate_similarity: null,
+        submitted_at: null,
+        upload_id: null,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        embedding: null,
+      })
+      mockEmbedTexts.mockRejectedValue(new Error('Batch too large'))
+      mockEmbedText.mockResolvedValue([0.5, 0.5])
+      mockUpdateFeedbackEmbedding.mockResolvedValue(true)
+      mockAnalyzeFeedback.mockResolvedValue({
+        sentiment: 'neutral',
+        sentiment_score: 0.5,
+        emotion: 'neutral',
+        urgency: 'low',
+        severity_score: 0.1,
+        intents: [],
+        entities: [],
+        topics: [],
+        topic_sentiments: [],
+        summary: 'Summary',
+        recommendation: 'Rec',
+      })
+      mockInsertAnalysis.mockResolvedValue({ id: testAnalysisId } as any)
+
+      const response = await POST(createMockRequest({ userId: testUserId, items: [{ text: 'Fallback feedback' }] }))
+
+      expect(response.status).toBe(200)
+      expect(mockUpdateFeedbackEmbeddings).not.toHaveBeenCalled()
+      expect(mockEmbedText).toHaveBeenCalledWith('Fallback feedback')
+      expect(mockUpdateFeedbackEmbedding).toHaveBeenCalledWith(testFeedbackId, [0.5, 0.5])
+    })
+
+    it('should analyze and embed the English translation of non-English feedback', async () => {
+      const originalText = 'El envío llegó tarde y la caja estaba dañada.'
+      const translatedText = 'The shipment arrived late and the box was damaged.'
+
+      mockInsertFeedback.mockResolvedValue({
+        id: testFeedbackId,
+        user_id: testUserId,
+        text: originalText,
+        rating: null,
+        source: null,
+        product_id: null,
+        username: null,
+        language: null,
+        translated_text: null,
+        content_hash: null,
+        duplicate_of: null,
+        duplicate_similarity: null,
+        near_duplicate_of: null,
+        near_duplicate_similarity: null,
+        submitted_at: null,
+        upload_id: null,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        embedding: null,
+      })
+      mockDetectAndTranslate.mockResolvedValue({ language: 'es', translation: translatedText })
+      mockEmbedText.mockResolvedValue([0.1, 0.2])
+      mockUpdateFeedbackEmbedding.mockResolvedValue(true)
+      mockAnalyzeFeedback.mockResolvedValue({
+        sentiment: 'negative',
+        sentiment_score: 0.9,
+        emotion: 'disappointment',
+        urgency: 'medium',
+        severity_score: 0.4,
+        intents: [],
+        entities: [],
+        topics: ['shipping'],
+        topic_sentiments: [{ topic: 'shipping', sentiment: 'negative', score: -0.8 }],
+        summary: 'Late and damaged delivery',
+        recommendation: 'Review packaging and courier',
+      })
+      mockInsertAnalysis.mockResolvedValue({
+        id: testAnalysisId,
+        feedback_id: testFeedbackId,
+        sentiment: 'negative',
+        sentiment_score: 0.9,
+        emotion: 'disappointment',
+        urgency: 'medium',
+        severity_score: 0.4,
+        intents: [],
+        topics: ['shipping'],
+        summary: 'Late and damaged delivery',
+        recommendation: 'Review packaging and courier',
+        categories: [],
+        confidence_score: null,
+        status: 'complete',
+        subtask_status: {},
+        model: null,
+        prompt_version: null,
+        instructions_hash: null,
+        analyzed_at: new Date().toISOString(),
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+
+      const response = await POST(createMockRequest({ userId: testUserId, items: [{ text: originalText }] }))
+      const data = await response.json()
+
+      // Original text is stored, translation is stored alongside it
+      expect(mockInsertFeedback).toHaveBeenCalledWith(testUserId, originalText, expect.any(Object))
+      expect(mockUpdateFeedbackTranslation).toHaveBeenCalledWith(testFeedbackId, 'es', translatedText)
+
+      // Embedding and analysis use the English text
+      expect(mockEmbedText).toHaveBeenCalledWith(translatedText)
+      expect(mockAnalyzeFeedback).toHaveBeenCalledWith(translatedText, { context: '', rules: [] })
+      expect(data.results[0]).toHaveProperty('language', 'es')
+    })
+
+    it('should analyze the original text when translation fails', async () => {
+      mockInsertFeedback.mockResolvedValue({
+        id: testFeedbackId,
+        user_id: testUserId,
+        text: 'Gutes Produkt',
+        rating: null,
+        source: null,
+        product_id: null,
+        username: null,
+        language: null,
+        translated_text: null,
+        content_hash: null,
+        duplicate_of: null,
+        duplicate_similarity: null,
+        near_duplicate_of: null,
+        near_duplicate_similarity: null,
+        submitted_at: null,
+        upload_id: null,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        embedding: null,
+      })
+      mockDetectAndTranslate.mockRejectedValue(new Error('Failed to run LLM: timeout'))
+      mockEmbedText.mockResolvedValue([0.1, 0.2])
+      mockUpdateFeedbackEmbedding.mockResolvedValue(true)
+      mockAnalyzeFeedback.mockRejectedValue(new Error('stop after analysis call'))
+
+      await POST(createMockRequest({ userId: testUserId, items: [{ text: 'Gutes Produkt' }] }))
+
+      expect(mockUpdateFeedbackTranslation).not.toHaveBeenCalled()
+      expect(mockAnalyzeFeedback).toHaveBeenCalledWith('Gutes Produkt', { context: '', rules: [] })
+    })
+
+    it('should mask PII before any provider call and report redaction counts', async () => {
+      const rawText = 'Order 48213-A never arrived. Email me at jane.doe@example.com or call +1 415 555 0134.'
+      const redactedText = 'Order [ORDER_NUMBER_1] never arrived. Email me at [EMAIL_1] or call [PHONE_1].'
+
+      mockInsertFeedback.mockResolvedValue({
+        id: testFeedbackId,
+        user_id: testUserId,
+        text: rawText,
+        rating: null,
+        source: null,
+        product_id: null,
+        username: null,
+        language: null,
+        translated_text: null,
+        content_hash: null,
+        duplicate_of: null,
+        duplicate_similarity: null,
+        near_duplicate_of: null,
+        near_duplicate_similarity: null,
+        submitted_at: null,
+        upload_id: null,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        embedding: null,
+      })
+      mockEmbedText.mockResolvedValue([0.1, 0.2])
+      mockUpdateFeedbackEmbedding.mockResolvedValue(true)
+      mockAnalyzeFeedback.mockRejectedValue(new Error('stop after analysis call'))
+
+      const response = await POST(createMockRequest({ userId: testUserId, items: [{ text: rawText }] }))
+      const data = await response.json()
+
+      // Raw text is stored by default, providers only see placeholders
+      expect(mockInsertFeedback).toHaveBeenCalledWith(testUserId, rawText, expect.any(Object))
+      expect(mockStoreRedactedValues).not.toHaveBeenCalled()
+      expect(mockDetectAndTranslate).toHaveBeenCalledWith(redactedText, { context: '', rules: [] })
+      expect(mockEmbedText).toHaveBeenCalledWith(redactedText)
+      expect(mockAnalyzeFeedback).toHaveBeenCalledWith(redactedText, { context: '', rules: [] })
+      expect(data.results[0].redactions).toEqual({ order_number: 1, email: 1, phone: 1 })
+    })
+
+    it('should store redacted text and vault the originals when the account opts in', async () => {
+      const rawText = 'My card ending in 4242 was charged twice'
+
+      mockGetAccountSettings.mockResolvedValue({
+
+        redact_before_storage: true,
+
+        duplicate_handling: 'skip',
+
+        prompt_context: '',
+
+        prompt_rules: [],
+
+      })
+      mockInsertFeedback.mockResolvedValue({
+        id: testFeedbackId,
+        user_id: testUserId,
+        text: 'My card ending in [CREDIT_CARD_1] was charged twice',
+        rating: null,
+        source: null,
+        product_id: null,
+        username: null,
+        language: null,
+        translated_text: null,
+        content_hash: null,
+        duplicate_of: null,
+        duplicate_similarity: null,
+        near_duplicate_of: null,
+        near_duplicate_similarity: null,
+        submitted_at: null,
+        upload_id: null,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        embedding: null,
+      })
+      mockIsVaultConfigured.mockReturnValue(true)
+      mockStoreRedactedValues.mockResolvedValue(true)
+      mockEmbedText.mockResolvedValue([0.1, 0.2])
+      mockUpdateFeedbackEmbedding.mockResolvedValue(true)
+      mockAnalyzeFeedback.mockRejectedValue(new Error('stop after analysis call'))
+
+      await POST(createMockRequest({ userId: testUserId, items: [{ text: rawText }] }))
+
+      expect(mockInsertFeedback).toHaveBeenCalledWith(
+        testUserId,
+        'My card ending in [CREDIT_CARD_1] was charged twice',
+        expect.any(Object)
+      )
+      expect(mockStoreRedactedValues).toHaveBeenCalledWith(testUserId, testFeedbackId, [
+        { placeholder: '[CREDIT_CARD_1]', type: 'credit_card', value: '4242' },
+      ])
+    })
+
+    it('should store nothing when the account redacts before storage without a vault key', async () => {
+      mockGetAccountSettings.mockResolvedValue({
+        redact_before_storage: true,
+        duplicate_handling: 'skip',
+        prompt_context: '',
+        prompt_rules: [],
+      })
+      mockIsVaultConfigured.mockReturnValue(false)
+
+      const response = await POST(createMockRequest({ userId: testUserId, items: [{ text: 'Call me at 555-0100' }] }))
+      const data = await response.json()
+
+      expect(response.status).toBe(500)
+      expect(data.message).toBe('PII_VAULT_KEY must be set to store redacted feedback')
+      expect(mockInsertFeedback).not.toHaveBeenCalled()
+      expect(mockAnalyzeFeedback).not.toHaveBeenCalled()
+    })
+
+    it('should fail the item and delete its feedback when the originals cannot be vaulted', async () => {
+      mockGetAccountSettings.mockResolvedValue({
+        redact_before_storage: true,
+        duplicate_handling: 'skip',
+        prompt_context: '',
+        prompt_rules: [],
+      })
+      mockIsVaultConfigured.mockReturnValue(true)
+      mockInsertFeedback.mockResolvedValue({ id: testFeedbackId, user_id: testUserId, text: 'Call me at [PHONE_1]' } as any)
+      mockStoreRedactedValues.mockResolvedValue(false)
+      mockDeleteFeedback.mockResolvedValue(true)
+
+      const result = await analyzeFeedbackBatch(testUserId, [{ text: 'Call me at 555-0100' }])
+
+      expect(mockDeleteFeedback).toHaveBeenCalledWith(testUserId, testFeedbackId)
+      expect(result.results[0]).toMatchObject({
+        success: false,
+        error: 'Failed to store redacted values in the PII vault',
+      })
+      expect(mockAnalyzeFeedback).not.toHaveBeenCalled()
+    })
+
+    it("should pass the account's custom instructions to every prompt", async () => {
+      const instructions = {
+        context: "We are a B2B payroll SaaS; 'run' means payroll run",
+        rules: ['Always treat refund requests as high urgency'],
+      }
+      mockGetAccountSettings.mockResolvedValue({
+        redact_before_storage: false,
+        duplicate_handling: 'skip',
+        prompt_context: instructions.context,
+        prompt_rules: instructions.rules,
+      })
+      mockInsertFeedback.mockResolvedValue({
+        id: testFeedbackId,
+        user_id: testUserId,
+        text: 'The run failed again',
+        rating: null,
+        source: null,
+        product_id: null,
+        username: null,
+        language: null,
+        translated_text: null,
+        content_hash: null,
+        duplicate_of: null,
+        duplicate_similarity: null,
+        near_duplicate_of: null,
+        near_duplicate_similarity: null,
+        submitted_at: null,
+        upload_id: null,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        embedding: null,
+      })
+      mockEmbedText.mockResolvedValue([0.1, 0.2])
+      mockUpdateFeedbackEmbedding.mockResolvedValue(true)
+      mockAnalyzeFeedback.mockRejectedValue(new Error('stop after analysis call'))
+
+      await POST(createMockRequest({ userId: testUserId, items: [{ text: 'The run failed again' }] }))
+
+      expect(mockDetectAndTranslate).toHaveBeenCalledWith('The run failed again', instructions)
+      expect(mockAnalyzeFeedback).toHaveBeenCalledWith('The run failed again', instructions)
+    })
+
+    it('should record the token usage of every feedback entry under one upload', async () => {
+      mockInsertFeedback.mockImplementation(async (userId, text) => ({ id: `feedback_${text}`, user_id: userId, text }) as any)
+      mockUpdateFeedbackEmbedding.mockResolvedValue(true)
+      // One batched embedding request for both texts (4 and 12 characters)
+      mockEmbedTexts.mockImplementation(async (texts) => {
+        recordUsage({ operation: 'embedTexts', kind: 'embedding', model: 'text-embedding-3-small', promptTokens: 40, completionTokens: 0, estimated: false })
+        return texts.map(() => [0.1, 0.2])
+      })
+      mockAnalyzeFeedback.mockImplementation(async (text) => {
+        recordUsage({ operation: 'feedback_analysis', kind: 'completion', model: 'gpt-4o-mini', promptTokens: 500, completionTokens: text.length, estimated: false })
+        throw new Error('stop after analysis call')
+      })
+      // Embedding new topic strings belongs to the upload, not to one entry
+      mockAssignCanonicalTopics.mockImplementation(async () => {
+        recordUsage({ operation: 'embedTexts', kind: 'embedding', model: 'text-embedding-3-small', promptTokens: 6, completionTokens: 0, estimated: false })
+        return { created: 1, merged: 0 }
+      })
+
+      await POST(createMockRequest({ userId: testUserId, items: [{ text: 'Slow' }, { text: 'Checkout bug' }] }))
+
+      expect(mockStoreUsageRecords).toHaveBeenCalledTimes(1)
+      const [userId, entries] = mockStoreUsageRecords.mock.calls[0]
+      expect(userId).toBe(testUserId)
+      expect(entries.map((entry) => entry.feedbackId)).toEqual(['feedback_Slow', 'feedback_Checkout bug', undefined])
+      expect(entries[0].uploadId).toEqual(expect.any(String))
+      expect(entries[1].uploadId).toBe(entries[0].uploadId)
+      // The feedback is stored under the same upload
+      expect(mockInsertFeedback.mock.calls.map(([, , metadata]) => metadata?.upload_id)).toEqual([
+        entries[0].uploadId,
+        entries[0].uploadId,
+      ])
+      expect(entries[0].records).toEqual([
+        expect.objectContaining({ kind: 'embedding', promptTokens: 10 }),
+        expect.objectContaining({ operation: 'feedback_analysis', promptTokens: 500, completionTokens: 4 }),
+      ])
+      expect(entries[1].records).toEqual([
+        expect.objectContaining({ kind: 'embedding', promptTokens: 30 }),
+        expect.objectContaining({ operation: 'feedback_analysis', promptTokens: 500, completionTokens: 12 }),
+      ])
+      expect(entries[2]).toEqual({
+        uploadId: entries[0].uploadId,
+        records: [expect.objectContaining({ kind: 'embedding', promptTokens: 6 })],
+      })
+    })
+
+    it('should classify feedback into the account taxonomy and keep topics as tags', async () => {
+      const now = new Date().toISOString()
+      mockGetTaxonomy.mockResolvedValue([
+        { id: 'cat_shipping', user_id: testUserId, name: 'Shipping', description: 'Delivery', examples: [], parent_id: null, created_at: now, updated_at: now },
+        { id: 'cat_late', user_id: testUserId, name: 'Late delivery', description: null, examples: ['still waiting'], parent_id: 'cat_shipping', created_at: now, updated_at: now },
+      ])
+      mockClassifyFeedback.mockResolvedValue(['Shipping > Late delivery'])
+      mockInsertFeedback.mockResolvedValue({
+        id: testFeedbackId,
+        user_id: testUserId,
+        text: 'Still waiting for my parcel',
+        rating: null,
+        source: null,
+        product_id: null,
+        username: null,
+        language: null,
+        translated_text: null,
+        content_hash: null,
+        duplicate_of: null,
+        duplicate_similarity: null,
+        near_duplicate_of: null,
+        near_duplicate_similarity: null,
+        submitted_at: null,
+        upload_id: null,
+        created_at: now,
+        updated_at: now,
+        embedding: null,
+      })
+      mockEmbedText.mockResolvedValue([0.1, 0.2])
+      mockUpdateFeedbackEmbedding.mockResolvedValue(true)
+      mockAnalyzeFeedback.mockResolvedValue({
+        sentiment: 'negative',
+        sentiment_score: 0.8,
+        emotion: 'frustration',
+        urgency: 'medium',
+        severity_score: 0.5,
+        intents: [],
+        entities: [],
+        topics: ['late package'],
+        topic_sentiments: [{ topic: 'late package', sentiment: 'negative', score: -0.7 }],
+        summary: 'Parcel has not arrived',
+        recommendation: 'Check with the courier',
+      })
+      mockInsertTopicSentiments.mockResolvedValue([])
+      mockInsertAnalysis.mockImplementation(async (feedbackId, analysis) => ({
+        id: testAnalysisId,
+        feedback_id: feedbackId,
+        sentiment: analysis.sentiment || null,
+        sentiment_score: analysis.sentiment_score ?? null,
+        emotion: analysis.emotion || null,
+        urgency: analysis.urgency || null,
+        severity_score: analysis.severity_score ?? null,
+        intents: analysis.intents || [],
+        topics: analysis.topics || null,
+        categories: analysis.categories || [],
+        summary: analysis.summary || null,
+        recommendation: analysis.recommendation || null,
+        confidence_score: null,
+        status: 'complete',
+        subtask_status: {},
+        model: null,
+        prompt_version: null,
+        instructions_hash: null,
+        analyzed_at: new Date().toISOString(),
+        created_at: now,
+        updated_at: now,
+      }))
+
+      const response = await POST(createMockRequest({ userId: testUserId, items: [{ text: 'Still waiting for my parcel' }] }))
+      const data = await response.json()
+
+      expect(mockClassifyFeedback).toHaveBeenCalledWith('Still waiting for my parcel', [
+        { label: 'Shipping', description: 'Delivery', examples: [] },
+        { label: 'Shipping > Late delivery', description: null, examples: ['still waiting'] },
+      ], { context: '', rules: [] })
+      expect(mockInsertAnalysis).toHaveBeenCalledWith(
+        testFeedbackId,
+        expect.objectContaining({ categories: ['Shipping > Late delivery'], topics: ['late package'] })
+      )
+      expect(data.results[0].analysis.categories).toEqual(['Shipping > Late delivery'])
+      expect(mockAssignCanonicalTopics).toHaveBeenCalledWith(testUserId, ['late package'])
+    })
+  })
+
+  describe('Duplicate feedback', () => {
+    const now = new Date().toISOString()
+    const originalAnalysis = {
+      id: 'analysis_original',
+      feedback_id: 'feedback_original',
+      sentiment: 'negative' as const,
+      sentiment_score: 0.8,
+      emotion: 'frustration' as const,
+      urgency: 'high' as const,
+      severity_score: 0.6,
+      intents: [],
+      topics: ['billing'],
+      categories: [],
+      summary: 'Charged twice',
+      recommendation: 'Refund the duplicate charge',
+      confidence_score: null,
+      status: 'complete' as const,
+      subtask_status: {},
+      model: null,
+      prompt_version: null,
+      instructions_hash: null,
+      analyzed_at: new Date().toISOString(),
+      created_at: now,
+      updated_at: now,
+    }
+
+    function mockFeedback(id: string, text: string) {
+      return {
+        id,
+        user_id: testUserId,
+        text,
+        rating: null,
+        source: null,
+        product_id: null,
+        username: null,
+        language: null,
+        translated_text: null,
+        content_hash: null,
+        duplicate_of: null,
+        duplicate_similarity: null,
+        near_duplicate_of: null,
+        near_duplicate_similarity: null,
+        submitted_at: null,
+        upload_id: null,
+        created_at: now,
+        updated_at: now,
+        embedding: null,
+      }
+    }
+
+    it('should skip feedback that was already analyzed without charging quota', async () => {
+      const text = 'I was charged twice this month'
+      mockFindFeedbackByContentHash.mockImplementation(async (userId, hashes) =>
+        new Map([[hashes[0], {
+          feedback_id: 'feedback_original',
+          language: 'en',
+          analysis: originalAnalysis,
+          topic_sentiments: [{ topic: 'billing', sentiment: 'negative' as const, score: -0.8 }],
+        }]])
+      )
+      mockCheckUserQuota.mockResolvedValue({ allowed: true, remaining: 0, plan: 'free', status: 'active' })
+
+      const response = await POST(createMockRequest({ userId: testUserId, items: [{ text }] }))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(mockInsertFeedback).not.toHaveBeenCalled()
+      expect(mockEmbedText).not.toHaveBeenCalled()
+      expect(mockAnalyzeFeedback).not.toHaveBeenCalled()
+      expect(mockIncrementUsage).not.toHaveBeenCalled()
+      expect(data.duplicates).toBe(1)
+      expect(data.results[0]).toMatchObject({
+        success: true,
+        feedbackId: 'feedback_original',
+        duplicate: { of: 'feedback_original', action: 'skip' },
+        analysis: { sentiment: 'negative', topics: ['billing'], summary: 'Charged twice' },
+      })
+    })
+
+    it('should analyze repeats within a batch once and re-use the analysis', async () => {
+      mockGetAccountSettings.mockResolvedValue({
+        redact_before_storage: false,
+        duplicate_handling: 'reuse',
+        prompt_context: '',
+        prompt_rules: [],
+      })
+      mockInsertFeedback
+        .mockResolvedValueOnce(mockFeedback('feedback_1', 'Checkout keeps failing'))
+        .mockResolvedValueOnce(mockFeedback('feedback_2', '  checkout KEEPS failing '))
+      mockEmbedText.mockResolvedValue([0.1, 0.2])
+      mockUpdateFeedbackEmbedding.mockResolvedValue(true)
+      mockAnalyzeFeedback.mockResolvedValue({
+        sentiment: 'negative',
+        sentiment_score: 0.9,
+        emotion: 'frustration',
+        urgency: 'high',
+        severity_score: 0.7,
+        intents: [],
+        entities: [],
+        topics: ['checkout'],
+        topic_sentiments: [],
+        summary: 'Checkout fails',
+        recommendation: 'Investigate checkout errors',
+      })
+      mockInsertTopicSentiments.mockResolvedValue([])
+      mockInsertAnalysis.mockImplementation(async (feedbackId, analysis) => ({
+        ...originalAnalysis,
+        feedback_id: feedbackId,
+        sentiment: analysis.sentiment || null,
+        topics: analysis.topics || null,
+        summary: analysis.summary || null,
+      }))
+      mockCopyFeedbackAnalysis.mockResolvedValue(originalAnalysis)
+
+      const response = await POST(
+        createMockRequest({
+          userId: testUserId,
+          items: [{ text: 'Checkout keeps failing' }, { text: '  checkout KEEPS failing ' }],
+        })
+      )
+      const data = await response.json()
+
+      expect(mockAnalyzeFeedback).toHaveBeenCalledTimes(1)
+      expect(mockEmbedText).toHaveBeenCalledTimes(1)
+      expect(mockInsertFeedback).toHaveBeenLastCalledWith(
+        testUserId,
+        '  checkout KEEPS failing ',
+        expect.objectContaining({ duplicate_of: 'feedback_1' })
+      )
+      expect(mockCopyFeedbackAnalysis).toHaveBeenCalledWith('feedback_1', 'feedback_2')
+      expect(mockIncrementUsage).toHaveBeenCalledTimes(1)
+      expect(data.results[1]).toMatchObject({
+        success: true,
+        feedbackId: 'feedback_2',
+        duplicate: { of: 'feedback_1', action: 'reuse' },
+        analysis: { topics: ['checkout'] },
+      })
+    })
+
+    it('should only require quota for items that need a new analysis', async () => {
+      const texts = ['Old complaint', 'Another old complaint', 'Brand new feedback']
+      mockFindFeedbackByContentHash.mockImplementation(async (userId, hashes) =>
+        new Map(hashes.slice(0, 2).map((hash) => [hash, {
+          feedback_id: 'feedback_original',
+          language: null,
+          analysis: originalAnalysis,
+          topic_sentiments: [],
+        }]))
+      )
+      mockCheckUserQuota.mockResolvedValue({ allowed: true, remaining: 1, plan: 'free', status: 'active' })
+      mockInsertFeedback.mockResolvedValue(mockFeedback(testFeedbackId, texts[2]))
+
+      const response = await POST(
+        createMockRequest({ userId: testUserId, items: texts.map((text) => ({ text })) })
+      )
+
+      expect(response.status).toBe(200)
+      expect(mockInsertFeedback).toHaveBeenCalledTimes(1)
+    })
+
+    it('should link near-duplicates to earlier feedback and still analyze and charge them', async () => {
+      mockInsertFeedback
+        .mockResolvedValueOnce(mockFeedback('feedback_1', 'The app crashes when I open settings'))
+        .mockResolvedValueOnce(mockFeedback('feedback_2', 'App crashes whenever settings are opened'))
+      mockEmbedText.mockImplementation(async (text) => (text.startsWith('The') ? [1, 0] : [0, 1]))
+      mockUpdateFeedbackEmbedding.mockResolvedValue(true)
+      // Each item is most similar to itself, then to the other one
+      mockSearchSimilarFeedback.mockImplementation(async (embedding) =>
+        embedding[0] === 1
+          ? [{ id: 'feedback_1', text: '', similarity: 1 }, { id: 'feedback_2', text: '', similarity: 0.97 }]
+          : [{ id: 'feedback_2', text: '', similarity: 1 }, { id: 'feedback_1', text: '', similarity: 0.97 }]
+      )
+      mockAnalyzeFeedback.mockResolvedValue({
+        sentiment: 'negative',
+        sentiment_score: 0.9,
+        emotion: 'frustration',
+        urgency: 'high',
+        severity_score: 0.8,
+        intents: [],
+        entities: [],
+        topics: ['crash'],
+        topic_sentiments: [],
+        summary: 'App crashes in settings',
+        recommendation: 'Fix the settings crash',
+      })
+      mockInsertTopicSentiments.mockResolvedValue([])
+      mockInsertAnalysis.mockImplementation(async (feedbackId) => ({ ...originalAnalysis, feedback_id: feedbackId }))
+
+      const response = await POST(
+        createMockRequest({
+          userId: testUserId,
+          items: [
+            { text: 'The app crashes when I open settings' },
+            { text: 'App crashes whenever settings are opened' },
+          ],
+        })
+      )
+      const data = await response.json()
+
+      // Only the later item is linked, never to itself
+      expect(mockFlagNearDuplicates).toHaveBeenCalledWith(
+        testUserId,
+        new Map([['feedback_2', { duplicate_of: 'feedback_1', similarity: 0.97 }]])
+      )
+      expect(mockAnalyzeFeedback).toHaveBeenCalledTimes(2)
+      expect(mockIncrementUsage).toHaveBeenCalledTimes(2)
+      expect(data.results[0].nearDuplicate).toBeUndefined()
+      expect(data.results[1].nearDuplicate).toEqual({ duplicate_of: 'feedback_1', similarity: 0.97 })
     })
   })
 
@@ -359,6 +1389,15 @@ describe('POST /api/analyze - Integration Test', () => {
         source: 'mobile',
         product_id: 'prod_123',
         username: 'testuser',
+        language: null,
+        translated_text: null,
+        content_hash: null,
+        duplicate_of: null,
+        duplicate_similarity: null,
+        near_duplicate_of: null,
+        near_duplicate_similarity: null,
+        submitted_at: null,
+        upload_id: null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
         embedding: null,
@@ -369,7 +1408,15 @@ describe('POST /api/analyze - Integration Test', () => {
       mockAnalyzeFeedback.mockResolvedValue({
         sentiment: 'positive',
         sentiment_score: 0.9,
+        emotion: 'delight',
+        urgency: 'low',
+        severity_score: 0.1,
+        intents: [],
+        entities: [],
         topics: ['test'],
+        topic_sentiments: [
+          { topic: 'test', sentiment: 'positive', score: 0.8 },
+        ],
         summary: 'Test summary',
         recommendation: 'Test rec',
       })
@@ -378,10 +1425,21 @@ describe('POST /api/analyze - Integration Test', () => {
         feedback_id: testFeedbackId,
         sentiment: 'positive',
         sentiment_score: 0.9,
+        emotion: 'delight',
+        urgency: 'low',
+        severity_score: 0.1,
+        intents: [],
         topics: ['test'],
         summary: 'Test summary',
         recommendation: 'Test rec',
+        categories: [],
         confidence_score: null,
+        status: 'complete',
+        subtask_status: {},
+        model: null,
+        prompt_version: null,
+        instructions_hash: null,
+        analyzed_at: new Date().toISOString(),
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
@@ -402,6 +1460,8 @@ describe('POST /api/analyze - Integration Test', () => {
           source: 'mobile',
           product_id: 'prod_123',
           username: 'testuser',
+          content_hash: expect.any(String),
+          upload_id: expect.any(String),
         }
       )
     })
@@ -411,8 +1471,18 @@ describe('POST /api/analyze - Integration Test', () => {
 
       const mockAnalysis = {
         sentiment: 'negative' as const,
-        sentiment_score: 0.2,
+        sentiment_score: -0.6,
+        confidence_score: 0.9,
+        emotion: 'frustration' as const,
+        urgency: 'high' as const,
+        severity_score: 0.7,
+        intents: [],
+        entities: [],
         topics: ['issue', 'bug'],
+        topic_sentiments: [
+          { topic: 'issue', sentiment: 'negative' as const, score: -0.6 },
+          { topic: 'bug', sentiment: 'negative' as const, score: -0.6 },
+        ],
         summary: 'Customer reported an issue',
         recommendation: 'Investigate and fix the bug',
       }
@@ -425,6 +1495,15 @@ describe('POST /api/analyze - Integration Test', () => {
         source: null,
         product_id: null,
         username: null,
+        language: null,
+        translated_text: null,
+        content_hash: null,
+        duplicate_of: null,
+        duplicate_similarity: null,
+        near_duplicate_of: null,
+        near_duplicate_similarity: null,
+        submitted_at: null,
+        upload_id: null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
         embedding: null,
@@ -437,7 +1516,13 @@ describe('POST /api/analyze - Integration Test', () => {
         id: testAnalysisId,
         feedback_id: testFeedbackId,
         ...mockAnalysis,
-        confidence_score: null,
+        categories: [],
+        status: 'complete',
+        subtask_status: {},
+        model: null,
+        prompt_version: null,
+        instructions_hash: null,
+        analyzed_at: new Date().toISOString(),
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
@@ -452,10 +1537,21 @@ describe('POST /api/analyze - Integration Test', () => {
       // Verify insertAnalysis was called with all analysis fields
       expect(mockInsertAnalysis).toHaveBeenCalledWith(testFeedbackId, {
         sentiment: 'negative',
-        sentiment_score: 0.2,
+        sentiment_score: -0.6,
+        confidence_score: 0.9,
+        emotion: 'frustration',
+        urgency: 'high',
+        severity_score: 0.7,
+        intents: [],
         topics: ['issue', 'bug'],
+        categories: [],
         summary: 'Customer reported an issue',
         recommendation: 'Investigate and fix the bug',
+        status: 'complete',
+        subtask_status: expect.objectContaining({ analysis: 'ok' }),
+        model: 'gpt-4o-mini',
+        prompt_version: 1,
+        instructions_hash: hashInstructions({ context: '', rules: [] }),
       })
     })
   })
@@ -472,6 +1568,15 @@ describe('POST /api/analyze - Integration Test', () => {
         source: null,
         product_id: null,
         username: null,
+        language: null,
+        translated_text: null,
+        content_hash: null,
+        duplicate_of: null,
+        duplicate_similarity: null,
+        near_duplicate_of: null,
+        near_duplicate_similarity: null,
+        submitted_at: null,
+        upload_id: null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
         embedding: null,
@@ -482,7 +1587,13 @@ describe('POST /api/analyze - Integration Test', () => {
       mockAnalyzeFeedback.mockResolvedValue({
         sentiment: 'positive',
         sentiment_score: 0.9,
+        emotion: 'delight',
+        urgency: 'low',
+        severity_score: 0.1,
+        intents: [],
+        entities: [],
         topics: ['quality'],
+        topic_sentiments: [{ topic: 'quality', sentiment: 'positive', score: 0.9 }],
         summary: 'Positive feedback',
         recommendation: 'Keep it up',
       })
@@ -491,10 +1602,21 @@ describe('POST /api/analyze - Integration Test', () => {
         feedback_id: testFeedbackId,
         sentiment: 'positive',
         sentiment_score: 0.9,
+        emotion: 'delight',
+        urgency: 'low',
+        severity_score: 0.1,
+        intents: [],
         topics: ['quality'],
         summary: 'Positive feedback',
         recommendation: 'Keep it up',
+        categories: [],
         confidence_score: null,
+        status: 'complete',
+        subtask_status: {},
+        model: null,
+        prompt_version: null,
+        instructions_hash: null,
+        analyzed_at: new Date().toISOString(),
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
@@ -527,6 +1649,7 @@ describe('POST /api/analyze - Integration Test', () => {
       expect(analysis).toHaveProperty('sentiment')
       expect(analysis).toHaveProperty('sentiment_score')
       expect(analysis).toHaveProperty('topics')
+      expect(analysis).toHaveProperty('topic_sentiments')
       expect(analysis).toHaveProperty('summary')
       expect(analysis).toHaveProperty('recommendation')
 
@@ -565,6 +1688,88 @@ describe('POST /api/analyze - Integration Test', () => {
       expect(mockInsertFeedback).not.toHaveBeenCalled()
     })
 
+    it('should store nothing when the account settings cannot be loaded', async () => {
+      mockGetAccountSettings.mockRejectedValue(new AccountSettingsError('Account settings could not be loaded'))
+
+      const response = await POST(createMockRequest({ userId: testUserId, items: [{ text: 'Call me at 555-0100' }] }))
+
+      expect(response.status).toBe(500)
+      await expect(analyzeFeedbackBatch(testUserId, [{ text: 'Call me at 555-0100' }])).rejects.toThrow(
+        AccountSettingsError
+      )
+      expect(mockInsertFeedback).not.toHaveBeenCalled()
+      expect(mockAnalyzeFeedback).not.toHaveBeenCalled()
+    })
+
+    it('should fail items with the provider error kind and warn when the provider is down', async () => {
+      mockInsertFeedback
+        .mockResolvedValueOnce({ id: 'feedback_1', user_id: testUserId, text: 'First' } as any)
+        .mockResolvedValueOnce({ id: 'feedback_2', user_id: testUserId, text: 'Second' } as any)
+      mockEmbedText.mockResolvedValue([0.1, 0.2])
+      mockUpdateFeedbackEmbedding.mockResolvedValue(true)
+      mockAnalyzeFeedback.mockRejectedValue(
+        new ProviderError('circuit_open', 'Failed to run LLM: Provider unavailable after 5 consecutive failures')
+      )
+
+      const response = await POST(
+        createMockRequest({ userId: testUserId, items: [{ text: 'First' }, { text: 'Second' }] })
+      )
+      const data = await response.json()
+
+      expect(data.failed).toBe(2)
+      expect(data.results[0]).toMatchObject({ success: false, errorKind: 'circuit_open' })
+      expect(data.warning).toContain('AI provider is unavailable')
+      expect(mockInsertAnalysis).toHaveBeenCalledWith('feedback_1', {
+        status: 'failed',
+        subtask_status: expect.objectContaining({ analysis: 'failed' }),
+        model: 'gpt-4o-mini',
+        prompt_version: 1,
+        instructions_hash: hashInstructions({ context: '', rules: [] }),
+      })
+      expect(mockIncrementUsage).not.toHaveBeenCalled()
+    })
+
+    it('should record partial analyses without charging them against the quota', async () => {
+      mockInsertFeedback.mockResolvedValue({ id: 'feedback_1', user_id: testUserId, text: 'Checkout fails' } as any)
+      mockEmbedText.mockResolvedValue([0.1, 0.2])
+      mockUpdateFeedbackEmbedding.mockResolvedValue(true)
+      mockGetTaxonomy.mockResolvedValue([
+        { id: 'cat_checkout', user_id: testUserId, name: 'Checkout', description: null, examples: [], parent_id: null, created_at: '', updated_at: '' },
+      ])
+      mockClassifyFeedback.mockRejectedValue(new Error('Invalid schema'))
+      mockAnalyzeFeedback.mockResolvedValue({
+        sentiment: 'negative',
+        sentiment_score: 0.2,
+        emotion: 'frustration',
+        urgency: 'high',
+        severity_score: 0.7,
+        intents: [],
+        entities: [],
+        topics: ['checkout'],
+        topic_sentiments: [{ topic: 'checkout', sentiment: 'negative', score: -0.8 }],
+        summary: 'Checkout fails',
+        recommendation: 'Investigate checkout errors',
+      })
+      mockInsertAnalysis.mockImplementation(async (feedbackId, analysis) => ({ id: 'analysis_1', feedback_id: feedbackId, ...analysis }) as any)
+
+      const response = await POST(createMockRequest({ userId: testUserId, items: [{ text: 'Checkout fails' }] }))
+      const data = await response.json()
+
+      expect(data.succeeded).toBe(1)
+      expect(data.partial).toBe(1)
+      expect(data.results[0]).toMatchObject({
+        success: true,
+        status: 'partial',
+        subtasks: { analysis: 'ok', classification: 'failed' },
+      })
+      expect(data.warning).toContain('partially analyzed')
+      expect(mockInsertAnalysis).toHaveBeenCalledWith(
+        'feedback_1',
+        expect.objectContaining({ status: 'partial', categories: [] })
+      )
+      expect(mockIncrementUsage).not.toHaveBeenCalled()
+    })
+
     it('should handle missing userId', async () => {
       const request = createMockRequest({
         items: [{ text: 'Test' }],
@@ -577,6 +1782,17 @@ describe('POST /api/analyze - Integration Test', () => {
       expect(data).toHaveProperty('error', 'Missing required field: userId')
     })
 
+    it('should reject items with an invalid submittedAt', async () => {
+      const response = await POST(
+        createMockRequest({ userId: testUserId, items: [{ text: 'Test', submittedAt: 'last week' }] })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('Invalid item at index 0: submittedAt must be an ISO 8601 date')
+      expect(mockInsertFeedback).not.toHaveBeenCalled()
+    })
+
     it('should handle invalid items array', async () => {
       const request = createMockRequest({
         userId: testUserId,
@@ -0,0 +1,90 @@
+/// <reference types="jest" />
+
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/ask/route'
+
+// Authenticate every request as the test user
+jest.mock('@/lib/auth', () => ({
+  withAuth: (handler: any) => (req: Request) => handler(req, { userId: 'user_test_123', user: null }),
+}))
+
+// Request validation stays real; answering is mocked
+jest.mock('@/lib/ask', () => ({
+  ...jest.requireActual('@/lib/ask'),
+  askFeedback: jest.fn(),
+}))
+
+import { askFeedback } from '@/lib/ask'
+import { ProviderError } from '@/lib/resilience'
+
+const mockAskFeedback = askFeedback as jest.MockedFunction<typeof askFeedback>
+
+function createRequest(body: string): NextRequest {
+  return new NextRequest('http://localhost:3000/api/ask', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+  })
+}
+
+describe('POST /api/ask', () => {
+  const originalConsoleError = console.error
+
+  beforeAll(() => {
+    console.error = jest.fn()
+  })
+
+  afterAll(() => {
+    console.error = originalConsoleError
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should answer from the caller\'s feedback with the validated filters', async () => {
+    mockAskFeedback.mockResolvedValue({
+      question: 'Why is onboarding slow?',
+      answer: 'Setup takes weeks [1].',
+      citations: [],
+      retrieved: 1,
+      model: 'gpt-4o-mini',
+      prompt_version: 1,
+    })
+
+    const response = await POST(
+      createRequest(JSON.stringify({ question: ' Why is onboarding slow? ', sentiment: 'negative' }))
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.answer).toBe('Setup takes weeks [1].')
+    expect(mockAskFeedback).toHaveBeenCalledWith('user_test_123', 'Why is onboarding slow?', { sentiment: 'negative' })
+  })
+
+  it.each(['null', '"Why is onboarding slow?"', '[]', '42'])(
+    'should reject the JSON body %s with 400',
+    async (body) => {
+      const response = await POST(createRequest(body))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data).toEqual({ success: false, error: 'Request body must be a JSON object' })
+      expect(mockAskFeedback).not.toHaveBeenCalled()
+    }
+  )
+
+  it('should reject invalid JSON with 400', async () => {
+    const response = await POST(createRequest('{"question":'))
+
+    expect(response.status).toBe(400)
+  })
+
+  it('should return 503 when the AI provider is unavailable', async () => {
+    mockAskFeedback.mockRejectedValue(new ProviderError('rate_limit', 'rate limited'))
+
+    const response = await POST(createRequest(JSON.stringify({ question: 'Why?' })))
+
+    expect(response.status).toBe(503)
+  })
+})
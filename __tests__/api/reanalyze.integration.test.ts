@@ -0,0 +1,314 @@
+/// <reference types="jest" />
+
+import { POST } from '@/app/api/feedback/reanalyze/route'
+
+// Authenticate every request as the test user
+jest.mock('@/lib/auth', () => ({
+  withAuth: (handler: any) => (req: Request) => handler(req, { userId: 'user_test_123', user: null }),
+}))
+
+// Mock Supabase helpers used by re-analysis
+jest.mock('@/lib/supabase', () => ({
+  getFeedbackForReanalysis: jest.fn(),
+  replaceAnalysis: jest.fn(),
+  replaceTopicSentiments: jest.fn(),
+}))
+
+// Mock the LLM calls (MAX_ITEMS_PER_BATCH stays real)
+jest.mock('@/lib/langchain', () => ({
+  ...jest.requireActual('@/lib/langchain'),
+  analyzeFeedback: jest.fn(),
+  classifyFeedback: jest.fn(),
+  getAnalysisVersion: jest.fn(),
+}))
+
+jest.mock('@/lib/billing', () => ({
+  checkUserQuota: jest.fn(),
+  incrementUsage: jest.fn(),
+}))
+
+jest.mock('@/lib/taxonomy', () => ({
+  ...jest.requireActual('@/lib/taxonomy'),
+  getTaxonomy: jest.fn(),
+}))
+
+jest.mock('@/lib/settings', () => ({
+  ...jest.requireActual('@/lib/settings'),
+  getAccountSettings: jest.fn(),
+}))
+
+jest.mock('@/lib/topics', () => ({
+  assignCanonicalTopics: jest.fn(),
+}))
+
+jest.mock('@/lib/costs', () => ({
+  storeUsageRecords: jest.fn(),
+}))
+
+jest.mock('@/lib/entities', () => ({
+  ...jest.requireActual('@/lib/entities'),
+  getEntityDictionary: jest.fn(),
+  replaceFeedbackEntities: jest.fn(),
+}))
+
+import { getFeedbackForReanalysis, replaceAnalysis, replaceTopicSentiments } from '@/lib/supabase'
+import { analyzeFeedback, classifyFeedback, getAnalysisVersion } from '@/lib/langchain'
+import { checkUserQuota, incrementUsage } from '@/lib/billing'
+import { getTaxonomy } from '@/lib/taxonomy'
+import { getAccountSettings } from '@/lib/settings'
+import { hashInstructions } from '@/lib/prompts'
+import { assignCanonicalTopics } from '@/lib/topics'
+import { storeUsageRecords } from '@/lib/costs'
+import { getEntityDictionary, replaceFeedbackEntities } from '@/lib/entities'
+import { diffAnalyses } from '@/lib/analyze'
+import { ProviderError } from '@/lib/resilience'
+
+const mockGetFeedbackForReanalysis = getFeedbackForReanalysis as jest.MockedFunction<typeof getFeedbackForReanalysis>
+const mockReplaceAnalysis = replaceAnalysis as jest.MockedFunction<typeof replaceAnalysis>
+const mockReplaceTopicSentiments = replaceTopicSentiments as jest.MockedFunction<typeof replaceTopicSentiments>
+const mockAnalyzeFeedback = analyzeFeedback as jest.MockedFunction<typeof analyzeFeedback>
+const mockClassifyFeedback = classifyFeedback as jest.MockedFunction<typeof classifyFeedback>
+const mockGetAnalysisVersion = getAnalysisVersion as jest.MockedFunction<typeof getAnalysisVersion>
+const mockCheckUserQuota = checkUserQuota as jest.MockedFunction<typeof checkUserQuota>
+const mockIncrementUsage = incrementUsage as jest.MockedFunction<typeof incrementUsage>
+const mockGetTaxonomy = getTaxonomy as jest.MockedFunction<typeof getTaxonomy>
+const mockGetAccountSettings = getAccountSettings as jest.MockedFunction<typeof getAccountSettings>
+const mockAssignCanonicalTopics = assignCanonicalTopics as jest.MockedFunction<typeof assignCanonicalTopics>
+const mockStoreUsageRecords = storeUsageRecords as jest.MockedFunction<typeof storeUsageRecords>
+const mockGetEntityDictionary = getEntityDictionary as jest.MockedFunction<typeof getEntityDictionary>
+const mockReplaceFeedbackEntities = replaceFeedbackEntities as jest.MockedFunction<typeof replaceFeedbackEntities>
+
+describe('POST /api/feedback/reanalyze - Integration Test', () => {
+  const testUserId = 'user_test_123'
+  const now = new Date().toISOString()
+  const storedAnalysis = {
+    id: 'analysis_1',
+    feedback_id: 'feedback_1',
+    sentiment: 'neutral' as const,
+    sentiment_score: 0.6,
+    emotion: 'neutral' as const,
+    urgency: 'low' as const,
+    severity_score: 0.2,
+    intents: [],
+    topics: ['shipping'],
+    categories: [],
+    summary: 'Shipping was slow',
+    recommendation: 'Review carriers',
+    confidence_score: null,
+    status: 'complete' as const,
+    subtask_status: { translation: 'ok' as const, embedding: 'ok' as const },
+    model: 'gpt-3.5-turbo',
+    prompt_version: null,
+    instructions_hash: null,
+    analyzed_at: now,
+    created_at: now,
+    updated_at: now,
+  }
+  const row = {
+    id: 'feedback_1',
+    text: 'Shipping took two weeks, call me at 555-123-4567',
+    translated_text: null,
+    analysis: storedAnalysis,
+  }
+  const newResult = {
+    sentiment: 'negative' as const,
+    sentiment_score: 0.9,
+    emotion: 'frustration' as const,
+    urgency: 'medium' as const,
+    severity_score: 0.2,
+    intents: [],
+    entities: [],
+    topics: ['shipping delay'],
+    topic_sentiments: [{ topic: 'shipping delay', sentiment: 'negative' as const, score: -0.8 }],
+    summary: 'Shipping was slow',
+    recommendation: 'Review carriers',
+  }
+
+  const originalConsoleLog = console.log
+  const originalConsoleWarn = console.warn
+  const originalConsoleError = console.error
+
+  beforeAll(() => {
+    console.log = jest.fn()
+    console.warn = jest.fn()
+    console.error = jest.fn()
+  })
+
+  afterAll(() => {
+    console.log = originalConsoleLog
+    console.warn = originalConsoleWarn
+    console.error = originalConsoleError
+  })
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+
+    mockCheckUserQuota.mockResolvedValue({ allowed: true, remaining: 100, plan: 'pro', status: 'active' })
+    mockIncrementUsage.mockResolvedValue(true)
+    mockStoreUsageRecords.mockResolvedValue(true)
+    mockGetAnalysisVersion.mockReturnValue({ model: 'gpt-4o-mini', prompt_version: 2 })
+    mockGetTaxonomy.mockResolvedValue([])
+    mockGetAccountSettings.mockResolvedValue({
+      redact_before_storage: false,
+      duplicate_handling: 'skip',
+      prompt_context: 'Payroll SaaS',
+      prompt_rules: [],
+    })
+    mockClassifyFeedback.mockResolvedValue([])
+    mockAssignCanonicalTopics.mockResolvedValue({ created: 0, merged: 0 })
+    mockGetFeedbackForReanalysis.mockResolvedValue([row])
+    mockReplaceTopicSentiments.mockResolvedValue([])
+    mockGetEntityDictionary.mockResolvedValue([])
+    mockReplaceFeedbackEntities.mockResolvedValue([])
+    mockReplaceAnalysis.mockImplementation(async (feedbackId, analysis) => ({
+      ...storedAnalysis,
+      ...analysis,
+      model: analysis.model!,
+      prompt_version: analysis.prompt_version!,
+    }))
+  })
+
+  function createMockRequest(body: unknown): Request {
+    return new Request('http://localhost:3000/api/feedback/reanalyze', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+  }
+
+  it('should pass filters through and only count matching items on a dry run', async () => {
+    const response = await POST(
+      createMockRequest({ from: '2026-01-01', source: 'survey', beforePromptVersion: 2, dryRun: true })
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data).toEqual({ total: 1, model: 'gpt-4o-mini', prompt_version: 2, remaining: 100 })
+    expect(mockGetFeedbackForReanalysis).toHaveBeenCalledWith(
+      testUserId,
+      { from: '2026-01-01', source: 'survey', beforePromptVersion: 2 },
+      100
+    )
+    expect(mockAnalyzeFeedback).not.toHaveBeenCalled()
+    expect(mockIncrementUsage).not.toHaveBeenCalled()
+  })
+
+  it('should select analyses made with other account instructions than the current ones', async () => {
+    const response = await POST(createMockRequest({ staleInstructions: true, dryRun: true }))
+
+    expect(response.status).toBe(200)
+    expect(mockGetFeedbackForReanalysis).toHaveBeenCalledWith(
+      testUserId,
+      { instructionsHashOtherThan: hashInstructions({ context: 'Payroll SaaS', rules: [] }) },
+      100
+    )
+  })
+
+  it('should replace the analysis with the current version, diff it and charge the quota', async () => {
+    mockAnalyzeFeedback.mockResolvedValue({ ...newResult, entities: [{ type: 'version', text: 'version 4.1' }] })
+
+    const response = await POST(createMockRequest({}))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(mockAnalyzeFeedback).toHaveBeenCalledWith(expect.not.stringContaining('555-123-4567'), {
+      context: 'Payroll SaaS',
+      rules: [],
+    })
+    expect(mockReplaceAnalysis).toHaveBeenCalledWith(
+      'feedback_1',
+      expect.objectContaining({
+        sentiment: 'negative',
+        status: 'complete',
+        subtask_status: expect.objectContaining({ translation: 'ok', analysis: 'ok' }),
+        model: 'gpt-4o-mini',
+        prompt_version: 2,
+        instructions_hash: hashInstructions({ context: 'Payroll SaaS', rules: [] }),
+      })
+    )
+    expect(mockReplaceTopicSentiments).toHaveBeenCalledWith('feedback_1', newResult.topic_sentiments)
+    expect(mockReplaceFeedbackEntities).toHaveBeenCalledWith('feedback_1', [
+      { type: 'version', value: '4.1', mention: 'version 4.1' },
+    ])
+    expect(mockAssignCanonicalTopics).toHaveBeenCalledWith(testUserId, ['shipping delay'])
+
+    expect(data.data).toMatchObject({ total: 1, succeeded: 1, changed: 1, prompt_version: 2 })
+    expect(data.data.results[0]).toMatchObject({
+      feedbackId: 'feedback_1',
+      success: true,
+      status: 'complete',
+      previous: { model: 'gpt-3.5-turbo', prompt_version: null },
+    })
+    expect(data.data.results[0].changes).toEqual({
+      sentiment: { before: 'neutral', after: 'negative' },
+      sentiment_score: { before: 0.6, after: 0.9 },
+      emotion: { before: 'neutral', after: 'frustration' },
+      urgency: { before: 'low', after: 'medium' },
+      topics: { before: ['shipping'], after: ['shipping delay'] },
+    })
+    expect(mockIncrementUsage).toHaveBeenCalledTimes(1)
+  })
+
+  it('should keep the previous analysis when the analysis call fails', async () => {
+    mockAnalyzeFeedback.mockRejectedValue(new ProviderError('rate_limit', 'Rate limit reached'))
+
+    const response = await POST(createMockRequest({}))
+    const data = await response.json()
+
+    expect(data.data).toMatchObject({ succeeded: 0, failed: 1 })
+    expect(data.data.results[0]).toMatchObject({ success: false, errorKind: 'rate_limit' })
+    expect(mockReplaceAnalysis).not.toHaveBeenCalled()
+    expect(mockReplaceTopicSentiments).not.toHaveBeenCalled()
+    expect(mockIncrementUsage).not.toHaveBeenCalled()
+  })
+
+  it('should reject runs the quota does not cover', async () => {
+    mockCheckUserQuota.mockResolvedValue({ allowed: true, remaining: 0, plan: 'free', status: 'active' })
+
+    const response = await POST(createMockRequest({}))
+
+    expect(response.status).toBe(402)
+    expect(mockAnalyzeFeedback).not.toHaveBeenCalled()
+  })
+
+  it('should validate filters', async () => {
+    const invalid = [{ from: 'last week' }, { source: '' }, { beforePromptVersion: 1.5 }, { limit: 1000 }]
+
+    for (const body of invalid) {
+      const response = await POST(createMockRequest(body))
+      expect(response.status).toBe(400)
+    }
+    expect(mockGetFeedbackForReanalysis).not.toHaveBeenCalled()
+  })
+
+  it.each([null, 'all', [{ source: 'survey' }]])('should reject a %j body', async (body) => {
+    const response = await POST(createMockRequest(body))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('Request body must be a JSON object')
+    expect(mockGetFeedbackForReanalysis).not.toHaveBeenCalled()
+  })
+})
+
+describe('diffAnalyses', () => {
+  it('should ignore the order of topics and categories', () => {
+    const base = {
+      sentiment: 'mixed' as const,
+      sentiment_score: 0.5,
+      emotion: null,
+      urgency: null,
+      severity_score: null,
+      intents: [],
+      topics: ['a', 'b'],
+      categories: ['X'],
+      summary: 's',
+      recommendation: 'r',
+    }
+
+    expect(diffAnalyses(base, { ...base, topics: ['b', 'a'] })).toEqual({})
+    expect(diffAnalyses(base, { ...base, categories: [] })).toEqual({
+      categories: { before: ['X'], after: [] },
+    })
+  })
+})
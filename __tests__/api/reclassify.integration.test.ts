@@ -0,0 +1,49 @@
+/// <reference types="jest" />
+
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/taxonomy/reclassify/route'
+
+// Authenticate every request as the test user
+jest.mock('@/lib/auth', () => ({
+  withAuth: (handler: any) => (req: Request) => handler(req, { userId: 'user_test_123', user: null }),
+}))
+
+jest.mock('@/lib/analyze', () => ({
+  reclassifyFeedback: jest.fn(),
+}))
+
+import { reclassifyFeedback } from '@/lib/analyze'
+
+const mockReclassifyFeedback = reclassifyFeedback as jest.MockedFunction<typeof reclassifyFeedback>
+
+function createRequest(body: string): NextRequest {
+  return new NextRequest('http://localhost:3000/api/taxonomy/reclassify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+  })
+}
+
+describe('POST /api/taxonomy/reclassify', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should re-classify the given feedback', async () => {
+    mockReclassifyFeedback.mockResolvedValue({ total: 1, updated: 1, failed: 0 })
+
+    const response = await POST(createRequest(JSON.stringify({ feedbackIds: ['feedback_1'] })))
+
+    expect(response.status).toBe(200)
+    expect(mockReclassifyFeedback).toHaveBeenCalledWith('user_test_123', { feedbackIds: ['feedback_1'] })
+  })
+
+  it.each(['null', '"feedback_1"', '["feedback_1"]'])('should reject the JSON body %s with 400', async (body) => {
+    const response = await POST(createRequest(body))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data).toEqual({ success: false, error: 'Request body must be a JSON object' })
+    expect(mockReclassifyFeedback).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,74 @@
+/// <reference types="jest" />
+
+import { NextRequest } from 'next/server'
+import { PATCH } from '@/app/api/settings/route'
+
+// Authenticate every request as the test user
+jest.mock('@/lib/auth', () => ({
+  withAuth: (handler: any) => (req: Request) => handler(req, { userId: 'user_test_123', user: null }),
+}))
+
+jest.mock('@/lib/settings', () => ({
+  ...jest.requireActual('@/lib/settings'),
+  getAccountSettings: jest.fn(),
+  updateAccountSettings: jest.fn(),
+}))
+
+import { updateAccountSettings } from '@/lib/settings'
+
+const mockUpdateAccountSettings = updateAccountSettings as jest.MockedFunction<typeof updateAccountSettings>
+
+function createRequest(body: string): NextRequest {
+  return new NextRequest('http://localhost:3000/api/settings', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+  })
+}
+
+describe('PATCH /api/settings', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should store the validated settings', async () => {
+    mockUpdateAccountSettings.mockResolvedValue({
+      redact_before_storage: false,
+      duplicate_handling: 'skip',
+      prompt_context: 'Payroll SaaS',
+      prompt_rules: [],
+    })
+
+    const response = await PATCH(createRequest(JSON.stringify({ prompt_context: ' Payroll SaaS ' })))
+
+    expect(response.status).toBe(200)
+    expect(mockUpdateAccountSettings).toHaveBeenCalledWith('user_test_123', { prompt_context: 'Payroll SaaS' })
+  })
+
+  it('should refuse to enable redaction before storage without a vault key', async () => {
+    const vaultKey = process.env.PII_VAULT_KEY
+    delete process.env.PII_VAULT_KEY
+
+    try {
+      const response = await PATCH(createRequest(JSON.stringify({ redact_before_storage: true })))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data).toEqual({ success: false, error: 'redact_before_storage requires PII_VAULT_KEY to be set' })
+      expect(mockUpdateAccountSettings).not.toHaveBeenCalled()
+    } finally {
+      if (vaultKey !== undefined) {
+        process.env.PII_VAULT_KEY = vaultKey
+      }
+    }
+  })
+
+  it.each(['null', '"Payroll SaaS"', '[]'])('should reject the JSON body %s with 400', async (body) => {
+    const response = await PATCH(createRequest(body))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data).toEqual({ success: false, error: 'Request body must be a JSON object' })
+    expect(mockUpdateAccountSettings).not.toHaveBeenCalled()
+  })
+})
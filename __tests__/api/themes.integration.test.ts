@@ -0,0 +1,51 @@
+/// <reference types="jest" />
+
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/themes/route'
+
+// Authenticate every request as the test user
+jest.mock('@/lib/auth', () => ({
+  withAuth: (handler: any) => (req: Request) => handler(req, { userId: 'user_test_123', user: null }),
+}))
+
+// Scope validation stays real; discovery is mocked
+jest.mock('@/lib/themes', () => ({
+  ...jest.requireActual('@/lib/themes'),
+  discoverThemes: jest.fn(),
+}))
+
+import { discoverThemes } from '@/lib/themes'
+
+const mockDiscoverThemes = discoverThemes as jest.MockedFunction<typeof discoverThemes>
+
+function createRequest(body: string): NextRequest {
+  return new NextRequest('http://localhost:3000/api/themes', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+  })
+}
+
+describe('POST /api/themes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should discover the themes of a valid scope', async () => {
+    mockDiscoverThemes.mockResolvedValue({ id: 'run_1' } as any)
+
+    const response = await POST(createRequest(JSON.stringify({ from: '2026-03-01', to: '2026-04-01' })))
+
+    expect(response.status).toBe(200)
+    expect(mockDiscoverThemes).toHaveBeenCalledWith('user_test_123', { from: '2026-03-01', to: '2026-04-01' })
+  })
+
+  it.each(['null', '"last month"', '[]', '42'])('should reject the JSON body %s with 400', async (body) => {
+    const response = await POST(createRequest(body))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data).toEqual({ success: false, error: 'Request body must be a JSON object' })
+    expect(mockDiscoverThemes).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,159 @@
+/// <reference types="jest" />
+
+jest.mock('@/lib/supabase', () => ({
+  createServerClient: jest.fn(),
+}))
+
+jest.mock('@/lib/topics', () => ({
+  getTopicAliasMap: jest.fn(),
+}))
+
+import { addDays, countZScore, describeAnomaly, findAnomalies, type DailyCount } from '@/lib/anomalies'
+
+const DAY = '2026-03-20'
+
+/**
+ * Daily counts of one series for the 14 days before DAY and DAY itself
+ */
+function series(
+  dimension: DailyCount['dimension'],
+  key: string,
+  baseline: Omit<DailyCount, 'day' | 'dimension' | 'key'>,
+  current: Omit<DailyCount, 'day' | 'dimension' | 'key'> | null,
+  baselineDays: number = 14
+): DailyCount[] {
+  const rows = Array.from({ length: baselineDays }, (_, index) => ({
+    day: addDays(DAY, index - baselineDays),
+    dimension,
+    key,
+    ...baseline,
+  }))
+  return current ? [...rows, { day: DAY, dimension, key, ...current }] : rows
+}
+
+describe('Anomaly Detection', () => {
+  describe('countZScore', () => {
+    it('should floor the standard deviation at the square root of the mean', () => {
+      expect(countZScore(8, 4, 0)).toBe(2)
+      expect(countZScore(8, 4, 4)).toBe(1)
+      expect(countZScore(3, 0, 0)).toBe(3)
+    })
+  })
+
+  describe('findAnomalies', () => {
+    const allFeedback = series('all', '', { total: 20, analyzed: 20, negative: 4 }, { total: 26, analyzed: 26, negative: 6 })
+
+    it('should flag a topic spike with its negative share', () => {
+      const rows = [
+        ...allFeedback,
+        ...series('topic', 'login failure', { total: 2, analyzed: 2, negative: 0 }, { total: 8, analyzed: 5, negative: 4 }),
+      ]
+
+      const anomalies = findAnomalies(rows, DAY, { partial: false })
+
+      expect(anomalies).toHaveLength(1)
+      expect(anomalies[0]).toMatchObject({
+        day: DAY,
+        dimension: 'topic',
+        key: 'login failure',
+        metric: 'volume',
+        direction: 'spike',
+        observed: 8,
+        baseline: 2,
+        z_score: 4.24,
+        message: "'login failure' mentions up 4x vs 14-day baseline, 80% negative",
+      })
+      expect(anomalies[0].evidence).toMatchObject({ ratio: 4, total: 8, negative_share: 0.8, baseline_negative_share: 0 })
+      expect(anomalies[0].evidence.baseline_series).toHaveLength(14)
+    })
+
+    it('should flag a topic that appears from nothing', () => {
+      const rows = [...allFeedback, ...series('topic', 'refunds', { total: 0, analyzed: 0, negative: 0 }, { total: 6, analyzed: 0, negative: 0 }, 0)]
+
+      const [anomaly] = findAnomalies(rows, DAY, { partial: true })
+
+      expect(anomaly.message).toBe("'refunds' mentions up from 0 to 6 vs 14-day baseline")
+      expect(anomaly.evidence.ratio).toBeNull()
+    })
+
+    it('should skip a series with no row in the checked window', () => {
+      const today = addDays(DAY, 1)
+      const rows = [
+        ...allFeedback,
+        { day: today, dimension: 'all' as const, key: '', total: 20, analyzed: 20, negative: 4 },
+        { day: today, dimension: 'topic' as const, key: 'refunds', total: 6, analyzed: 0, negative: 0 },
+      ]
+
+      expect(findAnomalies(rows, DAY, { partial: false })).toEqual([])
+      expect(findAnomalies(rows, today, { partial: true })).toEqual([
+        expect.objectContaining({ dimension: 'topic', key: 'refunds', direction: 'spike' }),
+      ])
+    })
+
+    it('should ignore small changes and low volumes', () => {
+      const rows = [
+        ...allFeedback,
+        ...series('source', 'zendesk', { total: 1, analyzed: 1, negative: 0 }, { total: 4, analyzed: 4, negative: 0 }),
+        ...series('product', 'app', { total: 10, analyzed: 10, negative: 2 }, { total: 17, analyzed: 17, negative: 3 }),
+      ]
+
+      expect(findAnomalies(rows, DAY, { partial: false })).toEqual([])
+    })
+
+    it('should flag volume drops on complete days only', () => {
+      const rows = series('all', '', { total: 20, analyzed: 20, negative: 4 }, { total: 4, analyzed: 4, negative: 1 })
+
+      expect(findAnomalies(rows, DAY, { partial: true })).toEqual([])
+
+      const [anomaly] = findAnomalies(rows, DAY, { partial: false })
+      expect(anomaly).toMatchObject({ metric: 'volume', direction: 'drop', message: 'Feedback volume down 80% vs 14-day baseline, 25% negative' })
+    })
+
+    it('should flag a change in the negative share', () => {
+      const rows = series('all', '', { total: 20, analyzed: 20, negative: 4 }, { total: 20, analyzed: 20, negative: 14 })
+
+      const [anomaly] = findAnomalies(rows, DAY, { partial: true })
+
+      expect(anomaly).toMatchObject({
+        metric: 'negative_share',
+        direction: 'spike',
+        observed: 0.7,
+        baseline: 0.2,
+        message: 'Negative share up to 70% from 20% (14-day baseline)',
+      })
+      expect(anomaly.z_score).toBeGreaterThan(3)
+    })
+
+    it('should need a week of history', () => {
+      const rows = [
+        ...series('all', '', { total: 20, analyzed: 20, negative: 4 }, { total: 26, analyzed: 26, negative: 6 }, 5),
+        ...series('topic', 'login failure', { total: 2, analyzed: 2, negative: 0 }, { total: 8, analyzed: 5, negative: 4 }, 5),
+      ]
+
+      expect(findAnomalies(rows, DAY, { partial: false })).toEqual([])
+    })
+  })
+
+  describe('describeAnomaly', () => {
+    it('should name the series of a source or product', () => {
+      const evidence = {
+        baseline_days: 14,
+        baseline_series: [],
+        baseline_std: 0,
+        ratio: 12.4,
+        total: 62,
+        negative_share: null,
+        baseline_negative_share: null,
+        partial_day: false,
+      }
+      const anomaly = { day: DAY, metric: 'volume' as const, direction: 'spike' as const, observed: 62, baseline: 5, z_score: 25, evidence }
+
+      expect(describeAnomaly({ ...anomaly, dimension: 'source', key: 'zendesk' })).toBe(
+        "Feedback from 'zendesk' up 12x vs 14-day baseline"
+      )
+      expect(describeAnomaly({ ...anomaly, dimension: 'product', key: 'app' })).toBe(
+        "Feedback on product 'app' up 12x vs 14-day baseline"
+      )
+    })
+  })
+})
@@ -0,0 +1,172 @@
+/// <reference types="jest" />
+
+jest.mock('@/lib/langchain', () => ({
+  INTENTS: ['bug_report', 'feature_request', 'praise', 'question', 'complaint', 'pricing_complaint', 'cancellation_intent'],
+  answerQuestion: jest.fn(),
+  generateEmbedding: jest.fn(),
+  getQuestionAnsweringVersion: jest.fn(() => ({ model: 'gpt-4o-mini', prompt_version: 1 })),
+}))
+
+jest.mock('@/lib/supabase', () => ({
+  createServerClient: jest.fn(),
+}))
+
+jest.mock('@/lib/settings', () => ({
+  getAccountSettings: jest.fn().mockResolvedValue({ prompt_context: '', prompt_rules: [] }),
+  toPromptInstructions: jest.fn(() => ({ context: '', rules: [] })),
+}))
+
+jest.mock('@/lib/costs', () => ({
+  storeUsageRecords: jest.fn().mockResolvedValue(true),
+}))
+
+import { askFeedback, buildCitations, parseAskRequest, type RetrievedFeedback } from '@/lib/ask'
+import { answerQuestion, generateEmbedding } from '@/lib/langchain'
+import { createServerClient } from '@/lib/supabase'
+
+const mockAnswerQuestion = answerQuestion as jest.MockedFunction<typeof answerQuestion>
+const mockGenerateEmbedding = generateEmbedding as jest.MockedFunction<typeof generateEmbedding>
+const mockCreateServerClient = createServerClient as jest.MockedFunction<typeof createServerClient>
+
+function row(id: string, text: string, overrides: Partial<RetrievedFeedback> = {}): RetrievedFeedback {
+  return {
+    id,
+    text,
+    translated_text: null,
+    source: 'email',
+    product_id: null,
+    created_at: '2026-03-10T12:00:00.000Z',
+    sentiment: 'negative',
+    intents: ['complaint'],
+    summary: null,
+    similarity: 0.6,
+    ...overrides,
+  }
+}
+
+describe('Ask', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGenerateEmbedding.mockResolvedValue([0.1, 0.2])
+  })
+
+  describe('parseAskRequest', () => {
+    it('should trim the question and keep the filters given', () => {
+      expect(
+        parseAskRequest({
+          question: '  Why is onboarding slow? ',
+          sentiment: 'negative',
+          intent: 'complaint',
+          source: ' email ',
+          productId: '',
+          from: '2026-01-01',
+        })
+      ).toEqual({
+        question: 'Why is onboarding slow?',
+        filters: { sentiment: 'negative', intent: 'complaint', source: 'email', from: '2026-01-01' },
+      })
+    })
+
+    it.each([
+      [{}, 'question is required and must be a non-empty string'],
+      [{ question: 'x'.repeat(501) }, 'question must be at most 500 characters'],
+      [{ question: 'Why?', sentiment: 'angry' }, 'sentiment must be one of: positive, negative, neutral, mixed'],
+      [{ question: 'Why?', intent: 'rant' }, expect.stringContaining('intent must be one of')],
+      [{ question: 'Why?', source: 42 }, 'source must be a string of at most 200 characters'],
+      [{ question: 'Why?', from: 'yesterday' }, 'from must be an ISO 8601 date'],
+      [{ question: 'Why?', from: '2026-02-01', to: '2026-01-01' }, 'to must be after from'],
+    ])('should reject %j', (body, error) => {
+      expect(parseAskRequest(body)).toEqual({ error })
+    })
+  })
+
+  describe('buildCitations', () => {
+    it('should renumber markers in order of citation and redact excerpts', () => {
+      const rows = [
+        row('f1', 'Setup took weeks.'),
+        row('f2', 'Mail me at jane@example.com, onboarding is confusing.'),
+        row('f3', 'Unrelated.'),
+      ]
+
+      const result = buildCitations('Confusing [2] and slow [1]. Again [2].', [1, 0], rows)
+
+      expect(result.answer).toBe('Confusing [1] and slow [2]. Again [1].')
+      expect(result.citations.map(({ marker, feedback_id }) => ({ marker, feedback_id }))).toEqual([
+        { marker: 1, feedback_id: 'f2' },
+        { marker: 2, feedback_id: 'f1' },
+      ])
+      expect(result.citations[0].excerpt).not.toContain('jane@example.com')
+    })
+  })
+
+  describe('askFeedback', () => {
+    it('should search only the caller\'s feedback with the filters and answer from it', async () => {
+      const rpc = jest.fn().mockResolvedValue({
+        data: [
+          { ...row('f1', 'Onboarding took three weeks.'), similarity: '0.712' },
+          { ...row('f2', 'El onboarding es lento.', { translated_text: 'Onboarding is slow.' }), similarity: '0.5' },
+        ],
+        error: null,
+      })
+      mockCreateServerClient.mockReturnValue({ rpc } as any)
+      mockAnswerQuestion.mockResolvedValue({ answer: 'Onboarding is slow [2][1].', cited: [1, 0] })
+
+      const result = await askFeedback('user_1', 'Why is onboarding slow?', { sentiment: 'negative', from: '2026-01-01' })
+
+      expect(rpc).toHaveBeenCalledWith(
+        'search_feedback',
+        expect.objectContaining({
+          filter_user_id: 'user_1',
+          filter_sentiment: 'negative',
+          filter_source: null,
+          since: '2026-01-01',
+          until: null,
+        })
+      )
+      expect(mockAnswerQuestion).toHaveBeenCalledWith(
+        'Why is onboarding slow?',
+        [
+          expect.objectContaining({ text: 'Onboarding took three weeks.' }),
+          expect.objectContaining({ text: 'Onboarding is slow.' }),
+        ],
+        { context: '', rules: [] }
+      )
+      expect(result).toEqual(
+        expect.objectContaining({ answer: 'Onboarding is slow [1][2].', retrieved: 2, model: 'gpt-4o-mini' })
+      )
+      expect(result.citations.map((citation) => [citation.feedback_id, citation.similarity])).toEqual([
+        ['f2', 0.5],
+        ['f1', 0.71],
+      ])
+    })
+
+    it('should redact the question before embedding it and sending it to the LLM', async () => {
+      mockCreateServerClient.mockReturnValue({
+        rpc: jest.fn().mockResolvedValue({ data: [row('f1', 'Onboarding took three weeks.')], error: null }),
+      } as any)
+      mockAnswerQuestion.mockResolvedValue({ answer: 'It is slow [1].', cited: [0] })
+      const question = 'Why did jane@example.com find onboarding slow?'
+
+      const result = await askFeedback('user_1', question)
+
+      expect(mockGenerateEmbedding).toHaveBeenCalledWith('Why did [EMAIL_1] find onboarding slow?')
+      expect(mockAnswerQuestion).toHaveBeenCalledWith(
+        'Why did [EMAIL_1] find onboarding slow?',
+        expect.any(Array),
+        { context: '', rules: [] }
+      )
+      expect(result.question).toBe(question)
+    })
+
+    it('should not call the LLM when no feedback matches', async () => {
+      mockCreateServerClient.mockReturnValue({ rpc: jest.fn().mockResolvedValue({ data: [], error: null }) } as any)
+
+      const result = await askFeedback('user_1', 'Why is onboarding slow?')
+
+      expect(mockAnswerQuestion).not.toHaveBeenCalled()
+      expect(result).toEqual(
+        expect.objectContaining({ citations: [], retrieved: 0, model: null, prompt_version: null })
+      )
+    })
+  })
+})
@@ -0,0 +1,127 @@
+/// <reference types="jest" />
+
+jest.mock('@/lib/supabase', () => ({
+  createServerClient: jest.fn(),
+}))
+
+import { buildCostReport, storeUsageRecords, type DailyUsageRow } from '@/lib/costs'
+import { createServerClient } from '@/lib/supabase'
+import type { UsageRecord } from '@/lib/usage'
+
+const mockCreateServerClient = createServerClient as jest.MockedFunction<typeof createServerClient>
+
+function usage(
+  user_id: string,
+  day: string,
+  analyses: number,
+  cost_usd: number
+): DailyUsageRow {
+  return { user_id, day, analyses, prompt_tokens: analyses * 1000, completion_tokens: analyses * 200, cost_usd }
+}
+
+describe('LLM Cost Accounting', () => {
+  describe('buildCostReport', () => {
+    const rows = [
+      usage('user_free', '2026-01-01', 40, 0.5),
+      usage('user_free', '2026-01-02', 10, 0.25),
+      usage('user_pro', '2026-01-02', 100, 2),
+    ]
+    const subscriptions = [
+      { user_id: 'user_pro', plan: 'pro' as const, status: 'active' },
+      { user_id: 'user_business', plan: 'business' as const, status: 'active' },
+      { user_id: 'user_cancelled', plan: 'pro' as const, status: 'cancelled' },
+    ]
+
+    it('should add up spend and analyses per day', () => {
+      const report = buildCostReport(rows, subscriptions, 30, '2026-01-01')
+
+      expect(report.daily).toEqual([
+        { day: '2026-01-01', analyses: 40, costUsd: 0.5 },
+        { day: '2026-01-02', analyses: 110, costUsd: 2.25 },
+      ])
+      expect(report.totals.costUsd).toBeCloseTo(2.75)
+      expect(report.totals.revenueUsd).toBe(29 + 99)
+    })
+
+    it('should show the margin of each plan, including free accounts that cost money', () => {
+      const { plans } = buildCostReport(rows, subscriptions, 30, '2026-01-01')
+
+      expect(plans.free).toMatchObject({ accounts: 1, analyses: 50, revenueUsd: 0, marginPercent: null })
+      expect(plans.free.marginUsd).toBeCloseTo(-0.75)
+      expect(plans.free.costPerAnalysis).toBeCloseTo(0.015)
+      expect(plans.free.fullQuotaCostUsd).toBeCloseTo(0.75)
+
+      expect(plans.pro).toMatchObject({ accounts: 1, revenueUsd: 29, marginUsd: 27 })
+      expect(plans.pro.marginPercent).toBeCloseTo(27 / 29)
+
+      // Paying accounts without usage still bring in revenue
+      expect(plans.business).toMatchObject({ accounts: 1, costUsd: 0, revenueUsd: 99, costPerAnalysis: null })
+    })
+
+    it('should prorate revenue to the period and rank accounts by cost', () => {
+      const report = buildCostReport(rows, subscriptions, 15, '2026-01-01')
+
+      expect(report.plans.pro.revenueUsd).toBeCloseTo(14.5)
+      expect(report.accounts.map((account) => [account.userId, account.plan])).toEqual([
+        ['user_pro', 'pro'],
+        ['user_free', 'free'],
+      ])
+    })
+  })
+
+  describe('storeUsageRecords', () => {
+    beforeEach(() => {
+      jest.clearAllMocks()
+    })
+
+    const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+      operation: 'feedback_analysis',
+      kind: 'completion',
+      model: 'gpt-4o-mini',
+      promptTokens: 100,
+      completionTokens: 50,
+      costUsd: 0.00005,
+      estimated: false,
+      ...overrides,
+    })
+
+    it('should store one row per feedback, operation and model', async () => {
+      const insert = jest.fn().mockResolvedValue({ error: null })
+      mockCreateServerClient.mockReturnValue({ from: jest.fn(() => ({ insert })) } as any)
+
+      const stored = await storeUsageRecords('user_1', [
+        {
+          feedbackId: 'feedback_1',
+          uploadId: 'upload_1',
+          records: [
+            record({}),
+            // Repair round-trip of the same analysis
+            record({ promptTokens: 150, estimated: true }),
+            record({ operation: 'embedTexts', kind: 'embedding', model: 'text-embedding-3-small', completionTokens: 0, costUsd: 0.000002 }),
+          ],
+        },
+        { feedbackId: 'feedback_2', records: [] },
+      ])
+
+      expect(stored).toBe(true)
+      expect(insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          user_id: 'user_1',
+          feedback_id: 'feedback_1',
+          upload_id: 'upload_1',
+          operation: 'feedback_analysis',
+          prompt_tokens: 250,
+          completion_tokens: 100,
+          cost_usd: 0.0001,
+          estimated: true,
+        }),
+        expect.objectContaining({ operation: 'embedding', model: 'text-embedding-3-small', prompt_tokens: 100 }),
+      ])
+    })
+
+    it('should not call the database without usage', async () => {
+      expect(await storeUsageRecords('user_1', [{ feedbackId: 'feedback_1', records: [] }])).toBe(true)
+      expect(mockCreateServerClient).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,161 @@
+/// <reference types="jest" />
+
+jest.mock('@/lib/supabase', () => ({
+  createServerClient: jest.fn(),
+  insertAnalysis: jest.fn(),
+  insertTopicSentiments: jest.fn(),
+  updateFeedbackEmbedding: jest.fn(),
+}))
+
+jest.mock('@/lib/entities', () => ({
+  insertFeedbackEntities: jest.fn(),
+}))
+
+import {
+  computeContentHash,
+  findFeedbackByContentHash,
+  flagNearDuplicates,
+  normalizeForHash,
+} from '@/lib/dedupe'
+import { createServerClient } from '@/lib/supabase'
+
+const mockCreateServerClient = createServerClient as jest.MockedFunction<typeof createServerClient>
+
+type Row = Record<string, any>
+
+/**
+ * In-memory `feedback` table supporting the query builder calls of lib/dedupe.ts
+ */
+function fakeFeedbackTable(rows: Row[]) {
+  const valueAt = (row: Row, path: string) =>
+    path.split('.').reduce((value: any, key) => (value == null ? value : value[key]), row)
+
+  const query = (update?: Row) => {
+    const filters: ((row: Row) => boolean)[] = []
+
+    const builder: any = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => (filters.push((row) => valueAt(row, column) === value), builder),
+      in: (column: string, values: unknown[]) => (filters.push((row) => values.includes(valueAt(row, column))), builder),
+      is: (column: string, value: null) => (filters.push((row) => valueAt(row, column) == value), builder),
+      order: () => builder,
+      then: (resolve: (result: { data: Row[]; error: null }) => unknown) => {
+        const matched = rows.filter((row) => filters.every((filter) => filter(row)))
+        if (update) matched.forEach((row) => Object.assign(row, update))
+        return Promise.resolve({ data: matched, error: null }).then(resolve)
+      },
+    }
+
+    return builder
+  }
+
+  return {
+    from: () => ({
+      select: () => query(),
+      update: (values: Row) => query(values),
+    }),
+  }
+}
+
+describe('lib/dedupe', () => {
+  describe('normalizeForHash', () => {
+    it('collapses whitespace, trims and lowercases', () => {
+      expect(normalizeForHash('  Great\tproduct,\n\nfast   SHIPPING ')).toBe('great product, fast shipping')
+    })
+
+    it('applies Unicode compatibility normalization', () => {
+      expect(normalizeForHash('ﬁne Ｔｈａｎｋｓ')).toBe('fine thanks')
+    })
+  })
+
+  describe('computeContentHash', () => {
+    it('returns the same hash for trivially different copies', () => {
+      expect(computeContentHash('Checkout keeps failing')).toBe(
+        computeContentHash('  checkout   KEEPS failing\n')
+      )
+    })
+
+    it('returns different hashes for different text', () => {
+      expect(computeContentHash('Checkout keeps failing')).not.toBe(
+        computeContentHash('Checkout keeps working')
+      )
+    })
+
+    it('returns a hex-encoded SHA-256', () => {
+      expect(computeContentHash('hello')).toBe(
+        '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824'
+      )
+    })
+  })
+
+  describe('near-duplicates', () => {
+    const analysis = { id: 'analysis', status: 'complete', sentiment: 'negative' }
+
+    function feedback(id: string, text: string, created_at: string): Row {
+      return {
+        id,
+        user_id: 'user_1',
+        language: 'en',
+        content_hash: computeContentHash(text),
+        duplicate_of: null,
+        duplicate_similarity: null,
+        near_duplicate_of: null,
+        near_duplicate_similarity: null,
+        created_at,
+        feedback_analysis: { ...analysis, feedback_id: id },
+        feedback_topic_sentiment: [],
+      }
+    }
+
+    it('links near-duplicates without marking them as exact duplicates', async () => {
+      const rows = [
+        feedback('original', 'Checkout keeps failing', '2026-03-01T00:00:00.000Z'),
+        feedback('paraphrase', 'Checkout fails every time', '2026-03-02T00:00:00.000Z'),
+      ]
+      mockCreateServerClient.mockReturnValue(fakeFeedbackTable(rows) as any)
+
+      const flagged = await flagNearDuplicates(
+        'user_1',
+        new Map([['paraphrase', { duplicate_of: 'original', similarity: 0.964 }]])
+      )
+
+      expect(flagged.get('paraphrase')).toEqual({ duplicate_of: 'original', similarity: 0.96 })
+      expect(rows[1]).toEqual(
+        expect.objectContaining({
+          duplicate_of: null,
+          duplicate_similarity: null,
+          near_duplicate_of: 'original',
+          near_duplicate_similarity: 0.96,
+        })
+      )
+    })
+
+    it('still finds a flagged near-duplicate when identical text is uploaded again', async () => {
+      const rows = [
+        feedback('original', 'Checkout keeps failing', '2026-03-01T00:00:00.000Z'),
+        feedback('paraphrase', 'Checkout fails every time', '2026-03-02T00:00:00.000Z'),
+      ]
+      mockCreateServerClient.mockReturnValue(fakeFeedbackTable(rows) as any)
+
+      await flagNearDuplicates('user_1', new Map([['paraphrase', { duplicate_of: 'original', similarity: 0.96 }]]))
+
+      const hash = computeContentHash('  checkout fails EVERY time ')
+      const sources = await findFeedbackByContentHash('user_1', [hash])
+
+      expect(sources.get(hash)?.feedback_id).toBe('paraphrase')
+    })
+
+    it('resolves matches of stored near-duplicates to their original', async () => {
+      const rows = [
+        feedback('original', 'Checkout keeps failing', '2026-03-01T00:00:00.000Z'),
+        { ...feedback('paraphrase', 'Checkout fails every time', '2026-03-02T00:00:00.000Z'), near_duplicate_of: 'original' },
+        feedback('new', 'Checkout fails each time', '2026-03-03T00:00:00.000Z'),
+      ]
+      mockCreateServerClient.mockReturnValue(fakeFeedbackTable(rows) as any)
+
+      await flagNearDuplicates('user_1', new Map([['new', { duplicate_of: 'paraphrase', similarity: 0.97 }]]))
+
+      expect(rows[2].near_duplicate_of).toBe('original')
+    })
+  })
+})
@@ -0,0 +1,214 @@
+/// <reference types="jest" />
+
+jest.mock('@/lib/supabase', () => ({
+  createServerClient: jest.fn(),
+}))
+
+import {
+  buildEntityBreakdown,
+  findConflictingEntry,
+  getEntityBreakdown,
+  normalizeAmount,
+  normalizeEntities,
+  normalizePlatform,
+  normalizeVersion,
+  validateDictionaryInput,
+  type DictionaryEntry,
+  type EntityMentionStats,
+} from '@/lib/entities'
+import { createServerClient } from '@/lib/supabase'
+
+const mockCreateServerClient = createServerClient as jest.MockedFunction<typeof createServerClient>
+
+function entry(id: string, type: DictionaryEntry['type'], name: string, aliases: string[] = []): DictionaryEntry {
+  return {
+    id,
+    user_id: 'user_1',
+    type,
+    name,
+    aliases,
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+  }
+}
+
+function stats(type: EntityMentionStats['type'], value: string, analyzed: number, complaints: number): EntityMentionStats {
+  return {
+    type,
+    value,
+    mentions: analyzed,
+    analyzed,
+    positive: 0,
+    negative: complaints,
+    neutral: analyzed - complaints,
+    mixed: 0,
+    avg_sentiment: null,
+    complaints,
+    bug_reports: complaints,
+    cancellations: 0,
+    complaint_share: analyzed > 0 ? complaints / analyzed : null,
+    last_mentioned_at: '2026-03-01T00:00:00.000Z',
+  }
+}
+
+describe('Entities', () => {
+  beforeEach(() => jest.clearAllMocks())
+
+  describe('normalization', () => {
+    it.each([
+      ['v2.3.1', '2.3.1'],
+      ['Version 4', '4'],
+      ['the latest one', null],
+    ])('should reduce version "%s" to %s', (text, expected) => {
+      expect(normalizeVersion(text)).toBe(expected)
+    })
+
+    it.each([
+      ['iPhone', 'iOS'],
+      ['ANDROID', 'Android'],
+      ['os  x', 'macOS'],
+      ['Smart TV', 'Smart TV'],
+    ])('should spell platform "%s" as %s', (text, expected) => {
+      expect(normalizePlatform(text)).toBe(expected)
+    })
+
+    it.each([
+      ['$1,200', 'USD 1200'],
+      ['€ 9.99', 'EUR 9.99'],
+      ['9,99 €', 'EUR 9.99'],
+      ['1.200,50 euros', 'EUR 1200.50'],
+      ['20 GBP', 'GBP 20'],
+      ['49', '49'],
+      ['a lot of money', null],
+    ])('should normalize amount "%s" to %s', (text, expected) => {
+      expect(normalizeAmount(text)).toBe(expected)
+    })
+  })
+
+  describe('normalizeEntities', () => {
+    const dictionary = [
+      entry('e1', 'competitor', 'Globex', ['GlobexCRM', 'Globex Corp']),
+      entry('e2', 'product', 'Acme Pay', ['acmepay']),
+    ]
+
+    it('should map names to the dictionary and find dictionary terms in the text', () => {
+      const entities = normalizeEntities(
+        [
+          { type: 'product', text: 'globex  corp' },
+          { type: 'version', text: 'v2.3' },
+          { type: 'version', text: 'the new one' },
+          { type: 'feature', text: 'Dark mode' },
+          { type: 'platform', text: 'ipad' },
+        ],
+        'Since v2.3 acmepay crashes on my iPad, Globex Corp never did. Dark mode is nice.',
+        dictionary
+      )
+
+      expect(entities).toEqual([
+        { type: 'competitor', value: 'Globex', mention: 'globex corp' },
+        { type: 'version', value: '2.3', mention: 'v2.3' },
+        { type: 'feature', value: 'Dark mode', mention: 'Dark mode' },
+        { type: 'platform', value: 'iOS', mention: 'ipad' },
+        { type: 'product', value: 'Acme Pay', mention: 'acmepay' },
+      ])
+    })
+
+    it('should only match dictionary terms as whole words', () => {
+      expect(normalizeEntities([], 'My acmepayments account is fine', dictionary)).toEqual([])
+    })
+  })
+
+  describe('dictionary validation', () => {
+    const dictionary = [entry('e1', 'competitor', 'Globex', ['GlobexCRM'])]
+
+    it('should require a known type and a name when creating', () => {
+      expect(validateDictionaryInput({ type: 'competitor', name: 'Initech' }, dictionary)).toBeNull()
+      expect(validateDictionaryInput({ type: 'version' as any, name: '2.3' }, dictionary)).toBe(
+        'type must be one of: product, feature, competitor'
+      )
+      expect(validateDictionaryInput({ type: 'product', name: ' ' }, dictionary)).toBe(
+        'name is required and must be a non-empty string'
+      )
+      expect(validateDictionaryInput({ type: 'product', name: 'Pay', aliases: ['ok', ''] }, dictionary)).toBe(
+        'aliases must be an array of non-empty strings'
+      )
+    })
+
+    it('should accept partial updates', () => {
+      expect(validateDictionaryInput({ aliases: ['Globex Inc'] }, dictionary, 'e1')).toBeNull()
+    })
+
+    it.each([null, 'Initech', [{ name: 'Initech' }]])('should reject a %j body', (body) => {
+      expect(validateDictionaryInput(body, dictionary)).toBe('Request body must be a JSON object')
+      expect(validateDictionaryInput(body, dictionary, 'e1')).toBe('Request body must be a JSON object')
+    })
+
+    it('should find names and aliases already used by another entry', () => {
+      expect(findConflictingEntry(['Initech', 'globexcrm'], dictionary)).toEqual({
+        term: 'globexcrm',
+        entry: dictionary[0],
+      })
+      expect(findConflictingEntry(['Globex', 'GlobexCRM'], dictionary, 'e1')).toBeNull()
+    })
+  })
+
+  describe('buildEntityBreakdown', () => {
+    it('should rank competitors by mentions and compare version complaints', () => {
+      const breakdown = buildEntityBreakdown(
+        [
+          stats('competitor', 'Initech', 2, 0),
+          stats('competitor', 'Globex', 5, 1),
+          stats('version', '2.9', 10, 1),
+          stats('version', '2.10', 10, 6),
+          stats('version', '2.10.1', 2, 1),
+          stats('amount', 'USD 49', 3, 0),
+        ],
+        '2026-01-01T00:00:00.000Z'
+      )
+
+      expect(breakdown.competitors.map((row) => row.value)).toEqual(['Globex', 'Initech'])
+      expect(breakdown.version_complaint_share).toBe(0.36)
+      expect(
+        breakdown.versions.map(({ value, complaint_lift, elevated }) => ({ value, complaint_lift, elevated }))
+      ).toEqual([
+        { value: '2.10.1', complaint_lift: 1.39, elevated: false },
+        { value: '2.10', complaint_lift: 1.67, elevated: true },
+        { value: '2.9', complaint_lift: 0.28, elevated: false },
+      ])
+    })
+  })
+
+  describe('getEntityBreakdown', () => {
+    it('should load mention stats of the period', async () => {
+      const rpc = jest.fn().mockResolvedValue({
+        data: [
+          {
+            type: 'competitor',
+            value: 'Globex',
+            mentions: '4',
+            analyzed: '4',
+            positive: '1',
+            negative: '3',
+            neutral: '0',
+            mixed: '0',
+            avg_score: '-0.45',
+            complaints: '3',
+            bug_reports: '0',
+            cancellations: '2',
+            last_mentioned_at: '2026-03-02T10:00:00.000Z',
+          },
+        ],
+        error: null,
+      })
+      mockCreateServerClient.mockReturnValue({ rpc } as any)
+
+      const breakdown = await getEntityBreakdown('user_1', 30)
+
+      expect(rpc).toHaveBeenCalledWith('entity_mention_stats', { filter_user_id: 'user_1', since: breakdown.since })
+      expect(breakdown.competitors).toEqual([
+        expect.objectContaining({ value: 'Globex', mentions: 4, avg_sentiment: -0.45, cancellations: 2, complaint_share: 0.75 }),
+      ])
+      expect(breakdown.versions).toEqual([])
+    })
+  })
+})
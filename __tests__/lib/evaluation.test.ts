@@ -0,0 +1,171 @@
+/// <reference types="jest" />
+
+import {
+  computeMetrics,
+  createTokenUsage,
+  createUsageTrackingProvider,
+  formatMarkdownReport,
+  parseDataset,
+  type EvalExample,
+  type EvalPrediction,
+} from '@/lib/evaluation'
+import type { FeedbackAnalysis } from '@/lib/langchain'
+import type { LLMProvider } from '@/lib/providers'
+
+/**
+ * Builds an analysis with the given labels
+ */
+function analysis(overrides: Partial<FeedbackAnalysis> = {}): FeedbackAnalysis {
+  return {
+    sentiment: 'negative',
+    emotion: 'frustration',
+    urgency: 'medium',
+    severity_score: 0.5,
+    intents: [],
+    entities: [],
+    topics: [],
+    topic_sentiments: [],
+    summary: 'Summary',
+    recommendation: 'Recommendation',
+    ...overrides,
+  }
+}
+
+describe('Offline Evaluation', () => {
+  describe('parseDataset', () => {
+    it('should parse JSONL with optional labels and default ids', () => {
+      const examples = parseDataset(
+        [
+          '{"id": "a", "text": "Late again", "sentiment": "Negative", "topics": ["Shipping "], "urgency": "high"}',
+          '',
+          '{"text": "Fine"}',
+        ].join('\n'),
+        'jsonl'
+      )
+
+      expect(examples).toEqual([
+        { id: 'a', text: 'Late again', sentiment: 'negative', topics: ['shipping'], urgency: 'high' },
+        { id: '2', text: 'Fine' },
+      ])
+    })
+
+    it('should parse CSV with delimited topics and blank labels', () => {
+      const examples = parseDataset(
+        'Text,Sentiment,Topics,Urgency\n"Great, fast delivery",positive,shipping; delivery speed,\nOK,,,low\n',
+        'csv'
+      )
+
+      expect(examples).toEqual([
+        { id: '1', text: 'Great, fast delivery', sentiment: 'positive', topics: ['shipping', 'delivery speed'] },
+        { id: '2', text: 'OK', urgency: 'low' },
+      ])
+    })
+
+    it('should report the line of an invalid example', () => {
+      expect(() => parseDataset('{"text": "ok"}\n{"text": ""}', 'jsonl')).toThrow('Line 2: text is required')
+      expect(() => parseDataset('{"text": "ok", "sentiment": "angry"}', 'jsonl')).toThrow(
+        'Line 1: sentiment must be one of'
+      )
+      expect(() => parseDataset('not json', 'jsonl')).toThrow('Line 1: invalid JSON')
+    })
+  })
+
+  describe('computeMetrics', () => {
+    const examples: EvalExample[] = [
+      { id: '1', text: 'a', sentiment: 'negative', topics: ['shipping'], urgency: 'high' },
+      { id: '2', text: 'b', sentiment: 'positive', topics: ['pricing', 'support'] },
+      { id: '3', text: 'c', sentiment: 'mixed' },
+    ]
+
+    const predictions: EvalPrediction[] = [
+      { id: '1', analysis: analysis({ topics: ['Shipping', 'refund'], urgency: 'high' }), latencyMs: 100 },
+      { id: '2', analysis: analysis({ sentiment: 'positive', topics: ['pricing'] }), latencyMs: 300 },
+      { id: '3', analysis: null, error: 'Rate limit reached', latencyMs: 200 },
+    ]
+
+    it('should score labeled fields and count failures as wrong', () => {
+      const metrics = computeMetrics(examples, predictions, createTokenUsage())
+
+      expect(metrics.failed).toBe(1)
+      expect(metrics.sentiment).toMatchObject({ labeled: 3, correct: 2 })
+      expect(metrics.sentiment.accuracy).toBeCloseTo(2 / 3)
+      expect(metrics.urgency).toMatchObject({ labeled: 1, correct: 1, accuracy: 1 })
+
+      const { labels, counts } = metrics.sentiment.confusion
+      expect(counts[labels.indexOf('negative')][labels.indexOf('negative')]).toBe(1)
+      expect(counts[labels.indexOf('mixed')].every((count) => count === 0)).toBe(true)
+    })
+
+    it('should compute micro-averaged topic precision and recall', () => {
+      const { topics } = computeMetrics(examples, predictions, createTokenUsage())
+
+      // 2 of 3 predicted topics are expected; 2 of 3 expected topics were found
+      expect(topics.labeled).toBe(2)
+      expect(topics.precision).toBeCloseTo(2 / 3)
+      expect(topics.recall).toBeCloseTo(2 / 3)
+      expect(topics.f1).toBeCloseTo(2 / 3)
+    })
+
+    it('should summarize latency and estimate cost from token usage', () => {
+      const metrics = computeMetrics(
+        examples,
+        predictions,
+        { calls: 3, inputTokens: 1_000_000, outputTokens: 500_000 },
+        { inputPer1M: 0.15, outputPer1M: 0.6 }
+      )
+
+      expect(metrics.latency).toEqual({ meanMs: 200, p50Ms: 200, p95Ms: 300, maxMs: 300 })
+      expect(metrics.estimatedCostUsd).toBeCloseTo(0.45)
+      expect(computeMetrics(examples, predictions, createTokenUsage()).estimatedCostUsd).toBeNull()
+    })
+  })
+
+  describe('createUsageTrackingProvider', () => {
+    it('should count calls and estimated tokens of completions', async () => {
+      const provider: LLMProvider = {
+        name: 'local',
+        models: { llm: 'test' },
+        embed: jest.fn(),
+        complete: jest.fn().mockResolvedValue('12345678'),
+      }
+      const usage = createTokenUsage()
+      const tracked = createUsageTrackingProvider(provider, usage)
+
+      const reply = await tracked.complete({
+        model: 'test',
+        messages: [{ role: 'user', content: '1234567890' }],
+        maxTokens: 100,
+        temperature: 0,
+      })
+
+      expect(reply).toBe('12345678')
+      expect(usage).toEqual({ calls: 1, inputTokens: 3, outputTokens: 2 })
+    })
+  })
+
+  describe('formatMarkdownReport', () => {
+    it('should compare two runs side by side and list disagreements', () => {
+      const run = (name: string, promptVersion: number, sentiment: FeedbackAnalysis['sentiment']) => {
+        const runPredictions = [{ id: '1', analysis: analysis({ sentiment }), latencyMs: 100 }]
+        return {
+          config: { name, provider: 'openai', model: 'gpt-4o-mini', prompt_version: promptVersion },
+          metrics: computeMetrics([examples[0]], runPredictions, createTokenUsage()),
+          predictions: runPredictions,
+        }
+      }
+      const examples: EvalExample[] = [{ id: '1', text: 'Where is my | order?', sentiment: 'negative' }]
+
+      const markdown = formatMarkdownReport({
+        dataset: 'golden.jsonl',
+        examples,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        runs: [run('baseline', 1, 'negative'), run('candidate', 2, 'neutral')],
+      })
+
+      expect(markdown).toContain('| Metric | baseline | candidate | Δ |')
+      expect(markdown).toContain('| Prompt version | v1 | v2 |  |')
+      expect(markdown).toContain('| Sentiment accuracy | 100.0% | 0.0% | -100.0 pts |')
+      expect(markdown).toContain('| 1 | negative / — | negative / medium | neutral / medium | Where is my \\| order? |')
+    })
+  })
+})
@@ -0,0 +1,130 @@
+/// <reference types="jest" />
+
+jest.mock('@/lib/supabase', () => ({
+  createServerClient: jest.fn(),
+  getFeedbackByIntent: jest.fn(),
+}))
+
+jest.mock('@/lib/topics', () => ({
+  getTopicAliasMap: jest.fn(),
+}))
+
+import {
+  buildFeatureRequestGroups,
+  countRequesters,
+  getFeatureRequests,
+  groupBySimilarity,
+  toFeatureRequestsCsv,
+} from '@/lib/feature-requests'
+import { normalize } from '@/lib/themes'
+import { getFeedbackByIntent, type IntentFeedback } from '@/lib/supabase'
+import { getTopicAliasMap } from '@/lib/topics'
+
+const mockGetFeedbackByIntent = getFeedbackByIntent as jest.MockedFunction<typeof getFeedbackByIntent>
+const mockGetTopicAliasMap = getTopicAliasMap as jest.MockedFunction<typeof getTopicAliasMap>
+
+/**
+ * Vector close to the `axis` unit vector (4 dimensions), slightly off by `offset`
+ */
+function near(axis: number, offset: number): number[] {
+  const vector = [0, 0, 0, 0]
+  vector[axis] = 1
+  vector[(axis + 1) % 4] = offset
+  return normalize(vector)
+}
+
+function request(id: string, embedding: number[], username: string | null, day: number, topics: string[] = []): IntentFeedback {
+  return {
+    id,
+    text: `Please add ${id}`,
+    translated_text: null,
+    username,
+    created_at: `2026-03-${String(day).padStart(2, '0')}T12:00:00.000Z`,
+    embedding,
+    analysis: { sentiment: 'neutral', sentiment_score: 0, summary: `Customer asks for ${id}`, topics },
+  }
+}
+
+describe('Feature Requests', () => {
+  beforeEach(() => jest.clearAllMocks())
+
+  describe('groupBySimilarity', () => {
+    it('should group similar vectors, largest group first', () => {
+      const vectors = [near(0, 0.1), near(1, 0), near(0, 0.3), near(0, 0), near(2, 0)]
+
+      expect(groupBySimilarity(vectors, 0.9)).toEqual([[0, 3, 2], [1], [4]])
+    })
+
+    it('should keep every vector apart above a similarity of 1', () => {
+      expect(groupBySimilarity([near(0, 0), near(0, 0)], 1.01)).toEqual([[0], [1]])
+    })
+  })
+
+  describe('countRequesters', () => {
+    it('should count usernames once and every anonymous request', () => {
+      const rows = [
+        request('a', near(0, 0), 'Alice', 3),
+        request('b', near(0, 0), 'alice ', 2),
+        request('c', near(0, 0), 'bob', 1),
+        request('d', near(0, 0), null, 1),
+        request('e', near(0, 0), '  ', 1),
+      ]
+
+      expect(countRequesters(rows)).toEqual({ requesters: 4, usernames: ['Alice', 'bob'] })
+    })
+  })
+
+  describe('buildFeatureRequestGroups', () => {
+    it('should rank groups by unique requesters', () => {
+      const rows = [
+        // Dark mode: 3 requests by the same customer
+        request('dark mode', near(0, 0), 'carol', 9, ['Dark Mode']),
+        request('dark theme', near(0, 0.1), 'carol', 8, ['dark mode']),
+        request('night mode', near(0, 0.2), 'carol', 7),
+        // SSO: 2 requests by 2 customers
+        request('sso', near(1, 0), 'dave', 6, ['single sign-on']),
+        request('saml', near(1, 0), 'erin', 2, ['sso']),
+      ]
+
+      const groups = buildFeatureRequestGroups(rows, { sso: 'single sign-on' })
+
+      expect(groups.map(({ title, requesters, requests, usernames, topics }) => ({ title, requesters, requests, usernames, topics }))).toEqual([
+        { title: 'Customer asks for sso', requesters: 2, requests: 2, usernames: ['dave', 'erin'], topics: ['single sign-on'] },
+        { title: 'Customer asks for dark theme', requesters: 1, requests: 3, usernames: ['carol'], topics: ['dark mode'] },
+      ])
+      expect(groups[0].first_requested_at).toBe('2026-03-02T12:00:00.000Z')
+      expect(groups[0].last_requested_at).toBe('2026-03-06T12:00:00.000Z')
+      expect(groups[1].examples.map((example) => example.feedback_id)).toEqual(['dark theme', 'night mode', 'dark mode'])
+    })
+  })
+
+  describe('toFeatureRequestsCsv', () => {
+    it('should quote fields and neutralize formulas', () => {
+      const [group] = buildFeatureRequestGroups([request('sso', near(1, 0), 'dave', 6)], {})
+
+      const csv = toFeatureRequestsCsv([
+        { ...group, title: 'SSO, via "SAML"', usernames: ['=HYPERLINK("x")', 'dave'], avg_sentiment: -0.5 },
+      ])
+
+      expect(csv.split('\n')[0]).toBe(
+        'request,requesters,requests,usernames,topics,avg_sentiment,first_requested,last_requested,example'
+      )
+      expect(csv.split('\n')[1]).toBe(
+        `"SSO, via ""SAML""",1,1,"'=HYPERLINK(""x""); dave",,-0.5,2026-03-06,2026-03-06,Please add sso`
+      )
+    })
+  })
+
+  describe('getFeatureRequests', () => {
+    it('should load feature requests of the period', async () => {
+      mockGetFeedbackByIntent.mockResolvedValueOnce([request('sso', near(1, 0), 'dave', 6)])
+      mockGetTopicAliasMap.mockResolvedValueOnce({})
+
+      const report = await getFeatureRequests('user_1', 30)
+
+      expect(mockGetFeedbackByIntent).toHaveBeenCalledWith('user_1', 'feature_request', report.since, 1000)
+      expect(report).toMatchObject({ feedback_count: 1, truncated: false })
+      expect(report.groups).toHaveLength(1)
+    })
+  })
+})
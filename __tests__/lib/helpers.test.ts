@@ -0,0 +1,38 @@
+/// <reference types="jest" />
+
+import { processConcurrently, redactedText, round } from '@/lib/helpers'
+
+describe('Shared Helpers', () => {
+  describe('processConcurrently', () => {
+    it('should keep the order of items and never exceed the concurrency', async () => {
+      let running = 0
+      let maxRunning = 0
+
+      const results = await processConcurrently(
+        [30, 10, 20, 5, 15],
+        async (delay, index) => {
+          running++
+          maxRunning = Math.max(maxRunning, running)
+          await new Promise((resolve) => setTimeout(resolve, delay))
+          running--
+          return `${index}:${delay}`
+        },
+        2
+      )
+
+      expect(results).toEqual(['0:30', '1:10', '2:20', '3:5', '4:15'])
+      expect(maxRunning).toBe(2)
+    })
+  })
+
+  it('should round to two decimals unless told otherwise', () => {
+    expect(round(0.4567)).toBe(0.46)
+    expect(round(0.45678, 4)).toBe(0.4568)
+  })
+
+  it('should redact and collapse the English text of feedback', () => {
+    expect(redactedText({ text: 'Bonjour', translated_text: 'Mail   me at\njane@example.com ' })).toBe(
+      'Mail me at [EMAIL_1]'
+    )
+  })
+})
@@ -0,0 +1,246 @@
+/// <reference types="jest" />
+
+jest.mock('@/lib/langchain', () => ({
+  extractIssues: jest.fn(),
+  consolidateInsights: jest.fn(),
+  getInsightsVersion: jest.fn(() => ({ model: 'gpt-4o-mini', prompt_version: 1 })),
+}))
+
+jest.mock('@/lib/supabase', () => ({
+  createServerClient: jest.fn(),
+  getFeedbackForInsights: jest.fn(),
+}))
+
+jest.mock('@/lib/costs', () => ({
+  storeUsageRecords: jest.fn(),
+}))
+
+import {
+  buildInsights,
+  classifyTrend,
+  generateInsightsReport,
+  getBaselinePeriod,
+  getScopeKey,
+  InsightsScopeError,
+  mentionRate,
+  parseScope,
+  selectQuotes,
+  toInsightsItem,
+} from '@/lib/insights'
+import { consolidateInsights, extractIssues } from '@/lib/langchain'
+import { getFeedbackForInsights, type FeedbackForInsights } from '@/lib/supabase'
+
+const mockExtractIssues = extractIssues as jest.MockedFunction<typeof extractIssues>
+const mockConsolidateInsights = consolidateInsights as jest.MockedFunction<typeof consolidateInsights>
+const mockGetFeedbackForInsights = getFeedbackForInsights as jest.MockedFunction<typeof getFeedbackForInsights>
+
+/**
+ * Builds completely analyzed feedback
+ */
+function row(
+  id: string,
+  text: string,
+  analysis: Partial<FeedbackForInsights['analysis']> = {}
+): FeedbackForInsights {
+  return {
+    id,
+    text,
+    translated_text: null,
+    created_at: '2026-03-10T12:00:00.000Z',
+    analysis: {
+      sentiment: 'negative',
+      severity_score: 0.5,
+      topics: [],
+      summary: `Summary of ${id}`,
+      ...analysis,
+    } as FeedbackForInsights['analysis'],
+  }
+}
+
+describe('Insights Reports', () => {
+  beforeEach(() => jest.clearAllMocks())
+
+  describe('toInsightsItem', () => {
+    it('should map topics to their canonical topic once', () => {
+      const item = toInsightsItem(
+        row('a', 'Late again', { topics: ['Late Package', 'shipping', ' delivery '], severity_score: 0.7 }),
+        { 'late package': 'shipping', delivery: 'shipping' }
+      )
+
+      expect(item).toEqual({ sentiment: 'negative', severity: 0.7, topics: ['shipping'], summary: 'Summary of a' })
+    })
+  })
+
+  describe('trends', () => {
+    it('should compute the share of items mentioning any of the topics', () => {
+      const items = [{ topics: ['shipping'] }, { topics: ['pricing', 'refund'] }, { topics: [] }, { topics: ['ui'] }]
+
+      expect(mentionRate(items, ['shipping', 'refund'])).toBe(0.5)
+      expect(mentionRate([], ['shipping'])).toBe(0)
+    })
+
+    it('should classify the change against the preceding period', () => {
+      expect(classifyTrend(0.3, 0.2)).toBe('rising')
+      expect(classifyTrend(0.2, 0.22)).toBe('stable')
+      expect(classifyTrend(0.1, 0.2)).toBe('falling')
+      expect(classifyTrend(0.1, 0)).toBe('new')
+      expect(classifyTrend(0.1, null)).toBe('unknown')
+    })
+
+    it('should compare a period with the period of equal length before it', () => {
+      expect(getBaselinePeriod({ from: '2026-03-01T00:00:00Z', to: '2026-03-08T00:00:00Z' }, [])).toEqual({
+        from: '2026-02-22T00:00:00.000Z',
+        to: '2026-03-01T00:00:00.000Z',
+      })
+    })
+
+    it('should compare an upload with the 30 days before its first feedback', () => {
+      const rows = [{ created_at: '2026-03-10T12:00:05Z' }, { created_at: '2026-03-10T12:00:00Z' }]
+
+      expect(getBaselinePeriod({ uploadId: 'upload-1' }, rows)).toEqual({
+        from: '2026-02-08T12:00:00.000Z',
+        to: '2026-03-10T12:00:00.000Z',
+      })
+    })
+  })
+
+  describe('selectQuotes', () => {
+    it('should quote the most severe distinct feedback, redacted and truncated', () => {
+      const rows = [
+        row('mild', 'A bit slow', { severity_score: 0.2 }),
+        row('severe', `Charged twice, email me at jane@example.com. ${'x'.repeat(300)}`, { severity_score: 0.9 }),
+        row('copy', 'a bit   SLOW', { severity_score: 0.1 }),
+        row('other', 'Not in this issue', { severity_score: 1 }),
+      ]
+
+      const quotes = selectQuotes(rows, [0, 1, 2])
+
+      expect(quotes.map((quote) => quote.feedback_id)).toEqual(['severe', 'mild'])
+      expect(quotes[0].text).not.toContain('jane@example.com')
+      expect(quotes[0].text.length).toBeLessThanOrEqual(201)
+      expect(quotes[0].text.endsWith('…')).toBe(true)
+    })
+  })
+
+  describe('buildInsights', () => {
+    const rows = [
+      row('a', 'Late', { topics: ['shipping'], severity_score: 0.9 }),
+      row('b', 'Late again', { topics: ['shipping'], severity_score: 0.7 }),
+      row('c', 'Too expensive', { topics: ['pricing'], severity_score: 0.2 }),
+      row('d', 'Pricey', { topics: ['pricing'], severity_score: 0.2 }),
+      row('e', 'Costly', { topics: ['pricing'], severity_score: 0.2 }),
+    ]
+    const items = rows.map((feedback) => toInsightsItem(feedback, {}))
+
+    it('should rank merged issues by volume weighted by severity', async () => {
+      mockExtractIssues.mockResolvedValueOnce([
+        { title: 'Pricing', description: 'Too expensive', recommendation: 'Review prices', items: [2, 3, 4] },
+        { title: 'Late', description: 'Late orders', recommendation: 'Switch carrier', items: [0] },
+        { title: 'Delays', description: 'Still late', recommendation: 'Track orders', items: [0, 1] },
+      ])
+      mockConsolidateInsights.mockResolvedValueOnce({
+        executive_summary: 'Shipping and pricing.',
+        issues: [
+          { title: 'Pricing', description: 'Too expensive', merges: [0] },
+          { title: 'Shipping delays', description: 'Orders arrive late', merges: [1, 2] },
+        ],
+        recommendations: [
+          { recommendation: 'Review prices', priority: 'medium', issues: [0] },
+          { recommendation: 'Switch carrier', priority: 'high', issues: [1] },
+        ],
+      })
+
+      const baseline = [{ sentiment: 'negative', severity: 0.5, topics: ['shipping'], summary: '' }, ...items.slice(2)]
+      const insights = await buildInsights(rows, items, baseline)
+
+      // Shipping: 2 items × (0.5 + 0.8) = 2.6; pricing: 3 items × (0.5 + 0.2) = 2.1
+      expect(insights.issues.map(({ rank, title, feedback_count, score }) => ({ rank, title, feedback_count, score }))).toEqual([
+        { rank: 1, title: 'Shipping delays', feedback_count: 2, score: 2.6 },
+        { rank: 2, title: 'Pricing', feedback_count: 3, score: 2.1 },
+      ])
+      expect(insights.issues[0]).toMatchObject({
+        topics: ['shipping'],
+        mention_rate: 0.4,
+        previous_mention_rate: 0.25,
+        trend: 'rising',
+      })
+      expect(insights.issues[1].trend).toBe('falling')
+      expect(insights.issues[0].quotes.map((quote) => quote.feedback_id)).toEqual(['a', 'b'])
+      expect(insights.recommendations).toEqual([
+        { priority: 'high', recommendation: 'Switch carrier', issues: [1] },
+        { priority: 'medium', recommendation: 'Review prices', issues: [2] },
+      ])
+    })
+
+    it('should map batches of items to global indexes', async () => {
+      const many = Array.from({ length: 45 }, (_, index) => row(`f${index}`, `Late order ${index}`, { topics: ['shipping'] }))
+      mockExtractIssues.mockImplementation(async (batch) => [
+        { title: 'Late', description: 'Late', recommendation: 'Fix', items: [batch.length - 1] },
+      ])
+      mockConsolidateInsights.mockResolvedValueOnce({
+        executive_summary: 'Late.',
+        issues: [{ title: 'Late', description: 'Late', merges: [0, 1] }],
+        recommendations: [],
+      })
+
+      const insights = await buildInsights(many, many.map((feedback) => toInsightsItem(feedback, {})), null)
+
+      expect(mockExtractIssues).toHaveBeenCalledTimes(2)
+      expect(insights.issues[0].feedback_count).toBe(2)
+      expect(insights.issues[0].quotes.map((quote) => quote.feedback_id).sort()).toEqual(['f39', 'f44'])
+      expect(insights.issues[0].trend).toBe('unknown')
+    })
+
+    it('should skip the reduce step when no issues were found', async () => {
+      mockExtractIssues.mockResolvedValueOnce([])
+
+      const insights = await buildInsights(rows, items, null)
+
+      expect(mockConsolidateInsights).not.toHaveBeenCalled()
+      expect(insights).toEqual({
+        executive_summary: 'No recurring issues were found in 5 feedback items.',
+        issues: [],
+        recommendations: [],
+      })
+    })
+  })
+
+  describe('generateInsightsReport', () => {
+    it('should reject a scope without analyzed feedback before calling the LLM', async () => {
+      mockGetFeedbackForInsights.mockResolvedValueOnce([])
+
+      await expect(generateInsightsReport('user_1', { uploadId: 'upload-1' })).rejects.toThrow(InsightsScopeError)
+      expect(mockExtractIssues).not.toHaveBeenCalled()
+    })
+  })
+
+  it('should key reports by their scope', () => {
+    expect(getScopeKey({ uploadId: 'abc' })).toBe('upload:abc')
+    expect(getScopeKey({ from: '2026-03-01', to: '2026-04-01' })).toBe(
+      'period:2026-03-01T00:00:00.000Z..2026-04-01T00:00:00.000Z'
+    )
+  })
+
+  describe('parseScope', () => {
+    it('should accept an upload or a period', () => {
+      const uploadId = '0b7c1a7e-3f7d-4c1b-9b0a-1d2e3f4a5b6c'
+
+      expect(parseScope({ uploadId })).toEqual({ scope: { uploadId } })
+      expect(parseScope({ from: '2026-03-01', to: '2026-04-01' })).toEqual({
+        scope: { from: '2026-03-01', to: '2026-04-01' },
+      })
+    })
+
+    it('should reject ambiguous, malformed and oversized scopes', () => {
+      expect(parseScope({ uploadId: 'abc' })).toEqual({ error: 'uploadId must be a UUID' })
+      expect(parseScope({ uploadId: 'abc', from: '2026-03-01' })).toHaveProperty('error')
+      expect(parseScope({ from: 'yesterday', to: '2026-04-01' })).toEqual({ error: 'from must be an ISO 8601 date' })
+      expect(parseScope({ from: '2026-04-01', to: '2026-03-01' })).toHaveProperty('error')
+      expect(parseScope({ from: '2025-01-01', to: '2026-04-01' })).toHaveProperty('error')
+    })
+
+    it.each([null, 'last week', [], 42])('should reject a %j body', (body) => {
+      expect(parseScope(body)).toEqual({ error: 'Request body must be a JSON object' })
+    })
+  })
+})
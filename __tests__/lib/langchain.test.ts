@@ -1,16 +1,71 @@
 /// <reference types="jest" />
 
-import { analyzeFeedback, chunkText, generateEmbedding } from '@/lib/langchain';
-import { embedText, runLLM } from '@/lib/openai';
+import {
+  analyzeFeedback,
+  answerQuestion,
+  averageEmbeddings,
+  buildClassificationReplySchema,
+  classifyFeedback,
+  detectAndTranslate,
+  isClearlyEnglish,
+  INTENTS,
+  chunkText,
+  consolidateInsights,
+  extractIssues,
+  generateEmbedding,
+  mergeChunkAnalyses,
+  nameTheme,
+  parseCitations,
+  ConsolidatedSummaryReplySchema,
+  FeedbackAnalysisReplySchema,
+  InsightsMapReplySchema,
+  ThemeNamingReplySchema,
+  TranslationReplySchema,
+  type ExtractedEntity,
+  type Intent,
+} from '@/lib/langchain';
+import { embedText, runLLM, runStructuredLLM } from '@/lib/openai';
 
 // Mock the openai module
 jest.mock('@/lib/openai', () => ({
   embedText: jest.fn(),
   runLLM: jest.fn(),
+  runStructuredLLM: jest.fn(),
 }));
 
 const mockEmbedText = embedText as jest.MockedFunction<typeof embedText>;
 const mockRunLLM = runLLM as jest.MockedFunction<typeof runLLM>;
+const mockRunStructuredLLM = runStructuredLLM as jest.MockedFunction<typeof runStructuredLLM>;
+
+/**
+ * Builds a valid structured analysis reply, with optional overrides
+ */
+function reply(overrides: Record<string, unknown> = {}) {
+  return {
+    sentiment: 'positive',
+    score: 0.75,
+    confidence: 0.85,
+    emotion: 'satisfaction',
+    urgency: 'low',
+    severity: 0.1,
+    intents: ['praise'],
+    entities: [{ type: 'platform', text: 'iOS' }],
+    topics: [
+      { topic: 'product quality', sentiment: 'positive', score: 0.8 },
+      { topic: 'customer service', sentiment: 'positive', score: 0.6 },
+    ],
+    summary: 'Customer is satisfied with the product',
+    recommendation: 'Continue maintaining quality standards',
+    ...overrides,
+  };
+}
+
+/**
+ * Builds feedback text longer than the default chunk sizes (8000 characters)
+ */
+function longText(sentences: number = 400): string {
+  return Array.from({ length: sentences }, (_, i) => `Sentence number ${i} about the support call.`).join(' ');
+}
 
 describe('lib/langchain', () => {
   beforeEach(() => {
@@ -35,6 +90,33 @@ describe('lib/langchain', () => {
 
       await expect(generateEmbedding('test')).rejects.toThrow('API Error');
     });
+
+    it('should embed long text in chunks and return the averaged unit vector', async () => {
+      mockEmbedText.mockResolvedValueOnce([1, 0]).mockResolvedValue([0, 1]);
+      const text = longText();
+
+      const result = await generateEmbedding(text);
+
+      expect(mockEmbedText.mock.calls.length).toBeGreaterThan(1);
+      mockEmbedText.mock.calls.forEach(([chunk]) => {
+        expect(chunk.length).toBeLessThanOrEqual(8000);
+      });
+      expect(Math.hypot(...result)).toBeCloseTo(1, 6);
+      expect(result[1]).toBeGreaterThan(result[0]);
+    });
+  });
+
+  describe('averageEmbeddings', () => {
+    it('should weight vectors and normalize the result', () => {
+      const result = averageEmbeddings([[1, 0], [0, 1]], [3, 1]);
+
+      expect(result[0]).toBeCloseTo(3 / Math.sqrt(10), 6);
+      expect(result[1]).toBeCloseTo(1 / Math.sqrt(10), 6);
+    });
+
+    it('should return a zero vector unchanged', () => {
+      expect(averageEmbeddings([[0, 0]], [1])).toEqual([0, 0]);
+    });
   });
 
   describe('chunkText', () => {
@@ -105,281 +187,580 @@ describe('lib/langchain', () => {
     });
   });
 
-  describe('analyzeFeedback', () => {
-    beforeEach(() => {
-      // Reset mock completely (clears implementation and call history)
-      mockRunLLM.mockReset();
+  describe('FeedbackAnalysisReplySchema', () => {
+    it('should accept a complete reply', () => {
+      expect(FeedbackAnalysisReplySchema.safeParse(reply()).success).toBe(true);
     });
 
-    it('should return valid analysis with all required fields', async () => {
-      mockRunLLM
-        .mockResolvedValueOnce(JSON.stringify({ sentiment: 'positive', confidence: 0.85 }))
-        .mockResolvedValueOnce(JSON.stringify({ topics: ['product quality', 'customer service'] }))
-        .mockResolvedValueOnce(JSON.stringify({ 
-          summary: 'Customer is satisfied with the product',
-          recommendation: 'Continue maintaining quality standards'
-        }));
-
-      const result = await analyzeFeedback('Great product, excellent service!');
+    it('should reject a sentiment outside the allowed set', () => {
+      expect(FeedbackAnalysisReplySchema.safeParse(reply({ sentiment: 'happy' })).success).toBe(false);
+    });
 
-      expect(result).toHaveProperty('sentiment');
-      expect(result).toHaveProperty('topics');
-      expect(result).toHaveProperty('summary');
-      expect(result).toHaveProperty('recommendation');
-      expect(mockRunLLM).toHaveBeenCalledTimes(3);
+    it('should reject a confidence outside 0..1', () => {
+      expect(FeedbackAnalysisReplySchema.safeParse(reply({ confidence: 1.5 })).success).toBe(false);
+      expect(FeedbackAnalysisReplySchema.safeParse(reply({ confidence: -0.5 })).success).toBe(false);
     });
 
-    it('should have sentiment in allowed set', async () => {
-      mockRunLLM
-        .mockResolvedValueOnce(JSON.stringify({ sentiment: 'neutral', confidence: 0.7 }))
-        .mockResolvedValueOnce(JSON.stringify({ topics: ['product'] }))
-        .mockResolvedValueOnce(JSON.stringify({ 
-          summary: 'Product is okay',
-          recommendation: 'No action needed'
-        }));
+    it('should reject a polarity score outside -1..1', () => {
+      expect(FeedbackAnalysisReplySchema.safeParse(reply({ score: -1.2 })).success).toBe(false);
+      expect(FeedbackAnalysisReplySchema.safeParse(reply({ score: -1 })).success).toBe(true);
+    });
 
-      const result = await analyzeFeedback('The product is okay.');
+    it('should reject an unknown emotion or urgency', () => {
+      expect(FeedbackAnalysisReplySchema.safeParse(reply({ emotion: 'boredom' })).success).toBe(false);
+      expect(FeedbackAnalysisReplySchema.safeParse(reply({ urgency: 'urgent' })).success).toBe(false);
+    });
 
-      expect(['positive', 'neutral', 'negative', 'mixed']).toContain(result.sentiment);
+    it('should reject an unknown intent and accept none', () => {
+      expect(FeedbackAnalysisReplySchema.safeParse(reply({ intents: ['refund_request'] })).success).toBe(false);
+      expect(FeedbackAnalysisReplySchema.safeParse(reply({ intents: [] })).success).toBe(true);
     });
 
-    it('should return positive sentiment correctly', async () => {
-      mockRunLLM
-        .mockResolvedValueOnce(JSON.stringify({ sentiment: 'positive', confidence: 0.85 }))
-        .mockResolvedValueOnce(JSON.stringify({ topics: ['satisfaction'] }))
-        .mockResolvedValueOnce(JSON.stringify({ 
-          summary: 'Customer loves product',
-          recommendation: 'Keep it up'
-        }));
+    it('should reject an unknown entity type or an empty entity', () => {
+      expect(
+        FeedbackAnalysisReplySchema.safeParse(reply({ entities: [{ type: 'person', text: 'Alice' }] })).success
+      ).toBe(false);
+      expect(
+        FeedbackAnalysisReplySchema.safeParse(reply({ entities: [{ type: 'competitor', text: ' ' }] })).success
+      ).toBe(false);
+      expect(FeedbackAnalysisReplySchema.safeParse(reply({ entities: [] })).success).toBe(true);
+    });
 
-      const result = await analyzeFeedback('Amazing product!');
+    it('should reject a severity outside 0..1', () => {
+      expect(FeedbackAnalysisReplySchema.safeParse(reply({ severity: -0.1 })).success).toBe(false);
+    });
 
-      expect(result.sentiment).toBe('positive');
-      expect(result.sentiment_score).toBe(0.85);
+    it('should reject blank summary and recommendation', () => {
+      expect(FeedbackAnalysisReplySchema.safeParse(reply({ summary: '  ' })).success).toBe(false);
+      expect(FeedbackAnalysisReplySchema.safeParse(reply({ recommendation: '' })).success).toBe(false);
     });
 
-    it('should return topics array with at least 1 item', async () => {
-      mockRunLLM
-        .mockResolvedValueOnce(JSON.stringify({ sentiment: 'mixed', confidence: 0.6 }))
-        .mockResolvedValueOnce(JSON.stringify({ topics: ['shipping', 'product quality'] }))
-        .mockResolvedValueOnce(JSON.stringify({ 
-          summary: 'Mixed feedback on shipping and quality',
-          recommendation: 'Improve shipping speed'
-        }));
+    it('should reject topics without a per-topic sentiment', () => {
+      expect(FeedbackAnalysisReplySchema.safeParse(reply({ topics: ['shipping'] })).success).toBe(false);
+      expect(
+        FeedbackAnalysisReplySchema.safeParse(reply({ topics: [{ topic: 'shipping', score: -0.5 }] })).success
+      ).toBe(false);
+    });
 
-      const result = await analyzeFeedback('The shipping was fast but product quality needs improvement.');
+    it('should reject a topic score outside -1..1', () => {
+      const topics = [{ topic: 'shipping', sentiment: 'negative', score: -2 }];
+      expect(FeedbackAnalysisReplySchema.safeParse(reply({ topics })).success).toBe(false);
+    });
 
-      expect(Array.isArray(result.topics)).toBe(true);
-      expect(result.topics.length).toBeGreaterThanOrEqual(1);
-      expect(result.topics).toContain('shipping');
-      expect(result.topics).toContain('product quality');
+    it('should reject missing fields', () => {
+      const { summary: _summary, ...withoutSummary } = reply();
+      expect(FeedbackAnalysisReplySchema.safeParse(withoutSummary).success).toBe(false);
     });
+  });
+
+  describe('mergeChunkAnalyses', () => {
+    type Sentiment = 'positive' | 'neutral' | 'negative' | 'mixed';
+
+    // Topics take the chunk sentiment unless given as [topic, sentiment, score]
+    const chunk = (sentiment: Sentiment, topics: Array<string | [string, Sentiment, number]>, score?: number) => {
+      const topicSentiments = topics.map((entry) =>
+        typeof entry === 'string'
+          ? { topic: entry, sentiment, score: 0 }
+          : { topic: entry[0], sentiment: entry[1], score: entry[2] }
+      );
 
-    it('should return non-empty summary', async () => {
-      mockRunLLM
-        .mockResolvedValueOnce(JSON.stringify({ sentiment: 'positive', confidence: 0.8 }))
-        .mockResolvedValueOnce(JSON.stringify({ topics: ['quality'] }))
-        .mockResolvedValueOnce(JSON.stringify({ 
-          summary: 'Customer is satisfied',
-          recommendation: 'Maintain quality'
-        }));
+      return {
+        sentiment,
+        sentiment_score: score,
+        emotion: 'neutral' as const,
+        urgency: 'low' as const,
+        severity_score: 0.1,
+        intents: [] as Intent[],
+        entities: [] as ExtractedEntity[],
+        topics: topicSentiments.map(({ topic }) => topic),
+        topic_sentiments: topicSentiments,
+        summary: 'summary',
+        recommendation: 'recommendation',
+      };
+    };
+
+    it('should rank topics by chunk weight and dedupe case-insensitively', () => {
+      const merged = mergeChunkAnalyses(
+        [chunk('neutral', ['Billing', 'login']), chunk('neutral', ['billing']), chunk('neutral', ['refunds'])],
+        [100, 100, 150]
+      );
+
+      expect(merged.topics).toEqual(['Billing', 'refunds', 'login']);
+    });
 
-      const result = await analyzeFeedback('Good product overall.');
+    it('should call sentiment mixed when both polarities carry weight', () => {
+      const merged = mergeChunkAnalyses(
+        [
+          { ...chunk('positive', [], 0.9), confidence_score: 0.9 },
+          { ...chunk('negative', [], -0.5), confidence_score: 0.5 },
+        ],
+        [300, 100]
+      );
 
-      expect(result.summary).toBeTruthy();
-      expect(result.summary.length).toBeGreaterThan(0);
-      expect(typeof result.summary).toBe('string');
+      expect(merged.sentiment).toBe('mixed');
+      expect(merged.sentiment_score).toBeCloseTo(0.55, 6);
+      expect(merged.confidence_score).toBeCloseTo(0.8, 6);
     });
 
-    it('should return non-empty recommendation', async () => {
-      mockRunLLM
-        .mockResolvedValueOnce(JSON.stringify({ sentiment: 'negative', confidence: 0.7 }))
-        .mockResolvedValueOnce(JSON.stringify({ topics: ['packaging'] }))
-        .mockResolvedValueOnce(JSON.stringify({ 
-          summary: 'Packaging needs improvement',
-          recommendation: 'Improve packaging quality'
-        }));
+    it('should merge per-topic sentiment across chunks', () => {
+      const merged = mergeChunkAnalyses(
+        [
+          chunk('mixed', [['product', 'positive', 0.8], ['shipping', 'negative', -0.6]]),
+          chunk('negative', [['shipping', 'negative', -0.9]]),
+        ],
+        [100, 100]
+      );
+
+      expect(merged.topic_sentiments).toEqual([
+        { topic: 'shipping', sentiment: 'negative', score: -0.75 },
+        { topic: 'product', sentiment: 'positive', score: 0.8 },
+      ]);
+      expect(merged.topics).toEqual(['shipping', 'product']);
+    });
 
-      const result = await analyzeFeedback('Product needs better packaging.');
+    it('should keep the highest urgency and the emotion of the most severe chunk', () => {
+      const merged = mergeChunkAnalyses(
+        [
+          { ...chunk('negative', []), emotion: 'frustration', urgency: 'medium', severity_score: 0.4 },
+          { ...chunk('negative', []), emotion: 'anger', urgency: 'critical', severity_score: 0.9 },
+          { ...chunk('positive', []), emotion: 'satisfaction', urgency: 'low', severity_score: 0.1 },
+        ],
+        [100, 100, 100]
+      );
 
-      expect(result.recommendation).toBeTruthy();
-      expect(result.recommendation.length).toBeGreaterThan(0);
-      expect(typeof result.recommendation).toBe('string');
+      expect(merged.urgency).toBe('critical');
+      expect(merged.severity_score).toBe(0.9);
+      expect(merged.emotion).toBe('anger');
     });
 
-    it('should handle negative sentiment', async () => {
-      mockRunLLM
-        .mockResolvedValueOnce(JSON.stringify({ sentiment: 'negative', confidence: 0.92 }))
-        .mockResolvedValueOnce(JSON.stringify({ topics: ['poor quality', 'delivery issues'] }))
-        .mockResolvedValueOnce(JSON.stringify({ 
-          summary: 'Customer is dissatisfied',
-          recommendation: 'Investigate quality control processes'
-        }));
+    it('should keep every intent, ranked by chunk weight', () => {
+      const merged = mergeChunkAnalyses(
+        [
+          { ...chunk('negative', []), intents: ['bug_report'] },
+          { ...chunk('negative', []), intents: ['bug_report', 'cancellation_intent'] },
+          { ...chunk('neutral', []), intents: ['question', 'feature_request'] },
+        ],
+        [100, 100, 300]
+      );
+
+      expect(merged.intents).toEqual(['question', 'feature_request', 'bug_report', 'cancellation_intent']);
+    });
 
-      const result = await analyzeFeedback('Terrible product, arrived damaged.');
+    it('should keep every entity once, in chunk order', () => {
+      const merged = mergeChunkAnalyses(
+        [
+          { ...chunk('negative', []), entities: [{ type: 'version', text: 'v2.3' }] },
+          {
+            ...chunk('negative', []),
+            entities: [
+              { type: 'competitor', text: 'Globex' },
+              { type: 'version', text: 'V2.3 ' },
+            ],
+          },
+        ],
+        [100, 300]
+      );
 
-      expect(result.sentiment).toBe('negative');
-      expect(result.sentiment_score).toBe(0.92);
+      expect(merged.entities).toEqual([
+        { type: 'version', text: 'v2.3' },
+        { type: 'competitor', text: 'Globex' },
+      ]);
     });
 
-    it('should handle mixed sentiment', async () => {
-      mockRunLLM
-        .mockResolvedValueOnce(JSON.stringify({ sentiment: 'mixed', confidence: 0.65 }))
-        .mockResolvedValueOnce(JSON.stringify({ topics: ['good features', 'high price'] }))
-        .mockResolvedValueOnce(JSON.stringify({ 
-          summary: 'Mixed feelings about product',
-          recommendation: 'Consider pricing adjustments'
-        }));
+    it('should follow the dominant polarity', () => {
+      const merged = mergeChunkAnalyses(
+        [chunk('negative', []), chunk('neutral', []), chunk('negative', [])],
+        [100, 100, 100]
+      );
 
-      const result = await analyzeFeedback('Love the features but too expensive.');
+      expect(merged.sentiment).toBe('negative');
+      expect(merged.sentiment_score).toBeUndefined();
+    });
+  });
 
-      expect(result.sentiment).toBe('mixed');
-      expect(result.topics).toContain('good features');
+  describe('detectAndTranslate', () => {
+    beforeEach(() => {
+      mockRunStructuredLLM.mockReset();
     });
 
-    it('should handle neutral sentiment', async () => {
-      mockRunLLM
-        .mockResolvedValueOnce(JSON.stringify({ sentiment: 'neutral', confidence: 0.70 }))
-        .mockResolvedValueOnce(JSON.stringify({ topics: ['standard features'] }))
-        .mockResolvedValueOnce(JSON.stringify({ 
-          summary: 'Product meets expectations',
-          recommendation: 'Maintain current standards'
-        }));
+    it('should not call the LLM for plainly English feedback', async () => {
+      const result = await detectAndTranslate('The checkout page crashes every time I try to pay with my card.');
+
+      expect(result).toEqual({ language: 'en', translation: null });
+      expect(mockRunStructuredLLM).not.toHaveBeenCalled();
+    });
 
-      const result = await analyzeFeedback('Product is as expected.');
+    it.each([
+      'The checkout page crashes every time I try to pay with my card.',
+      'Shipping was slow and the box arrived damaged, but support was great.',
+    ])('should recognize "%s" as English', (text) => {
+      expect(isClearlyEnglish(text)).toBe(true);
+    });
 
-      expect(result.sentiment).toBe('neutral');
+    it.each([
+      'Great product!',
+      'La app es muy lenta y no funciona con mi tarjeta.',
+      'Die Lieferung kam zu spät.',
+      'Le produit est très bien mais la livraison est lente.',
+      '配送が遅れました。',
+      'The app is great, pero el soporte es muy lento y nunca responde a mis correos.',
+    ])('should leave "%s" to the LLM', (text) => {
+      expect(isClearlyEnglish(text)).toBe(false);
     });
 
-    it('should handle JSON in markdown code blocks', async () => {
-      mockRunLLM
-        .mockResolvedValueOnce('```json\n{"sentiment": "positive", "confidence": 0.88}\n```')
-        .mockResolvedValueOnce('```\n{"topics": ["feature request"]}\n```')
-        .mockResolvedValueOnce('```json\n{"summary": "Test", "recommendation": "Test rec"}\n```');
+    it('should ask the LLM when the language is in doubt', async () => {
+      mockRunStructuredLLM.mockResolvedValueOnce({ language: 'en', english_text: '' });
 
-      const result = await analyzeFeedback('Nice product.');
+      const result = await detectAndTranslate('Great product!');
 
-      expect(result.sentiment).toBe('positive');
-      expect(result.topics).toContain('feature request');
-      expect(result.summary).toBe('Test');
+      expect(result).toEqual({ language: 'en', translation: null });
+      expect(mockRunStructuredLLM).toHaveBeenCalledWith(
+        expect.stringContaining('Great product!'),
+        TranslationReplySchema,
+        expect.objectContaining({ name: 'feedback_translation' })
+      );
     });
 
-    it('should fallback to neutral on sentiment parsing error', async () => {
-      mockRunLLM
-        .mockResolvedValueOnce('invalid json')
-        .mockResolvedValueOnce(JSON.stringify({ topics: ['test'] }))
-        .mockResolvedValueOnce(JSON.stringify({ summary: 'Test', recommendation: 'Test' }));
+    it('should return the language and English translation', async () => {
+      mockRunStructuredLLM.mockResolvedValueOnce({
+        language: 'de',
+        english_text: ' The delivery was late. ',
+      });
 
-      const result = await analyzeFeedback('Test feedback');
+      const result = await detectAndTranslate('Die Lieferung kam zu spät.');
 
-      expect(result.sentiment).toBe('neutral');
-      expect(result.topics).toEqual(['test']);
+      expect(result).toEqual({ language: 'de', translation: 'The delivery was late.' });
     });
 
-    it('should handle empty topics array gracefully', async () => {
-      mockRunLLM
-        .mockResolvedValueOnce(JSON.stringify({ sentiment: 'positive', confidence: 0.8 }))
-        .mockResolvedValueOnce('invalid json')
-        .mockResolvedValueOnce(JSON.stringify({ summary: 'Test', recommendation: 'Test' }));
+    it('should translate long feedback chunk by chunk', async () => {
+      mockRunStructuredLLM.mockResolvedValue({ language: 'es', english_text: 'Translated part.' });
+      const text = longText();
+      const chunkCount = chunkText(text, 8000).length;
 
-      const result = await analyzeFeedback('Test feedback');
+      const result = await detectAndTranslate(text);
 
-      expect(Array.isArray(result.topics)).toBe(true);
-      expect(result.topics).toEqual([]);
+      expect(mockRunStructuredLLM).toHaveBeenCalledTimes(chunkCount);
+      expect(result.translation).toBe(Array(chunkCount).fill('Translated part.').join(' '));
+    });
+
+    it('should reject language values that are not ISO 639-1 codes', () => {
+      expect(TranslationReplySchema.safeParse({ language: 'Spanish', english_text: '' }).success).toBe(false);
+      expect(TranslationReplySchema.safeParse({ language: 'es', english_text: 'Hi' }).success).toBe(true);
     });
+  });
 
-    it('should handle summary parsing error with fallback', async () => {
-      mockRunLLM
-        .mockResolvedValueOnce(JSON.stringify({ sentiment: 'positive', confidence: 0.8 }))
-        .mockResolvedValueOnce(JSON.stringify({ topics: ['test'] }))
-        .mockResolvedValueOnce('invalid json');
+  describe('classifyFeedback', () => {
+    const taxonomy = [
+      { label: 'Shipping', description: 'Delivery speed', examples: ['late package'] },
+      { label: 'Billing' },
+    ];
 
-      const result = await analyzeFeedback('Test feedback');
+    beforeEach(() => {
+      mockRunStructuredLLM.mockReset();
+    });
 
-      expect(result.summary).toBe('Unable to generate summary');
-      expect(result.recommendation).toBe('Review feedback manually');
+    it('should not call the LLM without a taxonomy', async () => {
+      expect(await classifyFeedback('Late again', [])).toEqual([]);
+      expect(mockRunStructuredLLM).not.toHaveBeenCalled();
     });
 
-    it('should handle LLM API errors gracefully', async () => {
-      mockRunLLM
-        .mockRejectedValueOnce(new Error('API Error'))
-        .mockResolvedValueOnce(JSON.stringify({ topics: ['test'] }))
-        .mockResolvedValueOnce(JSON.stringify({ summary: 'Test', recommendation: 'Test' }));
+    it('should list the categories with descriptions and examples in the prompt', async () => {
+      mockRunStructuredLLM.mockResolvedValueOnce({ categories: ['Shipping'] });
 
-      const result = await analyzeFeedback('Test feedback');
+      const result = await classifyFeedback('My order is late', taxonomy);
 
-      // Should fallback to neutral and continue with other calls
-      expect(result.sentiment).toBe('neutral');
-      expect(result.topics).toEqual(['test']);
+      expect(result).toEqual(['Shipping']);
+      expect(mockRunStructuredLLM).toHaveBeenCalledWith(
+        expect.stringContaining('- "Shipping": Delivery speed. Examples: "late package"\n- "Billing"'),
+        expect.anything(),
+        expect.objectContaining({ name: 'feedback_classification' })
+      );
     });
 
-    it('should filter out non-string topics', async () => {
-      mockRunLLM
-        .mockResolvedValueOnce(JSON.stringify({ sentiment: 'positive', confidence: 0.8 }))
-        .mockResolvedValueOnce(JSON.stringify({ topics: ['valid', 123, null, 'also valid', {}] }))
-        .mockResolvedValueOnce(JSON.stringify({ summary: 'Test', recommendation: 'Test' }));
+    it('should combine chunk categories, most frequent first', async () => {
+      const text = longText();
+      const chunkCount = chunkText(text, 8000).length;
+      mockRunStructuredLLM.mockResolvedValue({ categories: ['Shipping'] });
+      mockRunStructuredLLM.mockResolvedValueOnce({ categories: ['Billing', 'Shipping'] });
 
-      const result = await analyzeFeedback('Test feedback');
+      const result = await classifyFeedback(text, taxonomy);
 
-      expect(result.topics).toEqual(['valid', 'also valid']);
+      expect(mockRunStructuredLLM).toHaveBeenCalledTimes(chunkCount);
+      expect(result).toEqual(['Shipping', 'Billing']);
     });
 
-    it('should include sentiment_score when confidence is provided', async () => {
-      mockRunLLM
-        .mockResolvedValueOnce(JSON.stringify({ sentiment: 'positive', confidence: 0.95 }))
-        .mockResolvedValueOnce(JSON.stringify({ topics: ['quality'] }))
-        .mockResolvedValueOnce(JSON.stringify({ summary: 'Great', recommendation: 'Keep it up' }));
+    it('should reject categories outside the taxonomy', () => {
+      const schema = buildClassificationReplySchema(['Shipping', 'Billing']);
 
-      const result = await analyzeFeedback('Excellent product!');
+      expect(schema.safeParse({ categories: ['Shipping'] }).success).toBe(true);
+      expect(schema.safeParse({ categories: ['Delivery'] }).success).toBe(false);
+    });
+  });
 
-      expect(result.sentiment_score).toBe(0.95);
+  describe('analyzeFeedback', () => {
+    beforeEach(() => {
+      // Reset mock completely (clears implementation and call history)
+      mockRunStructuredLLM.mockReset();
     });
 
-    it('should handle missing confidence field', async () => {
-      mockRunLLM
-        .mockResolvedValueOnce(JSON.stringify({ sentiment: 'positive' }))
-        .mockResolvedValueOnce(JSON.stringify({ topics: ['quality'] }))
-        .mockResolvedValueOnce(JSON.stringify({ summary: 'Great', recommendation: 'Keep it up' }));
+    it('should return valid analysis with all required fields', async () => {
+      mockRunStructuredLLM.mockResolvedValueOnce(reply());
 
-      const result = await analyzeFeedback('Excellent product!');
+      const result = await analyzeFeedback('Great product, excellent service!');
 
-      expect(result.sentiment_score).toBeUndefined();
+      expect(result).toEqual({
+        sentiment: 'positive',
+        sentiment_score: 0.75,
+        confidence_score: 0.85,
+        emotion: 'satisfaction',
+        urgency: 'low',
+        severity_score: 0.1,
+        intents: ['praise'],
+        entities: [{ type: 'platform', text: 'iOS' }],
+        topics: ['product quality', 'customer service'],
+        topic_sentiments: [
+          { topic: 'product quality', sentiment: 'positive', score: 0.8 },
+          { topic: 'customer service', sentiment: 'positive', score: 0.6 },
+        ],
+        summary: 'Customer is satisfied with the product',
+        recommendation: 'Continue maintaining quality standards',
+      });
     });
 
-    it('should call runLLM with appropriate prompts', async () => {
+    it('should make a single structured LLM call', async () => {
       const feedbackText = 'Test feedback text';
-      
-      // Set up mocks for this test
-      mockRunLLM
-        .mockResolvedValueOnce(JSON.stringify({ sentiment: 'positive', confidence: 0.8 }))
-        .mockResolvedValueOnce(JSON.stringify({ topics: ['test'] }))
-        .mockResolvedValueOnce(JSON.stringify({ summary: 'Test summary', recommendation: 'Test rec' }));
+      mockRunStructuredLLM.mockResolvedValueOnce(reply());
 
       await analyzeFeedback(feedbackText);
 
-      // Check that runLLM was called with prompts containing the feedback text
-      expect(mockRunLLM).toHaveBeenNthCalledWith(
-        1, 
-        expect.stringContaining('sentiment'),
-        100
+      expect(mockRunStructuredLLM).toHaveBeenCalledTimes(1);
+      expect(mockRunStructuredLLM).toHaveBeenCalledWith(
+        expect.stringContaining(feedbackText),
+        FeedbackAnalysisReplySchema,
+        expect.objectContaining({ name: 'feedback_analysis' })
       );
-      expect(mockRunLLM).toHaveBeenNthCalledWith(
-        2,
-        expect.stringContaining('topic'),
-        150
+    });
+
+    it('should allow enough tokens for a reply with many entities and topics', async () => {
+      const full = reply({
+        intents: [...INTENTS],
+        entities: Array.from({ length: 15 }, (_, i) => ({ type: 'competitor', text: `Globex Payroll Cloud ${i}` })),
+        topics: Array.from({ length: 15 }, (_, i) => ({ topic: `slow payroll exports ${i}`, sentiment: 'negative', score: -0.75 })),
+        summary: 'The customer reports that payroll exports have been slow for weeks and support has not responded. They compare the product with two competitors and consider switching.',
+        recommendation: 'Investigate export performance for large payroll runs, reply to the open ticket and offer a call with the account manager before renewal.',
+      });
+      mockRunStructuredLLM.mockResolvedValueOnce(full);
+
+      await analyzeFeedback('Payroll exports are slow');
+
+      const { maxTokens } = mockRunStructuredLLM.mock.calls[0][2];
+      // About 3 characters per token for JSON with short words
+      expect(maxTokens).toBeGreaterThan(JSON.stringify(full, null, 2).length / 3);
+    });
+
+    it.each([
+      ['positive', 0.6],
+      ['neutral', 0],
+      ['negative', -0.9],
+      ['mixed', -0.1],
+    ] as const)('should return %s sentiment with its polarity and confidence', async (sentiment, score) => {
+      mockRunStructuredLLM.mockResolvedValueOnce(reply({ sentiment, score, confidence: 0.7 }));
+
+      const result = await analyzeFeedback('Some feedback.');
+
+      expect(result.sentiment).toBe(sentiment);
+      expect(result.sentiment_score).toBe(score);
+      expect(result.confidence_score).toBe(0.7);
+    });
+
+    it('should trim topics, summary and recommendation', async () => {
+      mockRunStructuredLLM.mockResolvedValueOnce(
+        reply({
+          topics: [
+            { topic: ' shipping ', sentiment: 'negative', score: -0.5 },
+            { topic: 'product quality', sentiment: 'positive', score: 0.9 },
+          ],
+          summary: ' Mixed feedback ',
+          recommendation: ' Improve shipping speed\n',
+        })
       );
-      expect(mockRunLLM).toHaveBeenNthCalledWith(
-        3,
-        expect.stringContaining('summary'),
-        200
+
+      const result = await analyzeFeedback('The shipping was slow but quality is great.');
+
+      expect(result.topics).toEqual(['shipping', 'product quality']);
+      expect(result.summary).toBe('Mixed feedback');
+      expect(result.recommendation).toBe('Improve shipping speed');
+    });
+
+    it('should allow an empty topics array', async () => {
+      mockRunStructuredLLM.mockResolvedValueOnce(reply({ topics: [] }));
+
+      const result = await analyzeFeedback('Ok.');
+
+      expect(result.topics).toEqual([]);
+    });
+
+    it('should map-reduce long feedback over chunks', async () => {
+      const text = longText();
+      const chunkCount = chunkText(text, 8000).length;
+      mockRunStructuredLLM.mockImplementation(async (_prompt, schema) =>
+        schema === ConsolidatedSummaryReplySchema
+          ? { summary: 'Long support call about billing', recommendation: 'Fix billing errors' }
+          : reply({
+              sentiment: 'negative',
+              score: -0.6,
+              confidence: 0.8,
+              emotion: 'frustration',
+              urgency: 'high',
+              severity: 0.7,
+              topics: [{ topic: 'billing', sentiment: 'negative', score: -0.8 }],
+            })
       );
 
-      // All prompts should contain the feedback text
-      const calls = mockRunLLM.mock.calls;
-      calls.forEach((call: unknown[]) => {
-        expect(call[0]).toContain(feedbackText);
+      const result = await analyzeFeedback(text);
+
+      expect(chunkCount).toBeGreaterThan(1);
+      expect(mockRunStructuredLLM).toHaveBeenCalledTimes(chunkCount + 1);
+      expect(mockRunStructuredLLM).toHaveBeenLastCalledWith(
+        expect.stringContaining('Part 2:'),
+        ConsolidatedSummaryReplySchema,
+        expect.objectContaining({ name: 'consolidated_summary' })
+      );
+      expect(result).toEqual({
+        sentiment: 'negative',
+        sentiment_score: -0.6,
+        confidence_score: 0.8,
+        emotion: 'frustration',
+        urgency: 'high',
+        severity_score: 0.7,
+        intents: ['praise'],
+        entities: [{ type: 'platform', text: 'iOS' }],
+        topics: ['billing'],
+        topic_sentiments: [{ topic: 'billing', sentiment: 'negative', score: -0.8 }],
+        summary: 'Long support call about billing',
+        recommendation: 'Fix billing errors',
       });
     });
+
+    it('should propagate LLM errors instead of returning fallback values', async () => {
+      mockRunStructuredLLM.mockRejectedValueOnce(
+        new Error('Structured output validation failed after 2 attempts: - summary: Required')
+      );
+
+      await expect(analyzeFeedback('Test feedback')).rejects.toThrow(
+        'Structured output validation failed'
+      );
+    });
   });
-});
 
+  describe('extractIssues', () => {
+    it('should describe items by their analysis and map item numbers to indexes', async () => {
+      mockRunStructuredLLM.mockResolvedValueOnce({
+        issues: [
+          { title: 'Late deliveries', description: 'Orders arrive late.', items: [1, 2, 2, 9], recommendation: 'Switch carrier' },
+          { title: 'Invented', description: 'No such items.', items: [0, 5], recommendation: 'None' },
+        ],
+      });
+
+      const issues = await extractIssues([
+        { sentiment: 'negative', severity: 0.8, topics: ['shipping', 'refund'], summary: 'Package came\na week late.' },
+        { sentiment: 'negative', severity: null, topics: [], summary: 'Still waiting.' },
+      ]);
+
+      expect(mockRunStructuredLLM).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '[1] negative, severity 0.8, topics: shipping, refund | Package came a week late.\n[2] negative, severity n/a, topics: none | Still waiting.'
+        ),
+        InsightsMapReplySchema,
+        expect.objectContaining({ name: 'insights_map' })
+      );
+      expect(issues).toEqual([
+        { title: 'Late deliveries', description: 'Orders arrive late.', recommendation: 'Switch carrier', items: [0, 1] },
+      ]);
+    });
+  });
+
+  describe('consolidateInsights', () => {
+    const digest = (title: string) => ({
+      title,
+      description: `${title} description`,
+      recommendation: `Fix ${title}`,
+      count: 3,
+      avgSeverity: 0.456,
+    });
+
+    it('should assign every digest to exactly one merged issue', async () => {
+      mockRunStructuredLLM.mockResolvedValueOnce({
+        executive_summary: 'Shipping dominates.',
+        issues: [
+          { title: 'Shipping', description: 'Late and lost orders.', merges: [1, 3] },
+          { title: 'Duplicate', description: 'Claims merged issues only.', merges: [3] },
+        ],
+        recommendations: [
+          { recommendation: 'Switch carrier', priority: 'high', issues: [1, 2, 7] },
+          { recommendation: 'Nothing new', priority: 'low', issues: [2] },
+        ],
+      });
+
+      const result = await consolidateInsights([digest('late'), digest('pricing'), digest('lost')]);
+
+      expect(mockRunStructuredLLM).toHaveBeenCalledWith(
+        expect.stringContaining('[2] pricing (3 items, avg severity 0.46): pricing description Recommendation: Fix pricing'),
+        expect.anything(),
+        expect.objectContaining({ name: 'insights_reduce' })
+      );
+      expect(result.issues).toEqual([
+        { title: 'Shipping', description: 'Late and lost orders.', merges: [0, 2] },
+        { title: 'pricing', description: 'pricing description', merges: [1] },
+      ]);
+      expect(result.recommendations).toEqual([
+        { recommendation: 'Switch carrier', priority: 'high', issues: [0] },
+        { recommendation: 'Nothing new', priority: 'low', issues: [] },
+      ]);
+    });
+  });
+
+  describe('nameTheme', () => {
+    it('should list the examples one per line and trim the reply', async () => {
+      mockRunStructuredLLM.mockResolvedValueOnce({
+        name: ' Apple Pay failures ',
+        description: 'Checkout fails when paying with Apple Pay. ',
+      });
+
+      const theme = await nameTheme(['Apple Pay fails at\ncheckout.', 'Apple Pay button does nothing.']);
+
+      expect(mockRunStructuredLLM).toHaveBeenCalledWith(
+        expect.stringContaining('Examples:\n- Apple Pay fails at checkout.\n- Apple Pay button does nothing.'),
+        ThemeNamingReplySchema,
+        expect.objectContaining({ name: 'theme_naming' })
+      );
+      expect(theme).toEqual({ name: 'Apple Pay failures', description: 'Checkout fails when paying with Apple Pay.' });
+    });
+  });
+
+  describe('parseCitations', () => {
+    it('should list cited items in order and drop markers of unknown items', () => {
+      const result = parseCitations('Onboarding is slow [3][1]. Pricing [2, 9] and more [7].', 3);
+
+      expect(result).toEqual({ answer: 'Onboarding is slow [3][1]. Pricing [2] and more.', cited: [2, 0, 1] });
+    });
+  });
+
+  describe('answerQuestion', () => {
+    it('should number the items and return the cited ones', async () => {
+      mockRunLLM.mockResolvedValueOnce('Setup takes too long [2].');
+
+      const result = await answerQuestion('Why is onboarding  slow?', [
+        { created_at: '2026-03-01T10:00:00.000Z', source: 'email', sentiment: 'neutral', text: 'Fine.' },
+        { created_at: '2026-03-02T10:00:00.000Z', source: null, sentiment: null, text: 'Setup took\nweeks.' },
+      ]);
+
+      const prompt = mockRunLLM.mock.calls[0][0];
+      expect(prompt).toContain('Question: Why is onboarding slow?');
+      expect(prompt).toMatch(
+        /Feedback:\n\[1\] 2026-03-01, email, neutral \| Fine\.\n\[2\] 2026-03-02, unknown source, not analyzed \| Setup took weeks\.$/
+      );
+      expect(result).toEqual({ answer: 'Setup takes too long [2].', cited: [1] });
+    });
+  });
+});
@@ -1,6 +1,15 @@
 /// <reference types="jest" />
 
-import { embedText, runLLM, getOpenAIClient } from '@/lib/openai';
+import { z } from 'zod';
+import {
+  embedText,
+  embedTexts,
+  packEmbeddingBatches,
+  runLLM,
+  runStructuredLLM,
+  getOpenAIClient,
+} from '@/lib/openai';
+import { ProviderError, resetCircuitBreaker } from '@/lib/resilience';
 
 // Mock the OpenAI module
 jest.mock('openai', () => {
@@ -43,6 +52,13 @@ describe('lib/openai', () => {
     jest.clearAllMocks();
     jest.resetAllMocks();
 
+    // These tests exercise the OpenAI provider against a mocked SDK
+    process.env.LLM_PROVIDER = 'openai';
+
+    // Retry immediately, and start every test with a closed circuit
+    process.env.LLM_RETRY_BASE_DELAY_MS = '0';
+    resetCircuitBreaker();
+
     // Create a fresh mock client instance
     mockClient = {
       embeddings: {
@@ -65,7 +81,7 @@ describe('lib/openai', () => {
 
       const client = getOpenAIClient();
 
-      expect(OpenAI).toHaveBeenCalledWith({ apiKey: 'test-api-key' });
+      expect(OpenAI).toHaveBeenCalledWith({ apiKey: 'test-api-key', maxRetries: 0 });
       expect(client).toBeDefined();
     });
 
@@ -162,10 +178,13 @@ describe('lib/openai', () => {
 
       // Verify the client was called with expected shape
       expect(mockClient.embeddings.create).toHaveBeenCalledTimes(1);
-      expect(mockClient.embeddings.create).toHaveBeenCalledWith({
-        model: testModel,
-        input: testText,
-      });
+      expect(mockClient.embeddings.create).toHaveBeenCalledWith(
+        {
+          model: testModel,
+          input: testText,
+        },
+        { signal: expect.any(AbortSignal) }
+      );
     });
 
     it('should throw error when OPENAI_EMBED_MODEL is not set', async () => {
@@ -185,7 +204,10 @@ describe('lib/openai', () => {
     });
 
     it('should provide helpful message for quota/billing errors', async () => {
-      const quotaError = new Error('429 Too Many Requests');
+      const quotaError = Object.assign(new Error('429 You exceeded your current quota'), {
+        status: 429,
+        code: 'insufficient_quota',
+      });
       mockClient.embeddings.create.mockRejectedValue(quotaError);
 
       await expect(embedText('test')).rejects.toThrow('quota exceeded');
@@ -200,6 +222,77 @@ describe('lib/openai', () => {
     });
   });
 
+  describe('packEmbeddingBatches', () => {
+    it('should keep every text in a single request when within limits', () => {
+      expect(packEmbeddingBatches(['a', 'b', 'c'], 100, 10)).toEqual([[0, 1, 2]]);
+    });
+
+    it('should start a new request when the token budget is exceeded', () => {
+      // 40 characters ≈ 10 tokens each
+      const texts = ['x'.repeat(40), 'y'.repeat(40), 'z'.repeat(40)];
+
+      expect(packEmbeddingBatches(texts, 20, 10)).toEqual([[0, 1], [2]]);
+    });
+
+    it('should respect the maximum number of inputs per request', () => {
+      expect(packEmbeddingBatches(['a', 'b', 'c', 'd', 'e'], 100, 2)).toEqual([[0, 1], [2, 3], [4]]);
+    });
+
+    it('should give an oversized text a request of its own', () => {
+      const texts = ['short', 'x'.repeat(400), 'short'];
+
+      expect(packEmbeddingBatches(texts, 20, 10)).toEqual([[0], [1], [2]]);
+    });
+
+    it('should return no requests for no texts', () => {
+      expect(packEmbeddingBatches([], 100, 10)).toEqual([]);
+    });
+  });
+
+  describe('embedTexts', () => {
+    beforeEach(() => {
+      process.env.OPENAI_API_KEY = 'test-api-key';
+      process.env.OPENAI_EMBED_MODEL = 'text-embedding-3-small';
+    });
+
+    it('should embed many texts in one request and keep their order', async () => {
+      // The API may return embeddings in any order; `index` identifies the input
+      mockClient.embeddings.create.mockResolvedValue({
+        data: [
+          { embedding: [0.3], index: 2, object: 'embedding' },
+          { embedding: [0.1], index: 0, object: 'embedding' },
+          { embedding: [0.2], index: 1, object: 'embedding' },
+        ],
+      });
+
+      const result = await embedTexts(['first', 'second', 'third']);
+
+      expect(result).toEqual([[0.1], [0.2], [0.3]]);
+      expect(mockClient.embeddings.create).toHaveBeenCalledTimes(1);
+      expect(mockClient.embeddings.create).toHaveBeenCalledWith(
+        {
+          model: 'text-embedding-3-small',
+          input: ['first', 'second', 'third'],
+        },
+        { signal: expect.any(AbortSignal) }
+      );
+    });
+
+    it('should not call the API for no texts', async () => {
+      await expect(embedTexts([])).resolves.toEqual([]);
+      expect(mockClient.embeddings.create).not.toHaveBeenCalled();
+    });
+
+    it('should provide helpful message for quota/billing errors', async () => {
+      mockClient.embeddings.create.mockRejectedValue(
+        Object.assign(new Error('429 You exceeded your current quota'), { status: 429, code: 'insufficient_quota' })
+      );
+
+      await expect(embedTexts(['test'])).rejects.toThrow('Failed to generate embeddings');
+      await expect(embedTexts(['test'])).rejects.toThrow('quota exceeded');
+    });
+  });
+
   describe('runLLM', () => {
     beforeEach(() => {
       process.env.OPENAI_API_KEY = 'test-api-key';
@@ -364,7 +457,10 @@ describe('lib/openai', () => {
     });
 
     it('should provide helpful message for quota/billing errors', async () => {
-      const quotaError = new Error('429 Too Many Requests');
+      const quotaError = Object.assign(new Error('429 You exceeded your current quota'), {
+        status: 429,
+        code: 'insufficient_quota',
+      });
       mockClient.chat.completions.create.mockRejectedValue(quotaError);
 
       await expect(runLLM('test')).rejects.toThrow('quota exceeded');
@@ -386,5 +482,115 @@ describe('lib/openai', () => {
       await expect(runLLM('test')).rejects.toThrow('Unknown error');
     });
   });
-});
 
+  describe('runStructuredLLM', () => {
+    const ReplySchema = z.object({
+      answer: z.string(),
+      score: z.number().min(0).max(1),
+    });
+
+    function completion(content: string | null) {
+      return {
+        id: 'chatcmpl-123',
+        object: 'chat.completion',
+        created: 1234567890,
+        model: 'gpt-4o-mini',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 5, completion_tokens: 10, total_tokens: 15 },
+      };
+    }
+
+    beforeEach(() => {
+      process.env.OPENAI_API_KEY = 'test-api-key';
+      process.env.OPENAI_LLM_MODEL = 'gpt-4o-mini';
+    });
+
+    it('should return the validated reply and send a JSON schema response format', async () => {
+      mockClient.chat.completions.create.mockResolvedValue(
+        completion(JSON.stringify({ answer: 'yes', score: 0.9 }))
+      );
+
+      const result = await runStructuredLLM('test prompt', ReplySchema, { name: 'reply' });
+
+      expect(result).toEqual({ answer: 'yes', score: 0.9 });
+      expect(mockClient.chat.completions.create).toHaveBeenCalledTimes(1);
+
+      const callArgs = mockClient.chat.completions.create.mock.calls[0][0];
+      expect(callArgs.response_format).toHaveProperty('type', 'json_schema');
+      expect(callArgs.response_format.json_schema).toHaveProperty('name', 'reply');
+      expect(callArgs.messages).toEqual([{ role: 'user', content: 'test prompt' }]);
+    });
+
+    it('should accept JSON wrapped in markdown code blocks', async () => {
+      mockClient.chat.completions.create.mockResolvedValue(
+        completion('```json\n{"answer": "yes", "score": 0.5}\n```')
+      );
+
+      const result = await runStructuredLLM('test', ReplySchema, { name: 'reply' });
+
+      expect(result).toEqual({ answer: 'yes', score: 0.5 });
+    });
+
+    it('should ask the model to repair an invalid reply', async () => {
+      mockClient.chat.completions.create
+        .mockResolvedValueOnce(completion(JSON.stringify({ answer: 'yes', score: 7 })))
+        .mockResolvedValueOnce(completion(JSON.stringify({ answer: 'yes', score: 0.7 })));
+
+      const result = await runStructuredLLM('test', ReplySchema, { name: 'reply' });
+
+      expect(result).toEqual({ answer: 'yes', score: 0.7 });
+      expect(mockClient.chat.completions.create).toHaveBeenCalledTimes(2);
+
+      const repairMessages = mockClient.chat.completions.create.mock.calls[1][0].messages;
+      expect(repairMessages).toHaveLength(3);
+      expect(repairMessages[1]).toEqual({
+        role: 'assistant',
+        content: JSON.stringify({ answer: 'yes', score: 7 }),
+      });
+      expect(repairMessages[2].role).toBe('user');
+      expect(repairMessages[2].content).toContain('score');
+    });
+
+    it('should throw after exhausting attempts instead of returning defaults', async () => {
+      mockClient.chat.completions.create.mockResolvedValue(completion('not json'));
+
+      await expect(
+        runStructuredLLM('test', ReplySchema, { name: 'reply', maxAttempts: 3 })
+      ).rejects.toThrow('Structured output validation failed after 3 attempts');
+      expect(mockClient.chat.completions.create).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry when no content is returned', async () => {
+      mockClient.chat.completions.create
+        .mockResolvedValueOnce(completion(null))
+        .mockResolvedValueOnce(completion(JSON.stringify({ answer: 'ok', score: 0 })));
+
+      const result = await runStructuredLLM('test', ReplySchema, { name: 'reply' });
+
+      expect(result).toEqual({ answer: 'ok', score: 0 });
+    });
+
+    it('should surface API errors without retrying', async () => {
+      mockClient.chat.completions.create.mockRejectedValue(new Error('billing hard limit reached'));
+
+      await expect(runStructuredLLM('test', ReplySchema, { name: 'reply' })).rejects.toThrow(
+        'quota exceeded'
+      );
+      expect(mockClient.chat.completions.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw error when OPENAI_LLM_MODEL is not set', async () => {
+      delete process.env.OPENAI_LLM_MODEL;
+
+      await expect(runStructuredLLM('test', ReplySchema, { name: 'reply' })).rejects.toThrow(
+        'OPENAI_LLM_MODEL environment variable is not set'
+      );
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/// <reference types="jest" />
+
+import {
+  formatInstructions,
+  getPromptTemplate,
+  hashInstructions,
+  renderPrompt,
+  setPromptTemplates,
+  PROMPT_TEMPLATES,
+} from '@/lib/prompts';
+
+describe('Prompt Template Registry', () => {
+  describe('renderPrompt', () => {
+    it('should fill in every variable and end with the feedback', () => {
+      const prompt = renderPrompt('feedback_translation', { feedback: 'Das Paket kam zu spät' });
+
+      expect(prompt).not.toMatch(/\{\{\w+\}\}/);
+      expect(prompt).not.toContain('Account instructions');
+      expect(prompt.endsWith('\nFeedback: Das Paket kam zu spät')).toBe(true);
+    });
+
+    it('should add account context and rules before the feedback', () => {
+      const prompt = renderPrompt(
+        'feedback_analysis',
+        { emotions: 'anger, joy', urgency_levels: 'low, high', intents: 'praise, question', entity_types: 'product, version', feedback: 'The run failed' },
+        { context: "We are a B2B payroll SaaS; 'run' means payroll run", rules: ['  Treat refunds as high urgency ', ''] }
+      );
+
+      expect(prompt).toContain("Context: We are a B2B payroll SaaS; 'run' means payroll run");
+      expect(prompt).toContain('Rules:\n- Treat refunds as high urgency\n');
+      expect(prompt.indexOf('Account instructions')).toBeLessThan(prompt.indexOf('Feedback: The run failed'));
+      expect(prompt.endsWith('Feedback: The run failed')).toBe(true);
+    });
+
+    it('should keep the category list format the local provider parses', () => {
+      const prompt = renderPrompt('feedback_classification', {
+        max_categories: 3,
+        categories: '- "Billing"',
+        feedback: 'Charged twice',
+      });
+
+      expect(prompt).toContain('at most 3');
+      expect(prompt).toMatch(/^- "Billing"$/m);
+    });
+
+    it('should throw when a variable is missing', () => {
+      expect(() => renderPrompt('consolidated_summary', {})).toThrow(
+        'Prompt template "consolidated_summary" is missing variable "parts"'
+      );
+    });
+  });
+
+  describe('setPromptTemplates', () => {
+    afterEach(() => setPromptTemplates(null));
+
+    it('should render overrides until reset', () => {
+      setPromptTemplates({ feedback_translation: { version: 2, template: 'Translate: {{feedback}}' } });
+
+      expect(getPromptTemplate('feedback_translation').version).toBe(2);
+      expect(renderPrompt('feedback_translation', { feedback: 'Hola' })).toBe('Translate: Hola');
+      expect(getPromptTemplate('feedback_analysis')).toBe(PROMPT_TEMPLATES.feedback_analysis);
+
+      setPromptTemplates(null);
+      expect(getPromptTemplate('feedback_translation')).toBe(PROMPT_TEMPLATES.feedback_translation);
+    });
+  });
+
+  describe('formatInstructions', () => {
+    it('should be empty without context or rules', () => {
+      expect(formatInstructions()).toBe('');
+      expect(formatInstructions({ context: '  ', rules: [' '] })).toBe('');
+    });
+  });
+
+  describe('hashInstructions', () => {
+    it('should change with the instructions but not with whitespace around them', () => {
+      const hash = hashInstructions({ context: 'Payroll SaaS', rules: ['Refunds are urgent'] });
+
+      expect(hash).toMatch(/^[0-9a-f]{16}$/);
+      expect(hashInstructions({ context: ' Payroll SaaS ', rules: ['Refunds are urgent', ''] })).toBe(hash);
+      expect(hashInstructions({ context: 'Payroll SaaS', rules: [] })).not.toBe(hash);
+      expect(hashInstructions()).toBe(hashInstructions({ context: '', rules: [] }));
+    });
+  });
+
+  it('should version every template', () => {
+    for (const template of Object.values(PROMPT_TEMPLATES)) {
+      expect(Number.isInteger(template.version)).toBe(true);
+      expect(template.version).toBeGreaterThan(0);
+    }
+  });
+});
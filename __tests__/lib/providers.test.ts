@@ -0,0 +1,261 @@
+/// <reference types="jest" />
+
+import { z } from 'zod';
+import { createLocalProvider } from '@/lib/local-provider';
+import { embedText, embedTexts, getProvider, runLLM, runStructuredLLM, setProvider } from '@/lib/openai';
+import {
+  analyzeFeedback,
+  classifyFeedback,
+  detectAndTranslate,
+  generateEmbedding,
+  generateEmbeddings,
+} from '@/lib/langchain';
+import type { LLMProvider } from '@/lib/providers';
+
+/**
+ * Cosine similarity of two unit vectors
+ */
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + value * b[index], 0);
+}
+
+describe('LLM providers', () => {
+  // Suppress telemetry output during tests
+  const originalConsoleLog = console.log;
+  const originalConsoleError = console.error;
+
+  beforeAll(() => {
+    console.log = jest.fn();
+    console.error = jest.fn();
+  });
+
+  afterAll(() => {
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+  });
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'local';
+    setProvider(null);
+  });
+
+  describe('getProvider', () => {
+    it('should select the provider named by LLM_PROVIDER', () => {
+      process.env.LLM_PROVIDER = 'local';
+      expect(getProvider().name).toBe('local');
+
+      process.env.LLM_PROVIDER = 'openai';
+      expect(getProvider().name).toBe('openai');
+    });
+
+    it('should default to openai when LLM_PROVIDER is not set', () => {
+      delete process.env.LLM_PROVIDER;
+
+      expect(getProvider().name).toBe('openai');
+    });
+
+    it('should throw for an unknown provider', () => {
+      process.env.LLM_PROVIDER = 'bogus';
+
+      expect(() => getProvider()).toThrow('Unknown LLM_PROVIDER "bogus"');
+    });
+
+    it('should require OPENAI_BASE_URL for openai-compatible', async () => {
+      process.env.LLM_PROVIDER = 'openai-compatible';
+      delete process.env.OPENAI_BASE_URL;
+
+      await expect(runLLM('test')).rejects.toThrow('OPENAI_BASE_URL environment variable is not set');
+    });
+
+    it('should prefer a provider set with setProvider', async () => {
+      const custom: LLMProvider = {
+        name: 'local',
+        models: { llm: 'custom-llm', embed: 'custom-embed' },
+        embed: jest.fn().mockResolvedValue([1, 0]),
+        complete: jest.fn().mockResolvedValue('custom reply'),
+      };
+      setProvider(custom);
+      process.env.LLM_PROVIDER = 'openai';
+
+      expect(await runLLM('hello')).toBe('custom reply');
+      expect(await embedText('hello')).toEqual([1, 0]);
+      expect(custom.complete).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'custom-llm' })
+      );
+    });
+  });
+
+  describe('local provider', () => {
+    it('should return reproducible, normalized 1536-dim embeddings', async () => {
+      const first = await embedText('The delivery was late again');
+      const second = await embedText('The delivery was late again');
+
+      expect(first).toHaveLength(1536);
+      expect(first).toEqual(second);
+      expect(cosine(first, first)).toBeCloseTo(1, 6);
+    });
+
+    it('should make texts that share words more similar', async () => {
+      const base = await embedText('delivery was late and the package was damaged');
+      const related = await embedText('my package delivery was late');
+      const unrelated = await embedText('love the new dashboard colors');
+
+      expect(cosine(base, related)).toBeGreaterThan(cosine(base, unrelated));
+    });
+
+    it('should return the same embeddings in a batch as one at a time', async () => {
+      const texts = ['The delivery was late again', 'Love the new dashboard'];
+
+      const batch = await embedTexts(texts);
+
+      expect(batch).toEqual([await embedText(texts[0]), await embedText(texts[1])]);
+    });
+
+    it('should average chunks of long texts in batches like generateEmbedding', async () => {
+      const long = 'The delivery was late again and the box was damaged. '.repeat(200);
+
+      const [batched, short] = await generateEmbeddings([long, 'Great app']);
+
+      expect(batched).toEqual(await generateEmbedding(long));
+      expect(short).toEqual(await generateEmbedding('Great app'));
+    });
+
+    it('should return a unit vector for empty text', async () => {
+      const embedding = await embedText('');
+
+      expect(cosine(embedding, embedding)).toBeCloseTo(1, 6);
+    });
+
+    it('should fill structured replies it has no responder for from the schema', async () => {
+      const Schema = z.object({
+        title: z.string(),
+        score: z.number().min(0).max(1),
+        tags: z.array(z.string()),
+        kind: z.enum(['a', 'b']),
+        note: z.string().nullable(),
+      });
+
+      const result = await runStructuredLLM('Feedback: Short text.', Schema, { name: 'unknown_format' });
+
+      expect(result).toEqual({ title: 'Short text.', score: 0.5, tags: [], kind: 'a', note: null });
+    });
+
+    it.each([
+      ['The delivery was late and the box was damaged.', 'en'],
+      ['El envío llegó muy tarde y la caja está rota.', 'es'],
+      ['Die Lieferung ist nicht angekommen und ich bin sehr enttäuscht.', 'de'],
+      ['Le produit est très bien mais la livraison est lente.', 'fr'],
+      ['配送が遅れました。', 'ja'],
+    ])('should detect the language of "%s" as %s', async (text, expected) => {
+      const result = await detectAndTranslate(text);
+
+      expect(result.language).toBe(expected);
+      expect(result.translation).toBe(expected === 'en' ? null : text);
+    });
+
+    it('should answer plain completions without network access', async () => {
+      const provider = createLocalProvider();
+
+      const reply = await provider.complete({
+        model: 'local-deterministic',
+        messages: [{ role: 'user', content: 'Summarize. Feedback: Great app. Works well.' }],
+        maxTokens: 100,
+        temperature: 0,
+      });
+
+      expect(reply).toBe('Local response: Great app.');
+    });
+  });
+
+  describe('analyzeFeedback with the local provider', () => {
+    it('should analyze feedback offline and deterministically', async () => {
+      const text = 'Love the product quality, but shipping was slow and the package arrived damaged.';
+
+      const first = await analyzeFeedback(text);
+      const second = await analyzeFeedback(text);
+
+      expect(first).toEqual(second);
+      expect(first.sentiment).toBe('mixed');
+      expect(first.topics).toEqual(expect.arrayContaining(['shipping', 'product quality']));
+      expect(first.summary).toBeTruthy();
+      expect(first.recommendation).toBeTruthy();
+    });
+
+    it('should score each topic separately', async () => {
+      const result = await analyzeFeedback('Great product quality, but terrible shipping.');
+
+      expect(result.sentiment).toBe('mixed');
+      expect(result.topic_sentiments).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ topic: 'product quality', sentiment: 'positive' }),
+          expect.objectContaining({ topic: 'shipping', sentiment: 'negative' }),
+        ])
+      );
+    });
+
+    it('should flag churn threats as critical', async () => {
+      const result = await analyzeFeedback('This is unacceptable. Fix it or I will cancel and file a chargeback.');
+
+      expect(result.emotion).toBe('anger');
+      expect(result.urgency).toBe('critical');
+      expect(result.severity_score).toBeGreaterThan(0.8);
+    });
+
+    it.each([
+      ['The export keeps failing with an error. Fix it or I will cancel.', ['cancellation_intent', 'bug_report']],
+      ['Please add a dark mode feature, I wish I could use it at night.', ['feature_request']],
+      ['How do I change my billing address?', ['question']],
+      ['Amazing app, I love it!', ['praise']],
+    ])('should detect the intents of "%s"', async (text, expected) => {
+      const result = await analyzeFeedback(text);
+
+      expect(result.intents).toEqual(expected);
+    });
+
+    it('should extract versions, platforms and amounts', async () => {
+      const result = await analyzeFeedback('Since v2.3 the Android app charges me $1,200.50 twice.');
+
+      expect(result.entities).toEqual([
+        { type: 'version', text: 'v2.3' },
+        { type: 'platform', text: 'android' },
+        { type: 'amount', text: '$1,200.50' },
+      ]);
+    });
+
+    it.each([
+      ['Excellent support, very helpful and friendly staff!', 'positive'],
+      ['The app keeps crashing and support was rude.', 'negative'],
+      ['I received the order on Tuesday.', 'neutral'],
+      ['Not good at all.', 'negative'],
+    ])('should classify "%s" as %s', async (text, expected) => {
+      const result = await analyzeFeedback(text);
+
+      expect(result.sentiment).toBe(expected);
+    });
+  });
+
+  describe('classifyFeedback with the local provider', () => {
+    const taxonomy = [
+      { label: 'Shipping', description: 'Delivery speed and packaging' },
+      { label: 'Shipping > Damaged items', examples: ['box was crushed', 'arrived broken'] },
+      { label: 'Billing', description: 'Charges, refunds and invoices' },
+    ];
+
+    it('should only return labels from the taxonomy', async () => {
+      const result = await classifyFeedback('I was charged twice and still need a refund.', taxonomy);
+
+      expect(result).toEqual(['Billing']);
+    });
+
+    it('should use descriptions and examples to pick subcategories', async () => {
+      const result = await classifyFeedback('The package arrived broken, the box was crushed.', taxonomy);
+
+      expect(result[0]).toBe('Shipping > Damaged items');
+      expect(result).not.toContain('Billing');
+    });
+
+    it('should return no categories when none applies', async () => {
+      expect(await classifyFeedback('Lovely colours.', taxonomy)).toEqual([]);
+    });
+  });
+});
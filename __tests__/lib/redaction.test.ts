@@ -0,0 +1,53 @@
+/// <reference types="jest" />
+
+import { redactPII, restorePII } from '@/lib/redaction'
+
+describe('redactPII', () => {
+  it.each([
+    ['email', 'Reach me at jane.doe@example.com please', 'Reach me at [EMAIL_1] please'],
+    ['phone', 'Call me on +44 20 7946 0958 tomorrow', 'Call me on [PHONE_1] tomorrow'],
+    ['credit_card', 'I paid with 4111 1111 1111 1111 yesterday', 'I paid with [CREDIT_CARD_1] yesterday'],
+    ['credit_card', 'Charged to **** **** **** 4242 twice', 'Charged to [CREDIT_CARD_1] twice'],
+    ['credit_card', 'My visa ending in 4242 was declined', 'My visa ending in [CREDIT_CARD_1] was declined'],
+    ['iban', 'Refund to DE89 3704 0044 0532 0130 00 please', 'Refund to [IBAN_1] please'],
+    ['order_number', 'Order #A1234-77 is missing', 'Order #[ORDER_NUMBER_1] is missing'],
+    ['order_number', 'Still waiting on #1029384', 'Still waiting on #[ORDER_NUMBER_1]'],
+    ['order_number', 'Order 123456789 never arrived', 'Order [ORDER_NUMBER_1] never arrived'],
+    ['order_number', 'Where is #4815162342?', 'Where is #[ORDER_NUMBER_1]?'],
+    ['address', 'Ship it to 221 Baker Street, Apt 2B instead', 'Ship it to [ADDRESS_1] instead'],
+  ])('masks %s: %s', (type, text, expected) => {
+    const result = redactPII(text)
+
+    expect(result.text).toBe(expected)
+    expect(result.counts).toEqual({ [type]: 1 })
+  })
+
+  it('leaves text without personal data unchanged', () => {
+    const text = 'The app crashed 3 times since the 2.4.1 update in 2024, 10/10 frustrating'
+    const result = redactPII(text)
+
+    expect(result.text).toBe(text)
+    expect(result.redactions).toEqual([])
+    expect(result.counts).toEqual({})
+  })
+
+  it('does not treat digit runs that fail the Luhn check as card numbers', () => {
+    expect(redactPII('Reference 1234 5678 9012 3456').counts.credit_card).toBeUndefined()
+  })
+
+  it('reuses the placeholder for repeated values and counts every occurrence', () => {
+    const result = redactPII('Mail a@x.io, not b@x.io. Again: a@x.io')
+
+    expect(result.text).toBe('Mail [EMAIL_1], not [EMAIL_2]. Again: [EMAIL_1]')
+    expect(result.redactions).toHaveLength(2)
+    expect(result.counts).toEqual({ email: 3 })
+  })
+
+  it('restores the original text from the redactions', () => {
+    const text = 'Order 99812 for jane@example.com, call 415-555-0134'
+    const { text: redacted, redactions } = redactPII(text)
+
+    expect(redacted).not.toContain('jane@example.com')
+    expect(restorePII(redacted, redactions)).toBe(text)
+  })
+})
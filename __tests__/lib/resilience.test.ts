@@ -0,0 +1,213 @@
+/// <reference types="jest" />
+
+import {
+  callProvider,
+  classifyProviderError,
+  computeRetryDelay,
+  getCircuitState,
+  parseRetryAfter,
+  ProviderError,
+  resetCircuitBreaker,
+} from '@/lib/resilience';
+
+/**
+ * Error shaped like the ones the OpenAI SDK throws
+ */
+function apiError(status: number, message: string, extra: Record<string, unknown> = {}) {
+  return Object.assign(new Error(message), { status, headers: {}, ...extra });
+}
+
+describe('lib/resilience', () => {
+  const originalConsoleWarn = console.warn;
+
+  beforeAll(() => {
+    console.warn = jest.fn();
+  });
+
+  afterAll(() => {
+    console.warn = originalConsoleWarn;
+  });
+
+  beforeEach(() => {
+    process.env.LLM_RETRY_BASE_DELAY_MS = '0';
+    delete process.env.LLM_MAX_ATTEMPTS;
+    delete process.env.LLM_CIRCUIT_BREAKER_THRESHOLD;
+    delete process.env.LLM_CIRCUIT_BREAKER_COOLDOWN_MS;
+    resetCircuitBreaker();
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+      expect(parseRetryAfter('0.5')).toBe(500);
+    });
+
+    it('should parse HTTP dates relative to now', () => {
+      const now = Date.parse('Mon, 19 Oct 2026 10:00:00 GMT');
+
+      expect(parseRetryAfter('Mon, 19 Oct 2026 10:00:03 GMT', now)).toBe(3000);
+    });
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+      expect(parseRetryAfter('-1')).toBeUndefined();
+    });
+  });
+
+  describe('classifyProviderError', () => {
+    it.each([
+      [apiError(429, 'Rate limit reached'), 'rate_limit'],
+      [apiError(429, 'You exceeded your current quota', { code: 'insufficient_quota' }), 'quota_exhausted'],
+      [apiError(500, 'Internal server error'), 'server_error'],
+      [apiError(503, 'Service unavailable'), 'server_error'],
+      [apiError(400, 'Invalid schema'), 'invalid_request'],
+      [apiError(401, 'Incorrect API key'), 'invalid_request'],
+      [new Error('Request timed out.'), 'timeout'],
+      [new Error('connect ECONNREFUSED 127.0.0.1:8000'), 'server_error'],
+      [new Error('billing hard limit reached'), 'quota_exhausted'],
+    ])('should classify %s as %s', (error, kind) => {
+      expect(classifyProviderError(error).kind).toBe(kind);
+    });
+
+    it('should read Retry-After headers', () => {
+      expect(
+        classifyProviderError(apiError(429, 'Slow down', { headers: { 'retry-after': '3' } })).retryAfterMs
+      ).toBe(3000);
+      expect(
+        classifyProviderError(
+          apiError(429, 'Slow down', { headers: { 'retry-after': '3', 'retry-after-ms': '1200' } })
+        ).retryAfterMs
+      ).toBe(1200);
+    });
+
+    it('should keep the status and handle non-Error values', () => {
+      expect(classifyProviderError(apiError(502, 'Bad gateway')).status).toBe(502);
+      expect(classifyProviderError('string error').message).toBe('Unknown error');
+    });
+  });
+
+  describe('computeRetryDelay', () => {
+    const policy = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+    it('should grow exponentially with full jitter', () => {
+      expect(computeRetryDelay(1, policy, undefined, () => 0.999)).toBe(100);
+      expect(computeRetryDelay(3, policy, undefined, () => 0.5)).toBe(200);
+      expect(computeRetryDelay(3, policy, undefined, () => 0)).toBe(0);
+    });
+
+    it('should never wait less than Retry-After or more than the maximum', () => {
+      expect(computeRetryDelay(1, policy, 750, () => 0)).toBe(750);
+      expect(computeRetryDelay(10, policy, undefined, () => 0.999)).toBe(999);
+      expect(computeRetryDelay(1, policy, 5000, () => 0)).toBe(1000);
+    });
+  });
+
+  describe('callProvider', () => {
+    it('should retry transient failures until a request succeeds', async () => {
+      const call = jest
+        .fn()
+        .mockRejectedValueOnce(apiError(503, 'Service unavailable'))
+        .mockRejectedValueOnce(apiError(429, 'Rate limit reached'))
+        .mockResolvedValueOnce('ok');
+
+      await expect(callProvider('test', call)).resolves.toBe('ok');
+      expect(call).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry invalid requests or exhausted quota', async () => {
+      const invalid = jest.fn().mockRejectedValue(apiError(400, 'Invalid schema'));
+      const quota = jest.fn().mockRejectedValue(apiError(429, 'Quota', { code: 'insufficient_quota' }));
+
+      await expect(callProvider('test', invalid)).rejects.toMatchObject({ kind: 'invalid_request' });
+      await expect(callProvider('test', quota)).rejects.toMatchObject({ kind: 'quota_exhausted' });
+      expect(invalid).toHaveBeenCalledTimes(1);
+      expect(quota).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after the maximum number of attempts', async () => {
+      const call = jest.fn().mockRejectedValue(apiError(429, 'Rate limit reached'));
+
+      await expect(callProvider('test', call, { maxAttempts: 3 })).rejects.toBeInstanceOf(ProviderError);
+      expect(call).toHaveBeenCalledTimes(3);
+    });
+
+    it('should wait for Retry-After before retrying', async () => {
+      const call = jest
+        .fn()
+        .mockRejectedValueOnce(apiError(429, 'Slow down', { headers: { 'retry-after-ms': '50' } }))
+        .mockResolvedValueOnce('ok');
+
+      const start = Date.now();
+      await callProvider('test', call);
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should not wait for a Retry-After beyond the maximum delay', async () => {
+      const call = jest.fn().mockRejectedValue(apiError(429, 'Slow down', { headers: { 'retry-after': '120' } }));
+
+      await expect(callProvider('test', call, { maxDelayMs: 1000 })).rejects.toMatchObject({
+        kind: 'rate_limit',
+        retryAfterMs: 120000,
+      });
+      expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort requests that exceed the timeout', async () => {
+      let aborted = false;
+      const call = jest.fn((signal: AbortSignal) => {
+        signal.addEventListener('abort', () => {
+          aborted = true;
+        });
+        return new Promise<string>(() => {});
+      });
+
+      await expect(callProvider('test', call, { timeoutMs: 10, maxAttempts: 2 })).rejects.toMatchObject({
+        kind: 'timeout',
+      });
+      expect(call).toHaveBeenCalledTimes(2);
+      expect(aborted).toBe(true);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should fail fast once consecutive outage failures reach the threshold', async () => {
+      const down = jest.fn().mockRejectedValue(apiError(503, 'Service unavailable'));
+      const healthy = jest.fn().mockResolvedValue('ok');
+
+      await expect(
+        callProvider('test', down, { maxAttempts: 3, breakerThreshold: 3 })
+      ).rejects.toMatchObject({ kind: 'server_error' });
+      expect(getCircuitState()).toBe('open');
+
+      await expect(callProvider('test', healthy, { breakerThreshold: 3 })).rejects.toMatchObject({
+        kind: 'circuit_open',
+      });
+      expect(healthy).not.toHaveBeenCalled();
+    });
+
+    it('should not count rate limits or invalid requests as outages', async () => {
+      const limited = jest.fn().mockRejectedValue(apiError(429, 'Rate limit reached'));
+
+      await expect(callProvider('test', limited, { maxAttempts: 4, breakerThreshold: 2 })).rejects.toMatchObject({
+        kind: 'rate_limit',
+      });
+      expect(getCircuitState()).toBe('closed');
+    });
+
+    it('should let a trial request through after the cooldown and close on success', async () => {
+      const down = jest.fn().mockRejectedValue(apiError(500, 'Internal server error'));
+
+      await expect(
+        callProvider('test', down, { maxAttempts: 1, breakerThreshold: 1, breakerCooldownMs: 0 })
+      ).rejects.toMatchObject({ kind: 'server_error' });
+
+      process.env.LLM_CIRCUIT_BREAKER_COOLDOWN_MS = '0';
+      expect(getCircuitState()).toBe('half-open');
+
+      await expect(callProvider('test', jest.fn().mockResolvedValue('ok'))).resolves.toBe('ok');
+      expect(getCircuitState()).toBe('closed');
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/// <reference types="jest" />
+
+jest.mock('@/lib/supabase', () => ({
+  createServerClient: jest.fn(),
+}))
+
+import { AccountSettingsError, DEFAULT_ACCOUNT_SETTINGS, getAccountSettings } from '@/lib/settings'
+import { createServerClient } from '@/lib/supabase'
+
+const mockCreateServerClient = createServerClient as jest.MockedFunction<typeof createServerClient>
+
+/**
+ * Supabase client whose account_settings read resolves to `result`
+ */
+function clientReturning(result: { data: unknown; error: unknown }) {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    maybeSingle: () => Promise.resolve(result),
+  }
+
+  return { from: () => query } as any
+}
+
+describe('Account settings', () => {
+  const originalConsoleError = console.error
+
+  beforeAll(() => {
+    console.error = jest.fn()
+  })
+
+  afterAll(() => {
+    console.error = originalConsoleError
+  })
+
+  it('should merge saved settings over the defaults', async () => {
+    mockCreateServerClient.mockReturnValue(clientReturning({ data: { redact_before_storage: true }, error: null }))
+
+    expect(await getAccountSettings('user_1')).toEqual({ ...DEFAULT_ACCOUNT_SETTINGS, redact_before_storage: true })
+  })
+
+  it('should use the defaults for accounts without saved settings', async () => {
+    mockCreateServerClient.mockReturnValue(clientReturning({ data: null, error: null }))
+
+    expect(await getAccountSettings('user_1')).toEqual(DEFAULT_ACCOUNT_SETTINGS)
+  })
+
+  it('should throw rather than fall back to the defaults when the read fails', async () => {
+    mockCreateServerClient.mockReturnValue(clientReturning({ data: null, error: { message: 'timeout' } }))
+
+    await expect(getAccountSettings('user_1')).rejects.toThrow(AccountSettingsError)
+  })
+
+  it('should throw when the client cannot be created', async () => {
+    mockCreateServerClient.mockImplementation(() => {
+      throw new Error('SUPABASE_URL is not set')
+    })
+
+    await expect(getAccountSettings('user_1')).rejects.toThrow(AccountSettingsError)
+  })
+})
@@ -0,0 +1,85 @@
+/// <reference types="jest" />
+
+import {
+  getCategoryLabel,
+  toClassificationCategories,
+  validateCategoryInput,
+  type TaxonomyCategory,
+} from '@/lib/taxonomy'
+
+/**
+ * Builds a taxonomy category with optional overrides
+ */
+function category(id: string, name: string, parentId: string | null = null): TaxonomyCategory {
+  return {
+    id,
+    user_id: 'user_test_123',
+    name,
+    description: null,
+    examples: [],
+    parent_id: parentId,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  }
+}
+
+describe('lib/taxonomy', () => {
+  const taxonomy = [
+    category('shipping', 'Shipping'),
+    category('late', 'Late delivery', 'shipping'),
+    category('courier', 'Courier', 'late'),
+    category('billing', 'Billing'),
+  ]
+
+  describe('getCategoryLabel', () => {
+    it('should prefix subcategories with their parents', () => {
+      expect(getCategoryLabel(taxonomy[0], taxonomy)).toBe('Shipping')
+      expect(getCategoryLabel(taxonomy[2], taxonomy)).toBe('Shipping > Late delivery > Courier')
+    })
+
+    it('should stop at parent cycles', () => {
+      const cyclic = [category('a', 'A', 'b'), category('b', 'B', 'a')]
+
+      expect(getCategoryLabel(cyclic[0], cyclic)).toBe('B > A')
+    })
+  })
+
+  describe('toClassificationCategories', () => {
+    it('should pass labels, descriptions and examples to the classifier', () => {
+      const withDetails = [{ ...category('billing', 'Billing'), description: 'Charges', examples: ['double charge'] }]
+
+      expect(toClassificationCategories(withDetails)).toEqual([
+        { label: 'Billing', description: 'Charges', examples: ['double charge'] },
+      ])
+    })
+  })
+
+  describe('validateCategoryInput', () => {
+    it('should accept a valid subcategory', () => {
+      expect(validateCategoryInput({ name: 'Damaged', parent_id: 'shipping', examples: ['broken'] }, taxonomy)).toBeNull()
+    })
+
+    it.each([
+      [{}, 'name is required'],
+      [{ name: '   ' }, 'name is required'],
+      [{ name: 'A > B' }, 'must not contain'],
+      [{ name: 'Damaged', examples: 'broken' }, 'examples must be an array'],
+      [{ name: 'Damaged', parent_id: 'unknown' }, 'parent_id must reference'],
+    ])('should reject %j', (input, message) => {
+      expect(validateCategoryInput(input as any, taxonomy)).toContain(message)
+    })
+
+    it.each([null, 'Shipping', [{ name: 'Shipping' }]])('should reject a %j body', (body) => {
+      expect(validateCategoryInput(body, taxonomy)).toBe('Request body must be a JSON object')
+      expect(validateCategoryInput(body, taxonomy, 'shipping')).toBe('Request body must be a JSON object')
+    })
+
+    it('should allow partial updates without a name', () => {
+      expect(validateCategoryInput({ description: 'Delivery speed' }, taxonomy, 'shipping')).toBeNull()
+    })
+
+    it('should reject moving a category under its own descendant', () => {
+      expect(validateCategoryInput({ parent_id: 'courier' }, taxonomy, 'shipping')).toContain('cycle')
+    })
+  })
+})
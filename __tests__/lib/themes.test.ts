@@ -0,0 +1,168 @@
+/// <reference types="jest" />
+
+jest.mock('@/lib/langchain', () => ({
+  nameTheme: jest.fn(),
+  getThemeNamingVersion: jest.fn(() => ({ model: 'gpt-4o-mini', prompt_version: 1 })),
+}))
+
+jest.mock('@/lib/supabase', () => ({
+  createServerClient: jest.fn(),
+  getFeedbackEmbeddings: jest.fn(),
+}))
+
+jest.mock('@/lib/costs', () => ({
+  storeUsageRecords: jest.fn(),
+}))
+
+import {
+  buildThemes,
+  chooseClusterCount,
+  clusterEmbeddings,
+  discoverThemes,
+  normalize,
+  selectExamples,
+  ThemeScopeError,
+} from '@/lib/themes'
+import { nameTheme } from '@/lib/langchain'
+import { getFeedbackEmbeddings, type FeedbackEmbedding } from '@/lib/supabase'
+
+const mockNameTheme = nameTheme as jest.MockedFunction<typeof nameTheme>
+const mockGetFeedbackEmbeddings = getFeedbackEmbeddings as jest.MockedFunction<typeof getFeedbackEmbeddings>
+
+/**
+ * Vector close to the `axis` unit vector (4 dimensions), slightly off by `offset`
+ */
+function near(axis: number, offset: number): number[] {
+  const vector = [0, 0, 0, 0]
+  vector[axis] = 1
+  vector[(axis + 1) % 4] = offset
+  return normalize(vector)
+}
+
+function row(
+  id: string,
+  embedding: number[],
+  analysis: Partial<NonNullable<FeedbackEmbedding['analysis']>> | null = {}
+): FeedbackEmbedding {
+  return {
+    id,
+    text: `Feedback ${id}`,
+    translated_text: null,
+    created_at: '2026-03-10T12:00:00.000Z',
+    embedding,
+    analysis: analysis && {
+      sentiment: 'negative',
+      sentiment_score: -0.5,
+      summary: `Summary of ${id}`,
+      topics: [],
+      ...analysis,
+    },
+  }
+}
+
+describe('Theme Discovery', () => {
+  beforeEach(() => jest.clearAllMocks())
+
+  describe('chooseClusterCount', () => {
+    it('should grow with the square root of the feedback count, within bounds', () => {
+      expect(chooseClusterCount(10)).toBe(2)
+      expect(chooseClusterCount(200)).toBe(10)
+      expect(chooseClusterCount(1000)).toBe(12)
+    })
+
+    it('should leave room for clusters of the minimum theme size', () => {
+      expect(chooseClusterCount(4)).toBe(1)
+    })
+  })
+
+  describe('clusterEmbeddings', () => {
+    const vectors = [
+      near(0, 0.1), near(1, 0.1), near(0, 0.2), near(2, 0.1),
+      near(1, 0.2), near(0, 0.05), near(2, 0.3), near(1, 0.3),
+    ]
+
+    it('should separate distinct groups, largest first, most typical member first', () => {
+      const clusters = clusterEmbeddings(vectors, 3)
+
+      expect(clusters.map((cluster) => [...cluster.members].sort())).toEqual([
+        [0, 2, 5],
+        [1, 4, 7],
+        [3, 6],
+      ])
+      expect(clusters[0].members[0]).toBe(0)
+      expect(clusters[0].cohesion).toBeGreaterThan(0.99)
+    })
+
+    it('should be reproducible', () => {
+      expect(clusterEmbeddings(vectors, 3)).toEqual(clusterEmbeddings(vectors, 3))
+    })
+
+    it('should not create more clusters than distinct vectors', () => {
+      const clusters = clusterEmbeddings([near(0, 0), near(0, 0), near(0, 0)], 2)
+
+      expect(clusters).toHaveLength(1)
+      expect(clusters[0].members).toHaveLength(3)
+    })
+  })
+
+  describe('selectExamples', () => {
+    it('should quote distinct redacted feedback in the given order', () => {
+      const rows = [
+        row('a', near(0, 0), { sentiment_score: -0.8 }),
+        row('b', near(0, 0), null),
+        row('c', near(0, 0)),
+      ]
+      rows[0].text = 'Refund never arrived, call me at +1 415 555 0100'
+      rows[1].text = 'refund   never arrived, call me at +1 415 555 0100'
+      rows[2].translated_text = 'The app is slow'
+
+      const examples = selectExamples(rows, [0, 1, 2])
+
+      expect(examples.map((example) => example.feedback_id)).toEqual(['a', 'c'])
+      expect(examples[0].text).not.toContain('555')
+      expect(examples[0].sentiment_score).toBe(-0.8)
+      expect(examples[1].text).toBe('The app is slow')
+    })
+  })
+
+  describe('buildThemes', () => {
+    it('should name clusters large enough to be themes', async () => {
+      // 7 about checkout, 6 about shipping, 2 outliers
+      const rows = [
+        ...Array.from({ length: 7 }, (_, index) =>
+          row(`checkout-${index}`, near(0, index / 20), { topics: ['Payment', 'checkout'], sentiment_score: -0.6 })
+        ),
+        ...Array.from({ length: 6 }, (_, index) =>
+          row(`shipping-${index}`, near(1, index / 20), { topics: ['delivery'], sentiment_score: index < 3 ? 0.2 : 0 })
+        ),
+        row('outlier-1', near(2, 0)),
+        row('outlier-2', near(2, 0.1), null),
+      ]
+      mockNameTheme
+        .mockResolvedValueOnce({ name: 'Checkout failures', description: 'Payments fail.' })
+        .mockResolvedValueOnce({ name: 'Slow shipping', description: 'Orders are slow.' })
+
+      const { themes, clustered_count } = await buildThemes(rows, { delivery: 'shipping' })
+
+      expect(mockNameTheme).toHaveBeenCalledTimes(2)
+      expect(mockNameTheme.mock.calls[0][0]).toHaveLength(7)
+      expect(mockNameTheme.mock.calls[0][0][0]).toMatch(/^Summary of checkout-/)
+      expect(clustered_count).toBe(13)
+      expect(themes.map(({ name, size, share, avg_sentiment, topics }) => ({ name, size, share, avg_sentiment, topics }))).toEqual([
+        { name: 'Checkout failures', size: 7, share: 0.47, avg_sentiment: -0.6, topics: ['payment', 'checkout'] },
+        { name: 'Slow shipping', size: 6, share: 0.4, avg_sentiment: 0.1, topics: ['shipping'] },
+      ])
+      expect(themes[0].examples).toHaveLength(3)
+      expect(themes[0].feedback_ids).toHaveLength(7)
+    })
+  })
+
+  describe('discoverThemes', () => {
+    it('should reject a scope with too little feedback before calling the LLM', async () => {
+      mockGetFeedbackEmbeddings.mockResolvedValueOnce([row('a', near(0, 0)), row('b', near(1, 0))])
+
+      await expect(discoverThemes('user_1', { uploadId: 'upload-1' })).rejects.toThrow(ThemeScopeError)
+      expect(mockNameTheme).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,121 @@
+/// <reference types="jest" />
+
+jest.mock('@/lib/supabase', () => ({
+  createServerClient: jest.fn(),
+}))
+
+jest.mock('@/lib/langchain', () => ({
+  generateEmbeddings: jest.fn(),
+}))
+
+import { assignCanonicalTopics, resolveCanonicalTopics } from '@/lib/topics'
+import { generateEmbeddings } from '@/lib/langchain'
+import { createServerClient } from '@/lib/supabase'
+
+const mockGenerateEmbeddings = generateEmbeddings as jest.MockedFunction<typeof generateEmbeddings>
+const mockCreateServerClient = createServerClient as jest.MockedFunction<typeof createServerClient>
+
+/**
+ * Supabase client that knows `known` topics, matches `late package` to
+ * 'shipping' and records inserts
+ */
+function fakeSupabase(known: string[]) {
+  const inserts: Array<{ table: string; row: any }> = []
+  const client = {
+    from: (table: string) => ({
+      select: () => ({
+        eq: () => ({
+          in: async () => ({
+            data: table === 'canonical_topics' ? known.map((topic) => ({ topic })) : [],
+            error: null,
+          }),
+        }),
+      }),
+      insert: async (row: any) => {
+        inserts.push({ table, row })
+        return { error: null }
+      },
+    }),
+    rpc: jest.fn(async (_name: string, args: { query_embedding: number[] }) => ({
+      data: args.query_embedding[0] === 2 ? [{ topic: 'shipping', similarity: 0.912 }] : [],
+      error: null,
+    })),
+  }
+  return { client, inserts }
+}
+
+describe('lib/topics', () => {
+  describe('assignCanonicalTopics', () => {
+    beforeEach(() => {
+      jest.clearAllMocks()
+    })
+
+    it('embeds every unseen topic in one batch before matching', async () => {
+      const { client, inserts } = fakeSupabase(['shipping'])
+      mockCreateServerClient.mockReturnValue(client as any)
+      mockGenerateEmbeddings.mockResolvedValue([
+        [1, 0],
+        [2, 0],
+      ])
+
+      const result = await assignCanonicalTopics('user_1', ['shipping', ' refunds ', 'late package', 'refunds'])
+
+      expect(mockGenerateEmbeddings).toHaveBeenCalledTimes(1)
+      expect(mockGenerateEmbeddings).toHaveBeenCalledWith(['refunds', 'late package'])
+      expect(result).toEqual({ created: 1, merged: 1 })
+      expect(inserts).toEqual([
+        { table: 'canonical_topics', row: { user_id: 'user_1', topic: 'refunds', embedding: [1, 0] } },
+        {
+          table: 'topic_aliases',
+          row: { user_id: 'user_1', alias: 'late package', canonical: 'shipping', similarity: 0.91, status: 'suggested' },
+        },
+      ])
+    })
+
+    it('makes no embedding request when every topic is known', async () => {
+      mockCreateServerClient.mockReturnValue(fakeSupabase(['shipping']).client as any)
+
+      expect(await assignCanonicalTopics('user_1', ['shipping'])).toEqual({ created: 0, merged: 0 })
+      expect(mockGenerateEmbeddings).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resolveCanonicalTopics', () => {
+    it('maps each alias to its canonical topic', () => {
+      expect(
+        resolveCanonicalTopics([
+          { alias: 'delivery delay', canonical: 'shipping' },
+          { alias: 'late package', canonical: 'shipping' },
+        ])
+      ).toEqual({ 'delivery delay': 'shipping', 'late package': 'shipping' })
+    })
+
+    it('follows chains to the final canonical topic', () => {
+      expect(
+        resolveCanonicalTopics([
+          { alias: 'late package', canonical: 'delivery' },
+          { alias: 'delivery', canonical: 'shipping' },
+        ])
+      ).toEqual({ 'late package': 'shipping', delivery: 'shipping' })
+    })
+
+    it('keeps topics mapped to themselves separate', () => {
+      expect(resolveCanonicalTopics([{ alias: 'refund', canonical: 'refund' }])).toEqual({
+        refund: 'refund',
+      })
+    })
+
+    it('stops on cycles instead of looping', () => {
+      const resolved = resolveCanonicalTopics([
+        { alias: 'a', canonical: 'b' },
+        { alias: 'b', canonical: 'a' },
+      ])
+
+      expect(Object.keys(resolved).sort()).toEqual(['a', 'b'])
+    })
+
+    it('returns an empty map without aliases', () => {
+      expect(resolveCanonicalTopics([])).toEqual({})
+    })
+  })
+})
@@ -0,0 +1,132 @@
+/// <reference types="jest" />
+
+import {
+  allocateUsage,
+  estimateCost,
+  recordUsage,
+  summarizeUsage,
+  withUsageTracking,
+  type UsageRecord,
+} from '@/lib/usage';
+
+/**
+ * Records a completion request of the given model and tokens
+ */
+function complete(model: string, promptTokens: number, completionTokens = 0): UsageRecord {
+  return recordUsage({
+    operation: 'feedback_analysis',
+    kind: 'completion',
+    model,
+    promptTokens,
+    completionTokens,
+    estimated: false,
+  });
+}
+
+describe('Token Usage and Cost Accounting', () => {
+  describe('estimateCost', () => {
+    const originalPrices = process.env.MODEL_PRICES;
+
+    afterEach(() => {
+      if (originalPrices === undefined) {
+        delete process.env.MODEL_PRICES;
+      } else {
+        process.env.MODEL_PRICES = originalPrices;
+      }
+    });
+
+    it('should price input and output tokens per million', () => {
+      expect(estimateCost('gpt-4o-mini', 1_000_000, 500_000)).toBeCloseTo(0.45);
+      expect(estimateCost('text-embedding-3-small', 2_000_000, 0)).toBeCloseTo(0.04);
+    });
+
+    it('should use the longest matching base model for dated snapshots', () => {
+      // gpt-4o-mini, not gpt-4o
+      expect(estimateCost('gpt-4o-mini-2024-07-18', 1_000_000, 0)).toBeCloseTo(0.15);
+      expect(estimateCost('gpt-4o-2024-08-06', 1_000_000, 0)).toBeCloseTo(2.5);
+    });
+
+    it('should apply MODEL_PRICES overrides and count unknown models as free', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      process.env.MODEL_PRICES = '{"llama3": {"inputPer1M": 1, "outputPer1M": 2}, "gpt-4o-mini": {"inputPer1M": 0.3, "outputPer1M": 1.2}}';
+
+      expect(estimateCost('llama3', 1_000_000, 1_000_000)).toBeCloseTo(3);
+      expect(estimateCost('gpt-4o-mini', 1_000_000, 0)).toBeCloseTo(0.3);
+      expect(estimateCost('mystery-model', 1_000_000, 1_000_000)).toBe(0);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('mystery-model'));
+
+      warn.mockRestore();
+    });
+  });
+
+  describe('withUsageTracking', () => {
+    it('should keep the usage of concurrent work apart', async () => {
+      const first: UsageRecord[] = [];
+      const second: UsageRecord[] = [];
+      const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+      await Promise.all([
+        withUsageTracking(first, async () => {
+          complete('gpt-4o-mini', 100);
+          await delay(5);
+          complete('gpt-4o-mini', 200);
+        }),
+        withUsageTracking(second, async () => {
+          await delay(1);
+          complete('gpt-4o-mini', 300);
+        }),
+      ]);
+
+      expect(first.map((record) => record.promptTokens)).toEqual([100, 200]);
+      expect(second.map((record) => record.promptTokens)).toEqual([300]);
+    });
+
+    it('should record into parent scopes and keep records when the work fails', async () => {
+      const outer: UsageRecord[] = [];
+      const inner: UsageRecord[] = [];
+
+      await withUsageTracking(outer, async () => {
+        complete('gpt-4o-mini', 10);
+        await expect(
+          withUsageTracking(inner, async () => {
+            complete('gpt-4o-mini', 20);
+            throw new Error('Invalid reply');
+          })
+        ).rejects.toThrow('Invalid reply');
+      });
+
+      expect(inner).toHaveLength(1);
+      expect(outer.map((record) => record.promptTokens)).toEqual([10, 20]);
+    });
+
+    it('should not fail outside of a scope', () => {
+      expect(complete('gpt-4o-mini', 1_000_000).costUsd).toBeCloseTo(0.15);
+    });
+  });
+
+  describe('allocateUsage', () => {
+    it('should split shared requests by weight', () => {
+      const records = [complete('text-embedding-3-small', 40)];
+      const [short, long] = allocateUsage(records, [1, 3]);
+
+      expect(short[0].promptTokens).toBe(10);
+      expect(long[0].promptTokens).toBe(30);
+      expect(short[0].costUsd + long[0].costUsd).toBeCloseTo(records[0].costUsd);
+    });
+
+    it('should split evenly without weights', () => {
+      const shares = allocateUsage([complete('gpt-4o-mini', 10, 4)], [0, 0]);
+
+      expect(shares.map((share) => share[0].completionTokens)).toEqual([2, 2]);
+    });
+  });
+
+  it('should summarize requests, tokens and cost', () => {
+    const summary = summarizeUsage([complete('gpt-4o-mini', 1_000_000, 0), complete('gpt-4o-mini', 0, 1_000_000)]);
+
+    expect(summary.requests).toBe(2);
+    expect(summary.promptTokens).toBe(1_000_000);
+    expect(summary.completionTokens).toBe(1_000_000);
+    expect(summary.costUsd).toBeCloseTo(0.75);
+  });
+});
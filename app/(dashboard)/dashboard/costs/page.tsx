@@ -0,0 +1,47 @@
+import { redirect } from 'next/navigation'
+import { hasRole, requireAuth } from '@/lib/auth'
+import { getCostReport } from '@/lib/costs'
+import { CostDashboard } from '@/components/cost-dashboard'
+
+/**
+ * Periods the report can be viewed for, in days
+ */
+const PERIODS = [7, 30, 90]
+
+/**
+ * Operator Cost Page (admin role only)
+ * LLM spend against analyses performed, and gross margin per plan
+ */
+export default async function CostsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ days?: string }>
+}) {
+  await requireAuth()
+
+  if (!(await hasRole('admin'))) {
+    redirect('/dashboard')
+  }
+
+  const { days: param } = await searchParams
+  const days = PERIODS.includes(Number(param)) ? Number(param) : 30
+  const report = await getCostReport(days)
+
+  return (
+    <div className="container py-10">
+      <div className="mx-auto max-w-6xl">
+        <h1 className="text-3xl font-bold tracking-tight mb-2">LLM Costs</h1>
+        <p className="text-muted-foreground mb-8">
+          Estimated LLM and embedding spend against analyses performed, and gross margin per plan.
+          Prices come from the model price table (MODEL_PRICES).
+        </p>
+
+        {report ? (
+          <CostDashboard report={report} periods={PERIODS} />
+        ) : (
+          <p className="text-destructive">Failed to load the cost report. Please try again later.</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import { requireAuth } from '@/lib/auth'
+import { getEntityBreakdown } from '@/lib/entities'
+import { EntitiesView } from '@/components/entities-view'
+import { EntityDictionaryManager } from '@/components/entity-dictionary-manager'
+
+/**
+ * Protected Entities Page
+ * Competitor mentions, complaints per app version, and the dictionary of
+ * known products and competitors
+ */
+export default async function EntitiesPage() {
+  const userId = await requireAuth()
+  const breakdown = await getEntityBreakdown(userId, 90)
+
+  return (
+    <div className="container py-10">
+      <div className="mx-auto max-w-5xl space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight mb-2">Entities</h1>
+          <p className="text-muted-foreground">
+            Products, features, competitors, app versions and platforms customers mention. Declare your
+            products and competitors below so every spelling is counted under one name.
+          </p>
+        </div>
+
+        <EntitiesView initialBreakdown={breakdown} initialDays={90} />
+        <EntityDictionaryManager />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import { requireAuth } from '@/lib/auth'
+import { getFeatureRequests } from '@/lib/feature-requests'
+import { FeatureRequestsView } from '@/components/feature-requests-view'
+
+/**
+ * Protected Feature Requests Page
+ * Feature requests grouped by similarity, with unique requester counts
+ */
+export default async function FeatureRequestsPage() {
+  const userId = await requireAuth()
+  const report = await getFeatureRequests(userId, 90)
+
+  return (
+    <div className="container py-10">
+      <div className="mx-auto max-w-5xl">
+        <h1 className="text-3xl font-bold tracking-tight mb-2">Feature Requests</h1>
+        <p className="text-muted-foreground mb-8">
+          Everything customers asked for, grouped by meaning and ranked by how many different customers
+          asked (by username; feedback without a username counts as one customer each). Download the
+          groups as CSV for roadmap planning.
+        </p>
+
+        <FeatureRequestsView initialReport={report} initialDays={90} />
+      </div>
+    </div>
+  )
+}
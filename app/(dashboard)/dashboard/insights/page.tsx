@@ -0,0 +1,31 @@
+import { requireAuth } from '@/lib/auth'
+import { getUploads } from '@/lib/supabase'
+import { listInsightsReports } from '@/lib/insights'
+import { InsightsReports } from '@/components/insights-reports'
+
+/**
+ * Protected Insights Page
+ * Executive reports of the top issues of a period or an upload
+ */
+export default async function InsightsPage() {
+  const userId = await requireAuth()
+  const [uploads, reports] = await Promise.all([getUploads(userId), listInsightsReports(userId)])
+
+  return (
+    <div className="container py-10">
+      <div className="mx-auto max-w-5xl">
+        <h1 className="text-3xl font-bold tracking-tight mb-2">Insights Reports</h1>
+        <p className="text-muted-foreground mb-8">
+          Summarize a period or an upload into the top issues, ranked by volume and severity, with
+          representative quotes, trends against the preceding period and prioritized recommendations.
+          Every report is kept, so you can revisit earlier versions.
+        </p>
+
+        <InsightsReports
+          uploads={uploads.map(({ id, filename, row_count, created_at }) => ({ id, filename, row_count, created_at }))}
+          initialReports={reports}
+        />
+      </div>
+    </div>
+  )
+}
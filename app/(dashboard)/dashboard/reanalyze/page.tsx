@@ -0,0 +1,24 @@
+import { requireAuth } from '@/lib/auth'
+import { ReanalysisPanel } from '@/components/reanalysis-panel'
+
+/**
+ * Protected Re-analysis Page
+ * Re-run analysis for existing feedback after the model or prompt changed
+ */
+export default async function ReanalyzePage() {
+  await requireAuth()
+
+  return (
+    <div className="container py-10">
+      <div className="mx-auto max-w-4xl">
+        <h1 className="text-3xl font-bold tracking-tight mb-2">Re-analyze Feedback</h1>
+        <p className="text-muted-foreground mb-8">
+          Every analysis records the model and prompt version that produced it. Re-analyze older
+          feedback so that historical data matches new feedback, and review what changed.
+        </p>
+
+        <ReanalysisPanel />
+      </div>
+    </div>
+  )
+}
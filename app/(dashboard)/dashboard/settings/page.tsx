@@ -0,0 +1,24 @@
+import { requireAuth } from '@/lib/auth'
+import { AccountSettingsForm } from '@/components/account-settings-form'
+
+/**
+ * Protected Settings Page
+ * Manage how feedback is stored and the custom instructions used to analyze it
+ */
+export default async function SettingsPage() {
+  await requireAuth()
+
+  return (
+    <div className="container py-10">
+      <div className="mx-auto max-w-4xl">
+        <h1 className="text-3xl font-bold tracking-tight mb-2">Settings</h1>
+        <p className="text-muted-foreground mb-8">
+          Tell the AI about your product and how to judge feedback. Domain context and rules are
+          applied to every analysis of your feedback.
+        </p>
+
+        <AccountSettingsForm />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import { requireAuth } from '@/lib/auth'
+import { TaxonomyManager } from '@/components/taxonomy-manager'
+
+/**
+ * Protected Taxonomy Page
+ * Define the categories feedback is classified into
+ */
+export default async function TaxonomyPage() {
+  await requireAuth()
+
+  return (
+    <div className="container py-10">
+      <div className="mx-auto max-w-4xl">
+        <h1 className="text-3xl font-bold tracking-tight mb-2">Feedback Categories</h1>
+        <p className="text-muted-foreground mb-8">
+          Define the categories every feedback item is classified into. Free-form topics are still
+          extracted and shown as secondary tags.
+        </p>
+
+        <TaxonomyManager />
+      </div>
+    </div>
+  )
+}
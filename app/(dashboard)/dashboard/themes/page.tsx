@@ -0,0 +1,31 @@
+import { requireAuth } from '@/lib/auth'
+import { getUploads } from '@/lib/supabase'
+import { listThemeRuns } from '@/lib/themes'
+import { ThemesView } from '@/components/themes-view'
+
+/**
+ * Protected Themes Page
+ * Themes discovered by clustering the feedback of a period or an upload
+ */
+export default async function ThemesPage() {
+  const userId = await requireAuth()
+  const [uploads, runs] = await Promise.all([getUploads(userId), listThemeRuns(userId)])
+
+  return (
+    <div className="container py-10">
+      <div className="mx-auto max-w-5xl">
+        <h1 className="text-3xl font-bold tracking-tight mb-2">Themes</h1>
+        <p className="text-muted-foreground mb-8">
+          Discover what customers talk about without a predefined topic list. Feedback is grouped by
+          meaning, and every group is named and described, with its size, average sentiment and
+          representative examples. New groups surface emerging issues that no topic or category covers yet.
+        </p>
+
+        <ThemesView
+          uploads={uploads.map(({ id, filename, row_count, created_at }) => ({ id, filename, row_count, created_at }))}
+          initialRuns={runs}
+        />
+      </div>
+    </div>
+  )
+}
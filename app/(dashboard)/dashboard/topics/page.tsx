@@ -0,0 +1,24 @@
+import { requireAuth } from '@/lib/auth'
+import { TopicAliasReview } from '@/components/topic-alias-review'
+
+/**
+ * Protected Topics Page
+ * Review how free-form topics were merged into canonical topics
+ */
+export default async function TopicsPage() {
+  await requireAuth()
+
+  return (
+    <div className="container py-10">
+      <div className="mx-auto max-w-4xl">
+        <h1 className="text-3xl font-bold tracking-tight mb-2">Topic Merging</h1>
+        <p className="text-muted-foreground mb-8">
+          Similar topics are merged automatically so that charts count them together. Accept a merge,
+          map a topic to a different one, or keep it separate.
+        </p>
+
+        <TopicAliasReview />
+      </div>
+    </div>
+  )
+}
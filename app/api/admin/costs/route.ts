@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { hasRole, withAuth } from '@/lib/auth'
+import { getCostReport } from '@/lib/costs'
+
+/**
+ * Longest period the cost report covers
+ */
+const MAX_REPORT_DAYS = 365
+
+/**
+ * Get the LLM cost report
+ * GET /api/admin/costs?days=30
+ * 
+ * Returns LLM spend against analyses performed per day, and revenue, cost
+ * and gross margin per plan and for the costliest accounts over the last
+ * `days` days (default 30, at most 365). See lib/costs.ts.
+ * 
+ * Requires authentication via Clerk and the admin role (set in Clerk public metadata)
+ */
+export const GET = withAuth(async (req) => {
+  try {
+    if (!(await hasRole('admin'))) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: The cost report requires the admin role' },
+        { status: 403 }
+      )
+    }
+
+    const param = new URL(req.url).searchParams.get('days')
+    const days = param === null ? 30 : Number(param)
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_REPORT_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `days must be an integer between 1 and ${MAX_REPORT_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    const report = await getCostReport(days)
+
+    if (!report) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to build cost report' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: report })
+  } catch (error) {
+    console.error('Error fetching cost report:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch cost report',
+      },
+      { status: 500 }
+    )
+  }
+})
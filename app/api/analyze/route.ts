@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
-import { analyzeFeedbackBatch, type FeedbackItem } from '@/lib/analyze'
+import { analyzeFeedbackBatch, countItemsToAnalyze, type FeedbackItem } from '@/lib/analyze'
 import { checkUserQuota, incrementUsage } from '@/lib/billing'
 
 /**
@@ -23,13 +23,22 @@ interface AnalyzeRequestBody {
  * 6. Storing analysis results
  * 7. Incrementing usage count for successfully analyzed items
  * 
+ * Items may carry `submittedAt` (ISO 8601), the date the customer gave the
+ * feedback, e.g. when importing history.
+ * 
+ * Anomalies are not checked here; call POST /api/anomalies afterwards.
+ * 
+ * Exact duplicates of already analyzed feedback are skipped, linked or re-use
+ * the existing analysis depending on the account's duplicate_handling setting.
+ * 
  * Quota Enforcement:
  * - Checks quota before processing to avoid charging for denied requests
- * - For batch mode, requires quota >= number of items being processed
+ * - For batch mode, requires quota >= number of items needing a new analysis
  * - Returns 402 (Payment Required) if quota is insufficient
- * - Only increments usage for successfully analyzed items
+ * - Only increments usage for complete analyses, not for partial or failed
+ *   analyses or duplicates
  * 
- * Cost: ~3 LLM API calls per item (sentiment, topics, summary)
+ * Cost: ~1 LLM API call per item (single structured analysis)
  * Rate limiting: Uses concurrency control to avoid overwhelming APIs
  */
 export async function POST(request: NextRequest) {
@@ -81,8 +90,9 @@ export async function POST(request: NextRequest) {
     // Important: Check quota BEFORE processing batch to avoid charging for denied requests
     const quota = await checkUserQuota(userId)
     
-    // For batch mode, check if user has enough quota for all items being processed
-    const itemsCount = items.length
+    // For batch mode, check if user has enough quota for all items needing a new analysis
+    // (duplicates of analyzed feedback are free)
+    const itemsCount = await countItemsToAnalyze(userId, items)
     if (!quota.allowed || quota.remaining < itemsCount) {
       return NextResponse.json(
         { 
@@ -98,8 +108,10 @@ export async function POST(request: NextRequest) {
     const result = await analyzeFeedbackBatch(userId, items)
 
     // Increment usage for each successfully analyzed item
-    // Only count items that were successfully analyzed (not just inserted)
-    const successfulAnalyses = result.results.filter((r) => r.success && r.analysis)
+    // Only count complete analyses (not partial or failed ones, and not duplicates)
+    const successfulAnalyses = result.results.filter(
+      (r) => r.success && r.status === 'complete' && !r.duplicate
+    )
     
     // Increment usage for each successful analysis
     // Note: incrementUsage increments by 1 per call, so we call it sequentially for each successful item
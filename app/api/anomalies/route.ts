@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { detectAnomalies, listAnomalies } from '@/lib/anomalies'
+
+/**
+ * Longest period anomalies are listed for
+ */
+const MAX_LIST_DAYS = 90
+
+/**
+ * List the user's recent anomalies
+ * GET /api/anomalies?days=7
+ *
+ * Returns spikes and drops in daily feedback volume (overall and per topic,
+ * source and product) and in the negative share, with their evidence, over
+ * the last `days` days (default 7, at most 90). See lib/anomalies.ts.
+ *
+ * Requires authentication via Clerk
+ */
+export const GET = withAuth(async (req, { userId }) => {
+  try {
+    const param = new URL(req.url).searchParams.get('days')
+    const days = param === null ? 7 : Number(param)
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_LIST_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `days must be an integer between 1 and ${MAX_LIST_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    const anomalies = await listAnomalies(userId, days)
+
+    return NextResponse.json({ success: true, data: anomalies })
+  } catch (error) {
+    console.error('Error fetching anomalies:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch anomalies' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Check yesterday and today for anomalies now
+ * POST /api/anomalies
+ *
+ * Detection runs on demand, outside the analyze and upload requests: the
+ * dashboard calls this after new feedback was analyzed, and again when the
+ * user asks (e.g. once a day is over).
+ *
+ * Returns: the anomalies of yesterday and today
+ *
+ * Requires authentication via Clerk
+ */
+export const POST = withAuth(async (req, { userId }) => {
+  try {
+    const anomalies = await detectAnomalies(userId)
+
+    return NextResponse.json({ success: true, data: anomalies })
+  } catch (error) {
+    console.error('Error detecting anomalies:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to detect anomalies' },
+      { status: 500 }
+    )
+  }
+})
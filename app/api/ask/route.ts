@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { askFeedback, parseAskRequest } from '@/lib/ask'
+import { ProviderError } from '@/lib/resilience'
+
+/**
+ * Answer a question from the user's feedback
+ * POST /api/ask
+ *
+ * Body:
+ * - question: string - question in natural language (required)
+ * - source, productId, category: string - only feedback with this source,
+ *   product or taxonomy category (optional)
+ * - sentiment: 'positive' | 'negative' | 'neutral' | 'mixed' (optional)
+ * - intent: one of the analysis intents, e.g. 'bug_report' (optional)
+ * - from, to: string - only feedback created in [from, to) (ISO 8601, optional)
+ *
+ * Retrieves the user's most relevant feedback and answers from it only.
+ *
+ * Returns: the answer with `[n]` markers and the cited feedback, or 503 if
+ * the AI provider is unavailable
+ *
+ * Requires authentication via Clerk
+ */
+export const POST = withAuth(async (req, { userId }) => {
+  try {
+    const text = await req.text()
+    const body = text ? JSON.parse(text) : {}
+    const parsed = parseAskRequest(body)
+
+    if ('error' in parsed) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+
+    const result = await askFeedback(userId, parsed.question, parsed.filters)
+
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ProviderError) {
+      console.error('AI provider error answering question:', error)
+      return NextResponse.json(
+        { success: false, error: 'The AI provider is unavailable or rate limited. Please try again later.' },
+        { status: 503 }
+      )
+    }
+
+    console.error('Error answering question:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to answer question' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import {
+  deleteDictionaryEntry,
+  findConflictingEntry,
+  getEntityDictionary,
+  updateDictionaryEntry,
+  validateDictionaryInput,
+} from '@/lib/entities'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * PATCH /api/entities/dictionary/[id]
+ * 
+ * Updates a dictionary entry. Body: any of type, name, aliases. Existing
+ * feedback keeps its entities until it is re-analyzed.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized: No valid session found' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const dictionary = await getEntityDictionary(userId)
+    const existing = dictionary.find((entry) => entry.id === id)
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Dictionary entry not found' }, { status: 404 })
+    }
+
+    const validationError = validateDictionaryInput(body, dictionary, id)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const conflict = findConflictingEntry(
+      [body.name ?? existing.name, ...(body.aliases ?? existing.aliases)],
+      dictionary,
+      id
+    )
+    if (conflict) {
+      return NextResponse.json(
+        { error: `"${conflict.term}" is already used by "${conflict.entry.name}"` },
+        { status: 409 }
+      )
+    }
+
+    const entry = await updateDictionaryEntry(userId, id, body)
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Failed to update dictionary entry' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data: entry })
+  } catch (error) {
+    console.error('Error in PATCH /api/entities/dictionary/[id]:', error)
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/entities/dictionary/[id]
+ * 
+ * Deletes a dictionary entry. Entities already stored under its name are kept.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized: No valid session found' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const deleted = await deleteDictionaryEntry(userId, id)
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Failed to delete dictionary entry' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in DELETE /api/entities/dictionary/[id]:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
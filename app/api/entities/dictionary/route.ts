@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import {
+  createDictionaryEntry,
+  findConflictingEntry,
+  getEntityDictionary,
+  validateDictionaryInput,
+} from '@/lib/entities'
+
+/**
+ * Get the account's entity dictionary
+ * GET /api/entities/dictionary
+ * 
+ * Requires authentication via Clerk
+ */
+export const GET = withAuth(async (req, { userId }) => {
+  try {
+    const dictionary = await getEntityDictionary(userId)
+
+    return NextResponse.json({ success: true, data: dictionary })
+  } catch (error) {
+    console.error('Error fetching entity dictionary:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch entity dictionary',
+      },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Add a known product, feature or competitor
+ * POST /api/entities/dictionary
+ * 
+ * Body:
+ * - type: 'product' | 'feature' | 'competitor' (required)
+ * - name: string (required, the name entities are stored under)
+ * - aliases: string[] (optional, other spellings)
+ * 
+ * Names and aliases are unique per account (case-insensitive). Existing
+ * feedback keeps its entities until it is re-analyzed.
+ * 
+ * Requires authentication via Clerk
+ */
+export const POST = withAuth(async (req, { userId }) => {
+  try {
+    const body = await req.json()
+    const dictionary = await getEntityDictionary(userId)
+
+    const validationError = validateDictionaryInput(body, dictionary)
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 })
+    }
+
+    const conflict = findConflictingEntry([body.name, ...(body.aliases || [])], dictionary)
+    if (conflict) {
+      return NextResponse.json(
+        { success: false, error: `"${conflict.term}" is already used by "${conflict.entry.name}"` },
+        { status: 409 }
+      )
+    }
+
+    const entry = await createDictionaryEntry(userId, body)
+
+    if (!entry) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to create dictionary entry' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: entry }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating dictionary entry:', error)
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create dictionary entry',
+      },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { getEntityBreakdown } from '@/lib/entities'
+
+/**
+ * Longest period the breakdown covers
+ */
+const MAX_BREAKDOWN_DAYS = 366
+
+/**
+ * Get the user's entity breakdown
+ * GET /api/entities?days=90
+ *
+ * Competitor mentions, complaints per app version, and product, feature and
+ * platform mentions of the feedback of the last `days` days (default 90, at
+ * most 366). See lib/entities.ts.
+ *
+ * Requires authentication via Clerk
+ */
+export const GET = withAuth(async (req, { userId }) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const param = searchParams.get('days')
+    const days = param === null ? 90 : Number(param)
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_BREAKDOWN_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `days must be an integer between 1 and ${MAX_BREAKDOWN_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    const breakdown = await getEntityBreakdown(userId, days)
+
+    return NextResponse.json({ success: true, data: breakdown })
+  } catch (error) {
+    console.error('Error fetching entity breakdown:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch entity breakdown' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { getFeatureRequests, toFeatureRequestsCsv } from '@/lib/feature-requests'
+
+/**
+ * Longest period feature requests are grouped over
+ */
+const MAX_REQUEST_DAYS = 366
+
+/**
+ * Get the user's feature requests, grouped by similarity
+ * GET /api/feature-requests?days=90&format=csv
+ *
+ * Groups the feedback analyzed as a feature request over the last `days`
+ * days (default 90, at most 366) and counts unique requesters by username.
+ * See lib/feature-requests.ts.
+ *
+ * Returns: the report as JSON, or the groups as a CSV download with
+ * `format=csv`
+ *
+ * Requires authentication via Clerk
+ */
+export const GET = withAuth(async (req, { userId }) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const param = searchParams.get('days')
+    const days = param === null ? 90 : Number(param)
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_REQUEST_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `days must be an integer between 1 and ${MAX_REQUEST_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    const report = await getFeatureRequests(userId, days)
+
+    if (searchParams.get('format') === 'csv') {
+      return new NextResponse(toFeatureRequestsCsv(report.groups), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="feature-requests-${days}d.csv"`,
+        },
+      })
+    }
+
+    return NextResponse.json({ success: true, data: report })
+  } catch (error) {
+    console.error('Error fetching feature requests:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch feature requests' },
+      { status: 500 }
+    )
+  }
+})
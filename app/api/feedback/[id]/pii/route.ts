@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { hasRole } from '@/lib/auth'
+import { revealFeedback } from '@/lib/redaction'
+
+/**
+ * Clerk roles allowed to see redacted personal data
+ */
+const PII_ROLES = ['pii_viewer', 'admin']
+
+/**
+ * GET /api/feedback/[id]/pii
+ * 
+ * Returns a feedback entry with the PII that was redacted before storage restored
+ * from the encrypted vault. Only the owner of the feedback can call it, and only
+ * with one of the PII_ROLES roles (set in Clerk public metadata).
+ * 
+ * Returns:
+ * - text: Original feedback text
+ * - translated_text: English translation with the original values restored
+ * - redactions: Number of values restored from the vault
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized: No valid session found' },
+        { status: 401 }
+      )
+    }
+
+    const roles = await Promise.all(PII_ROLES.map((role) => hasRole(role)))
+
+    if (!roles.some(Boolean)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Viewing personal data requires the pii_viewer role' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const feedback = await revealFeedback(userId, id)
+
+    if (!feedback) {
+      return NextResponse.json({ error: 'Feedback not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: feedback })
+  } catch (error) {
+    console.error('Error in GET /api/feedback/[id]/pii:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,162 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { reanalyzeFeedback } from '@/lib/analyze'
+import { checkUserQuota, incrementUsage } from '@/lib/billing'
+import { getAnalysisVersion, MAX_ITEMS_PER_BATCH } from '@/lib/langchain'
+import { getFeedbackForReanalysis, type ReanalysisFilters } from '@/lib/supabase'
+import { hashInstructions } from '@/lib/prompts'
+import { getAccountSettings, toPromptInstructions } from '@/lib/settings'
+
+/**
+ * Re-analyze existing feedback with the current model and prompt
+ * POST /api/feedback/reanalyze
+ * 
+ * Body (all optional):
+ * - from: string - feedback created at or after this date (ISO 8601)
+ * - to: string - feedback created before this date (ISO 8601)
+ * - source: string - feedback source (e.g. 'survey')
+ * - productId: string - product identifier
+ * - beforePromptVersion: number - only analyses from an older prompt version
+ * - staleInstructions: boolean - only analyses made before the account
+ *   instructions last changed
+ * - limit: number - maximum number of items, most recent first (default and
+ *   maximum: MAX_ITEMS_PER_BATCH)
+ * - dryRun: boolean - only count the matching items
+ * 
+ * Each re-analyzed item counts towards the analysis quota like a new
+ * analysis (only complete analyses are charged). The request is rejected
+ * with 402 if the quota does not cover every matching item.
+ * 
+ * Returns: { total, succeeded, failed, partial, changed, model, prompt_version,
+ * results } with the changed fields (before/after) per item, or
+ * { total, model, prompt_version, remaining } for a dry run
+ * 
+ * Requires authentication via Clerk
+ */
+export const POST = withAuth(async (req, { userId }) => {
+  try {
+    const text = await req.text()
+    const body = text ? JSON.parse(text) : {}
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { success: false, error: 'Request body must be a JSON object' },
+        { status: 400 }
+      )
+    }
+
+    const filters: ReanalysisFilters = {}
+
+    for (const field of ['from', 'to'] as const) {
+      if (body[field] !== undefined) {
+        if (typeof body[field] !== 'string' || isNaN(Date.parse(body[field]))) {
+          return NextResponse.json(
+            { success: false, error: `${field} must be an ISO 8601 date` },
+            { status: 400 }
+          )
+        }
+        filters[field] = body[field]
+      }
+    }
+
+    for (const field of ['source', 'productId'] as const) {
+      if (body[field] !== undefined) {
+        if (typeof body[field] !== 'string' || !body[field].trim()) {
+          return NextResponse.json(
+            { success: false, error: `${field} must be a non-empty string` },
+            { status: 400 }
+          )
+        }
+        filters[field] = body[field].trim()
+      }
+    }
+
+    if (body.beforePromptVersion !== undefined) {
+      if (!Number.isInteger(body.beforePromptVersion) || body.beforePromptVersion < 1) {
+        return NextResponse.json(
+          { success: false, error: 'beforePromptVersion must be a positive integer' },
+          { status: 400 }
+        )
+      }
+      filters.beforePromptVersion = body.beforePromptVersion
+    }
+
+    if (body.staleInstructions !== undefined && typeof body.staleInstructions !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'staleInstructions must be a boolean' },
+        { status: 400 }
+      )
+    }
+
+    if (body.staleInstructions) {
+      const settings = await getAccountSettings(userId)
+      filters.instructionsHashOtherThan = hashInstructions(toPromptInstructions(settings))
+    }
+
+    const limit = body.limit ?? MAX_ITEMS_PER_BATCH
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ITEMS_PER_BATCH) {
+      return NextResponse.json(
+        { success: false, error: `limit must be an integer between 1 and ${MAX_ITEMS_PER_BATCH}` },
+        { status: 400 }
+      )
+    }
+
+    const [rows, quota] = await Promise.all([
+      getFeedbackForReanalysis(userId, filters, limit),
+      checkUserQuota(userId),
+    ])
+
+    if (body.dryRun === true) {
+      return NextResponse.json({
+        success: true,
+        data: { total: rows.length, ...getAnalysisVersion(), remaining: quota.remaining },
+      })
+    }
+
+    // Check quota before making any LLM calls
+    if (!quota.allowed || quota.remaining < rows.length) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Upgrade required',
+          plan: quota.plan,
+          remaining: quota.remaining,
+        },
+        { status: 402 } // Payment Required
+      )
+    }
+
+    const result = await reanalyzeFeedback(userId, rows)
+
+    // Only complete analyses are charged, as for new feedback
+    const charged = result.results.filter((r) => r.success && r.status === 'complete')
+    for (const _ of charged) {
+      try {
+        if (!(await incrementUsage(userId))) {
+          console.warn(`Failed to increment usage for user ${userId}`)
+        }
+      } catch (error) {
+        console.error(`Error incrementing usage for user ${userId}:`, error)
+      }
+    }
+
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    console.error('Error re-analyzing feedback:', error)
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to re-analyze feedback',
+      },
+      { status: 500 }
+    )
+  }
+})
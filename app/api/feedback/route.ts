@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getRecentAnalyses } from '@/lib/supabase'
+import { getFeedbackLanguages, getRecentAnalyses } from '@/lib/supabase'
+import { getTopicAliasMap } from '@/lib/topics'
+import { INTENTS, type Intent } from '@/lib/langchain'
 import { auth } from '@clerk/nextjs/server'
 
 /**
@@ -9,9 +11,13 @@ import { auth } from '@clerk/nextjs/server'
  * 
  * Query parameters:
  * - limit: Maximum number of records to return (default: 50)
+ * - language: Only return feedback in this language (ISO 639-1 code, e.g. 'es')
+ * - intent: Only return feedback with this intent (e.g. 'feature_request')
  * 
  * Returns:
- * - Array of feedback with analysis data
+ * - Array of feedback with analysis data and per-topic sentiment (feedback_topic_sentiment)
+ * - languages: All languages detected in the user's feedback (for filtering)
+ * - topicAliases: Topic → canonical topic map (topics are counted by canonical topic)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -25,12 +31,25 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Get limit from query params
+    // Get limit and filters from query params
     const { searchParams } = new URL(request.url)
     const limit = parseInt(searchParams.get('limit') || '50', 10)
+    const language = searchParams.get('language') || undefined
+    const intent = searchParams.get('intent') || undefined
 
-    // Fetch recent analyses
-    const analyses = await getRecentAnalyses(userId, limit)
+    if (intent && !INTENTS.includes(intent as Intent)) {
+      return NextResponse.json(
+        { error: `intent must be one of: ${INTENTS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // Fetch recent analyses, available languages and topic aliases
+    const [analyses, languages, topicAliases] = await Promise.all([
+      getRecentAnalyses(userId, limit, { language, intent: intent as Intent | undefined }),
+      getFeedbackLanguages(userId),
+      getTopicAliasMap(userId),
+    ])
 
     // Normalize feedback_analysis (Supabase might return as array or single object)
     const normalizedAnalyses = analyses.map((item) => {
@@ -42,6 +61,7 @@ export async function GET(request: NextRequest) {
             ? analysis[0]
             : null
           : analysis,
+        feedback_topic_sentiment: item.feedback_topic_sentiment || [],
       }
     })
 
@@ -49,6 +69,8 @@ export async function GET(request: NextRequest) {
       success: true,
       data: normalizedAnalyses,
       count: normalizedAnalyses.length,
+      languages,
+      topicAliases,
     })
   } catch (error) {
     console.error('Error in GET /api/feedback:', error)
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getInsightsReport } from '@/lib/insights'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/insights/[id]
+ * 
+ * Returns a stored insights report with its content.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized: No valid session found' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const report = await getInsightsReport(userId, id)
+
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: report })
+  } catch (error) {
+    console.error('Error in GET /api/insights/[id]:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { generateInsightsReport, InsightsScopeError, listInsightsReports, parseScope } from '@/lib/insights'
+import { ProviderError } from '@/lib/resilience'
+
+/**
+ * List the user's insights reports (all versions, without their content)
+ * GET /api/insights
+ * 
+ * Requires authentication via Clerk
+ */
+export const GET = withAuth(async (req, { userId }) => {
+  try {
+    const reports = await listInsightsReports(userId)
+
+    return NextResponse.json({ success: true, data: reports })
+  } catch (error) {
+    console.error('Error fetching insights reports:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch insights reports' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Generate an insights report for a period or an upload
+ * POST /api/insights
+ * 
+ * Body (one scope):
+ * - from, to: string - feedback created in [from, to) (ISO 8601)
+ * - uploadId: string - feedback of one upload
+ * 
+ * Reports only cover completely analyzed feedback. Generating a report for
+ * the same scope again stores a new version.
+ * 
+ * Returns: the stored report, 404 if the scope has no analyzed feedback, or
+ * 503 if the AI provider is unavailable
+ * 
+ * Requires authentication via Clerk
+ */
+export const POST = withAuth(async (req, { userId }) => {
+  try {
+    const text = await req.text()
+    const body = text ? JSON.parse(text) : {}
+    const parsed = parseScope(body)
+
+    if ('error' in parsed) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+
+    const report = await generateInsightsReport(userId, parsed.scope)
+
+    if (!report) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to store insights report' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: report })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof InsightsScopeError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 404 })
+    }
+
+    if (error instanceof ProviderError) {
+      console.error('AI provider error generating insights report:', error)
+      return NextResponse.json(
+        { success: false, error: 'The AI provider is unavailable or rate limited. Please try again later.' },
+        { status: 503 }
+      )
+    }
+
+    console.error('Error generating insights report:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate insights report' },
+      { status: 500 }
+    )
+  }
+})
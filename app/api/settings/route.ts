@@ -0,0 +1,147 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { getAccountSettings, updateAccountSettings, type AccountSettings } from '@/lib/settings'
+import { DUPLICATE_HANDLING_MODES } from '@/lib/dedupe'
+import { MAX_PROMPT_CONTEXT_CHARS, MAX_PROMPT_RULES, MAX_PROMPT_RULE_CHARS } from '@/lib/prompts'
+import { isVaultConfigured } from '@/lib/redaction'
+
+/**
+ * Get account settings
+ * GET /api/settings
+ * 
+ * Returns the current user's feedback processing settings:
+ * - redact_before_storage: boolean - store redacted text (originals kept in the PII vault)
+ * - duplicate_handling: 'skip' | 'link' | 'reuse' - how feedback identical to
+ *   already analyzed feedback is handled (never charged against the quota)
+ * - prompt_context: string - domain context added to every analysis prompt
+ * - prompt_rules: string[] - rules added to every analysis prompt
+ * 
+ * Requires authentication via Clerk
+ */
+export const GET = withAuth(async (req, { userId }) => {
+  try {
+    const settings = await getAccountSettings(userId)
+
+    return NextResponse.json({ success: true, data: settings })
+  } catch (error) {
+    console.error('Error fetching settings:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch settings',
+      },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Update account settings
+ * PATCH /api/settings
+ * 
+ * Body: any subset of the settings returned by GET. redact_before_storage can
+ * only be enabled when PII_VAULT_KEY is set. prompt_context is limited
+ * to 2000 characters; prompt_rules to 20 non-empty rules of up to 300 characters.
+ * 
+ * Requires authentication via Clerk
+ */
+export const PATCH = withAuth(async (req, { userId }) => {
+  try {
+    const body = await req.json()
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { success: false, error: 'Request body must be a JSON object' },
+        { status: 400 }
+      )
+    }
+
+    const updates: Partial<AccountSettings> = {}
+
+    if (body.redact_before_storage !== undefined) {
+      if (typeof body.redact_before_storage !== 'boolean') {
+        return NextResponse.json(
+          { success: false, error: 'redact_before_storage must be a boolean' },
+          { status: 400 }
+        )
+      }
+      // Without the vault key, the original values would be lost for good
+      if (body.redact_before_storage && !isVaultConfigured()) {
+        return NextResponse.json(
+          { success: false, error: 'redact_before_storage requires PII_VAULT_KEY to be set' },
+          { status: 400 }
+        )
+      }
+      updates.redact_before_storage = body.redact_before_storage
+    }
+
+    if (body.duplicate_handling !== undefined) {
+      if (!DUPLICATE_HANDLING_MODES.includes(body.duplicate_handling)) {
+        return NextResponse.json(
+          { success: false, error: `duplicate_handling must be one of: ${DUPLICATE_HANDLING_MODES.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      updates.duplicate_handling = body.duplicate_handling
+    }
+
+    if (body.prompt_context !== undefined) {
+      if (typeof body.prompt_context !== 'string' || body.prompt_context.length > MAX_PROMPT_CONTEXT_CHARS) {
+        return NextResponse.json(
+          { success: false, error: `prompt_context must be a string of at most ${MAX_PROMPT_CONTEXT_CHARS} characters` },
+          { status: 400 }
+        )
+      }
+      updates.prompt_context = body.prompt_context.trim()
+    }
+
+    if (body.prompt_rules !== undefined) {
+      const isValid =
+        Array.isArray(body.prompt_rules) &&
+        body.prompt_rules.length <= MAX_PROMPT_RULES &&
+        body.prompt_rules.every(
+          (rule: unknown) =>
+            typeof rule === 'string' && rule.trim().length > 0 && rule.length <= MAX_PROMPT_RULE_CHARS
+        )
+
+      if (!isValid) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `prompt_rules must be an array of at most ${MAX_PROMPT_RULES} non-empty strings of at most ${MAX_PROMPT_RULE_CHARS} characters`,
+          },
+          { status: 400 }
+        )
+      }
+      updates.prompt_rules = body.prompt_rules.map((rule: string) => rule.trim())
+    }
+
+    const settings = await updateAccountSettings(userId, updates)
+
+    if (!settings) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to update settings' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: settings })
+  } catch (error) {
+    console.error('Error updating settings:', error)
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update settings',
+      },
+      { status: 500 }
+    )
+  }
+})
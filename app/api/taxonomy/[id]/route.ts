@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import {
+  deleteTaxonomyCategory,
+  getCategoryLabel,
+  getTaxonomy,
+  updateTaxonomyCategory,
+  validateCategoryInput,
+} from '@/lib/taxonomy'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * PATCH /api/taxonomy/[id]
+ * 
+ * Updates a category of the account's taxonomy. Body: any of name,
+ * description, examples, parent_id (null to make it top-level).
+ * 
+ * Renaming or moving a category changes its label; existing feedback keeps
+ * the old label until POST /api/taxonomy/reclassify is called.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized: No valid session found' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const taxonomy = await getTaxonomy(userId)
+
+    if (!taxonomy.some((category) => category.id === id)) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 })
+    }
+
+    const validationError = validateCategoryInput(body, taxonomy, id)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (
+      body.name !== undefined &&
+      taxonomy.some((category) => category.id !== id && category.name === body.name.trim())
+    ) {
+      return NextResponse.json(
+        { error: `A category named "${body.name.trim()}" already exists` },
+        { status: 409 }
+      )
+    }
+
+    const category = await updateTaxonomyCategory(userId, id, body)
+
+    if (!category) {
+      return NextResponse.json({ error: 'Failed to update category' }, { status: 500 })
+    }
+
+    const updatedTaxonomy = taxonomy.map((c) => (c.id === id ? category : c))
+
+    return NextResponse.json({
+      success: true,
+      data: { ...category, label: getCategoryLabel(category, updatedTaxonomy) },
+    })
+  } catch (error) {
+    console.error('Error in PATCH /api/taxonomy/[id]:', error)
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/taxonomy/[id]
+ * 
+ * Deletes a category and its subcategories. Existing feedback keeps the
+ * deleted categories until POST /api/taxonomy/reclassify is called.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized: No valid session found' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const deleted = await deleteTaxonomyCategory(userId, id)
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Failed to delete category' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in DELETE /api/taxonomy/[id]:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
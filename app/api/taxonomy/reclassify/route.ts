@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { reclassifyFeedback } from '@/lib/analyze'
+
+/**
+ * Re-classify existing feedback into the current taxonomy
+ * POST /api/taxonomy/reclassify
+ * 
+ * Body (optional):
+ * - feedbackIds: string[] - only re-classify these feedback items
+ * 
+ * Without feedbackIds, the 500 most recent analyzed feedback items are
+ * re-classified. Only categories change; re-classification does not count
+ * towards the analysis quota.
+ * 
+ * Returns: { total, updated, failed }
+ * 
+ * Requires authentication via Clerk
+ */
+export const POST = withAuth(async (req, { userId }) => {
+  try {
+    const text = await req.text()
+    const body = text ? JSON.parse(text) : {}
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { success: false, error: 'Request body must be a JSON object' },
+        { status: 400 }
+      )
+    }
+
+    if (
+      body.feedbackIds !== undefined &&
+      (!Array.isArray(body.feedbackIds) || body.feedbackIds.some((id: unknown) => typeof id !== 'string'))
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'feedbackIds must be an array of strings' },
+        { status: 400 }
+      )
+    }
+
+    const result = await reclassifyFeedback(userId, { feedbackIds: body.feedbackIds })
+
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    console.error('Error re-classifying feedback:', error)
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to re-classify feedback',
+      },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import {
+  createTaxonomyCategory,
+  getCategoryLabel,
+  getTaxonomy,
+  validateCategoryInput,
+  type TaxonomyCategory,
+} from '@/lib/taxonomy'
+
+/**
+ * Add the full label (e.g. 'Shipping > Late delivery') to each category
+ */
+function withLabels(taxonomy: TaxonomyCategory[]) {
+  return taxonomy.map((category) => ({ ...category, label: getCategoryLabel(category, taxonomy) }))
+}
+
+/**
+ * Get the account's taxonomy
+ * GET /api/taxonomy
+ * 
+ * Returns all categories with their full label (as stored on analyzed feedback)
+ * 
+ * Requires authentication via Clerk
+ */
+export const GET = withAuth(async (req, { userId }) => {
+  try {
+    const taxonomy = await getTaxonomy(userId)
+
+    return NextResponse.json({ success: true, data: withLabels(taxonomy) })
+  } catch (error) {
+    console.error('Error fetching taxonomy:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch taxonomy',
+      },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Add a category to the account's taxonomy
+ * POST /api/taxonomy
+ * 
+ * Body:
+ * - name: string (required, unique per account)
+ * - description: string (optional)
+ * - examples: string[] (optional, example phrases)
+ * - parent_id: string (optional, makes this a subcategory)
+ * 
+ * Existing feedback keeps its categories until POST /api/taxonomy/reclassify is called.
+ * 
+ * Requires authentication via Clerk
+ */
+export const POST = withAuth(async (req, { userId }) => {
+  try {
+    const body = await req.json()
+    const taxonomy = await getTaxonomy(userId)
+
+    const validationError = validateCategoryInput(body, taxonomy)
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 })
+    }
+
+    if (taxonomy.some((category) => category.name === body.name.trim())) {
+      return NextResponse.json(
+        { success: false, error: `A category named "${body.name.trim()}" already exists` },
+        { status: 409 }
+      )
+    }
+
+    const category = await createTaxonomyCategory(userId, body)
+
+    if (!category) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to create category' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: true, data: { ...category, label: getCategoryLabel(category, [...taxonomy, category]) } },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error creating taxonomy category:', error)
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create category',
+      },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getThemeRun } from '@/lib/themes'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/themes/[id]
+ * 
+ * Returns a stored theme discovery run with its themes.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized: No valid session found' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const run = await getThemeRun(userId, id)
+
+    if (!run) {
+      return NextResponse.json({ error: 'Theme run not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: run })
+  } catch (error) {
+    console.error('Error in GET /api/themes/[id]:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
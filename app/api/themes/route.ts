@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { parseScope } from '@/lib/insights'
+import { discoverThemes, listThemeRuns, ThemeScopeError } from '@/lib/themes'
+import { ProviderError } from '@/lib/resilience'
+
+/**
+ * List the user's theme discovery runs (without their themes)
+ * GET /api/themes
+ * 
+ * Requires authentication via Clerk
+ */
+export const GET = withAuth(async (req, { userId }) => {
+  try {
+    const runs = await listThemeRuns(userId)
+
+    return NextResponse.json({ success: true, data: runs })
+  } catch (error) {
+    console.error('Error fetching theme runs:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch theme runs' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Discover the themes of a period or an upload
+ * POST /api/themes
+ * 
+ * Body (one scope):
+ * - from, to: string - feedback created in [from, to) (ISO 8601)
+ * - uploadId: string - feedback of one upload
+ * 
+ * Clusters the embeddings of the feedback in scope and names every cluster.
+ * 
+ * Returns: the stored run, 422 if the scope has too little embedded
+ * feedback to cluster, or 503 if the AI provider is unavailable
+ * 
+ * Requires authentication via Clerk
+ */
+export const POST = withAuth(async (req, { userId }) => {
+  try {
+    const text = await req.text()
+    const body = text ? JSON.parse(text) : {}
+    const parsed = parseScope(body)
+
+    if ('error' in parsed) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+
+    const run = await discoverThemes(userId, parsed.scope)
+
+    if (!run) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to store theme run' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: run })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ThemeScopeError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 422 })
+    }
+
+    if (error instanceof ProviderError) {
+      console.error('AI provider error discovering themes:', error)
+      return NextResponse.json(
+        { success: false, error: 'The AI provider is unavailable or rate limited. Please try again later.' },
+        { status: 503 }
+      )
+    }
+
+    console.error('Error discovering themes:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to discover themes' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { getTopicAliases, setTopicAlias } from '@/lib/topics'
+
+/**
+ * Get the account's topic aliases for review
+ * GET /api/topics/aliases
+ * 
+ * Returns every topic string that was merged into (or mapped to) a canonical
+ * topic, unreviewed suggestions first
+ * 
+ * Requires authentication via Clerk
+ */
+export const GET = withAuth(async (req, { userId }) => {
+  try {
+    const aliases = await getTopicAliases(userId)
+
+    return NextResponse.json({ success: true, data: aliases })
+  } catch (error) {
+    console.error('Error fetching topic aliases:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch topic aliases',
+      },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Accept or override a topic alias
+ * PATCH /api/topics/aliases
+ * 
+ * Body:
+ * - alias: string (required, topic string to map)
+ * - canonical: string (optional, canonical topic to count it as; the alias
+ *   itself keeps it separate; omit to accept the suggested merge)
+ * 
+ * Topic counts on the dashboard use the new mapping immediately.
+ * 
+ * Requires authentication via Clerk
+ */
+export const PATCH = withAuth(async (req, { userId }) => {
+  try {
+    const body = await req.json()
+
+    if (typeof body.alias !== 'string' || body.alias.trim().length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'alias is required and must be a non-empty string' },
+        { status: 400 }
+      )
+    }
+
+    if (
+      body.canonical !== undefined &&
+      (typeof body.canonical !== 'string' || body.canonical.trim().length === 0)
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'canonical must be a non-empty string' },
+        { status: 400 }
+      )
+    }
+
+    const alias = await setTopicAlias(userId, body.alias.trim(), body.canonical?.trim())
+
+    if (!alias) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to update topic alias' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: alias })
+  } catch (error) {
+    console.error('Error updating topic alias:', error)
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update topic alias',
+      },
+      { status: 500 }
+    )
+  }
+})
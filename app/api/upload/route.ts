@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
 import Papa from 'papaparse'
 import { analyzeFeedbackBatch, type FeedbackItem } from '@/lib/analyze'
+import { completeUpload, createUpload } from '@/lib/supabase'
 
 /**
  * POST /api/upload
@@ -9,11 +10,15 @@ import { analyzeFeedbackBatch, type FeedbackItem } from '@/lib/analyze'
  * Handles multipart/form-data CSV file uploads:
  * 1. Parses CSV file using PapaParse
  * 2. Converts to JSON items format
- * 3. Calls analyzeFeedbackBatch internally (batch processing)
+ * 3. Calls analyzeFeedbackBatch internally (batch processing), recording the
+ *    file in the upload history so reports can be scoped to it
  * 
  * Form data:
  * - file: CSV file (multipart/form-data)
  * 
+ * Optional columns: rating, source, product_id, username, and the date the
+ * feedback was given (submitted_at, created_at, date or timestamp)
+ * 
  * Returns:
  * - Analysis results from batch processing
  */
@@ -128,7 +133,31 @@ export async function POST(request: NextRequest) {
               )
             }
             
-            const analysisResult = await analyzeFeedbackBatch(userId, feedbackItems)
+            // Record the upload (non-critical: the batch gets its own upload ID)
+            const upload = await createUpload(userId, {
+              filename: file.name,
+              file_size: file.size,
+              row_count: rows.length,
+            })
+
+            let analysisResult: Awaited<ReturnType<typeof analyzeFeedbackBatch>>
+
+            try {
+              analysisResult = await analyzeFeedbackBatch(userId, feedbackItems, { uploadId: upload?.id })
+            } catch (error) {
+              if (upload) {
+                await completeUpload(upload.id, 'failed', error instanceof Error ? error.message : 'Unknown error')
+              }
+              throw error
+            }
+
+            if (upload) {
+              await completeUpload(
+                upload.id,
+                analysisResult.success ? 'completed' : 'failed',
+                analysisResult.success ? undefined : analysisResult.message
+              )
+            }
 
             // Return analysis results
             resolve(NextResponse.json(analysisResult))
@@ -232,6 +261,13 @@ function convertCsvToFeedbackItems(rows: Record<string, any>[]): FeedbackItem[]
         item.username = String(row.username || row.user_name || row.user).trim()
       }
 
+      // When the customer gave the feedback (historical exports), so the
+      // anomaly baselines count it on its own day rather than today
+      const date = row.submitted_at || row.created_at || row.date || row.timestamp
+      if (date && !isNaN(Date.parse(String(date).trim()))) {
+        item.submittedAt = new Date(Date.parse(String(date).trim())).toISOString()
+      }
+
       return item
     })
     .filter((item): item is FeedbackItem => item !== null)
@@ -0,0 +1,238 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Plus, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { MAX_PROMPT_CONTEXT_CHARS, MAX_PROMPT_RULES, MAX_PROMPT_RULE_CHARS } from "@/lib/prompts"
+
+/**
+ * Account settings from /api/settings
+ */
+interface Settings {
+  redact_before_storage: boolean
+  duplicate_handling: "skip" | "link" | "reuse"
+  prompt_context: string
+  prompt_rules: string[]
+}
+
+const DUPLICATE_HANDLING_OPTIONS: { value: Settings["duplicate_handling"]; label: string }[] = [
+  { value: "skip", label: "Skip duplicates" },
+  { value: "link", label: "Store duplicates and link them to the original" },
+  { value: "reuse", label: "Store duplicates with a copy of the original's analysis" },
+]
+
+/**
+ * AccountSettingsForm Component
+ *
+ * Lets users:
+ * - Store redacted feedback text instead of the original
+ * - Choose how feedback identical to analyzed feedback is handled
+ * - Add domain context and rules to every analysis prompt
+ */
+export function AccountSettingsForm() {
+  const { toast } = useToast()
+  const [settings, setSettings] = useState<Settings | null>(null)
+  const [newRule, setNewRule] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  /**
+   * Fetch settings from API
+   */
+  const fetchSettings = useCallback(async () => {
+    try {
+      const response = await fetch("/api/settings")
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch settings")
+      }
+
+      setSettings(result.data)
+    } catch (error) {
+      console.error("Error fetching settings:", error)
+      toast({
+        title: "Error loading settings",
+        description: error instanceof Error ? error.message : "Failed to load settings",
+        variant: "destructive",
+      })
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchSettings()
+  }, [fetchSettings])
+
+  /**
+   * Change one setting locally (saved with handleSave)
+   */
+  const update = <K extends keyof Settings>(key: K, value: Settings[K]) => {
+    setSettings((current) => (current ? { ...current, [key]: value } : current))
+  }
+
+  /**
+   * Append the rule from the input to the rule list
+   */
+  const handleAddRule = () => {
+    if (!settings || !newRule.trim()) return
+
+    update("prompt_rules", [...settings.prompt_rules, newRule.trim()])
+    setNewRule("")
+  }
+
+  /**
+   * Save all settings
+   */
+  const handleSave = async () => {
+    if (!settings) return
+    setIsSaving(true)
+
+    try {
+      const response = await fetch("/api/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update settings")
+      }
+
+      setSettings(result.data)
+      toast({
+        title: "Settings saved",
+        description: "New feedback is analyzed with these settings",
+      })
+    } catch (error) {
+      toast({
+        title: "Could not save settings",
+        description: error instanceof Error ? error.message : "Failed to update settings",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!settings) {
+    return <p className="text-sm text-muted-foreground">Loading settings...</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Processing</CardTitle>
+          <CardDescription>How uploaded feedback is stored</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <label className="flex items-start gap-3 text-sm">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={settings.redact_before_storage}
+              onChange={(e) => update("redact_before_storage", e.target.checked)}
+              disabled={isSaving}
+            />
+            <span>
+              <span className="font-medium">Redact before storage</span>
+              <span className="block text-muted-foreground">
+                Store feedback with personal data replaced by placeholders; originals are kept encrypted
+              </span>
+            </span>
+          </label>
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Duplicate feedback</span>
+            <select
+              value={settings.duplicate_handling}
+              onChange={(e) => update("duplicate_handling", e.target.value as Settings["duplicate_handling"])}
+              disabled={isSaving}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            >
+              {DUPLICATE_HANDLING_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Custom Instructions</CardTitle>
+          <CardDescription>
+            Added to every analysis prompt. Existing feedback keeps its analysis until you{" "}
+            <Link href="/dashboard/reanalyze" className="underline">
+              re-analyze
+            </Link>{" "}
+            it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Domain context</span>
+            <Textarea
+              placeholder="e.g. We are a B2B payroll SaaS; 'run' means payroll run"
+              value={settings.prompt_context}
+              maxLength={MAX_PROMPT_CONTEXT_CHARS}
+              onChange={(e) => update("prompt_context", e.target.value)}
+              disabled={isSaving}
+            />
+          </label>
+          <div className="space-y-2 text-sm">
+            <span className="font-medium">Rules</span>
+            {settings.prompt_rules.length > 0 && (
+              <ul className="divide-y rounded-md border">
+                {settings.prompt_rules.map((rule, index) => (
+                  <li key={index} className="flex items-center justify-between gap-4 px-3 py-2">
+                    <span className="min-w-0">{rule}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        update("prompt_rules", settings.prompt_rules.filter((_, i) => i !== index))
+                      }
+                      disabled={isSaving}
+                      aria-label="Delete rule"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2">
+              <Input
+                placeholder="e.g. Always treat refund requests as high urgency"
+                value={newRule}
+                maxLength={MAX_PROMPT_RULE_CHARS}
+                onChange={(e) => setNewRule(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddRule()}
+                disabled={isSaving || settings.prompt_rules.length >= MAX_PROMPT_RULES}
+              />
+              <Button
+                variant="outline"
+                onClick={handleAddRule}
+                disabled={isSaving || !newRule.trim() || settings.prompt_rules.length >= MAX_PROMPT_RULES}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Button onClick={handleSave} disabled={isSaving}>
+        {isSaving ? "Saving..." : "Save Settings"}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Activity, TrendingDown, TrendingUp } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import type { Anomaly } from "@/lib/anomalies"
+
+interface AnomalyAlertsProps {
+  /**
+   * Changes whenever new feedback was analyzed, to check for and list its anomalies
+   */
+  refreshKey?: number
+}
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: "UTC" })
+}
+
+/**
+ * Observed value against the baseline, as counts or percentages
+ */
+function formatEvidence(anomaly: Anomaly): string {
+  const { evidence } = anomaly
+
+  if (anomaly.metric === "negative_share") {
+    const percent = (share: number) => `${Math.round(share * 100)}%`
+    return `${percent(anomaly.observed)} of ${evidence.total} entries negative vs ${percent(
+      anomaly.baseline
+    )} ± ${percent(evidence.baseline_std)} a day`
+  }
+
+  return `${anomaly.observed} entries vs ${anomaly.baseline.toFixed(1)} ± ${evidence.baseline_std.toFixed(1)} a day`
+}
+
+/**
+ * AnomalyAlerts Component
+ *
+ * Lists the spikes and drops of the last 7 days in daily feedback volume
+ * (overall and per topic, source and product) and negative share, with the
+ * evidence they were flagged on, and re-checks on demand.
+ */
+export function AnomalyAlerts({ refreshKey = 0 }: AnomalyAlertsProps) {
+  const { toast } = useToast()
+  const [anomalies, setAnomalies] = useState<Anomaly[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isChecking, setIsChecking] = useState(false)
+
+  /**
+   * Fetch recent anomalies from API
+   */
+  const fetchAnomalies = useCallback(async () => {
+    try {
+      const response = await fetch("/api/anomalies")
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch anomalies")
+      }
+
+      setAnomalies(result.data || [])
+    } catch (error) {
+      console.error("Error fetching anomalies:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (refreshKey === 0) {
+      fetchAnomalies()
+      return
+    }
+
+    // New feedback was analyzed: check for the anomalies it causes on a
+    // request of its own (the upload does not wait for it), then list
+    fetch("/api/anomalies", { method: "POST" })
+      .catch((error) => console.error("Error detecting anomalies:", error))
+      .finally(fetchAnomalies)
+  }, [fetchAnomalies, refreshKey])
+
+  /**
+   * Re-check yesterday and today, then list again
+   */
+  const handleCheck = async () => {
+    setIsChecking(true)
+
+    try {
+      const response = await fetch("/api/anomalies", { method: "POST" })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to detect anomalies")
+      }
+
+      await fetchAnomalies()
+    } catch (error) {
+      toast({
+        title: "Could not check for anomalies",
+        description: error instanceof Error ? error.message : "Failed to detect anomalies",
+        variant: "destructive",
+      })
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  if (isLoading) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Anomalies</CardTitle>
+          <CardDescription>
+            Unusual spikes and drops of the last 7 days against each day&apos;s 14-day baseline
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleCheck} disabled={isChecking}>
+          <Activity className={cn("h-4 w-4 mr-2", isChecking && "animate-pulse")} />
+          {isChecking ? "Checking..." : "Check now"}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {anomalies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No anomalies detected.</p>
+        ) : (
+          <ul className="divide-y">
+            {anomalies.map((anomaly) => {
+              const Icon = anomaly.direction === "spike" ? TrendingUp : TrendingDown
+
+              return (
+                <li key={anomaly.id} className="flex items-start gap-3 py-2">
+                  <Icon
+                    className={cn(
+                      "mt-0.5 h-4 w-4 shrink-0",
+                      anomaly.direction === "spike" ? "text-red-600" : "text-amber-600"
+                    )}
+                  />
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">{anomaly.message}</p>
+                    <p className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <span>{formatDay(anomaly.day)}</span>
+                      {anomaly.evidence.partial_day && <Badge variant="outline">Partial day</Badge>}
+                      <span>· {formatEvidence(anomaly)}</span>
+                      <span>· z {anomaly.z_score.toFixed(1)}</span>
+                    </p>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,213 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { MessageSquareText } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { INTENT_LABELS } from "@/lib/constants"
+import type { AskResult } from "@/lib/ask"
+
+const SENTIMENTS = ["positive", "negative", "neutral", "mixed"]
+
+/**
+ * Period options in days ("" for all feedback)
+ */
+const PERIODS = ["", "30", "90", "365"]
+
+const SELECT_CLASS =
+  "h-10 rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+/**
+ * Answer text with its `[n]` markers linked to the citations below
+ */
+function AnswerText({ answer }: { answer: string }) {
+  return (
+    <p className="text-sm whitespace-pre-line">
+      {answer.split(/(\[\d+\])/).map((part, i) => {
+        const marker = part.match(/^\[(\d+)\]$/)
+
+        return marker ? (
+          <a key={i} href={`#citation-${marker[1]}`} className="font-medium text-primary hover:underline">
+            {part}
+          </a>
+        ) : (
+          part
+        )
+      })}
+    </p>
+  )
+}
+
+/**
+ * AskPanel Component
+ *
+ * Lets users:
+ * - Ask a question about their feedback in natural language
+ * - Narrow the feedback searched by sentiment, intent, source, product and period
+ * - Read the answer and the feedback it cites
+ */
+export function AskPanel() {
+  const { toast } = useToast()
+  const [question, setQuestion] = useState("")
+  const [sentiment, setSentiment] = useState("")
+  const [intent, setIntent] = useState("")
+  const [source, setSource] = useState("")
+  const [productId, setProductId] = useState("")
+  const [days, setDays] = useState("")
+  const [result, setResult] = useState<AskResult | null>(null)
+  const [isAsking, setIsAsking] = useState(false)
+
+  const handleAsk = async () => {
+    setIsAsking(true)
+
+    try {
+      const response = await fetch("/api/ask", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          question,
+          sentiment,
+          intent,
+          source,
+          productId,
+          from: days ? new Date(Date.now() - Number(days) * 24 * 60 * 60 * 1000).toISOString() : undefined,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to answer question")
+      }
+
+      setResult(data.data)
+    } catch (error) {
+      toast({
+        title: "Could not answer question",
+        description: error instanceof Error ? error.message : "Failed to answer question",
+        variant: "destructive",
+      })
+    } finally {
+      setIsAsking(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquareText className="h-5 w-5" />
+          Ask Your Feedback
+        </CardTitle>
+        <CardDescription>
+          Answers are drawn only from your own feedback, with the entries they rely on cited below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleAsk()
+          }}
+        >
+          <Input
+            placeholder="e.g. Why are enterprise customers unhappy with onboarding?"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            maxLength={500}
+            disabled={isAsking}
+          />
+          <Button type="submit" disabled={isAsking || !question.trim()}>
+            {isAsking ? "Asking..." : "Ask"}
+          </Button>
+        </form>
+
+        <div className="grid gap-2 sm:grid-cols-5">
+          <select
+            aria-label="Sentiment"
+            value={sentiment}
+            onChange={(e) => setSentiment(e.target.value)}
+            disabled={isAsking}
+            className={SELECT_CLASS}
+          >
+            <option value="">Any sentiment</option>
+            {SENTIMENTS.map((value) => (
+              <option key={value} value={value}>
+                {value.charAt(0).toUpperCase() + value.slice(1)}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Intent"
+            value={intent}
+            onChange={(e) => setIntent(e.target.value)}
+            disabled={isAsking}
+            className={SELECT_CLASS}
+          >
+            <option value="">Any intent</option>
+            {Object.entries(INTENT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <Input placeholder="Source" value={source} onChange={(e) => setSource(e.target.value)} disabled={isAsking} />
+          <Input
+            placeholder="Product ID"
+            value={productId}
+            onChange={(e) => setProductId(e.target.value)}
+            disabled={isAsking}
+          />
+          <select
+            aria-label="Period"
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+            disabled={isAsking}
+            className={SELECT_CLASS}
+          >
+            {PERIODS.map((value) => (
+              <option key={value} value={value}>
+                {value ? `Last ${value} days` : "All time"}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {result && (
+          <div className="space-y-4 rounded-md border p-4">
+            <AnswerText answer={result.answer} />
+
+            {result.citations.length > 0 ? (
+              <ol className="space-y-3">
+                {result.citations.map((citation) => (
+                  <li key={citation.feedback_id} id={`citation-${citation.marker}`} className="text-sm">
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <span className="font-medium text-foreground">[{citation.marker}]</span>
+                      <span>{new Date(citation.created_at).toLocaleDateString()}</span>
+                      {citation.source && <span>· {citation.source}</span>}
+                      {citation.product_id && <span>· {citation.product_id}</span>}
+                      {citation.sentiment && <Badge variant="outline">{citation.sentiment}</Badge>}
+                      <span className="font-mono">{citation.feedback_id.slice(0, 8)}</span>
+                    </div>
+                    <blockquote className="mt-1 border-l-2 pl-3 italic text-muted-foreground">
+                      &ldquo;{citation.excerpt}&rdquo;
+                    </blockquote>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              result.retrieved > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  None of the {result.retrieved} feedback entries searched was cited.
+                </p>
+              )
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,233 @@
+"use client"
+
+import Link from "next/link"
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import type { CostReport } from "@/lib/costs"
+
+interface CostDashboardProps {
+  report: CostReport
+  /**
+   * Periods the report can be switched to, in days
+   */
+  periods: number[]
+}
+
+/**
+ * Format a USD amount; small amounts keep enough digits to be told apart from 0
+ */
+function formatUsd(value: number | null): string {
+  if (value === null) return "—"
+  const digits = Math.abs(value) < 1 && value !== 0 ? 4 : 2
+  return `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(digits)}`
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${(value * 100).toFixed(1)}%`
+}
+
+/**
+ * Shortened account ID (Clerk user IDs are long)
+ */
+function formatAccount(userId: string): string {
+  return userId.length > 16 ? `${userId.slice(0, 12)}…` : userId
+}
+
+function MarginCell({ value, percent }: { value: number; percent?: number | null }) {
+  return (
+    <td className={cn("px-3 py-2 text-right", value < 0 && "text-destructive font-medium")}>
+      {formatUsd(value)}
+      {percent !== undefined && (
+        <span className="ml-1 text-xs text-muted-foreground">({formatPercent(percent)})</span>
+      )}
+    </td>
+  )
+}
+
+/**
+ * Operator view of the LLM cost report (see lib/costs.ts)
+ */
+export function CostDashboard({ report, periods }: CostDashboardProps) {
+  const { totals, plans } = report
+  const free = plans.free
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {periods.map((days) => (
+          <Button key={days} variant={days === report.days ? "default" : "outline"} size="sm" asChild>
+            <Link href={`/dashboard/costs?days=${days}`}>Last {days} days</Link>
+          </Button>
+        ))}
+        <span className="text-sm text-muted-foreground">Since {report.since} (UTC)</span>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        {[
+          { label: "LLM spend", value: formatUsd(totals.costUsd) },
+          { label: "Analyses", value: totals.analyses.toLocaleString() },
+          { label: "Cost per analysis", value: formatUsd(totals.costPerAnalysis) },
+          { label: "Gross margin", value: `${formatUsd(totals.marginUsd)} (${formatPercent(totals.marginPercent)})` },
+        ].map(({ label, value }) => (
+          <Card key={label}>
+            <CardHeader className="pb-2">
+              <CardDescription>{label}</CardDescription>
+              <CardTitle className="text-2xl">{value}</CardTitle>
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Spend vs. Analyses</CardTitle>
+          <CardDescription>Estimated LLM and embedding cost and analyses performed per day</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {report.daily.length === 0 ? (
+            <div className="flex items-center justify-center h-64 text-muted-foreground">
+              No LLM usage recorded in this period
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <ComposedChart data={report.daily} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="day" className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                <YAxis yAxisId="analyses" className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                <YAxis
+                  yAxisId="cost"
+                  orientation="right"
+                  className="text-xs"
+                  tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  tickFormatter={(value: number) => `$${value.toFixed(2)}`}
+                />
+                <Tooltip
+                  formatter={(value: number, name: string) => (name === "Spend" ? formatUsd(value) : value)}
+                />
+                <Legend />
+                <Bar yAxisId="analyses" dataKey="analyses" name="Analyses" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                <Line yAxisId="cost" dataKey="costUsd" name="Spend" stroke="#ef4444" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Gross Margin per Plan</CardTitle>
+          <CardDescription>
+            Subscription revenue prorated to {report.days} days against LLM spend. Full quota cost is
+            what an account using its whole monthly quota costs at the plan&apos;s average cost per analysis.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {free.costUsd > 0 && (
+            <p className="text-sm">
+              Free accounts cost <span className="font-medium text-destructive">{formatUsd(free.costUsd)}</span>{" "}
+              in this period ({formatUsd(free.costPerAnalysis)} per analysis, {formatUsd(free.fullQuotaCostUsd)} for
+              a full quota of {free.monthlyAnalyses} analyses).
+            </p>
+          )}
+          <div className="rounded-md border overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted">
+                <tr>
+                  {["Plan", "Accounts", "Analyses", "Revenue", "LLM spend", "Margin", "Per analysis", "Full quota cost"].map(
+                    (header, i) => (
+                      <th
+                        key={header}
+                        className={cn("px-3 py-2 font-medium text-muted-foreground", i === 0 ? "text-left" : "text-right")}
+                      >
+                        {header}
+                      </th>
+                    )
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {Object.values(plans).map((plan) => (
+                  <tr key={plan.plan} className="border-t">
+                    <td className="px-3 py-2">
+                      {plan.name} <span className="text-muted-foreground">(${plan.priceMonthly}/mo)</span>
+                    </td>
+                    <td className="px-3 py-2 text-right">{plan.accounts}</td>
+                    <td className="px-3 py-2 text-right">{plan.analyses.toLocaleString()}</td>
+                    <td className="px-3 py-2 text-right">{formatUsd(plan.revenueUsd)}</td>
+                    <td className="px-3 py-2 text-right">{formatUsd(plan.costUsd)}</td>
+                    <MarginCell value={plan.marginUsd} percent={plan.marginPercent} />
+                    <td className="px-3 py-2 text-right">{formatUsd(plan.costPerAnalysis)}</td>
+                    <td className="px-3 py-2 text-right">{formatUsd(plan.fullQuotaCostUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Costliest Accounts</CardTitle>
+          <CardDescription>Accounts with the highest LLM spend in this period</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {report.accounts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No LLM usage recorded in this period</p>
+          ) : (
+            <div className="rounded-md border overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted">
+                  <tr>
+                    {["Account", "Plan", "Analyses", "Tokens", "LLM spend", "Per analysis", "Margin"].map((header, i) => (
+                      <th
+                        key={header}
+                        className={cn("px-3 py-2 font-medium text-muted-foreground", i < 2 ? "text-left" : "text-right")}
+                      >
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.accounts.map((account) => (
+                    <tr key={account.userId} className="border-t">
+                      <td className="px-3 py-2 font-mono text-xs" title={account.userId}>
+                        {formatAccount(account.userId)}
+                      </td>
+                      <td className="px-3 py-2">
+                        <Badge variant={account.marginUsd < 0 ? "destructive" : "secondary"}>
+                          {plans[account.plan].name}
+                        </Badge>
+                      </td>
+                      <td className="px-3 py-2 text-right">{account.analyses.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-right">
+                        {(account.promptTokens + account.completionTokens).toLocaleString()}
+                      </td>
+                      <td className="px-3 py-2 text-right">{formatUsd(account.costUsd)}</td>
+                      <td className="px-3 py-2 text-right">{formatUsd(account.costPerAnalysis)}</td>
+                      <MarginCell value={account.marginUsd} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -5,10 +5,14 @@ import { UploadBox } from "@/components/upload-box"
 import { SentimentChart, type SentimentData } from "@/components/sentiment-chart"
 import { TopicsChart, type TopicData } from "@/components/topics-chart"
 import { FeedbackCard } from "@/components/feedback-card"
+import { AnomalyAlerts } from "@/components/anomaly-alerts"
+import { AskPanel } from "@/components/ask-panel"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { RefreshCw } from "lucide-react"
+import { Boxes, FileText, Lightbulb, Merge, Network, RefreshCw, RotateCcw, SlidersHorizontal, Tags } from "lucide-react"
+import Link from "next/link"
 import { useToast } from "@/hooks/use-toast"
+import { INTENT_LABELS } from "@/lib/constants"
 
 /**
  * Feedback with analysis from API
@@ -17,6 +21,12 @@ interface FeedbackWithAnalysis {
   id: string
   user_id: string
   text: string
+  language: string | null
+  translated_text: string | null
+  duplicate_of: string | null
+  duplicate_similarity: number | null
+  near_duplicate_of: string | null
+  near_duplicate_similarity: number | null
   created_at: string
   updated_at: string
   feedback_analysis: {
@@ -24,17 +34,74 @@ interface FeedbackWithAnalysis {
     feedback_id: string
     sentiment: string | null
     sentiment_score: number | null
+    confidence_score: number | null
+    emotion: string | null
+    urgency: string | null
+    severity_score: number | null
+    intents: string[] | null
     topics: string[] | null
+    categories: string[] | null
     summary: string | null
     recommendation: string | null
+    status: "complete" | "partial" | "failed"
     created_at: string
   } | null
+  feedback_topic_sentiment?: Array<{
+    topic: string
+    sentiment: string
+    score: number
+  }> | null
+}
+
+/**
+ * Round a (possibly de-weighted) count for display
+ */
+function roundCount(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Original feedback of an exact or near-duplicate
+ */
+function getOriginalId(item: FeedbackWithAnalysis): string | null {
+  return item.duplicate_of || item.near_duplicate_of
+}
+
+/**
+ * Weight of each feedback item when duplicates are de-weighted
+ *
+ * An original and its duplicates (exact or near) share a weight of 1, so a
+ * complaint pasted ten times counts as much as one written once.
+ */
+function computeDuplicateWeights(data: FeedbackWithAnalysis[]): Record<string, number> {
+  const ids = new Set(data.map((item) => item.id))
+  const groupOf = (item: FeedbackWithAnalysis) => {
+    const original = getOriginalId(item)
+    return original && ids.has(original) ? original : item.id
+  }
+
+  const groupSizes: Record<string, number> = {}
+  data.forEach((item) => {
+    if (item.feedback_analysis) {
+      groupSizes[groupOf(item)] = (groupSizes[groupOf(item)] || 0) + 1
+    }
+  })
+
+  const weights: Record<string, number> = {}
+  data.forEach((item) => {
+    weights[item.id] = 1 / (groupSizes[groupOf(item)] || 1)
+  })
+
+  return weights
 }
 
 /**
  * Compute sentiment counts from feedback data
  */
-function computeSentimentCounts(data: FeedbackWithAnalysis[]): SentimentData[] {
+function computeSentimentCounts(
+  data: FeedbackWithAnalysis[],
+  weights: Record<string, number> = {}
+): SentimentData[] {
   const counts: Record<string, number> = {
     positive: 0,
     negative: 0,
@@ -46,35 +113,139 @@ function computeSentimentCounts(data: FeedbackWithAnalysis[]): SentimentData[] {
     if (item.feedback_analysis?.sentiment) {
       const sentiment = item.feedback_analysis.sentiment.toLowerCase()
       if (sentiment in counts) {
-        counts[sentiment]++
+        counts[sentiment] += weights[item.id] ?? 1
       }
     }
   })
 
   return Object.entries(counts)
     .filter(([_, count]) => count > 0)
-    .map(([name, value]) => ({ name, value }))
+    .map(([name, value]) => ({ name, value: roundCount(value) }))
 }
 
 /**
- * Compute topic frequencies from feedback data
+ * Average sentiment polarity (-1 to 1) of feedback data
+ *
+ * Feedback without a polarity score is left out; with duplicate weights,
+ * each item counts by its weight instead of 1.
  */
-function computeTopicFrequencies(data: FeedbackWithAnalysis[]): TopicData[] {
-  const topicCounts: Record<string, number> = {}
+function computeAverageSentiment(
+  data: FeedbackWithAnalysis[],
+  weights: Record<string, number> = {}
+): number | null {
+  let scoreSum = 0
+  let weightSum = 0
+
+  data.forEach((item) => {
+    const score = item.feedback_analysis?.sentiment_score
+    if (score !== null && score !== undefined) {
+      const weight = weights[item.id] ?? 1
+      scoreSum += score * weight
+      weightSum += weight
+    }
+  })
+
+  return weightSum > 0 ? scoreSum / weightSum : null
+}
+
+/**
+ * Compute topic frequencies and net sentiment from feedback data
+ *
+ * Net sentiment is the average per-topic score (-1 to 1) over the mentions
+ * that have one, so it shows which topics drive negativity even when the
+ * feedback as a whole is "mixed". Feedback analyzed before per-topic
+ * sentiment existed only contributes to the count.
+ *
+ * Topics are counted by canonical topic (see lib/topics.ts), so near-synonyms
+ * such as "delivery delay" and "late package" add up. A feedback item counts
+ * once per canonical topic; its first scored mention provides the sentiment.
+ * With duplicate weights, each item counts by its weight instead of 1.
+ */
+function computeTopicFrequencies(
+  data: FeedbackWithAnalysis[],
+  topicAliases: Record<string, string> = {},
+  weights: Record<string, number> = {}
+): TopicData[] {
+  const topicStats: Record<
+    string,
+    { count: number; scoreSum: number; scored: number; positive: number; negative: number }
+  > = {}
 
   data.forEach((item) => {
     if (item.feedback_analysis?.topics && Array.isArray(item.feedback_analysis.topics)) {
+      const topicSentiments = new Map(
+        (item.feedback_topic_sentiment || []).map((entry) => [entry.topic, entry])
+      )
+
+      const mentions = new Map<string, { score: number; sentiment: string } | undefined>()
+
       item.feedback_analysis.topics.forEach((topic: string) => {
-        topicCounts[topic] = (topicCounts[topic] || 0) + 1
+        const canonical = topicAliases[topic] ?? topic
+        if (!mentions.get(canonical)) {
+          mentions.set(canonical, topicSentiments.get(topic))
+        }
+      })
+
+      const weight = weights[item.id] ?? 1
+
+      mentions.forEach((topicSentiment, topic) => {
+        const stats = topicStats[topic] || { count: 0, scoreSum: 0, scored: 0, positive: 0, negative: 0 }
+        stats.count += weight
+
+        if (topicSentiment) {
+          stats.scoreSum += topicSentiment.score * weight
+          stats.scored += weight
+          if (topicSentiment.sentiment === "positive") stats.positive += weight
+          if (topicSentiment.sentiment === "negative") stats.negative += weight
+        }
+
+        topicStats[topic] = stats
       })
     }
   })
 
-  return Object.entries(topicCounts)
-    .map(([topic, count]) => ({ topic, count }))
+  return Object.entries(topicStats)
+    .map(([topic, stats]) => ({
+      topic,
+      count: roundCount(stats.count),
+      netSentiment: stats.scored > 0 ? Math.round((stats.scoreSum / stats.scored) * 100) / 100 : undefined,
+      positive: roundCount(stats.positive),
+      negative: roundCount(stats.negative),
+    }))
     .sort((a, b) => b.count - a.count)
 }
 
+/**
+ * Compute how often each taxonomy category was assigned
+ */
+function computeCategoryFrequencies(
+  data: FeedbackWithAnalysis[],
+  weights: Record<string, number> = {}
+): TopicData[] {
+  const counts: Record<string, number> = {}
+
+  data.forEach((item) => {
+    (item.feedback_analysis?.categories || []).forEach((category) => {
+      counts[category] = (counts[category] || 0) + (weights[item.id] ?? 1)
+    })
+  })
+
+  return Object.entries(counts)
+    .map(([topic, count]) => ({ topic, count: roundCount(count) }))
+    .sort((a, b) => b.count - a.count)
+}
+
+/**
+ * Display name for an ISO 639-1 language code (e.g. "es" → "Spanish")
+ */
+function formatLanguage(code: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(code) || code
+  } catch {
+    return code
+  }
+}
+
 /**
  * DashboardContent Component
  * 
@@ -82,6 +253,10 @@ function computeTopicFrequencies(data: FeedbackWithAnalysis[]): TopicData[] {
  * - Fetches feedback with analyses from API
  * - Computes sentiment counts and topic frequencies
  * - Displays charts and feedback cards
+ * - Filters by detected language and by intent
+ * - Groups duplicates under their original (collapsed by default) and can
+ *   de-weight them in the charts
+ * - Lists recent anomalies in feedback volume and sentiment
  * - Supports refetch after new upload
  */
 interface DashboardContentProps {
@@ -96,13 +271,28 @@ export function DashboardContent({ onQuotaRefresh }: DashboardContentProps) {
   const [data, setData] = useState<FeedbackWithAnalysis[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const [language, setLanguage] = useState("all")
+  const [intent, setIntent] = useState("all")
+  const [languages, setLanguages] = useState<string[]>([])
+  const [topicAliases, setTopicAliases] = useState<Record<string, string>>({})
+  const [deweightDuplicates, setDeweightDuplicates] = useState(false)
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set())
+  const [anomalyRefreshKey, setAnomalyRefreshKey] = useState(0)
 
   /**
    * Fetch feedback data from API
    */
   const fetchData = useCallback(async () => {
     try {
-      const response = await fetch("/api/feedback?limit=50")
+      const params = new URLSearchParams({ limit: "50" })
+      if (language !== "all") {
+        params.set("language", language)
+      }
+      if (intent !== "all") {
+        params.set("intent", intent)
+      }
+
+      const response = await fetch(`/api/feedback?${params}`)
       const result = await response.json()
 
       if (!response.ok) {
@@ -110,6 +300,8 @@ export function DashboardContent({ onQuotaRefresh }: DashboardContentProps) {
       }
 
       setData(result.data || [])
+      setLanguages(result.languages || [])
+      setTopicAliases(result.topicAliases || {})
     } catch (error) {
       console.error("Error fetching feedback:", error)
       toast({
@@ -121,7 +313,7 @@ export function DashboardContent({ onQuotaRefresh }: DashboardContentProps) {
       setIsLoading(false)
       setIsRefreshing(false)
     }
-  }, [toast])
+  }, [toast, language, intent])
 
   /**
    * Refetch data (called after analysis completes)
@@ -129,6 +321,7 @@ export function DashboardContent({ onQuotaRefresh }: DashboardContentProps) {
   const handleRefetch = useCallback(async () => {
     setIsRefreshing(true)
     await fetchData()
+    setAnomalyRefreshKey((key) => key + 1)
     // Also refresh quota display if callback is provided
     if (onQuotaRefresh) {
       onQuotaRefresh()
@@ -140,13 +333,50 @@ export function DashboardContent({ onQuotaRefresh }: DashboardContentProps) {
     fetchData()
   }, [fetchData])
 
-  // Compute chart data
-  const sentimentData = computeSentimentCounts(data)
-  const topicsData = computeTopicFrequencies(data)
+  /**
+   * Expand or collapse the duplicates of a feedback item
+   */
+  const toggleGroup = useCallback((feedbackId: string) => {
+    setExpandedGroups((current) => {
+      const next = new Set(current)
+      if (next.has(feedbackId)) {
+        next.delete(feedbackId)
+      } else {
+        next.add(feedbackId)
+      }
+      return next
+    })
+  }, [])
+
+  // Compute chart data (partial and failed analyses are left out)
+  const completeData = data.filter((item) => item.feedback_analysis?.status === "complete")
+  const incompleteCount = data.filter(
+    (item) => item.feedback_analysis && item.feedback_analysis.status !== "complete"
+  ).length
+  const weights = deweightDuplicates ? computeDuplicateWeights(completeData) : {}
+  const sentimentData = computeSentimentCounts(completeData, weights)
+  const averageSentiment = computeAverageSentiment(completeData, weights)
+  const topicsData = computeTopicFrequencies(completeData, topicAliases, weights)
+  const categoriesData = computeCategoryFrequencies(completeData, weights)
 
   // Filter feedback with analysis for display
   const feedbackWithAnalysis = data.filter((item) => item.feedback_analysis !== null)
 
+  // Group duplicates under their original when both are listed
+  const listedIds = new Set(feedbackWithAnalysis.map((item) => item.id))
+  const duplicatesByOriginal: Record<string, FeedbackWithAnalysis[]> = {}
+  feedbackWithAnalysis.forEach((item) => {
+    const original = getOriginalId(item)
+    if (original && listedIds.has(original)) {
+      duplicatesByOriginal[original] = [...(duplicatesByOriginal[original] || []), item]
+    }
+  })
+  const hasDuplicates = Object.keys(duplicatesByOriginal).length > 0
+  const originals = feedbackWithAnalysis.filter((item) => {
+    const original = getOriginalId(item)
+    return !(original && listedIds.has(original))
+  })
+
   return (
     <div className="space-y-6">
       {/* Upload Section */}
@@ -162,6 +392,73 @@ export function DashboardContent({ onQuotaRefresh }: DashboardContentProps) {
         </CardContent>
       </Card>
 
+      {/* Anomalies */}
+      <AnomalyAlerts refreshKey={anomalyRefreshKey} />
+
+      {/* Questions */}
+      <AskPanel />
+
+      {/* Language Filter */}
+      {!isLoading && hasDuplicates && (
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            checked={deweightDuplicates}
+            onChange={(event) => setDeweightDuplicates(event.target.checked)}
+            className="h-4 w-4 rounded border-input"
+          />
+          Count duplicates once in charts
+        </label>
+      )}
+
+      {!isLoading && (languages.length > 1 || language !== "all") && (
+        <div className="flex items-center gap-2">
+          <label htmlFor="language-filter" className="text-sm font-medium">
+            Language
+          </label>
+          <select
+            id="language-filter"
+            value={language}
+            onChange={(event) => {
+              setIsRefreshing(true)
+              setLanguage(event.target.value)
+            }}
+            className="h-9 rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          >
+            <option value="all">All languages</option>
+            {languages.map((code) => (
+              <option key={code} value={code}>
+                {formatLanguage(code)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {!isLoading && (
+        <div className="flex items-center gap-2">
+          <label htmlFor="intent-filter" className="text-sm font-medium">
+            Intent
+          </label>
+          <select
+            id="intent-filter"
+            value={intent}
+            onChange={(event) => {
+              setIsRefreshing(true)
+              setIntent(event.target.value)
+            }}
+            className="h-9 rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          >
+            <option value="all">All intents</option>
+            {Object.entries(INTENT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Charts Section */}
       {!isLoading && data.length > 0 && (
         <div className="grid gap-6 md:grid-cols-2">
@@ -171,13 +468,24 @@ export function DashboardContent({ onQuotaRefresh }: DashboardContentProps) {
             description="Breakdown of feedback sentiment"
             donut={true}
           />
-          <TopicsChart
-            data={topicsData}
-            title="Top Topics"
-            description="Most frequently mentioned topics"
-            maxTopics={10}
-            height={300}
-          />
+          {categoriesData.length > 0 ? (
+            <TopicsChart
+              data={categoriesData}
+              title="Top Categories"
+              description="Feedback per category of your taxonomy"
+              maxTopics={10}
+              height={300}
+            />
+          ) : (
+            <TopicsChart
+              data={topicsData}
+              title="Top Topics"
+              description="Most frequently mentioned topics, colored by net sentiment"
+              maxTopics={10}
+              height={300}
+              colorBySentiment={true}
+            />
+          )}
         </div>
       )}
 
@@ -192,17 +500,22 @@ export function DashboardContent({ onQuotaRefresh }: DashboardContentProps) {
               <div className="text-2xl font-bold">{data.length}</div>
               <p className="text-xs text-muted-foreground">
                 {feedbackWithAnalysis.length} analyzed
+                {incompleteCount > 0 && ` (${incompleteCount} incomplete, excluded from charts)`}
               </p>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader className="pb-3">
-              <CardTitle className="text-sm font-medium">Sentiments</CardTitle>
+              <CardTitle className="text-sm font-medium">Average Sentiment</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{sentimentData.length}</div>
-              <p className="text-xs text-muted-foreground">Different sentiment types</p>
+              <div className="text-2xl font-bold">
+                {averageSentiment === null
+                  ? "—"
+                  : `${averageSentiment > 0 ? "+" : ""}${averageSentiment.toFixed(2)}`}
+              </div>
+              <p className="text-xs text-muted-foreground">Polarity from -1 (negative) to +1 (positive)</p>
             </CardContent>
           </Card>
 
@@ -225,17 +538,69 @@ export function DashboardContent({ onQuotaRefresh }: DashboardContentProps) {
             <h2 className="text-2xl font-bold tracking-tight">Recent Feedback</h2>
             <p className="text-muted-foreground">
               {feedbackWithAnalysis.length} feedback items with analysis
+              {originals.length < feedbackWithAnalysis.length &&
+                ` (${feedbackWithAnalysis.length - originals.length} grouped as duplicates)`}
             </p>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={handleRefetch}
-            disabled={isRefreshing}
-          >
-            <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing ? "animate-spin" : ""}`} />
-            Refresh
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/dashboard/insights">
+                <FileText className="h-4 w-4 mr-2" />
+                Insights
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/dashboard/themes">
+                <Network className="h-4 w-4 mr-2" />
+                Themes
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/dashboard/feature-requests">
+                <Lightbulb className="h-4 w-4 mr-2" />
+                Feature Requests
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/dashboard/entities">
+                <Boxes className="h-4 w-4 mr-2" />
+                Entities
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/dashboard/taxonomy">
+                <Tags className="h-4 w-4 mr-2" />
+                Categories
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/dashboard/topics">
+                <Merge className="h-4 w-4 mr-2" />
+                Topics
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/dashboard/reanalyze">
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Re-analyze
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/dashboard/settings">
+                <SlidersHorizontal className="h-4 w-4 mr-2" />
+                Settings
+              </Link>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRefetch}
+              disabled={isRefreshing}
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
         </div>
 
         {isLoading ? (
@@ -260,19 +625,44 @@ export function DashboardContent({ onQuotaRefresh }: DashboardContentProps) {
           </Card>
         ) : (
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {feedbackWithAnalysis.slice(0, 12).map((item) => (
-              <FeedbackCard
-                key={item.id}
-                text={item.text}
-                analysis={{
-                  sentiment: item.feedback_analysis?.sentiment || "neutral",
-                  sentiment_score: item.feedback_analysis?.sentiment_score || undefined,
-                  topics: item.feedback_analysis?.topics || [],
-                  summary: item.feedback_analysis?.summary || "",
-                  recommendation: item.feedback_analysis?.recommendation || "",
-                }}
-              />
-            ))}
+            {originals.slice(0, 12).flatMap((item) => {
+              const duplicates = duplicatesByOriginal[item.id] || []
+              const isExpanded = expandedGroups.has(item.id)
+
+              return [item, ...(isExpanded ? duplicates : [])].map((entry) => (
+                <FeedbackCard
+                  key={entry.id}
+                  text={entry.text}
+                  language={entry.language || undefined}
+                  translatedText={entry.translated_text || undefined}
+                  analysis={{
+                    sentiment: entry.feedback_analysis?.sentiment || "neutral",
+                    sentiment_score: entry.feedback_analysis?.sentiment_score ?? undefined,
+                    confidence_score: entry.feedback_analysis?.confidence_score ?? undefined,
+                    emotion: entry.feedback_analysis?.emotion || undefined,
+                    urgency: entry.feedback_analysis?.urgency || undefined,
+                    severity_score: entry.feedback_analysis?.severity_score ?? undefined,
+                    intents: entry.feedback_analysis?.intents || [],
+                    topics: entry.feedback_analysis?.topics || [],
+                    categories: entry.feedback_analysis?.categories || [],
+                    summary: entry.feedback_analysis?.summary || "",
+                    recommendation: entry.feedback_analysis?.recommendation || "",
+                    status: entry.feedback_analysis?.status,
+                  }}
+                  duplicateSimilarity={
+                    entry === item
+                      ? undefined
+                      : entry.duplicate_similarity ?? entry.near_duplicate_similarity ?? undefined
+                  }
+                  duplicates={
+                    entry === item && duplicates.length > 0
+                      ? { count: duplicates.length, expanded: isExpanded, onToggle: () => toggleGroup(item.id) }
+                      : undefined
+                  }
+                  className={entry === item ? undefined : "border-dashed"}
+                />
+              ))
+            })}
           </div>
         )}
       </div>
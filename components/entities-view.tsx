@@ -0,0 +1,212 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import type { EntityBreakdown, EntityMentionStats } from "@/lib/entities"
+
+interface EntitiesViewProps {
+  initialBreakdown: EntityBreakdown
+  initialDays: number
+}
+
+const PERIODS = [30, 90, 180, 365]
+
+/**
+ * Values listed per entity type in the mentions card
+ */
+const MAX_MENTION_BADGES = 15
+
+function formatShare(value: number | null): string {
+  return value === null ? "–" : `${Math.round(value * 100)}%`
+}
+
+function formatScore(value: number | null): string {
+  return value === null ? "–" : value.toFixed(2)
+}
+
+function Table({ headers, children }: { headers: string[]; children: React.ReactNode }) {
+  return (
+    <div className="rounded-md border overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-muted">
+          <tr>
+            {headers.map((header, i) => (
+              <th
+                key={header}
+                className={cn("px-3 py-2 font-medium text-muted-foreground", i === 0 ? "text-left" : "text-right")}
+              >
+                {header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>{children}</tbody>
+      </table>
+    </div>
+  )
+}
+
+function MentionBadges({ title, rows }: { title: string; rows: EntityMentionStats[] }) {
+  if (rows.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">{title}</p>
+      <div className="flex flex-wrap gap-2">
+        {rows.slice(0, MAX_MENTION_BADGES).map((row) => (
+          <Badge key={row.value} variant="outline">
+            {row.value} · {row.mentions}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * EntitiesView Component
+ *
+ * Lets users:
+ * - See which competitors customers mention, and how they feel when they do
+ * - Spot app versions that draw more complaints than the others
+ * - Browse the products, features and platforms customers mention
+ * - Change the period the breakdown covers
+ */
+export function EntitiesView({ initialBreakdown, initialDays }: EntitiesViewProps) {
+  const { toast } = useToast()
+  const [breakdown, setBreakdown] = useState(initialBreakdown)
+  const [days, setDays] = useState(initialDays)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const load = async (value: number) => {
+    setDays(value)
+    setIsLoading(true)
+
+    try {
+      const response = await fetch(`/api/entities?days=${value}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load entities")
+      }
+
+      setBreakdown(data.data)
+    } catch (error) {
+      toast({
+        title: "Could not load entities",
+        description: error instanceof Error ? error.message : "Failed to load entities",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const hasMentions =
+    breakdown.products.length > 0 || breakdown.features.length > 0 || breakdown.platforms.length > 0
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-2">
+        {PERIODS.map((period) => (
+          <Button
+            key={period}
+            variant={days === period ? "default" : "outline"}
+            size="sm"
+            onClick={() => load(period)}
+            disabled={isLoading}
+          >
+            {period} days
+          </Button>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Competitor Mentions</CardTitle>
+          <CardDescription>Feedback mentioning each competitor, with its sentiment and churn signals</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {breakdown.competitors.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No competitor mentions in this period.</p>
+          ) : (
+            <Table headers={["Competitor", "Mentions", "Positive", "Negative", "Avg. sentiment", "Cancellation intent"]}>
+              {breakdown.competitors.map((row) => (
+                <tr key={row.value} className="border-t">
+                  <td className="px-3 py-2 font-medium">{row.value}</td>
+                  <td className="px-3 py-2 text-right">{row.mentions}</td>
+                  <td className="px-3 py-2 text-right">{row.positive}</td>
+                  <td className="px-3 py-2 text-right">{row.negative}</td>
+                  <td className="px-3 py-2 text-right">{formatScore(row.avg_sentiment)}</td>
+                  <td className="px-3 py-2 text-right">{row.cancellations}</td>
+                </tr>
+              ))}
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>App Versions</CardTitle>
+          <CardDescription>
+            Complaints (bug reports, complaints, pricing complaints and cancellation intent) per version
+            {breakdown.version_complaint_share !== null &&
+              `, against ${formatShare(breakdown.version_complaint_share)} over all versions`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {breakdown.versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No app versions mentioned in this period.</p>
+          ) : (
+            <Table headers={["Version", "Mentions", "Complaints", "Bug reports", "Complaint share", "vs. all versions"]}>
+              {breakdown.versions.map((row) => (
+                <tr key={row.value} className={cn("border-t", row.elevated && "bg-destructive/5")}>
+                  <td className="px-3 py-2 font-medium">
+                    {row.value}
+                    {row.elevated && (
+                      <Badge variant="destructive" className="ml-2">
+                        Elevated
+                      </Badge>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right">{row.mentions}</td>
+                  <td className="px-3 py-2 text-right">{row.complaints}</td>
+                  <td className="px-3 py-2 text-right">{row.bug_reports}</td>
+                  <td className="px-3 py-2 text-right">{formatShare(row.complaint_share)}</td>
+                  <td className="px-3 py-2 text-right">
+                    {row.complaint_lift === null ? "–" : `${row.complaint_lift.toFixed(1)}x`}
+                  </td>
+                </tr>
+              ))}
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Other Mentions</CardTitle>
+          <CardDescription>Products, features and platforms by number of feedback items mentioning them</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {hasMentions ? (
+            <>
+              <MentionBadges title="Products" rows={breakdown.products} />
+              <MentionBadges title="Features" rows={breakdown.features} />
+              <MentionBadges title="Platforms" rows={breakdown.platforms} />
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No mentions yet. Feedback analyzed before entity extraction has none until it is re-analyzed.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,200 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { ENTITY_TYPE_LABELS } from "@/lib/constants"
+import type { DictionaryEntityType, DictionaryEntry } from "@/lib/entities"
+
+const TYPES: DictionaryEntityType[] = ["competitor", "product", "feature"]
+
+/**
+ * EntityDictionaryManager Component
+ *
+ * Lets users:
+ * - List their known competitors, products and features with their aliases
+ * - Add entries with comma-separated aliases
+ * - Delete entries
+ */
+export function EntityDictionaryManager() {
+  const { toast } = useToast()
+  const [entries, setEntries] = useState<DictionaryEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [type, setType] = useState<DictionaryEntityType>("competitor")
+  const [name, setName] = useState("")
+  const [aliases, setAliases] = useState("")
+
+  /**
+   * Fetch dictionary from API
+   */
+  const fetchEntries = useCallback(async () => {
+    try {
+      const response = await fetch("/api/entities/dictionary")
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch dictionary")
+      }
+
+      setEntries(result.data || [])
+    } catch (error) {
+      console.error("Error fetching dictionary:", error)
+      toast({
+        title: "Error loading dictionary",
+        description: error instanceof Error ? error.message : "Failed to load dictionary",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries])
+
+  /**
+   * Create an entry from the form
+   */
+  const handleAdd = async () => {
+    setIsSaving(true)
+
+    try {
+      const response = await fetch("/api/entities/dictionary", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type,
+          name,
+          aliases: aliases
+            .split(",")
+            .map((alias) => alias.trim())
+            .filter(Boolean),
+        }),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to create entry")
+      }
+
+      setName("")
+      setAliases("")
+      await fetchEntries()
+    } catch (error) {
+      toast({
+        title: "Could not add entry",
+        description: error instanceof Error ? error.message : "Failed to create entry",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Delete an entry
+   */
+  const handleDelete = async (entry: DictionaryEntry) => {
+    try {
+      const response = await fetch(`/api/entities/dictionary/${entry.id}`, { method: "DELETE" })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to delete entry")
+      }
+
+      await fetchEntries()
+    } catch (error) {
+      toast({
+        title: "Could not delete entry",
+        description: error instanceof Error ? error.message : "Failed to delete entry",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Known Products and Competitors</CardTitle>
+        <CardDescription>
+          Mentions of a name or alias are always counted under the name. Existing feedback keeps its
+          entities until it is re-analyzed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-[10rem_1fr_1fr_auto]">
+          <select
+            aria-label="Entity type"
+            value={type}
+            onChange={(e) => setType(e.target.value as DictionaryEntityType)}
+            disabled={isSaving}
+            className="h-10 rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          >
+            {TYPES.map((value) => (
+              <option key={value} value={value}>
+                {ENTITY_TYPE_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          <Input
+            placeholder="Name (e.g. Globex)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={isSaving}
+          />
+          <Input
+            placeholder="Aliases, comma separated (optional)"
+            value={aliases}
+            onChange={(e) => setAliases(e.target.value)}
+            disabled={isSaving}
+          />
+          <Button onClick={handleAdd} disabled={isSaving || !name.trim()}>
+            {isSaving ? "Adding..." : "Add"}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading dictionary...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No entries yet. Entities are still extracted, but spellings of the same name are counted
+            separately.
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {entries.map((entry) => (
+              <li key={entry.id} className="flex items-start justify-between gap-4 py-3">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium">
+                    {entry.name}{" "}
+                    <Badge variant="outline" className="ml-1">
+                      {ENTITY_TYPE_LABELS[entry.type]}
+                    </Badge>
+                  </p>
+                  {entry.aliases.length > 0 && (
+                    <p className="text-xs text-muted-foreground">Also: {entry.aliases.join(", ")}</p>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(entry)}
+                  aria-label={`Delete ${entry.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
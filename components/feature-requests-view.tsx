@@ -0,0 +1,145 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Download } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import type { FeatureRequestGroup, FeatureRequestReport } from "@/lib/feature-requests"
+
+interface FeatureRequestsViewProps {
+  initialReport: FeatureRequestReport
+  initialDays: number
+}
+
+const PERIODS = [30, 90, 180, 365]
+
+/**
+ * Usernames shown per group before "and N more"
+ */
+const MAX_USERNAMES = 8
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString()
+}
+
+function GroupCard({ group }: { group: FeatureRequestGroup }) {
+  const hidden = group.usernames.length - MAX_USERNAMES
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">{group.title}</CardTitle>
+        <CardDescription className="flex flex-wrap items-center gap-2">
+          <span className="font-medium text-foreground">
+            {group.requesters} {group.requesters === 1 ? "requester" : "requesters"}
+          </span>
+          <span>
+            · {group.requests} {group.requests === 1 ? "request" : "requests"} · last {formatDate(group.last_requested_at)}
+          </span>
+          {group.topics.map((topic) => (
+            <Badge key={topic} variant="outline">
+              {topic}
+            </Badge>
+          ))}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {group.usernames.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Requested by {group.usernames.slice(0, MAX_USERNAMES).join(", ")}
+            {hidden > 0 && ` and ${hidden} more`}
+          </p>
+        )}
+        {group.examples.map((example) => (
+          <blockquote key={example.feedback_id} className="border-l-2 pl-3 text-sm italic text-muted-foreground">
+            &ldquo;{example.text}&rdquo;
+          </blockquote>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * FeatureRequestsView Component
+ *
+ * Lets users:
+ * - Browse feature requests grouped by similarity, most requesters first
+ * - Change the period the requests are grouped over
+ * - Download the groups as CSV for roadmap planning
+ */
+export function FeatureRequestsView({ initialReport, initialDays }: FeatureRequestsViewProps) {
+  const { toast } = useToast()
+  const [report, setReport] = useState(initialReport)
+  const [days, setDays] = useState(initialDays)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const load = async (value: number) => {
+    setDays(value)
+    setIsLoading(true)
+
+    try {
+      const response = await fetch(`/api/feature-requests?days=${value}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load feature requests")
+      }
+
+      setReport(data.data)
+    } catch (error) {
+      toast({
+        title: "Could not load feature requests",
+        description: error instanceof Error ? error.message : "Failed to load feature requests",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex gap-2">
+          {PERIODS.map((period) => (
+            <Button
+              key={period}
+              variant={days === period ? "default" : "outline"}
+              size="sm"
+              onClick={() => load(period)}
+              disabled={isLoading}
+            >
+              {period} days
+            </Button>
+          ))}
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <a href={`/api/feature-requests?days=${days}&format=csv`} download>
+            <Download className="h-4 w-4 mr-2" />
+            Download CSV
+          </a>
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {report.feedback_count} feature requests in {report.groups.length} groups since {formatDate(report.since)}
+        {report.truncated && " (most recent only)"}.
+      </p>
+
+      {report.groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No feature requests yet. Feedback analyzed before intents were added has none until it is re-analyzed.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {report.groups.map((group) => (
+            <GroupCard key={group.feedback_ids[0]} group={group} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -8,15 +8,32 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible"
-import { ChevronDown, ChevronUp } from "lucide-react"
+import { ChevronDown, ChevronUp, Copy } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { INTENT_LABELS } from "@/lib/constants"
 
 interface FeedbackAnalysis {
   sentiment: string
+  /**
+   * Polarity from -1 (very negative) to 1 (very positive)
+   */
   sentiment_score?: number
+  /**
+   * Model confidence in the sentiment (0 to 1)
+   */
+  confidence_score?: number
+  emotion?: string
+  urgency?: string
+  severity_score?: number
+  /**
+   * What the customer wants, primary intent first
+   */
+  intents?: string[]
   topics: string[]
+  categories?: string[]
   summary: string
   recommendation: string
+  status?: "complete" | "partial" | "failed"
 }
 
 interface FeedbackCardProps {
@@ -24,10 +41,30 @@ interface FeedbackCardProps {
    * The original feedback text
    */
   text: string
+  /**
+   * Detected language (ISO 639-1 code)
+   */
+  language?: string
+  /**
+   * English translation the analysis ran on (non-English feedback only)
+   */
+  translatedText?: string
   /**
    * Analysis results from the API
    */
   analysis: FeedbackAnalysis
+  /**
+   * Similarity to the original when this feedback is a duplicate (0 to 1)
+   */
+  duplicateSimilarity?: number
+  /**
+   * Duplicates grouped under this feedback, with their expand/collapse state
+   */
+  duplicates?: {
+    count: number
+    expanded: boolean
+    onToggle: () => void
+  }
   /**
    * Optional className for styling
    */
@@ -71,19 +108,60 @@ function getSentimentStyle(sentiment: string): {
   }
 }
 
+/**
+ * Format polarity with an explicit sign (e.g. "+0.45")
+ */
+function formatPolarity(score: number): string {
+  return `${score > 0 ? "+" : ""}${score.toFixed(2)}`
+}
+
+/**
+ * Get urgency badge color based on urgency level
+ */
+function getUrgencyStyle(urgency: string): string {
+  const lowerUrgency = urgency.toLowerCase()
+
+  if (lowerUrgency === "critical") {
+    return "bg-red-600 text-white border-red-600 dark:bg-red-600 dark:text-white"
+  }
+
+  if (lowerUrgency === "high") {
+    return "bg-orange-500/10 text-orange-700 border-orange-500/20 dark:bg-orange-500/20 dark:text-orange-400 dark:border-orange-500/30"
+  }
+
+  if (lowerUrgency === "medium") {
+    return "bg-yellow-500/10 text-yellow-700 border-yellow-500/20 dark:bg-yellow-500/20 dark:text-yellow-400 dark:border-yellow-500/30"
+  }
+
+  return "bg-gray-500/10 text-gray-700 border-gray-500/20 dark:bg-gray-500/20 dark:text-gray-400 dark:border-gray-500/30"
+}
+
 /**
  * FeedbackCard Component
  * 
  * Displays a single feedback analysis result with:
- * - Color-coded sentiment badge
+ * - Color-coded sentiment badge with polarity, or an "Analysis failed" badge
+ * - "Partial analysis" badge when a secondary step (e.g. classification) failed
+ * - Emotion and urgency badges (urgency includes the severity score)
  * - Topic chips
  * - Summary (2 lines)
  * - Recommendation (1 line)
- * - Expandable original text
+ * - Language badge for non-English feedback
+ * - Expandable original text (and English translation)
+ * - Duplicate badge, or a toggle for the duplicates grouped under it
  */
-export function FeedbackCard({ text, analysis, className }: FeedbackCardProps) {
+export function FeedbackCard({
+  text,
+  language,
+  translatedText,
+  analysis,
+  duplicateSimilarity,
+  duplicates,
+  className,
+}: FeedbackCardProps) {
   const [isExpanded, setIsExpanded] = useState(false)
   const sentimentStyle = getSentimentStyle(analysis.sentiment)
+  const isFailed = analysis.status === "failed"
 
   return (
     <Card className={cn("w-full", className)}>
@@ -91,20 +169,81 @@ export function FeedbackCard({ text, analysis, className }: FeedbackCardProps) {
         <div className="flex items-start justify-between gap-4">
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2 mb-2 flex-wrap">
-              <Badge
-                variant={sentimentStyle.variant}
-                className={cn(
-                  "font-semibold capitalize",
-                  sentimentStyle.className
-                )}
-              >
-                {analysis.sentiment}
-                {analysis.sentiment_score !== undefined && (
-                  <span className="ml-1 opacity-75">
-                    ({Math.round(analysis.sentiment_score * 100)}%)
-                  </span>
-                )}
-              </Badge>
+              {isFailed ? (
+                <Badge variant="destructive" title="Excluded from charts until re-analyzed">
+                  Analysis failed
+                </Badge>
+              ) : (
+                <Badge
+                  variant={sentimentStyle.variant}
+                  className={cn(
+                    "font-semibold capitalize",
+                    sentimentStyle.className
+                  )}
+                >
+                  {analysis.sentiment}
+                  {analysis.sentiment_score !== undefined && (
+                    <span
+                      className="ml-1 opacity-75"
+                      title={
+                        analysis.confidence_score !== undefined
+                          ? `Polarity from -1 to 1 (${Math.round(analysis.confidence_score * 100)}% confidence)`
+                          : "Polarity from -1 to 1"
+                      }
+                    >
+                      ({formatPolarity(analysis.sentiment_score)})
+                    </span>
+                  )}
+                </Badge>
+              )}
+              {analysis.status === "partial" && (
+                <Badge variant="outline" title="Some analysis steps failed; excluded from charts until re-analyzed">
+                  Partial analysis
+                </Badge>
+              )}
+              {duplicateSimilarity !== undefined && (
+                <Badge variant="outline" title="Similarity to the original feedback">
+                  Duplicate ({Math.round(duplicateSimilarity * 100)}%)
+                </Badge>
+              )}
+              {language && language !== "en" && (
+                <Badge variant="outline" className="uppercase" title="Detected language">
+                  {language}
+                </Badge>
+              )}
+              {analysis.intents?.map((intent) => (
+                <Badge key={intent} variant="outline" title="Intent">
+                  {INTENT_LABELS[intent as keyof typeof INTENT_LABELS] ?? intent}
+                </Badge>
+              ))}
+              {analysis.emotion && analysis.emotion !== "neutral" && (
+                <Badge variant="outline" className="capitalize">
+                  {analysis.emotion}
+                </Badge>
+              )}
+              {analysis.urgency && (
+                <Badge
+                  variant="outline"
+                  className={cn("capitalize", getUrgencyStyle(analysis.urgency))}
+                  title="Urgency (severity)"
+                >
+                  {analysis.urgency} urgency
+                  {analysis.severity_score !== undefined && (
+                    <span className="ml-1 opacity-75">
+                      ({Math.round(analysis.severity_score * 100)}%)
+                    </span>
+                  )}
+                </Badge>
+              )}
+              {analysis.categories && analysis.categories.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {analysis.categories.map((category) => (
+                    <Badge key={category} variant="secondary" title="Category">
+                      {category}
+                    </Badge>
+                  ))}
+                </div>
+              )}
               {analysis.topics.length > 0 && (
                 <div className="flex flex-wrap gap-1.5">
                   {analysis.topics.slice(0, 5).map((topic, index) => (
@@ -129,27 +268,31 @@ export function FeedbackCard({ text, analysis, className }: FeedbackCardProps) {
       </CardHeader>
 
       <CardContent className="space-y-4">
-        {/* Summary - 2 lines */}
-        <div>
-          <h4 className="text-sm font-semibold mb-1.5">Summary</h4>
-          <p
-            className="text-sm text-muted-foreground line-clamp-2"
-            title={analysis.summary}
-          >
-            {analysis.summary}
-          </p>
-        </div>
+        {!isFailed && (
+          <>
+            {/* Summary - 2 lines */}
+            <div>
+              <h4 className="text-sm font-semibold mb-1.5">Summary</h4>
+              <p
+                className="text-sm text-muted-foreground line-clamp-2"
+                title={analysis.summary}
+              >
+                {analysis.summary}
+              </p>
+            </div>
 
-        {/* Recommendation - 1 line */}
-        <div>
-          <h4 className="text-sm font-semibold mb-1.5">Recommendation</h4>
-          <p
-            className="text-sm text-muted-foreground line-clamp-1"
-            title={analysis.recommendation}
-          >
-            {analysis.recommendation}
-          </p>
-        </div>
+            {/* Recommendation - 1 line */}
+            <div>
+              <h4 className="text-sm font-semibold mb-1.5">Recommendation</h4>
+              <p
+                className="text-sm text-muted-foreground line-clamp-1"
+                title={analysis.recommendation}
+              >
+                {analysis.recommendation}
+              </p>
+            </div>
+          </>
+        )}
 
         {/* Expandable Original Text */}
         <Collapsible open={isExpanded} onOpenChange={setIsExpanded}>
@@ -165,8 +308,26 @@ export function FeedbackCard({ text, analysis, className }: FeedbackCardProps) {
             <div className="rounded-md bg-muted/50 p-3 text-sm">
               <p className="whitespace-pre-wrap break-words">{text}</p>
             </div>
+            {translatedText && (
+              <div className="mt-2 rounded-md bg-muted/50 p-3 text-sm">
+                <h4 className="text-xs font-semibold mb-1 text-muted-foreground">English translation</h4>
+                <p className="whitespace-pre-wrap break-words">{translatedText}</p>
+              </div>
+            )}
           </CollapsibleContent>
         </Collapsible>
+
+        {duplicates && (
+          <button
+            type="button"
+            onClick={duplicates.onToggle}
+            className="flex items-center gap-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <Copy className="h-4 w-4" />
+            {duplicates.expanded ? "Hide" : "Show"} {duplicates.count} duplicate
+            {duplicates.count === 1 ? "" : "s"}
+          </button>
+        )}
       </CardContent>
     </Card>
   )
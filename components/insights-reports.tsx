@@ -0,0 +1,281 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowDownRight, ArrowUpRight, FileText, Minus, Sparkles } from "lucide-react"
+import {
+  defaultScopeSelection,
+  isScopeComplete,
+  ScopePicker,
+  toScopeBody,
+  type UploadOption,
+} from "@/components/scope-picker"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import type { InsightIssue, InsightsReport, InsightsReportSummary, TrendDirection } from "@/lib/insights"
+
+interface InsightsReportsProps {
+  uploads: UploadOption[]
+  initialReports: InsightsReportSummary[]
+}
+
+const TREND_LABELS: Record<TrendDirection, { label: string; icon: typeof Minus; className: string }> = {
+  new: { label: "New", icon: Sparkles, className: "text-red-600" },
+  rising: { label: "Rising", icon: ArrowUpRight, className: "text-red-600" },
+  stable: { label: "Stable", icon: Minus, className: "text-muted-foreground" },
+  falling: { label: "Falling", icon: ArrowDownRight, className: "text-green-600" },
+  unknown: { label: "No trend data", icon: Minus, className: "text-muted-foreground" },
+}
+
+const PRIORITY_VARIANTS = {
+  high: "destructive",
+  medium: "default",
+  low: "secondary",
+} as const
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString()
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`
+}
+
+function IssueTrend({ issue }: { issue: InsightIssue }) {
+  const { label, icon: Icon, className } = TREND_LABELS[issue.trend]
+
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1 text-xs font-medium", className)}
+      title={`Mentioned in ${formatPercent(issue.mention_rate)} of feedback (previously ${formatPercent(issue.previous_mention_rate)})`}
+    >
+      <Icon className="h-3 w-3" />
+      {label}
+    </span>
+  )
+}
+
+/**
+ * Content of a stored report
+ */
+function ReportView({ report }: { report: InsightsReport }) {
+  const { report: content } = report
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {report.title} <span className="text-muted-foreground font-normal">v{report.version}</span>
+          </CardTitle>
+          <CardDescription>
+            {report.feedback_count} feedback items{content.truncated && " (most recent only)"}, generated{" "}
+            {formatDate(report.created_at)}
+            {report.model && ` with ${report.model}, prompt v${report.prompt_version ?? "?"}`}
+            {content.baseline &&
+              `. Trends compare against ${content.baseline.feedback_count} items from ${formatDate(
+                content.baseline.from
+              )} to ${formatDate(content.baseline.to)}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm leading-relaxed">{content.executive_summary}</p>
+        </CardContent>
+      </Card>
+
+      {content.recommendations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recommendations</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-3">
+              {content.recommendations.map((recommendation, index) => (
+                <li key={index} className="flex items-start gap-3 text-sm">
+                  <Badge variant={PRIORITY_VARIANTS[recommendation.priority]} className="shrink-0 capitalize">
+                    {recommendation.priority}
+                  </Badge>
+                  <span>
+                    {recommendation.recommendation}
+                    {recommendation.issues.length > 0 && (
+                      <span className="text-muted-foreground"> (issue {recommendation.issues.join(", ")})</span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Top Issues</CardTitle>
+          <CardDescription>Ranked by volume weighted by severity</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {content.issues.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No recurring issues were found.</p>
+          ) : (
+            <ol className="divide-y">
+              {content.issues.map((issue) => (
+                <li key={issue.rank} className="space-y-2 py-4 first:pt-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold">
+                      {issue.rank}. {issue.title}
+                    </span>
+                    <IssueTrend issue={issue} />
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span>{issue.feedback_count} feedback items</span>
+                    <span>· severity {issue.avg_severity.toFixed(2)}</span>
+                    {issue.topics.map((topic) => (
+                      <Badge key={topic} variant="outline">
+                        {topic}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-sm">{issue.description}</p>
+                  {issue.quotes.map((quote) => (
+                    <blockquote
+                      key={quote.feedback_id}
+                      className="border-l-2 pl-3 text-sm italic text-muted-foreground"
+                    >
+                      &ldquo;{quote.text}&rdquo;
+                    </blockquote>
+                  ))}
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+/**
+ * InsightsReports Component
+ *
+ * Lets users:
+ * - Generate a report for a date range or an upload
+ * - Browse stored reports and their versions
+ * - Read a report: executive summary, recommendations and ranked issues
+ */
+export function InsightsReports({ uploads, initialReports }: InsightsReportsProps) {
+  const { toast } = useToast()
+  const [scope, setScope] = useState(() => defaultScopeSelection(uploads))
+  const [reports, setReports] = useState(initialReports)
+  const [selected, setSelected] = useState<InsightsReport | null>(null)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [loadingId, setLoadingId] = useState<string | null>(null)
+
+  const generate = async () => {
+    setIsGenerating(true)
+
+    try {
+      const response = await fetch("/api/insights", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toScopeBody(scope)),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to generate report")
+      }
+
+      setReports((current) => [data.data, ...current])
+      setSelected(data.data)
+    } catch (error) {
+      toast({
+        title: "Could not generate report",
+        description: error instanceof Error ? error.message : "Failed to generate report",
+        variant: "destructive",
+      })
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const open = async (id: string) => {
+    setLoadingId(id)
+
+    try {
+      const response = await fetch(`/api/insights/${id}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load report")
+      }
+
+      setSelected(data.data)
+    } catch (error) {
+      toast({
+        title: "Could not load report",
+        description: error instanceof Error ? error.message : "Failed to load report",
+        variant: "destructive",
+      })
+    } finally {
+      setLoadingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>New Report</CardTitle>
+          <CardDescription>
+            Reports cover completely analyzed feedback, up to the 1,000 most recent items. Generating a report
+            for the same period or upload again adds a new version.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ScopePicker uploads={uploads} value={scope} onChange={setScope} />
+          <Button
+            onClick={generate}
+            disabled={isGenerating || !isScopeComplete(scope)}
+          >
+            <FileText className={cn("h-4 w-4 mr-2", isGenerating && "animate-pulse")} />
+            {isGenerating ? "Generating..." : "Generate report"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {reports.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Past Reports</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y">
+              {reports.map((report) => (
+                <li key={report.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+                  <span>
+                    <span className="font-medium">{report.title}</span>{" "}
+                    <span className="text-muted-foreground">
+                      v{report.version} · {report.feedback_count} items · {formatDate(report.created_at)}
+                    </span>
+                  </span>
+                  <Button
+                    variant={selected?.id === report.id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => open(report.id)}
+                    disabled={loadingId === report.id}
+                  >
+                    {selected?.id === report.id ? "Viewing" : "View"}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {selected && <ReportView report={selected} />}
+    </div>
+  )
+}
@@ -0,0 +1,278 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowRight, RotateCcw, Search } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+/**
+ * Changed field of a re-analyzed item
+ */
+interface FieldChange {
+  before: unknown
+  after: unknown
+}
+
+/**
+ * Re-analysis result of one feedback item from /api/feedback/reanalyze
+ */
+interface ReanalysisItem {
+  feedbackId: string
+  success: boolean
+  status?: "complete" | "partial" | "failed"
+  previous: {
+    model: string | null
+    prompt_version: number | null
+  }
+  changes?: Record<string, FieldChange>
+  error?: string
+}
+
+interface ReanalysisResult {
+  total: number
+  succeeded: number
+  failed: number
+  partial: number
+  changed: number
+  model: string
+  prompt_version: number
+  results: ReanalysisItem[]
+}
+
+interface Preview {
+  total: number
+  model: string
+  prompt_version: number
+  remaining: number
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  sentiment: "Sentiment",
+  sentiment_score: "Sentiment score",
+  emotion: "Emotion",
+  urgency: "Urgency",
+  severity_score: "Severity",
+  intents: "Intents",
+  topics: "Topics",
+  categories: "Categories",
+  summary: "Summary",
+  recommendation: "Recommendation",
+}
+
+/**
+ * Format a before/after value for display
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—"
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—"
+  return String(value)
+}
+
+/**
+ * Format the model and prompt version an analysis was produced with
+ */
+function formatVersion(model: string | null, promptVersion: number | null): string {
+  if (!model && promptVersion === null) return "unversioned"
+  return `${model || "unknown model"}, prompt v${promptVersion ?? "?"}`
+}
+
+/**
+ * ReanalysisPanel Component
+ *
+ * Lets users:
+ * - Select analyzed feedback by date, source, product, prompt version or
+ *   account instructions
+ * - Preview how many items match and the quota they would use
+ * - Re-analyze them with the current model and prompt
+ * - Review what changed (before/after) per item
+ */
+export function ReanalysisPanel() {
+  const { toast } = useToast()
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [source, setSource] = useState("")
+  const [productId, setProductId] = useState("")
+  const [beforePromptVersion, setBeforePromptVersion] = useState("")
+  const [staleInstructions, setStaleInstructions] = useState(false)
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [result, setResult] = useState<ReanalysisResult | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  /**
+   * Build the request body from the filter inputs
+   */
+  const buildFilters = () => ({
+    from: from || undefined,
+    to: to || undefined,
+    source: source.trim() || undefined,
+    productId: productId.trim() || undefined,
+    beforePromptVersion: beforePromptVersion ? parseInt(beforePromptVersion, 10) : undefined,
+    staleInstructions: staleInstructions || undefined,
+  })
+
+  /**
+   * Send the filters to the API, as a dry run or for real
+   */
+  const submit = async (dryRun: boolean) => {
+    setIsLoading(true)
+
+    try {
+      const response = await fetch("/api/feedback/reanalyze", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...buildFilters(), dryRun }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(
+          response.status === 402
+            ? `Not enough analyses left on your plan (${data.remaining} remaining)`
+            : data.error || "Failed to re-analyze feedback"
+        )
+      }
+
+      if (dryRun) {
+        setPreview(data.data)
+        setResult(null)
+      } else {
+        setResult(data.data)
+        setPreview(null)
+        toast({
+          title: "Re-analysis complete",
+          description: `${data.data.succeeded} of ${data.data.total} feedback items re-analyzed, ${data.data.changed} changed`,
+        })
+      }
+    } catch (error) {
+      toast({
+        title: dryRun ? "Could not preview re-analysis" : "Re-analysis failed",
+        description: error instanceof Error ? error.message : "Failed to re-analyze feedback",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const changedItems = result?.results.filter(
+    (item) => !item.success || (item.changes && Object.keys(item.changes).length > 0)
+  )
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Select Feedback</CardTitle>
+          <CardDescription>
+            All filters are optional. Each run re-analyzes the most recent matching items, up to one batch.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="space-y-1 text-sm">
+              <span className="font-medium">Received from</span>
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="font-medium">Received before</span>
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="font-medium">Source</span>
+              <Input placeholder="e.g. survey" value={source} onChange={(e) => setSource(e.target.value)} />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="font-medium">Product</span>
+              <Input placeholder="Product ID" value={productId} onChange={(e) => setProductId(e.target.value)} />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="font-medium">Analyzed before prompt version</span>
+              <Input
+                type="number"
+                min={1}
+                placeholder="e.g. 2"
+                value={beforePromptVersion}
+                onChange={(e) => setBeforePromptVersion(e.target.value)}
+              />
+            </label>
+          </div>
+          <label className="flex items-start gap-3 text-sm">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={staleInstructions}
+              onChange={(e) => setStaleInstructions(e.target.checked)}
+            />
+            <span>
+              <span className="font-medium">Analyzed with older account instructions</span>
+              <span className="block text-muted-foreground">
+                Only feedback analyzed before the context or rules in your settings last changed
+              </span>
+            </span>
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" onClick={() => submit(true)} disabled={isLoading}>
+              <Search className="h-4 w-4 mr-2" />
+              Preview
+            </Button>
+            {preview && (
+              <Button onClick={() => submit(false)} disabled={isLoading || preview.total === 0}>
+                <RotateCcw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+                Re-analyze {preview.total} item{preview.total === 1 ? "" : "s"}
+              </Button>
+            )}
+          </div>
+          {preview && (
+            <p className="text-sm text-muted-foreground">
+              {preview.total} matching feedback item{preview.total === 1 ? "" : "s"} will be analyzed with{" "}
+              {formatVersion(preview.model, preview.prompt_version)} and use up to {preview.total} of your{" "}
+              {preview.remaining} remaining analyses.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Changes</CardTitle>
+            <CardDescription>
+              {result.succeeded} re-analyzed with {formatVersion(result.model, result.prompt_version)}
+              {result.partial > 0 && ` (${result.partial} partial)`}, {result.failed} failed, {result.changed} changed
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!changedItems || changedItems.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No analysis changed.</p>
+            ) : (
+              <ul className="divide-y">
+                {changedItems.map((item) => (
+                  <li key={item.feedbackId} className="space-y-2 py-3">
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <span className="font-mono">{item.feedbackId}</span>
+                      <span>was {formatVersion(item.previous.model, item.previous.prompt_version)}</span>
+                      {!item.success && <Badge variant="destructive">Failed</Badge>}
+                      {item.status === "partial" && <Badge variant="outline">Partial analysis</Badge>}
+                    </div>
+                    {item.error && <p className="text-sm text-destructive">{item.error}</p>}
+                    {Object.entries(item.changes || {}).map(([field, change]) => (
+                      <div key={field} className="flex flex-wrap items-start gap-2 text-sm">
+                        <span className="w-32 shrink-0 font-medium">{FIELD_LABELS[field] || field}</span>
+                        <span className="text-muted-foreground line-through">{formatValue(change.before)}</span>
+                        <ArrowRight className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                        <span>{formatValue(change.after)}</span>
+                      </div>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+
+export interface UploadOption {
+  id: string
+  filename: string
+  row_count: number | null
+  created_at: string
+}
+
+/**
+ * A date range (`until` inclusive) or an upload, as picked in the form
+ */
+export interface ScopeSelection {
+  scope: "period" | "upload"
+  from: string
+  until: string
+  uploadId: string
+}
+
+interface ScopePickerProps {
+  uploads: UploadOption[]
+  value: ScopeSelection
+  onChange: (value: ScopeSelection) => void
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * YYYY-MM-DD of a date, `days` days from it
+ */
+function toDateInput(date: Date, days: number = 0): string {
+  return new Date(date.getTime() + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+/**
+ * The last 30 days, or the most recent upload once switched to uploads
+ */
+export function defaultScopeSelection(uploads: UploadOption[]): ScopeSelection {
+  const today = new Date()
+  return { scope: "period", from: toDateInput(today, -29), until: toDateInput(today), uploadId: uploads[0]?.id || "" }
+}
+
+export function isScopeComplete(value: ScopeSelection): boolean {
+  return value.scope === "period" ? Boolean(value.from && value.until) : Boolean(value.uploadId)
+}
+
+/**
+ * Scope as the API takes it: `until` is inclusive, the API takes the
+ * exclusive end of the period
+ */
+export function toScopeBody(value: ScopeSelection): { uploadId: string } | { from: string; to: string } {
+  return value.scope === "upload"
+    ? { uploadId: value.uploadId }
+    : { from: value.from, to: toDateInput(new Date(value.until), 1) }
+}
+
+/**
+ * ScopePicker Component
+ *
+ * Picks the feedback an insights report or theme run covers: a date range
+ * or one CSV upload.
+ */
+export function ScopePicker({ uploads, value, onChange }: ScopePickerProps) {
+  const update = (changes: Partial<ScopeSelection>) => onChange({ ...value, ...changes })
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Button
+          variant={value.scope === "period" ? "default" : "outline"}
+          size="sm"
+          onClick={() => update({ scope: "period" })}
+        >
+          Date range
+        </Button>
+        <Button
+          variant={value.scope === "upload" ? "default" : "outline"}
+          size="sm"
+          onClick={() => update({ scope: "upload" })}
+        >
+          Upload
+        </Button>
+      </div>
+      {value.scope === "period" ? (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="space-y-1 text-sm">
+            <span className="font-medium">From</span>
+            <Input type="date" value={value.from} onChange={(e) => update({ from: e.target.value })} />
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="font-medium">Until (inclusive)</span>
+            <Input type="date" value={value.until} onChange={(e) => update({ until: e.target.value })} />
+          </label>
+        </div>
+      ) : uploads.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No CSV uploads yet.</p>
+      ) : (
+        <label className="block space-y-1 text-sm">
+          <span className="font-medium">Upload</span>
+          <select
+            value={value.uploadId}
+            onChange={(e) => update({ uploadId: e.target.value })}
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          >
+            {uploads.map((upload) => (
+              <option key={upload.id} value={upload.id}>
+                {upload.filename} ({new Date(upload.created_at).toLocaleDateString()}
+                {upload.row_count !== null && `, ${upload.row_count} rows`})
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,281 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { RefreshCw, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+/**
+ * Taxonomy category from /api/taxonomy
+ */
+interface Category {
+  id: string
+  name: string
+  label: string
+  description: string | null
+  examples: string[]
+  parent_id: string | null
+}
+
+/**
+ * Order categories so subcategories follow their parent
+ */
+function sortByLabel(categories: Category[]): Category[] {
+  return [...categories].sort((a, b) => a.label.localeCompare(b.label))
+}
+
+/**
+ * TaxonomyManager Component
+ * 
+ * Lets users:
+ * - List their categories (subcategories indented under their parent)
+ * - Add categories with a description, example phrases and optional parent
+ * - Delete categories (and their subcategories)
+ * - Re-classify existing feedback after changing the taxonomy
+ */
+export function TaxonomyManager() {
+  const { toast } = useToast()
+  const [categories, setCategories] = useState<Category[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isReclassifying, setIsReclassifying] = useState(false)
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [examples, setExamples] = useState("")
+  const [parentId, setParentId] = useState("")
+
+  /**
+   * Fetch taxonomy from API
+   */
+  const fetchCategories = useCallback(async () => {
+    try {
+      const response = await fetch("/api/taxonomy")
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch categories")
+      }
+
+      setCategories(sortByLabel(result.data || []))
+    } catch (error) {
+      console.error("Error fetching categories:", error)
+      toast({
+        title: "Error loading categories",
+        description: error instanceof Error ? error.message : "Failed to load categories",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchCategories()
+  }, [fetchCategories])
+
+  /**
+   * Create a category from the form
+   */
+  const handleAdd = async () => {
+    setIsSaving(true)
+
+    try {
+      const response = await fetch("/api/taxonomy", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          description: description || null,
+          examples: examples
+            .split(",")
+            .map((example) => example.trim())
+            .filter(Boolean),
+          parent_id: parentId || null,
+        }),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to create category")
+      }
+
+      setName("")
+      setDescription("")
+      setExamples("")
+      setParentId("")
+      await fetchCategories()
+    } catch (error) {
+      toast({
+        title: "Could not add category",
+        description: error instanceof Error ? error.message : "Failed to create category",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Delete a category and its subcategories
+   */
+  const handleDelete = async (category: Category) => {
+    try {
+      const response = await fetch(`/api/taxonomy/${category.id}`, { method: "DELETE" })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to delete category")
+      }
+
+      await fetchCategories()
+    } catch (error) {
+      toast({
+        title: "Could not delete category",
+        description: error instanceof Error ? error.message : "Failed to delete category",
+        variant: "destructive",
+      })
+    }
+  }
+
+  /**
+   * Re-classify existing feedback into the current taxonomy
+   */
+  const handleReclassify = async () => {
+    setIsReclassifying(true)
+
+    try {
+      const response = await fetch("/api/taxonomy/reclassify", { method: "POST" })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to re-classify feedback")
+      }
+
+      toast({
+        title: "Feedback re-classified",
+        description: `${result.data.updated} of ${result.data.total} feedback items updated`,
+      })
+    } catch (error) {
+      toast({
+        title: "Re-classification failed",
+        description: error instanceof Error ? error.message : "Failed to re-classify feedback",
+        variant: "destructive",
+      })
+    } finally {
+      setIsReclassifying(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Category</CardTitle>
+          <CardDescription>
+            Descriptions and example phrases help the AI put feedback in the right category
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <Input
+              placeholder="Name (e.g. Shipping)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isSaving}
+            />
+            <select
+              aria-label="Parent category"
+              value={parentId}
+              onChange={(e) => setParentId(e.target.value)}
+              disabled={isSaving}
+              className="h-10 rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            >
+              <option value="">No parent (top-level)</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Input
+            placeholder="Description (optional)"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            disabled={isSaving}
+          />
+          <Input
+            placeholder="Example phrases, comma separated (optional)"
+            value={examples}
+            onChange={(e) => setExamples(e.target.value)}
+            disabled={isSaving}
+          />
+          <Button onClick={handleAdd} disabled={isSaving || !name.trim()}>
+            {isSaving ? "Adding..." : "Add Category"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle>Your Categories</CardTitle>
+            <CardDescription>
+              Existing feedback keeps its categories until you re-classify it
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleReclassify}
+            disabled={isReclassifying || isLoading}
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${isReclassifying ? "animate-spin" : ""}`} />
+            Re-classify Feedback
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading categories...</p>
+          ) : categories.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No categories yet. Without a taxonomy, feedback is only tagged with free-form topics.
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {categories.map((category) => (
+                <li
+                  key={category.id}
+                  className="flex items-start justify-between gap-4 py-3"
+                  style={{ paddingLeft: `${(category.label.split(" > ").length - 1) * 1.5}rem` }}
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium">{category.name}</p>
+                    {category.description && (
+                      <p className="text-sm text-muted-foreground">{category.description}</p>
+                    )}
+                    {category.examples.length > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        e.g. {category.examples.map((example) => `"${example}"`).join(", ")}
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(category)}
+                    aria-label={`Delete ${category.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
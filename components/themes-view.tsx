@@ -0,0 +1,223 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Network } from "lucide-react"
+import {
+  defaultScopeSelection,
+  isScopeComplete,
+  ScopePicker,
+  toScopeBody,
+  type UploadOption,
+} from "@/components/scope-picker"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import type { DiscoveredTheme, ThemeRun, ThemeRunSummary } from "@/lib/themes"
+
+interface ThemesViewProps {
+  uploads: UploadOption[]
+  initialRuns: ThemeRunSummary[]
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString()
+}
+
+function formatPolarity(score: number): string {
+  return `${score > 0 ? "+" : ""}${score.toFixed(2)}`
+}
+
+/**
+ * Text color of an average polarity (-1 to 1)
+ */
+function getPolarityStyle(score: number): string {
+  if (score >= 0.25) return "text-green-600"
+  if (score <= -0.25) return "text-red-600"
+  return "text-muted-foreground"
+}
+
+function ThemeCard({ theme }: { theme: DiscoveredTheme }) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">{theme.name}</CardTitle>
+        <CardDescription className="flex flex-wrap items-center gap-2">
+          <span>
+            {theme.size} feedback items ({Math.round(theme.share * 100)}%)
+          </span>
+          {theme.avg_sentiment !== null && (
+            <span className={cn("font-medium", getPolarityStyle(theme.avg_sentiment))}>
+              · sentiment {formatPolarity(theme.avg_sentiment)}
+            </span>
+          )}
+          {theme.topics.map((topic) => (
+            <Badge key={topic} variant="outline">
+              {topic}
+            </Badge>
+          ))}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <p className="text-sm">{theme.description}</p>
+        {theme.examples.map((example) => (
+          <blockquote key={example.feedback_id} className="border-l-2 pl-3 text-sm italic text-muted-foreground">
+            &ldquo;{example.text}&rdquo;
+          </blockquote>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Themes of a stored run
+ */
+function RunView({ run }: { run: ThemeRun }) {
+  const unclustered = run.feedback_count - run.clustered_count
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">{run.title}</h2>
+        <p className="text-sm text-muted-foreground">
+          {run.themes.length} themes in {run.feedback_count} feedback items
+          {run.truncated && " (most recent only)"}
+          {unclustered > 0 && `, ${unclustered} fit no theme`}. Discovered {formatDate(run.created_at)}
+          {run.model && ` with ${run.model}, prompt v${run.prompt_version ?? "?"}`}.
+        </p>
+      </div>
+      {run.themes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No themes were found.</p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {run.themes.map((theme, index) => (
+            <ThemeCard key={index} theme={theme} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * ThemesView Component
+ *
+ * Lets users:
+ * - Discover the themes of a date range or an upload
+ * - Browse earlier runs
+ * - Read the themes of a run: name, description, size, sentiment and examples
+ */
+export function ThemesView({ uploads, initialRuns }: ThemesViewProps) {
+  const { toast } = useToast()
+  const [scope, setScope] = useState(() => defaultScopeSelection(uploads))
+  const [runs, setRuns] = useState(initialRuns)
+  const [selected, setSelected] = useState<ThemeRun | null>(null)
+  const [isDiscovering, setIsDiscovering] = useState(false)
+  const [loadingId, setLoadingId] = useState<string | null>(null)
+
+  const discover = async () => {
+    setIsDiscovering(true)
+
+    try {
+      const response = await fetch("/api/themes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toScopeBody(scope)),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to discover themes")
+      }
+
+      setRuns((current) => [data.data, ...current])
+      setSelected(data.data)
+    } catch (error) {
+      toast({
+        title: "Could not discover themes",
+        description: error instanceof Error ? error.message : "Failed to discover themes",
+        variant: "destructive",
+      })
+    } finally {
+      setIsDiscovering(false)
+    }
+  }
+
+  const open = async (id: string) => {
+    setLoadingId(id)
+
+    try {
+      const response = await fetch(`/api/themes/${id}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load themes")
+      }
+
+      setSelected(data.data)
+    } catch (error) {
+      toast({
+        title: "Could not load themes",
+        description: error instanceof Error ? error.message : "Failed to load themes",
+        variant: "destructive",
+      })
+    } finally {
+      setLoadingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Discover Themes</CardTitle>
+          <CardDescription>
+            Groups feedback by meaning, covering up to the 1,000 most recent items (at least 10 are
+            needed). Duplicates are left out.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ScopePicker uploads={uploads} value={scope} onChange={setScope} />
+          <Button onClick={discover} disabled={isDiscovering || !isScopeComplete(scope)}>
+            <Network className={cn("h-4 w-4 mr-2", isDiscovering && "animate-pulse")} />
+            {isDiscovering ? "Discovering..." : "Discover themes"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {runs.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Past Runs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y">
+              {runs.map((run) => (
+                <li key={run.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+                  <span>
+                    <span className="font-medium">{run.title}</span>{" "}
+                    <span className="text-muted-foreground">
+                      {run.feedback_count} items · {formatDate(run.created_at)}
+                    </span>
+                  </span>
+                  <Button
+                    variant={selected?.id === run.id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => open(run.id)}
+                    disabled={loadingId === run.id}
+                  >
+                    {selected?.id === run.id ? "Viewing" : "View"}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {selected && <RunView run={selected} />}
+    </div>
+  )
+}
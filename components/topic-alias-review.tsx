@@ -0,0 +1,189 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowRight, Check } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+/**
+ * Topic alias from /api/topics/aliases
+ */
+interface TopicAlias {
+  id: string
+  alias: string
+  canonical: string
+  similarity: number | null
+  status: "suggested" | "accepted" | "overridden"
+}
+
+const STATUS_LABELS: Record<TopicAlias["status"], string> = {
+  suggested: "Suggested",
+  accepted: "Accepted",
+  overridden: "Edited",
+}
+
+/**
+ * TopicAliasReview Component
+ *
+ * Lets users:
+ * - List topics that were merged into a canonical topic, unreviewed first
+ * - Accept a suggested merge
+ * - Map a topic to a different canonical topic
+ * - Keep a topic separate (maps it to itself)
+ */
+export function TopicAliasReview() {
+  const { toast } = useToast()
+  const [aliases, setAliases] = useState<TopicAlias[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [savingAlias, setSavingAlias] = useState<string | null>(null)
+  const [overrides, setOverrides] = useState<Record<string, string>>({})
+
+  /**
+   * Fetch aliases from API
+   */
+  const fetchAliases = useCallback(async () => {
+    try {
+      const response = await fetch("/api/topics/aliases")
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch topic aliases")
+      }
+
+      setAliases(result.data || [])
+    } catch (error) {
+      console.error("Error fetching topic aliases:", error)
+      toast({
+        title: "Error loading topics",
+        description: error instanceof Error ? error.message : "Failed to load topic aliases",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchAliases()
+  }, [fetchAliases])
+
+  /**
+   * Accept the current mapping, or map the alias to another canonical topic
+   */
+  const handleSave = async (alias: string, canonical?: string) => {
+    setSavingAlias(alias)
+
+    try {
+      const response = await fetch("/api/topics/aliases", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ alias, canonical }),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update topic alias")
+      }
+
+      setOverrides((current) => ({ ...current, [alias]: "" }))
+      await fetchAliases()
+    } catch (error) {
+      toast({
+        title: "Could not update topic",
+        description: error instanceof Error ? error.message : "Failed to update topic alias",
+        variant: "destructive",
+      })
+    } finally {
+      setSavingAlias(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Merged Topics</CardTitle>
+        <CardDescription>
+          Changes apply to all existing feedback the next time the dashboard loads
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading topics...</p>
+        ) : aliases.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No topics have been merged yet. Merges appear here after similar topics are extracted.
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {aliases.map((entry) => {
+              const isSaving = savingAlias === entry.alias
+              const override = overrides[entry.alias] || ""
+
+              return (
+                <li key={entry.id} className="space-y-2 py-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{entry.alias}</span>
+                    <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">
+                      {entry.canonical === entry.alias ? "(kept separate)" : entry.canonical}
+                    </span>
+                    <Badge variant={entry.status === "suggested" ? "outline" : "secondary"}>
+                      {STATUS_LABELS[entry.status]}
+                    </Badge>
+                    {entry.similarity !== null && (
+                      <span className="text-xs text-muted-foreground">
+                        {Math.round(entry.similarity * 100)}% similar
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {entry.status === "suggested" && (
+                      <Button
+                        size="sm"
+                        onClick={() => handleSave(entry.alias)}
+                        disabled={isSaving}
+                      >
+                        <Check className="h-4 w-4 mr-2" />
+                        Accept
+                      </Button>
+                    )}
+                    {entry.canonical !== entry.alias && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleSave(entry.alias, entry.alias)}
+                        disabled={isSaving}
+                      >
+                        Keep separate
+                      </Button>
+                    )}
+                    <Input
+                      placeholder="Merge into another topic"
+                      value={override}
+                      onChange={(e) =>
+                        setOverrides((current) => ({ ...current, [entry.alias]: e.target.value }))
+                      }
+                      disabled={isSaving}
+                      className="h-9 max-w-xs"
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleSave(entry.alias, override.trim())}
+                      disabled={isSaving || !override.trim()}
+                    >
+                      Save
+                    </Button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -9,6 +9,7 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
+  Cell,
 } from "recharts"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { cn } from "@/lib/utils"
@@ -16,6 +17,15 @@ import { cn } from "@/lib/utils"
 export interface TopicData {
   topic: string
   count: number
+  /**
+   * Average per-topic polarity (-1 to 1) over the feedback mentioning the topic
+   */
+  netSentiment?: number
+  /**
+   * Number of mentions with positive / negative sentiment towards the topic
+   */
+  positive?: number
+  negative?: number
 }
 
 interface TopicsChartProps {
@@ -43,6 +53,42 @@ interface TopicsChartProps {
    * Chart height in pixels
    */
   height?: number
+  /**
+   * Color bars by net sentiment (green positive, red negative, gray neutral)
+   * for topics that have a netSentiment
+   */
+  colorBySentiment?: boolean
+}
+
+/**
+ * Net sentiment colors (match SENTIMENT_COLORS in sentiment-chart.tsx)
+ */
+const NET_SENTIMENT_COLORS = {
+  positive: "#22c55e", // green-500
+  negative: "#ef4444", // red-500
+  neutral: "#6b7280", // gray-500
+}
+
+/**
+ * Net sentiment at or beyond this magnitude counts as positive/negative
+ */
+const NET_SENTIMENT_THRESHOLD = 0.2
+
+/**
+ * Get bar color for a topic's net sentiment
+ */
+function getNetSentimentColor(netSentiment: number | undefined): string {
+  if (netSentiment === undefined) return "hsl(var(--primary))"
+  if (netSentiment >= NET_SENTIMENT_THRESHOLD) return NET_SENTIMENT_COLORS.positive
+  if (netSentiment <= -NET_SENTIMENT_THRESHOLD) return NET_SENTIMENT_COLORS.negative
+  return NET_SENTIMENT_COLORS.neutral
+}
+
+/**
+ * Format net sentiment with an explicit sign (e.g. "+0.45")
+ */
+function formatNetSentiment(netSentiment: number): string {
+  return `${netSentiment > 0 ? "+" : ""}${netSentiment.toFixed(2)}`
 }
 
 /**
@@ -59,6 +105,11 @@ function CustomTooltip({ active, payload, label }: any) {
         <p className="text-sm text-muted-foreground">
           {count} feedback {count !== 1 ? "items" : "item"}
         </p>
+        {data.netSentiment !== undefined && (
+          <p className="text-sm text-muted-foreground">
+            Net sentiment {formatNetSentiment(data.netSentiment)} ({data.positive ?? 0} positive, {data.negative ?? 0} negative)
+          </p>
+        )}
       </div>
     )
   }
@@ -77,7 +128,8 @@ function formatTopicName(topic: string, maxLength: number = 30): string {
  * TopicsChart Component
  * 
  * Displays top topics as a horizontal bar chart
- * with tooltips and accessible legend
+ * with tooltips and accessible legend.
+ * With colorBySentiment, bars show which topics drive negativity.
  */
 export function TopicsChart({
   data,
@@ -86,6 +138,7 @@ export function TopicsChart({
   description = "Most frequently mentioned topics in feedback",
   maxTopics = 10,
   height = 400,
+  colorBySentiment = false,
 }: TopicsChartProps) {
   // Sort by count, take top N, and format for chart
   const chartData = data
@@ -96,6 +149,9 @@ export function TopicsChart({
       topic: formatTopicName(item.topic, 25),
       count: item.count,
       fullTopic: item.topic, // Keep full topic for tooltip
+      netSentiment: item.netSentiment,
+      positive: item.positive,
+      negative: item.negative,
     }))
 
   const total = data.reduce((sum, item) => sum + item.count, 0)
@@ -152,12 +208,33 @@ export function TopicsChart({
                 fill="hsl(var(--primary))"
                 radius={[0, 4, 4, 0]}
                 name="Count"
-              />
+              >
+                {colorBySentiment &&
+                  chartData.map((entry, index) => (
+                    <Cell key={`cell-${index}`} fill={getNetSentimentColor(entry.netSentiment)} />
+                  ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
           <div className="mt-4 text-center text-sm text-muted-foreground" aria-live="polite">
             Showing top {chartData.length} of {data.length} topics • Total: {total} mentions
           </div>
+          {colorBySentiment && (
+            <div className="mt-2 flex justify-center gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: NET_SENTIMENT_COLORS.positive }} />
+                Positive
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: NET_SENTIMENT_COLORS.neutral }} />
+                Neutral
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: NET_SENTIMENT_COLORS.negative }} />
+                Negative
+              </span>
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -192,7 +192,10 @@ export function UploadBox({ onAnalyzeComplete }: UploadBoxProps = {}) {
 
         toast({
           title: "Analysis complete",
-          description: `Successfully analyzed ${data.succeeded || 0} feedback item(s)`,
+          description: (data.duplicates
+            ? `Successfully analyzed ${data.succeeded - data.duplicates} new feedback item(s); ${data.duplicates} duplicate(s) re-used an existing analysis`
+            : `Successfully analyzed ${data.succeeded || 0} feedback item(s)`) +
+            (data.partial ? `; ${data.partial} partially analyzed item(s) are excluded from charts` : ""),
         })
 
         // Reset form on success
@@ -2,6 +2,8 @@
 // Add custom matchers or global test setup here
 
 // Mock environment variables for tests
+// Use the deterministic offline LLM provider unless a test opts into another one
+process.env.LLM_PROVIDER = 'local'
 process.env.OPENAI_API_KEY = 'test-api-key'
 process.env.OPENAI_EMBED_MODEL = 'text-embedding-3-small'
 process.env.OPENAI_LLM_MODEL = 'gpt-4o-mini'
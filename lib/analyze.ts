@@ -1,6 +1,56 @@
-import { insertFeedback, insertAnalysis, updateFeedbackEmbedding } from '@/lib/supabase'
-import { analyzeFeedback } from '@/lib/langchain'
-import { embedText } from '@/lib/openai'
+import { randomUUID } from 'crypto'
+import {
+  insertFeedback,
+  deleteFeedback,
+  insertAnalysis,
+  insertTopicSentiments,
+  updateFeedbackEmbedding,
+  updateFeedbackEmbeddings,
+  updateFeedbackTranslation,
+  getFeedbackForReclassification,
+  updateAnalysisCategories,
+  replaceAnalysis,
+  replaceTopicSentiments,
+  searchSimilarFeedback,
+  type AnalysisStatus,
+  type AnalysisSubtaskStatuses,
+  type FeedbackAnalysis,
+  type FeedbackForReanalysis,
+} from '@/lib/supabase'
+import {
+  analyzeFeedback,
+  classifyFeedback,
+  detectAndTranslate,
+  generateEmbedding,
+  generateEmbeddings,
+  getAnalysisVersion,
+  type TopicSentiment,
+} from '@/lib/langchain'
+import { hashInstructions } from '@/lib/prompts'
+import { processConcurrently } from '@/lib/helpers'
+import { isVaultConfigured, redactPII, storeRedactedValues, type RedactionCounts } from '@/lib/redaction'
+import { getAccountSettings, toPromptInstructions } from '@/lib/settings'
+import { getTaxonomy, toClassificationCategories } from '@/lib/taxonomy'
+import { assignCanonicalTopics } from '@/lib/topics'
+import {
+  getEntityDictionary,
+  insertFeedbackEntities,
+  normalizeEntities,
+  replaceFeedbackEntities,
+} from '@/lib/entities'
+import { ProviderError, type ProviderErrorKind } from '@/lib/resilience'
+import { allocateUsage, withUsageTracking, type UsageRecord } from '@/lib/usage'
+import { storeUsageRecords, type FeedbackUsage } from '@/lib/costs'
+import {
+  computeContentHash,
+  copyFeedbackAnalysis,
+  findFeedbackByContentHash,
+  flagNearDuplicates,
+  NEAR_DUPLICATE_THRESHOLD,
+  type DuplicateHandling,
+  type DuplicateSource,
+  type NearDuplicateMatch,
+} from '@/lib/dedupe'
 
 /**
  * Shared types for analysis
@@ -11,83 +61,164 @@ export interface FeedbackItem {
   source?: string
   productId?: string
   username?: string
+  /**
+   * When the customer gave the feedback (ISO 8601), if the import knows it,
+   * e.g. the ticket date of a historical export. Stored as `submitted_at`.
+   */
+  submittedAt?: string
 }
 
 export interface ProcessedItemResult {
   index: number
   success: boolean
   feedbackId?: string
+  language?: string
+  /** Number of PII occurrences masked before the text left the system */
+  redactions?: RedactionCounts
+  /**
+   * Set when the text is identical to already analyzed feedback: the analysis
+   * is that of the original, and the item is not charged against the quota
+   */
+  duplicate?: {
+    of: string
+    action: DuplicateHandling
+  }
+  /**
+   * Set when the text closely matches earlier feedback (analyzed and charged
+   * as usual, but grouped with the original on the dashboard)
+   */
+  nearDuplicate?: NearDuplicateMatch
+  /** Class of the provider failure when the analysis request failed */
+  errorKind?: ProviderErrorKind
+  /**
+   * Outcome of the analysis (see AnalysisStatus). Partial and failed
+   * analyses are excluded from charts and not charged against the quota.
+   */
+  status?: AnalysisStatus
+  /** Outcome of each pipeline step */
+  subtasks?: AnalysisSubtaskStatuses
   analysis?: {
     sentiment: string
+    /** Polarity from -1 (very negative) to 1 (very positive) */
     sentiment_score?: number
+    /** Model confidence in the sentiment, from 0 to 1 */
+    confidence_score?: number
+    emotion: string
+    urgency: string
+    severity_score: number
+    /** What the customer wants, primary intent first */
+    intents: string[]
+    /** Free-form topics, kept as secondary tags next to the categories */
     topics: string[]
+    topic_sentiments: TopicSentiment[]
+    /** Categories of the account's taxonomy (empty without a taxonomy) */
+    categories: string[]
     summary: string
     recommendation: string
   }
   error?: string
 }
 
+type ResultAnalysis = NonNullable<ProcessedItemResult['analysis']>
+
 /**
- * Concurrency limiter - processes promises with a maximum concurrency limit
+ * Convert a stored analysis to the shape returned for processed items
  */
-async function processConcurrently<T, R>(
-  items: T[],
-  processor: (item: T, index: number) => Promise<R>,
-  concurrency: number
-): Promise<R[]> {
-  const results: R[] = []
-  const executing: Promise<void>[] = []
-
-  for (let index = 0; index < items.length; index++) {
-    const item = items[index]
-    
-    const promise = processor(item, index).then((result) => {
-      results[index] = result
-    })
-
-    executing.push(promise)
+function toResultAnalysis(
+  analysis: FeedbackAnalysis,
+  topicSentiments: TopicSentiment[]
+): ResultAnalysis {
+  return {
+    sentiment: analysis.sentiment || 'neutral',
+    sentiment_score: analysis.sentiment_score ?? undefined,
+    confidence_score: analysis.confidence_score ?? undefined,
+    emotion: analysis.emotion || 'neutral',
+    urgency: analysis.urgency || 'low',
+    severity_score: analysis.severity_score ?? 0,
+    intents: analysis.intents || [],
+    topics: analysis.topics || [],
+    topic_sentiments: topicSentiments,
+    categories: analysis.categories || [],
+    summary: analysis.summary || '',
+    recommendation: analysis.recommendation || '',
+  }
+}
 
-    if (executing.length >= concurrency) {
-      await Promise.race(executing)
-      executing.splice(
-        executing.findIndex((p) => p === promise),
-        1
-      )
-    }
+/**
+ * Overall status of an analysis from the outcome of its steps
+ *
+ * The analysis step itself decides between failed and the rest; any other
+ * failed step makes the analysis partial.
+ *
+ * @param subtasks - Outcome of each pipeline step
+ * @returns 'failed', 'partial' or 'complete'
+ */
+export function deriveAnalysisStatus(subtasks: AnalysisSubtaskStatuses): AnalysisStatus {
+  if (subtasks.analysis !== 'ok') {
+    return 'failed'
   }
 
-  await Promise.all(executing)
-  return results
+  return Object.values(subtasks).includes('failed') ? 'partial' : 'complete'
 }
 
 /**
  * Analyze feedback items in batch
  * 
  * This function handles the core analysis logic:
+ * 0. Redacts PII so raw personal data never reaches the LLM or embedding provider
+ *    (and, if the account opted in, is not stored either), and finds exact
+ *    duplicates of already analyzed feedback by content hash
  * 1. Inserts feedback records into database
- * 2. Generates and stores embeddings
- * 3. Runs AI analysis with concurrency control
- * 4. Stores analysis results
+ * 2. Detects the language and stores an English translation (no LLM call for
+ *    plainly English text)
+ * 3. Generates and stores embeddings (of the English text), and links
+ *    near-duplicates of earlier feedback by embedding similarity
+ * 4. Runs AI analysis on the English text with concurrency control, and
+ *    classifies it into the account's taxonomy if one is defined
+ * 5. Stores analysis results, per-topic sentiment and named entities
+ *    (normalized with the account's entity dictionary) with the outcome of every
+ *    step (complete, partial or failed), the model, prompt version and a hash
+ *    of the account instructions, then merges new topics into the account's
+ *    canonical topics
+ * 6. Skips, links or re-uses the analysis of duplicates (account setting,
+ *    see lib/dedupe.ts) without any provider calls
+ * 
+ * Anomaly detection is not part of the batch: it runs on its own request
+ * (POST /api/anomalies, see lib/anomalies.ts) so uploads do not wait for it.
+ * 
+ * Stored feedback and its LLM usage are tagged with the upload ID of the
+ * batch (the `uploads` row of a CSV upload, or a new ID per request).
  * 
  * @param userId - User ID from authentication
  * @param items - Array of feedback items to analyze
+ * @param options - Upload the batch belongs to
  * @returns Analysis results for each item
+ * @throws {AccountSettingsError} If the account settings cannot be loaded;
+ *   nothing is stored, since redaction before storage may be on
+ * @throws {Error} If the account redacts before storage but PII_VAULT_KEY is
+ *   not set; nothing is stored, since the original values would be lost
  */
 export async function analyzeFeedbackBatch(
   userId: string,
-  items: FeedbackItem[]
+  items: FeedbackItem[],
+  options: { uploadId?: string } = {}
 ): Promise<{
   success: boolean
   message: string
+  uploadId: string
   total: number
   succeeded: number
   failed: number
+  partial: number
+  duplicates: number
   warning?: string
   results: ProcessedItemResult[]
 }> {
   const MAX_ITEMS_PER_BATCH = 200
+  const TRANSLATION_CONCURRENCY = 3
   const EMBEDDING_CONCURRENCY = 5
   const ANALYSIS_CONCURRENCY = 3
+  const DUPLICATE_CONCURRENCY = 5
 
   // Validate batch size
   if (items.length === 0) {
@@ -106,39 +237,130 @@ export async function analyzeFeedbackBatch(
     if (!item.text || typeof item.text !== 'string' || item.text.trim().length === 0) {
       throw new Error(`Invalid item at index ${i}: text is required and must be a non-empty string`)
     }
+    if (
+      item.submittedAt !== undefined &&
+      (typeof item.submittedAt !== 'string' || isNaN(Date.parse(item.submittedAt)))
+    ) {
+      throw new Error(`Invalid item at index ${i}: submittedAt must be an ISO 8601 date`)
+    }
   }
 
   // Results array to track per-item status
   const results: ProcessedItemResult[] = []
+  const uploadId = options.uploadId || randomUUID()
+
+  // Step 0: Mask PII; everything sent to the providers below uses the redacted text
+  const [settings, taxonomy, dictionary] = await Promise.all([
+    getAccountSettings(userId),
+    getTaxonomy(userId),
+    getEntityDictionary(userId),
+  ])
+  if (settings.redact_before_storage && !isVaultConfigured()) {
+    throw new Error('PII_VAULT_KEY must be set to store redacted feedback')
+  }
 
-  // Step 1: Insert all feedback records into database first
-  console.log(`Inserting ${items.length} feedback records...`)
+  const taxonomyCategories = toClassificationCategories(taxonomy)
+  const instructions = toPromptInstructions(settings)
+  const redacted = items.map((item) => redactPII(item.text))
+  const storedTexts = items.map((item, index) =>
+    settings.redact_before_storage ? redacted[index].text : item.text
+  )
+
+  // Identical text that was already analyzed (or appears earlier in this batch)
+  // is resolved in step 6 instead of being processed again
+  const contentHashes = storedTexts.map((text) => computeContentHash(text))
+  const existingSources = await findFeedbackByContentHash(userId, contentHashes)
+  const duplicates = new Map<number, { source?: DuplicateSource; firstIndex?: number }>()
+  const firstIndexByHash = new Map<string, number>()
+
+  contentHashes.forEach((hash, index) => {
+    const source = existingSources.get(hash)
+
+    if (source) {
+      duplicates.set(index, { source })
+    } else if (firstIndexByHash.has(hash)) {
+      duplicates.set(index, { firstIndex: firstIndexByHash.get(hash) })
+    } else {
+      firstIndexByHash.set(hash, index)
+    }
+  })
+
+  /**
+   * Insert a feedback record (and vault its PII if the account redacts before storage)
+   *
+   * @throws {Error} If the PII cannot be vaulted (the record is deleted again)
+   */
+  const storeFeedback = async (index: number, duplicateOf?: string) => {
+    const item = items[index]
+    const feedback = await insertFeedback(userId, storedTexts[index], {
+      rating: item.rating,
+      source: item.source,
+      product_id: item.productId,
+      username: item.username,
+      content_hash: contentHashes[index],
+      duplicate_of: duplicateOf,
+      duplicate_similarity: duplicateOf ? 1 : undefined,
+      submitted_at: item.submittedAt,
+      upload_id: uploadId,
+    })
+
+    // Keep the originals for authorized users; without them the item fails,
+    // since the stored text is already redacted
+    if (feedback && settings.redact_before_storage) {
+      const stored = await storeRedactedValues(userId, feedback.id, redacted[index].redactions)
+
+      if (!stored) {
+        await deleteFeedback(userId, feedback.id)
+        throw new Error('Failed to store redacted values in the PII vault')
+      }
+    }
+
+    return feedback
+  }
+
+  // Step 1: Insert all new feedback records into database first
+  console.log(`Inserting ${items.length - duplicates.size} feedback records...`)
   
   const feedbackRecords = await Promise.all(
     items.map(async (item, index) => {
+      if (duplicates.has(index)) {
+        return null
+      }
+
+      const { text: redactedText, counts } = redacted[index]
+
       try {
-        const feedback = await insertFeedback(userId, item.text, {
-          rating: item.rating,
-          source: item.source,
-          product_id: item.productId,
-          username: item.username,
-        })
+        const feedback = await storeFeedback(index)
 
         if (!feedback) {
           results[index] = {
             index,
             success: false,
+            redactions: counts,
             error: 'Failed to insert feedback into database',
           }
           return null
         }
 
-        return { feedback, item, index }
+        // analysisText is replaced by the English translation in step 2
+        return {
+          feedback,
+          item,
+          index,
+          language: undefined as string | undefined,
+          redactedText,
+          redactions: counts,
+          analysisText: redactedText,
+          embedding: undefined as number[] | undefined,
+          subtasks: {} as AnalysisSubtaskStatuses,
+          usage: [] as UsageRecord[],
+        }
       } catch (error) {
         console.error(`Error inserting feedback at index ${index}:`, error)
         results[index] = {
           index,
           success: false,
+          redactions: counts,
           error: error instanceof Error ? error.message : 'Unknown error during insertion',
         }
         return null
@@ -149,61 +371,238 @@ export async function analyzeFeedbackBatch(
   // Filter out failed insertions
   const successfulInsertions = feedbackRecords.filter((record) => record !== null)
 
-  if (successfulInsertions.length === 0) {
+  if (successfulInsertions.length === 0 && duplicates.size === 0) {
     return {
       success: false,
       message: 'All feedback insertions failed',
+      uploadId,
       total: results.length,
       succeeded: 0,
       failed: results.length,
+      partial: 0,
+      duplicates: 0,
       results,
     }
   }
 
-  console.log(`Successfully inserted ${successfulInsertions.length}/${items.length} feedback records`)
+  console.log(
+    `Successfully inserted ${successfulInsertions.length}/${items.length - duplicates.size} feedback records`
+  )
+
+  // Step 2: Detect language and translate to English with concurrency control
+  console.log('Detecting languages...')
 
-  // Step 2: Generate and store embeddings with concurrency control
-  console.log('Generating embeddings...')
-  
   await processConcurrently(
     successfulInsertions,
     async (record) => {
       try {
-        const embedding = await embedText(record.item.text)
-        const updated = await updateFeedbackEmbedding(record.feedback.id, embedding)
-        
+        const { language, translation } = await withUsageTracking(record.usage, () =>
+          detectAndTranslate(record.redactedText, instructions)
+        )
+        record.language = language
+        record.analysisText = translation || record.redactedText
+
+        const updated = await updateFeedbackTranslation(record.feedback.id, language, translation)
+
         if (!updated) {
-          console.warn(`Failed to update embedding for feedback ${record.feedback.id}`)
+          console.warn(`Failed to store translation for feedback ${record.feedback.id}`)
         }
+        record.subtasks.translation = updated ? 'ok' : 'failed'
       } catch (error) {
-        console.error(`Error generating embedding for feedback ${record.feedback.id}:`, error)
-        // Non-critical: continue even if embedding fails
+        console.error(`Error translating feedback ${record.feedback.id}:`, error)
+        // Non-critical: analyze the untranslated text if translation fails
+        record.subtasks.translation = 'failed'
       }
     },
-    EMBEDDING_CONCURRENCY
+    TRANSLATION_CONCURRENCY
   )
 
+  console.log('Language detection complete')
+
+  // Step 3: Generate and store embeddings in batched requests, falling back
+  // to one request per item (with concurrency control) if the batch fails
+  console.log('Generating embeddings...')
+  
+  let batchEmbedded = false
+
+  if (successfulInsertions.length > 0) {
+    // The batched requests are shared: split their usage by text length
+    const batchUsage: UsageRecord[] = []
+    const texts = successfulInsertions.map((record) => record.analysisText)
+
+    try {
+      const embeddings = await withUsageTracking(batchUsage, () => generateEmbeddings(texts))
+      const updated = await updateFeedbackEmbeddings(
+        successfulInsertions.map((record, i) => ({ id: record.feedback.id, embedding: embeddings[i] }))
+      )
+
+      if (updated) {
+        successfulInsertions.forEach((record, i) => {
+          record.embedding = embeddings[i]
+          record.subtasks.embedding = 'ok'
+        })
+        batchEmbedded = true
+      } else {
+        console.warn('Failed to store batched embeddings, retrying per item')
+      }
+    } catch (error) {
+      console.warn('Batched embedding failed, retrying per item:', error)
+    }
+
+    allocateUsage(batchUsage, texts.map((text) => text.length)).forEach((usage, i) => {
+      successfulInsertions[i].usage.push(...usage)
+    })
+  }
+
+  if (!batchEmbedded) {
+    await processConcurrently(
+      successfulInsertions,
+      async (record) => {
+        try {
+          const embedding = await withUsageTracking(record.usage, () => generateEmbedding(record.analysisText))
+          const updated = await updateFeedbackEmbedding(record.feedback.id, embedding)
+          
+          if (!updated) {
+            console.warn(`Failed to update embedding for feedback ${record.feedback.id}`)
+          } else {
+            record.embedding = embedding
+          }
+          record.subtasks.embedding = updated ? 'ok' : 'failed'
+        } catch (error) {
+          console.error(`Error generating embedding for feedback ${record.feedback.id}:`, error)
+          // Non-critical: continue even if embedding fails
+          record.subtasks.embedding = 'failed'
+        }
+      },
+      EMBEDDING_CONCURRENCY
+    )
+  }
+
   console.log('Embeddings generation complete')
 
-  // Step 3: Analyze feedback with AI and store results (with concurrency control)
+  // Link near-duplicates to the closest earlier feedback: stored before this
+  // batch, or earlier in it (all embeddings of the batch are stored by now).
+  // Non-critical: the feedback is analyzed either way.
+  const batchPositions = new Map(successfulInsertions.map((record) => [record.feedback.id, record.index]))
+  const nearMatches = new Map<string, NearDuplicateMatch>()
+
+  await processConcurrently(
+    successfulInsertions.filter((record) => record.embedding),
+    async (record) => {
+      try {
+        const similar = await searchSimilarFeedback(record.embedding!, userId, NEAR_DUPLICATE_THRESHOLD, 5)
+        const match = similar.find((candidate) => {
+          const position = batchPositions.get(candidate.id)
+          return candidate.id !== record.feedback.id && (position === undefined || position < record.index)
+        })
+
+        if (match) {
+          nearMatches.set(record.feedback.id, { duplicate_of: match.id, similarity: match.similarity })
+        }
+      } catch (error) {
+        console.warn(`Failed to search near-duplicates of feedback ${record.feedback.id}:`, error)
+      }
+    },
+    EMBEDDING_CONCURRENCY
+  )
+
+  const nearDuplicates = await flagNearDuplicates(userId, nearMatches)
+
+  if (nearDuplicates.size > 0) {
+    console.log(`Flagged ${nearDuplicates.size} near-duplicate feedback records`)
+  }
+
+  // Step 4: Analyze feedback with AI and store results (with concurrency control)
   console.log('Running AI analysis...')
+  const version = { ...getAnalysisVersion(), instructions_hash: hashInstructions(instructions) }
   
   await processConcurrently(
     successfulInsertions,
     async (record) => {
-      const { feedback, index } = record
+      const { feedback, index, language, redactions, subtasks } = record
       
       try {
-        // Run AI analysis
-        const analysisResult = await analyzeFeedback(record.item.text)
+        // Run AI analysis; on failure a failed analysis is recorded so the
+        // feedback can be told apart from feedback that was never processed
+        let analysisResult: Awaited<ReturnType<typeof analyzeFeedback>>
+        try {
+          analysisResult = await withUsageTracking(record.usage, () =>
+            analyzeFeedback(record.analysisText, instructions)
+          )
+          subtasks.analysis = 'ok'
+        } catch (error) {
+          console.error(`Error analyzing feedback ${feedback.id}:`, error)
+          subtasks.analysis = 'failed'
+          await insertAnalysis(feedback.id, { status: 'failed', subtask_status: subtasks, ...version })
+          results[index] = {
+            index,
+            success: false,
+            feedbackId: feedback.id,
+            language,
+            redactions,
+            status: 'failed',
+            subtasks,
+            error: error instanceof Error ? error.message : 'Unknown error during analysis',
+            errorKind: error instanceof ProviderError ? error.kind : undefined,
+          }
+          return
+        }
+
+        // Map onto the account's taxonomy (non-critical: uncategorized until re-classified)
+        let categories: string[] = []
+        try {
+          categories = await withUsageTracking(record.usage, () =>
+            classifyFeedback(record.analysisText, taxonomyCategories, instructions)
+          )
+          subtasks.classification = taxonomyCategories.length > 0 ? 'ok' : 'skipped'
+        } catch (error) {
+          console.warn(`Failed to classify feedback ${feedback.id}:`, error)
+          subtasks.classification = 'failed'
+        }
+
+        // Store per-topic sentiment (non-critical: the analysis is still saved)
+        if (analysisResult.topic_sentiments.length === 0) {
+          subtasks.topic_sentiments = 'skipped'
+        } else {
+          const topicSentiments = await insertTopicSentiments(feedback.id, analysisResult.topic_sentiments)
+
+          if (!topicSentiments) {
+            console.warn(`Failed to save topic sentiments for feedback ${feedback.id}`)
+          }
+          subtasks.topic_sentiments = topicSentiments ? 'ok' : 'failed'
+        }
+
+        // Store named entities (non-critical: the analysis is still saved)
+        const entities = normalizeEntities(analysisResult.entities, record.analysisText, dictionary)
+        if (entities.length === 0) {
+          subtasks.entities = 'skipped'
+        } else {
+          const storedEntities = await insertFeedbackEntities(feedback.id, entities)
+
+          if (!storedEntities) {
+            console.warn(`Failed to save entities for feedback ${feedback.id}`)
+          }
+          subtasks.entities = storedEntities ? 'ok' : 'failed'
+        }
+
+        const status = deriveAnalysisStatus(subtasks)
 
         // Insert analysis results
         const analysis = await insertAnalysis(feedback.id, {
           sentiment: analysisResult.sentiment,
           sentiment_score: analysisResult.sentiment_score,
+          confidence_score: analysisResult.confidence_score,
+          emotion: analysisResult.emotion,
+          urgency: analysisResult.urgency,
+          severity_score: analysisResult.severity_score,
+          intents: analysisResult.intents,
           topics: analysisResult.topics,
+          categories,
           summary: analysisResult.summary,
           recommendation: analysisResult.recommendation,
+          status,
+          subtask_status: subtasks,
+          ...version,
         })
 
         if (!analysis) {
@@ -211,6 +610,8 @@ export async function analyzeFeedbackBatch(
             index,
             success: false,
             feedbackId: feedback.id,
+            language,
+            redactions,
             error: 'Failed to save analysis results',
           }
           return
@@ -221,10 +622,22 @@ export async function analyzeFeedbackBatch(
           index,
           success: true,
           feedbackId: feedback.id,
+          language,
+          redactions,
+          status,
+          subtasks,
+          nearDuplicate: nearDuplicates.get(feedback.id),
           analysis: {
             sentiment: analysis.sentiment || 'neutral',
-            sentiment_score: analysis.sentiment_score || undefined,
+            sentiment_score: analysis.sentiment_score ?? undefined,
+            confidence_score: analysis.confidence_score ?? undefined,
+            emotion: analysis.emotion || analysisResult.emotion,
+            urgency: analysis.urgency || analysisResult.urgency,
+            severity_score: analysis.severity_score ?? analysisResult.severity_score,
+            intents: analysis.intents || analysisResult.intents,
             topics: analysis.topics || [],
+            topic_sentiments: analysisResult.topic_sentiments,
+            categories: analysis.categories || categories,
             summary: analysis.summary || '',
             recommendation: analysis.recommendation || '',
           },
@@ -235,7 +648,10 @@ export async function analyzeFeedbackBatch(
           index,
           success: false,
           feedbackId: feedback.id,
+          language,
+          redactions,
           error: error instanceof Error ? error.message : 'Unknown error during analysis',
+          errorKind: error instanceof ProviderError ? error.kind : undefined,
         }
       }
     },
@@ -244,45 +660,487 @@ export async function analyzeFeedbackBatch(
 
   console.log('AI analysis complete')
 
+  // Step 5: Merge new topic strings into the account's canonical topics
+  // (non-critical: unmerged topics are counted as they are)
+  const analyzedTopics = results.flatMap((r) => (r.success && r.analysis ? r.analysis.topics : []))
+  const topicUsage: UsageRecord[] = []
+
+  try {
+    await withUsageTracking(topicUsage, () => assignCanonicalTopics(userId, analyzedTopics))
+  } catch (error) {
+    console.warn('Failed to assign canonical topics:', error)
+  }
+
+  // Record the tokens and cost of every provider request, per feedback and
+  // for the batch as a whole (topic embeddings belong to no single feedback;
+  // non-critical: the analyses are saved)
+  const usageStored = await storeUsageRecords(userId, [
+    ...successfulInsertions.map((record) => ({ feedbackId: record.feedback.id, uploadId, records: record.usage })),
+    { uploadId, records: topicUsage },
+  ])
+
+  if (!usageStored) {
+    console.warn(`Failed to store LLM usage of upload ${uploadId}`)
+  }
+
+  // Step 6: Resolve duplicates against their original's analysis (no provider calls)
+  if (duplicates.size > 0) {
+    console.log(`Handling ${duplicates.size} duplicate items (${settings.duplicate_handling})...`)
+
+    await processConcurrently(
+      Array.from(duplicates.entries()),
+      async ([index, { source, firstIndex }]) => {
+        const { counts } = redacted[index]
+        const original = source
+          ? {
+              feedbackId: source.feedback_id,
+              language: source.language || undefined,
+              status: source.analysis.status,
+              analysis: toResultAnalysis(source.analysis, source.topic_sentiments),
+            }
+          : results[firstIndex!]
+
+        if (!original?.feedbackId || !original.analysis) {
+          results[index] = {
+            index,
+            success: false,
+            redactions: counts,
+            error: `Duplicate of item ${firstIndex}, which could not be analyzed`,
+          }
+          return
+        }
+
+        const duplicate = { of: original.feedbackId, action: settings.duplicate_handling }
+
+        try {
+          let feedbackId = original.feedbackId
+
+          if (settings.duplicate_handling !== 'skip') {
+            const feedback = await storeFeedback(index, original.feedbackId)
+
+            if (!feedback) {
+              results[index] = {
+                index,
+                success: false,
+                redactions: counts,
+                duplicate,
+                error: 'Failed to insert feedback into database',
+              }
+              return
+            }
+
+            feedbackId = feedback.id
+
+            if (
+              settings.duplicate_handling === 'reuse' &&
+              !(await copyFeedbackAnalysis(original.feedbackId, feedback.id))
+            ) {
+              results[index] = {
+                index,
+                success: false,
+                feedbackId,
+                redactions: counts,
+                duplicate,
+                error: 'Failed to copy analysis of the original feedback',
+              }
+              return
+            }
+          }
+
+          results[index] = {
+            index,
+            success: true,
+            feedbackId,
+            language: original.language,
+            redactions: counts,
+            duplicate,
+            status: original.status,
+            analysis: original.analysis,
+          }
+        } catch (error) {
+          console.error(`Error handling duplicate at index ${index}:`, error)
+          results[index] = {
+            index,
+            success: false,
+            redactions: counts,
+            duplicate,
+            error: error instanceof Error ? error.message : 'Unknown error while handling duplicate',
+          }
+        }
+      },
+      DUPLICATE_CONCURRENCY
+    )
+  }
+
   // Calculate summary statistics
   const successCount = results.filter((r) => r.success).length
   const failureCount = results.length - successCount
-
-  // Check if any results used fallback values (indicating quota/API errors)
-  const hasFallbackValues = results.some(
-    (r) =>
-      r.success &&
-      r.analysis &&
-      r.analysis.summary === 'Unable to generate summary' &&
-      r.analysis.recommendation === 'Review feedback manually' &&
-      r.analysis.topics.length === 0 &&
-      !r.analysis.sentiment_score
-  )
+  const duplicateCount = results.filter((r) => r.success && r.duplicate).length
+  const partialCount = results.filter((r) => r.success && r.status === 'partial').length
 
   // Build response
   const response: {
     success: boolean
     message: string
+    uploadId: string
     total: number
     succeeded: number
     failed: number
+    partial: number
+    duplicates: number
     warning?: string
     results: ProcessedItemResult[]
   } = {
     success: successCount > 0,
-    message: `Processed ${results.length} items: ${successCount} succeeded, ${failureCount} failed`,
+    message: `Processed ${results.length} items: ${successCount} succeeded (${partialCount} partial), ${failureCount} failed`,
+    uploadId,
     total: results.length,
     succeeded: successCount,
     failed: failureCount,
+    partial: partialCount,
+    duplicates: duplicateCount,
     results,
   }
 
-  // Add warning if fallback values were used (likely quota error)
-  if (hasFallbackValues) {
+  if (partialCount > 0) {
+    response.warning = `${partialCount} items were only partially analyzed and are excluded from charts until they are re-analyzed.`
+  }
+
+  // Items that failed because the provider was out of quota, rate limited or down
+  const providerFailures = results.filter((r) => r.errorKind && r.errorKind !== 'invalid_request')
+
+  if (providerFailures.some((r) => r.errorKind === 'quota_exhausted')) {
     response.warning =
-      'Analysis completed with fallback values. This may indicate OpenAI API quota issues. Check your billing at https://platform.openai.com/usage'
+      'Some feedback could not be analyzed because the OpenAI API quota is exhausted. Check your billing at https://platform.openai.com/usage'
+  } else if (providerFailures.length > 0) {
+    response.warning = `${providerFailures.length} items could not be analyzed because the AI provider is unavailable or rate limited. Please try again later.`
   }
 
   return response
 }
 
+/**
+ * Count the items of a batch that need a new analysis
+ * 
+ * Exact duplicates of analyzed feedback, and repeats within the batch, re-use
+ * an existing analysis and are not charged against the quota.
+ * 
+ * @param userId - User ID from authentication
+ * @param items - Feedback items about to be passed to analyzeFeedbackBatch
+ * @returns Number of distinct items without an existing analysis
+ */
+export async function countItemsToAnalyze(userId: string, items: FeedbackItem[]): Promise<number> {
+  const settings = await getAccountSettings(userId)
+  const hashes = items
+    .filter((item) => typeof item?.text === 'string')
+    .map((item) =>
+      computeContentHash(settings.redact_before_storage ? redactPII(item.text).text : item.text)
+    )
+  const existingSources = await findFeedbackByContentHash(userId, hashes)
+
+  return new Set(hashes.filter((hash) => !existingSources.has(hash))).size
+}
+
+/**
+ * Re-classify analyzed feedback into the account's current taxonomy
+ * 
+ * Run after categories are added, renamed, moved or deleted. Only the
+ * categories are updated; the rest of the analysis is kept. Text is
+ * redacted again before it is sent to the LLM, since feedback may have been
+ * stored unredacted.
+ * 
+ * @param userId - User ID from authentication
+ * @param options - Specific feedback IDs (defaults to the most recent analyzed feedback)
+ * @returns Number of feedback items re-classified and failed
+ */
+export async function reclassifyFeedback(
+  userId: string,
+  options: { feedbackIds?: string[] } = {}
+): Promise<{ total: number; updated: number; failed: number }> {
+  const MAX_RECLASSIFY_ITEMS = 500
+  const CLASSIFICATION_CONCURRENCY = 3
+
+  const [taxonomy, settings, rows] = await Promise.all([
+    getTaxonomy(userId),
+    getAccountSettings(userId),
+    getFeedbackForReclassification(userId, {
+      feedbackIds: options.feedbackIds,
+      limit: MAX_RECLASSIFY_ITEMS,
+    }),
+  ])
+  const taxonomyCategories = toClassificationCategories(taxonomy)
+  const instructions = toPromptInstructions(settings)
+
+  console.log(`Re-classifying ${rows.length} feedback items into ${taxonomy.length} categories...`)
+
+  const usage: FeedbackUsage[] = []
+  const outcomes = await processConcurrently(
+    rows,
+    async (row) => {
+      const records: UsageRecord[] = []
+      usage.push({ feedbackId: row.id, records })
+
+      try {
+        const { text } = redactPII(row.translated_text || row.text)
+        const categories = await withUsageTracking(records, () =>
+          classifyFeedback(text, taxonomyCategories, instructions)
+        )
+        return await updateAnalysisCategories(row.id, categories)
+      } catch (error) {
+        console.error(`Error re-classifying feedback ${row.id}:`, error)
+        return false
+      }
+    },
+    CLASSIFICATION_CONCURRENCY
+  )
+
+  if (!(await storeUsageRecords(userId, usage))) {
+    console.warn('Failed to store LLM usage of re-classification')
+  }
+
+  const updated = outcomes.filter(Boolean).length
+
+  return { total: rows.length, updated, failed: rows.length - updated }
+}
+
+/**
+ * Analysis fields compared by diffAnalyses
+ */
+const DIFFED_FIELDS = [
+  'sentiment',
+  'sentiment_score',
+  'emotion',
+  'urgency',
+  'severity_score',
+  'intents',
+  'topics',
+  'categories',
+  'summary',
+  'recommendation',
+] as const
+
+type DiffedField = (typeof DIFFED_FIELDS)[number]
+
+/**
+ * Changed fields of an analysis, with the value before and after
+ */
+export type AnalysisDiff = {
+  [K in DiffedField]?: { before: FeedbackAnalysis[K]; after: FeedbackAnalysis[K] }
+}
+
+/**
+ * Outcome of re-analyzing one feedback item
+ */
+export interface ReanalysisItemResult {
+  feedbackId: string
+  success: boolean
+  status?: AnalysisStatus
+  /** Model and prompt version of the replaced analysis */
+  previous: {
+    model: string | null
+    prompt_version: number | null
+    status: AnalysisStatus
+  }
+  /** Fields that changed (empty when the new analysis is identical) */
+  changes?: AnalysisDiff
+  error?: string
+  errorKind?: ProviderErrorKind
+}
+
+/**
+ * Compare two analyses of the same feedback
+ * 
+ * Topics and categories are compared as sets (order is ignored).
+ * 
+ * @param before - Stored analysis
+ * @param after - New analysis
+ * @returns Changed fields with their old and new value
+ */
+export function diffAnalyses(
+  before: Pick<FeedbackAnalysis, DiffedField>,
+  after: Pick<FeedbackAnalysis, DiffedField>
+): AnalysisDiff {
+  const normalize = (value: unknown) =>
+    JSON.stringify(Array.isArray(value) ? [...value].sort() : value ?? null)
+  const diff: Record<string, { before: unknown; after: unknown }> = {}
+
+  for (const field of DIFFED_FIELDS) {
+    if (normalize(before[field]) !== normalize(after[field])) {
+      diff[field] = { before: before[field] ?? null, after: after[field] ?? null }
+    }
+  }
+
+  return diff as AnalysisDiff
+}
+
+/**
+ * Re-run analysis for existing feedback with the current model and prompt
+ * 
+ * Run after OPENAI_LLM_MODEL, the analysis prompt or the account instructions
+ * changed, so historical feedback is analyzed the same way as new feedback.
+ * The stored English translation is re-used, and text is redacted again
+ * before it is sent to the LLM. Each analysis (and its per-topic sentiment
+ * and entities) is replaced and stamped with the current model, prompt
+ * version and instructions hash; when the analysis call fails, the previous
+ * analysis is kept.
+ * 
+ * Callers are responsible for quota: each item makes the same LLM calls as a
+ * new analysis.
+ * 
+ * @param userId - User ID from authentication
+ * @param rows - Feedback to re-analyze (see getFeedbackForReanalysis)
+ * @returns Counts, the version analyses now carry, and a before/after diff per item
+ */
+export async function reanalyzeFeedback(
+  userId: string,
+  rows: FeedbackForReanalysis[]
+): Promise<{
+  total: number
+  succeeded: number
+  failed: number
+  partial: number
+  changed: number
+  model: string
+  prompt_version: number
+  results: ReanalysisItemResult[]
+}> {
+  const REANALYSIS_CONCURRENCY = 3
+
+  const [taxonomy, settings, dictionary] = await Promise.all([
+    getTaxonomy(userId),
+    getAccountSettings(userId),
+    getEntityDictionary(userId),
+  ])
+  const taxonomyCategories = toClassificationCategories(taxonomy)
+  const instructions = toPromptInstructions(settings)
+  const version = { ...getAnalysisVersion(), instructions_hash: hashInstructions(instructions) }
+
+  console.log(
+    `Re-analyzing ${rows.length} feedback items with ${version.model} (prompt v${version.prompt_version})...`
+  )
+
+  const usage: FeedbackUsage[] = []
+  const results = await processConcurrently(
+    rows,
+    async (row): Promise<ReanalysisItemResult> => {
+      const records: UsageRecord[] = []
+      usage.push({ feedbackId: row.id, records })
+
+      const before = row.analysis
+      const previous = {
+        model: before.model,
+        prompt_version: before.prompt_version,
+        status: before.status,
+      }
+      // Translation and embedding are not redone
+      const subtasks: AnalysisSubtaskStatuses = {
+        translation: before.subtask_status?.translation,
+        embedding: before.subtask_status?.embedding,
+      }
+
+      try {
+        const { text } = redactPII(row.translated_text || row.text)
+
+        let analysisResult: Awaited<ReturnType<typeof analyzeFeedback>>
+        try {
+          analysisResult = await withUsageTracking(records, () => analyzeFeedback(text, instructions))
+          subtasks.analysis = 'ok'
+        } catch (error) {
+          console.error(`Error re-analyzing feedback ${row.id}:`, error)
+          return {
+            feedbackId: row.id,
+            success: false,
+            previous,
+            error: error instanceof Error ? error.message : 'Unknown error during analysis',
+            errorKind: error instanceof ProviderError ? error.kind : undefined,
+          }
+        }
+
+        // Keep the previous categories if classification fails
+        let categories = before.categories || []
+        try {
+          categories = await withUsageTracking(records, () =>
+            classifyFeedback(text, taxonomyCategories, instructions)
+          )
+          subtasks.classification = taxonomyCategories.length > 0 ? 'ok' : 'skipped'
+        } catch (error) {
+          console.warn(`Failed to classify feedback ${row.id}:`, error)
+          subtasks.classification = 'failed'
+        }
+
+        const topicSentiments = await replaceTopicSentiments(row.id, analysisResult.topic_sentiments)
+        subtasks.topic_sentiments =
+          analysisResult.topic_sentiments.length === 0 ? 'skipped' : topicSentiments ? 'ok' : 'failed'
+
+        const entities = normalizeEntities(analysisResult.entities, text, dictionary)
+        const storedEntities = await replaceFeedbackEntities(row.id, entities)
+        subtasks.entities = entities.length === 0 ? 'skipped' : storedEntities ? 'ok' : 'failed'
+
+        const status = deriveAnalysisStatus(subtasks)
+        const analysis = await replaceAnalysis(row.id, {
+          sentiment: analysisResult.sentiment,
+          sentiment_score: analysisResult.sentiment_score,
+          confidence_score: analysisResult.confidence_score,
+          emotion: analysisResult.emotion,
+          urgency: analysisResult.urgency,
+          severity_score: analysisResult.severity_score,
+          intents: analysisResult.intents,
+          topics: analysisResult.topics,
+          categories,
+          summary: analysisResult.summary,
+          recommendation: analysisResult.recommendation,
+          status,
+          subtask_status: subtasks,
+          ...version,
+        })
+
+        if (!analysis) {
+          return { feedbackId: row.id, success: false, previous, error: 'Failed to save analysis results' }
+        }
+
+        return {
+          feedbackId: row.id,
+          success: true,
+          status,
+          previous,
+          changes: diffAnalyses(before, analysis),
+        }
+      } catch (error) {
+        console.error(`Error re-analyzing feedback ${row.id}:`, error)
+        return {
+          feedbackId: row.id,
+          success: false,
+          previous,
+          error: error instanceof Error ? error.message : 'Unknown error during analysis',
+        }
+      }
+    },
+    REANALYSIS_CONCURRENCY
+  )
+
+  // Merge new topics into the account's canonical topics (non-critical)
+  const topicUsage: UsageRecord[] = []
+  try {
+    const topics = results.flatMap((r) => (r.success && r.changes?.topics ? r.changes.topics.after || [] : []))
+    await withUsageTracking(topicUsage, () => assignCanonicalTopics(userId, topics))
+  } catch (error) {
+    console.warn('Failed to assign canonical topics:', error)
+  }
+
+  if (!(await storeUsageRecords(userId, [...usage, { records: topicUsage }]))) {
+    console.warn('Failed to store LLM usage of re-analysis')
+  }
+
+  const succeeded = results.filter((r) => r.success).length
+
+  return {
+    total: results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    partial: results.filter((r) => r.success && r.status === 'partial').length,
+    changed: results.filter((r) => r.changes && Object.keys(r.changes).length > 0).length,
+    model: version.model,
+    prompt_version: version.prompt_version,
+    results,
+  }
+}
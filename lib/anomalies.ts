@@ -0,0 +1,470 @@
+/**
+ * Anomaly Detection
+ *
+ * Watches the daily feedback counts of an account (overall and per canonical
+ * topic, source and product) and the daily share of negative analyses, and
+ * flags statistically significant spikes and drops against the preceding
+ * BASELINE_DAYS days, e.g. "'login failure' mentions up 4x vs 14-day
+ * baseline, 80% negative".
+ *
+ * Counts are z-scored against the baseline mean with a Poisson floor on the
+ * standard deviation (√mean), so flat, low-volume series do not fire on a
+ * handful of extra entries; a spike must also be a multiple of the baseline.
+ * The negative share is compared with the baseline share (two-proportion z).
+ *
+ * Detection runs on demand (POST /api/anomalies, called by the dashboard
+ * after new feedback was analyzed), never inside an analyze or upload request.
+ * It checks yesterday (a complete day) and today; today is not checked for
+ * volume drops, since its counts are still growing. Anomalies are stored with
+ * their evidence, one per day, series and metric.
+ *
+ * Feedback is counted on the day the customer gave it (`submitted_at`) when
+ * the import says so, else on the day it was stored, so a backfill of
+ * historical feedback fills the baselines instead of spiking today.
+ *
+ * Usage:
+ * ```typescript
+ * await detectAnomalies(userId)
+ *
+ * const anomalies = await listAnomalies(userId)
+ * anomalies[0].message // "'login failure' mentions up 4x vs 14-day baseline, 80% negative"
+ * ```
+ */
+
+import { createServerClient } from '@/lib/supabase'
+import { getTopicAliasMap } from '@/lib/topics'
+import { round } from '@/lib/helpers'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Series a count belongs to: all feedback, or one topic, source or product
+ */
+export type AnomalyDimension = 'all' | 'topic' | 'source' | 'product'
+
+export type AnomalyMetric = 'volume' | 'negative_share'
+
+export type AnomalyDirection = 'spike' | 'drop'
+
+/**
+ * Row of `feedback_daily_counts`
+ */
+export interface DailyCount {
+  /** UTC day (YYYY-MM-DD) */
+  day: string
+  dimension: AnomalyDimension
+  key: string
+  total: number
+  /** Entries with a complete analysis */
+  analyzed: number
+  /** Entries analyzed as negative */
+  negative: number
+}
+
+/**
+ * What an anomaly was flagged on
+ */
+export interface AnomalyEvidence {
+  baseline_days: number
+  /** Daily values of the metric over the baseline, oldest first */
+  baseline_series: number[]
+  baseline_std: number
+  /** Observed / baseline value (null with a baseline of 0) */
+  ratio: number | null
+  /** Entries of the series on the day */
+  total: number
+  /** Share of the day's analyzed entries that are negative (null without analyses) */
+  negative_share: number | null
+  /** The same share over the baseline (null without analyses) */
+  baseline_negative_share: number | null
+  /** True if detected before the day was over */
+  partial_day: boolean
+}
+
+export interface DetectedAnomaly {
+  day: string
+  dimension: AnomalyDimension
+  key: string
+  metric: AnomalyMetric
+  direction: AnomalyDirection
+  /** Count, or negative share (0 to 1) */
+  observed: number
+  /** Baseline average of the same metric */
+  baseline: number
+  z_score: number
+  message: string
+  evidence: AnomalyEvidence
+}
+
+/**
+ * Stored anomaly (row of `anomalies`)
+ */
+export interface Anomaly extends DetectedAnomaly {
+  id: string
+  user_id: string
+  created_at: string
+  updated_at: string
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Days before the checked day that form its baseline
+ */
+export const BASELINE_DAYS = 14
+
+/**
+ * Days of feedback an account needs before the checked day
+ */
+const MIN_HISTORY_DAYS = 7
+
+/**
+ * Minimum |z-score| of an anomaly
+ */
+const Z_THRESHOLD = 3
+
+/**
+ * A spike is at least this many entries and this multiple of the baseline
+ */
+const MIN_SPIKE_COUNT = 5
+const MIN_SPIKE_RATIO = 2
+
+/**
+ * A drop needs a baseline of at least this many entries a day and falls to
+ * at most this fraction of it
+ */
+const MIN_DROP_BASELINE = 5
+const MAX_DROP_RATIO = 0.5
+
+/**
+ * A negative share change needs this many analyzed entries on the day (and
+ * over the baseline) and must be at least this large
+ */
+const MIN_SHARE_SAMPLE = 10
+const MIN_SHARE_CHANGE = 0.15
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * YYYY-MM-DD of the UTC day `days` days from `day`
+ */
+export function addDays(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+/**
+ * Mean and (population) standard deviation
+ */
+export function baselineStats(values: number[]): { mean: number; std: number } {
+  if (values.length === 0) {
+    return { mean: 0, std: 0 }
+  }
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length
+  return { mean, std: Math.sqrt(variance) }
+}
+
+/**
+ * Z-score of a daily count, with the standard deviation floored at √mean
+ * (the Poisson noise of a count with that mean, at least 1)
+ */
+export function countZScore(observed: number, mean: number, std: number): number {
+  return (observed - mean) / Math.max(std, Math.sqrt(Math.max(mean, 1)))
+}
+
+/**
+ * Z-score of a share of `sample` entries against a baseline share (clamped
+ * to 5..95% so that a baseline of 0% does not make every change infinite)
+ */
+export function shareZScore(share: number, baselineShare: number, sample: number): number {
+  const p = Math.min(0.95, Math.max(0.05, baselineShare))
+  return (share - baselineShare) / Math.sqrt((p * (1 - p)) / sample)
+}
+
+function formatRatio(ratio: number): string {
+  return `${ratio >= 10 ? Math.round(ratio) : round(ratio, 1)}x`
+}
+
+function formatPercent(share: number): string {
+  return `${Math.round(share * 100)}%`
+}
+
+/**
+ * Human-readable description of an anomaly
+ */
+export function describeAnomaly(anomaly: Omit<DetectedAnomaly, 'message'>): string {
+  const { evidence } = anomaly
+  const baseline = `${evidence.baseline_days}-day baseline`
+
+  if (anomaly.metric === 'negative_share') {
+    return `Negative share ${anomaly.direction === 'spike' ? 'up' : 'down'} to ${formatPercent(
+      anomaly.observed
+    )} from ${formatPercent(anomaly.baseline)} (${baseline})`
+  }
+
+  const subject = {
+    all: 'Feedback volume',
+    topic: `'${anomaly.key}' mentions`,
+    source: `Feedback from '${anomaly.key}'`,
+    product: `Feedback on product '${anomaly.key}'`,
+  }[anomaly.dimension]
+
+  const change =
+    anomaly.direction === 'drop'
+      ? `down ${formatPercent(1 - (evidence.ratio ?? 0))}`
+      : evidence.ratio === null
+        ? `up from 0 to ${anomaly.observed}`
+        : `up ${formatRatio(evidence.ratio)}`
+
+  const negative = evidence.negative_share !== null ? `, ${formatPercent(evidence.negative_share)} negative` : ''
+
+  return `${subject} ${change} vs ${baseline}${negative}`
+}
+
+/**
+ * Find the anomalies of one day
+ *
+ * @param rows - Daily counts covering the day and the BASELINE_DAYS before it
+ *   (days without a row count as 0)
+ * @param day - Day to check (YYYY-MM-DD, UTC)
+ * @param options - partial: the day is not over (volume drops are not checked)
+ * @returns Anomalies, largest |z-score| first
+ */
+export function findAnomalies(rows: DailyCount[], day: string, options: { partial: boolean }): DetectedAnomaly[] {
+  const baselineDays = Array.from({ length: BASELINE_DAYS }, (_, index) => addDays(day, index - BASELINE_DAYS))
+  const firstDay = rows
+    .filter((row) => row.dimension === 'all' && row.total > 0)
+    .reduce((first, row) => (row.day < first ? row.day : first), day)
+
+  if (firstDay > addDays(day, -MIN_HISTORY_DAYS)) {
+    return []
+  }
+
+  const series = new Map<string, Map<string, DailyCount>>()
+  for (const row of rows) {
+    const id = `${row.dimension}\u0000${row.key}`
+    const byDay = series.get(id) || new Map<string, DailyCount>()
+    byDay.set(row.day, row)
+    series.set(id, byDay)
+  }
+
+  const anomalies: DetectedAnomaly[] = []
+
+  for (const byDay of series.values()) {
+    const current = byDay.get(day)
+    const baselineRows = baselineDays.map((baselineDay) => byDay.get(baselineDay))
+    // Series seen only outside the window, e.g. a topic new today while
+    // yesterday is checked
+    const ref = current || baselineRows.find(Boolean)
+    if (!ref) continue
+    const { dimension, key } = ref
+
+    const observed = current?.total ?? 0
+    const counts = baselineRows.map((row) => row?.total ?? 0)
+    const { mean, std } = baselineStats(counts)
+    const z = countZScore(observed, mean, std)
+
+    const analyzed = current?.analyzed ?? 0
+    const baselineAnalyzed = baselineRows.reduce((sum, row) => sum + (row?.analyzed ?? 0), 0)
+    const baselineNegative = baselineRows.reduce((sum, row) => sum + (row?.negative ?? 0), 0)
+    const negativeShare = analyzed > 0 ? current!.negative / analyzed : null
+    const baselineNegativeShare = baselineAnalyzed > 0 ? baselineNegative / baselineAnalyzed : null
+
+    const evidence = (values: number[], valueStd: number, ratio: number | null): AnomalyEvidence => ({
+      baseline_days: BASELINE_DAYS,
+      baseline_series: values.map((value) => round(value, 4)),
+      baseline_std: round(valueStd, 4),
+      ratio: ratio === null ? null : round(ratio),
+      total: observed,
+      negative_share: negativeShare === null ? null : round(negativeShare, 4),
+      baseline_negative_share: baselineNegativeShare === null ? null : round(baselineNegativeShare, 4),
+      partial_day: options.partial,
+    })
+
+    const ratio = mean > 0 ? observed / mean : null
+    const isSpike = observed >= MIN_SPIKE_COUNT && z >= Z_THRESHOLD && (ratio === null || ratio >= MIN_SPIKE_RATIO)
+    const isDrop =
+      !options.partial && mean >= MIN_DROP_BASELINE && observed <= mean * MAX_DROP_RATIO && z <= -Z_THRESHOLD
+
+    if (isSpike || isDrop) {
+      const anomaly = {
+        day,
+        dimension,
+        key,
+        metric: 'volume' as const,
+        direction: isSpike ? ('spike' as const) : ('drop' as const),
+        observed,
+        baseline: round(mean, 4),
+        z_score: round(z),
+        evidence: evidence(counts, std, ratio),
+      }
+      anomalies.push({ ...anomaly, message: describeAnomaly(anomaly) })
+    }
+
+    // The negative share is watched for all feedback
+    if (
+      dimension === 'all' &&
+      negativeShare !== null &&
+      baselineNegativeShare !== null &&
+      analyzed >= MIN_SHARE_SAMPLE &&
+      baselineAnalyzed >= MIN_SHARE_SAMPLE
+    ) {
+      const shareZ = shareZScore(negativeShare, baselineNegativeShare, analyzed)
+
+      if (Math.abs(negativeShare - baselineNegativeShare) >= MIN_SHARE_CHANGE && Math.abs(shareZ) >= Z_THRESHOLD) {
+        const shares = baselineRows.map((row) => (row && row.analyzed > 0 ? row.negative / row.analyzed : 0))
+        const anomaly = {
+          day,
+          dimension,
+          key,
+          metric: 'negative_share' as const,
+          direction: shareZ > 0 ? ('spike' as const) : ('drop' as const),
+          observed: round(negativeShare, 4),
+          baseline: round(baselineNegativeShare, 4),
+          z_score: round(shareZ),
+          evidence: evidence(
+            shares,
+            baselineStats(shares).std,
+            baselineNegativeShare > 0 ? negativeShare / baselineNegativeShare : null
+          ),
+        }
+        anomalies.push({ ...anomaly, message: describeAnomaly(anomaly) })
+      }
+    }
+  }
+
+  return anomalies.sort((a, b) => Math.abs(b.z_score) - Math.abs(a.z_score))
+}
+
+// ============================================================================
+// DATABASE OPERATIONS
+// ============================================================================
+
+/**
+ * Stored anomaly with its DECIMAL columns as numbers
+ */
+function toAnomaly(row: any): Anomaly {
+  return { ...row, observed: Number(row.observed), baseline: Number(row.baseline), z_score: Number(row.z_score) }
+}
+
+/**
+ * Check yesterday and today (UTC) for anomalies and store them
+ *
+ * Anomalies of these days that no longer hold (e.g. a spike of today that
+ * the rest of the day evened out) are removed.
+ *
+ * @param userId - Clerk user ID
+ * @param now - Current time
+ * @returns Anomalies of both days (empty on error)
+ */
+export async function detectAnomalies(userId: string, now: Date = new Date()): Promise<Anomaly[]> {
+  const today = now.toISOString().slice(0, 10)
+  const yesterday = addDays(today, -1)
+
+  try {
+    const supabase = createServerClient()
+    const aliases = await getTopicAliasMap(userId)
+
+    const { data, error } = await supabase.rpc('feedback_daily_counts', {
+      filter_user_id: userId,
+      since: `${addDays(yesterday, -BASELINE_DAYS)}T00:00:00Z`,
+      aliases,
+    })
+
+    if (error) {
+      console.error('Error fetching daily feedback counts:', error)
+      return []
+    }
+
+    const rows: DailyCount[] = (data || []).map((row: any) => ({
+      day: row.day,
+      dimension: row.dimension,
+      key: row.key,
+      total: Number(row.total),
+      analyzed: Number(row.analyzed),
+      negative: Number(row.negative),
+    }))
+
+    const detected = [
+      ...findAnomalies(rows, yesterday, { partial: false }),
+      ...findAnomalies(rows, today, { partial: true }),
+    ]
+
+    let stored: Anomaly[] = []
+
+    if (detected.length > 0) {
+      const { data: upserted, error: upsertError } = await supabase
+        .from('anomalies')
+        .upsert(
+          detected.map((anomaly) => ({ user_id: userId, ...anomaly })),
+          { onConflict: 'user_id,day,dimension,key,metric' }
+        )
+        .select()
+
+      if (upsertError) {
+        console.error('Error storing anomalies:', upsertError)
+        return []
+      }
+
+      stored = (upserted || []).map(toAnomaly)
+    }
+
+    let stale = supabase.from('anomalies').delete().eq('user_id', userId).in('day', [yesterday, today])
+    if (stored.length > 0) {
+      stale = stale.not('id', 'in', `(${stored.map((anomaly) => anomaly.id).join(',')})`)
+    }
+
+    const { error: deleteError } = await stale
+
+    if (deleteError) {
+      console.error('Error removing stale anomalies:', deleteError)
+    }
+
+    return stored
+  } catch (error) {
+    console.error('Error in detectAnomalies:', error)
+    return []
+  }
+}
+
+/**
+ * List the recent anomalies of a user
+ *
+ * @param userId - Clerk user ID
+ * @param days - Number of days, today included
+ * @returns Anomalies, most recent day first, largest |z-score| first within a day (empty on error)
+ */
+export async function listAnomalies(userId: string, days: number = 7): Promise<Anomaly[]> {
+  try {
+    const supabase = createServerClient()
+    const since = addDays(new Date().toISOString().slice(0, 10), 1 - days)
+
+    const { data, error } = await supabase
+      .from('anomalies')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('day', since)
+      .order('day', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching anomalies:', error)
+      return []
+    }
+
+    return (data || [])
+      .map(toAnomaly)
+      .sort((a, b) => b.day.localeCompare(a.day) || Math.abs(b.z_score) - Math.abs(a.z_score))
+  } catch (error) {
+    console.error('Error in listAnomalies:', error)
+    return []
+  }
+}
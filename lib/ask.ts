@@ -0,0 +1,384 @@
+/**
+ * Ask Your Feedback
+ *
+ * Answers natural-language questions ("why are enterprise customers unhappy
+ * with onboarding?") from an account's own feedback (retrieval-augmented
+ * generation):
+ * 1. The question is embedded like feedback (generateEmbedding)
+ * 2. The most similar feedback of the account is retrieved with the
+ *    `search_feedback` function, narrowed by optional metadata filters
+ *    (source, product, sentiment, intent, category and period)
+ * 3. The LLM answers from the retrieved feedback only (answerQuestion, see
+ *    lib/langchain.ts), citing the items it relied on with `[n]` markers
+ *
+ * Retrieval always filters on the caller's user ID, so answers never draw
+ * from another account's data. The question and the feedback are redacted
+ * before they reach the embedding provider or the LLM, like in analysis. When
+ * nothing relevant is found, no LLM call is made.
+ *
+ * The call's usage is recorded like analysis usage (not per feedback).
+ * Answers are not stored.
+ *
+ * Usage:
+ * ```typescript
+ * const parsed = parseAskRequest(body)
+ * if ('error' in parsed) return badRequest(parsed.error)
+ *
+ * const result = await askFeedback(userId, parsed.question, parsed.filters)
+ * result.answer // 'Onboarding takes too long for larger teams [1][3].'
+ * result.citations[0] // { marker: 1, feedback_id: '...', excerpt: '...', similarity: 0.62, ... }
+ * ```
+ */
+
+import {
+  answerQuestion,
+  generateEmbedding,
+  getQuestionAnsweringVersion,
+  INTENTS,
+  type Intent,
+  type QuestionItem,
+} from '@/lib/langchain'
+import { createServerClient } from '@/lib/supabase'
+import { getAccountSettings, toPromptInstructions } from '@/lib/settings'
+import { redactedText, round } from '@/lib/helpers'
+import { redactPII } from '@/lib/redaction'
+import { withUsageTracking, type UsageRecord } from '@/lib/usage'
+import { storeUsageRecords } from '@/lib/costs'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+const SENTIMENTS = ['positive', 'negative', 'neutral', 'mixed'] as const
+
+/**
+ * Metadata filters narrowing the feedback a question is answered from
+ */
+export interface AskFilters {
+  source?: string
+  productId?: string
+  sentiment?: (typeof SENTIMENTS)[number]
+  intent?: Intent
+  /** Taxonomy category label, e.g. 'Shipping > Late delivery' */
+  category?: string
+  /** Feedback created on or after this date (ISO 8601) */
+  from?: string
+  /** Feedback created before this date (ISO 8601) */
+  to?: string
+}
+
+/**
+ * Feedback retrieved for a question
+ */
+export interface RetrievedFeedback {
+  id: string
+  text: string
+  translated_text: string | null
+  source: string | null
+  product_id: string | null
+  created_at: string
+  /** Sentiment of the complete analysis, if any */
+  sentiment: string | null
+  intents: Intent[]
+  summary: string | null
+  /** Cosine similarity to the question (0-1) */
+  similarity: number
+}
+
+/**
+ * Feedback an answer relies on
+ */
+export interface AskCitation {
+  /** Number of the `[n]` marker in the answer */
+  marker: number
+  feedback_id: string
+  /** Redacted excerpt of the feedback (English translation if there is one) */
+  excerpt: string
+  source: string | null
+  product_id: string | null
+  sentiment: string | null
+  created_at: string
+  similarity: number
+}
+
+export interface AskResult {
+  question: string
+  /** Answer with `[n]` markers numbered like `citations` */
+  answer: string
+  citations: AskCitation[]
+  /** Number of feedback items the answer was drawn from */
+  retrieved: number
+  /** Model and feedback_question version, or null when no LLM call was made */
+  model: string | null
+  prompt_version: number | null
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const MAX_QUESTION_CHARS = 500
+
+/**
+ * Feedback items the answer is drawn from (most similar first)
+ */
+const MAX_RETRIEVED = 20
+
+/**
+ * Minimum cosine similarity of retrieved feedback to the question.
+ * Questions and feedback are worded differently, so this is well below the
+ * thresholds used to compare feedback with feedback.
+ */
+const MIN_SIMILARITY = 0.25
+
+/**
+ * Characters of a feedback item sent to the LLM
+ */
+const MAX_ITEM_CHARS = 600
+
+const MAX_EXCERPT_CHARS = 240
+
+const MAX_FILTER_CHARS = 200
+
+const NO_RESULTS_ANSWER = 'No feedback matching this question and filters was found.'
+
+// ============================================================================
+// REQUEST VALIDATION
+// ============================================================================
+
+/**
+ * Validate the body of a question: an object with `question` and optional
+ * filters
+ *
+ * @param input - Parsed request body (any JSON value)
+ * @returns The trimmed question and filters, or the validation error message
+ */
+export function parseAskRequest(input: unknown): { question: string; filters: AskFilters } | { error: string } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { error: 'Request body must be a JSON object' }
+  }
+
+  const body = input as Record<string, unknown>
+  const { question } = body
+
+  if (typeof question !== 'string' || !question.trim()) {
+    return { error: 'question is required and must be a non-empty string' }
+  }
+
+  if (question.trim().length > MAX_QUESTION_CHARS) {
+    return { error: `question must be at most ${MAX_QUESTION_CHARS} characters` }
+  }
+
+  const filters: AskFilters = {}
+
+  for (const key of ['source', 'productId', 'category'] as const) {
+    const value = body[key]
+
+    if (value === undefined || value === null || value === '') {
+      continue
+    }
+
+    if (typeof value !== 'string' || value.trim().length > MAX_FILTER_CHARS) {
+      return { error: `${key} must be a string of at most ${MAX_FILTER_CHARS} characters` }
+    }
+
+    filters[key] = value.trim()
+  }
+
+  if (body.sentiment !== undefined && body.sentiment !== null && body.sentiment !== '') {
+    if (!SENTIMENTS.includes(body.sentiment as (typeof SENTIMENTS)[number])) {
+      return { error: `sentiment must be one of: ${SENTIMENTS.join(', ')}` }
+    }
+
+    filters.sentiment = body.sentiment as AskFilters['sentiment']
+  }
+
+  if (body.intent !== undefined && body.intent !== null && body.intent !== '') {
+    if (!INTENTS.includes(body.intent as Intent)) {
+      return { error: `intent must be one of: ${INTENTS.join(', ')}` }
+    }
+
+    filters.intent = body.intent as Intent
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const value = body[key]
+
+    if (value === undefined || value === null || value === '') {
+      continue
+    }
+
+    if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+      return { error: `${key} must be an ISO 8601 date` }
+    }
+
+    filters[key] = value
+  }
+
+  if (filters.from && filters.to && Date.parse(filters.to) <= Date.parse(filters.from)) {
+    return { error: 'to must be after from' }
+  }
+
+  return { question: question.trim(), filters }
+}
+
+// ============================================================================
+// ANSWERING
+// ============================================================================
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength).trimEnd()}…` : text
+}
+
+/**
+ * Find the feedback of an account most similar to a question
+ *
+ * @param userId - Clerk user ID (required: only this account's feedback is searched)
+ * @param embedding - Embedding of the question
+ * @param filters - Metadata filters
+ * @returns Matching feedback, most similar first (empty on error)
+ */
+export async function searchFeedback(
+  userId: string,
+  embedding: number[],
+  filters: AskFilters = {}
+): Promise<RetrievedFeedback[]> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase.rpc('search_feedback', {
+      query_embedding: embedding,
+      filter_user_id: userId,
+      match_threshold: MIN_SIMILARITY,
+      match_count: MAX_RETRIEVED,
+      filter_source: filters.source ?? null,
+      filter_product_id: filters.productId ?? null,
+      filter_sentiment: filters.sentiment ?? null,
+      filter_intent: filters.intent ?? null,
+      filter_category: filters.category ?? null,
+      since: filters.from ?? null,
+      until: filters.to ?? null,
+    })
+
+    if (error) {
+      console.error('Error searching feedback:', error)
+      return []
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      text: row.text,
+      translated_text: row.translated_text,
+      source: row.source,
+      product_id: row.product_id,
+      created_at: row.created_at,
+      sentiment: row.sentiment,
+      intents: row.intents || [],
+      summary: row.summary,
+      similarity: round(Number(row.similarity)),
+    }))
+  } catch (error) {
+    console.error('Exception in searchFeedback:', error)
+    return []
+  }
+}
+
+/**
+ * Build the citations of an answer and renumber its markers 1..n in order
+ * of first citation
+ *
+ * @param answer - Answer with `[n]` markers numbering `rows` from 1
+ * @param cited - 0-based indexes of the cited rows, in order of first citation
+ * @param rows - Feedback the answer was drawn from
+ * @returns The renumbered answer and its citations
+ */
+export function buildCitations(
+  answer: string,
+  cited: number[],
+  rows: RetrievedFeedback[]
+): { answer: string; citations: AskCitation[] } {
+  const markers = new Map(cited.map((index, position) => [index + 1, position + 1]))
+
+  const renumbered = answer.replace(/\[(\d+)\]/g, (marker, number: string) => {
+    const position = markers.get(Number(number))
+    return position === undefined ? marker : `[${position}]`
+  })
+
+  const citations = cited.map((index, position) => {
+    const row = rows[index]
+
+    return {
+      marker: position + 1,
+      feedback_id: row.id,
+      excerpt: truncate(redactedText(row), MAX_EXCERPT_CHARS),
+      source: row.source,
+      product_id: row.product_id,
+      sentiment: row.sentiment,
+      created_at: row.created_at,
+      similarity: row.similarity,
+    }
+  })
+
+  return { answer: renumbered, citations }
+}
+
+/**
+ * Answer a question from the caller's feedback, citing the feedback used
+ *
+ * @param userId - Clerk user ID
+ * @param question - Question in natural language (see parseAskRequest)
+ * @param filters - Metadata filters narrowing the feedback searched
+ * @returns The answer with its citations
+ * @throws {Error} If embedding the question or the LLM call fails (e.g. ProviderError)
+ */
+export async function askFeedback(
+  userId: string,
+  question: string,
+  filters: AskFilters = {}
+): Promise<AskResult> {
+  const usage: UsageRecord[] = []
+
+  try {
+    return await withUsageTracking(usage, async () => {
+      const redactedQuestion = redactPII(question).text
+      const embedding = await generateEmbedding(redactedQuestion)
+      const rows = await searchFeedback(userId, embedding, filters)
+
+      if (rows.length === 0) {
+        return {
+          question,
+          answer: NO_RESULTS_ANSWER,
+          citations: [],
+          retrieved: 0,
+          model: null,
+          prompt_version: null,
+        }
+      }
+
+      const items: QuestionItem[] = rows.map((row) => ({
+        created_at: row.created_at,
+        source: row.source,
+        sentiment: row.sentiment,
+        text: truncate(redactedText(row), MAX_ITEM_CHARS),
+      }))
+
+      const settings = await getAccountSettings(userId)
+      const reply = await answerQuestion(redactedQuestion, items, toPromptInstructions(settings))
+      const { answer, citations } = buildCitations(reply.answer, reply.cited, rows)
+
+      return {
+        question,
+        answer,
+        citations,
+        retrieved: rows.length,
+        ...getQuestionAnsweringVersion(),
+      }
+    })
+  } finally {
+    // Record the tokens and cost of the calls made, even if one failed
+    // (non-critical)
+    if (!(await storeUsageRecords(userId, [{ records: usage }]))) {
+      console.warn('Failed to store LLM usage of a question')
+    }
+  }
+}
@@ -33,6 +33,31 @@ export const SENTIMENT_COLORS = {
   neutral: '#6b7280', // gray
 } as const
 
+/**
+ * Display labels of the analysis intents (see INTENTS in lib/langchain.ts)
+ */
+export const INTENT_LABELS = {
+  bug_report: 'Bug report',
+  feature_request: 'Feature request',
+  praise: 'Praise',
+  question: 'Question',
+  complaint: 'Complaint',
+  pricing_complaint: 'Pricing complaint',
+  cancellation_intent: 'Cancellation intent',
+} as const
+
+/**
+ * Display labels of the entity types (see ENTITY_TYPES in lib/langchain.ts)
+ */
+export const ENTITY_TYPE_LABELS = {
+  product: 'Product',
+  feature: 'Feature',
+  competitor: 'Competitor',
+  version: 'Version',
+  platform: 'Platform',
+  amount: 'Amount',
+} as const
+
 /**
  * CSV upload configuration
  */
@@ -69,6 +94,9 @@ export const ROUTES = {
   DASHBOARD: '/dashboard',
   UPLOAD: '/dashboard/upload',
   ANALYTICS: '/dashboard/analytics',
+  TAXONOMY: '/dashboard/taxonomy',
+  TOPICS: '/dashboard/topics',
+  REANALYZE: '/dashboard/reanalyze',
   SETTINGS: '/dashboard/settings',
   SIGN_IN: '/sign-in',
   SIGN_UP: '/sign-up',
@@ -0,0 +1,372 @@
+/**
+ * LLM Cost Accounting
+ *
+ * Stores the token usage collected during analysis (see lib/usage.ts) in the
+ * `llm_usage` table, one row per feedback entry, operation and model, and
+ * builds the operator cost report: LLM spend against analyses performed per
+ * day, and gross margin per plan and per account.
+ *
+ * Usage:
+ * ```typescript
+ * const records: UsageRecord[] = []
+ * const analysis = await withUsageTracking(records, () => analyzeFeedback(text))
+ * await storeUsageRecords(userId, [{ feedbackId, uploadId, records }])
+ *
+ * const report = await getCostReport(30)
+ * report.plans.free.marginUsd // e.g. -0.42: free accounts cost money
+ * ```
+ */
+
+import { createServerClient } from '@/lib/supabase'
+import { PLANS, type PlanType } from '@/lib/billing'
+import type { UsageRecord } from '@/lib/usage'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Usage of the provider requests made for one feedback entry (or for work
+ * spanning many entries, such as an insights report, without a feedbackId)
+ */
+export interface FeedbackUsage {
+  feedbackId?: string
+  /** Analyze or upload request the feedback was processed in */
+  uploadId?: string
+  records: UsageRecord[]
+}
+
+/**
+ * Row of the `llm_usage_daily` view
+ */
+export interface DailyUsageRow {
+  user_id: string
+  day: string
+  analyses: number
+  prompt_tokens: number
+  completion_tokens: number
+  cost_usd: number
+}
+
+/**
+ * Plan and status of an account (row of `subscriptions`)
+ */
+export interface AccountPlan {
+  user_id: string
+  plan: PlanType
+  status: string
+}
+
+/**
+ * Spend and analyses of one day
+ */
+export interface DailyCost {
+  day: string
+  analyses: number
+  costUsd: number
+}
+
+/**
+ * Revenue, LLM cost and gross margin of a plan or an account over the report period
+ */
+export interface CostBreakdown {
+  analyses: number
+  promptTokens: number
+  completionTokens: number
+  costUsd: number
+  /** Subscription revenue, prorated to the report period */
+  revenueUsd: number
+  marginUsd: number
+  /** Margin as a share of revenue (null without revenue) */
+  marginPercent: number | null
+  /** Average LLM cost of an analysis (null without analyses) */
+  costPerAnalysis: number | null
+}
+
+export interface PlanCost extends CostBreakdown {
+  plan: PlanType
+  name: string
+  priceMonthly: number
+  monthlyAnalyses: number
+  /** Paying accounts, and free accounts with usage in the period */
+  accounts: number
+  /** LLM cost of an account using its full monthly quota at the average cost per analysis */
+  fullQuotaCostUsd: number | null
+}
+
+export interface AccountCost extends CostBreakdown {
+  userId: string
+  plan: PlanType
+}
+
+/**
+ * Operator cost report
+ */
+export interface CostReport {
+  days: number
+  since: string
+  totals: CostBreakdown
+  daily: DailyCost[]
+  plans: Record<PlanType, PlanCost>
+  /** Accounts with the highest LLM cost, most expensive first */
+  accounts: AccountCost[]
+}
+
+/**
+ * Subscription statuses that are billed
+ */
+const PAYING_STATUSES = ['active', 'past_due']
+
+/**
+ * Number of accounts listed in the cost report
+ */
+const TOP_ACCOUNTS = 20
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Store the LLM usage of analyzed feedback
+ *
+ * Records are summed per feedback entry, operation and model. Embedding
+ * requests are stored under the 'embedding' operation.
+
+ *
+ * @param userId - Owner of the feedback
+ * @param entries - Usage per feedback entry
+ * @returns true if stored (or nothing to store), false on error
+ */
+export async function storeUsageRecords(userId: string, entries: FeedbackUsage[]): Promise<boolean> {
+  const rows = new Map<string, {
+    user_id: string
+    feedback_id: string | null
+    upload_id: string | null
+    operation: string
+    model: string
+    prompt_tokens: number
+    completion_tokens: number
+    cost_usd: number
+    estimated: boolean
+  }>()
+
+  for (const { feedbackId, uploadId, records } of entries) {
+    for (const record of records) {
+      const operation = record.kind === 'embedding' ? 'embedding' : record.operation
+      const key = `${feedbackId || ''}:${operation}:${record.model}`
+      const row = rows.get(key) || {
+        user_id: userId,
+        feedback_id: feedbackId || null,
+        upload_id: uploadId || null,
+        operation,
+        model: record.model,
+        prompt_tokens: 0,
+        completion_tokens: 0,
+        cost_usd: 0,
+        estimated: false,
+      }
+
+      row.prompt_tokens += record.promptTokens
+      row.completion_tokens += record.completionTokens
+      row.cost_usd += record.costUsd
+      row.estimated = row.estimated || record.estimated
+      rows.set(key, row)
+    }
+  }
+
+  if (rows.size === 0) {
+    return true
+  }
+
+  try {
+    const supabase = createServerClient()
+
+    const { error } = await supabase.from('llm_usage').insert(
+      Array.from(rows.values()).map((row) => ({ ...row, cost_usd: Number(row.cost_usd.toFixed(6)) }))
+    )
+
+    if (error) {
+      console.error('Error storing LLM usage:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Error in storeUsageRecords:', error)
+    return false
+  }
+}
+
+// ============================================================================
+// COST REPORT
+// ============================================================================
+
+/**
+ * Build the cost report from daily usage and account plans
+ *
+ * Revenue is the monthly plan price prorated to the report period (days / 30)
+ * for every paying account. Accounts without a subscription are on the free plan.
+ *
+ * @param rows - Rows of `llm_usage_daily` for the period
+ * @param subscriptions - Plan and status of every account
+ * @param days - Length of the period in days
+ * @param since - First day of the period (YYYY-MM-DD)
+ * @returns Cost report
+ */
+export function buildCostReport(
+  rows: DailyUsageRow[],
+  subscriptions: AccountPlan[],
+  days: number,
+  since: string
+): CostReport {
+  const proration = days / 30
+  const planByUser = new Map(subscriptions.map((subscription) => [subscription.user_id, subscription]))
+
+  const planOf = (userId: string): PlanType => {
+    const subscription = planByUser.get(userId)
+    return subscription && subscription.plan in PLANS ? subscription.plan : 'free'
+  }
+
+  const revenueOf = (userId: string) => {
+    const subscription = planByUser.get(userId)
+    return subscription && PAYING_STATUSES.includes(subscription.status)
+      ? PLANS[planOf(userId)].priceMonthly * proration
+      : 0
+  }
+
+  const emptyBreakdown = (): CostBreakdown => ({
+    analyses: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    costUsd: 0,
+    revenueUsd: 0,
+    marginUsd: 0,
+    marginPercent: null,
+    costPerAnalysis: null,
+  })
+
+  const addUsage = (breakdown: CostBreakdown, row: DailyUsageRow) => {
+    breakdown.analyses += Number(row.analyses) || 0
+    breakdown.promptTokens += Number(row.prompt_tokens) || 0
+    breakdown.completionTokens += Number(row.completion_tokens) || 0
+    breakdown.costUsd += Number(row.cost_usd) || 0
+  }
+
+  const finish = <T extends CostBreakdown>(breakdown: T): T => {
+    breakdown.marginUsd = breakdown.revenueUsd - breakdown.costUsd
+    breakdown.marginPercent = breakdown.revenueUsd > 0 ? breakdown.marginUsd / breakdown.revenueUsd : null
+    breakdown.costPerAnalysis = breakdown.analyses > 0 ? breakdown.costUsd / breakdown.analyses : null
+    return breakdown
+  }
+
+  // Usage per day and per account
+  const daily = new Map<string, DailyCost>()
+  const accounts = new Map<string, AccountCost>()
+
+  for (const row of rows) {
+    const day = daily.get(row.day) || { day: row.day, analyses: 0, costUsd: 0 }
+    day.analyses += Number(row.analyses) || 0
+    day.costUsd += Number(row.cost_usd) || 0
+    daily.set(row.day, day)
+
+    const account = accounts.get(row.user_id) || {
+      userId: row.user_id,
+      plan: planOf(row.user_id),
+      ...emptyBreakdown(),
+      revenueUsd: revenueOf(row.user_id),
+    }
+    addUsage(account, row)
+    accounts.set(row.user_id, account)
+  }
+
+  // Paying accounts without usage still count towards revenue
+  for (const subscription of subscriptions) {
+    if (!accounts.has(subscription.user_id) && revenueOf(subscription.user_id) > 0) {
+      accounts.set(subscription.user_id, {
+        userId: subscription.user_id,
+        plan: planOf(subscription.user_id),
+        ...emptyBreakdown(),
+        revenueUsd: revenueOf(subscription.user_id),
+      })
+    }
+  }
+
+  const plans = Object.fromEntries(
+    (Object.keys(PLANS) as PlanType[]).map((plan) => [
+      plan,
+      {
+        plan,
+        name: PLANS[plan].name,
+        priceMonthly: PLANS[plan].priceMonthly,
+        monthlyAnalyses: PLANS[plan].monthlyAnalyses,
+        accounts: 0,
+        fullQuotaCostUsd: null,
+        ...emptyBreakdown(),
+      },
+    ])
+  ) as Record<PlanType, PlanCost>
+  const totals = emptyBreakdown()
+
+  for (const account of accounts.values()) {
+    finish(account)
+
+    for (const breakdown of [plans[account.plan], totals]) {
+      breakdown.analyses += account.analyses
+      breakdown.promptTokens += account.promptTokens
+      breakdown.completionTokens += account.completionTokens
+      breakdown.costUsd += account.costUsd
+      breakdown.revenueUsd += account.revenueUsd
+    }
+    plans[account.plan].accounts++
+  }
+
+  for (const plan of Object.values(plans)) {
+    finish(plan)
+    plan.fullQuotaCostUsd = plan.costPerAnalysis === null ? null : plan.costPerAnalysis * plan.monthlyAnalyses
+  }
+
+  return {
+    days,
+    since,
+    totals: finish(totals),
+    daily: Array.from(daily.values()).sort((a, b) => a.day.localeCompare(b.day)),
+    plans,
+    accounts: Array.from(accounts.values())
+      .filter((account) => account.costUsd > 0)
+      .sort((a, b) => b.costUsd - a.costUsd)
+      .slice(0, TOP_ACCOUNTS),
+  }
+}
+
+/**
+ * Get the cost report of the last `days` days (all accounts)
+ *
+ * Operator-only: callers must check the admin role.
+ *
+ * @param days - Length of the period in days
+ * @returns Cost report, or null on error
+ */
+export async function getCostReport(days: number): Promise<CostReport | null> {
+  try {
+    const supabase = createServerClient()
+    const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+
+    const [usage, subscriptions] = await Promise.all([
+      supabase
+        .from('llm_usage_daily')
+        .select('user_id, day, analyses, prompt_tokens, completion_tokens, cost_usd')
+        .gte('day', since),
+      supabase.from('subscriptions').select('user_id, plan, status'),
+    ])
+
+    if (usage.error || subscriptions.error) {
+      console.error('Error fetching cost report:', usage.error || subscriptions.error)
+      return null
+    }
+
+    return buildCostReport(usage.data || [], subscriptions.data || [], days, since)
+  } catch (error) {
+    console.error('Error in getCostReport:', error)
+    return null
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * Feedback Deduplication
+ *
+ * Overlapping exports (e.g. weekly Zendesk dumps) contain the same feedback
+ * again and again. Each stored feedback entry carries a content hash of its
+ * normalized text; when identical text from the same account arrives again,
+ * the existing analysis is used instead of paying for embedding and LLM calls.
+ *
+ * What happens to the duplicate is an account setting (see lib/settings.ts):
+ * - skip: nothing is stored; the result points at the existing feedback
+ * - link: a new feedback row is stored with `duplicate_of` set, without an
+ *   analysis of its own
+ * - reuse: a new feedback row is stored with `duplicate_of` set, and the
+ *   embedding, analysis, per-topic sentiment and entities of the original
+ *   are copied
+ *
+ * Duplicates never count against the analysis quota.
+ *
+ * Near-duplicates (paraphrases, templated messages, the same customer posting
+ * on several channels) are found by embedding similarity after the new
+ * feedback is embedded. They are still analyzed and charged, but are linked to
+ * the earliest similar feedback via `near_duplicate_of` /
+ * `near_duplicate_similarity` so the dashboard can group them and de-weight
+ * them in charts. `duplicate_of` is reserved for exact duplicates: a
+ * near-duplicate stays an original that later identical copies are matched
+ * against.
+ *
+ * Usage:
+ * ```typescript
+ * const hash = computeContentHash('  Great   product! ')
+ * const originals = await findFeedbackByContentHash(userId, [hash])
+ * if (originals.has(hash)) {
+ *   await copyFeedbackAnalysis(originals.get(hash)!.feedback_id, newFeedbackId)
+ * }
+ * ```
+ */
+
+import { createHash } from 'crypto'
+import {
+  createServerClient,
+  insertAnalysis,
+  insertTopicSentiments,
+  updateFeedbackEmbedding,
+  type FeedbackAnalysis,
+  type FeedbackTopicSentiment,
+} from '@/lib/supabase'
+import { insertFeedbackEntities } from '@/lib/entities'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * How identical feedback from the same account is handled at ingest
+ */
+export type DuplicateHandling = 'skip' | 'link' | 'reuse'
+
+export const DUPLICATE_HANDLING_MODES: DuplicateHandling[] = ['skip', 'link', 'reuse']
+
+/**
+ * Closest earlier feedback of a near-duplicate
+ */
+export interface NearDuplicateMatch {
+  duplicate_of: string
+  similarity: number
+}
+
+/**
+ * Previously analyzed feedback that new feedback duplicates
+ */
+export interface DuplicateSource {
+  feedback_id: string
+  language: string | null
+  analysis: FeedbackAnalysis
+  topic_sentiments: Pick<FeedbackTopicSentiment, 'topic' | 'sentiment' | 'score'>[]
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Minimum cosine similarity for flagging feedback as a near-duplicate.
+ * Can be overridden via NEAR_DUPLICATE_THRESHOLD.
+ */
+export const NEAR_DUPLICATE_THRESHOLD = parseFloat(process.env.NEAR_DUPLICATE_THRESHOLD || '0.95')
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * Normalize feedback text so trivially different copies hash the same
+ * (Unicode NFKC, whitespace collapsed and trimmed, lowercased).
+ *
+ * Must stay in sync with the backfill in supabase/sql/init.sql.
+ */
+export function normalizeForHash(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+/**
+ * Content hash of feedback text, as stored in feedback.content_hash
+ *
+ * @param text - Feedback text as stored (redacted if the account redacts before storage)
+ * @returns Hex-encoded SHA-256 of the normalized text
+ */
+export function computeContentHash(text: string): string {
+  return createHash('sha256').update(normalizeForHash(text), 'utf8').digest('hex')
+}
+
+// ============================================================================
+// DATABASE OPERATIONS
+// ============================================================================
+
+/**
+ * Find analyzed feedback of an account with the given content hashes
+ *
+ * Only originals are returned (feedback that is not itself an exact duplicate
+ * of another entry; near-duplicates count as originals), and only if they
+ * have a complete analysis that can be reused; partial and failed analyses
+ * are redone instead.
+ *
+ * @param userId - Clerk user ID
+ * @param hashes - Content hashes to look up
+ * @returns Map from content hash to the oldest matching feedback (empty on error)
+ */
+export async function findFeedbackByContentHash(
+  userId: string,
+  hashes: string[]
+): Promise<Map<string, DuplicateSource>> {
+  const sources = new Map<string, DuplicateSource>()
+  const distinct = Array.from(new Set(hashes))
+
+  if (distinct.length === 0) {
+    return sources
+  }
+
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('feedback')
+      .select(`
+        id,
+        language,
+        content_hash,
+        feedback_analysis!inner (*),
+        feedback_topic_sentiment (topic, sentiment, score)
+      `)
+      .eq('user_id', userId)
+      .in('content_hash', distinct)
+      .is('duplicate_of', null)
+      .eq('feedback_analysis.status', 'complete')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error finding duplicate feedback:', error)
+      return sources
+    }
+
+    for (const row of (data || []) as any[]) {
+      if (sources.has(row.content_hash)) continue
+
+      const analysis = Array.isArray(row.feedback_analysis)
+        ? row.feedback_analysis[0]
+        : row.feedback_analysis
+      if (!analysis) continue
+
+      sources.set(row.content_hash, {
+        feedback_id: row.id,
+        language: row.language,
+        analysis,
+        topic_sentiments: row.feedback_topic_sentiment || [],
+      })
+    }
+
+    return sources
+  } catch (error) {
+    console.error('Exception in findFeedbackByContentHash:', error)
+    return sources
+  }
+}
+
+/**
+ * Copy the embedding, analysis and per-topic sentiment of one feedback entry
+ * to another (used for duplicates in 'reuse' mode)
+ *
+ * @param sourceFeedbackId - UUID of the analyzed original
+ * @param targetFeedbackId - UUID of the duplicate
+ * @returns The copied analysis, or null on failure
+ */
+export async function copyFeedbackAnalysis(
+  sourceFeedbackId: string,
+  targetFeedbackId: string
+): Promise<FeedbackAnalysis | null> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('feedback')
+      .select(`
+        embedding,
+        feedback_analysis (*),
+        feedback_topic_sentiment (topic, sentiment, score),
+        feedback_entities (type, value, mention)
+      `)
+      .eq('id', sourceFeedbackId)
+      .single()
+
+    if (error) {
+      console.error('Error loading analysis to copy:', error)
+      return null
+    }
+
+    const source = Array.isArray(data.feedback_analysis)
+      ? data.feedback_analysis[0]
+      : data.feedback_analysis
+
+    if (!source) {
+      console.error(`Feedback ${sourceFeedbackId} has no analysis to copy`)
+      return null
+    }
+
+    const analysis = await insertAnalysis(targetFeedbackId, {
+      sentiment: source.sentiment ?? undefined,
+      sentiment_score: source.sentiment_score ?? undefined,
+      emotion: source.emotion ?? undefined,
+      urgency: source.urgency ?? undefined,
+      severity_score: source.severity_score ?? undefined,
+      intents: source.intents ?? undefined,
+      topics: source.topics ?? undefined,
+      categories: source.categories,
+      summary: source.summary ?? undefined,
+      recommendation: source.recommendation ?? undefined,
+      confidence_score: source.confidence_score ?? undefined,
+      status: source.status,
+      subtask_status: source.subtask_status,
+      model: source.model ?? undefined,
+      prompt_version: source.prompt_version ?? undefined,
+      instructions_hash: source.instructions_hash ?? undefined,
+    })
+
+    if (!analysis) {
+      return null
+    }
+
+    // Embedding, topic sentiment and entities are non-critical: the analysis is saved
+    if (data.embedding) {
+      // pgvector columns are returned as '[0.1,0.2,...]' strings
+      const embedding = typeof data.embedding === 'string' ? JSON.parse(data.embedding) : data.embedding
+      await updateFeedbackEmbedding(targetFeedbackId, embedding)
+    }
+
+    await insertTopicSentiments(targetFeedbackId, data.feedback_topic_sentiment || [])
+    await insertFeedbackEntities(targetFeedbackId, data.feedback_entities || [])
+
+    return analysis
+  } catch (error) {
+    console.error('Exception in copyFeedbackAnalysis:', error)
+    return null
+  }
+}
+
+/**
+ * Link near-duplicates to their original feedback
+ *
+ * Matches may point at other near-duplicates (within the batch or stored
+ * earlier) or at exact duplicates; they are resolved to the root of the group
+ * so that every group is one original with its duplicates. Links are stored
+ * in `near_duplicate_of` / `near_duplicate_similarity`, never in
+ * `duplicate_of`, so the content hash lookup still finds near-duplicates.
+ *
+ * @param userId - Clerk user ID
+ * @param matches - Map from new feedback ID to the closest earlier feedback
+ * @returns The stored links (resolved to the group root) of the flagged feedback
+ */
+export async function flagNearDuplicates(
+  userId: string,
+  matches: Map<string, NearDuplicateMatch>
+): Promise<Map<string, NearDuplicateMatch>> {
+  const flagged = new Map<string, NearDuplicateMatch>()
+
+  if (matches.size === 0) {
+    return flagged
+  }
+
+  try {
+    const supabase = createServerClient()
+
+    // Stored matches may themselves be near or exact duplicates of a root
+    const storedIds = Array.from(
+      new Set(
+        Array.from(matches.values())
+          .map((match) => match.duplicate_of)
+          .filter((id) => !matches.has(id))
+      )
+    )
+    const storedRoots = new Map<string, string>()
+
+    if (storedIds.length > 0) {
+      const { data, error } = await supabase
+        .from('feedback')
+        .select('id, duplicate_of, near_duplicate_of')
+        .eq('user_id', userId)
+        .in('id', storedIds)
+
+      if (error) {
+        console.error('Error loading near-duplicate originals:', error)
+        return flagged
+      }
+
+      for (const row of (data || []) as {
+        id: string
+        duplicate_of: string | null
+        near_duplicate_of: string | null
+      }[]) {
+        storedRoots.set(row.id, row.near_duplicate_of || row.duplicate_of || row.id)
+      }
+    }
+
+    const resolveRoot = (feedbackId: string): string => {
+      const seen = new Set<string>()
+      let id = feedbackId
+
+      while (matches.has(id) && !seen.has(id)) {
+        seen.add(id)
+        id = matches.get(id)!.duplicate_of
+      }
+
+      return storedRoots.get(id) || id
+    }
+
+    for (const [feedbackId, match] of Array.from(matches.entries())) {
+      const link = {
+        duplicate_of: resolveRoot(feedbackId),
+        similarity: Math.round(match.similarity * 100) / 100,
+      }
+
+      const { error } = await supabase
+        .from('feedback')
+        .update({ near_duplicate_of: link.duplicate_of, near_duplicate_similarity: link.similarity })
+        .eq('id', feedbackId)
+        .eq('user_id', userId)
+
+      if (error) {
+        console.error(`Error flagging near-duplicate ${feedbackId}:`, error)
+        continue
+      }
+
+      flagged.set(feedbackId, link)
+    }
+
+    return flagged
+  } catch (error) {
+    console.error('Exception in flagNearDuplicates:', error)
+    return flagged
+  }
+}
@@ -0,0 +1,766 @@
+/**
+ * Named Entities
+ *
+ * analyzeFeedback extracts the products, features, competitors, app
+ * versions, platforms and amounts of money a feedback item mentions (see
+ * ENTITY_TYPES in lib/langchain.ts). They are normalized and stored in
+ * `feedback_entities`, one row per feedback, type and value:
+ * - Products, features and competitors are matched against the account's
+ *   entity dictionary: a name or alias (case-insensitive) is stored under
+ *   the dictionary name, and its type wins over the model's. Dictionary
+ *   names are also looked up in the text itself, so a known competitor is
+ *   found even when the model misses it.
+ * - Versions are reduced to their number ('v2.3' and 'version 2.3' → '2.3')
+ * - Platforms get one spelling ('iphone' → 'iOS')
+ * - Amounts become currency and value ('$1,200' → 'USD 1200')
+ *
+ * Entities power the competitor mentions and app version breakdowns
+ * (getEntityBreakdown). After the dictionary changes, existing feedback
+ * keeps its entities until it is re-analyzed.
+ *
+ * Usage:
+ * ```typescript
+ * const dictionary = await getEntityDictionary(userId)
+ * const entities = normalizeEntities(analysis.entities, text, dictionary)
+ * await insertFeedbackEntities(feedbackId, entities)
+ *
+ * const breakdown = await getEntityBreakdown(userId, 90)
+ * breakdown.competitors[0] // { value: 'Globex', mentions: 12, cancellations: 4, ... }
+ * ```
+ */
+
+import { createServerClient } from '@/lib/supabase'
+import type { EntityType, ExtractedEntity } from '@/lib/langchain'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Entity types that can be declared in the dictionary
+ */
+export type DictionaryEntityType = 'product' | 'feature' | 'competitor'
+
+/**
+ * A known product, feature or competitor of an account
+ */
+export interface DictionaryEntry {
+  id: string
+  user_id: string
+  type: DictionaryEntityType
+  /** Name entities are stored under */
+  name: string
+  /** Other spellings of the same entity */
+  aliases: string[]
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Fields accepted when creating or updating a dictionary entry
+ */
+export interface DictionaryEntryInput {
+  type: DictionaryEntityType
+  name: string
+  aliases?: string[]
+}
+
+/**
+ * An entity mentioned in a feedback entry
+ */
+export interface FeedbackEntity {
+  id: string
+  feedback_id: string
+  type: EntityType
+  /** Normalized value (dictionary name, version number, ...) */
+  value: string
+  /** Entity as written in the feedback */
+  mention: string
+  created_at: string
+}
+
+export type FeedbackEntityInsert = Pick<FeedbackEntity, 'type' | 'value' | 'mention'>
+
+/**
+ * Feedback mentioning one entity value over a period
+ */
+export interface EntityMentionStats {
+  type: EntityType
+  value: string
+  /** Feedback entries mentioning the value */
+  mentions: number
+  /** Of which with a complete analysis */
+  analyzed: number
+  positive: number
+  negative: number
+  neutral: number
+  mixed: number
+  /** Average polarity (-1 to 1) of the analyzed entries */
+  avg_sentiment: number | null
+  /** Analyzed entries with a bug report, complaint, pricing complaint or cancellation intent */
+  complaints: number
+  bug_reports: number
+  cancellations: number
+  /** Share of the analyzed entries that are complaints (null without analyses) */
+  complaint_share: number | null
+  last_mentioned_at: string
+}
+
+/**
+ * Complaints about one app version compared to all versions
+ */
+export interface VersionStats extends EntityMentionStats {
+  /** complaint_share / the share over all versions (null without complaints overall) */
+  complaint_lift: number | null
+  /** True if the version draws notably more complaints than the others */
+  elevated: boolean
+}
+
+export interface EntityBreakdown {
+  /** Start of the period covered (ISO date) */
+  since: string
+  /** Most mentioned first */
+  competitors: EntityMentionStats[]
+  products: EntityMentionStats[]
+  features: EntityMentionStats[]
+  platforms: EntityMentionStats[]
+  /** Newest version first */
+  versions: VersionStats[]
+  /** Complaint share over the feedback mentioning any version */
+  version_complaint_share: number | null
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const DICTIONARY_ENTITY_TYPES: DictionaryEntityType[] = ['product', 'feature', 'competitor']
+
+/**
+ * Maximum number of dictionary entries per account
+ */
+export const MAX_DICTIONARY_ENTRIES = 500
+
+const MAX_NAME_LENGTH = 100
+const MAX_ALIASES = 20
+
+/**
+ * Entities stored per feedback entry (first mentioned first)
+ */
+const MAX_ENTITIES_PER_FEEDBACK = 50
+
+/**
+ * A version is elevated when its complaint share is at least this many times
+ * the share over all versions, with at least MIN_ELEVATED_COMPLAINTS complaints
+ */
+const ELEVATED_COMPLAINT_LIFT = 1.5
+const MIN_ELEVATED_COMPLAINTS = 3
+
+/**
+ * Platform spellings (lowercase) → platform name
+ */
+const PLATFORM_NAMES: Record<string, string> = {
+  ios: 'iOS',
+  ipados: 'iOS',
+  iphone: 'iOS',
+  ipad: 'iOS',
+  android: 'Android',
+  windows: 'Windows',
+  macos: 'macOS',
+  mac: 'macOS',
+  osx: 'macOS',
+  'os x': 'macOS',
+  linux: 'Linux',
+  web: 'Web',
+  'web app': 'Web',
+  website: 'Web',
+  browser: 'Web',
+  chrome: 'Chrome',
+  safari: 'Safari',
+  firefox: 'Firefox',
+  edge: 'Edge',
+}
+
+/**
+ * Currency symbols and words (lowercase) → ISO 4217 code
+ */
+const CURRENCY_CODES: Record<string, string> = {
+  $: 'USD',
+  usd: 'USD',
+  dollar: 'USD',
+  dollars: 'USD',
+  '€': 'EUR',
+  eur: 'EUR',
+  euro: 'EUR',
+  euros: 'EUR',
+  '£': 'GBP',
+  gbp: 'GBP',
+  pound: 'GBP',
+  pounds: 'GBP',
+  '¥': 'JPY',
+  jpy: 'JPY',
+  yen: 'JPY',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+function collapseWhitespace(text: string): string {
+  return text.trim().replace(/\s+/g, ' ')
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Version number of a version mention ('v2.3.1', 'version 4' → '2.3.1', '4')
+ *
+ * @returns The number, or null if the mention has none
+ */
+export function normalizeVersion(text: string): string | null {
+  const match = text.match(/\d+(?:\.\d+)*/)
+  return match ? match[0] : null
+}
+
+/**
+ * One spelling per platform ('iPhone', 'ios' → 'iOS'); unknown platforms
+ * are kept as written
+ */
+export function normalizePlatform(text: string): string {
+  const platform = collapseWhitespace(text)
+  return PLATFORM_NAMES[platform.toLowerCase()] || platform
+}
+
+/**
+ * Currency code and value of an amount ('$1,200.50' → 'USD 1200.50',
+ * '9,99 €' → 'EUR 9.99'); amounts without a currency are just the value
+ *
+ * @returns The normalized amount, or null if the mention has no number
+ */
+export function normalizeAmount(text: string): string | null {
+  const match = text.match(/\d+(?:[.,]\d+)*/)
+  if (!match) return null
+
+  // A comma is the decimal separator if it comes last and is not followed by
+  // exactly three digits ('9,99', '1.200,50'); otherwise commas group thousands
+  const raw = match[0]
+  const lastComma = raw.lastIndexOf(',')
+  const decimalComma = lastComma > raw.lastIndexOf('.') && raw.length - lastComma - 1 !== 3
+  const value = Number(decimalComma ? raw.replace(/\./g, '').replace(',', '.') : raw.replace(/,/g, ''))
+  if (!Number.isFinite(value)) return null
+
+  const amount = Number.isInteger(value) ? String(value) : value.toFixed(2)
+  const currency = (text.toLowerCase().match(/[$€£¥]|[a-z]+/g) || [])
+    .map((token) => CURRENCY_CODES[token])
+    .find(Boolean)
+
+  return currency ? `${currency} ${amount}` : amount
+}
+
+/**
+ * Dictionary names and aliases (lowercase) → entry
+ */
+function indexDictionary(dictionary: DictionaryEntry[]): Map<string, DictionaryEntry> {
+  const index = new Map<string, DictionaryEntry>()
+
+  for (const entry of dictionary) {
+    for (const term of [entry.name, ...entry.aliases]) {
+      const key = collapseWhitespace(term).toLowerCase()
+      if (key && !index.has(key)) {
+        index.set(key, entry)
+      }
+    }
+  }
+
+  return index
+}
+
+/**
+ * Normalize the entities extracted from a feedback text
+ *
+ * Products, features and competitors in the dictionary are stored under the
+ * dictionary name and type; dictionary names and aliases found in the text
+ * are added even if the model missed them. Versions and amounts without a
+ * number are dropped.
+ *
+ * @param extracted - Entities from analyzeFeedback
+ * @param text - Feedback text the entities were extracted from
+ * @param dictionary - The account's dictionary entries
+ * @returns Entities to store, each type and value once, in order of mention
+ */
+export function normalizeEntities(
+  extracted: ExtractedEntity[],
+  text: string,
+  dictionary: DictionaryEntry[]
+): FeedbackEntityInsert[] {
+  const index = indexDictionary(dictionary)
+  const entities: FeedbackEntityInsert[] = []
+
+  for (const { type, text: mention } of extracted) {
+    const written = collapseWhitespace(mention)
+    let value: string | null = written
+
+    if (type === 'version') {
+      value = normalizeVersion(written)
+    } else if (type === 'platform') {
+      value = normalizePlatform(written)
+    } else if (type === 'amount') {
+      value = normalizeAmount(written)
+    } else {
+      const entry = index.get(written.toLowerCase())
+      if (entry) {
+        entities.push({ type: entry.type, value: entry.name, mention: written })
+        continue
+      }
+    }
+
+    if (value) {
+      entities.push({ type, value, mention: written })
+    }
+  }
+
+  for (const [term, entry] of Array.from(index.entries())) {
+    const match = text.match(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'iu'))
+    if (match) {
+      entities.push({ type: entry.type, value: entry.name, mention: match[0] })
+    }
+  }
+
+  const seen = new Set<string>()
+  return entities
+    .filter((entity) => {
+      const key = `${entity.type}:${entity.value.toLowerCase()}`
+      if (entity.value.length > MAX_NAME_LENGTH || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .slice(0, MAX_ENTITIES_PER_FEEDBACK)
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate fields for creating (all required) or updating (any subset) a
+ * dictionary entry
+ *
+ * @param body - Parsed request body (any JSON value)
+ * @param dictionary - Current entries of the account
+ * @param entryId - ID of the entry being updated (omit when creating)
+ * @returns Error message, or null if the input is valid
+ */
+export function validateDictionaryInput(
+  body: unknown,
+  dictionary: DictionaryEntry[],
+  entryId?: string
+): string | null {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return 'Request body must be a JSON object'
+  }
+
+  const input = body as Partial<DictionaryEntryInput>
+
+  if (!entryId || input.type !== undefined) {
+    if (!DICTIONARY_ENTITY_TYPES.includes(input.type as DictionaryEntityType)) {
+      return `type must be one of: ${DICTIONARY_ENTITY_TYPES.join(', ')}`
+    }
+  }
+
+  if (!entryId || input.name !== undefined) {
+    if (typeof input.name !== 'string' || input.name.trim().length === 0) {
+      return 'name is required and must be a non-empty string'
+    }
+    if (input.name.trim().length > MAX_NAME_LENGTH) {
+      return `name must be at most ${MAX_NAME_LENGTH} characters`
+    }
+  }
+
+  if (input.aliases !== undefined) {
+    if (
+      !Array.isArray(input.aliases) ||
+      input.aliases.some((alias) => typeof alias !== 'string' || alias.trim().length === 0)
+    ) {
+      return 'aliases must be an array of non-empty strings'
+    }
+    if (input.aliases.length > MAX_ALIASES) {
+      return `aliases must have at most ${MAX_ALIASES} entries`
+    }
+    if (input.aliases.some((alias) => alias.trim().length > MAX_NAME_LENGTH)) {
+      return `aliases must be at most ${MAX_NAME_LENGTH} characters each`
+    }
+  }
+
+  if (!entryId && dictionary.length >= MAX_DICTIONARY_ENTRIES) {
+    return `A dictionary can have at most ${MAX_DICTIONARY_ENTRIES} entries`
+  }
+
+  return null
+}
+
+/**
+ * Find another entry that already uses one of the names or aliases of an
+ * entry (case-insensitive), so every spelling maps to one entry
+ *
+ * @param terms - Name and aliases of the entry being saved
+ * @param dictionary - Current entries of the account
+ * @param entryId - ID of the entry being updated (omit when creating)
+ * @returns The conflicting term and entry, or null if there is none
+ */
+export function findConflictingEntry(
+  terms: string[],
+  dictionary: DictionaryEntry[],
+  entryId?: string
+): { term: string; entry: DictionaryEntry } | null {
+  const index = indexDictionary(dictionary.filter((entry) => entry.id !== entryId))
+
+  for (const term of terms) {
+    const entry = index.get(collapseWhitespace(term).toLowerCase())
+    if (entry) {
+      return { term: collapseWhitespace(term), entry }
+    }
+  }
+
+  return null
+}
+
+// ============================================================================
+// BREAKDOWN
+// ============================================================================
+
+/**
+ * Compare two version numbers, newest first ('2.10' before '2.9')
+ */
+function compareVersionsDescending(a: string, b: string): number {
+  const partsA = a.split('.').map(Number)
+  const partsB = b.split('.').map(Number)
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsB[i] || 0) - (partsA[i] || 0)
+    if (diff !== 0) return diff
+  }
+
+  return b.length - a.length
+}
+
+function ratio(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 100) / 100 : null
+}
+
+/**
+ * Group entity mention statistics into the breakdown shown on the dashboard
+ *
+ * Versions are compared with the complaint share over all versions: a
+ * version is elevated if its share is at least ELEVATED_COMPLAINT_LIFT times
+ * higher, with at least MIN_ELEVATED_COMPLAINTS complaints.
+ *
+ * @param stats - Mention statistics of every entity value
+ * @param since - Start of the period covered
+ * @returns The breakdown (amounts are left out)
+ */
+export function buildEntityBreakdown(stats: EntityMentionStats[], since: string): EntityBreakdown {
+  const byMentions = (type: EntityType) =>
+    stats
+      .filter((row) => row.type === type)
+      .sort((a, b) => b.mentions - a.mentions || a.value.localeCompare(b.value))
+
+  const versions = stats.filter((row) => row.type === 'version')
+  const complaints = versions.reduce((sum, row) => sum + row.complaints, 0)
+  const analyzed = versions.reduce((sum, row) => sum + row.analyzed, 0)
+  const versionShare = ratio(complaints, analyzed)
+
+  return {
+    since,
+    competitors: byMentions('competitor'),
+    products: byMentions('product'),
+    features: byMentions('feature'),
+    platforms: byMentions('platform'),
+    versions: versions
+      .map((row): VersionStats => {
+        const lift =
+          row.complaint_share !== null && versionShare
+            ? Math.round((row.complaint_share / versionShare) * 100) / 100
+            : null
+
+        return {
+          ...row,
+          complaint_lift: lift,
+          elevated: lift !== null && lift >= ELEVATED_COMPLAINT_LIFT && row.complaints >= MIN_ELEVATED_COMPLAINTS,
+        }
+      })
+      .sort((a, b) => compareVersionsDescending(a.value, b.value)),
+    version_complaint_share: versionShare,
+  }
+}
+
+// ============================================================================
+// DATABASE OPERATIONS
+// ============================================================================
+
+/**
+ * Get all entries of an account's entity dictionary
+ *
+ * @param userId - Clerk user ID
+ * @returns Entries ordered by type and name (empty if none are defined)
+ */
+export async function getEntityDictionary(userId: string): Promise<DictionaryEntry[]> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('entity_dictionary')
+      .select('*')
+      .eq('user_id', userId)
+      .order('type', { ascending: true })
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching entity dictionary:', error)
+      return []
+    }
+
+    return (data || []) as DictionaryEntry[]
+  } catch (error) {
+    console.error('Exception in getEntityDictionary:', error)
+    return []
+  }
+}
+
+/**
+ * Add an entry to an account's entity dictionary
+ *
+ * @param userId - Clerk user ID
+ * @param input - Validated entry fields (see validateDictionaryInput)
+ * @returns The created entry, or null on failure (e.g. duplicate name)
+ */
+export async function createDictionaryEntry(
+  userId: string,
+  input: DictionaryEntryInput
+): Promise<DictionaryEntry | null> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('entity_dictionary')
+      .insert({
+        user_id: userId,
+        type: input.type,
+        name: collapseWhitespace(input.name),
+        aliases: (input.aliases || []).map(collapseWhitespace),
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating dictionary entry:', error)
+      return null
+    }
+
+    return data as DictionaryEntry
+  } catch (error) {
+    console.error('Exception in createDictionaryEntry:', error)
+    return null
+  }
+}
+
+/**
+ * Update an entry of an account's entity dictionary
+ *
+ * @param userId - Clerk user ID
+ * @param entryId - UUID of the entry
+ * @param updates - Validated fields to change
+ * @returns The updated entry, or null on failure
+ */
+export async function updateDictionaryEntry(
+  userId: string,
+  entryId: string,
+  updates: Partial<DictionaryEntryInput>
+): Promise<DictionaryEntry | null> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('entity_dictionary')
+      .update({
+        ...(updates.type !== undefined && { type: updates.type }),
+        ...(updates.name !== undefined && { name: collapseWhitespace(updates.name) }),
+        ...(updates.aliases !== undefined && { aliases: updates.aliases.map(collapseWhitespace) }),
+      })
+      .eq('id', entryId)
+      .eq('user_id', userId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating dictionary entry:', error)
+      return null
+    }
+
+    return data as DictionaryEntry
+  } catch (error) {
+    console.error('Exception in updateDictionaryEntry:', error)
+    return null
+  }
+}
+
+/**
+ * Delete an entry from an account's entity dictionary
+ *
+ * Entities already stored under its name are kept.
+ *
+ * @param userId - Clerk user ID
+ * @param entryId - UUID of the entry
+ * @returns Success boolean
+ */
+export async function deleteDictionaryEntry(userId: string, entryId: string): Promise<boolean> {
+  try {
+    const supabase = createServerClient()
+
+    const { error } = await supabase
+      .from('entity_dictionary')
+      .delete()
+      .eq('id', entryId)
+      .eq('user_id', userId)
+
+    if (error) {
+      console.error('Error deleting dictionary entry:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Exception in deleteDictionaryEntry:', error)
+    return false
+  }
+}
+
+/**
+ * Store the entities of a feedback entry
+ *
+ * @param feedbackId - UUID of the feedback
+ * @param entities - Normalized entities (see normalizeEntities)
+ * @returns Inserted rows or null on error
+ */
+export async function insertFeedbackEntities(
+  feedbackId: string,
+  entities: FeedbackEntityInsert[]
+): Promise<FeedbackEntity[] | null> {
+  if (entities.length === 0) {
+    return []
+  }
+
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('feedback_entities')
+      .upsert(
+        entities.map((entity) => ({
+          feedback_id: feedbackId,
+          type: entity.type,
+          value: entity.value,
+          mention: entity.mention,
+        })),
+        { onConflict: 'feedback_id,type,value' }
+      )
+      .select()
+
+    if (error) {
+      console.error('Error inserting feedback entities:', error)
+      return null
+    }
+
+    return data as FeedbackEntity[]
+  } catch (error) {
+    console.error('Exception in insertFeedbackEntities:', error)
+    return null
+  }
+}
+
+/**
+ * Replace all entities of a feedback entry (re-analysis)
+ *
+ * @param feedbackId - UUID of the feedback
+ * @param entities - Normalized entities (see normalizeEntities)
+ * @returns Inserted rows or null on error
+ */
+export async function replaceFeedbackEntities(
+  feedbackId: string,
+  entities: FeedbackEntityInsert[]
+): Promise<FeedbackEntity[] | null> {
+  try {
+    const supabase = createServerClient()
+
+    const { error } = await supabase
+      .from('feedback_entities')
+      .delete()
+      .eq('feedback_id', feedbackId)
+
+    if (error) {
+      console.error('Error deleting feedback entities:', error)
+      return null
+    }
+
+    return await insertFeedbackEntities(feedbackId, entities)
+  } catch (error) {
+    console.error('Exception in replaceFeedbackEntities:', error)
+    return null
+  }
+}
+
+/**
+ * Competitor mentions, app version complaints and the other entities of the
+ * last `days` days
+ *
+ * @param userId - Clerk user ID
+ * @param days - Number of days, today included
+ * @returns The breakdown (empty on error)
+ */
+export async function getEntityBreakdown(userId: string, days: number = 90): Promise<EntityBreakdown> {
+  const since = new Date(Date.now() - days * DAY_MS).toISOString()
+
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase.rpc('entity_mention_stats', {
+      filter_user_id: userId,
+      since,
+    })
+
+    if (error) {
+      console.error('Error fetching entity mention stats:', error)
+      return buildEntityBreakdown([], since)
+    }
+
+    const stats: EntityMentionStats[] = (data || []).map((row: any) => {
+      const analyzed = Number(row.analyzed)
+      const complaints = Number(row.complaints)
+
+      return {
+        type: row.type,
+        value: row.value,
+        mentions: Number(row.mentions),
+        analyzed,
+        positive: Number(row.positive),
+        negative: Number(row.negative),
+        neutral: Number(row.neutral),
+        mixed: Number(row.mixed),
+        avg_sentiment: row.avg_score === null ? null : Number(row.avg_score),
+        complaints,
+        bug_reports: Number(row.bug_reports),
+        cancellations: Number(row.cancellations),
+        complaint_share: ratio(complaints, analyzed),
+        last_mentioned_at: row.last_mentioned_at,
+      }
+    })
+
+    return buildEntityBreakdown(stats, since)
+  } catch (error) {
+    console.error('Exception in getEntityBreakdown:', error)
+    return buildEntityBreakdown([], since)
+  }
+}
@@ -0,0 +1,597 @@
+/**
+ * Offline Evaluation
+ *
+ * Scores analyzeFeedback against a labeled ("golden") dataset so model,
+ * prompt and provider changes can be compared on evidence. Used by
+ * scripts/evaluate.ts, which runs the analyses and writes the reports.
+ *
+ * Datasets are JSONL (one object per line) or CSV (with a header row):
+ * - text (required): the feedback text, in English
+ * - id (optional): defaults to the 1-based row number
+ * - sentiment (optional): positive, neutral, negative or mixed
+ * - topics (optional): expected topics; a JSON array, or in CSV a list
+ *   separated by `;` or `|`
+ * - urgency (optional): low, medium, high or critical
+ *
+ * Each metric only counts the examples labeled for it. Failed analyses count
+ * as wrong answers (and as predicting no topics) rather than being dropped.
+ *
+ * Token counts are estimated at ~4 characters per token from the prompts and
+ * replies seen by the provider, so costs are estimates as well.
+ *
+ * Usage:
+ * ```typescript
+ * const examples = parseDataset(fs.readFileSync('golden.jsonl', 'utf8'), 'jsonl')
+ * const usage = createTokenUsage()
+ * setProvider(createUsageTrackingProvider(getProvider(), usage))
+ * // ... run analyzeFeedback over the examples, collecting predictions ...
+ * const metrics = computeMetrics(examples, predictions, usage, { inputPer1M: 0.15, outputPer1M: 0.6 })
+ * ```
+ */
+
+import Papa from 'papaparse'
+import { URGENCY_LEVELS, type FeedbackAnalysis, type Urgency } from '@/lib/langchain'
+import type { LLMProvider, ProviderName } from '@/lib/providers'
+import type { PromptName, PromptTemplate } from '@/lib/prompts'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+type Sentiment = FeedbackAnalysis['sentiment']
+
+export const EVAL_SENTIMENTS: Sentiment[] = ['positive', 'neutral', 'negative', 'mixed']
+
+/**
+ * Labeled feedback from a golden dataset
+ */
+export interface EvalExample {
+  id: string
+  text: string
+  sentiment?: Sentiment
+  topics?: string[]
+  urgency?: Urgency
+}
+
+/**
+ * Result of analyzing one example
+ */
+export interface EvalPrediction {
+  id: string
+  analysis: FeedbackAnalysis | null
+  error?: string
+  latencyMs: number
+}
+
+/**
+ * Completion calls and estimated tokens seen by a provider
+ */
+export interface TokenUsage {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+}
+
+/**
+ * Model prices in USD per million tokens
+ */
+export interface ModelPricing {
+  inputPer1M: number
+  outputPer1M: number
+}
+
+/**
+ * Configuration to evaluate (the environment is used for anything not set)
+ */
+export interface EvalConfig {
+  name: string
+  /** LLM_PROVIDER to use */
+  provider?: ProviderName
+  /** OPENAI_LLM_MODEL to use */
+  model?: string
+  /** Templates to use instead of the registered ones (see setPromptTemplates) */
+  prompts?: Partial<Record<PromptName, PromptTemplate>>
+  /** Prices used to estimate cost */
+  pricing?: ModelPricing
+}
+
+/**
+ * Confusion matrix; `counts[expected][predicted]` indexes into `labels`
+ */
+export interface ConfusionMatrix {
+  labels: string[]
+  counts: number[][]
+}
+
+/**
+ * Accuracy of a single-label field
+ */
+export interface ClassificationMetrics {
+  /** Examples labeled for this field */
+  labeled: number
+  correct: number
+  /** Null when no example is labeled */
+  accuracy: number | null
+  confusion: ConfusionMatrix
+}
+
+/**
+ * Scores of one configuration over a dataset
+ */
+export interface EvalMetrics {
+  total: number
+  failed: number
+  sentiment: ClassificationMetrics
+  urgency: ClassificationMetrics
+  topics: {
+    labeled: number
+    precision: number | null
+    recall: number | null
+    f1: number | null
+  }
+  latency: {
+    meanMs: number
+    p50Ms: number
+    p95Ms: number
+    maxMs: number
+  }
+  tokens: TokenUsage
+  /** Null without pricing */
+  estimatedCostUsd: number | null
+}
+
+/**
+ * One configuration's run over the dataset
+ */
+export interface EvalRun {
+  config: {
+    name: string
+    provider: string
+    model: string
+    prompt_version: number
+  }
+  metrics: EvalMetrics
+  predictions: EvalPrediction[]
+}
+
+/**
+ * Evaluation report written as JSON and rendered as Markdown
+ */
+export interface EvalReport {
+  dataset: string
+  examples: EvalExample[]
+  createdAt: string
+  runs: EvalRun[]
+}
+
+// ============================================================================
+// DATASETS
+// ============================================================================
+
+/**
+ * Parse a labeled dataset
+ *
+ * @param content - File content
+ * @param format - 'jsonl' or 'csv'
+ * @returns Examples in file order
+ * @throws {Error} With the line or row number of the first invalid example
+ */
+export function parseDataset(content: string, format: 'jsonl' | 'csv'): EvalExample[] {
+  if (format === 'csv') {
+    const parsed = Papa.parse<Record<string, string>>(content.trim(), {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (header) => header.trim().toLowerCase(),
+    })
+
+    if (parsed.errors.length > 0) {
+      const first = parsed.errors[0]
+      throw new Error(`Row ${(first.row ?? 0) + 1}: ${first.message}`)
+    }
+
+    return parsed.data.map((record, index) => toExample(record, index, `Row ${index + 1}`))
+  }
+
+  const examples: EvalExample[] = []
+  content.split(/\r?\n/).forEach((line, lineIndex) => {
+    if (!line.trim()) return
+
+    let record: unknown
+    try {
+      record = JSON.parse(line)
+    } catch {
+      throw new Error(`Line ${lineIndex + 1}: invalid JSON`)
+    }
+
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      throw new Error(`Line ${lineIndex + 1}: expected a JSON object`)
+    }
+
+    examples.push(toExample(record as Record<string, unknown>, examples.length, `Line ${lineIndex + 1}`))
+  })
+
+  return examples
+}
+
+/**
+ * Validate one dataset record
+ */
+function toExample(record: Record<string, unknown>, index: number, location: string): EvalExample {
+  const isBlank = (value: unknown) => value === undefined || value === null || value === ''
+
+  if (typeof record.text !== 'string' || !record.text.trim()) {
+    throw new Error(`${location}: text is required`)
+  }
+
+  const example: EvalExample = {
+    id: isBlank(record.id) ? String(index + 1) : String(record.id),
+    text: record.text,
+  }
+
+  if (!isBlank(record.sentiment)) {
+    const sentiment = String(record.sentiment).trim().toLowerCase() as Sentiment
+    if (!EVAL_SENTIMENTS.includes(sentiment)) {
+      throw new Error(`${location}: sentiment must be one of: ${EVAL_SENTIMENTS.join(', ')}`)
+    }
+    example.sentiment = sentiment
+  }
+
+  if (!isBlank(record.urgency)) {
+    const urgency = String(record.urgency).trim().toLowerCase() as Urgency
+    if (!URGENCY_LEVELS.includes(urgency)) {
+      throw new Error(`${location}: urgency must be one of: ${URGENCY_LEVELS.join(', ')}`)
+    }
+    example.urgency = urgency
+  }
+
+  if (!isBlank(record.topics)) {
+    const topics = Array.isArray(record.topics)
+      ? record.topics
+      : typeof record.topics === 'string'
+        ? record.topics.split(/[;|]/)
+        : null
+
+    if (!topics || topics.some((topic) => typeof topic !== 'string')) {
+      throw new Error(`${location}: topics must be a list of strings`)
+    }
+    example.topics = (topics as string[]).map(normalizeTopic).filter(Boolean)
+  }
+
+  return example
+}
+
+/**
+ * Normalize a topic for comparison (lowercase, single spaces)
+ */
+export function normalizeTopic(topic: string): string {
+  return topic.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+// ============================================================================
+// TOKEN USAGE
+// ============================================================================
+
+/**
+ * Estimate tokens at ~4 characters per token
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Create an empty usage counter
+ */
+export function createTokenUsage(): TokenUsage {
+  return { calls: 0, inputTokens: 0, outputTokens: 0 }
+}
+
+/**
+ * Wrap a provider so every completion adds its estimated tokens to `usage`
+ *
+ * @param provider - Provider to wrap
+ * @param usage - Counter updated in place
+ * @returns Provider with the same behavior
+ */
+export function createUsageTrackingProvider(provider: LLMProvider, usage: TokenUsage): LLMProvider {
+  return {
+    ...provider,
+    async complete(request) {
+      usage.calls += 1
+      usage.inputTokens += request.messages.reduce(
+        (sum, message) => sum + estimateTokens(message.content),
+        0
+      )
+
+      const content = await provider.complete(request)
+      usage.outputTokens += estimateTokens(content || '')
+
+      return content
+    },
+  }
+}
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+/**
+ * Accuracy and confusion matrix of a single-label field
+ */
+function scoreLabels(
+  labels: readonly string[],
+  pairs: Array<{ expected: string; predicted: string | null }>
+): ClassificationMetrics {
+  const counts = labels.map(() => labels.map(() => 0))
+  let correct = 0
+
+  for (const { expected, predicted } of pairs) {
+    if (predicted === null) continue
+    if (predicted === expected) correct++
+
+    const row = labels.indexOf(expected)
+    const column = labels.indexOf(predicted)
+    if (row >= 0 && column >= 0) counts[row][column]++
+  }
+
+  return {
+    labeled: pairs.length,
+    correct,
+    accuracy: pairs.length > 0 ? correct / pairs.length : null,
+    confusion: { labels: [...labels], counts },
+  }
+}
+
+/**
+ * Value at percentile `p` (0-100) of sorted numbers, nearest-rank
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]
+}
+
+/**
+ * Score predictions against the labeled examples
+ *
+ * Topics are compared after normalizeTopic and scored with micro-averaged
+ * precision and recall over the examples that have expected topics.
+ *
+ * @param examples - Labeled examples
+ * @param predictions - One prediction per example (matched by id)
+ * @param usage - Token usage of the run
+ * @param pricing - Model prices, to estimate cost
+ * @returns Metrics of the run
+ */
+export function computeMetrics(
+  examples: EvalExample[],
+  predictions: EvalPrediction[],
+  usage: TokenUsage,
+  pricing?: ModelPricing
+): EvalMetrics {
+  const byId = new Map(predictions.map((prediction) => [prediction.id, prediction]))
+  const analysisOf = (example: EvalExample) => byId.get(example.id)?.analysis || null
+
+  const sentiment = scoreLabels(
+    EVAL_SENTIMENTS,
+    examples
+      .filter((example) => example.sentiment)
+      .map((example) => ({ expected: example.sentiment!, predicted: analysisOf(example)?.sentiment ?? null }))
+  )
+
+  const urgency = scoreLabels(
+    URGENCY_LEVELS,
+    examples
+      .filter((example) => example.urgency)
+      .map((example) => ({ expected: example.urgency!, predicted: analysisOf(example)?.urgency ?? null }))
+  )
+
+  let truePositives = 0
+  let predictedCount = 0
+  let expectedCount = 0
+  const topicExamples = examples.filter((example) => example.topics)
+
+  for (const example of topicExamples) {
+    const expected = new Set(example.topics)
+    const predicted = new Set((analysisOf(example)?.topics || []).map(normalizeTopic))
+
+    expectedCount += expected.size
+    predictedCount += predicted.size
+    predicted.forEach((topic) => {
+      if (expected.has(topic)) truePositives++
+    })
+  }
+
+  const precision = predictedCount > 0 ? truePositives / predictedCount : topicExamples.length > 0 ? 0 : null
+  const recall = expectedCount > 0 ? truePositives / expectedCount : null
+  const f1 =
+    precision !== null && recall !== null
+      ? precision + recall > 0
+        ? (2 * precision * recall) / (precision + recall)
+        : 0
+      : null
+
+  const latencies = predictions.map((prediction) => prediction.latencyMs).sort((a, b) => a - b)
+  const meanMs = latencies.length > 0 ? latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length : 0
+
+  return {
+    total: examples.length,
+    failed: examples.filter((example) => !analysisOf(example)).length,
+    sentiment,
+    urgency,
+    topics: { labeled: topicExamples.length, precision, recall, f1 },
+    latency: {
+      meanMs: Math.round(meanMs),
+      p50Ms: percentile(latencies, 50),
+      p95Ms: percentile(latencies, 95),
+      maxMs: latencies[latencies.length - 1] ?? 0,
+    },
+    tokens: { ...usage },
+    estimatedCostUsd: pricing
+      ? (usage.inputTokens * pricing.inputPer1M + usage.outputTokens * pricing.outputPer1M) / 1_000_000
+      : null,
+  }
+}
+
+// ============================================================================
+// MARKDOWN REPORT
+// ============================================================================
+
+/** Maximum number of examples listed under "Disagreements" */
+const MAX_REPORTED_DISAGREEMENTS = 25
+
+function formatPercent(value: number | null): string {
+  return value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`
+}
+
+function formatCost(value: number | null): string {
+  return value === null ? 'n/a' : `$${value.toFixed(4)}`
+}
+
+/**
+ * Difference between two runs, for the last column of the summary table
+ */
+function formatDelta(a: number | null, b: number | null, unit: '%' | 'ms' | '$' | ''): string {
+  if (a === null || b === null) return ''
+  const delta = b - a
+  const sign = delta > 0 ? '+' : ''
+
+  switch (unit) {
+    case '%':
+      return `${sign}${(delta * 100).toFixed(1)} pts`
+    case 'ms':
+      return `${sign}${Math.round(delta)} ms`
+    case '$':
+      return `${delta < 0 ? '-' : sign}$${Math.abs(delta).toFixed(4)}`
+    default:
+      return `${sign}${delta}`
+  }
+}
+
+function formatTable(header: string[], rows: string[][]): string[] {
+  // Cells must stay on one line and must not close the cell early
+  const escape = (cell: string) => cell.replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|')
+
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(escape).join(' | ')} |`),
+  ]
+}
+
+function formatConfusion(title: string, metrics: ClassificationMetrics): string[] {
+  const { labels, counts } = metrics.confusion
+
+  return [
+    `**${title}** (rows: expected, columns: predicted)`,
+    '',
+    ...formatTable(
+      ['', ...labels],
+      labels.map((label, row) => [`**${label}**`, ...counts[row].map(String)])
+    ),
+    '',
+  ]
+}
+
+/**
+ * Render a report as Markdown: a side-by-side summary (with deltas when two
+ * configurations are compared), confusion matrices, and the examples that
+ * were answered wrongly or differently
+ *
+ * @param report - Evaluation report
+ * @returns Markdown document
+ */
+export function formatMarkdownReport(report: EvalReport): string {
+  const { runs } = report
+  const compare = runs.length === 2
+  const lines: string[] = [
+    '# Feedback Analysis Evaluation',
+    '',
+    `- Dataset: \`${report.dataset}\` (${report.examples.length} examples)`,
+    `- Date: ${report.createdAt}`,
+    '',
+    '## Summary',
+    '',
+  ]
+
+  type Row = [string, (metrics: EvalMetrics) => number | null, (value: number | null) => string, '%' | 'ms' | '$' | '']
+  const rows: Row[] = [
+    ['Failed analyses', (m) => m.failed, (v) => String(v), ''],
+    ['Sentiment accuracy', (m) => m.sentiment.accuracy, formatPercent, '%'],
+    ['Urgency accuracy', (m) => m.urgency.accuracy, formatPercent, '%'],
+    ['Topic precision', (m) => m.topics.precision, formatPercent, '%'],
+    ['Topic recall', (m) => m.topics.recall, formatPercent, '%'],
+    ['Topic F1', (m) => m.topics.f1, formatPercent, '%'],
+    ['Mean latency', (m) => m.latency.meanMs, (v) => `${v} ms`, 'ms'],
+    ['p95 latency', (m) => m.latency.p95Ms, (v) => `${v} ms`, 'ms'],
+    ['LLM calls', (m) => m.tokens.calls, (v) => String(v), ''],
+    ['Input tokens (est.)', (m) => m.tokens.inputTokens, (v) => String(v), ''],
+    ['Output tokens (est.)', (m) => m.tokens.outputTokens, (v) => String(v), ''],
+    ['Cost (est.)', (m) => m.estimatedCostUsd, formatCost, '$'],
+  ]
+
+  lines.push(
+    ...formatTable(
+      ['Metric', ...runs.map((run) => run.config.name), ...(compare ? ['Δ'] : [])],
+      [
+        ['Provider', ...runs.map((run) => run.config.provider), ...(compare ? [''] : [])],
+        ['Model', ...runs.map((run) => run.config.model), ...(compare ? [''] : [])],
+        ['Prompt version', ...runs.map((run) => `v${run.config.prompt_version}`), ...(compare ? [''] : [])],
+        ...rows.map(([label, value, format, unit]) => [
+          label,
+          ...runs.map((run) => format(value(run.metrics))),
+          ...(compare ? [formatDelta(value(runs[0].metrics), value(runs[1].metrics), unit)] : []),
+        ]),
+      ]
+    ),
+    ''
+  )
+
+  lines.push('## Confusion Matrices', '')
+  for (const run of runs) {
+    lines.push(`### ${run.config.name}`, '')
+    if (run.metrics.sentiment.labeled > 0) lines.push(...formatConfusion('Sentiment', run.metrics.sentiment))
+    if (run.metrics.urgency.labeled > 0) lines.push(...formatConfusion('Urgency', run.metrics.urgency))
+  }
+
+  // Examples any run got wrong, or (when comparing) that the runs disagree on
+  const predictionsById = runs.map((run) => new Map(run.predictions.map((p) => [p.id, p])))
+  const disagreements = report.examples.filter((example) => {
+    const answers = predictionsById.map((byId) => byId.get(example.id)?.analysis || null)
+    return answers.some(
+      (analysis, index) =>
+        !analysis ||
+        (example.sentiment && analysis.sentiment !== example.sentiment) ||
+        (example.urgency && analysis.urgency !== example.urgency) ||
+        (index > 0 && analysis.sentiment !== answers[0]?.sentiment)
+    )
+  })
+
+  lines.push('## Disagreements', '')
+  if (disagreements.length === 0) {
+    lines.push('Every labeled sentiment and urgency matched.', '')
+  } else {
+    const answer = (byId: Map<string, EvalPrediction>, example: EvalExample) => {
+      const prediction = byId.get(example.id)
+      if (!prediction?.analysis) return `failed${prediction?.error ? `: ${prediction.error}` : ''}`
+      return `${prediction.analysis.sentiment} / ${prediction.analysis.urgency}`
+    }
+
+    lines.push(
+      ...formatTable(
+        ['ID', 'Expected', ...runs.map((run) => run.config.name), 'Text'],
+        disagreements.slice(0, MAX_REPORTED_DISAGREEMENTS).map((example) => [
+          example.id,
+          `${example.sentiment || '—'} / ${example.urgency || '—'}`,
+          ...predictionsById.map((byId) => answer(byId, example)),
+          example.text.length > 80 ? `${example.text.slice(0, 77)}...` : example.text,
+        ])
+      ),
+      ''
+    )
+    if (disagreements.length > MAX_REPORTED_DISAGREEMENTS) {
+      lines.push(`${disagreements.length - MAX_REPORTED_DISAGREEMENTS} more in the JSON report.`, '')
+    }
+  }
+
+  return lines.join('\n').replace(/\n+$/, '\n')
+}
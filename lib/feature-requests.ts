@@ -0,0 +1,254 @@
+/**
+ * Feature Requests
+ *
+ * Groups the feedback analyzed as a feature request (see INTENTS in
+ * lib/langchain.ts) into requests for the same capability, for roadmap
+ * planning. Requests are grouped by embedding similarity: each request joins
+ * the most similar group if it is at least FEATURE_REQUEST_GROUP_THRESHOLD
+ * similar to the group's centre, and starts a new group otherwise.
+ *
+ * Groups are ranked by unique requesters, counted by `username`. Feedback
+ * without a username counts as a requester of its own, since its authors
+ * cannot be told apart. Duplicates are included, so a request cross-posted
+ * by several customers counts every one of them.
+ *
+ * Groups are computed on request (no LLM calls) and can be exported as CSV.
+ *
+ * Usage:
+ * ```typescript
+ * const report = await getFeatureRequests(userId, 90)
+ * report.groups[0] // { title: 'Customer asks for a dark mode', requesters: 14, requests: 17, ... }
+ *
+ * const csv = toFeatureRequestsCsv(report.groups)
+ * ```
+ */
+
+import { getFeedbackByIntent, type IntentFeedback } from '@/lib/supabase'
+import { averageSentiment, normalize, selectExamples, topTopics, type ThemeExample } from '@/lib/themes'
+import { getTopicAliasMap } from '@/lib/topics'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface FeatureRequestGroup {
+  /** Summary of the most typical request */
+  title: string
+  /** Feedback entries in the group */
+  requests: number
+  /** Unique usernames, plus one per entry without a username */
+  requesters: number
+  /** Distinct usernames, most recent request first */
+  usernames: string[]
+  /** Most frequent (canonical) topics of the requests */
+  topics: string[]
+  /** Average polarity (-1 to 1) of the requests */
+  avg_sentiment: number | null
+  first_requested_at: string
+  last_requested_at: string
+  examples: ThemeExample[]
+  feedback_ids: string[]
+}
+
+export interface FeatureRequestReport {
+  /** Start of the period covered (ISO date) */
+  since: string
+  /** Feature requests in the period */
+  feedback_count: number
+  /** True if the period had more requests than a report covers (most recent kept) */
+  truncated: boolean
+  /** Most requesters first */
+  groups: FeatureRequestGroup[]
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Minimum cosine similarity of a request to a group's centre to join it
+ * Can be overridden via FEATURE_REQUEST_GROUP_THRESHOLD environment variable
+ */
+const FEATURE_REQUEST_GROUP_THRESHOLD = parseFloat(process.env.FEATURE_REQUEST_GROUP_THRESHOLD || '0.75')
+
+/**
+ * Maximum number of feature requests in a report (most recent first)
+ */
+export const MAX_FEATURE_REQUESTS = 1000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ============================================================================
+// GROUPING
+// ============================================================================
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i]
+  }
+  return sum
+}
+
+/**
+ * Group unit-length vectors by similarity
+ *
+ * Vectors are assigned in order: each joins the group whose centre it is
+ * most similar to, if at least `threshold` similar, and starts a new group
+ * otherwise. Group centres are the running mean of their members.
+ *
+ * @param vectors - Unit-length vectors (see normalize)
+ * @param threshold - Minimum cosine similarity to a group's centre
+ * @returns Groups of vector indexes, largest first, most typical member first
+ */
+export function groupBySimilarity(vectors: number[][], threshold: number): number[][] {
+  const groups: Array<{ sum: number[]; centre: number[]; members: number[] }> = []
+
+  vectors.forEach((vector, index) => {
+    let best: (typeof groups)[number] | null = null
+    let bestSimilarity = threshold
+
+    for (const group of groups) {
+      const similarity = dot(vector, group.centre)
+      if (similarity >= bestSimilarity) {
+        best = group
+        bestSimilarity = similarity
+      }
+    }
+
+    if (!best) {
+      groups.push({ sum: [...vector], centre: vector, members: [index] })
+      return
+    }
+
+    for (let i = 0; i < vector.length; i++) {
+      best.sum[i] += vector[i]
+    }
+    best.centre = normalize(best.sum)
+    best.members.push(index)
+  })
+
+  return groups
+    .map(({ centre, members }) =>
+      members
+        .map((index) => ({ index, similarity: dot(vectors[index], centre) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .map(({ index }) => index)
+    )
+    .sort((a, b) => b.length - a.length)
+}
+
+/**
+ * Unique requesters of `rows`: distinct usernames (case-insensitive), plus
+ * one per entry without a username
+ */
+export function countRequesters(rows: IntentFeedback[]): { requesters: number; usernames: string[] } {
+  const usernames = new Map<string, string>()
+  let anonymous = 0
+
+  for (const row of rows) {
+    const username = row.username?.trim()
+    if (!username) {
+      anonymous++
+    } else if (!usernames.has(username.toLowerCase())) {
+      usernames.set(username.toLowerCase(), username)
+    }
+  }
+
+  return { requesters: usernames.size + anonymous, usernames: Array.from(usernames.values()) }
+}
+
+/**
+ * Group feature requests and describe every group
+ *
+ * @param rows - Feature requests with embeddings, most recent first
+ * @param aliases - Alias → canonical topic map of the account
+ * @returns Groups, most requesters first (then most requests)
+ */
+export function buildFeatureRequestGroups(
+  rows: IntentFeedback[],
+  aliases: Record<string, string>
+): FeatureRequestGroup[] {
+  const groups = groupBySimilarity(
+    rows.map((row) => normalize(row.embedding)),
+    FEATURE_REQUEST_GROUP_THRESHOLD
+  )
+
+  return groups
+    .map((members): FeatureRequestGroup => {
+      const requests = members.map((index) => rows[index])
+      const byDate = [...requests].sort((a, b) => b.created_at.localeCompare(a.created_at))
+      const examples = selectExamples(rows, members)
+
+      return {
+        title: requests[0].analysis?.summary || examples[0]?.text || 'Feature request',
+        requests: requests.length,
+        ...countRequesters(byDate),
+        topics: topTopics(requests, aliases),
+        avg_sentiment: averageSentiment(requests),
+        first_requested_at: byDate[byDate.length - 1].created_at,
+        last_requested_at: byDate[0].created_at,
+        examples,
+        feedback_ids: requests.map((row) => row.id),
+      }
+    })
+    .sort((a, b) => b.requesters - a.requesters || b.requests - a.requests)
+}
+
+/**
+ * CSV field, quoted when needed; text starting with =, +, - or @ is
+ * prefixed with ' so spreadsheets do not run it as a formula
+ */
+function escapeCsv(value: string | number | null): string {
+  let text = value === null ? '' : String(value)
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Feature request groups as CSV, one row per group
+ */
+export function toFeatureRequestsCsv(groups: FeatureRequestGroup[]): string {
+  const header = ['request', 'requesters', 'requests', 'usernames', 'topics', 'avg_sentiment', 'first_requested', 'last_requested', 'example']
+  const rows = groups.map((group) => [
+    group.title,
+    group.requesters,
+    group.requests,
+    group.usernames.join('; '),
+    group.topics.join('; '),
+    group.avg_sentiment,
+    group.first_requested_at.slice(0, 10),
+    group.last_requested_at.slice(0, 10),
+    group.examples[0]?.text ?? null,
+  ])
+
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\n') + '\n'
+}
+
+// ============================================================================
+// DATABASE OPERATIONS
+// ============================================================================
+
+/**
+ * Group the feature requests of the last `days` days
+ *
+ * @param userId - Clerk user ID
+ * @param days - Number of days, today included
+ * @returns Report of the grouped requests (no groups on error)
+ */
+export async function getFeatureRequests(userId: string, days: number = 90): Promise<FeatureRequestReport> {
+  const since = new Date(Date.now() - days * DAY_MS).toISOString()
+  const [rows, aliases] = await Promise.all([
+    getFeedbackByIntent(userId, 'feature_request', since, MAX_FEATURE_REQUESTS),
+    getTopicAliasMap(userId),
+  ])
+
+  return {
+    since,
+    feedback_count: rows.length,
+    truncated: rows.length === MAX_FEATURE_REQUESTS,
+    groups: buildFeatureRequestGroups(rows, aliases),
+  }
+}
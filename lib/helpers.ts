@@ -0,0 +1,64 @@
+/**
+ * Shared Helpers
+ *
+ * Small helpers used across the analysis, insights, theme discovery, anomaly
+ * detection and question answering modules.
+ *
+ * Usage:
+ * ```typescript
+ * const names = await processConcurrently(clusters, (cluster) => nameTheme(cluster), 3)
+ * round(0.4567) // 0.46
+ * redactedText({ text: 'Mail jane@example.com', translated_text: null }) // 'Mail [EMAIL_1]'
+ * ```
+ */
+
+import { redactPII } from '@/lib/redaction'
+
+/**
+ * Run `processor` over `items` with at most `concurrency` calls at a time
+ *
+ * @param items - Items to process
+ * @param processor - Called with each item and its index
+ * @param concurrency - Maximum number of calls in flight
+ * @returns Results in the order of `items`
+ * @throws The first error a call throws
+ */
+export async function processConcurrently<T, R>(
+  items: T[],
+  processor: (item: T, index: number) => Promise<R>,
+  concurrency: number
+): Promise<R[]> {
+  const results: R[] = []
+  const executing = new Set<Promise<void>>()
+
+  for (let index = 0; index < items.length; index++) {
+    const promise: Promise<void> = processor(items[index], index).then((result) => {
+      results[index] = result
+      executing.delete(promise)
+    })
+
+    executing.add(promise)
+
+    if (executing.size >= concurrency) {
+      await Promise.race(executing)
+    }
+  }
+
+  await Promise.all(executing)
+  return results
+}
+
+/**
+ * Round to a number of decimal places (2 by default)
+ */
+export function round(value: number, digits: number = 2): number {
+  return Math.round(value * 10 ** digits) / 10 ** digits
+}
+
+/**
+ * Redacted, whitespace-collapsed text of a feedback entry (its English
+ * translation if there is one), as sent to the LLM or shown as an excerpt
+ */
+export function redactedText(row: { text: string; translated_text: string | null }): string {
+  return redactPII(row.translated_text || row.text).text.replace(/\s+/g, ' ').trim()
+}
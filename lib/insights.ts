@@ -0,0 +1,674 @@
+/**
+ * Insights Reports
+ *
+ * Turns the analyses of a period or of one upload into an executive report:
+ * the top issues ranked by volume and severity, with representative quotes and
+ * their trend against the preceding period, and prioritized recommendations.
+ *
+ * Reports are map-reduced over the stored analyses (summaries, topics and
+ * severity), so no feedback is analyzed again: batches of items are grouped
+ * into issues (extractIssues), then the issues of all batches are merged and
+ * summarized (consolidateInsights, see lib/langchain.ts). Quotes are redacted
+ * excerpts of the feedback itself and never go through the LLM.
+ *
+ * Every generated report is stored. Generating a report for the same scope
+ * again adds a new version, so earlier versions can be revisited.
+ *
+ * Usage:
+ * ```typescript
+ * const report = await generateInsightsReport(userId, { from: '2026-03-01', to: '2026-04-01' })
+ * report?.report.issues[0] // { rank: 1, title: 'Late deliveries', trend: 'rising', quotes: [...] }
+ *
+ * const versions = await listInsightsReports(userId)
+ * ```
+ */
+
+import {
+  consolidateInsights,
+  extractIssues,
+  getInsightsVersion,
+  type ExtractedIssue,
+  type InsightPriority,
+  type InsightsItem,
+} from '@/lib/langchain'
+import { createServerClient, getFeedbackForInsights, type FeedbackForInsights } from '@/lib/supabase'
+import type { PromptInstructions } from '@/lib/prompts'
+import { getAccountSettings, toPromptInstructions } from '@/lib/settings'
+import { getTopicAliasMap } from '@/lib/topics'
+import { processConcurrently, redactedText, round } from '@/lib/helpers'
+import { withUsageTracking, type UsageRecord } from '@/lib/usage'
+import { storeUsageRecords } from '@/lib/costs'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Feedback a report covers: created in [from, to), or submitted in one upload
+ */
+export type InsightsScope = { from: string; to: string } | { uploadId: string }
+
+/**
+ * Direction of an issue's mention rate against the preceding period
+ * ('unknown' without feedback to compare against)
+ */
+export type TrendDirection = 'new' | 'rising' | 'stable' | 'falling' | 'unknown'
+
+export interface InsightQuote {
+  feedback_id: string
+  /** Redacted excerpt of the feedback (English translation if there is one) */
+  text: string
+  sentiment: string | null
+  severity: number | null
+}
+
+export interface InsightIssue {
+  /** 1 = most important */
+  rank: number
+  title: string
+  description: string
+  /** Feedback entries the issue covers */
+  feedback_count: number
+  avg_severity: number
+  /** Ranking score: volume weighted by severity */
+  score: number
+  /** Most frequent (canonical) topics of the issue's feedback */
+  topics: string[]
+  /** Share of the feedback in scope mentioning one of the topics */
+  mention_rate: number
+  /** The same share in the preceding period (null without feedback then) */
+  previous_mention_rate: number | null
+  trend: TrendDirection
+  quotes: InsightQuote[]
+}
+
+export interface InsightRecommendation {
+  priority: InsightPriority
+  recommendation: string
+  /** Ranks of the issues it addresses */
+  issues: number[]
+}
+
+/**
+ * Content of a report (the `report` column)
+ */
+export interface InsightsReportContent {
+  executive_summary: string
+  issues: InsightIssue[]
+  recommendations: InsightRecommendation[]
+  /** Period the trends compare against */
+  baseline: { from: string; to: string; feedback_count: number } | null
+  /** True if the scope had more feedback than a report covers (most recent kept) */
+  truncated: boolean
+}
+
+/**
+ * Stored report (row of `insights_reports`)
+ */
+export interface InsightsReport {
+  id: string
+  user_id: string
+  title: string
+  scope: 'period' | 'upload'
+  period_start: string | null
+  period_end: string | null
+  upload_id: string | null
+  scope_key: string
+  version: number
+  feedback_count: number
+  report: InsightsReportContent
+  model: string | null
+  prompt_version: number | null
+  created_at: string
+}
+
+export type InsightsReportSummary = Omit<InsightsReport, 'report'>
+
+/**
+ * Thrown when a scope has no analyzed feedback to report on
+ */
+export class InsightsScopeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InsightsScopeError'
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Maximum number of feedback entries in a report (most recent first)
+ */
+export const MAX_INSIGHTS_FEEDBACK = 1000
+
+/**
+ * Feedback items per map call
+ */
+const INSIGHTS_BATCH_SIZE = 40
+
+/**
+ * Map calls run concurrently
+ */
+const MAP_CONCURRENCY = 3
+
+const MAX_QUOTES_PER_ISSUE = 3
+const MAX_QUOTE_CHARS = 200
+const MAX_ISSUE_TOPICS = 3
+
+/**
+ * Mention rate ratios (current / previous) beyond which an issue is rising or falling
+ */
+const RISING_RATIO = 1.25
+const FALLING_RATIO = 0.8
+
+/**
+ * Days before an upload its trends compare against
+ */
+const UPLOAD_BASELINE_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Longest period a report (or theme run) can cover, in days
+ */
+export const MAX_SCOPE_DAYS = 366
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const SUMMARY_COLUMNS =
+  'id, user_id, title, scope, period_start, period_end, upload_id, scope_key, version, feedback_count, model, prompt_version, created_at'
+
+// ============================================================================
+// REPORT BUILDING
+// ============================================================================
+
+/**
+ * Validate the scope of a request body: an object with `uploadId`, or `from`
+ * and `to` (ISO 8601, at most MAX_SCOPE_DAYS apart)
+ *
+ * @param input - Parsed request body (any JSON value)
+ * @returns The scope, or the validation error message
+ */
+export function parseScope(input: unknown): { scope: InsightsScope } | { error: string } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { error: 'Request body must be a JSON object' }
+  }
+
+  const body = input as Record<string, unknown>
+
+  if (body.uploadId !== undefined) {
+    if (body.from !== undefined || body.to !== undefined) {
+      return { error: 'Provide either uploadId or from and to, not both' }
+    }
+
+    if (typeof body.uploadId !== 'string' || !UUID_PATTERN.test(body.uploadId)) {
+      return { error: 'uploadId must be a UUID' }
+    }
+
+    return { scope: { uploadId: body.uploadId } }
+  }
+
+  const { from, to } = body
+  if (typeof from !== 'string' || isNaN(Date.parse(from))) {
+    return { error: 'from must be an ISO 8601 date' }
+  }
+  if (typeof to !== 'string' || isNaN(Date.parse(to))) {
+    return { error: 'to must be an ISO 8601 date' }
+  }
+
+  const days = (Date.parse(to) - Date.parse(from)) / DAY_MS
+  if (days <= 0 || days > MAX_SCOPE_DAYS) {
+    return { error: `to must be after from, at most ${MAX_SCOPE_DAYS} days apart` }
+  }
+
+  return { scope: { from, to } }
+}
+
+/**
+ * Key identifying a scope across report versions
+ *
+ * @param scope - Period or upload
+ * @returns 'period:<from>..<to>' (ISO timestamps) or 'upload:<id>'
+ */
+export function getScopeKey(scope: InsightsScope): string {
+  return 'uploadId' in scope
+    ? `upload:${scope.uploadId}`
+    : `period:${new Date(scope.from).toISOString()}..${new Date(scope.to).toISOString()}`
+}
+
+/**
+ * Describe analyzed feedback for the map step, with canonical topics
+ *
+ * @param row - Analyzed feedback
+ * @param aliases - Alias → canonical topic map of the account
+ * @returns Item with its sentiment, severity, distinct canonical topics and summary
+ */
+export function toInsightsItem(row: FeedbackForInsights, aliases: Record<string, string>): InsightsItem {
+  const topics = (row.analysis.topics || []).map((topic) => {
+    const normalized = topic.trim().toLowerCase()
+    return aliases[normalized] ?? normalized
+  })
+
+  return {
+    sentiment: row.analysis.sentiment || 'unknown',
+    severity: row.analysis.severity_score,
+    topics: Array.from(new Set(topics)).filter(Boolean),
+    summary: row.analysis.summary || row.translated_text || row.text,
+  }
+}
+
+/**
+ * Share of items mentioning at least one of `topics`
+ */
+export function mentionRate(items: Pick<InsightsItem, 'topics'>[], topics: string[]): number {
+  if (items.length === 0) {
+    return 0
+  }
+
+  const wanted = new Set(topics)
+  return items.filter((item) => item.topics.some((topic) => wanted.has(topic))).length / items.length
+}
+
+/**
+ * Trend of a mention rate against the preceding period
+ *
+ * @param current - Mention rate in scope
+ * @param previous - Mention rate in the preceding period (null without feedback then)
+ * @returns Trend direction
+ */
+export function classifyTrend(current: number, previous: number | null): TrendDirection {
+  if (previous === null) return 'unknown'
+  if (previous === 0) return current > 0 ? 'new' : 'stable'
+
+  const ratio = current / previous
+  if (ratio >= RISING_RATIO) return 'rising'
+  if (ratio <= FALLING_RATIO) return 'falling'
+  return 'stable'
+}
+
+/**
+ * Period the trends of a report compare against: the period of equal
+ * length just before a period scope, or the days before an upload
+ *
+ * @param scope - Period or upload
+ * @param rows - Feedback in scope
+ * @returns ISO date range
+ */
+export function getBaselinePeriod(
+  scope: InsightsScope,
+  rows: Pick<FeedbackForInsights, 'created_at'>[]
+): { from: string; to: string } {
+  if ('uploadId' in scope) {
+    const first = Math.min(...rows.map((row) => Date.parse(row.created_at)))
+    return {
+      from: new Date(first - UPLOAD_BASELINE_DAYS * DAY_MS).toISOString(),
+      to: new Date(first).toISOString(),
+    }
+  }
+
+  const from = Date.parse(scope.from)
+  return {
+    from: new Date(from - (Date.parse(scope.to) - from)).toISOString(),
+    to: new Date(from).toISOString(),
+  }
+}
+
+/**
+ * Redacted excerpts of the most severe feedback of an issue
+ *
+ * @param rows - Feedback in scope
+ * @param indexes - Indexes of the issue's feedback in `rows`
+ * @returns Up to MAX_QUOTES_PER_ISSUE distinct quotes, most severe first
+ */
+export function selectQuotes(rows: FeedbackForInsights[], indexes: number[]): InsightQuote[] {
+  const quotes: InsightQuote[] = []
+  const seen = new Set<string>()
+
+  const bySeverity = [...indexes].sort(
+    (a, b) => (rows[b].analysis.severity_score ?? 0) - (rows[a].analysis.severity_score ?? 0)
+  )
+
+  for (const index of bySeverity) {
+    const row = rows[index]
+    const text = redactedText(row)
+
+    if (!text || seen.has(text.toLowerCase())) {
+      continue
+    }
+    seen.add(text.toLowerCase())
+
+    quotes.push({
+      feedback_id: row.id,
+      text: text.length > MAX_QUOTE_CHARS ? `${text.slice(0, MAX_QUOTE_CHARS).trimEnd()}…` : text,
+      sentiment: row.analysis.sentiment,
+      severity: row.analysis.severity_score,
+    })
+
+    if (quotes.length === MAX_QUOTES_PER_ISSUE) {
+      break
+    }
+  }
+
+  return quotes
+}
+
+/**
+ * Most frequent topics among the given items
+ */
+function topTopics(items: InsightsItem[]): string[] {
+  const counts = new Map<string, number>()
+  for (const item of items) {
+    for (const topic of item.topics) {
+      counts.set(topic, (counts.get(topic) || 0) + 1)
+    }
+  }
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_ISSUE_TOPICS)
+    .map(([topic]) => topic)
+}
+
+function averageSeverity(items: InsightsItem[]): number {
+  const severities = items.map((item) => item.severity).filter((severity): severity is number => severity !== null)
+  return severities.length > 0 ? severities.reduce((sum, severity) => sum + severity, 0) / severities.length : 0
+}
+
+
+/**
+ * Build the report content from the feedback in scope
+ *
+ * Issues are ranked by feedback count × (0.5 + average severity), so a
+ * frequent minor issue and a rarer severe one both rank high.
+ *
+ * @param rows - Analyzed feedback in scope
+ * @param items - The same feedback as described to the LLM (see toInsightsItem)
+ * @param baselineItems - Feedback of the baseline period (null if there is no baseline)
+ * @param instructions - Account context and rules added to the prompts
+ * @returns Report content (without baseline and truncation details)
+ */
+export async function buildInsights(
+  rows: FeedbackForInsights[],
+  items: InsightsItem[],
+  baselineItems: InsightsItem[] | null,
+  instructions?: PromptInstructions
+): Promise<Pick<InsightsReportContent, 'executive_summary' | 'issues' | 'recommendations'>> {
+  // Map: group each batch of items into issues (item indexes made global)
+  const batches: number[] = []
+  for (let start = 0; start < items.length; start += INSIGHTS_BATCH_SIZE) {
+    batches.push(start)
+  }
+
+  const mapped: ExtractedIssue[] = (
+    await processConcurrently(
+      batches,
+      async (start) => {
+        const issues = await extractIssues(items.slice(start, start + INSIGHTS_BATCH_SIZE), instructions)
+        return issues.map((issue) => ({ ...issue, items: issue.items.map((index) => start + index) }))
+      },
+      MAP_CONCURRENCY
+    )
+  ).flat()
+
+  if (mapped.length === 0) {
+    return {
+      executive_summary: `No recurring issues were found in ${items.length} feedback items.`,
+      issues: [],
+      recommendations: [],
+    }
+  }
+
+  // Reduce: merge the issues of all batches
+  const consolidated = await consolidateInsights(
+    mapped.map((issue) => ({
+      title: issue.title,
+      description: issue.description,
+      recommendation: issue.recommendation,
+      count: issue.items.length,
+      avgSeverity: averageSeverity(issue.items.map((index) => items[index])),
+    })),
+    instructions
+  )
+
+  const issues = consolidated.issues.map((issue, position): { position: number; issue: InsightIssue } => {
+    const indexes = Array.from(new Set(issue.merges.flatMap((index) => mapped[index].items)))
+    const issueItems = indexes.map((index) => items[index])
+    const avgSeverity = averageSeverity(issueItems)
+    const topics = topTopics(issueItems)
+    const rate = mentionRate(items, topics)
+    const previousRate = baselineItems && baselineItems.length > 0 ? mentionRate(baselineItems, topics) : null
+
+    return {
+      position,
+      issue: {
+        rank: 0,
+        title: issue.title,
+        description: issue.description,
+        feedback_count: indexes.length,
+        avg_severity: round(avgSeverity),
+        score: round(indexes.length * (0.5 + avgSeverity)),
+        topics,
+        mention_rate: round(rate),
+        previous_mention_rate: previousRate === null ? null : round(previousRate),
+        trend: topics.length > 0 ? classifyTrend(rate, previousRate) : 'unknown',
+        quotes: selectQuotes(rows, indexes),
+      },
+    }
+  })
+
+  issues.sort((a, b) => b.issue.score - a.issue.score)
+  issues.forEach(({ issue }, index) => (issue.rank = index + 1))
+
+  const rankOf = new Map(issues.map(({ position, issue }) => [position, issue.rank]))
+  const priorityOrder = (priority: InsightPriority) => ['high', 'medium', 'low'].indexOf(priority)
+  const firstRank = (recommendation: InsightRecommendation) => Math.min(Infinity, ...recommendation.issues)
+
+  const recommendations = consolidated.recommendations
+    .map((recommendation) => ({
+      priority: recommendation.priority,
+      recommendation: recommendation.recommendation,
+      issues: recommendation.issues.map((position) => rankOf.get(position)!).sort((a, b) => a - b),
+    }))
+    .sort((a, b) => priorityOrder(a.priority) - priorityOrder(b.priority) || firstRank(a) - firstRank(b))
+
+  return {
+    executive_summary: consolidated.executive_summary,
+    issues: issues.map(({ issue }) => issue),
+    recommendations,
+  }
+}
+
+// ============================================================================
+// DATABASE OPERATIONS
+// ============================================================================
+
+/**
+ * Title of a new report
+ */
+async function getReportTitle(userId: string, scope: InsightsScope): Promise<string> {
+  if (!('uploadId' in scope)) {
+    return `Insights: ${scope.from.slice(0, 10)} to ${scope.to.slice(0, 10)}`
+  }
+
+  let filename: string | undefined
+
+  try {
+    const supabase = createServerClient()
+    const { data } = await supabase
+      .from('uploads')
+      .select('filename')
+      .eq('id', scope.uploadId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    filename = data?.filename
+  } catch (error) {
+    console.error('Error fetching upload of an insights report:', error)
+  }
+
+  // Uploads through /api/analyze have no `uploads` row
+  return `Insights: ${filename || `upload ${scope.uploadId.slice(0, 8)}`}`
+}
+
+/**
+ * Generate and store an insights report (a new version if the scope has one)
+ *
+ * Makes one LLM call per INSIGHTS_BATCH_SIZE feedback entries plus one to
+ * merge them. Their usage is recorded like analysis usage (not per feedback).
+ *
+ * @param userId - Clerk user ID
+ * @param scope - Period or upload
+ * @returns The stored report, or null if it could not be stored
+ * @throws {InsightsScopeError} If the scope has no completely analyzed feedback
+ * @throws {Error} If an LLM call fails (e.g. ProviderError)
+ */
+export async function generateInsightsReport(userId: string, scope: InsightsScope): Promise<InsightsReport | null> {
+  const scoped = await getFeedbackForInsights(userId, scope, MAX_INSIGHTS_FEEDBACK + 1)
+
+  if (scoped.length === 0) {
+    throw new InsightsScopeError(
+      'uploadId' in scope ? 'This upload has no analyzed feedback' : 'No analyzed feedback in this period'
+    )
+  }
+
+  const truncated = scoped.length > MAX_INSIGHTS_FEEDBACK
+  const rows = scoped.slice(0, MAX_INSIGHTS_FEEDBACK)
+  const baselinePeriod = getBaselinePeriod(scope, rows)
+
+  const [settings, aliases, baselineRows, title] = await Promise.all([
+    getAccountSettings(userId),
+    getTopicAliasMap(userId),
+    getFeedbackForInsights(userId, baselinePeriod, MAX_INSIGHTS_FEEDBACK),
+    getReportTitle(userId, scope),
+  ])
+
+  const items = rows.map((row) => toInsightsItem(row, aliases))
+  const baselineItems = baselineRows.map((row) => toInsightsItem(row, aliases))
+  const usage: UsageRecord[] = []
+  const { model, prompt_version } = getInsightsVersion()
+
+  let content: InsightsReportContent
+
+  try {
+    const insights = await withUsageTracking(usage, () =>
+      buildInsights(rows, items, baselineItems, toPromptInstructions(settings))
+    )
+
+    content = {
+      ...insights,
+      baseline: baselineItems.length > 0 ? { ...baselinePeriod, feedback_count: baselineItems.length } : null,
+      truncated,
+    }
+  } finally {
+    // Record the tokens and cost of the calls made, even if one failed
+    // (non-critical)
+    if (!(await storeUsageRecords(userId, [{ records: usage }]))) {
+      console.warn('Failed to store LLM usage of an insights report')
+    }
+  }
+
+  try {
+    const supabase = createServerClient()
+    const scopeKey = getScopeKey(scope)
+
+    const { data: latest } = await supabase
+      .from('insights_reports')
+      .select('version')
+      .eq('user_id', userId)
+      .eq('scope_key', scopeKey)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const { data, error } = await supabase
+      .from('insights_reports')
+      .insert({
+        user_id: userId,
+        title,
+        scope: 'uploadId' in scope ? 'upload' : 'period',
+        period_start: 'uploadId' in scope ? null : scope.from,
+        period_end: 'uploadId' in scope ? null : scope.to,
+        upload_id: 'uploadId' in scope ? scope.uploadId : null,
+        scope_key: scopeKey,
+        version: (latest?.version || 0) + 1,
+        feedback_count: rows.length,
+        report: content,
+        model,
+        prompt_version,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error storing insights report:', error)
+      return null
+    }
+
+    return data as InsightsReport
+  } catch (error) {
+    console.error('Error in generateInsightsReport:', error)
+    return null
+  }
+}
+
+/**
+ * List the reports of a user without their content
+ *
+ * @param userId - Clerk user ID
+ * @param limit - Maximum number of reports
+ * @returns Reports, most recent first (empty on error)
+ */
+export async function listInsightsReports(userId: string, limit: number = 50): Promise<InsightsReportSummary[]> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('insights_reports')
+      .select(SUMMARY_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching insights reports:', error)
+      return []
+    }
+
+    return (data || []) as InsightsReportSummary[]
+  } catch (error) {
+    console.error('Error in listInsightsReports:', error)
+    return []
+  }
+}
+
+/**
+ * Get a stored report
+ *
+ * @param userId - Clerk user ID (reports of other users are not found)
+ * @param reportId - UUID of the report
+ * @returns The report, or null if not found or on error
+ */
+export async function getInsightsReport(userId: string, reportId: string): Promise<InsightsReport | null> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('insights_reports')
+      .select('*')
+      .eq('id', reportId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching insights report:', error)
+      return null
+    }
+
+    return data as InsightsReport | null
+  } catch (error) {
+    console.error('Error in getInsightsReport:', error)
+    return null
+  }
+}
@@ -1,21 +1,364 @@
-import { embedText, runLLM, MAX_ITEMS_PER_BATCH } from './openai';
+import { z } from 'zod';
+import { embedText, embedTexts, getProvider, runLLM, runStructuredLLM, MAX_ITEMS_PER_BATCH } from './openai';
+import { PROMPT_TEMPLATES, getPromptTemplate, renderPrompt, type PromptInstructions } from './prompts';
 
 // Export MAX_ITEMS_PER_BATCH for use in API routes
 export { MAX_ITEMS_PER_BATCH };
 
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Texts longer than this (in characters) are analyzed in chunks and reduced
+ * into a single analysis. Can be overridden via ANALYSIS_CHUNK_CHARS.
+ */
+const ANALYSIS_CHUNK_CHARS = parseInt(process.env.ANALYSIS_CHUNK_CHARS || '8000', 10);
+
+/**
+ * Texts longer than this (in characters) are embedded in chunks and the chunk
+ * vectors averaged. Well under the ~8k token input limit of OpenAI embedding
+ * models. Can be overridden via EMBED_CHUNK_CHARS.
+ */
+const EMBED_CHUNK_CHARS = parseInt(process.env.EMBED_CHUNK_CHARS || '8000', 10);
+
+/**
+ * Maximum number of topics kept when merging chunk analyses
+ */
+const MAX_MERGED_TOPICS = 8;
+
+/**
+ * Maximum number of taxonomy categories assigned to one feedback item
+ */
+const MAX_CATEGORIES_PER_FEEDBACK = 3;
+
+/**
+ * Version of the analysis prompt, stored with every analysis. Bump the
+ * feedback_analysis template version (lib/prompts.ts) whenever the prompt or
+ * reply schema changes so older analyses can be re-analyzed.
+ */
+export const ANALYSIS_PROMPT_VERSION = PROMPT_TEMPLATES.feedback_analysis.version;
+
 // ============================================================================
 // TYPES
 // ============================================================================
 
+/**
+ * Sentiment towards one topic of a feedback item (aspect-based sentiment).
+ * `score` is the polarity from -1 (very negative) to 1 (very positive).
+ */
+export interface TopicSentiment {
+  topic: string;
+  sentiment: 'positive' | 'neutral' | 'negative' | 'mixed';
+  score: number;
+}
+
+/**
+ * Dominant emotion expressed in a feedback item
+ */
+export const EMOTIONS = [
+  'anger',
+  'frustration',
+  'disappointment',
+  'confusion',
+  'anxiety',
+  'neutral',
+  'satisfaction',
+  'delight',
+] as const;
+
+export type Emotion = (typeof EMOTIONS)[number];
+
+/**
+ * How quickly a feedback item needs a response, lowest first.
+ * "critical" is reserved for churn, chargeback, legal or safety threats.
+ */
+export const URGENCY_LEVELS = ['low', 'medium', 'high', 'critical'] as const;
+
+export type Urgency = (typeof URGENCY_LEVELS)[number];
+
+/**
+ * What the customer wants from a feedback item. An item can have several
+ * (e.g. praise with a feature request); "complaint" covers complaints that
+ * are neither a bug nor about pricing.
+ */
+export const INTENTS = [
+  'bug_report',
+  'feature_request',
+  'praise',
+  'question',
+  'complaint',
+  'pricing_complaint',
+  'cancellation_intent',
+] as const;
+
+export type Intent = (typeof INTENTS)[number];
+
+/**
+ * Kinds of named entities extracted from feedback. Products, features and
+ * competitors are names as written; versions, platforms and amounts are
+ * normalized when stored (see lib/entities.ts).
+ */
+export const ENTITY_TYPES = ['product', 'feature', 'competitor', 'version', 'platform', 'amount'] as const;
+
+export type EntityType = (typeof ENTITY_TYPES)[number];
+
+/**
+ * A named entity as mentioned in the feedback
+ */
+export interface ExtractedEntity {
+  type: EntityType;
+  text: string;
+}
+
 /**
  * Type definition for feedback analysis result.
+ * `sentiment_score` is the polarity of the feedback from -1 (very negative)
+ * to 1 (very positive); `confidence_score` is the model's confidence in the
+ * sentiment, from 0 to 1.
+ * `topic_sentiments` has one entry per topic, in the same order as `topics`.
+ * `severity_score` rates the impact of the reported problem from 0 (none)
+ * to 1 (severe), independently of how the customer feels about it.
+ * `intents` lists every intent that applies, primary intent first.
+ * `entities` lists the named entities mentioned, each once, in order of
+ * appearance.
  */
 export interface FeedbackAnalysis {
   sentiment: 'positive' | 'neutral' | 'negative' | 'mixed';
   sentiment_score?: number;
+  confidence_score?: number;
+  emotion: Emotion;
+  urgency: Urgency;
+  severity_score: number;
+  intents: Intent[];
+  entities: ExtractedEntity[];
+  topics: string[];
+  topic_sentiments: TopicSentiment[];
+  summary: string;
+  recommendation: string;
+}
+
+/**
+ * Non-empty string (whitespace-only replies are rejected).
+ * Uses a refinement rather than min() so the JSON Schema sent to the
+ * model stays within the keywords structured outputs support.
+ */
+const nonEmptyString = z.string().refine((value) => value.trim().length > 0, {
+  message: 'must be a non-empty string',
+});
+
+const sentimentEnum = z.enum(['positive', 'neutral', 'negative', 'mixed']);
+
+/**
+ * Schema the model's analysis reply must satisfy.
+ * Every field is required so the schema is valid for strict structured outputs.
+ * Each topic carries its own sentiment so "great product, terrible shipping"
+ * can be told apart from uniformly mixed feedback.
+ */
+export const FeedbackAnalysisReplySchema = z.object({
+  sentiment: sentimentEnum,
+  score: z.number().min(-1).max(1),
+  confidence: z.number().min(0).max(1),
+  emotion: z.enum(EMOTIONS),
+  urgency: z.enum(URGENCY_LEVELS),
+  severity: z.number().min(0).max(1),
+  intents: z.array(z.enum(INTENTS)),
+  entities: z.array(
+    z.object({
+      type: z.enum(ENTITY_TYPES),
+      text: nonEmptyString,
+    })
+  ),
+  topics: z.array(
+    z.object({
+      topic: nonEmptyString,
+      sentiment: sentimentEnum,
+      score: z.number().min(-1).max(1),
+    })
+  ),
+  summary: nonEmptyString,
+  recommendation: nonEmptyString,
+});
+
+export type FeedbackAnalysisReply = z.infer<typeof FeedbackAnalysisReplySchema>;
+
+/**
+ * Completion tokens allowed for a FeedbackAnalysisReply, sized from the
+ * schema: the scalar fields, every intent, up to 15 entities and 15 topics
+ * (with their sentiment and score), and a few sentences each of summary and
+ * recommendation. A reply cut off mid-JSON fails validation and uses up the
+ * only repair attempt, so this errs on the generous side.
+ */
+const ANALYSIS_REPLY_MAX_TOKENS =
+  150 + // sentiment, scores, emotion, urgency, severity and JSON syntax
+  INTENTS.length * 10 +
+  15 * 20 + // entities: type and text
+  15 * 30 + // topics: name, sentiment and score
+  2 * 150; // summary and recommendation
+
+/**
+ * Schema for language detection and translation to English.
+ * `english_text` is empty when the feedback is already in English.
+ */
+export const TranslationReplySchema = z.object({
+  language: z.string().refine((value) => /^[a-z]{2}$/.test(value), {
+    message: 'must be a lowercase ISO 639-1 language code',
+  }),
+  english_text: z.string(),
+});
+
+/**
+ * Result of detectAndTranslate
+ */
+export interface TranslationResult {
+  /** ISO 639-1 code of the original text (e.g. 'en', 'es', 'ja') */
+  language: string;
+  /** English translation, or null when the original is already English */
+  translation: string | null;
+}
+
+/**
+ * An account-defined category that feedback can be classified into.
+ * `label` is what gets stored (e.g. 'Shipping > Late delivery' for a
+ * subcategory); description and examples guide the model.
+ */
+export interface ClassificationCategory {
+  label: string;
+  description?: string | null;
+  examples?: string[];
+}
+
+/**
+ * Schema for taxonomy classification, restricted to the given labels
+ * so the model cannot invent categories.
+ */
+export function buildClassificationReplySchema(labels: string[]) {
+  return z.object({
+    categories: z.array(z.enum(labels as [string, ...string[]])),
+  });
+}
+
+/**
+ * Schema for the reduce step that consolidates chunk summaries
+ */
+export const ConsolidatedSummaryReplySchema = z.object({
+  summary: nonEmptyString,
+  recommendation: nonEmptyString,
+});
+
+/**
+ * Schema for the map step of an insights report: the issues found in one
+ * batch of analyzed feedback. `items` are the 1-based item numbers.
+ */
+export const InsightsMapReplySchema = z.object({
+  issues: z.array(
+    z.object({
+      title: nonEmptyString,
+      description: nonEmptyString,
+      items: z.array(z.number().int()),
+      recommendation: nonEmptyString,
+    })
+  ),
+});
+
+export const INSIGHT_PRIORITIES = ['high', 'medium', 'low'] as const;
+
+export type InsightPriority = (typeof INSIGHT_PRIORITIES)[number];
+
+/**
+ * Schema for the reduce step of an insights report. `merges` are the 1-based
+ * numbers of the batch issues a merged issue combines; a recommendation's
+ * `issues` are 1-based positions in the merged `issues` list.
+ */
+export const InsightsReduceReplySchema = z.object({
+  executive_summary: nonEmptyString,
+  issues: z.array(
+    z.object({
+      title: nonEmptyString,
+      description: nonEmptyString,
+      merges: z.array(z.number().int()),
+    })
+  ),
+  recommendations: z.array(
+    z.object({
+      recommendation: nonEmptyString,
+      priority: z.enum(INSIGHT_PRIORITIES),
+      issues: z.array(z.number().int()),
+    })
+  ),
+});
+
+/**
+ * Schema for the name and description of a discovered theme
+ */
+export const ThemeNamingReplySchema = z.object({
+  name: nonEmptyString,
+  description: nonEmptyString,
+});
+
+/**
+ * Analyzed feedback item as sent to the map step of an insights report
+ */
+export interface InsightsItem {
+  sentiment: string;
+  severity: number | null;
   topics: string[];
   summary: string;
+}
+
+/**
+ * Issue found in one batch of feedback items (map step)
+ */
+export interface ExtractedIssue {
+  title: string;
+  description: string;
   recommendation: string;
+  /** 0-based indexes of the items the issue covers */
+  items: number[];
+}
+
+/**
+ * Issue passed to the reduce step, with its volume and average severity
+ */
+export interface IssueDigest {
+  title: string;
+  description: string;
+  recommendation: string;
+  count: number;
+  avgSeverity: number;
+}
+
+/**
+ * Result of the reduce step of an insights report
+ */
+export interface ConsolidatedInsights {
+  executive_summary: string;
+  /** Merged issues; `merges` are 0-based indexes of the digests each combines */
+  issues: Array<{ title: string; description: string; merges: number[] }>;
+  /** Recommendations; `issues` are 0-based indexes into `issues` */
+  recommendations: Array<{ recommendation: string; priority: InsightPriority; issues: number[] }>;
+}
+
+/**
+ * Feedback item a question is answered from
+ */
+export interface QuestionItem {
+  /** ISO 8601 creation date */
+  created_at: string;
+  source: string | null;
+  sentiment: string | null;
+  /** Redacted text (English translation if there is one) */
+  text: string;
+}
+
+/**
+ * Answer to a question about feedback items
+ */
+export interface QuestionAnswer {
+  /** Answer text with `[n]` markers (1-based item numbers) */
+  answer: string;
+  /** 0-based indexes of the cited items, in order of first citation */
+  cited: number[];
 }
 
 // ============================================================================
@@ -71,6 +414,10 @@ function logTelemetry(data: {
  * Generates embeddings for the given text.
  * Thin wrapper around the OpenAI embedText function with telemetry.
  * 
+ * Texts longer than EMBED_CHUNK_CHARS are split with chunkText, each chunk
+ * is embedded, and the result is the length-weighted average of the chunk
+ * vectors, re-normalized to unit length.
+ * 
  * @param {string} text - The text to embed
  * @returns {Promise<number[]>} Array of embedding values
  * 
@@ -84,7 +431,19 @@ export async function generateEmbedding(text: string): Promise<number[]> {
   const startTime = Date.now();
   
   try {
-    const embedding = await embedText(text);
+    const chunks = chunkText(text, EMBED_CHUNK_CHARS);
+    let embedding: number[];
+    
+    if (chunks.length === 1) {
+      embedding = await embedText(text);
+    } else {
+      const vectors: number[][] = [];
+      for (const chunk of chunks) {
+        vectors.push(await embedText(chunk));
+      }
+      embedding = averageEmbeddings(vectors, chunks.map((chunk) => chunk.length));
+    }
+    
     const endTime = Date.now();
     
     logTelemetry({
@@ -95,6 +454,7 @@ export async function generateEmbedding(text: string): Promise<number[]> {
       metadata: {
         textLength: text.length,
         dimensions: embedding.length,
+        chunks: chunks.length,
       },
     });
     
@@ -116,6 +476,92 @@ export async function generateEmbedding(text: string): Promise<number[]> {
   }
 }
 
+/**
+ * Generates embeddings for many texts using batched embedding requests.
+ * 
+ * Produces the same vectors as calling generateEmbedding per text: long texts
+ * are chunked and their chunk vectors averaged. All chunks of all texts are
+ * sent together, so a batch of a few hundred texts needs only a handful of
+ * requests (see embedTexts).
+ * 
+ * @param {string[]} texts - The texts to embed
+ * @returns {Promise<number[][]>} Embedding vectors, in the order of `texts`
+ * 
+ * @example
+ * ```typescript
+ * const embeddings = await generateEmbeddings(feedbackItems.map((item) => item.text));
+ * ```
+ */
+export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+  const startTime = Date.now();
+  
+  try {
+    const chunksPerText = texts.map((text) => chunkText(text, EMBED_CHUNK_CHARS));
+    const vectors = await embedTexts(
+      chunksPerText.flatMap((chunks, index) => (chunks.length === 1 ? [texts[index]] : chunks))
+    );
+    
+    let offset = 0;
+    const embeddings = chunksPerText.map((chunks) => {
+      const textVectors = vectors.slice(offset, offset + chunks.length);
+      offset += chunks.length;
+      
+      return chunks.length === 1
+        ? textVectors[0]
+        : averageEmbeddings(textVectors, chunks.map((chunk) => chunk.length));
+    });
+    
+    logTelemetry({
+      operation: 'generateEmbeddings',
+      startTime,
+      endTime: Date.now(),
+      success: true,
+      metadata: {
+        texts: texts.length,
+        chunks: vectors.length,
+      },
+    });
+    
+    return embeddings;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    
+    logTelemetry({
+      operation: 'generateEmbeddings',
+      startTime,
+      endTime: Date.now(),
+      success: false,
+      error: message,
+      metadata: { texts: texts.length },
+    });
+    
+    throw error;
+  }
+}
+
+/**
+ * Weighted average of embedding vectors, normalized to unit length so
+ * cosine similarity against single-chunk embeddings stays comparable.
+ * 
+ * @param {number[][]} vectors - Embedding vectors of equal dimension
+ * @param {number[]} weights - Weight per vector (e.g. chunk length)
+ * @returns {number[]} Averaged unit vector
+ */
+export function averageEmbeddings(vectors: number[][], weights: number[]): number[] {
+  const dimensions = vectors[0]?.length || 0;
+  const sum = new Array<number>(dimensions).fill(0);
+  
+  vectors.forEach((vector, index) => {
+    const weight = weights[index] ?? 1;
+    for (let i = 0; i < dimensions; i++) {
+      sum[i] += vector[i] * weight;
+    }
+  });
+  
+  const norm = Math.sqrt(sum.reduce((total, value) => total + value * value, 0));
+  return norm > 0 ? sum.map((value) => value / norm) : sum;
+}
+
 // ============================================================================
 // TEXT PROCESSING
 // ============================================================================
@@ -200,132 +646,574 @@ export function chunkText(text: string, maxLen: number = 3000): string[] {
 }
 
 // ============================================================================
-// ANALYSIS HELPERS
+// LANGUAGE DETECTION AND TRANSLATION
 // ============================================================================
 
 /**
- * Safely parses JSON with fallback to default value.
+ * Common English function words that are not also words in the other
+ * languages customers typically write in (so no 'a', 'in', 'on', 'no')
+ */
+const ENGLISH_STOPWORDS = new Set([
+  'the', 'and', 'is', 'are', 'was', 'were', 'it', 'to', 'of', 'with', 'this', 'that',
+  'for', 'but', 'not', 'i', 'my', 'you', 'your', 'we', 'our', 'they', 'have', 'has',
+  'be', 'been', 'at', 'from', 'would', 'when', 'what', 'very', 'can', 'just', 'after',
+]);
+
+/**
+ * Minimum share of English stopwords among the words of English text
+ */
+const MIN_ENGLISH_STOPWORD_RATIO = 0.2;
+
+/**
+ * Cheap check that feedback is plainly English, used to skip the
+ * translation call. Only unaccented Latin text where English function words
+ * make up a fair share of the words passes; anything in doubt (short or
+ * mixed-language text, other scripts, accented letters) goes to the LLM.
+ *
+ * @param {string} text - The feedback text
+ * @returns {boolean} True if the text is confidently English
+ */
+export function isClearlyEnglish(text: string): boolean {
+  if (/[^\x00-\x7f\u2018\u2019\u201c\u201d\u2013\u2014\u2026]/.test(text)) {
+    return false;
+  }
+
+  const words = text.toLowerCase().match(/[a-z][a-z']*/g) || [];
+  const hits = words.filter((word) => ENGLISH_STOPWORDS.has(word)).length;
+
+  return hits >= 2 && hits / words.length >= MIN_ENGLISH_STOPWORD_RATIO;
+}
+
+/**
+ * Detects the language of customer feedback and translates it to English.
+ * 
+ * Analysis runs on the English text so prompts, topics and summaries stay in
+ * one canonical language regardless of the language the customer wrote in.
+ * Long texts are translated in chunks (split with chunkText); the language is
+ * taken from the first chunk.
  * 
- * @param {string} jsonStr - JSON string to parse
- * @param {T} fallback - Fallback value if parsing fails
- * @returns {T} Parsed object or fallback
+ * Cost note: plainly English feedback (see isClearlyEnglish) makes no LLM
+ * call. Other feedback makes 1 call per item (per chunk for long feedback).
+ * 
+ * @param {string} text - The feedback text in any language
+ * @param {PromptInstructions} [instructions] - Account context and rules added to the prompt
+ * @returns {Promise<TranslationResult>} Detected language and English translation
+ * @throws {Error} If an LLM call fails or a reply never passes validation
+ * 
+ * @example
+ * ```typescript
+ * const { language, translation } = await detectAndTranslate('El envío llegó tarde.');
+ * console.log(language); // 'es'
+ * console.log(translation); // 'The shipment arrived late.'
+ * ```
  */
-function safeParseJSON<T>(jsonStr: string, fallback: T): T {
+export async function detectAndTranslate(
+  text: string,
+  instructions?: PromptInstructions
+): Promise<TranslationResult> {
+  const startTime = Date.now();
+
+  if (isClearlyEnglish(text)) {
+    logTelemetry({
+      operation: 'detectAndTranslate',
+      startTime,
+      endTime: Date.now(),
+      success: true,
+      metadata: { textLength: text.length, chunks: 0, language: 'en', translated: false },
+    });
+
+    return { language: 'en', translation: null };
+  }
+
+  const chunks = chunkText(text, ANALYSIS_CHUNK_CHARS);
+
   try {
-    // Try to extract JSON from markdown code blocks if present
-    const jsonMatch = jsonStr.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
-    const cleanJson = jsonMatch ? jsonMatch[1] : jsonStr;
-    
-    return JSON.parse(cleanJson.trim()) as T;
-  } catch {
-    return fallback;
+    let language = 'en';
+    const translated: string[] = [];
+
+    for (const [index, chunk] of chunks.entries()) {
+      const prompt = renderPrompt('feedback_translation', { feedback: chunk }, instructions);
+
+      const reply = await runStructuredLLM(prompt, TranslationReplySchema, {
+        name: 'feedback_translation',
+        // Translations are roughly as long as the input; leave room for
+        // languages that need more tokens per character
+        maxTokens: Math.ceil(chunk.length / 2) + 100,
+      });
+
+      if (index === 0) {
+        language = reply.language;
+      }
+      translated.push(reply.english_text.trim() || chunk);
+    }
+
+    const translation = language === 'en' ? null : translated.join(' ');
+
+    logTelemetry({
+      operation: 'detectAndTranslate',
+      startTime,
+      endTime: Date.now(),
+      success: true,
+      metadata: {
+        textLength: text.length,
+        chunks: chunks.length,
+        language,
+        translated: translation !== null,
+      },
+    });
+
+    return { language, translation };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    logTelemetry({
+      operation: 'detectAndTranslate',
+      startTime,
+      endTime: Date.now(),
+      success: false,
+      error: message,
+      metadata: { textLength: text.length, chunks: chunks.length },
+    });
+
+    throw error;
   }
 }
 
 // ============================================================================
-// FEEDBACK ANALYSIS
+// TAXONOMY CLASSIFICATION
 // ============================================================================
 
 /**
- * Analyzes customer feedback using multiple LLM calls for sentiment, topics, and recommendations.
+ * Formats categories as the prompt list parsed by the model (and by the
+ * local provider): one `- "label": description. Examples: ...` line each.
+ */
+function formatCategories(categories: ClassificationCategory[]): string {
+  return categories
+    .map((category) => {
+      let line = `- "${category.label}"`;
+      if (category.description) line += `: ${category.description}`;
+      if (category.examples && category.examples.length > 0) {
+        line += `. Examples: ${category.examples.map((example) => `"${example}"`).join('; ')}`;
+      }
+      return line;
+    })
+    .join('\n');
+}
+
+/**
+ * Classifies customer feedback into an account's taxonomy.
  * 
- * Cost note: Makes 3 separate LLM API calls per feedback item:
- * 1. Sentiment classification (~100 tokens)
- * 2. Topic extraction (~150 tokens)
- * 3. Summary + recommendation (~200 tokens)
+ * Unlike the free-form topics from analyzeFeedback, the reply is restricted to
+ * the given category labels, so the same issue always lands in the same
+ * category. Long texts are classified per chunk and the categories combined,
+ * most frequent first.
  * 
- * @param {string} text - The customer feedback text to analyze
- * @returns {Promise<FeedbackAnalysis>} Analysis result with sentiment, topics, summary, and recommendation
+ * Cost note: 1 LLM call per feedback item (per chunk for long feedback); no
+ * call when the taxonomy is empty.
+ * 
+ * @param {string} text - The feedback text (English, PII redacted)
+ * @param {ClassificationCategory[]} categories - The account's taxonomy
+ * @param {PromptInstructions} [instructions] - Account context and rules added to the prompt
+ * @returns {Promise<string[]>} Matching category labels (at most 3, possibly none)
+ * @throws {Error} If an LLM call fails or a reply never passes validation
  * 
  * @example
  * ```typescript
- * const analysis = await analyzeFeedback(
- *   'The product is great but the shipping was delayed by 3 days.'
- * );
- * console.log(analysis.sentiment); // 'mixed'
- * console.log(analysis.topics); // ['product quality', 'shipping delay']
- * console.log(analysis.recommendation); // 'Improve shipping reliability...'
+ * const categories = await classifyFeedback('My parcel is two weeks late', [
+ *   { label: 'Shipping', description: 'Delivery speed and packaging' },
+ *   { label: 'Billing' },
+ * ]);
+ * console.log(categories); // ['Shipping']
  * ```
  */
-export async function analyzeFeedback(text: string): Promise<FeedbackAnalysis> {
+export async function classifyFeedback(
+  text: string,
+  categories: ClassificationCategory[],
+  instructions?: PromptInstructions
+): Promise<string[]> {
+  if (categories.length === 0) {
+    return [];
+  }
+
   const startTime = Date.now();
-  // Subtask 1: Sentiment classification
-  const sentimentPrompt = `Analyze the sentiment of this customer feedback. Return ONLY JSON in this format: {"sentiment": "positive"|"neutral"|"negative"|"mixed", "confidence": 0.0-1.0}
+  const chunks = chunkText(text, ANALYSIS_CHUNK_CHARS);
+  const schema = buildClassificationReplySchema(categories.map((category) => category.label));
 
-Feedback: ${text}`;
+  try {
+    const counts = new Map<string, number>();
 
-  let sentiment: 'positive' | 'neutral' | 'negative' | 'mixed' = 'neutral';
-  let sentiment_score: number | undefined;
+    for (const chunk of chunks) {
+      const prompt = renderPrompt(
+        'feedback_classification',
+        {
+          categories: formatCategories(categories),
+          max_categories: MAX_CATEGORIES_PER_FEEDBACK,
+          feedback: chunk,
+        },
+        instructions
+      );
 
-  try {
-    const sentimentResponse = await runLLM(sentimentPrompt, 100);
-    const sentimentData = safeParseJSON<{ sentiment?: string; confidence?: number }>(
-      sentimentResponse,
-      { sentiment: 'neutral', confidence: 0.5 }
-    );
-    
-    if (
-      sentimentData.sentiment === 'positive' ||
-      sentimentData.sentiment === 'neutral' ||
-      sentimentData.sentiment === 'negative' ||
-      sentimentData.sentiment === 'mixed'
-    ) {
-      sentiment = sentimentData.sentiment;
-    }
-    
-    if (typeof sentimentData.confidence === 'number') {
-      sentiment_score = sentimentData.confidence;
+      const reply = await runStructuredLLM(prompt, schema, {
+        name: 'feedback_classification',
+        maxTokens: 100,
+      });
+
+      for (const label of reply.categories) {
+        counts.set(label, (counts.get(label) || 0) + 1);
+      }
     }
+
+    // Map preserves first-seen order, so ties keep the model's ranking
+    const result = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_CATEGORIES_PER_FEEDBACK)
+      .map(([label]) => label);
+
+    logTelemetry({
+      operation: 'classifyFeedback',
+      startTime,
+      endTime: Date.now(),
+      success: true,
+      metadata: {
+        textLength: text.length,
+        chunks: chunks.length,
+        taxonomySize: categories.length,
+        categoriesCount: result.length,
+      },
+    });
+
+    return result;
   } catch (error) {
-    // Fallback to neutral if sentiment analysis fails
-    console.error('Sentiment analysis failed:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    logTelemetry({
+      operation: 'classifyFeedback',
+      startTime,
+      endTime: Date.now(),
+      success: false,
+      error: message,
+      metadata: { textLength: text.length, chunks: chunks.length, taxonomySize: categories.length },
+    });
+
+    throw error;
   }
+}
 
-  // Subtask 2: Topic extraction
-  const topicPrompt = `Extract key topics from this customer feedback. Return ONLY JSON in this format: {"topics": ["topic1", "topic2", ...]}
+// ============================================================================
+// FEEDBACK ANALYSIS
+// ============================================================================
 
-Feedback: ${text}`;
+/**
+ * Rounds a score to 2 decimals (the precision of the DECIMAL(3,2) columns)
+ */
+function roundScore(value: number): number {
+  return Math.round(value * 100) / 100;
+}
 
-  let topics: string[] = [];
+/**
+ * Sentiment label with the weight it carries when combined
+ */
+type WeightedSentiment = { sentiment: FeedbackAnalysis['sentiment']; weight: number };
 
-  try {
-    const topicResponse = await runLLM(topicPrompt, 150);
-    const topicData = safeParseJSON<{ topics?: string[] }>(
-      topicResponse,
-      { topics: [] }
-    );
-    
-    if (Array.isArray(topicData.topics)) {
-      topics = topicData.topics.filter(t => typeof t === 'string');
-    }
-  } catch (error) {
-    console.error('Topic extraction failed:', error);
+/**
+ * Combines weighted sentiment labels into one. "mixed" when both positive
+ * and negative carry at least 20% of the weight (or mixed labels carry
+ * half), otherwise the sign of the net polarity.
+ */
+function combineSentiments(entries: WeightedSentiment[]): FeedbackAnalysis['sentiment'] {
+  const sentimentWeight = { positive: 0, negative: 0, neutral: 0, mixed: 0 };
+  for (const { sentiment, weight } of entries) {
+    sentimentWeight[sentiment] += weight;
   }
 
-  // Subtask 3: Summary + actionable recommendation
-  const summaryPrompt = `Summarize this customer feedback and provide one actionable recommendation. Return ONLY JSON in this format: {"summary": "brief summary", "recommendation": "single actionable recommendation"}
+  const totalWeight = entries.reduce((sum, { weight }) => sum + weight, 0) || 1;
+  const positiveShare = sentimentWeight.positive / totalWeight;
+  const negativeShare = sentimentWeight.negative / totalWeight;
+  const mixedShare = sentimentWeight.mixed / totalWeight;
+  const net = positiveShare - negativeShare;
 
-Feedback: ${text}`;
+  if ((positiveShare >= 0.2 && negativeShare >= 0.2) || mixedShare >= 0.5) return 'mixed';
+  if (net > 0.2) return 'positive';
+  if (net < -0.2) return 'negative';
+  if (mixedShare > 0) return 'mixed';
+  return 'neutral';
+}
 
-  let summary = 'Unable to generate summary';
-  let recommendation = 'Review feedback manually';
+/**
+ * Entities with surrounding whitespace trimmed, without repeats of the same
+ * type and text (case-insensitive; the first mention is kept)
+ */
+export function uniqueEntities(entities: ExtractedEntity[]): ExtractedEntity[] {
+  const seen = new Set<string>();
 
-  try {
-    const summaryResponse = await runLLM(summaryPrompt, 200);
-    const summaryData = safeParseJSON<{ summary?: string; recommendation?: string }>(
-      summaryResponse,
-      { summary: 'Unable to generate summary', recommendation: 'Review feedback manually' }
-    );
-    
-    if (typeof summaryData.summary === 'string' && summaryData.summary) {
-      summary = summaryData.summary;
+  return entities
+    .map(({ type, text }) => ({ type, text: text.trim() }))
+    .filter(({ type, text }) => {
+      const key = `${type}:${text.toLowerCase()}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Merges per-chunk analyses of one long feedback text (the reduce step).
+ * 
+ * - Topics: deduplicated case-insensitively and ranked by the total weight
+ *   of the chunks mentioning them (max MAX_MERGED_TOPICS)
+ * - Sentiment: chunk sentiments weighted by chunk length (see combineSentiments)
+ * - sentiment_score and confidence_score: weighted averages of the chunk
+ *   scores, rounded to 2 decimals
+ * - topic_sentiments: per topic, the same weighting over the chunks
+ *   mentioning it, with the weighted average score
+ * - urgency and severity_score: the highest of any chunk, since one
+ *   threat to cancel is enough to escalate a whole transcript
+ * - emotion: the emotion of the most severe chunk
+ * - intents: every intent of any chunk, ranked by the total weight of the
+ *   chunks expressing them
+ * - entities: every entity of any chunk, in chunk order (see uniqueEntities)
+ * 
+ * Summary and recommendation are left to consolidateSummaries.
+ * 
+ * @param {FeedbackAnalysis[]} analyses - One analysis per chunk
+ * @param {number[]} weights - Weight per chunk (e.g. chunk length)
+ * @returns Merged analysis without summary and recommendation
+ */
+export function mergeChunkAnalyses(
+  analyses: FeedbackAnalysis[],
+  weights: number[]
+): Omit<FeedbackAnalysis, 'summary' | 'recommendation'> {
+  const topicEntries = new Map<
+    string,
+    { topic: string; weight: number; scoreSum: number; sentiments: WeightedSentiment[] }
+  >();
+  let scoreSum = 0;
+  let scoreWeight = 0;
+  let confidenceSum = 0;
+  let confidenceWeight = 0;
+  const intentWeights = new Map<Intent, number>();
+
+  analyses.forEach((analysis, index) => {
+    const weight = weights[index] ?? 1;
+
+    if (analysis.sentiment_score !== undefined) {
+      scoreSum += analysis.sentiment_score * weight;
+      scoreWeight += weight;
     }
-    
-    if (typeof summaryData.recommendation === 'string' && summaryData.recommendation) {
-      recommendation = summaryData.recommendation;
+
+    if (analysis.confidence_score !== undefined) {
+      confidenceSum += analysis.confidence_score * weight;
+      confidenceWeight += weight;
+    }
+
+    for (const intent of analysis.intents) {
+      intentWeights.set(intent, (intentWeights.get(intent) || 0) + weight);
+    }
+
+    for (const { topic, sentiment, score } of analysis.topic_sentiments) {
+      const key = topic.toLowerCase();
+      const entry = topicEntries.get(key) || { topic, weight: 0, scoreSum: 0, sentiments: [] };
+      entry.weight += weight;
+      entry.scoreSum += score * weight;
+      entry.sentiments.push({ sentiment, weight });
+      topicEntries.set(key, entry);
+    }
+  });
+
+  const topicSentiments = Array.from(topicEntries.values())
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_MERGED_TOPICS)
+    .map((entry) => ({
+      topic: entry.topic,
+      sentiment: combineSentiments(entry.sentiments),
+      score: roundScore(entry.scoreSum / entry.weight),
+    }));
+
+  const mostSevere = analyses.reduce((max, analysis) =>
+    analysis.severity_score > max.severity_score ? analysis : max
+  );
+  const urgency = URGENCY_LEVELS[
+    Math.max(...analyses.map((analysis) => URGENCY_LEVELS.indexOf(analysis.urgency)))
+  ];
+
+  return {
+    sentiment: combineSentiments(
+      analyses.map((analysis, index) => ({ sentiment: analysis.sentiment, weight: weights[index] ?? 1 }))
+    ),
+    sentiment_score: scoreWeight > 0 ? roundScore(scoreSum / scoreWeight) : undefined,
+    confidence_score: confidenceWeight > 0 ? roundScore(confidenceSum / confidenceWeight) : undefined,
+    emotion: mostSevere.emotion,
+    urgency,
+    severity_score: mostSevere.severity_score,
+    intents: Array.from(intentWeights.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([intent]) => intent),
+    entities: uniqueEntities(analyses.flatMap((analysis) => analysis.entities)),
+    topics: topicSentiments.map(({ topic }) => topic),
+    topic_sentiments: topicSentiments,
+  };
+}
+
+/**
+ * Consolidates chunk summaries and recommendations into one of each
+ * with a single structured LLM call.
+ */
+async function consolidateSummaries(
+  analyses: FeedbackAnalysis[],
+  instructions?: PromptInstructions
+): Promise<{ summary: string; recommendation: string }> {
+  const parts = analyses
+    .map(
+      (analysis, index) =>
+        `Part ${index + 1}:\n- Summary: ${analysis.summary}\n- Recommendation: ${analysis.recommendation}`
+    )
+    .join('\n\n');
+
+  const prompt = renderPrompt('consolidated_summary', { parts }, instructions);
+
+  const reply = await runStructuredLLM(prompt, ConsolidatedSummaryReplySchema, {
+    name: 'consolidated_summary',
+    maxTokens: 400,
+  });
+
+  return {
+    summary: reply.summary.trim(),
+    recommendation: reply.recommendation.trim(),
+  };
+}
+
+/**
+ * Model and prompt version that analyzeFeedback currently uses, as stored
+ * with each analysis.
+ * 
+ * @returns {{ model: string, prompt_version: number }} Model of the active provider and version of the active feedback_analysis template
+ */
+export function getAnalysisVersion(): { model: string; prompt_version: number } {
+  const provider = getProvider();
+
+  return {
+    model: provider.models.llm || provider.name,
+    prompt_version: getPromptTemplate('feedback_analysis').version,
+  };
+}
+
+/**
+ * Analyzes a single piece of feedback that fits in one prompt.
+ */
+async function analyzeSingle(text: string, instructions?: PromptInstructions): Promise<FeedbackAnalysis> {
+  const prompt = renderPrompt(
+    'feedback_analysis',
+    {
+      emotions: EMOTIONS.join(', '),
+      urgency_levels: URGENCY_LEVELS.join(', '),
+      intents: INTENTS.join(', '),
+      entity_types: ENTITY_TYPES.join(', '),
+      feedback: text,
+    },
+    instructions
+  );
+
+  const reply = await runStructuredLLM(prompt, FeedbackAnalysisReplySchema, {
+    name: 'feedback_analysis',
+    maxTokens: ANALYSIS_REPLY_MAX_TOKENS,
+  });
+
+  const topicSentiments = reply.topics.map(({ topic, sentiment, score }) => ({
+    topic: topic.trim(),
+    sentiment,
+    score: roundScore(score),
+  }));
+
+  return {
+    sentiment: reply.sentiment,
+    sentiment_score: roundScore(reply.score),
+    confidence_score: roundScore(reply.confidence),
+    emotion: reply.emotion,
+    urgency: reply.urgency,
+    severity_score: roundScore(reply.severity),
+    intents: Array.from(new Set(reply.intents)),
+    entities: uniqueEntities(reply.entities),
+    topics: topicSentiments.map(({ topic }) => topic),
+    topic_sentiments: topicSentiments,
+    summary: reply.summary.trim(),
+    recommendation: reply.recommendation.trim(),
+  };
+}
+
+/**
+ * Analyzes customer feedback with a single structured-output LLM call.
+ * 
+ * The reply is validated against FeedbackAnalysisReplySchema. Invalid replies
+ * are sent back to the model for repair (see runStructuredLLM); if no valid
+ * reply is produced the error is thrown rather than replaced with defaults,
+ * so callers can record the item as failed.
+ * 
+ * Long feedback (over ANALYSIS_CHUNK_CHARS) is map-reduced: the text is split
+ * with chunkText, each chunk is analyzed, topics and sentiment are merged with
+ * mergeChunkAnalyses, and one more call consolidates the chunk summaries.
+ * 
+ * Prompts are written for English input; translate other languages first
+ * with detectAndTranslate so topics come back in one canonical language.
+ * 
+ * Cost note: Makes 1 LLM API call per feedback item (~300 tokens), plus one
+ * repair call in the rare case the first reply fails validation. Long
+ * feedback costs one call per chunk plus one consolidation call.
+ * 
+ * @param {string} text - The customer feedback text to analyze (in English)
+ * @param {PromptInstructions} [instructions] - Account context and rules added to the prompt
+ * @returns {Promise<FeedbackAnalysis>} Analysis result with sentiment, emotion, urgency, severity, topics (with per-topic sentiment), summary, and recommendation
+ * @throws {Error} If an LLM call fails or a reply never passes validation
+ * 
+ * @example
+ * ```typescript
+ * const analysis = await analyzeFeedback(
+ *   'The product is great but the shipping was delayed by 3 days.'
+ * );
+ * console.log(analysis.sentiment); // 'mixed'
+ * console.log(analysis.emotion, analysis.urgency); // 'frustration' 'medium'
+ * console.log(analysis.topics); // ['product quality', 'shipping delay']
+ * console.log(analysis.topic_sentiments[1]); // { topic: 'shipping delay', sentiment: 'negative', score: -0.7 }
+ * console.log(analysis.recommendation); // 'Improve shipping reliability...'
+ * ```
+ */
+export async function analyzeFeedback(
+  text: string,
+  instructions?: PromptInstructions
+): Promise<FeedbackAnalysis> {
+  const startTime = Date.now();
+  const chunks = chunkText(text, ANALYSIS_CHUNK_CHARS);
+
+  let analysis: FeedbackAnalysis;
+
+  try {
+    if (chunks.length === 1) {
+      analysis = await analyzeSingle(text, instructions);
+    } else {
+      // Chunks are analyzed sequentially: batches already run several
+      // items concurrently, so this keeps the total request rate bounded
+      const chunkAnalyses: FeedbackAnalysis[] = [];
+      for (const chunk of chunks) {
+        chunkAnalyses.push(await analyzeSingle(chunk, instructions));
+      }
+
+      const merged = mergeChunkAnalyses(chunkAnalyses, chunks.map((chunk) => chunk.length));
+      const { summary, recommendation } = await consolidateSummaries(chunkAnalyses, instructions);
+
+      analysis = { ...merged, summary, recommendation };
     }
   } catch (error) {
-    console.error('Summary generation failed:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    logTelemetry({
+      operation: 'analyzeFeedback',
+      startTime,
+      endTime: Date.now(),
+      success: false,
+      error: message,
+      metadata: { textLength: text.length, chunks: chunks.length },
+    });
+
+    throw error;
   }
 
   const endTime = Date.now();
@@ -338,9 +1226,9 @@ Feedback: ${text}`;
     success: true,
     metadata: {
       textLength: text.length,
-      sentiment,
-      topicsCount: topics.length,
-      hasScore: sentiment_score !== undefined,
+      chunks: chunks.length,
+      sentiment: analysis.sentiment,
+      topicsCount: analysis.topics.length,
     },
   });
   
@@ -362,12 +1250,301 @@ Feedback: ${text}`;
   //   });
   // }
 
+  return analysis;
+}
+
+// ============================================================================
+// INSIGHTS REPORTS
+// ============================================================================
+
+/**
+ * Model and insights prompt version that insights reports are generated
+ * with, as stored with each report.
+ *
+ * @returns {{ model: string, prompt_version: number }} Model of the active provider and version of the active insights_reduce template
+ */
+export function getInsightsVersion(): { model: string; prompt_version: number } {
+  const provider = getProvider();
+
   return {
-    sentiment,
-    sentiment_score,
-    topics,
-    summary,
-    recommendation,
+    model: provider.models.llm || provider.name,
+    prompt_version: getPromptTemplate('insights_reduce').version,
   };
 }
 
+/**
+ * Converts 1-based numbers from a reply to distinct 0-based indexes below
+ * `length`, dropping numbers the model made up.
+ */
+function toIndexes(numbers: number[], length: number): number[] {
+  return Array.from(new Set(numbers.map((number) => number - 1))).filter(
+    (index) => index >= 0 && index < length
+  );
+}
+
+/**
+ * Groups one batch of analyzed feedback into issues (map step of an
+ * insights report) with a single structured LLM call.
+ *
+ * Items are described by their analysis (sentiment, severity, topics and
+ * summary), never by their text. Issues without a valid item are dropped.
+ *
+ * @param {InsightsItem[]} items - Analyzed feedback items (keep batches to a few dozen)
+ * @param {PromptInstructions} [instructions] - Account context and rules added to the prompt
+ * @returns {Promise<ExtractedIssue[]>} Issues with the 0-based indexes of their items
+ * @throws {Error} If the LLM call fails or the reply never passes validation
+ *
+ * @example
+ * ```typescript
+ * const issues = await extractIssues([
+ *   { sentiment: 'negative', severity: 0.7, topics: ['shipping'], summary: 'Package arrived late.' },
+ * ]);
+ * console.log(issues[0].items); // [0]
+ * ```
+ */
+export async function extractIssues(
+  items: InsightsItem[],
+  instructions?: PromptInstructions
+): Promise<ExtractedIssue[]> {
+  if (items.length === 0) {
+    return [];
+  }
+
+  const lines = items
+    .map(
+      (item, index) =>
+        `[${index + 1}] ${item.sentiment}, severity ${item.severity ?? 'n/a'}, topics: ${
+          item.topics.join(', ') || 'none'
+        } | ${item.summary.replace(/\s+/g, ' ').trim()}`
+    )
+    .join('\n');
+
+  const prompt = renderPrompt('insights_map', { items: lines }, instructions);
+
+  const reply = await runStructuredLLM(prompt, InsightsMapReplySchema, {
+    name: 'insights_map',
+    maxTokens: 1500,
+  });
+
+  return reply.issues
+    .map((issue) => ({
+      title: issue.title.trim(),
+      description: issue.description.trim(),
+      recommendation: issue.recommendation.trim(),
+      items: toIndexes(issue.items, items.length),
+    }))
+    .filter((issue) => issue.items.length > 0);
+}
+
+/**
+ * Merges the issues of all batches and writes the executive summary and
+ * prioritized recommendations (reduce step of an insights report) with a
+ * single structured LLM call.
+ *
+ * Every digest ends up in exactly one merged issue: a digest claimed by
+ * several merged issues stays with the first, and digests the reply leaves
+ * out are kept as issues of their own.
+ *
+ * @param {IssueDigest[]} digests - Issues of all batches with their volume and severity
+ * @param {PromptInstructions} [instructions] - Account context and rules added to the prompt
+ * @returns {Promise<ConsolidatedInsights>} Executive summary, merged issues and recommendations
+ * @throws {Error} If the LLM call fails or the reply never passes validation
+ */
+export async function consolidateInsights(
+  digests: IssueDigest[],
+  instructions?: PromptInstructions
+): Promise<ConsolidatedInsights> {
+  const lines = digests
+    .map(
+      (digest, index) =>
+        `[${index + 1}] ${digest.title} (${digest.count} items, avg severity ${roundScore(digest.avgSeverity)}): ${
+          digest.description
+        } Recommendation: ${digest.recommendation}`
+    )
+    .join('\n');
+
+  const prompt = renderPrompt('insights_reduce', { issues: lines }, instructions);
+
+  const reply = await runStructuredLLM(prompt, InsightsReduceReplySchema, {
+    name: 'insights_reduce',
+    maxTokens: 2000,
+  });
+
+  const claimed = new Set<number>();
+  const issues: ConsolidatedInsights['issues'] = [];
+  // Position of each reply issue in `issues` (-1 if it merged nothing new)
+  const positions = reply.issues.map((issue) => {
+    const merges = toIndexes(issue.merges, digests.length).filter((index) => !claimed.has(index));
+    if (merges.length === 0) {
+      return -1;
+    }
+
+    merges.forEach((index) => claimed.add(index));
+    issues.push({ title: issue.title.trim(), description: issue.description.trim(), merges });
+    return issues.length - 1;
+  });
+
+  digests.forEach((digest, index) => {
+    if (!claimed.has(index)) {
+      issues.push({ title: digest.title, description: digest.description, merges: [index] });
+    }
+  });
+
+  return {
+    executive_summary: reply.executive_summary.trim(),
+    issues,
+    recommendations: reply.recommendations.map((recommendation) => ({
+      recommendation: recommendation.recommendation.trim(),
+      priority: recommendation.priority,
+      issues: toIndexes(recommendation.issues, reply.issues.length)
+        .map((index) => positions[index])
+        .filter((position) => position >= 0),
+    })),
+  };
+}
+
+// ============================================================================
+// THEME DISCOVERY
+// ============================================================================
+
+/**
+ * Model and theme naming prompt version that theme discovery runs are
+ * generated with, as stored with each run.
+ *
+ * @returns {{ model: string, prompt_version: number }} Model of the active provider and version of the active theme_naming template
+ */
+export function getThemeNamingVersion(): { model: string; prompt_version: number } {
+  const provider = getProvider();
+
+  return {
+    model: provider.models.llm || provider.name,
+    prompt_version: getPromptTemplate('theme_naming').version,
+  };
+}
+
+/**
+ * Names a cluster of similar feedback with a single structured LLM call.
+ *
+ * @param {string[]} examples - Summaries (or redacted texts) of the cluster's most typical feedback
+ * @param {PromptInstructions} [instructions] - Account context and rules added to the prompt
+ * @returns {Promise<{ name: string, description: string }>} Short theme name and one-sentence description
+ * @throws {Error} If the LLM call fails or the reply never passes validation
+ *
+ * @example
+ * ```typescript
+ * const theme = await nameTheme(['Checkout fails with Apple Pay.', 'Apple Pay button does nothing.']);
+ * console.log(theme.name); // 'Apple Pay checkout failures'
+ * ```
+ */
+export async function nameTheme(
+  examples: string[],
+  instructions?: PromptInstructions
+): Promise<{ name: string; description: string }> {
+  const lines = examples.map((example) => `- ${example.replace(/\s+/g, ' ').trim()}`).join('\n');
+
+  const prompt = renderPrompt('theme_naming', { examples: lines }, instructions);
+
+  const reply = await runStructuredLLM(prompt, ThemeNamingReplySchema, {
+    name: 'theme_naming',
+    maxTokens: 200,
+  });
+
+  return { name: reply.name.trim(), description: reply.description.trim() };
+}
+
+// ============================================================================
+// QUESTION ANSWERING
+// ============================================================================
+
+/**
+ * Model and question prompt version that answers are generated with.
+ *
+ * @returns {{ model: string, prompt_version: number }} Model of the active provider and version of the active feedback_question template
+ */
+export function getQuestionAnsweringVersion(): { model: string; prompt_version: number } {
+  const provider = getProvider();
+
+  return {
+    model: provider.models.llm || provider.name,
+    prompt_version: getPromptTemplate('feedback_question').version,
+  };
+}
+
+/**
+ * Reads the `[n]` and `[n, m]` citation markers of an answer.
+ *
+ * Markers citing no existing item are removed from the answer; numbers that
+ * do exist are kept even when another number of the same marker does not.
+ *
+ * @param {string} answer - Reply of the model
+ * @param {number} length - Number of items the question was answered from
+ * @returns {QuestionAnswer} Answer without invalid markers, with the 0-based indexes of the cited items
+ */
+export function parseCitations(answer: string, length: number): QuestionAnswer {
+  const cited: number[] = [];
+
+  const cleaned = answer.replace(/\s*\[(\d+(?:\s*,\s*\d+)*)\]/g, (marker, list: string) => {
+    const indexes = toIndexes(list.split(',').map(Number), length);
+
+    if (indexes.length === 0) {
+      return '';
+    }
+
+    for (const index of indexes) {
+      if (!cited.includes(index)) {
+        cited.push(index);
+      }
+    }
+
+    return marker.replace(`[${list}]`, indexes.map((index) => `[${index + 1}]`).join(''));
+  });
+
+  return { answer: cleaned.trim(), cited };
+}
+
+/**
+ * Answers a question from feedback items with a single LLM call, citing the
+ * items the answer relies on.
+ *
+ * The model is told to use nothing but the items, so callers decide what
+ * the answer may draw from by choosing the items.
+ *
+ * @param {string} question - Question in natural language
+ * @param {QuestionItem[]} items - Feedback to answer from, most relevant first (keep to a few dozen)
+ * @param {PromptInstructions} [instructions] - Account context and rules added to the prompt
+ * @returns {Promise<QuestionAnswer>} Answer with `[n]` markers and the 0-based indexes of the cited items
+ * @throws {Error} If the LLM call fails
+ *
+ * @example
+ * ```typescript
+ * const { answer, cited } = await answerQuestion('Why do customers cancel?', [
+ *   { created_at: '2026-03-01T10:00:00Z', source: 'email', sentiment: 'negative', text: 'Too expensive, cancelling.' },
+ * ]);
+ * console.log(answer); // 'Customers cancel over pricing [1].'
+ * console.log(cited); // [0]
+ * ```
+ */
+export async function answerQuestion(
+  question: string,
+  items: QuestionItem[],
+  instructions?: PromptInstructions
+): Promise<QuestionAnswer> {
+  const lines = items
+    .map(
+      (item, index) =>
+        `[${index + 1}] ${item.created_at.slice(0, 10)}, ${item.source || 'unknown source'}, ${
+          item.sentiment || 'not analyzed'
+        } | ${item.text.replace(/\s+/g, ' ').trim()}`
+    )
+    .join('\n');
+
+  const prompt = renderPrompt(
+    'feedback_question',
+    { question: question.replace(/\s+/g, ' ').trim(), items: lines },
+    instructions
+  );
+
+  const reply = await runLLM(prompt, 600);
+
+  return parseCitations(reply, items.length);
+}
@@ -0,0 +1,664 @@
+import type { z } from 'zod';
+import type { LLMProvider } from './providers';
+
+/**
+ * Deterministic Local Provider
+ *
+ * Offline provider for CI and development (LLM_PROVIDER=local). It makes no
+ * network calls and always returns the same output for the same input:
+ * - Embeddings are hashed bag-of-words vectors, so texts sharing words are
+ *   similar under cosine distance
+ * - Sentiment comes from a small word lexicon with simple negation handling
+ * - Topics, taxonomy categories, emotion, urgency and intents come from
+ *   keyword tables; versions, platforms and amounts are the only entities,
+ *   found with regular expressions
+ * - Language is detected from the script and common function words; text
+ *   is never actually translated
+ *
+ * Structured replies are built by a responder registered for the response
+ * format name (e.g. 'feedback_analysis'). Fields a responder does not set,
+ * and formats without a responder, are filled with placeholder values
+ * derived from the schema so they still pass validation.
+ *
+ * Not a substitute for a real model: use it to exercise the pipeline, not
+ * to judge analysis quality.
+ */
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Embedding dimensions (matches the VECTOR(1536) column in init.sql)
+ * Can be overridden via LOCAL_EMBED_DIMENSIONS environment variable
+ */
+const LOCAL_EMBED_DIMENSIONS = parseInt(process.env.LOCAL_EMBED_DIMENSIONS || '1536', 10);
+
+const POSITIVE_WORDS = new Set([
+  'love', 'loved', 'great', 'excellent', 'amazing', 'awesome', 'good', 'fantastic',
+  'happy', 'satisfied', 'perfect', 'best', 'wonderful', 'helpful', 'fast', 'easy',
+  'recommend', 'nice', 'like', 'enjoy', 'smooth', 'friendly', 'reliable', 'impressed',
+]);
+
+const NEGATIVE_WORDS = new Set([
+  'bad', 'terrible', 'awful', 'hate', 'poor', 'slow', 'broken', 'worst', 'disappointed',
+  'disappointing', 'problem', 'issue', 'bug', 'crash', 'crashes', 'expensive', 'late',
+  'delayed', 'damaged', 'refund', 'rude', 'confusing', 'difficult', 'annoying', 'unhappy',
+  'useless', 'fail', 'failed', 'error', 'wrong', 'missing',
+]);
+
+const NEGATIONS = new Set(['not', 'no', 'never', "don't", "didn't", "isn't", "wasn't", "doesn't"]);
+
+/**
+ * Topic name → keywords that indicate it
+ */
+const TOPIC_KEYWORDS: Record<string, string[]> = {
+  'shipping': ['shipping', 'delivery', 'delivered', 'shipped', 'package', 'arrived', 'courier'],
+  'pricing': ['price', 'pricing', 'expensive', 'cheap', 'cost', 'costs', 'subscription', 'billing', 'refund', 'charged'],
+  'customer service': ['support', 'service', 'staff', 'agent', 'helpful', 'rude', 'response'],
+  'product quality': ['quality', 'build', 'material', 'durable', 'broken', 'damaged', 'defective'],
+  'usability': ['easy', 'intuitive', 'confusing', 'interface', 'ui', 'ux', 'design', 'navigation'],
+  'performance': ['slow', 'fast', 'speed', 'performance', 'lag', 'loading'],
+  'reliability': ['crash', 'crashes', 'bug', 'bugs', 'error', 'errors', 'outage', 'down'],
+  'account access': ['login', 'password', 'account', 'signin', 'logout'],
+  'features': ['feature', 'features', 'functionality', 'integration', 'option', 'options'],
+};
+
+/**
+ * Emotion → keywords that indicate it, checked in order (first match wins)
+ */
+const EMOTION_KEYWORDS: Array<[string, string[]]> = [
+  ['anger', ['angry', 'furious', 'outraged', 'unacceptable', 'ridiculous', 'scam', 'disgusting']],
+  ['frustration', ['frustrated', 'frustrating', 'annoying', 'again', 'still', 'keeps']],
+  ['anxiety', ['worried', 'concerned', 'afraid', 'nervous', 'scared']],
+  ['confusion', ['confusing', 'confused', 'unclear', 'understand']],
+  ['disappointment', ['disappointed', 'disappointing', 'unfortunately', 'expected']],
+  ['delight', ['love', 'loved', 'amazing', 'awesome', 'fantastic', 'wonderful', 'perfect']],
+];
+
+/**
+ * Words signalling churn, chargeback, legal or safety risk (critical urgency)
+ */
+const CRITICAL_WORDS = new Set([
+  'cancel', 'cancelling', 'canceling', 'chargeback', 'lawyer', 'lawsuit', 'sue', 'fraud', 'unsafe', 'dangerous',
+]);
+
+/**
+ * Words asking for a fast response (high urgency)
+ */
+const HIGH_URGENCY_WORDS = new Set(['urgent', 'urgently', 'asap', 'immediately', 'outage', 'locked', 'refund']);
+
+/**
+ * Intent → keywords that indicate it, in the order intents are listed
+ */
+const INTENT_KEYWORDS: Array<[string, string[]]> = [
+  ['cancellation_intent', ['cancel', 'cancelling', 'canceling', 'unsubscribe', 'switching', 'competitor', 'downgrade']],
+  ['bug_report', ['bug', 'bugs', 'crash', 'crashes', 'error', 'errors', 'broken', 'fails', 'failed', "doesn't", 'freezes']],
+  ['feature_request', ['wish', 'add', 'adding', 'missing', 'feature', 'integration', 'request', 'suggest', 'suggestion']],
+  ['pricing_complaint', ['expensive', 'overpriced', 'price', 'pricing', 'fee', 'fees', 'charged', 'cost']],
+  ['question', ['how', 'why', 'what', 'when', 'where', 'can', 'does', 'is']],
+];
+
+/**
+ * Platform names recognized as entities (lowercase)
+ */
+const PLATFORM_WORDS = new Set(['ios', 'iphone', 'ipad', 'android', 'windows', 'macos', 'mac', 'linux', 'web', 'browser']);
+
+/**
+ * Versions ("v2.3", "version 4", "2.3.1") and amounts ("$49", "€9.99", "20 EUR")
+ */
+const VERSION_PATTERN = /\b(?:v\d+(?:\.\d+)*|version \d+(?:\.\d+)*|\d+\.\d+\.\d+)\b/gi;
+const AMOUNT_PATTERN = /[$€£¥]\s?\d+(?:,\d{3})*(?:\.\d+)?|\b\d+(?:,\d{3})*(?:\.\d+)? ?(?:usd|eur|gbp|dollars|euros)\b/gi;
+
+/**
+ * Severity for each urgency level
+ */
+const SEVERITY_BY_URGENCY: Record<string, number> = { low: 0.1, medium: 0.4, high: 0.7, critical: 0.9 };
+
+/**
+ * Language code → common function words, for stopword-based language detection
+ */
+const LANGUAGE_STOPWORDS: Record<string, Set<string>> = {
+  en: new Set(['the', 'and', 'is', 'was', 'it', 'to', 'of', 'very', 'but', 'not', 'with', 'i', 'my', 'this']),
+  es: new Set(['el', 'la', 'los', 'las', 'que', 'y', 'es', 'muy', 'pero', 'por', 'con', 'una', 'está', 'mi']),
+  de: new Set(['der', 'die', 'das', 'und', 'ist', 'nicht', 'sehr', 'aber', 'ich', 'mit', 'zu', 'ein', 'eine', 'mein']),
+  fr: new Set(['le', 'les', 'et', 'est', 'très', 'mais', 'pas', 'je', 'avec', 'une', 'des', 'du', 'mon', 'ce']),
+};
+
+// ============================================================================
+// TEXT HELPERS
+// ============================================================================
+
+/**
+ * Lowercases and splits text into word tokens (Unicode-aware)
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}']*/gu) || [];
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Extracts the feedback text from a prompt ending in "Feedback: ..."
+ * Falls back to the whole prompt.
+ */
+function extractInput(prompt: string): string {
+  const match = prompt.match(/Feedback:\s*([\s\S]*)$/);
+  return (match ? match[1] : prompt).trim();
+}
+
+/**
+ * Returns the first sentence of `text`, truncated to `maxLength`
+ */
+function firstSentence(text: string, maxLength: number = 160): string {
+  const sentence = text.split(/(?<=[.!?])\s+/)[0].trim();
+  return sentence.length > maxLength ? sentence.slice(0, maxLength) + '...' : sentence;
+}
+
+// ============================================================================
+// DETERMINISTIC ANALYSIS
+// ============================================================================
+
+type Sentiment = 'positive' | 'neutral' | 'negative' | 'mixed';
+
+/**
+ * Counts positive and negative lexicon words, flipping negated ones
+ */
+function countPolarity(tokens: string[]): { positive: number; negative: number } {
+  let positive = 0;
+  let negative = 0;
+
+  tokens.forEach((token, index) => {
+    const negated = index > 0 && NEGATIONS.has(tokens[index - 1]);
+    const polarity = POSITIVE_WORDS.has(token) ? 1 : NEGATIVE_WORDS.has(token) ? -1 : 0;
+    const effective = negated ? -polarity : polarity;
+
+    if (effective > 0) positive++;
+    if (effective < 0) negative++;
+  });
+
+  return { positive, negative };
+}
+
+/**
+ * Lexicon-based sentiment with polarity (-1..1) and confidence (0..1)
+ */
+function scoreSentiment(tokens: string[]): {
+  sentiment: Sentiment;
+  score: number;
+  confidence: number;
+} {
+  const { positive, negative } = countPolarity(tokens);
+  const score = Math.round(((positive - negative) / (positive + negative + 1)) * 100) / 100;
+  const confidence = Math.round((0.5 + 0.1 * Math.min(4, positive + negative)) * 100) / 100;
+
+  if (positive > 0 && negative > 0) return { sentiment: 'mixed', score, confidence };
+  if (positive > 0) return { sentiment: 'positive', score, confidence };
+  if (negative > 0) return { sentiment: 'negative', score, confidence };
+  return { sentiment: 'neutral', score: 0, confidence: 0.5 };
+}
+
+/**
+ * Keyword-based topics, most mentioned first (max 5)
+ */
+function extractTopics(tokens: string[]): string[] {
+  const tokenSet = new Set(tokens);
+
+  return Object.entries(TOPIC_KEYWORDS)
+    .map(([topic, keywords]) => ({
+      topic,
+      hits: keywords.filter((keyword) => tokenSet.has(keyword)).length,
+    }))
+    .filter(({ hits }) => hits > 0)
+    .sort((a, b) => b.hits - a.hits || a.topic.localeCompare(b.topic))
+    .slice(0, 5)
+    .map(({ topic }) => topic);
+}
+
+/**
+ * Sentiment towards each topic, scored over the clauses that mention it.
+ * Clauses are split at punctuation and "but" so "great product, terrible
+ * shipping" scores the two topics separately.
+ */
+function scoreTopics(text: string, topics: string[]): Array<{ topic: string; sentiment: Sentiment; score: number }> {
+  const clauses = text.split(/[.!?;,]+|\bbut\b/i).map(tokenize);
+
+  return topics.map((topic) => {
+    const keywords = TOPIC_KEYWORDS[topic];
+    const tokens = clauses
+      .filter((clause) => clause.some((token) => keywords.includes(token)))
+      .flat();
+    const { positive, negative } = countPolarity(tokens);
+
+    let sentiment: Sentiment = 'neutral';
+    if (positive > 0 && negative > 0) sentiment = 'mixed';
+    else if (positive > 0) sentiment = 'positive';
+    else if (negative > 0) sentiment = 'negative';
+
+    return {
+      topic,
+      sentiment,
+      score: Math.round(((positive - negative) / (positive + negative + 1)) * 100) / 100,
+    };
+  });
+}
+
+/**
+ * Keyword-based emotion, falling back to one implied by the sentiment
+ */
+function detectEmotion(tokens: string[], sentiment: Sentiment): string {
+  const tokenSet = new Set(tokens);
+  const match = EMOTION_KEYWORDS.find(([, keywords]) => keywords.some((keyword) => tokenSet.has(keyword)));
+
+  if (match) return match[0];
+  if (sentiment === 'positive') return 'satisfaction';
+  if (sentiment === 'negative') return 'disappointment';
+  if (sentiment === 'mixed') return 'frustration';
+  return 'neutral';
+}
+
+/**
+ * Keyword-based urgency: critical/high words first, then negativity
+ */
+function detectUrgency(tokens: string[], sentiment: Sentiment): string {
+  if (tokens.some((token) => CRITICAL_WORDS.has(token))) return 'critical';
+  if (tokens.some((token) => HIGH_URGENCY_WORDS.has(token))) return 'high';
+  if (sentiment === 'negative' || sentiment === 'mixed') return 'medium';
+  return 'low';
+}
+
+/**
+ * Keyword-based intents, with "question" only for text containing a question
+ * mark, and praise or complaint when nothing more specific matches
+ */
+function detectIntents(text: string, tokens: string[], sentiment: Sentiment): string[] {
+  const tokenSet = new Set(tokens);
+  const intents = INTENT_KEYWORDS.filter(
+    ([intent, keywords]) =>
+      (intent !== 'question' || text.includes('?')) && keywords.some((keyword) => tokenSet.has(keyword))
+  ).map(([intent]) => intent);
+
+  if (intents.length === 0 && sentiment === 'positive') return ['praise'];
+  if (intents.length === 0 && sentiment === 'negative') return ['complaint'];
+  return intents;
+}
+
+/**
+ * Versions, platforms and amounts mentioned in the text, in that order
+ */
+function detectEntities(text: string, tokens: string[]): Array<{ type: string; text: string }> {
+  const platforms = Array.from(new Set(tokens.filter((token) => PLATFORM_WORDS.has(token))));
+  const entities = [
+    ...(text.match(VERSION_PATTERN) || []).map((match) => ({ type: 'version', text: match })),
+    ...platforms.map((platform) => ({ type: 'platform', text: platform })),
+    ...(text.match(AMOUNT_PATTERN) || []).map((match) => ({ type: 'amount', text: match })),
+  ];
+
+  return entities.filter(
+    (entity, index) => entities.findIndex((other) => other.type === entity.type && other.text === entity.text) === index
+  );
+}
+
+/**
+ * Deterministic equivalent of the 'feedback_analysis' reply
+ */
+function analyzeLocally(text: string) {
+  const tokens = tokenize(text);
+  const { sentiment, score, confidence } = scoreSentiment(tokens);
+  const topics = extractTopics(tokens);
+  const urgency = detectUrgency(tokens, sentiment);
+  const subject = topics.length > 0 ? topics.join(', ') : 'the overall experience';
+  const mainTopic = topics[0] || 'the overall experience';
+
+  let recommendation = `Monitor feedback about ${mainTopic}.`;
+  if (sentiment === 'negative' || sentiment === 'mixed') {
+    recommendation = `Investigate the ${mainTopic} issues raised by the customer.`;
+  } else if (sentiment === 'positive') {
+    recommendation = `Keep investing in ${mainTopic}, which customers value.`;
+  }
+
+  return {
+    sentiment,
+    score,
+    confidence,
+    emotion: detectEmotion(tokens, sentiment),
+    urgency,
+    severity: SEVERITY_BY_URGENCY[urgency],
+    intents: detectIntents(text, tokens, sentiment),
+    entities: detectEntities(text, tokens),
+    topics: scoreTopics(text, topics),
+    summary: `${sentiment.charAt(0).toUpperCase()}${sentiment.slice(1)} feedback about ${subject}: "${firstSentence(text)}"`,
+    recommendation,
+  };
+}
+
+/**
+ * Script- and stopword-based language detection (defaults to English)
+ */
+function detectLanguage(text: string): string {
+  if (/[\u3040-\u30ff]/.test(text)) return 'ja';
+  if (/[\u4e00-\u9fff]/.test(text)) return 'zh';
+
+  const tokens = tokenize(text);
+  let best = 'en';
+  let bestHits = 0;
+
+  for (const [language, stopwords] of Object.entries(LANGUAGE_STOPWORDS)) {
+    const hits = tokens.filter((token) => stopwords.has(token)).length;
+    if (hits > bestHits) {
+      best = language;
+      bestHits = hits;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Deterministic equivalent of the 'feedback_translation' reply.
+ * Detects the language but cannot translate: non-English text is returned
+ * unchanged as its "translation".
+ */
+function translateLocally(input: string) {
+  const language = detectLanguage(input);
+
+  return {
+    language,
+    english_text: language === 'en' ? '' : input,
+  };
+}
+
+/**
+ * Keyword stem used to match category descriptions loosely
+ * ("delivered" and "delivery" share "deliv")
+ */
+function stem(token: string): string {
+  return token.slice(0, 5);
+}
+
+/**
+ * Deterministic equivalent of the 'feedback_classification' reply.
+ * Parses the `- "label": description. Examples: ...` lines from the prompt
+ * and ranks categories by how many of their keyword stems (plus the
+ * keywords of built-in topics they name) occur in the feedback.
+ */
+function classifyLocally(input: string, prompt: string) {
+  const feedbackStems = new Set(tokenize(input).filter((token) => token.length >= 4).map(stem));
+  const scored: Array<{ label: string; score: number }> = [];
+
+  for (const match of prompt.matchAll(/^- "([^"]+)"(.*)$/gm)) {
+    const [, label, details] = match;
+    const categoryTokens = tokenize(`${label} ${details}`);
+    const keywords = new Set(categoryTokens);
+
+    for (const [topic, topicKeywords] of Object.entries(TOPIC_KEYWORDS)) {
+      if (tokenize(topic).some((word) => keywords.has(word))) {
+        topicKeywords.forEach((keyword) => keywords.add(keyword));
+      }
+    }
+
+    const stems = new Set(Array.from(keywords).filter((token) => token.length >= 4).map(stem));
+    const score = Array.from(stems).filter((s) => feedbackStems.has(s)).length;
+
+    if (score > 0) {
+      scored.push({ label, score });
+    }
+  }
+
+  return {
+    categories: scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 3)
+      .map((entry) => entry.label),
+  };
+}
+
+/**
+ * Deterministic equivalent of the 'consolidated_summary' reply:
+ * joins the part summaries and keeps the first recommendation
+ */
+function consolidateLocally(input: string) {
+  const summaries = Array.from(input.matchAll(/^- Summary: (.*)$/gm), (match) => match[1]);
+  const recommendations = Array.from(input.matchAll(/^- Recommendation: (.*)$/gm), (match) => match[1]);
+
+  return {
+    summary: summaries.join(' ') || firstSentence(input),
+    recommendation: recommendations[0] || 'Review the full feedback.',
+  };
+}
+
+/**
+ * Deterministic equivalent of the 'insights_map' reply:
+ * one issue per first topic of the listed items
+ */
+function groupIssuesLocally(_input: string, prompt: string) {
+  const groups = new Map<string, number[]>();
+
+  for (const match of prompt.matchAll(/^\[(\d+)\] \w+, severity [^,]+, topics: (.*?) \| /gm)) {
+    const topic = match[2] === 'none' ? 'general' : match[2].split(', ')[0];
+    groups.set(topic, [...(groups.get(topic) || []), Number(match[1])]);
+  }
+
+  return {
+    issues: Array.from(groups.entries()).map(([topic, items]) => ({
+      title: topic,
+      description: `${items.length} feedback item${items.length === 1 ? '' : 's'} about ${topic}.`,
+      items,
+      recommendation: `Review the ${topic} feedback, starting with the most severe reports.`,
+    })),
+  };
+}
+
+/**
+ * Deterministic equivalent of the 'insights_reduce' reply: merges issues
+ * with the same title and ranks recommendations by average severity
+ */
+function mergeIssuesLocally(_input: string, prompt: string) {
+  const merged = new Map<string, {
+    title: string;
+    description: string;
+    merges: number[];
+    count: number;
+    severity: number;
+    recommendation: string;
+  }>();
+
+  for (const match of prompt.matchAll(/^\[(\d+)\] (.+?) \((\d+) items, avg severity ([\d.]+)\): (.*?) Recommendation: (.*)$/gm)) {
+    const key = match[2].toLowerCase();
+    const issue = merged.get(key) || {
+      title: match[2],
+      description: match[5],
+      merges: [],
+      count: 0,
+      severity: 0,
+      recommendation: match[6],
+    };
+
+    const count = Number(match[3]);
+    issue.merges.push(Number(match[1]));
+    issue.severity = (issue.severity * issue.count + Number(match[4]) * count) / (issue.count + count);
+    issue.count += count;
+    merged.set(key, issue);
+  }
+
+  const issues = Array.from(merged.values());
+  const top = [...issues].sort((a, b) => b.count - a.count)[0];
+
+  return {
+    executive_summary: top
+      ? `${issues.length} issues were raised; the most reported is ${top.title} (${top.count} items).`
+      : 'No recurring issues were raised.',
+    issues: issues.map(({ title, description, merges }) => ({ title, description, merges })),
+    recommendations: issues.map((issue, index) => ({
+      recommendation: issue.recommendation,
+      priority: issue.severity >= 0.6 ? 'high' : issue.severity >= 0.3 ? 'medium' : 'low',
+      issues: [index + 1],
+    })),
+  };
+}
+
+/**
+ * Deterministic equivalent of the 'theme_naming' reply:
+ * named after the keyword topics of the examples
+ */
+function nameThemeLocally(_input: string, prompt: string) {
+  const match = prompt.match(/Examples:\s*([\s\S]*)$/);
+  const examples = (match ? match[1] : prompt).split('\n').filter((line) => line.startsWith('- '));
+  const topics = extractTopics(tokenize(examples.join(' ')));
+
+  return {
+    name: topics.length > 0 ? topics.slice(0, 2).join(' and ') : 'general feedback',
+    description: `${examples.length} similar feedback item${examples.length === 1 ? '' : 's'}${
+      topics.length > 0 ? ` about ${topics.join(', ')}` : ''
+    }.`,
+  };
+}
+
+/**
+ * Responders for known structured response formats, keyed by format name.
+ * They receive the extracted feedback and the full prompt.
+ */
+const RESPONDERS: Record<string, (input: string, prompt: string) => Record<string, unknown>> = {
+  feedback_analysis: analyzeLocally,
+  consolidated_summary: consolidateLocally,
+  feedback_translation: translateLocally,
+  feedback_classification: classifyLocally,
+  insights_map: groupIssuesLocally,
+  insights_reduce: mergeIssuesLocally,
+  theme_naming: nameThemeLocally,
+};
+
+// ============================================================================
+// SCHEMA PLACEHOLDERS
+// ============================================================================
+
+/**
+ * Builds a placeholder value that satisfies `schema`.
+ * Strings use an excerpt of the input so replies stay input-dependent.
+ */
+function placeholderFor(schema: z.ZodTypeAny, input: string): unknown {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case 'ZodObject': {
+      const shape = (schema as z.AnyZodObject).shape;
+      return Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, placeholderFor(value as z.ZodTypeAny, input)])
+      );
+    }
+    case 'ZodString':
+      return firstSentence(input) || 'n/a';
+    case 'ZodNumber': {
+      const checks: Array<{ kind: string; value: number }> = def.checks || [];
+      const min = checks.find((check) => check.kind === 'min')?.value;
+      const max = checks.find((check) => check.kind === 'max')?.value;
+      if (min !== undefined && max !== undefined) return (min + max) / 2;
+      return min ?? max ?? 0;
+    }
+    case 'ZodBoolean':
+      return false;
+    case 'ZodEnum':
+      return def.values[0];
+    case 'ZodLiteral':
+      return def.value;
+    case 'ZodArray': {
+      const minLength = def.minLength?.value ?? 0;
+      return Array.from({ length: minLength }, () => placeholderFor(def.type, input));
+    }
+    case 'ZodNullable':
+      return null;
+    case 'ZodOptional':
+    case 'ZodDefault':
+      return placeholderFor(def.innerType, input);
+    case 'ZodEffects':
+      return placeholderFor(def.schema, input);
+    case 'ZodUnion':
+      return placeholderFor(def.options[0], input);
+    case 'ZodRecord':
+      return {};
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+/**
+ * Hashed bag-of-words embedding, normalized to unit length
+ */
+function embedLocally(text: string): number[] {
+  const vector = new Array<number>(LOCAL_EMBED_DIMENSIONS).fill(0);
+  const tokens = tokenize(text);
+
+  for (const token of tokens) {
+    const h = hash(token);
+    vector[h % LOCAL_EMBED_DIMENSIONS] += h & 0x80000000 ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+
+  return vector.map((value) => value / norm);
+}
+
+/**
+ * Creates the deterministic local provider.
+ *
+ * @returns LLMProvider that never makes network calls
+ *
+ * @example
+ * ```typescript
+ * const provider = createLocalProvider()
+ * const a = await provider.embed('fast delivery', provider.models.embed!)
+ * const b = await provider.embed('fast delivery', provider.models.embed!)
+ * // a and b are identical
+ * ```
+ */
+export function createLocalProvider(): LLMProvider {
+  return {
+    name: 'local',
+    models: {
+      llm: 'local-deterministic',
+      embed: 'local-hash',
+    },
+
+    async embed(text) {
+      return embedLocally(text);
+    },
+
+    async embedBatch(texts) {
+      return texts.map(embedLocally);
+    },
+
+    async complete(request) {
+      // Repair round-trips append messages; the original prompt is always first
+      const prompt = request.messages.find((message) => message.role === 'user')?.content || '';
+      const input = extractInput(prompt);
+
+      if (!request.responseFormat) {
+        return `Local response: ${firstSentence(input)}`;
+      }
+
+      const { name, schema } = request.responseFormat;
+      const responder = RESPONDERS[name];
+      const placeholder = placeholderFor(schema, input) as Record<string, unknown>;
+
+      return JSON.stringify(responder ? { ...placeholder, ...responder(input, prompt) } : placeholder);
+    },
+  };
+}
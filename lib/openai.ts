@@ -1,4 +1,14 @@
 import OpenAI from 'openai';
+import type { z } from 'zod';
+import {
+  createOpenAIProvider,
+  type ChatMessage,
+  type LLMProvider,
+  type ProviderName,
+} from './providers';
+import { createLocalProvider } from './local-provider';
+import { callProvider, classifyProviderError, ProviderError } from './resilience';
+import { estimateTokens, recordUsage, type ProviderUsage, type UsageRecord } from './usage';
 
 // ============================================================================
 // CONFIGURATION
@@ -13,6 +23,26 @@ export const MAX_ITEMS_PER_BATCH = parseInt(
   10
 );
 
+/**
+ * Default number of attempts for structured completions.
+ * The first attempt plus one repair round-trip when validation fails.
+ */
+const DEFAULT_STRUCTURED_ATTEMPTS = 2;
+
+/**
+ * Estimated token budget per batched embedding request (~4 characters per token).
+ * Can be overridden via EMBED_BATCH_MAX_TOKENS environment variable
+ */
+export const EMBED_BATCH_MAX_TOKENS = parseInt(
+  process.env.EMBED_BATCH_MAX_TOKENS || '100000',
+  10
+);
+
+/**
+ * Maximum number of inputs per batched embedding request (OpenAI limit)
+ */
+export const EMBED_BATCH_MAX_INPUTS = 2048;
+
 // ============================================================================
 // TELEMETRY HELPERS
 // ============================================================================
@@ -58,6 +88,55 @@ function logTelemetry(data: {
   // });
 }
 
+/**
+ * Prefixes a provider error's message with the failed operation, keeping its kind
+ */
+function withContext(error: ProviderError, context: string): ProviderError {
+  return new ProviderError(error.kind, `${context}: ${error.message}`, {
+    status: error.status,
+    retryAfterMs: error.retryAfterMs,
+    cause: error,
+  });
+}
+
+/**
+ * Runs a provider request and records its token usage (see lib/usage.ts):
+ * the counts the provider reports, or `estimate(result)` if it reports none.
+ */
+async function trackUsage<T>(
+  operation: string,
+  kind: UsageRecord['kind'],
+  model: string,
+  estimate: (result: T) => ProviderUsage,
+  request: (onUsage: (usage: ProviderUsage) => void) => Promise<T>
+): Promise<T> {
+  let reported: ProviderUsage | undefined;
+  const result = await request((usage) => {
+    reported = usage;
+  });
+
+  recordUsage({ operation, kind, model, ...(reported || estimate(result)), estimated: !reported });
+
+  return result;
+}
+
+/**
+ * Estimated usage of an embedding request
+ */
+function estimateEmbeddingUsage(texts: string[]): ProviderUsage {
+  return { promptTokens: texts.reduce((sum, text) => sum + estimateTokens(text), 0), completionTokens: 0 };
+}
+
+/**
+ * Estimated usage of a completion request
+ */
+function estimateCompletionUsage(messages: ChatMessage[], content: string | null | undefined): ProviderUsage {
+  return {
+    promptTokens: messages.reduce((sum, message) => sum + estimateTokens(message.content), 0),
+    completionTokens: estimateTokens(content || ''),
+  };
+}
+
 // ============================================================================
 // CLIENT MANAGEMENT
 // ============================================================================
@@ -80,19 +159,113 @@ export function getOpenAIClient(): OpenAI {
     throw new Error('OPENAI_API_KEY environment variable is not set');
   }
   
-  return new OpenAI({ apiKey });
+  // Retries are handled by callProvider (lib/resilience.ts)
+  return new OpenAI({ apiKey, maxRetries: 0 });
+}
+
+/**
+ * Returns an OpenAI SDK client pointed at an OpenAI-compatible gateway.
+ * 
+ * OPENAI_API_KEY is optional here since many self-hosted gateways
+ * do not require one.
+ * 
+ * @returns {OpenAI} Client configured with OPENAI_BASE_URL
+ * @throws {Error} If OPENAI_BASE_URL is not set
+ */
+function getOpenAICompatibleClient(): OpenAI {
+  const baseURL = process.env.OPENAI_BASE_URL;
+  
+  if (!baseURL) {
+    throw new Error('OPENAI_BASE_URL environment variable is not set (required for LLM_PROVIDER=openai-compatible)');
+  }
+  
+  return new OpenAI({ apiKey: process.env.OPENAI_API_KEY || 'not-required', baseURL, maxRetries: 0 });
+}
+
+// ============================================================================
+// PROVIDER SELECTION
+// ============================================================================
+
+/**
+ * Provider set programmatically via setProvider (takes precedence over env)
+ */
+let providerOverride: LLMProvider | null = null;
+
+/**
+ * Returns the LLM/embedding provider selected by LLM_PROVIDER.
+ * 
+ * - `openai` (default): OpenAI API, using OPENAI_API_KEY
+ * - `openai-compatible`: OpenAI-compatible gateway at OPENAI_BASE_URL.
+ *   Set OPENAI_COMPATIBLE_STRUCTURED_OUTPUTS=false if the gateway rejects
+ *   JSON Schema response formats.
+ * - `local`: Deterministic offline provider, no API key needed
+ * 
+ * The openai providers read models from OPENAI_LLM_MODEL and OPENAI_EMBED_MODEL.
+ * 
+ * @returns {LLMProvider} The active provider
+ * @throws {Error} If LLM_PROVIDER is not a known provider
+ * 
+ * @example
+ * ```typescript
+ * // LLM_PROVIDER=local npm run dev
+ * const provider = getProvider();
+ * console.log(provider.name); // 'local'
+ * ```
+ */
+export function getProvider(): LLMProvider {
+  if (providerOverride) {
+    return providerOverride;
+  }
+  
+  const name = (process.env.LLM_PROVIDER || 'openai') as ProviderName;
+  const models = {
+    llm: process.env.OPENAI_LLM_MODEL,
+    embed: process.env.OPENAI_EMBED_MODEL,
+  };
+  
+  switch (name) {
+    case 'openai':
+      return createOpenAIProvider({ name, getClient: getOpenAIClient, models });
+    case 'openai-compatible':
+      return createOpenAIProvider({
+        name,
+        getClient: getOpenAICompatibleClient,
+        models,
+        structuredOutputs: process.env.OPENAI_COMPATIBLE_STRUCTURED_OUTPUTS !== 'false',
+      });
+    case 'local':
+      return createLocalProvider();
+    default:
+      throw new Error(
+        `Unknown LLM_PROVIDER "${name}". Expected one of: openai, openai-compatible, local`
+      );
+  }
+}
+
+/**
+ * Overrides the provider returned by getProvider.
+ * Pass null to go back to the LLM_PROVIDER environment variable.
+ * 
+ * @param {LLMProvider | null} provider - Provider to use, or null to reset
+ */
+export function setProvider(provider: LLMProvider | null): void {
+  providerOverride = provider;
 }
 
 // ============================================================================
 // API FUNCTIONS
 // ============================================================================
+// Provider requests go through callProvider (lib/resilience.ts): transient
+// failures are retried with backoff, and failures are thrown as ProviderError
+// with a `kind` so callers can tell rate limits from outages.
 
 /**
- * Generates embeddings for the given text using OpenAI's embedding model.
+ * Generates embeddings for the given text using the active provider's embedding model.
  * 
  * @param {string} text - The text to embed
  * @returns {Promise<number[]>} Array of embedding values
- * @throws {Error} If OPENAI_EMBED_MODEL is not set or API call fails
+ * @throws {ProviderError} If the API call fails after retries
+ * @throws {Error} If OPENAI_EMBED_MODEL is not set
  * 
  * @example
  * ```typescript
@@ -102,20 +275,21 @@ export function getOpenAIClient(): OpenAI {
  */
 export async function embedText(text: string): Promise<number[]> {
   const startTime = Date.now();
-  const model = process.env.OPENAI_EMBED_MODEL;
+  const provider = getProvider();
+  const model = provider.models.embed;
   
   if (!model) {
     throw new Error('OPENAI_EMBED_MODEL environment variable is not set');
   }
   
   try {
-    const client = getOpenAIClient();
-    const response = await client.embeddings.create({
+    const embedding = await trackUsage(
+      'embedText',
+      'embedding',
       model,
-      input: text,
-    });
-    
-    const embedding = response.data[0].embedding;
+      () => estimateEmbeddingUsage([text]),
+      (onUsage) => callProvider('embedText', (signal) => provider.embed(text, model, signal, onUsage))
+    );
     const endTime = Date.now();
     
     // Log successful embedding generation
@@ -125,6 +299,7 @@ export async function embedText(text: string): Promise<number[]> {
       endTime,
       success: true,
       metadata: {
+        provider: provider.name,
         model,
         textLength: text.length,
         embeddingDimensions: embedding.length,
@@ -142,12 +317,7 @@ export async function embedText(text: string): Promise<number[]> {
     return embedding;
   } catch (error) {
     const endTime = Date.now();
-    let message = error instanceof Error ? error.message : 'Unknown error';
-    
-    // Check for quota/billing errors and provide helpful message
-    if (message.includes('429') || message.includes('quota') || message.includes('billing')) {
-      message = 'OpenAI API quota exceeded. Please check your billing and usage limits at https://platform.openai.com/usage';
-    }
+    const providerError = classifyProviderError(error);
     
     // Log failed embedding generation
     logTelemetry({
@@ -155,11 +325,12 @@ export async function embedText(text: string): Promise<number[]> {
       startTime,
       endTime,
       success: false,
-      error: message,
+      error: providerError.message,
       metadata: {
+        provider: provider.name,
         model,
         textLength: text.length,
-        isQuotaError: message.includes('quota') || message.includes('429'),
+        errorKind: providerError.kind,
       },
     });
     
@@ -170,17 +341,162 @@ export async function embedText(text: string): Promise<number[]> {
     //   extra: { textLength: text.length }
     // });
     
-    throw new Error(`Failed to generate embedding: ${message}`);
+    throw withContext(providerError, 'Failed to generate embedding');
+  }
+}
+
+/**
+ * Groups texts into embedding requests that stay within the token and input limits.
+ * 
+ * Tokens are estimated at ~4 characters per token. A text that exceeds the
+ * budget on its own gets a request of its own (callers chunk long texts first).
+ * 
+ * @param {string[]} texts - Texts to embed
+ * @param {number} [maxTokens] - Estimated token budget per request
+ * @param {number} [maxInputs] - Maximum number of texts per request
+ * @returns {number[][]} Indices into `texts`, one array per request
+ */
+export function packEmbeddingBatches(
+  texts: string[],
+  maxTokens: number = EMBED_BATCH_MAX_TOKENS,
+  maxInputs: number = EMBED_BATCH_MAX_INPUTS
+): number[][] {
+  const batches: number[][] = [];
+  let current: number[] = [];
+  let currentTokens = 0;
+  
+  texts.forEach((text, index) => {
+    const tokens = Math.ceil(text.length / 4);
+    
+    if (current.length > 0 && (currentTokens + tokens > maxTokens || current.length >= maxInputs)) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    
+    current.push(index);
+    currentTokens += tokens;
+  });
+  
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  
+  return batches;
+}
+
+/**
+ * Generates embeddings for many texts with as few requests as possible.
+ * 
+ * Texts are packed into requests by packEmbeddingBatches. Providers without
+ * batch support embed each text individually.
+ * 
+ * @param {string[]} texts - The texts to embed
+ * @returns {Promise<number[][]>} Embedding vectors, in the order of `texts`
+ * @throws {ProviderError} If any request fails after retries
+ * @throws {Error} If OPENAI_EMBED_MODEL is not set
+ * 
+ * @example
+ * ```typescript
+ * const [first, second] = await embedTexts(['Great app', 'Too slow']);
+ * ```
+ */
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  const startTime = Date.now();
+  const provider = getProvider();
+  const model = provider.models.embed;
+  
+  if (!model) {
+    throw new Error('OPENAI_EMBED_MODEL environment variable is not set');
+  }
+  
+  if (texts.length === 0) {
+    return [];
+  }
+  
+  const batches = packEmbeddingBatches(texts);
+  const totalLength = texts.reduce((sum, text) => sum + text.length, 0);
+  
+  try {
+    const embeddings: number[][] = new Array(texts.length);
+    
+    for (const batch of batches) {
+      const batchTexts = batch.map((index) => texts[index]);
+      const vectors = provider.embedBatch
+        ? await trackUsage(
+            'embedTexts',
+            'embedding',
+            model,
+            () => estimateEmbeddingUsage(batchTexts),
+            (onUsage) =>
+              callProvider('embedTexts', (signal) => provider.embedBatch!(batchTexts, model, signal, onUsage))
+          )
+        : await Promise.all(
+            batchTexts.map((text) =>
+              trackUsage(
+                'embedTexts',
+                'embedding',
+                model,
+                () => estimateEmbeddingUsage([text]),
+                (onUsage) => callProvider('embedTexts', (signal) => provider.embed(text, model, signal, onUsage))
+              )
+            )
+          );
+      
+      if (vectors.length !== batch.length) {
+        throw new Error(`Expected ${batch.length} embeddings, received ${vectors.length}`);
+      }
+      
+      batch.forEach((index, position) => {
+        embeddings[index] = vectors[position];
+      });
+    }
+    
+    logTelemetry({
+      operation: 'embedTexts',
+      startTime,
+      endTime: Date.now(),
+      success: true,
+      metadata: {
+        provider: provider.name,
+        model,
+        texts: texts.length,
+        requests: batches.length,
+        totalLength,
+      },
+    });
+    
+    return embeddings;
+  } catch (error) {
+    const providerError = classifyProviderError(error);
+    
+    logTelemetry({
+      operation: 'embedTexts',
+      startTime,
+      endTime: Date.now(),
+      success: false,
+      error: providerError.message,
+      metadata: {
+        provider: provider.name,
+        model,
+        texts: texts.length,
+        requests: batches.length,
+        errorKind: providerError.kind,
+      },
+    });
+    
+    throw withContext(providerError, 'Failed to generate embeddings');
   }
 }
 
 /**
- * Runs a completion using OpenAI's language model.
+ * Runs a completion using the active provider's language model.
  * 
  * @param {string} prompt - The prompt to send to the model
  * @param {number} [maxTokens=1000] - Maximum tokens to generate (default: 1000)
  * @returns {Promise<string>} The generated text response
- * @throws {Error} If OPENAI_LLM_MODEL is not set or API call fails
+ * @throws {ProviderError} If the API call fails after retries
+ * @throws {Error} If OPENAI_LLM_MODEL is not set
  * 
  * @example
  * ```typescript
@@ -190,22 +506,33 @@ export async function embedText(text: string): Promise<number[]> {
  */
 export async function runLLM(prompt: string, maxTokens: number = 1000): Promise<string> {
   const startTime = Date.now();
-  const model = process.env.OPENAI_LLM_MODEL;
+  const provider = getProvider();
+  const model = provider.models.llm;
   
   if (!model) {
     throw new Error('OPENAI_LLM_MODEL environment variable is not set');
   }
   
+  const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+
   try {
-    const client = getOpenAIClient();
-    const response = await client.chat.completions.create({
+    const content = await trackUsage<string | null>(
+      'runLLM',
+      'completion',
       model,
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.1,
-      max_tokens: maxTokens,
-    });
-    
-    const content = response.choices[0]?.message?.content;
+      (reply) => estimateCompletionUsage(messages, reply),
+      (onUsage) =>
+        callProvider('runLLM', (signal) =>
+          provider.complete({
+            model,
+            messages,
+            temperature: 0.1,
+            maxTokens,
+            signal,
+            onUsage,
+          })
+        )
+    );
     
     if (!content) {
       throw new Error('No content returned from OpenAI API');
@@ -220,11 +547,11 @@ export async function runLLM(prompt: string, maxTokens: number = 1000): Promise<
       endTime,
       success: true,
       metadata: {
+        provider: provider.name,
         model,
         promptLength: prompt.length,
         maxTokens,
         responseLength: content.length,
-        tokensUsed: response.usage?.total_tokens,
       },
     });
     
@@ -233,19 +560,13 @@ export async function runLLM(prompt: string, maxTokens: number = 1000): Promise<
     // posthog.capture('llm_completion', {
     //   model,
     //   prompt_length: prompt.length,
-    //   response_length: content.length,
-    //   tokens_used: response.usage?.total_tokens
+    //   response_length: content.length
     // });
     
     return content;
   } catch (error) {
     const endTime = Date.now();
-    let message = error instanceof Error ? error.message : 'Unknown error';
-    
-    // Check for quota/billing errors and provide helpful message
-    if (message.includes('429') || message.includes('quota') || message.includes('billing')) {
-      message = 'OpenAI API quota exceeded. Please check your billing and usage limits at https://platform.openai.com/usage';
-    }
+    const providerError = classifyProviderError(error);
     
     // Log failed LLM completion
     logTelemetry({
@@ -253,12 +574,13 @@ export async function runLLM(prompt: string, maxTokens: number = 1000): Promise<
       startTime,
       endTime,
       success: false,
-      error: message,
+      error: providerError.message,
       metadata: {
+        provider: provider.name,
         model,
         promptLength: prompt.length,
         maxTokens,
-        isQuotaError: message.includes('quota') || message.includes('429'),
+        errorKind: providerError.kind,
       },
     });
     
@@ -269,6 +591,154 @@ export async function runLLM(prompt: string, maxTokens: number = 1000): Promise<
     //   extra: { promptLength: prompt.length, maxTokens }
     // });
     
-    throw new Error(`Failed to run LLM: ${message}`);
+    throw withContext(providerError, 'Failed to run LLM');
+  }
+}
+
+/**
+ * Extracts a JSON object from a model reply.
+ * Tolerates markdown code fences some models wrap around JSON.
+ */
+function extractJSON(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+  return JSON.parse((fenced ? fenced[1] : content).trim());
+}
+
+/**
+ * Formats zod validation issues into a compact, model-readable list.
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `- ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('\n');
+}
+
+/**
+ * Runs a completion that must return JSON matching the given zod schema.
+ *
+ * The schema is sent to the model as a JSON Schema response format, and the
+ * reply is validated locally. When the reply is not valid JSON or fails
+ * validation, the model is shown its reply with the validation errors and
+ * asked to correct it, up to `maxAttempts` total attempts.
+ *
+ * @param {string} prompt - The prompt to send to the model
+ * @param {z.ZodType<T>} schema - Schema the reply must satisfy
+ * @param {object} options - Response format name, max tokens and max attempts
+ * @returns {Promise<T>} The validated, typed reply
+ * @throws {ProviderError} If an API call fails after retries
+ * @throws {Error} If OPENAI_LLM_MODEL is not set or no attempt produced a valid reply
+ *
+ * @example
+ * ```typescript
+ * const Reply = z.object({ answer: z.string() });
+ * const { answer } = await runStructuredLLM('What is 2 + 2?', Reply, { name: 'answer' });
+ * ```
+ */
+export async function runStructuredLLM<T>(
+  prompt: string,
+  schema: z.ZodType<T>,
+  options: { name: string; maxTokens?: number; maxAttempts?: number }
+): Promise<T> {
+  const startTime = Date.now();
+  const provider = getProvider();
+  const model = provider.models.llm;
+  const { name, maxTokens = 1000, maxAttempts = DEFAULT_STRUCTURED_ATTEMPTS } = options;
+
+  if (!model) {
+    throw new Error('OPENAI_LLM_MODEL environment variable is not set');
   }
+
+  const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+  let lastIssue = 'No attempts made';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let content: string | null | undefined;
+
+    // Copy: the array is appended to on repair round-trips
+    const attemptMessages = [...messages];
+
+    try {
+      content = await trackUsage<string | null>(
+        name,
+        'completion',
+        model,
+        (reply) => estimateCompletionUsage(attemptMessages, reply),
+        (onUsage) =>
+          callProvider('runStructuredLLM', (signal) =>
+            provider.complete({
+              model,
+              messages: attemptMessages,
+              temperature: 0.1,
+              maxTokens,
+              responseFormat: { name, schema },
+              signal,
+              onUsage,
+            })
+          )
+      );
+    } catch (error) {
+      const providerError = classifyProviderError(error);
+
+      logTelemetry({
+        operation: 'runStructuredLLM',
+        startTime,
+        endTime: Date.now(),
+        success: false,
+        error: providerError.message,
+        metadata: { provider: provider.name, model, name, attempt, errorKind: providerError.kind },
+      });
+
+      throw withContext(providerError, 'Failed to run LLM');
+    }
+
+    if (!content) {
+      lastIssue = 'No content returned from OpenAI API';
+    } else {
+      let parsed: unknown;
+      try {
+        parsed = extractJSON(content);
+      } catch {
+        parsed = undefined;
+        lastIssue = 'Reply was not valid JSON';
+      }
+
+      if (parsed !== undefined) {
+        const result = schema.safeParse(parsed);
+
+        if (result.success) {
+          logTelemetry({
+            operation: 'runStructuredLLM',
+            startTime,
+            endTime: Date.now(),
+            success: true,
+            metadata: { provider: provider.name, model, name, attempts: attempt, promptLength: prompt.length },
+          });
+
+          return result.data;
+        }
+
+        lastIssue = formatIssues(result.error);
+      }
+    }
+
+    // Show the model its previous reply and what was wrong with it
+    messages.push(
+      { role: 'assistant', content: content || '' },
+      {
+        role: 'user',
+        content: `Your previous reply did not match the required JSON schema:\n${lastIssue}\n\nReturn the corrected JSON only.`,
+      }
+    );
+  }
+
+  logTelemetry({
+    operation: 'runStructuredLLM',
+    startTime,
+    endTime: Date.now(),
+    success: false,
+    error: lastIssue,
+    metadata: { provider: provider.name, model, name, attempts: maxAttempts },
+  });
+
+  throw new Error(`Structured output validation failed after ${maxAttempts} attempts: ${lastIssue}`);
 }
@@ -0,0 +1,203 @@
+import OpenAI from 'openai';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import type { z } from 'zod';
+import type { ProviderUsage } from './usage';
+
+/**
+ * LLM and Embedding Provider Layer
+ *
+ * Defines the interface behind embedText, runLLM and runStructuredLLM in
+ * lib/openai.ts. Providers are thin: they perform a single request and
+ * return raw results. Model resolution, telemetry and error messages stay
+ * in lib/openai.ts, and retries in lib/resilience.ts, so every provider
+ * behaves the same to callers.
+ *
+ * Available providers (selected with LLM_PROVIDER, see getProvider):
+ * - openai: OpenAI API (default)
+ * - openai-compatible: Any OpenAI-compatible API at OPENAI_BASE_URL
+ * - local: Deterministic offline provider (see lib/local-provider.ts)
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Provider identifiers accepted by LLM_PROVIDER
+ */
+export type ProviderName = 'openai' | 'openai-compatible' | 'local';
+
+/**
+ * Chat message sent to a completion provider
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Structured output request: the reply must be JSON matching `schema`
+ */
+export interface ResponseFormat {
+  name: string;
+  schema: z.ZodTypeAny;
+}
+
+/**
+ * Completion request passed to a provider
+ */
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  responseFormat?: ResponseFormat;
+  /** Aborts the request (set by callProvider when the request times out) */
+  signal?: AbortSignal;
+  /** Called with the token counts the provider reports for the request */
+  onUsage?: (usage: ProviderUsage) => void;
+}
+
+/**
+ * LLM and embedding provider
+ */
+export interface LLMProvider {
+  /** Provider identifier, included in telemetry */
+  name: ProviderName;
+  /** Models used by this provider; undefined when not configured */
+  models: {
+    llm?: string;
+    embed?: string;
+  };
+  /**
+   * Returns the embedding vector for `text`.
+   * Providers that report token counts pass them to `onUsage`; lib/openai.ts
+   * estimates them otherwise (the same applies to embedBatch and complete).
+   */
+  embed(
+    text: string,
+    model: string,
+    signal?: AbortSignal,
+    onUsage?: (usage: ProviderUsage) => void
+  ): Promise<number[]>;
+  /**
+   * Returns the embedding vectors for `texts` (in order) in a single request.
+   * Optional: embedTexts falls back to one embed call per text.
+   */
+  embedBatch?(
+    texts: string[],
+    model: string,
+    signal?: AbortSignal,
+    onUsage?: (usage: ProviderUsage) => void
+  ): Promise<number[][]>;
+  /** Returns the completion text, or null if the provider returned none */
+  complete(request: CompletionRequest): Promise<string | null>;
+}
+
+// ============================================================================
+// OPENAI PROVIDERS
+// ============================================================================
+
+/**
+ * Creates a provider backed by the OpenAI SDK.
+ *
+ * Used for both the OpenAI API and OpenAI-compatible gateways; the
+ * difference is only in how the client is configured.
+ *
+ * @param options.name - Provider identifier
+ * @param options.getClient - Returns the SDK client (called lazily per request)
+ * @param options.models - LLM and embedding model names
+ * @param options.structuredOutputs - Send JSON Schema response formats (default: true).
+ *   Disable for gateways that reject `response_format`; replies are still
+ *   validated and repaired by runStructuredLLM.
+ * @returns LLMProvider
+ *
+ * @example
+ * ```typescript
+ * const provider = createOpenAIProvider({
+ *   name: 'openai',
+ *   getClient: () => new OpenAI({ apiKey }),
+ *   models: { llm: 'gpt-4o-mini', embed: 'text-embedding-3-small' },
+ * })
+ * ```
+ */
+export function createOpenAIProvider(options: {
+  name: ProviderName;
+  getClient: () => OpenAI;
+  models: { llm?: string; embed?: string };
+  structuredOutputs?: boolean;
+}): LLMProvider {
+  const { name, getClient, models, structuredOutputs = true } = options;
+
+  return {
+    name,
+    models,
+
+    async embed(text, model, signal, onUsage) {
+      const response = await getClient().embeddings.create(
+        {
+          model,
+          input: text,
+        },
+        { signal }
+      );
+
+      if (response.usage && onUsage) {
+        onUsage({ promptTokens: response.usage.prompt_tokens, completionTokens: 0 });
+      }
+
+      return response.data[0].embedding;
+    },
+
+    async embedBatch(texts, model, signal, onUsage) {
+      const response = await getClient().embeddings.create(
+        {
+          model,
+          input: texts,
+        },
+        { signal }
+      );
+
+      if (response.usage && onUsage) {
+        onUsage({ promptTokens: response.usage.prompt_tokens, completionTokens: 0 });
+      }
+
+      // Results carry the index of their input; don't rely on response order
+      const embeddings: number[][] = new Array(texts.length);
+      for (const item of response.data) {
+        embeddings[item.index] = item.embedding;
+      }
+
+      return embeddings;
+    },
+
+    async complete(request) {
+      const response = await getClient().chat.completions.create(
+        {
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          ...(request.responseFormat && structuredOutputs
+            ? {
+                response_format: zodResponseFormat(
+                  request.responseFormat.schema,
+                  request.responseFormat.name
+                ),
+              }
+            : {}),
+        },
+        { signal: request.signal }
+      );
+
+      if (response.usage && request.onUsage) {
+        request.onUsage({
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: response.usage.completion_tokens,
+        });
+      }
+
+      return response.choices[0]?.message?.content ?? null;
+    },
+  };
+}
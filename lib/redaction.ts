@@ -0,0 +1,364 @@
+/**
+ * PII Redaction
+ *
+ * Detects and masks personally identifiable information (emails, phone numbers,
+ * payment cards, IBANs, order numbers and street addresses) in feedback text
+ * before it is sent to the LLM or embedding provider.
+ *
+ * Accounts with `redact_before_storage` enabled (see lib/settings.ts) also store
+ * the redacted text. The original values are then kept encrypted in the
+ * `pii_vault` table so that authorized users can reveal them.
+ *
+ * Usage:
+ * ```typescript
+ * const { text, redactions, counts } = redactPII('Email me at jane@example.com')
+ * // text: 'Email me at [EMAIL_1]', counts: { email: 1 }
+ *
+ * const original = restorePII(text, redactions)
+ * // 'Email me at jane@example.com'
+ * ```
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import { createServerClient } from '@/lib/supabase'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Kinds of personal data that are detected
+ */
+export type PIIType = 'email' | 'credit_card' | 'iban' | 'phone' | 'order_number' | 'address'
+
+/**
+ * A single masked value and the placeholder that replaced it
+ */
+export interface RedactedValue {
+  placeholder: string
+  type: PIIType
+  value: string
+}
+
+/**
+ * Number of redacted occurrences per PII type (types with none are omitted)
+ */
+export type RedactionCounts = Partial<Record<PIIType, number>>
+
+/**
+ * Result of redacting a text
+ */
+export interface RedactionResult {
+  text: string
+  redactions: RedactedValue[]
+  counts: RedactionCounts
+}
+
+interface Detector {
+  type: PIIType
+  pattern: RegExp
+  /** Capture group holding the value to mask (defaults to the whole match) */
+  group?: number
+  validate?: (value: string) => boolean
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Luhn checksum, used to tell card numbers apart from other long digit runs
+ */
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '')
+  let sum = 0
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+
+  return sum % 10 === 0
+}
+
+function countDigits(value: string): number {
+  return value.replace(/\D/g, '').length
+}
+
+/**
+ * Detectors in priority order: when matches overlap, the earlier detector wins
+ * (e.g. a card number or a long order number is never also reported as a
+ * phone number).
+ */
+const DETECTORS: Detector[] = [
+  {
+    type: 'email',
+    pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  },
+  {
+    type: 'credit_card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: passesLuhn,
+  },
+  {
+    // Card fragments such as "**** 4242" or "card ending in 4242"
+    type: 'credit_card',
+    pattern: /(?:[*xX•]{4}[ -]?){1,3}\d{4}\b/g,
+  },
+  {
+    type: 'credit_card',
+    pattern: /\b(?:card|visa|mastercard|amex)\b[^\d\n]{0,20}?\b(?:ending|ends)\s+(?:in|with)\s+(\d{4})\b/gi,
+    group: 1,
+  },
+  {
+    type: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+  },
+  {
+    type: 'order_number',
+    pattern: /\b(?:order|invoice|ticket|tracking|booking)(?:\s+(?:number|no\.?|id))?\s*[:#]?\s*([A-Z0-9-]*\d[A-Z0-9-]{3,})\b/gi,
+    group: 1,
+  },
+  {
+    type: 'order_number',
+    pattern: /#(\d{5,})\b/g,
+    group: 1,
+  },
+  {
+    type: 'phone',
+    pattern: /(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}[ .-]?\d{3,4}[ .-]?\d{3,4}\b/g,
+    validate: (value) => countDigits(value) >= 9 && countDigits(value) <= 15,
+  },
+  {
+    type: 'address',
+    pattern: /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl)\b\.?(?:,?\s+(?:Apt|Suite|Unit)\.?\s*\w+)?/g,
+  },
+]
+
+/**
+ * Replaces personal data in a text with typed placeholders such as `[EMAIL_1]`
+ *
+ * The same value always maps to the same placeholder within one text, so the
+ * model can still tell that two mentions refer to the same thing.
+ *
+ * @param text - Raw feedback text
+ * @returns Redacted text, the masked values (for restorePII or the vault) and per-type counts
+ */
+export function redactPII(text: string): RedactionResult {
+  const spans: { start: number; end: number; type: PIIType }[] = []
+
+  for (const detector of DETECTORS) {
+    for (const match of text.matchAll(detector.pattern)) {
+      const value = match[detector.group ?? 0]
+      if (!value || (detector.validate && !detector.validate(value))) continue
+
+      const start = match.index! + match[0].lastIndexOf(value)
+      const end = start + value.length
+
+      if (spans.some((span) => start < span.end && end > span.start)) continue
+      spans.push({ start, end, type: detector.type })
+    }
+  }
+
+  spans.sort((a, b) => a.start - b.start)
+
+  const redactions: RedactedValue[] = []
+  const counts: RedactionCounts = {}
+  let redacted = ''
+  let cursor = 0
+
+  for (const span of spans) {
+    const value = text.slice(span.start, span.end)
+    let entry = redactions.find((r) => r.type === span.type && r.value === value)
+
+    if (!entry) {
+      const index = redactions.filter((r) => r.type === span.type).length + 1
+      entry = { placeholder: `[${span.type.toUpperCase()}_${index}]`, type: span.type, value }
+      redactions.push(entry)
+    }
+
+    counts[span.type] = (counts[span.type] || 0) + 1
+    redacted += text.slice(cursor, span.start) + entry.placeholder
+    cursor = span.end
+  }
+
+  redacted += text.slice(cursor)
+
+  return { text: redacted, redactions, counts }
+}
+
+/**
+ * Puts the original values back into a redacted text (or its translation)
+ *
+ * @param text - Text containing placeholders produced by redactPII
+ * @param redactions - Masked values returned by redactPII or getRedactedValues
+ * @returns Text with placeholders replaced by the original values
+ */
+export function restorePII(text: string, redactions: RedactedValue[]): string {
+  return redactions.reduce(
+    (restored, { placeholder, value }) => restored.split(placeholder).join(value),
+    text
+  )
+}
+
+// ============================================================================
+// VAULT
+// ============================================================================
+
+/**
+ * Whether PII_VAULT_KEY is set, i.e. original values can be stored in the vault
+ *
+ * Redacting before storage without a vault would lose the originals for good.
+ */
+export function isVaultConfigured(): boolean {
+  return Boolean(process.env.PII_VAULT_KEY)
+}
+
+/**
+ * Derive the AES-256 key from PII_VAULT_KEY
+ */
+function getVaultKey(): Buffer {
+  const secret = process.env.PII_VAULT_KEY
+
+  if (!secret) {
+    throw new Error('PII_VAULT_KEY environment variable is not set')
+  }
+
+  return createHash('sha256').update(secret).digest()
+}
+
+/**
+ * Encrypt a value with AES-256-GCM as `iv:tag:ciphertext` (base64)
+ */
+function encryptValue(value: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', getVaultKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()])
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join(':')
+}
+
+function decryptValue(payload: string): string {
+  const [iv, tag, ciphertext] = payload.split(':').map((part) => Buffer.from(part, 'base64'))
+  const decipher = createDecipheriv('aes-256-gcm', getVaultKey(), iv)
+  decipher.setAuthTag(tag)
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+}
+
+/**
+ * Store the original values of a redacted feedback entry in the vault
+ *
+ * @param userId - Clerk user ID that owns the feedback
+ * @param feedbackId - UUID of the feedback
+ * @param redactions - Masked values returned by redactPII
+ * @returns Success boolean
+ */
+export async function storeRedactedValues(
+  userId: string,
+  feedbackId: string,
+  redactions: RedactedValue[]
+): Promise<boolean> {
+  if (redactions.length === 0) {
+    return true
+  }
+
+  try {
+    const supabase = createServerClient()
+
+    const { error } = await supabase.from('pii_vault').insert(
+      redactions.map((r) => ({
+        feedback_id: feedbackId,
+        user_id: userId,
+        placeholder: r.placeholder,
+        pii_type: r.type,
+        value_encrypted: encryptValue(r.value),
+      }))
+    )
+
+    if (error) {
+      console.error('Error storing redacted values:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Exception in storeRedactedValues:', error)
+    return false
+  }
+}
+
+/**
+ * Load and decrypt the original values of a redacted feedback entry
+ *
+ * Callers are responsible for checking that the user may see personal data.
+ *
+ * @param userId - Clerk user ID that owns the feedback
+ * @param feedbackId - UUID of the feedback
+ * @returns Masked values (empty if nothing was redacted before storage)
+ */
+export async function getRedactedValues(
+  userId: string,
+  feedbackId: string
+): Promise<RedactedValue[]> {
+  const supabase = createServerClient()
+
+  const { data, error } = await supabase
+    .from('pii_vault')
+    .select('placeholder, pii_type, value_encrypted')
+    .eq('user_id', userId)
+    .eq('feedback_id', feedbackId)
+
+  if (error) {
+    throw new Error(`Failed to load redacted values: ${error.message}`)
+  }
+
+  return (data || []).map((row: { placeholder: string; pii_type: PIIType; value_encrypted: string }) => ({
+    placeholder: row.placeholder,
+    type: row.pii_type,
+    value: decryptValue(row.value_encrypted),
+  }))
+}
+
+/**
+ * Load a feedback entry with its redacted values restored
+ *
+ * Callers are responsible for checking that the user may see personal data.
+ *
+ * @param userId - Clerk user ID that owns the feedback
+ * @param feedbackId - UUID of the feedback
+ * @returns Original text and translation, or null if the feedback does not exist
+ */
+export async function revealFeedback(
+  userId: string,
+  feedbackId: string
+): Promise<{ text: string; translated_text: string | null; redactions: number } | null> {
+  const supabase = createServerClient()
+
+  const { data, error } = await supabase
+    .from('feedback')
+    .select('text, translated_text')
+    .eq('id', feedbackId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load feedback: ${error.message}`)
+  }
+
+  if (!data) {
+    return null
+  }
+
+  const redactions = await getRedactedValues(userId, feedbackId)
+
+  return {
+    text: restorePII(data.text, redactions),
+    translated_text: data.translated_text ? restorePII(data.translated_text, redactions) : null,
+    redactions: redactions.length,
+  }
+}
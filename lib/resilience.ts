@@ -0,0 +1,399 @@
+/**
+ * Resilient Provider Calls
+ *
+ * Every request embedText, embedTexts, runLLM and runStructuredLLM make goes
+ * through callProvider, which:
+ * - Classifies failures into ProviderError kinds (rate limit, quota exhausted,
+ *   timeout, server error, invalid request)
+ * - Retries transient failures with jittered exponential backoff, waiting at
+ *   least as long as the provider's Retry-After header asks
+ * - Aborts requests that exceed LLM_TIMEOUT_MS
+ * - Trips a circuit breaker after LLM_CIRCUIT_BREAKER_THRESHOLD consecutive
+ *   outage-like failures, so the rest of a batch fails immediately instead of
+ *   waiting out every retry. After LLM_CIRCUIT_BREAKER_COOLDOWN_MS one trial
+ *   request is let through; success closes the circuit again.
+ *
+ * The breaker is per server process and shared by all accounts, since they
+ * share the provider.
+ *
+ * Usage:
+ * ```typescript
+ * const embedding = await callProvider('embedText', (signal) => provider.embed(text, model, signal));
+ *
+ * try {
+ *   await runLLM(prompt);
+ * } catch (error) {
+ *   if (error instanceof ProviderError && error.kind === 'circuit_open') {
+ *     // Provider is down: stop submitting work
+ *   }
+ * }
+ * ```
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Failure classes of provider requests:
+ * - rate_limit: too many requests (429); retried after Retry-After
+ * - quota_exhausted: billing or quota limit reached; not retried
+ * - timeout: no response within LLM_TIMEOUT_MS, or the connection failed; retried
+ * - server_error: 5xx from the provider; retried
+ * - invalid_request: the request itself was rejected (4xx); not retried
+ * - circuit_open: not sent because the circuit breaker is open
+ */
+export type ProviderErrorKind =
+  | 'rate_limit'
+  | 'quota_exhausted'
+  | 'timeout'
+  | 'server_error'
+  | 'invalid_request'
+  | 'circuit_open';
+
+/**
+ * Error thrown for failed provider requests
+ */
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  /** HTTP status of the provider response, if there was one */
+  readonly status?: number;
+  /** Delay requested by the provider's Retry-After header */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: ProviderErrorKind,
+    message: string,
+    details: { status?: number; retryAfterMs?: number; cause?: unknown } = {}
+  ) {
+    super(message, { cause: details.cause });
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  /** Whether the same request may succeed when retried */
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Retry, timeout and circuit breaker settings
+ */
+export interface ResiliencePolicy {
+  /** Total attempts per request, including the first */
+  maxAttempts: number;
+  /** Backoff before the first retry; doubles with every retry */
+  baseDelayMs: number;
+  /** Upper bound for backoff and Retry-After waits */
+  maxDelayMs: number;
+  /** Per-attempt timeout */
+  timeoutMs: number;
+  /** Consecutive outage-like failures that open the circuit */
+  breakerThreshold: number;
+  /** How long the circuit stays open before a trial request */
+  breakerCooldownMs: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const RETRYABLE_KINDS: ProviderErrorKind[] = ['rate_limit', 'timeout', 'server_error'];
+
+/**
+ * Failures that indicate the provider is down (rate limits do not: the
+ * provider is up and tells us when to come back)
+ */
+const OUTAGE_KINDS: ProviderErrorKind[] = ['timeout', 'server_error', 'quota_exhausted'];
+
+export const QUOTA_EXCEEDED_MESSAGE =
+  'OpenAI API quota exceeded. Please check your billing and usage limits at https://platform.openai.com/usage';
+
+/**
+ * Returns the policy from the environment:
+ * LLM_MAX_ATTEMPTS (default 4), LLM_RETRY_BASE_DELAY_MS (500),
+ * LLM_RETRY_MAX_DELAY_MS (30000), LLM_TIMEOUT_MS (60000),
+ * LLM_CIRCUIT_BREAKER_THRESHOLD (5), LLM_CIRCUIT_BREAKER_COOLDOWN_MS (30000)
+ */
+export function getResiliencePolicy(): ResiliencePolicy {
+  const read = (name: string, fallback: number) => {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+
+  return {
+    maxAttempts: Math.max(1, read('LLM_MAX_ATTEMPTS', 4)),
+    baseDelayMs: read('LLM_RETRY_BASE_DELAY_MS', 500),
+    maxDelayMs: read('LLM_RETRY_MAX_DELAY_MS', 30000),
+    timeoutMs: read('LLM_TIMEOUT_MS', 60000),
+    breakerThreshold: Math.max(1, read('LLM_CIRCUIT_BREAKER_THRESHOLD', 5)),
+    breakerCooldownMs: read('LLM_CIRCUIT_BREAKER_COOLDOWN_MS', 30000),
+  };
+}
+
+// ============================================================================
+// ERROR CLASSIFICATION
+// ============================================================================
+
+/**
+ * Parses a Retry-After value (seconds or an HTTP date) into milliseconds
+ *
+ * @param value - Header value
+ * @param now - Current time, for HTTP dates
+ * @returns Delay in milliseconds, or undefined if the value is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? Math.round(seconds * 1000) : undefined;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Classifies an error thrown by a provider SDK
+ *
+ * Reads the HTTP status, error code and Retry-After headers the OpenAI SDK
+ * attaches to its errors; errors without a status are classified by message.
+ *
+ * @param error - Anything thrown by a provider call
+ * @returns The error as a ProviderError (unchanged if it already is one)
+ */
+export function classifyProviderError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+
+  const source = (error ?? {}) as {
+    status?: unknown;
+    code?: unknown;
+    name?: unknown;
+    message?: unknown;
+    headers?: Record<string, string | null | undefined>;
+  };
+  const message = typeof source.message === 'string' && source.message ? source.message : 'Unknown error';
+  const status = typeof source.status === 'number' ? source.status : undefined;
+  const headers = source.headers || {};
+  // OpenAI sends retry-after-ms alongside the standard header (in seconds)
+  const retryAfterMsHeader = Number(headers['retry-after-ms']);
+  const retryAfterMs =
+    headers['retry-after-ms'] && Number.isFinite(retryAfterMsHeader) && retryAfterMsHeader >= 0
+      ? retryAfterMsHeader
+      : parseRetryAfter(headers['retry-after']);
+  const details = { status, retryAfterMs, cause: error };
+
+  if (source.code === 'insufficient_quota' || /quota|billing/i.test(message)) {
+    return new ProviderError('quota_exhausted', QUOTA_EXCEEDED_MESSAGE, details);
+  }
+
+  if (status === 429 || (status === undefined && /\b429\b|rate limit/i.test(message))) {
+    return new ProviderError('rate_limit', message, details);
+  }
+
+  if (status === 408 || /timed? ?out|timeout/i.test(message) || source.name === 'AbortError') {
+    return new ProviderError('timeout', message, details);
+  }
+
+  if (
+    (status !== undefined && status >= 500) ||
+    (status === undefined && /\b5\d\d\b|ECONNRESET|ECONNREFUSED|ENOTFOUND|socket hang up|connection error/i.test(message))
+  ) {
+    return new ProviderError('server_error', message, details);
+  }
+
+  return new ProviderError('invalid_request', message, details);
+}
+
+// ============================================================================
+// RETRIES
+// ============================================================================
+
+/**
+ * Delay before a retry: full-jitter exponential backoff, but never shorter
+ * than the provider's Retry-After
+ *
+ * @param retry - Number of the retry (1 for the first retry)
+ * @param policy - Backoff settings
+ * @param retryAfterMs - Delay requested by the provider
+ * @param random - Random source in [0, 1)
+ * @returns Delay in milliseconds, at most policy.maxDelayMs
+ */
+export function computeRetryDelay(
+  retry: number,
+  policy: Pick<ResiliencePolicy, 'baseDelayMs' | 'maxDelayMs'>,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  const backoff = Math.round(random() * ceiling);
+
+  return Math.min(policy.maxDelayMs, Math.max(backoff, retryAfterMs ?? 0));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs one attempt, aborting it after `timeoutMs`
+ */
+async function runWithTimeout<T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+  if (timeoutMs <= 0) {
+    return call(new AbortController().signal);
+  }
+
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new ProviderError('timeout', `Request timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    // Race as well as abort: providers that ignore the signal still time out
+    return await Promise.race([call(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ============================================================================
+// CIRCUIT BREAKER
+// ============================================================================
+
+const breaker = {
+  consecutiveFailures: 0,
+  openedAt: null as number | null,
+  trialInFlight: false,
+};
+
+function circuitState(cooldownMs: number): 'closed' | 'open' | 'half-open' {
+  if (breaker.openedAt === null) {
+    return 'closed';
+  }
+
+  return Date.now() - breaker.openedAt >= cooldownMs ? 'half-open' : 'open';
+}
+
+/**
+ * Current circuit breaker state (for monitoring and tests)
+ */
+export function getCircuitState(): 'closed' | 'open' | 'half-open' {
+  return circuitState(getResiliencePolicy().breakerCooldownMs);
+}
+
+/**
+ * Closes the circuit and forgets recorded failures
+ */
+export function resetCircuitBreaker(): void {
+  breaker.consecutiveFailures = 0;
+  breaker.openedAt = null;
+  breaker.trialInFlight = false;
+}
+
+function recordSuccess(): void {
+  resetCircuitBreaker();
+}
+
+function recordFailure(error: ProviderError, policy: ResiliencePolicy): void {
+  // The provider answered, so it is up
+  if (!OUTAGE_KINDS.includes(error.kind)) {
+    resetCircuitBreaker();
+    return;
+  }
+
+  breaker.consecutiveFailures++;
+
+  // A failed trial request re-opens the circuit for another cooldown
+  if (breaker.trialInFlight || breaker.consecutiveFailures >= policy.breakerThreshold) {
+    if (breaker.openedAt === null || breaker.trialInFlight) {
+      console.warn(`[Provider] Circuit breaker opened after ${breaker.consecutiveFailures} consecutive failures`);
+    }
+    breaker.openedAt = Date.now();
+    breaker.trialInFlight = false;
+  }
+}
+
+/**
+ * Throws if the circuit is open; lets one trial request through once the cooldown has passed
+ */
+function ensureCircuitClosed(policy: ResiliencePolicy): void {
+  const state = circuitState(policy.breakerCooldownMs);
+
+  if (state === 'closed') {
+    return;
+  }
+
+  if (state === 'half-open' && !breaker.trialInFlight) {
+    breaker.trialInFlight = true;
+    return;
+  }
+
+  const retryInMs = Math.max(0, breaker.openedAt! + policy.breakerCooldownMs - Date.now());
+  throw new ProviderError(
+    'circuit_open',
+    `Provider unavailable after ${breaker.consecutiveFailures} consecutive failures; not retrying for ${Math.ceil(retryInMs / 1000)}s`,
+    { retryAfterMs: retryInMs }
+  );
+}
+
+// ============================================================================
+// RESILIENT CALLS
+// ============================================================================
+
+/**
+ * Runs a provider request with timeout, retries and the circuit breaker
+ *
+ * @param operation - Operation name, for logs
+ * @param call - Performs one attempt; should pass `signal` to the SDK so timed out requests are aborted
+ * @param policy - Overrides for the environment policy
+ * @returns The result of the first successful attempt
+ * @throws {ProviderError} The classified error of the last attempt, or 'circuit_open'
+ */
+export async function callProvider<T>(
+  operation: string,
+  call: (signal: AbortSignal) => Promise<T>,
+  policy: Partial<ResiliencePolicy> = {}
+): Promise<T> {
+  const settings = { ...getResiliencePolicy(), ...policy };
+
+  for (let attempt = 1; ; attempt++) {
+    ensureCircuitClosed(settings);
+
+    try {
+      const result = await runWithTimeout(call, settings.timeoutMs);
+      recordSuccess();
+      return result;
+    } catch (error) {
+      const providerError = classifyProviderError(error);
+      recordFailure(providerError, settings);
+
+      if (!providerError.retryable || attempt >= settings.maxAttempts || breaker.openedAt !== null) {
+        throw providerError;
+      }
+
+      // A Retry-After beyond the maximum delay would stall the whole batch
+      if (providerError.retryAfterMs !== undefined && providerError.retryAfterMs > settings.maxDelayMs) {
+        throw providerError;
+      }
+
+      const delay = computeRetryDelay(attempt, settings, providerError.retryAfterMs);
+      console.warn(
+        `[Provider] ${operation} failed (${providerError.kind}), retry ${attempt}/${settings.maxAttempts - 1} in ${delay}ms`
+      );
+      await sleep(delay);
+    }
+  }
+}
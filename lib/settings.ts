@@ -0,0 +1,150 @@
+/**
+ * Account Settings
+ *
+ * Per-account options that change how feedback is processed. Accounts without
+ * a row in `account_settings` use DEFAULT_ACCOUNT_SETTINGS.
+ *
+ * Settings that could not be loaded are never replaced by the defaults:
+ * getAccountSettings throws AccountSettingsError instead, so an account that
+ * redacts before storage never has raw text stored because of a failed read.
+ *
+ * Usage:
+ * ```typescript
+ * const settings = await getAccountSettings(userId)
+ * if (settings.redact_before_storage) {
+ *   // store redacted text only
+ * }
+ *
+ * await updateAccountSettings(userId, { redact_before_storage: true })
+ *
+ * const analysis = await analyzeFeedback(text, toPromptInstructions(settings))
+ * ```
+ */
+
+import { createServerClient } from '@/lib/supabase'
+import type { DuplicateHandling } from '@/lib/dedupe'
+import type { PromptInstructions } from '@/lib/prompts'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Per-account processing options
+ */
+export interface AccountSettings {
+  /** Store redacted feedback text and keep the originals in the encrypted PII vault */
+  redact_before_storage: boolean
+  /** What to do with feedback identical to already analyzed feedback (see lib/dedupe.ts) */
+  duplicate_handling: DuplicateHandling
+  /** Domain context added to every analysis prompt */
+  prompt_context: string
+  /** Rules added to every analysis prompt */
+  prompt_rules: string[]
+}
+
+/**
+ * Settings used when an account has not saved any
+ */
+export const DEFAULT_ACCOUNT_SETTINGS: AccountSettings = {
+  redact_before_storage: false,
+  duplicate_handling: 'skip',
+  prompt_context: '',
+  prompt_rules: [],
+}
+
+const SETTINGS_COLUMNS = 'redact_before_storage, duplicate_handling, prompt_context, prompt_rules'
+
+/**
+ * Thrown when the settings of an account cannot be loaded
+ */
+export class AccountSettingsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AccountSettingsError'
+  }
+}
+
+// ============================================================================
+// READ / UPDATE
+// ============================================================================
+
+/**
+ * Get the processing settings of an account
+ *
+ * @param userId - Clerk user ID
+ * @returns Saved settings merged over the defaults
+ * @throws {AccountSettingsError} If the settings cannot be loaded (the
+ *   defaults would turn off redaction before storage)
+ */
+export async function getAccountSettings(userId: string): Promise<AccountSettings> {
+  let result
+
+  try {
+    const supabase = createServerClient()
+
+    result = await supabase
+      .from('account_settings')
+      .select(SETTINGS_COLUMNS)
+      .eq('user_id', userId)
+      .maybeSingle()
+  } catch (error) {
+    console.error('Exception in getAccountSettings:', error)
+    throw new AccountSettingsError('Account settings could not be loaded')
+  }
+
+  if (result.error) {
+    console.error('Error fetching account settings:', result.error)
+    throw new AccountSettingsError('Account settings could not be loaded')
+  }
+
+  return { ...DEFAULT_ACCOUNT_SETTINGS, ...(result.data || {}) }
+}
+
+/**
+ * Save processing settings for an account (creates the row if needed)
+ *
+ * @param userId - Clerk user ID
+ * @param updates - Settings to change
+ * @returns The full settings after the update, or null on failure
+ */
+export async function updateAccountSettings(
+  userId: string,
+  updates: Partial<AccountSettings>
+): Promise<AccountSettings | null> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('account_settings')
+      .upsert(
+        { user_id: userId, ...updates },
+        { onConflict: 'user_id' }
+      )
+      .select(SETTINGS_COLUMNS)
+      .single()
+
+    if (error) {
+      console.error('Error updating account settings:', error)
+      return null
+    }
+
+    return { ...DEFAULT_ACCOUNT_SETTINGS, ...data }
+  } catch (error) {
+    console.error('Exception in updateAccountSettings:', error)
+    return null
+  }
+}
+
+/**
+ * Get the custom instructions added to the account's analysis prompts
+ *
+ * @param settings - Account settings from getAccountSettings
+ * @returns Domain context and rules for renderPrompt
+ */
+export function toPromptInstructions(settings: AccountSettings): PromptInstructions {
+  return {
+    context: settings.prompt_context || '',
+    rules: settings.prompt_rules || [],
+  }
+}
@@ -31,6 +31,15 @@ export interface Feedback {
   username: string | null
   rating: number | null
   text: string
+  language: string | null
+  translated_text: string | null
+  content_hash: string | null
+  duplicate_of: string | null
+  duplicate_similarity: number | null
+  near_duplicate_of: string | null
+  near_duplicate_similarity: number | null
+  submitted_at: string | null
+  upload_id: string | null
   created_at: string
   updated_at: string
   embedding: number[] | null
@@ -43,17 +52,86 @@ export interface FeedbackInsert {
   source?: string | null
   product_id?: string | null
   username?: string | null
+  content_hash?: string | null
+  duplicate_of?: string | null
+  duplicate_similarity?: number | null
 }
 
+export type Emotion =
+  | 'anger'
+  | 'frustration'
+  | 'disappointment'
+  | 'confusion'
+  | 'anxiety'
+  | 'neutral'
+  | 'satisfaction'
+  | 'delight'
+
+export type Urgency = 'low' | 'medium' | 'high' | 'critical'
+
+export type Intent =
+  | 'bug_report'
+  | 'feature_request'
+  | 'praise'
+  | 'question'
+  | 'complaint'
+  | 'pricing_complaint'
+  | 'cancellation_intent'
+
+/**
+ * Outcome of an analysis:
+ * - complete: every step succeeded (or did not apply)
+ * - partial: the analysis succeeded but a secondary step failed
+ * - failed: the analysis itself failed; all result fields are empty
+ *
+ * Only complete analyses are charted and charged against the quota.
+ */
+export type AnalysisStatus = 'complete' | 'partial' | 'failed'
+
+/**
+ * Pipeline steps whose outcome is recorded per analysis
+ */
+export type AnalysisSubtask =
+  | 'translation'
+  | 'embedding'
+  | 'analysis'
+  | 'classification'
+  | 'topic_sentiments'
+  | 'entities'
+
+/**
+ * Outcome of a pipeline step ('skipped' when it does not apply, e.g. no taxonomy)
+ */
+export type SubtaskStatus = 'ok' | 'failed' | 'skipped'
+
+export type AnalysisSubtaskStatuses = Partial<Record<AnalysisSubtask, SubtaskStatus>>
+
 export interface FeedbackAnalysis {
   id: string
   feedback_id: string
   sentiment: 'positive' | 'negative' | 'neutral' | 'mixed' | null
+  /** Polarity from -1 (very negative) to 1 (very positive) */
   sentiment_score: number | null
+  emotion: Emotion | null
+  urgency: Urgency | null
+  severity_score: number | null
+  /** What the customer wants, primary intent first (empty for analyses before intents) */
+  intents: Intent[]
   topics: string[] | null
+  categories: string[]
   summary: string | null
   recommendation: string | null
+  /** Model confidence in the sentiment, from 0 to 1 */
   confidence_score: number | null
+  status: AnalysisStatus
+  subtask_status: AnalysisSubtaskStatuses
+  /** LLM model that produced the analysis (null for analyses before versioning) */
+  model: string | null
+  /** Version of the analysis prompt (null for analyses before versioning) */
+  prompt_version: number | null
+  /** Hash of the account instructions in the prompt (see hashInstructions; null for older analyses) */
+  instructions_hash: string | null
+  analyzed_at: string
   created_at: string
   updated_at: string
 }
@@ -61,10 +139,100 @@ export interface FeedbackAnalysis {
 export interface AnalysisInsert {
   sentiment?: 'positive' | 'negative' | 'neutral' | 'mixed'
   sentiment_score?: number
+  emotion?: Emotion
+  urgency?: Urgency
+  severity_score?: number
+  intents?: Intent[]
   topics?: string[]
+  categories?: string[]
   summary?: string
   recommendation?: string
   confidence_score?: number
+  status?: AnalysisStatus
+  subtask_status?: AnalysisSubtaskStatuses
+  model?: string
+  prompt_version?: number
+  instructions_hash?: string
+}
+
+/**
+ * Filters selecting analyzed feedback to re-analyze (all optional, combined with AND)
+ */
+export interface ReanalysisFilters {
+  /** Feedback created at or after this ISO date */
+  from?: string
+  /** Feedback created before this ISO date */
+  to?: string
+  source?: string
+  productId?: string
+  /** Only analyses produced by an older prompt version (or before versioning) */
+  beforePromptVersion?: number
+  /** Only analyses made with other account instructions than the ones with this hash (or before hashing) */
+  instructionsHashOtherThan?: string
+}
+
+/**
+ * Analyzed feedback entry with its current analysis, as loaded for re-analysis
+ */
+export interface FeedbackForReanalysis {
+  id: string
+  text: string
+  translated_text: string | null
+  analysis: FeedbackAnalysis
+}
+
+/**
+ * Feedback selected for an insights report or a theme discovery run:
+ * created in [from, to), or submitted in one upload
+ */
+export interface FeedbackScopeFilters {
+  /** Feedback created at or after this ISO date */
+  from?: string
+  /** Feedback created before this ISO date */
+  to?: string
+  uploadId?: string
+}
+
+/**
+ * Completely analyzed feedback entry, as loaded for an insights report
+ */
+export interface FeedbackForInsights extends FeedbackForReanalysis {
+  created_at: string
+}
+
+/**
+ * Feedback entry with its embedding, as loaded for theme discovery
+ */
+export interface FeedbackEmbedding {
+  id: string
+  text: string
+  translated_text: string | null
+  created_at: string
+  embedding: number[]
+  /** Analysis details, null if the entry has no analysis */
+  analysis: Pick<FeedbackAnalysis, 'sentiment' | 'sentiment_score' | 'summary' | 'topics'> | null
+}
+
+/**
+ * Feedback entry with an intent, as loaded for the feature request view
+ */
+export interface IntentFeedback extends FeedbackEmbedding {
+  username: string | null
+}
+
+export interface FeedbackTopicSentiment {
+  id: string
+  feedback_id: string
+  topic: string
+  sentiment: 'positive' | 'negative' | 'neutral' | 'mixed'
+  score: number
+  created_at: string
+}
+
+export interface TopicSentimentInsert {
+  topic: string
+  sentiment: 'positive' | 'negative' | 'neutral' | 'mixed'
+  score: number
 }
 
 export interface Upload {
@@ -81,6 +249,7 @@ export interface Upload {
 
 export interface FeedbackWithAnalysis extends Feedback {
   feedback_analysis: FeedbackAnalysis | null
+  feedback_topic_sentiment: FeedbackTopicSentiment[]
 }
 
 // ============================================================================
@@ -176,7 +345,9 @@ export function createServerClient(): SupabaseClient {
  * 
  * @param userId - Clerk user ID
  * @param text - Feedback text content
- * @param metadata - Optional metadata (rating, source, product_id, username)
+ * @param metadata - Optional metadata (rating, source, product_id, username,
+ *   content_hash, duplicate_of/duplicate_similarity for duplicates, see lib/dedupe.ts,
+ *   and submitted_at, when the customer gave the feedback)
  * @returns Inserted feedback record or null on error
  * 
  * @example
@@ -207,6 +378,11 @@ export async function insertFeedback(
     source?: string
     product_id?: string
     username?: string
+    content_hash?: string
+    duplicate_of?: string
+    duplicate_similarity?: number
+    submitted_at?: string
+    upload_id?: string
   } = {}
 ): Promise<Feedback | null> {
   try {
@@ -221,6 +397,11 @@ export async function insertFeedback(
         source: metadata.source || null,
         product_id: metadata.product_id || null,
         username: metadata.username || null,
+        content_hash: metadata.content_hash || null,
+        duplicate_of: metadata.duplicate_of || null,
+        duplicate_similarity: metadata.duplicate_similarity ?? null,
+        submitted_at: metadata.submitted_at || null,
+        upload_id: metadata.upload_id || null,
       })
       .select()
       .single()
@@ -237,6 +418,35 @@ export async function insertFeedback(
   }
 }
 
+/**
+ * Delete a feedback record (e.g. to roll back an insert that could not be completed)
+ *
+ * @param userId - Clerk user ID that owns the feedback
+ * @param feedbackId - UUID of the feedback
+ * @returns Success boolean
+ */
+export async function deleteFeedback(userId: string, feedbackId: string): Promise<boolean> {
+  try {
+    const supabase = createServerClient()
+
+    const { error } = await supabase
+      .from('feedback')
+      .delete()
+      .eq('id', feedbackId)
+      .eq('user_id', userId)
+
+    if (error) {
+      console.error('Error deleting feedback:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Exception in deleteFeedback:', error)
+    return false
+  }
+}
+
 /**
  * Insert analysis for a feedback entry
  * 
@@ -252,10 +462,20 @@ export async function insertFeedback(
  * const analysis = await insertAnalysis(feedbackId, {
  *   sentiment: 'positive',
  *   sentiment_score: 0.85,
+ *   emotion: 'delight',
+ *   urgency: 'low',
+ *   severity_score: 0.1,
+ *   intents: ['praise'],
  *   topics: ['product quality', 'customer service'],
+ *   categories: ['Product > Quality'],
  *   summary: 'Customer is very satisfied',
  *   recommendation: 'Share with product team',
- *   confidence_score: 0.92
+ *   confidence_score: 0.92,
+ *   status: 'complete',
+ *   subtask_status: { translation: 'ok', embedding: 'ok', analysis: 'ok' },
+ *   model: 'gpt-4o-mini',
+ *   prompt_version: 1,
+ *   instructions_hash: hashInstructions(instructions)
  * })
  * 
  * if (!analysis) {
@@ -272,15 +492,7 @@ export async function insertAnalysis(
 
     const { data, error } = await supabase
       .from('feedback_analysis')
-      .insert({
-        feedback_id: feedbackId,
-        sentiment: analysis.sentiment || null,
-        sentiment_score: analysis.sentiment_score || null,
-        topics: analysis.topics || null,
-        summary: analysis.summary || null,
-        recommendation: analysis.recommendation || null,
-        confidence_score: analysis.confidence_score || null,
-      })
+      .insert(toAnalysisRow(feedbackId, analysis))
       .select()
       .single()
 
@@ -296,6 +508,168 @@ export async function insertAnalysis(
   }
 }
 
+/**
+ * Replace the analysis of a feedback entry with a new one (re-analysis)
+ * 
+ * The row is created if the feedback has no analysis yet, and `analyzed_at`
+ * is reset to now.
+ * 
+ * @param feedbackId - UUID of the feedback
+ * @param analysis - New analysis results
+ * @returns Stored analysis record or null on error
+ * 
+ * @example
+ * ```typescript
+ * const analysis = await replaceAnalysis(feedbackId, {
+ *   ...result,
+ *   status: 'complete',
+ *   model: 'gpt-4o',
+ *   prompt_version: 2
+ * })
+ * ```
+ */
+export async function replaceAnalysis(
+  feedbackId: string,
+  analysis: AnalysisInsert
+): Promise<FeedbackAnalysis | null> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('feedback_analysis')
+      .upsert(
+        { ...toAnalysisRow(feedbackId, analysis), analyzed_at: new Date().toISOString() },
+        { onConflict: 'feedback_id' }
+      )
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error replacing analysis:', error)
+      return null
+    }
+
+    return data as FeedbackAnalysis
+  } catch (error) {
+    console.error('Exception in replaceAnalysis:', error)
+    return null
+  }
+}
+
+/**
+ * Database row for an analysis (missing fields stored as null)
+ */
+function toAnalysisRow(feedbackId: string, analysis: AnalysisInsert) {
+  return {
+    feedback_id: feedbackId,
+    sentiment: analysis.sentiment || null,
+    sentiment_score: analysis.sentiment_score ?? null,
+    emotion: analysis.emotion || null,
+    urgency: analysis.urgency || null,
+    severity_score: analysis.severity_score ?? null,
+    intents: analysis.intents || [],
+    topics: analysis.topics || null,
+    categories: analysis.categories || [],
+    summary: analysis.summary || null,
+    recommendation: analysis.recommendation || null,
+    confidence_score: analysis.confidence_score ?? null,
+    status: analysis.status || 'complete',
+    subtask_status: analysis.subtask_status || {},
+    model: analysis.model || null,
+    prompt_version: analysis.prompt_version ?? null,
+    instructions_hash: analysis.instructions_hash || null,
+  }
+}
+
+/**
+ * Insert per-topic sentiment for a feedback entry
+ * 
+ * Topics already stored for the feedback are updated (one row per
+ * feedback and topic).
+ * 
+ * @param feedbackId - UUID of the feedback
+ * @param topicSentiments - Sentiment and polarity score (-1 to 1) per topic
+ * @returns Inserted rows or null on error
+ * 
+ * @example
+ * ```typescript
+ * import { insertTopicSentiments } from '@/lib/supabase'
+ * 
+ * await insertTopicSentiments(feedbackId, [
+ *   { topic: 'product quality', sentiment: 'positive', score: 0.8 },
+ *   { topic: 'shipping', sentiment: 'negative', score: -0.7 },
+ * ])
+ * ```
+ */
+export async function insertTopicSentiments(
+  feedbackId: string,
+  topicSentiments: TopicSentimentInsert[]
+): Promise<FeedbackTopicSentiment[] | null> {
+  if (topicSentiments.length === 0) {
+    return []
+  }
+
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('feedback_topic_sentiment')
+      .upsert(
+        topicSentiments.map((item) => ({
+          feedback_id: feedbackId,
+          topic: item.topic,
+          sentiment: item.sentiment,
+          score: item.score,
+        })),
+        { onConflict: 'feedback_id,topic' }
+      )
+      .select()
+
+    if (error) {
+      console.error('Error inserting topic sentiments:', error)
+      return null
+    }
+
+    return data as FeedbackTopicSentiment[]
+  } catch (error) {
+    console.error('Exception in insertTopicSentiments:', error)
+    return null
+  }
+}
+
+/**
+ * Replace all per-topic sentiment of a feedback entry (re-analysis)
+ * 
+ * Topics the new analysis no longer contains are removed.
+ * 
+ * @param feedbackId - UUID of the feedback
+ * @param topicSentiments - Sentiment and polarity score (-1 to 1) per topic
+ * @returns Inserted rows or null on error
+ */
+export async function replaceTopicSentiments(
+  feedbackId: string,
+  topicSentiments: TopicSentimentInsert[]
+): Promise<FeedbackTopicSentiment[] | null> {
+  try {
+    const supabase = createServerClient()
+
+    const { error } = await supabase
+      .from('feedback_topic_sentiment')
+      .delete()
+      .eq('feedback_id', feedbackId)
+
+    if (error) {
+      console.error('Error deleting topic sentiments:', error)
+      return null
+    }
+
+    return await insertTopicSentiments(feedbackId, topicSentiments)
+  } catch (error) {
+    console.error('Exception in replaceTopicSentiments:', error)
+    return null
+  }
+}
+
 /**
  * Get all feedback for a specific user
  * 
@@ -355,10 +729,12 @@ export async function getUserFeedback(
 }
 
 /**
- * Get recent feedback with their analysis
+ * Get recent feedback with their analysis and per-topic sentiment
  * 
  * @param userId - Clerk user ID
  * @param limit - Maximum number of records to return (default: 20)
+ * @param filters - Optional filters (language: ISO 639-1 code; intent: only
+ *   feedback whose analysis has this intent)
  * @returns Array of feedback with analysis data
  * 
  * @example
@@ -385,18 +761,31 @@ export async function getUserFeedback(
  */
 export async function getRecentAnalyses(
   userId: string,
-  limit: number = 20
+  limit: number = 20,
+  filters: { language?: string; intent?: Intent } = {}
 ): Promise<FeedbackWithAnalysis[]> {
   try {
     const supabase = createServerClient()
 
-    const { data, error } = await supabase
+    // An inner join drops feedback whose analysis does not match the intent
+    let query = supabase
       .from('feedback')
       .select(`
         *,
-        feedback_analysis (*)
+        feedback_analysis${filters.intent ? '!inner' : ''} (*),
+        feedback_topic_sentiment (*)
       `)
       .eq('user_id', userId)
+
+    if (filters.language) {
+      query = query.eq('language', filters.language)
+    }
+
+    if (filters.intent) {
+      query = query.contains('feedback_analysis.intents', [filters.intent])
+    }
+
+    const { data, error } = await query
       .order('created_at', { ascending: false })
       .limit(limit)
 
@@ -412,6 +801,437 @@ export async function getRecentAnalyses(
   }
 }
 
+/**
+ * Get the distinct detected languages of a user's feedback
+ * 
+ * @param userId - Clerk user ID
+ * @returns Sorted ISO 639-1 language codes (e.g. ['de', 'en', 'es'])
+ * 
+ * @example
+ * ```typescript
+ * const languages = await getFeedbackLanguages(userId)
+ * // Use to populate a language filter
+ * ```
+ */
+export async function getFeedbackLanguages(userId: string): Promise<string[]> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('feedback')
+      .select('language')
+      .eq('user_id', userId)
+      .not('language', 'is', null)
+
+    if (error) {
+      console.error('Error fetching feedback languages:', error)
+      return []
+    }
+
+    return Array.from(new Set((data || []).map((row: { language: string }) => row.language))).sort()
+  } catch (error) {
+    console.error('Exception in getFeedbackLanguages:', error)
+    return []
+  }
+}
+
+/**
+ * Store the detected language and English translation of a feedback entry
+ * 
+ * @param feedbackId - UUID of the feedback
+ * @param language - ISO 639-1 language code (e.g. 'es')
+ * @param translatedText - English translation, or null if already English
+ * @returns Success boolean
+ * 
+ * @example
+ * ```typescript
+ * import { updateFeedbackTranslation } from '@/lib/supabase'
+ * import { detectAndTranslate } from '@/lib/langchain'
+ * 
+ * const { language, translation } = await detectAndTranslate(feedback.text)
+ * await updateFeedbackTranslation(feedback.id, language, translation)
+ * ```
+ */
+export async function updateFeedbackTranslation(
+  feedbackId: string,
+  language: string,
+  translatedText: string | null
+): Promise<boolean> {
+  try {
+    const supabase = createServerClient()
+
+    const { error } = await supabase
+      .from('feedback')
+      .update({ language, translated_text: translatedText })
+      .eq('id', feedbackId)
+
+    if (error) {
+      console.error('Error updating translation:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Exception in updateFeedbackTranslation:', error)
+    return false
+  }
+}
+
+/**
+ * Get analyzed feedback to re-classify after the taxonomy changed
+ * 
+ * @param userId - Clerk user ID
+ * @param options - Specific feedback IDs, and the maximum number of rows (most recent first)
+ * @returns Feedback text and English translation of entries that have an analysis (failed analyses excluded)
+ * 
+ * @example
+ * ```typescript
+ * const rows = await getFeedbackForReclassification(userId, { limit: 500 })
+ * ```
+ */
+export async function getFeedbackForReclassification(
+  userId: string,
+  options: { feedbackIds?: string[]; limit?: number } = {}
+): Promise<Array<Pick<Feedback, 'id' | 'text' | 'translated_text'>>> {
+  try {
+    const supabase = createServerClient()
+
+    let query = supabase
+      .from('feedback')
+      .select('id, text, translated_text, feedback_analysis!inner(id)')
+      .eq('user_id', userId)
+      .neq('feedback_analysis.status', 'failed')
+
+    if (options.feedbackIds) {
+      query = query.in('id', options.feedbackIds)
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(options.limit ?? 500)
+
+    if (error) {
+      console.error('Error fetching feedback for reclassification:', error)
+      return []
+    }
+
+    return (data || []).map((row: Pick<Feedback, 'id' | 'text' | 'translated_text'>) => ({
+      id: row.id,
+      text: row.text,
+      translated_text: row.translated_text,
+    }))
+  } catch (error) {
+    console.error('Exception in getFeedbackForReclassification:', error)
+    return []
+  }
+}
+
+/**
+ * Replace the taxonomy categories of a feedback entry's analysis
+ * 
+ * @param feedbackId - UUID of the feedback
+ * @param categories - Category labels from classifyFeedback
+ * @returns Success boolean
+ * 
+ * @example
+ * ```typescript
+ * const categories = await classifyFeedback(text, toClassificationCategories(taxonomy))
+ * await updateAnalysisCategories(feedbackId, categories)
+ * ```
+ */
+export async function updateAnalysisCategories(
+  feedbackId: string,
+  categories: string[]
+): Promise<boolean> {
+  try {
+    const supabase = createServerClient()
+
+    const { error } = await supabase
+      .from('feedback_analysis')
+      .update({ categories })
+      .eq('feedback_id', feedbackId)
+
+    if (error) {
+      console.error('Error updating analysis categories:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Exception in updateAnalysisCategories:', error)
+    return false
+  }
+}
+
+/**
+ * Get analyzed feedback matching re-analysis filters, with its current analysis
+ * 
+ * @param userId - Clerk user ID
+ * @param filters - Date range, source, product, prompt version and instructions filters
+ * @param limit - Maximum number of rows (most recent first)
+ * @returns Matching feedback with its analysis (empty on error)
+ * 
+ * @example
+ * ```typescript
+ * // Everything analyzed with a prompt older than version 2 since March
+ * const rows = await getFeedbackForReanalysis(userId, {
+ *   from: '2026-03-01',
+ *   beforePromptVersion: 2,
+ * }, 100)
+ * ```
+ */
+export async function getFeedbackForReanalysis(
+  userId: string,
+  filters: ReanalysisFilters,
+  limit: number
+): Promise<FeedbackForReanalysis[]> {
+  try {
+    const supabase = createServerClient()
+
+    let query = supabase
+      .from('feedback')
+      .select('id, text, translated_text, feedback_analysis!inner(*)')
+      .eq('user_id', userId)
+
+    if (filters.from) {
+      query = query.gte('created_at', filters.from)
+    }
+
+    if (filters.to) {
+      query = query.lt('created_at', filters.to)
+    }
+
+    if (filters.source) {
+      query = query.eq('source', filters.source)
+    }
+
+    if (filters.productId) {
+      query = query.eq('product_id', filters.productId)
+    }
+
+    if (filters.beforePromptVersion !== undefined) {
+      query = query.or(
+        `prompt_version.is.null,prompt_version.lt.${filters.beforePromptVersion}`,
+        { referencedTable: 'feedback_analysis' }
+      )
+    }
+
+    if (filters.instructionsHashOtherThan !== undefined) {
+      query = query.or(
+        `instructions_hash.is.null,instructions_hash.neq.${filters.instructionsHashOtherThan}`,
+        { referencedTable: 'feedback_analysis' }
+      )
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching feedback for reanalysis:', error)
+      return []
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      text: row.text,
+      translated_text: row.translated_text,
+      analysis: Array.isArray(row.feedback_analysis) ? row.feedback_analysis[0] : row.feedback_analysis,
+    }))
+  } catch (error) {
+    console.error('Exception in getFeedbackForReanalysis:', error)
+    return []
+  }
+}
+
+/**
+ * Get completely analyzed feedback of a period or an upload for an insights report
+ * 
+ * @param userId - Clerk user ID
+ * @param filters - Date range or upload
+ * @param limit - Maximum number of rows (most recent first)
+ * @returns Matching feedback with its analysis (empty on error)
+ * 
+ * @example
+ * ```typescript
+ * const rows = await getFeedbackForInsights(userId, { from: '2026-03-01', to: '2026-04-01' }, 1000)
+ * ```
+ */
+export async function getFeedbackForInsights(
+  userId: string,
+  filters: FeedbackScopeFilters,
+  limit: number
+): Promise<FeedbackForInsights[]> {
+  try {
+    const supabase = createServerClient()
+
+    let query = supabase
+      .from('feedback')
+      .select('id, text, translated_text, created_at, feedback_analysis!inner(*)')
+      .eq('user_id', userId)
+      .eq('feedback_analysis.status', 'complete')
+
+    if (filters.from) {
+      query = query.gte('created_at', filters.from)
+    }
+
+    if (filters.to) {
+      query = query.lt('created_at', filters.to)
+    }
+
+    if (filters.uploadId) {
+      query = query.eq('upload_id', filters.uploadId)
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching feedback for insights:', error)
+      return []
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      text: row.text,
+      translated_text: row.translated_text,
+      created_at: row.created_at,
+      analysis: Array.isArray(row.feedback_analysis) ? row.feedback_analysis[0] : row.feedback_analysis,
+    }))
+  } catch (error) {
+    console.error('Exception in getFeedbackForInsights:', error)
+    return []
+  }
+}
+
+/**
+ * Get the embeddings of the feedback of a period or an upload for theme discovery
+ * 
+ * Exact duplicates (see lib/dedupe.ts) are left out: they share their
+ * original's embedding and would form clusters of copies.
+ * 
+ * @param userId - Clerk user ID
+ * @param filters - Date range or upload
+ * @param limit - Maximum number of rows (most recent first)
+ * @returns Feedback with an embedding, with its analysis if any (empty on error)
+ * 
+ * @example
+ * ```typescript
+ * const rows = await getFeedbackEmbeddings(userId, { uploadId }, 1000)
+ * ```
+ */
+export async function getFeedbackEmbeddings(
+  userId: string,
+  filters: FeedbackScopeFilters,
+  limit: number
+): Promise<FeedbackEmbedding[]> {
+  try {
+    const supabase = createServerClient()
+
+    let query = supabase
+      .from('feedback')
+      .select('id, text, translated_text, created_at, embedding, feedback_analysis(sentiment, sentiment_score, summary, topics)')
+      .eq('user_id', userId)
+      .is('duplicate_of', null)
+      .not('embedding', 'is', null)
+
+    if (filters.from) {
+      query = query.gte('created_at', filters.from)
+    }
+
+    if (filters.to) {
+      query = query.lt('created_at', filters.to)
+    }
+
+    if (filters.uploadId) {
+      query = query.eq('upload_id', filters.uploadId)
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching feedback embeddings:', error)
+      return []
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      text: row.text,
+      translated_text: row.translated_text,
+      created_at: row.created_at,
+      // pgvector columns are returned as '[0.1,0.2,...]' strings
+      embedding: typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding,
+      analysis: (Array.isArray(row.feedback_analysis) ? row.feedback_analysis[0] : row.feedback_analysis) || null,
+    }))
+  } catch (error) {
+    console.error('Exception in getFeedbackEmbeddings:', error)
+    return []
+  }
+}
+
+/**
+ * Get the feedback whose analysis has an intent, with embeddings
+ * 
+ * Unlike getFeedbackEmbeddings, duplicates are included: the same request
+ * posted by another customer is another requester. Feedback without an
+ * embedding is left out.
+ * 
+ * @param userId - Clerk user ID
+ * @param intent - Intent the analysis must have (e.g. 'feature_request')
+ * @param since - Only feedback created at or after this ISO date
+ * @param limit - Maximum number of rows (most recent first)
+ * @returns Feedback with its embedding and analysis details (empty on error)
+ * 
+ * @example
+ * ```typescript
+ * const rows = await getFeedbackByIntent(userId, 'feature_request', '2026-01-01', 2000)
+ * ```
+ */
+export async function getFeedbackByIntent(
+  userId: string,
+  intent: Intent,
+  since: string,
+  limit: number
+): Promise<IntentFeedback[]> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('feedback')
+      .select(
+        'id, text, translated_text, username, created_at, embedding, feedback_analysis!inner(sentiment, sentiment_score, summary, topics)'
+      )
+      .eq('user_id', userId)
+      .contains('feedback_analysis.intents', [intent])
+      .not('embedding', 'is', null)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching feedback by intent:', error)
+      return []
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      text: row.text,
+      translated_text: row.translated_text,
+      username: row.username,
+      created_at: row.created_at,
+      // pgvector columns are returned as '[0.1,0.2,...]' strings
+      embedding: typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding,
+      analysis: (Array.isArray(row.feedback_analysis) ? row.feedback_analysis[0] : row.feedback_analysis) || null,
+    }))
+  } catch (error) {
+    console.error('Exception in getFeedbackByIntent:', error)
+    return []
+  }
+}
+
 /**
  * Update feedback with embedding vector
  * 
@@ -460,6 +1280,54 @@ export async function updateFeedbackEmbedding(
   }
 }
 
+/**
+ * Update the embeddings of many feedback entries in one round trip
+ * 
+ * @param updates - Feedback IDs with their embedding vectors
+ * @returns Success boolean (false if any entry was not updated)
+ * 
+ * @example
+ * ```typescript
+ * import { updateFeedbackEmbeddings } from '@/lib/supabase'
+ * import { generateEmbeddings } from '@/lib/langchain'
+ * 
+ * const embeddings = await generateEmbeddings(feedback.map((f) => f.text))
+ * await updateFeedbackEmbeddings(
+ *   feedback.map((f, i) => ({ id: f.id, embedding: embeddings[i] }))
+ * )
+ * ```
+ */
+export async function updateFeedbackEmbeddings(
+  updates: { id: string; embedding: number[] }[]
+): Promise<boolean> {
+  if (updates.length === 0) {
+    return true
+  }
+
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase.rpc('update_feedback_embeddings', {
+      updates: updates.map(({ id, embedding }) => ({ id, embedding: JSON.stringify(embedding) })),
+    })
+
+    if (error) {
+      console.error('Error updating embeddings:', error)
+      return false
+    }
+
+    if (data !== updates.length) {
+      console.error(`Updated ${data} of ${updates.length} embeddings`)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Exception in updateFeedbackEmbeddings:', error)
+    return false
+  }
+}
+
 /**
  * Search for similar feedback using vector similarity
  * 
@@ -518,6 +1386,8 @@ export async function searchSimilarFeedback(
 /**
  * Get aggregated sentiment statistics for a user
  * 
+ * averageScore is the average polarity (-1 to 1) of complete analyses.
+ * 
  * @param userId - Clerk user ID
  * @returns Sentiment breakdown and statistics
  * 
@@ -548,7 +1418,8 @@ export async function getSentimentStats(userId: string): Promise<{
         id,
         feedback_analysis (
           sentiment,
-          sentiment_score
+          sentiment_score,
+          status
         )
       `)
       .eq('user_id', userId)
@@ -572,7 +1443,8 @@ export async function getSentimentStats(userId: string): Promise<{
 
     data.forEach((item: any) => {
       const analysis = item.feedback_analysis?.[0]
-      if (analysis) {
+      // Partial and failed analyses are not counted
+      if (analysis && analysis.status === 'complete') {
         const sentiment = analysis.sentiment
         if (sentiment) {
           stats[sentiment as keyof typeof stats]++
@@ -593,6 +1465,106 @@ export async function getSentimentStats(userId: string): Promise<{
   }
 }
 
+/**
+ * Record a CSV upload before its rows are processed
+ * 
+ * @param userId - Clerk user ID
+ * @param file - File name, size in bytes and number of rows
+ * @returns The upload (status 'processing'), or null on error
+ * 
+ * @example
+ * ```typescript
+ * const upload = await createUpload(userId, { filename: 'reviews.csv', file_size: 2048, row_count: 40 })
+ * ```
+ */
+export async function createUpload(
+  userId: string,
+  file: Pick<Upload, 'filename' | 'file_size' | 'row_count'>
+): Promise<Upload | null> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('uploads')
+      .insert({ user_id: userId, ...file, status: 'processing' })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating upload:', error)
+      return null
+    }
+
+    return data as Upload
+  } catch (error) {
+    console.error('Exception in createUpload:', error)
+    return null
+  }
+}
+
+/**
+ * Mark a CSV upload as completed or failed
+ * 
+ * @param uploadId - UUID of the upload
+ * @param status - Final status
+ * @param errorMessage - Error details of a failed upload
+ * @returns Success boolean
+ */
+export async function completeUpload(
+  uploadId: string,
+  status: 'completed' | 'failed',
+  errorMessage?: string
+): Promise<boolean> {
+  try {
+    const supabase = createServerClient()
+
+    const { error } = await supabase
+      .from('uploads')
+      .update({ status, error_message: errorMessage || null, completed_at: new Date().toISOString() })
+      .eq('id', uploadId)
+
+    if (error) {
+      console.error('Error completing upload:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Exception in completeUpload:', error)
+    return false
+  }
+}
+
+/**
+ * Get the most recent CSV uploads of a user
+ * 
+ * @param userId - Clerk user ID
+ * @param limit - Maximum number of uploads
+ * @returns Uploads, most recent first (empty on error)
+ */
+export async function getUploads(userId: string, limit: number = 20): Promise<Upload[]> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('uploads')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching uploads:', error)
+      return []
+    }
+
+    return (data || []) as Upload[]
+  } catch (error) {
+    console.error('Exception in getUploads:', error)
+    return []
+  }
+}
+
 // ============================================================================
 // LEGACY EXPORTS (for backward compatibility)
 // ============================================================================
@@ -0,0 +1,315 @@
+/**
+ * Topic Taxonomy
+ *
+ * Each account can define the categories its feedback is classified into,
+ * optionally nested under a parent category, with a description and example
+ * phrases to guide the model. Analysis maps every feedback item onto these
+ * categories (feedback_analysis.categories); the free-form topics from
+ * analyzeFeedback are kept as secondary tags.
+ *
+ * Categories are stored by label, so subcategories are labelled with their
+ * full path (e.g. 'Shipping > Late delivery'). After the taxonomy changes,
+ * existing feedback is updated with reclassifyFeedback (lib/analyze.ts).
+ *
+ * Usage:
+ * ```typescript
+ * const taxonomy = await getTaxonomy(userId)
+ * const categories = await classifyFeedback(text, toClassificationCategories(taxonomy))
+ * ```
+ */
+
+import { createServerClient } from '@/lib/supabase'
+import type { ClassificationCategory } from '@/lib/langchain'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A category of an account's taxonomy
+ */
+export interface TaxonomyCategory {
+  id: string
+  user_id: string
+  name: string
+  description: string | null
+  examples: string[]
+  parent_id: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Fields accepted when creating or updating a category
+ */
+export interface TaxonomyCategoryInput {
+  name: string
+  description?: string | null
+  examples?: string[]
+  parent_id?: string | null
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Maximum number of categories per account (keeps the classification prompt small)
+ */
+export const MAX_TAXONOMY_CATEGORIES = 100
+
+/**
+ * Separator between parent and child names in category labels
+ */
+export const CATEGORY_PATH_SEPARATOR = ' > '
+
+const MAX_NAME_LENGTH = 60
+const MAX_EXAMPLES = 10
+
+// ============================================================================
+// LABELS AND VALIDATION
+// ============================================================================
+
+/**
+ * Full label of a category, including its parents (e.g. 'Shipping > Late delivery')
+ *
+ * @param category - Category to label
+ * @param taxonomy - All categories of the account (to resolve parents)
+ * @returns Category label as stored in feedback_analysis.categories
+ */
+export function getCategoryLabel(category: TaxonomyCategory, taxonomy: TaxonomyCategory[]): string {
+  const names = [category.name]
+  const seen = new Set([category.id])
+  let parentId = category.parent_id
+
+  while (parentId && !seen.has(parentId)) {
+    const parent = taxonomy.find((c) => c.id === parentId)
+    if (!parent) break
+
+    names.unshift(parent.name)
+    seen.add(parent.id)
+    parentId = parent.parent_id
+  }
+
+  return names.join(CATEGORY_PATH_SEPARATOR)
+}
+
+/**
+ * Convert an account's taxonomy to the categories passed to classifyFeedback
+ *
+ * @param taxonomy - All categories of the account
+ * @returns Categories with their full labels
+ */
+export function toClassificationCategories(taxonomy: TaxonomyCategory[]): ClassificationCategory[] {
+  return taxonomy.map((category) => ({
+    label: getCategoryLabel(category, taxonomy),
+    description: category.description,
+    examples: category.examples,
+  }))
+}
+
+/**
+ * Validate a category create/update request against the account's taxonomy
+ *
+ * @param body - Parsed request body (any JSON value)
+ * @param taxonomy - Current categories of the account
+ * @param categoryId - ID of the category being updated (omit when creating)
+ * @returns Error message, or null if the input is valid
+ */
+export function validateCategoryInput(
+  body: unknown,
+  taxonomy: TaxonomyCategory[],
+  categoryId?: string
+): string | null {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return 'Request body must be a JSON object'
+  }
+
+  const input = body as Partial<TaxonomyCategoryInput>
+
+  if (!categoryId || input.name !== undefined) {
+    if (typeof input.name !== 'string' || input.name.trim().length === 0) {
+      return 'name is required and must be a non-empty string'
+    }
+    if (input.name.trim().length > MAX_NAME_LENGTH) {
+      return `name must be at most ${MAX_NAME_LENGTH} characters`
+    }
+    if (/[">]/.test(input.name)) {
+      return 'name must not contain " or >'
+    }
+  }
+
+  if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+    return 'description must be a string'
+  }
+
+  if (input.examples !== undefined) {
+    if (!Array.isArray(input.examples) || input.examples.some((example) => typeof example !== 'string')) {
+      return 'examples must be an array of strings'
+    }
+    if (input.examples.length > MAX_EXAMPLES) {
+      return `examples must have at most ${MAX_EXAMPLES} entries`
+    }
+  }
+
+  if (input.parent_id) {
+    if (!taxonomy.some((c) => c.id === input.parent_id)) {
+      return 'parent_id must reference one of your categories'
+    }
+
+    // A category cannot be moved under itself or one of its descendants
+    let ancestorId: string | null = input.parent_id
+    while (categoryId && ancestorId) {
+      if (ancestorId === categoryId) {
+        return 'parent_id must not create a cycle'
+      }
+      ancestorId = taxonomy.find((c) => c.id === ancestorId)?.parent_id || null
+    }
+  }
+
+  if (!categoryId && taxonomy.length >= MAX_TAXONOMY_CATEGORIES) {
+    return `A taxonomy can have at most ${MAX_TAXONOMY_CATEGORIES} categories`
+  }
+
+  return null
+}
+
+// ============================================================================
+// DATABASE OPERATIONS
+// ============================================================================
+
+/**
+ * Get all categories of an account's taxonomy
+ *
+ * @param userId - Clerk user ID
+ * @returns Categories ordered by name (empty if none are defined)
+ */
+export async function getTaxonomy(userId: string): Promise<TaxonomyCategory[]> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('taxonomy_categories')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching taxonomy:', error)
+      return []
+    }
+
+    return (data || []) as TaxonomyCategory[]
+  } catch (error) {
+    console.error('Exception in getTaxonomy:', error)
+    return []
+  }
+}
+
+/**
+ * Add a category to an account's taxonomy
+ *
+ * @param userId - Clerk user ID
+ * @param input - Validated category fields (see validateCategoryInput)
+ * @returns The created category, or null on failure (e.g. duplicate name)
+ */
+export async function createTaxonomyCategory(
+  userId: string,
+  input: TaxonomyCategoryInput
+): Promise<TaxonomyCategory | null> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('taxonomy_categories')
+      .insert({
+        user_id: userId,
+        name: input.name.trim(),
+        description: input.description?.trim() || null,
+        examples: input.examples || [],
+        parent_id: input.parent_id || null,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating taxonomy category:', error)
+      return null
+    }
+
+    return data as TaxonomyCategory
+  } catch (error) {
+    console.error('Exception in createTaxonomyCategory:', error)
+    return null
+  }
+}
+
+/**
+ * Update a category of an account's taxonomy
+ *
+ * @param userId - Clerk user ID
+ * @param categoryId - UUID of the category
+ * @param updates - Validated fields to change
+ * @returns The updated category, or null on failure
+ */
+export async function updateTaxonomyCategory(
+  userId: string,
+  categoryId: string,
+  updates: Partial<TaxonomyCategoryInput>
+): Promise<TaxonomyCategory | null> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('taxonomy_categories')
+      .update({
+        ...(updates.name !== undefined && { name: updates.name.trim() }),
+        ...(updates.description !== undefined && { description: updates.description?.trim() || null }),
+        ...(updates.examples !== undefined && { examples: updates.examples }),
+        ...(updates.parent_id !== undefined && { parent_id: updates.parent_id || null }),
+      })
+      .eq('id', categoryId)
+      .eq('user_id', userId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating taxonomy category:', error)
+      return null
+    }
+
+    return data as TaxonomyCategory
+  } catch (error) {
+    console.error('Exception in updateTaxonomyCategory:', error)
+    return null
+  }
+}
+
+/**
+ * Delete a category (and its subcategories) from an account's taxonomy
+ *
+ * @param userId - Clerk user ID
+ * @param categoryId - UUID of the category
+ * @returns Success boolean
+ */
+export async function deleteTaxonomyCategory(userId: string, categoryId: string): Promise<boolean> {
+  try {
+    const supabase = createServerClient()
+
+    const { error } = await supabase
+      .from('taxonomy_categories')
+      .delete()
+      .eq('id', categoryId)
+      .eq('user_id', userId)
+
+    if (error) {
+      console.error('Error deleting taxonomy category:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Exception in deleteTaxonomyCategory:', error)
+    return false
+  }
+}
@@ -0,0 +1,604 @@
+/**
+ * Theme Discovery
+ *
+ * Finds the themes of a period or of one upload without a predefined topic
+ * list: the stored feedback embeddings are clustered (k-means on cosine
+ * similarity) and each cluster is named and described by the LLM from its
+ * most typical feedback (nameTheme, see lib/langchain.ts). Emerging issues
+ * show up as clusters even when no topic or category covers them.
+ *
+ * Every theme has its size, average sentiment polarity, most frequent
+ * topics and representative examples: redacted excerpts of the feedback
+ * closest to the cluster's centre. Clusters smaller than MIN_THEME_SIZE are
+ * left unclustered rather than reported as themes.
+ *
+ * Every run is stored so earlier discoveries can be revisited.
+ *
+ * Usage:
+ * ```typescript
+ * const run = await discoverThemes(userId, { from: '2026-03-01', to: '2026-04-01' })
+ * run?.themes[0] // { name: 'Apple Pay checkout failures', size: 42, avg_sentiment: -0.61, examples: [...] }
+ *
+ * const runs = await listThemeRuns(userId)
+ * ```
+ */
+
+import { getThemeNamingVersion, nameTheme } from '@/lib/langchain'
+import { createServerClient, getFeedbackEmbeddings, type FeedbackEmbedding } from '@/lib/supabase'
+import type { InsightsScope } from '@/lib/insights'
+import type { PromptInstructions } from '@/lib/prompts'
+import { getAccountSettings, toPromptInstructions } from '@/lib/settings'
+import { getTopicAliasMap } from '@/lib/topics'
+import { processConcurrently, redactedText, round } from '@/lib/helpers'
+import { withUsageTracking, type UsageRecord } from '@/lib/usage'
+import { storeUsageRecords } from '@/lib/costs'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Feedback a run covers: created in [from, to), or submitted in one upload
+ */
+export type ThemeScope = InsightsScope
+
+/**
+ * Cluster of embeddings
+ */
+export interface EmbeddingCluster {
+  /** Unit-length mean of the members */
+  centroid: number[]
+  /** Indexes of the member vectors, most similar to the centroid first */
+  members: number[]
+  /** Average cosine similarity of the members to the centroid */
+  cohesion: number
+}
+
+export interface ThemeExample {
+  feedback_id: string
+  /** Redacted excerpt of the feedback (English translation if there is one) */
+  text: string
+  sentiment_score: number | null
+}
+
+export interface DiscoveredTheme {
+  name: string
+  description: string
+  /** Feedback entries in the theme */
+  size: number
+  /** Share of the feedback in the run */
+  share: number
+  /** Average polarity (-1 to 1) of the analyzed entries (null if none is analyzed) */
+  avg_sentiment: number | null
+  /** Average similarity of the entries to the theme's centre (0 to 1, higher is tighter) */
+  cohesion: number
+  /** Most frequent (canonical) topics of the entries */
+  topics: string[]
+  examples: ThemeExample[]
+  feedback_ids: string[]
+}
+
+/**
+ * Stored run (row of `theme_runs`)
+ */
+export interface ThemeRun {
+  id: string
+  user_id: string
+  title: string
+  scope: 'period' | 'upload'
+  period_start: string | null
+  period_end: string | null
+  upload_id: string | null
+  feedback_count: number
+  /** Entries in a theme; the rest fit no cluster of MIN_THEME_SIZE */
+  clustered_count: number
+  /** True if the scope had more feedback than a run covers (most recent kept) */
+  truncated: boolean
+  /** Largest first */
+  themes: DiscoveredTheme[]
+  model: string | null
+  prompt_version: number | null
+  created_at: string
+}
+
+export type ThemeRunSummary = Omit<ThemeRun, 'themes'>
+
+/**
+ * Thrown when a scope has too little embedded feedback to cluster
+ */
+export class ThemeScopeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ThemeScopeError'
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Maximum number of feedback entries in a run (most recent first)
+ */
+export const MAX_THEME_FEEDBACK = 1000
+
+/**
+ * Minimum number of embedded feedback entries to look for themes in
+ */
+export const MIN_THEME_FEEDBACK = 10
+
+/**
+ * Clusters with fewer entries are not reported as themes
+ */
+const MIN_THEME_SIZE = 3
+
+/**
+ * Bounds of the number of clusters
+ */
+const MIN_CLUSTERS = 2
+const MAX_CLUSTERS = 12
+
+const MAX_KMEANS_ITERATIONS = 25
+
+/**
+ * Most typical entries the LLM names a theme from
+ */
+const NAMING_EXAMPLES = 8
+
+/**
+ * Naming calls run concurrently
+ */
+const NAMING_CONCURRENCY = 3
+
+const MAX_EXAMPLES_PER_THEME = 3
+const MAX_EXAMPLE_CHARS = 200
+const MAX_THEME_TOPICS = 3
+
+const SUMMARY_COLUMNS =
+  'id, user_id, title, scope, period_start, period_end, upload_id, feedback_count, clustered_count, truncated, model, prompt_version, created_at'
+
+// ============================================================================
+// CLUSTERING
+// ============================================================================
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i]
+  }
+  return sum
+}
+
+/**
+ * Scale a vector to unit length, so that the dot product is the cosine similarity
+ */
+export function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(dot(vector, vector))
+  return length > 0 ? vector.map((value) => value / length) : vector
+}
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) (mulberry32), so that the
+ * same feedback always yields the same themes
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Number of clusters for `count` entries: √(count / 2), within
+ * MIN_CLUSTERS..MAX_CLUSTERS and small enough for clusters of MIN_THEME_SIZE
+ */
+export function chooseClusterCount(count: number): number {
+  const upper = Math.max(1, Math.min(MAX_CLUSTERS, Math.floor(count / MIN_THEME_SIZE)))
+  return Math.min(upper, Math.max(MIN_CLUSTERS, Math.round(Math.sqrt(count / 2))))
+}
+
+/**
+ * Mean of the member vectors, scaled to unit length
+ */
+function centroidOf(vectors: number[][], members: number[]): number[] {
+  const sum = new Array<number>(vectors[members[0]].length).fill(0)
+  for (const index of members) {
+    const vector = vectors[index]
+    for (let i = 0; i < sum.length; i++) {
+      sum[i] += vector[i]
+    }
+  }
+  return normalize(sum)
+}
+
+/**
+ * Cluster unit-length vectors with k-means on cosine similarity
+ *
+ * Centroids are seeded with k-means++ (each next seed drawn with probability
+ * proportional to its squared distance to the nearest seed so far) from a
+ * fixed seed, so results are reproducible.
+ *
+ * @param vectors - Unit-length vectors (see normalize)
+ * @param k - Number of clusters
+ * @param seed - Seed of the k-means++ initialization
+ * @returns Non-empty clusters, largest first
+ */
+export function clusterEmbeddings(vectors: number[][], k: number, seed: number = 1): EmbeddingCluster[] {
+  if (vectors.length === 0) {
+    return []
+  }
+
+  const random = createRandom(seed)
+  const centroids: number[][] = [vectors[Math.floor(random() * vectors.length)]]
+  const distances = vectors.map((vector) => Math.max(0, 1 - dot(vector, centroids[0])))
+
+  while (centroids.length < Math.min(k, vectors.length)) {
+    const total = distances.reduce((sum, distance) => sum + distance * distance, 0)
+    if (total === 0) {
+      // Every remaining vector equals a seed
+      break
+    }
+
+    let target = random() * total
+    let next = distances.findIndex((distance) => (target -= distance * distance) <= 0)
+    if (next === -1) {
+      next = distances.length - 1
+    }
+
+    centroids.push(vectors[next])
+    vectors.forEach((vector, index) => {
+      distances[index] = Math.min(distances[index], Math.max(0, 1 - dot(vector, vectors[next])))
+    })
+  }
+
+  const assignments = new Array<number>(vectors.length).fill(-1)
+  const similarities = new Array<number>(vectors.length).fill(0)
+
+  for (let iteration = 0; iteration < MAX_KMEANS_ITERATIONS; iteration++) {
+    let changed = false
+
+    vectors.forEach((vector, index) => {
+      let best = 0
+      let bestSimilarity = -Infinity
+      centroids.forEach((centroid, cluster) => {
+        const similarity = dot(vector, centroid)
+        if (similarity > bestSimilarity) {
+          best = cluster
+          bestSimilarity = similarity
+        }
+      })
+
+      similarities[index] = bestSimilarity
+      if (assignments[index] !== best) {
+        assignments[index] = best
+        changed = true
+      }
+    })
+
+    if (!changed) {
+      break
+    }
+
+    // Empty clusters keep their centroid
+    centroids.forEach((_, cluster) => {
+      const members = assignments.flatMap((assigned, index) => (assigned === cluster ? [index] : []))
+      if (members.length > 0) {
+        centroids[cluster] = centroidOf(vectors, members)
+      }
+    })
+  }
+
+  return centroids
+    .map((centroid, cluster) => {
+      const members = assignments
+        .flatMap((assigned, index) => (assigned === cluster ? [index] : []))
+        .map((index) => ({ index, similarity: dot(vectors[index], centroid) }))
+        .sort((a, b) => b.similarity - a.similarity)
+
+      return {
+        centroid,
+        members: members.map(({ index }) => index),
+        cohesion: members.reduce((sum, { similarity }) => sum + similarity, 0) / (members.length || 1),
+      }
+    })
+    .filter((cluster) => cluster.members.length > 0)
+    .sort((a, b) => b.members.length - a.members.length)
+}
+
+// ============================================================================
+// THEME BUILDING
+// ============================================================================
+
+/**
+ * Redacted excerpts of the most typical distinct feedback of a theme
+ *
+ * @param rows - Feedback in the run
+ * @param members - Indexes of the theme's feedback in `rows`, most typical first
+ * @returns Up to MAX_EXAMPLES_PER_THEME examples
+ */
+export function selectExamples(rows: FeedbackEmbedding[], members: number[]): ThemeExample[] {
+  const examples: ThemeExample[] = []
+  const seen = new Set<string>()
+
+  for (const index of members) {
+    const row = rows[index]
+    const text = redactedText(row)
+
+    if (!text || seen.has(text.toLowerCase())) {
+      continue
+    }
+    seen.add(text.toLowerCase())
+
+    examples.push({
+      feedback_id: row.id,
+      text: text.length > MAX_EXAMPLE_CHARS ? `${text.slice(0, MAX_EXAMPLE_CHARS).trimEnd()}…` : text,
+      sentiment_score: row.analysis?.sentiment_score ?? null,
+    })
+
+    if (examples.length === MAX_EXAMPLES_PER_THEME) {
+      break
+    }
+  }
+
+  return examples
+}
+
+/**
+ * Average polarity of the analyzed entries among `rows`
+ */
+export function averageSentiment(rows: FeedbackEmbedding[]): number | null {
+  const scores = rows
+    .map((row) => row.analysis?.sentiment_score)
+    .filter((score): score is number => typeof score === 'number')
+  return scores.length > 0 ? round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null
+}
+
+/**
+ * Most frequent canonical topics among `rows`
+ */
+export function topTopics(rows: FeedbackEmbedding[], aliases: Record<string, string>): string[] {
+  const counts = new Map<string, number>()
+  for (const row of rows) {
+    const topics = new Set(
+      (row.analysis?.topics || []).map((topic) => {
+        const normalized = topic.trim().toLowerCase()
+        return aliases[normalized] ?? normalized
+      })
+    )
+    for (const topic of topics) {
+      if (topic) {
+        counts.set(topic, (counts.get(topic) || 0) + 1)
+      }
+    }
+  }
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_THEME_TOPICS)
+    .map(([topic]) => topic)
+}
+
+/**
+ * Cluster the feedback of a run and name its themes
+ *
+ * The LLM sees the summaries of the NAMING_EXAMPLES entries closest to a
+ * cluster's centre (redacted text for entries without an analysis).
+ *
+ * @param rows - Feedback with embeddings
+ * @param aliases - Alias → canonical topic map of the account
+ * @param instructions - Account context and rules added to the prompt
+ * @returns Themes, largest first, and the number of entries they cover
+ */
+export async function buildThemes(
+  rows: FeedbackEmbedding[],
+  aliases: Record<string, string>,
+  instructions?: PromptInstructions
+): Promise<{ themes: DiscoveredTheme[]; clustered_count: number }> {
+  const vectors = rows.map((row) => normalize(row.embedding))
+  const clusters = clusterEmbeddings(vectors, chooseClusterCount(rows.length)).filter(
+    (cluster) => cluster.members.length >= MIN_THEME_SIZE
+  )
+
+  const themes = await processConcurrently(
+    clusters,
+    async (cluster): Promise<DiscoveredTheme> => {
+      const members = cluster.members.map((index) => rows[index])
+      const { name, description } = await nameTheme(
+        members.slice(0, NAMING_EXAMPLES).map((row) => row.analysis?.summary || redactedText(row)),
+        instructions
+      )
+
+      return {
+        name,
+        description,
+        size: members.length,
+        share: round(members.length / rows.length),
+        avg_sentiment: averageSentiment(members),
+        cohesion: round(cluster.cohesion),
+        topics: topTopics(members, aliases),
+        examples: selectExamples(rows, cluster.members),
+        feedback_ids: members.map((row) => row.id),
+      }
+    },
+    NAMING_CONCURRENCY
+  )
+
+  return { themes, clustered_count: themes.reduce((sum, theme) => sum + theme.size, 0) }
+}
+
+// ============================================================================
+// DATABASE OPERATIONS
+// ============================================================================
+
+/**
+ * Title of a new run
+ */
+async function getRunTitle(userId: string, scope: ThemeScope): Promise<string> {
+  if (!('uploadId' in scope)) {
+    return `Themes: ${scope.from.slice(0, 10)} to ${scope.to.slice(0, 10)}`
+  }
+
+  let filename: string | undefined
+
+  try {
+    const supabase = createServerClient()
+    const { data } = await supabase
+      .from('uploads')
+      .select('filename')
+      .eq('id', scope.uploadId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    filename = data?.filename
+  } catch (error) {
+    console.error('Error fetching upload of a theme run:', error)
+  }
+
+  // Uploads through /api/analyze have no `uploads` row
+  return `Themes: ${filename || `upload ${scope.uploadId.slice(0, 8)}`}`
+}
+
+/**
+ * Discover and store the themes of a period or an upload
+ *
+ * Makes one LLM call per theme. Their usage is recorded like analysis usage
+ * (not per feedback).
+ *
+ * @param userId - Clerk user ID
+ * @param scope - Period or upload
+ * @returns The stored run, or null if it could not be stored
+ * @throws {ThemeScopeError} If the scope has fewer than MIN_THEME_FEEDBACK embedded entries
+ * @throws {Error} If an LLM call fails (e.g. ProviderError)
+ */
+export async function discoverThemes(userId: string, scope: ThemeScope): Promise<ThemeRun | null> {
+  const scoped = await getFeedbackEmbeddings(userId, scope, MAX_THEME_FEEDBACK + 1)
+
+  if (scoped.length < MIN_THEME_FEEDBACK) {
+    throw new ThemeScopeError(
+      `Theme discovery needs at least ${MIN_THEME_FEEDBACK} feedback entries; ${
+        'uploadId' in scope ? 'this upload has' : 'this period has'
+      } ${scoped.length}`
+    )
+  }
+
+  const truncated = scoped.length > MAX_THEME_FEEDBACK
+  const rows = scoped.slice(0, MAX_THEME_FEEDBACK)
+
+  const [settings, aliases, title] = await Promise.all([
+    getAccountSettings(userId),
+    getTopicAliasMap(userId),
+    getRunTitle(userId, scope),
+  ])
+
+  const usage: UsageRecord[] = []
+  const { model, prompt_version } = getThemeNamingVersion()
+
+  let result: Awaited<ReturnType<typeof buildThemes>>
+
+  try {
+    result = await withUsageTracking(usage, () => buildThemes(rows, aliases, toPromptInstructions(settings)))
+  } finally {
+    // Record the tokens and cost of the calls made, even if one failed
+    // (non-critical)
+    if (!(await storeUsageRecords(userId, [{ records: usage }]))) {
+      console.warn('Failed to store LLM usage of a theme run')
+    }
+  }
+
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('theme_runs')
+      .insert({
+        user_id: userId,
+        title,
+        scope: 'uploadId' in scope ? 'upload' : 'period',
+        period_start: 'uploadId' in scope ? null : scope.from,
+        period_end: 'uploadId' in scope ? null : scope.to,
+        upload_id: 'uploadId' in scope ? scope.uploadId : null,
+        feedback_count: rows.length,
+        clustered_count: result.clustered_count,
+        truncated,
+        themes: result.themes,
+        model,
+        prompt_version,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error storing theme run:', error)
+      return null
+    }
+
+    return data as ThemeRun
+  } catch (error) {
+    console.error('Error in discoverThemes:', error)
+    return null
+  }
+}
+
+/**
+ * List the theme runs of a user without their themes
+ *
+ * @param userId - Clerk user ID
+ * @param limit - Maximum number of runs
+ * @returns Runs, most recent first (empty on error)
+ */
+export async function listThemeRuns(userId: string, limit: number = 50): Promise<ThemeRunSummary[]> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('theme_runs')
+      .select(SUMMARY_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching theme runs:', error)
+      return []
+    }
+
+    return (data || []) as ThemeRunSummary[]
+  } catch (error) {
+    console.error('Error in listThemeRuns:', error)
+    return []
+  }
+}
+
+/**
+ * Get a stored theme run
+ *
+ * @param userId - Clerk user ID (runs of other users are not found)
+ * @param runId - UUID of the run
+ * @returns The run, or null if not found or on error
+ */
+export async function getThemeRun(userId: string, runId: string): Promise<ThemeRun | null> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('theme_runs')
+      .select('*')
+      .eq('id', runId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching theme run:', error)
+      return null
+    }
+
+    return data as ThemeRun | null
+  } catch (error) {
+    console.error('Error in getThemeRun:', error)
+    return null
+  }
+}
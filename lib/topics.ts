@@ -0,0 +1,272 @@
+/**
+ * Topic Canonicalization
+ *
+ * Free-form topics from analyzeFeedback drift ("shipping", "delivery delay",
+ * "late package"). Each account keeps a set of canonical topics with their
+ * embeddings; a new topic string is either merged into the most similar
+ * canonical topic (stored as an alias) or becomes a canonical topic itself.
+ *
+ * Merges start as 'suggested' and apply immediately. Users can review them,
+ * accept them, or override the canonical topic (mapping a topic to itself
+ * keeps it separate). Stored analyses keep their original topic strings; the
+ * alias map is applied when topics are counted, so overrides are retroactive.
+ *
+ * Usage:
+ * ```typescript
+ * // After analysis
+ * await assignCanonicalTopics(userId, analysis.topics)
+ *
+ * // When counting topics
+ * const aliases = await getTopicAliasMap(userId)
+ * const topic = aliases['late package'] ?? 'late package' // 'shipping'
+ * ```
+ */
+
+import { createServerClient } from '@/lib/supabase'
+import { generateEmbeddings } from '@/lib/langchain'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Review state of an alias:
+ * - suggested: merged automatically by embedding similarity, not reviewed yet
+ * - accepted: merge confirmed by the user
+ * - overridden: canonical topic chosen by the user
+ */
+export type TopicAliasStatus = 'suggested' | 'accepted' | 'overridden'
+
+/**
+ * Mapping from a topic string to its canonical topic
+ */
+export interface TopicAlias {
+  id: string
+  user_id: string
+  alias: string
+  canonical: string
+  similarity: number | null
+  status: TopicAliasStatus
+  created_at: string
+  updated_at: string
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Minimum cosine similarity for merging a topic into a canonical topic.
+ * Can be overridden via TOPIC_MERGE_THRESHOLD.
+ */
+const TOPIC_MERGE_THRESHOLD = parseFloat(process.env.TOPIC_MERGE_THRESHOLD || '0.8')
+
+// ============================================================================
+// ALIAS RESOLUTION
+// ============================================================================
+
+/**
+ * Build the alias → canonical topic map, following chains
+ * (e.g. 'late package' → 'delivery' → 'shipping' resolves to 'shipping')
+ *
+ * @param aliases - Stored aliases of an account
+ * @returns Map from alias to its final canonical topic
+ */
+export function resolveCanonicalTopics(
+  aliases: Array<Pick<TopicAlias, 'alias' | 'canonical'>>
+): Record<string, string> {
+  const direct = new Map(aliases.map((a) => [a.alias, a.canonical]))
+  const resolved: Record<string, string> = {}
+
+  for (const alias of direct.keys()) {
+    let canonical = alias
+    const seen = new Set<string>()
+
+    while (direct.has(canonical) && !seen.has(canonical)) {
+      seen.add(canonical)
+      canonical = direct.get(canonical)!
+    }
+
+    resolved[alias] = canonical
+  }
+
+  return resolved
+}
+
+// ============================================================================
+// DATABASE OPERATIONS
+// ============================================================================
+
+/**
+ * Get the topic aliases of an account for review
+ *
+ * @param userId - Clerk user ID
+ * @returns Aliases, unreviewed suggestions first
+ */
+export async function getTopicAliases(userId: string): Promise<TopicAlias[]> {
+  try {
+    const supabase = createServerClient()
+
+    const { data, error } = await supabase
+      .from('topic_aliases')
+      .select('*')
+      .eq('user_id', userId)
+      .order('status', { ascending: false })
+      .order('alias', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching topic aliases:', error)
+      return []
+    }
+
+    return (data || []) as TopicAlias[]
+  } catch (error) {
+    console.error('Exception in getTopicAliases:', error)
+    return []
+  }
+}
+
+/**
+ * Get the resolved alias → canonical topic map of an account
+ *
+ * @param userId - Clerk user ID
+ * @returns Map from alias to canonical topic (topics without an alias are canonical)
+ */
+export async function getTopicAliasMap(userId: string): Promise<Record<string, string>> {
+  return resolveCanonicalTopics(await getTopicAliases(userId))
+}
+
+/**
+ * Accept a suggested merge or override the canonical topic of a topic
+ *
+ * @param userId - Clerk user ID
+ * @param alias - Topic string to map
+ * @param canonical - Canonical topic (the alias itself keeps it separate); omit to accept the current mapping
+ * @returns The stored alias, or null on failure
+ */
+export async function setTopicAlias(
+  userId: string,
+  alias: string,
+  canonical?: string
+): Promise<TopicAlias | null> {
+  try {
+    const supabase = createServerClient()
+
+    const query =
+      canonical === undefined
+        ? supabase
+            .from('topic_aliases')
+            .update({ status: 'accepted' })
+            .eq('user_id', userId)
+            .eq('alias', alias)
+        : supabase
+            .from('topic_aliases')
+            .upsert(
+              { user_id: userId, alias, canonical, status: 'overridden' },
+              { onConflict: 'user_id,alias' }
+            )
+
+    const { data, error } = await query.select().single()
+
+    if (error) {
+      console.error('Error updating topic alias:', error)
+      return null
+    }
+
+    return data as TopicAlias
+  } catch (error) {
+    console.error('Exception in setTopicAlias:', error)
+    return null
+  }
+}
+
+/**
+ * Merge new topic strings into the account's canonical topics
+ *
+ * Topics that are already canonical or have an alias are skipped. Every other
+ * topic is embedded and compared with the canonical topics: above
+ * TOPIC_MERGE_THRESHOLD it becomes a suggested alias of the closest one,
+ * otherwise a new canonical topic. Topics are matched one at a time so
+ * synonyms within the same batch merge with each other.
+ *
+ * Cost note: the previously unseen topic strings are embedded together in
+ * batched requests (see generateEmbeddings).
+ *
+ * @param userId - Clerk user ID
+ * @param topics - Topic strings from analyzeFeedback
+ * @returns Number of new canonical topics and of topics merged into existing ones
+ * @throws {Error} If a database query fails
+ */
+export async function assignCanonicalTopics(
+  userId: string,
+  topics: string[]
+): Promise<{ created: number; merged: number }> {
+  const distinct = Array.from(new Set(topics.map((topic) => topic.trim()).filter(Boolean)))
+  if (distinct.length === 0) {
+    return { created: 0, merged: 0 }
+  }
+
+  const supabase = createServerClient()
+
+  const [canonicalResult, aliasResult] = await Promise.all([
+    supabase.from('canonical_topics').select('topic').eq('user_id', userId).in('topic', distinct),
+    supabase.from('topic_aliases').select('alias').eq('user_id', userId).in('alias', distinct),
+  ])
+
+  if (canonicalResult.error || aliasResult.error) {
+    throw new Error(
+      `Failed to load known topics: ${(canonicalResult.error || aliasResult.error)!.message}`
+    )
+  }
+
+  const known = new Set([
+    ...(canonicalResult.data || []).map((row: { topic: string }) => row.topic),
+    ...(aliasResult.data || []).map((row: { alias: string }) => row.alias),
+  ])
+
+  let created = 0
+  let merged = 0
+
+  const unseen = distinct.filter((t) => !known.has(t))
+  if (unseen.length === 0) {
+    return { created: 0, merged: 0 }
+  }
+
+  const embeddings = await generateEmbeddings(unseen)
+
+  for (const [index, topic] of unseen.entries()) {
+    const embedding = embeddings[index]
+
+    const { data: matches, error: matchError } = await supabase.rpc('match_canonical_topics', {
+      query_embedding: embedding,
+      match_threshold: TOPIC_MERGE_THRESHOLD,
+      match_count: 1,
+      filter_user_id: userId,
+    })
+
+    if (matchError) {
+      throw new Error(`Failed to match canonical topics: ${matchError.message}`)
+    }
+
+    const best = (matches || [])[0] as { topic: string; similarity: number } | undefined
+
+    const { error } = best
+      ? await supabase.from('topic_aliases').insert({
+          user_id: userId,
+          alias: topic,
+          canonical: best.topic,
+          similarity: Math.round(best.similarity * 100) / 100,
+          status: 'suggested',
+        })
+      : await supabase.from('canonical_topics').insert({ user_id: userId, topic, embedding })
+
+    if (error) {
+      throw new Error(`Failed to store topic "${topic}": ${error.message}`)
+    }
+
+    if (best) merged++
+    else created++
+  }
+
+  return { created, merged }
+}
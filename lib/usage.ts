@@ -0,0 +1,239 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Token Usage and Cost Accounting
+ *
+ * Every completion and embedding request made through lib/openai.ts records
+ * its prompt and completion tokens, as reported by the provider (or estimated
+ * at ~4 characters per token when the provider reports none, e.g. the local
+ * provider), and its estimated cost from the model price table.
+ *
+ * Records go to the usage scopes active around the call. Scopes follow the
+ * async call chain, so concurrent analyses each collect only their own
+ * requests, and nested scopes also record into their parents.
+ *
+ * Prices are in USD per million tokens. Defaults cover the OpenAI models this
+ * app is configured with; override or extend them with MODEL_PRICES, e.g.
+ * MODEL_PRICES='{"my-model": {"inputPer1M": 0.2, "outputPer1M": 0.8}}'.
+ * Model names match by prefix, so dated snapshots ("gpt-4o-mini-2024-07-18")
+ * use the price of their base model.
+ *
+ * Usage:
+ * ```typescript
+ * const records: UsageRecord[] = [];
+ * const analysis = await withUsageTracking(records, () => analyzeFeedback(text));
+ * console.log(summarizeUsage(records).costUsd); // e.g. 0.00021
+ * ```
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Token counts of a single provider request
+ */
+export interface ProviderUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Usage of one provider request
+ */
+export interface UsageRecord {
+  /** Operation that made the request, e.g. 'feedback_analysis' or 'embedTexts' */
+  operation: string;
+  kind: 'completion' | 'embedding';
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  /** True when the provider did not report tokens and they were estimated */
+  estimated: boolean;
+}
+
+/**
+ * Totals of a set of usage records
+ */
+export interface UsageSummary {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Model prices in USD per million tokens
+ */
+export interface ModelPrice {
+  inputPer1M: number;
+  outputPer1M: number;
+}
+
+// ============================================================================
+// PRICES
+// ============================================================================
+
+/**
+ * Default prices in USD per million tokens (override with MODEL_PRICES)
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { inputPer1M: 0.15, outputPer1M: 0.6 },
+  'gpt-4o': { inputPer1M: 2.5, outputPer1M: 10 },
+  'gpt-4.1-mini': { inputPer1M: 0.4, outputPer1M: 1.6 },
+  'gpt-4.1-nano': { inputPer1M: 0.1, outputPer1M: 0.4 },
+  'gpt-4.1': { inputPer1M: 2, outputPer1M: 8 },
+  'gpt-3.5-turbo': { inputPer1M: 0.5, outputPer1M: 1.5 },
+  'text-embedding-3-small': { inputPer1M: 0.02, outputPer1M: 0 },
+  'text-embedding-3-large': { inputPer1M: 0.13, outputPer1M: 0 },
+  'text-embedding-ada-002': { inputPer1M: 0.1, outputPer1M: 0 },
+};
+
+/**
+ * Models already warned about for missing prices
+ */
+const unpricedModels = new Set<string>();
+
+/**
+ * Returns the price table: DEFAULT_MODEL_PRICES merged with MODEL_PRICES
+ *
+ * @returns {Record<string, ModelPrice>} Prices by model name
+ */
+export function getModelPrices(): Record<string, ModelPrice> {
+  const configured = process.env.MODEL_PRICES;
+  if (!configured) {
+    return DEFAULT_MODEL_PRICES;
+  }
+
+  try {
+    return { ...DEFAULT_MODEL_PRICES, ...JSON.parse(configured) };
+  } catch {
+    console.warn('[Usage] MODEL_PRICES is not valid JSON, using the default prices');
+    return DEFAULT_MODEL_PRICES;
+  }
+}
+
+/**
+ * Estimates the cost of a request.
+ * Unknown models cost 0 (with a warning once per model).
+ *
+ * @param {string} model - Model name
+ * @param {number} promptTokens - Input tokens
+ * @param {number} completionTokens - Output tokens
+ * @returns {number} Cost in USD
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  const prices = getModelPrices();
+  const name = Object.keys(prices)
+    .filter((candidate) => model === candidate || model.startsWith(`${candidate}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!name) {
+    if (!unpricedModels.has(model)) {
+      unpricedModels.add(model);
+      console.warn(`[Usage] No price configured for model "${model}"; its cost is counted as 0`);
+    }
+    return 0;
+  }
+
+  const price = prices[name];
+  return (promptTokens * price.inputPer1M + completionTokens * price.outputPer1M) / 1_000_000;
+}
+
+/**
+ * Estimates tokens at ~4 characters per token.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// ============================================================================
+// USAGE SCOPES
+// ============================================================================
+
+interface UsageScope {
+  records: UsageRecord[];
+  parent?: UsageScope;
+}
+
+const usageScopes = new AsyncLocalStorage<UsageScope>();
+
+/**
+ * Runs `fn` and appends the usage of every provider request it makes to
+ * `records`. Records are appended as requests complete, so they are kept
+ * when `fn` throws.
+ *
+ * @param {UsageRecord[]} records - Array to append to
+ * @param {() => Promise<T>} fn - Work to track
+ * @returns {Promise<T>} The result of `fn`
+ */
+export function withUsageTracking<T>(records: UsageRecord[], fn: () => Promise<T>): Promise<T> {
+  return usageScopes.run({ records, parent: usageScopes.getStore() }, fn);
+}
+
+/**
+ * Records the usage of a provider request in the active usage scopes
+ * (called by lib/openai.ts).
+ *
+ * @param {object} request - Operation, kind, model and tokens of the request
+ * @returns {UsageRecord} The record, with its estimated cost
+ */
+export function recordUsage(request: Omit<UsageRecord, 'costUsd'>): UsageRecord {
+  const record: UsageRecord = {
+    ...request,
+    costUsd: estimateCost(request.model, request.promptTokens, request.completionTokens),
+  };
+
+  for (let scope = usageScopes.getStore(); scope; scope = scope.parent) {
+    scope.records.push(record);
+  }
+
+  return record;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Totals of usage records
+ *
+ * @param {UsageRecord[]} records - Records to add up
+ * @returns {UsageSummary} Requests, tokens and cost
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  return records.reduce(
+    (summary, record) => ({
+      requests: summary.requests + 1,
+      promptTokens: summary.promptTokens + record.promptTokens,
+      completionTokens: summary.completionTokens + record.completionTokens,
+      costUsd: summary.costUsd + record.costUsd,
+    }),
+    { requests: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 }
+  );
+}
+
+/**
+ * Splits shared requests (e.g. one batched embedding request for many
+ * texts) between items in proportion to their weights, such as text length.
+ * Token counts are rounded; costs are split exactly.
+ *
+ * @param {UsageRecord[]} records - Records of the shared requests
+ * @param {number[]} weights - One weight per item
+ * @returns {UsageRecord[][]} The share of every record, per item
+ */
+export function allocateUsage(records: UsageRecord[], weights: number[]): UsageRecord[][] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return weights.map((weight) => {
+    const share = total > 0 ? weight / total : 1 / weights.length;
+
+    return records.map((record) => ({
+      ...record,
+      promptTokens: Math.round(record.promptTokens * share),
+      completionTokens: Math.round(record.completionTokens * share),
+      costUsd: record.costUsd * share,
+    }));
+  });
+}
@@ -30,16 +30,29 @@ console.log('🔍 Checking environment variables...');
 console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
 console.log('');
 
+// LLM variables depend on the provider (see getProvider in lib/openai.ts)
+const llmProvider = process.env.LLM_PROVIDER || 'openai';
+
+const llmVars: Record<string, string | undefined> =
+  llmProvider === 'local'
+    ? {}
+    : {
+        ...(llmProvider === 'openai-compatible'
+          ? { 'OPENAI_BASE_URL': process.env.OPENAI_BASE_URL }
+          : { 'OPENAI_API_KEY': process.env.OPENAI_API_KEY }),
+        'OPENAI_EMBED_MODEL': process.env.OPENAI_EMBED_MODEL,
+        'OPENAI_LLM_MODEL': process.env.OPENAI_LLM_MODEL,
+      };
+
 const requiredVars = {
-  'OPENAI_API_KEY': process.env.OPENAI_API_KEY,
-  'OPENAI_EMBED_MODEL': process.env.OPENAI_EMBED_MODEL,
-  'OPENAI_LLM_MODEL': process.env.OPENAI_LLM_MODEL,
+  ...llmVars,
   'NEXT_PUBLIC_SUPABASE_URL': process.env.NEXT_PUBLIC_SUPABASE_URL,
   'NEXT_PUBLIC_SUPABASE_ANON_KEY': process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
   'SUPABASE_SERVICE_ROLE_KEY': process.env.SUPABASE_SERVICE_ROLE_KEY,
 };
 
 const optionalVars = {
+  'LLM_PROVIDER': process.env.LLM_PROVIDER,
   'TEST_USER_ID': process.env.TEST_USER_ID,
   'LOCAL_API_URL': process.env.LOCAL_API_URL,
   'MAX_ITEMS_PER_BATCH': process.env.MAX_ITEMS_PER_BATCH,
@@ -47,6 +60,8 @@ const optionalVars = {
 
 let hasErrors = false;
 
+console.log(`🤖 LLM provider: ${llmProvider}`);
+console.log('');
 console.log('📋 Required Variables:');
 console.log('');
 for (const [key, value] of Object.entries(requiredVars)) {
@@ -101,6 +116,8 @@ if (hasErrors) {
         exampleValue = 'text-embedding-3-small';
       } else if (key === 'OPENAI_LLM_MODEL') {
         exampleValue = 'gpt-4o-mini';
+      } else if (key === 'OPENAI_BASE_URL') {
+        exampleValue = 'http://localhost:8000/v1 (your OpenAI-compatible gateway)';
       }
       console.error(`      ${key}=${exampleValue}`);
     }
@@ -115,6 +132,8 @@ if (hasErrors) {
   console.error('   NEXT_PUBLIC_SUPABASE_ANON_KEY=eyJ...');
   console.error('   SUPABASE_SERVICE_ROLE_KEY=eyJ...');
   console.error('');
+  console.error('   💡 To run without an OpenAI key, set LLM_PROVIDER=local (deterministic offline provider)');
+  console.error('');
   console.error('   📖 See docs/quickstart.md for detailed setup instructions');
   console.error('');
   process.exit(1);
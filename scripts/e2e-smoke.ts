@@ -11,6 +11,11 @@
  * - LOCAL_API_URL: Base API URL (default: http://localhost:3000)
  * - TEST_USER_ID: User ID to use for testing (required)
  * 
+ * Offline mode:
+ *   Start the dev server with LLM_PROVIDER=local to analyze with the deterministic
+ *   local provider instead of OpenAI (no API key or network access needed):
+ *   LLM_PROVIDER=local DISABLE_AUTH=true npm run dev
+ * 
  * Usage:
  *   # Basic usage (PowerShell)
  *   $env:TEST_USER_ID="user_123"; npm run test:e2e
@@ -186,7 +191,7 @@ async function runSmokeTest(): Promise<void> {
     console.log('✅ PASSED: E2E smoke test successful')
     console.log('')
     console.log('📊 Analysis Summary:')
-    console.log(`   Sentiment: ${analysis.sentiment}${analysis.sentiment_score ? ` (${analysis.sentiment_score})` : ''}`)
+    console.log(`   Sentiment: ${analysis.sentiment}${analysis.sentiment_score !== undefined ? ` (${analysis.sentiment_score})` : ''}`)
     console.log(`   Topics: ${analysis.topics.length > 0 ? analysis.topics.join(', ') : 'None'}`)
     console.log(`   Summary: ${analysis.summary.substring(0, 100)}${analysis.summary.length > 100 ? '...' : ''}`)
     console.log(`   Feedback ID: ${result.feedbackId || 'N/A'}`)
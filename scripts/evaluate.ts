@@ -0,0 +1,260 @@
+#!/usr/bin/env tsx
+
+/**
+ * Offline Evaluation Script
+ *
+ * Runs analyzeFeedback over a labeled dataset and reports sentiment and
+ * urgency accuracy (with confusion matrices), topic precision/recall,
+ * latency and estimated token cost. Pass two configurations to compare
+ * models, prompt versions or providers side by side.
+ *
+ * Nothing is stored: the analyses are not written to Supabase and do not
+ * count against any quota (provider calls are still billed by the provider).
+ *
+ * Usage:
+ *   npm run eval -- --dataset scripts/eval-data/golden-sample.jsonl
+ *   npm run eval -- --dataset golden.csv --config baseline.json --config candidate.json
+ *
+ *   # Offline, with the deterministic local provider
+ *   LLM_PROVIDER=local npm run eval -- --dataset scripts/eval-data/golden-sample.jsonl
+ *
+ * Options:
+ *   --dataset <path>     JSONL or CSV dataset (see lib/evaluation.ts for the columns)
+ *   --config <path>      Configuration JSON file; repeat once to compare two
+ *                        (default: the current environment)
+ *   --out <dir>          Report directory (default: eval-reports)
+ *   --limit <n>          Only evaluate the first n examples
+ *   --concurrency <n>    Examples analyzed in parallel (default: 3)
+ *
+ * Configuration file (every field but name is optional):
+ *   {
+ *     "name": "gpt-4o prompt v2",
+ *     "provider": "openai",
+ *     "model": "gpt-4o",
+ *     "prompts": { "feedback_analysis": { "version": 2, "template": "..." } },
+ *     "pricing": { "inputPer1M": 2.5, "outputPer1M": 10 }
+ *   }
+ *
+ * Exit Codes:
+ * - 0: Reports written
+ * - 1: Invalid arguments, dataset or configuration
+ */
+
+import { config as loadEnv } from 'dotenv'
+import * as fs from 'fs'
+import * as path from 'path'
+import { analyzeFeedback, getAnalysisVersion } from '../lib/langchain'
+import { getProvider, setProvider } from '../lib/openai'
+import { setPromptTemplates } from '../lib/prompts'
+import {
+  computeMetrics,
+  createTokenUsage,
+  createUsageTrackingProvider,
+  formatMarkdownReport,
+  parseDataset,
+  type EvalConfig,
+  type EvalExample,
+  type EvalPrediction,
+  type EvalReport,
+  type EvalRun,
+} from '../lib/evaluation'
+
+// Load environment variables from .env and .env.local
+loadEnv()
+loadEnv({ path: '.env.local' })
+
+// ============================================================================
+// ARGUMENTS
+// ============================================================================
+
+interface Options {
+  dataset: string
+  configs: string[]
+  out: string
+  limit?: number
+  concurrency: number
+}
+
+function fail(message: string): never {
+  console.error(`❌ ${message}`)
+  console.error('')
+  console.error('Usage: npm run eval -- --dataset <path> [--config <path>] [--config <path>] [--out <dir>]')
+  process.exit(1)
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { dataset: '', configs: [], out: 'eval-reports', concurrency: 3 }
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1]
+    const requireValue = () => {
+      if (!value || value.startsWith('--')) fail(`${args[i]} requires a value`)
+      i++
+      return value
+    }
+    const requireCount = () => {
+      const count = parseInt(requireValue(), 10)
+      if (!Number.isInteger(count) || count < 1) fail(`${args[i - 1]} must be a positive integer`)
+      return count
+    }
+
+    switch (args[i]) {
+      case '--dataset':
+        options.dataset = requireValue()
+        break
+      case '--config':
+        options.configs.push(requireValue())
+        break
+      case '--out':
+        options.out = requireValue()
+        break
+      case '--limit':
+        options.limit = requireCount()
+        break
+      case '--concurrency':
+        options.concurrency = requireCount()
+        break
+      default:
+        fail(`Unknown option ${args[i]}`)
+    }
+  }
+
+  if (!options.dataset) fail('--dataset is required')
+  if (options.configs.length > 2) fail('At most two configurations can be compared')
+
+  return options
+}
+
+function loadConfig(file: string): EvalConfig {
+  let config: EvalConfig
+  try {
+    config = JSON.parse(fs.readFileSync(file, 'utf8'))
+  } catch (error) {
+    fail(`Could not read configuration ${file}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  if (!config || typeof config.name !== 'string' || !config.name.trim()) {
+    fail(`Configuration ${file} needs a "name"`)
+  }
+
+  return config
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Analyze every example with one configuration
+ */
+async function runConfig(config: EvalConfig, examples: EvalExample[], concurrency: number): Promise<EvalRun> {
+  if (config.provider) process.env.LLM_PROVIDER = config.provider
+  if (config.model) process.env.OPENAI_LLM_MODEL = config.model
+
+  // Count the tokens of this configuration only
+  const usage = createTokenUsage()
+  setProvider(null)
+  setProvider(createUsageTrackingProvider(getProvider(), usage))
+  setPromptTemplates(config.prompts || null)
+
+  const version = getAnalysisVersion()
+  console.log(`\n▶️  ${config.name}: ${getProvider().name}, ${version.model}, prompt v${version.prompt_version}`)
+
+  const predictions: EvalPrediction[] = new Array(examples.length)
+  let next = 0
+  let done = 0
+
+  const worker = async () => {
+    while (next < examples.length) {
+      const index = next++
+      const example = examples[index]
+      const startTime = Date.now()
+
+      try {
+        const analysis = await analyzeFeedback(example.text)
+        predictions[index] = { id: example.id, analysis, latencyMs: Date.now() - startTime }
+      } catch (error) {
+        predictions[index] = {
+          id: example.id,
+          analysis: null,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          latencyMs: Date.now() - startTime,
+        }
+      }
+
+      done++
+      if (done % 10 === 0 || done === examples.length) {
+        console.log(`   ${done}/${examples.length} analyzed`)
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, examples.length) }, worker))
+
+  const metrics = computeMetrics(examples, predictions, usage, config.pricing)
+  const percent = (value: number | null) => (value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`)
+  console.log(
+    `   sentiment ${percent(metrics.sentiment.accuracy)}, urgency ${percent(metrics.urgency.accuracy)}, ` +
+      `topic F1 ${percent(metrics.topics.f1)}, ${metrics.failed} failed`
+  )
+
+  return {
+    config: {
+      name: config.name,
+      provider: getProvider().name,
+      model: version.model,
+      prompt_version: version.prompt_version,
+    },
+    metrics,
+    predictions,
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2))
+  const format = path.extname(options.dataset).toLowerCase() === '.csv' ? 'csv' : 'jsonl'
+
+  let examples: EvalExample[]
+  try {
+    examples = parseDataset(fs.readFileSync(options.dataset, 'utf8'), format)
+  } catch (error) {
+    fail(`Invalid dataset ${options.dataset}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  if (options.limit) examples = examples.slice(0, options.limit)
+  if (examples.length === 0) fail(`Dataset ${options.dataset} has no examples`)
+
+  const configs = options.configs.length > 0 ? options.configs.map(loadConfig) : [{ name: 'current' }]
+
+  console.log('🧪 Feedback Analysis Evaluation')
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
+  console.log(`📄 Dataset: ${options.dataset} (${examples.length} examples)`)
+
+  const runs: EvalRun[] = []
+  for (const config of configs) {
+    runs.push(await runConfig(config, examples, options.concurrency))
+  }
+
+  const report: EvalReport = {
+    dataset: options.dataset,
+    examples,
+    createdAt: new Date().toISOString(),
+    runs,
+  }
+
+  const baseName = `eval-${report.createdAt.replace(/[:.]/g, '-')}`
+  const jsonPath = path.join(options.out, `${baseName}.json`)
+  const markdownPath = path.join(options.out, `${baseName}.md`)
+
+  fs.mkdirSync(options.out, { recursive: true })
+  fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2))
+  fs.writeFileSync(markdownPath, formatMarkdownReport(report))
+
+  console.log('')
+  console.log(`✅ Reports written to ${jsonPath} and ${markdownPath}`)
+}
+
+main().catch((error) => {
+  console.error('❌ Evaluation failed:', error)
+  process.exit(1)
+})
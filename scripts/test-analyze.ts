@@ -178,7 +178,7 @@ async function testAnalyzeEndpoint(): Promise<void> {
         const result = responseData.results[0];
         if (result.success && result.analysis) {
           console.log('📊 Analysis Summary:');
-          console.log(`   Sentiment: ${result.analysis.sentiment} (${result.analysis.sentiment_score || 'N/A'})`);
+          console.log(`   Sentiment: ${result.analysis.sentiment} (${result.analysis.sentiment_score ?? 'N/A'})`);
           console.log(`   Topics: ${result.analysis.topics.length > 0 ? result.analysis.topics.join(', ') : 'None'}`);
           console.log(`   Summary: ${result.analysis.summary}`);
           console.log(`   Recommendation: ${result.analysis.recommendation}`);
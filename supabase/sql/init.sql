@@ -43,6 +43,8 @@ CREATE TABLE IF NOT EXISTS feedback (
     
     -- Feedback content
     text TEXT NOT NULL,             -- The actual feedback text (required)
+    language TEXT,                  -- Detected ISO 639-1 language code (e.g. 'en', 'es')
+    translated_text TEXT,           -- English translation used for analysis (NULL if already English)
     
     -- Timestamps
     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
@@ -60,6 +62,61 @@ CREATE INDEX IF NOT EXISTS idx_feedback_rating ON feedback(rating);
 CREATE INDEX IF NOT EXISTS idx_feedback_source ON feedback(source);
 CREATE INDEX IF NOT EXISTS idx_feedback_product_id ON feedback(product_id);
 
+-- Add language columns to databases created before they existed
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS language TEXT;
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS translated_text TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_language ON feedback(language);
+
+-- Content hash of the stored text (trimmed, whitespace collapsed, lowercased)
+-- for deduplication, and the original feedback of an exact duplicate
+-- (duplicate_similarity is always 1.00)
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS duplicate_of UUID REFERENCES feedback(id) ON DELETE SET NULL;
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS duplicate_similarity DECIMAL(3, 2)
+    CHECK (duplicate_similarity >= 0 AND duplicate_similarity <= 1);
+
+-- The original feedback of a near-duplicate (analyzed and charged like any
+-- other feedback) with their embedding similarity
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS near_duplicate_of UUID REFERENCES feedback(id) ON DELETE SET NULL;
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS near_duplicate_similarity DECIMAL(3, 2)
+    CHECK (near_duplicate_similarity >= 0 AND near_duplicate_similarity <= 1);
+
+-- Move near-duplicate links stored in duplicate_of by earlier versions, so
+-- duplicate_of only marks exact duplicates (which reuse their original)
+UPDATE feedback
+SET near_duplicate_of = duplicate_of,
+    near_duplicate_similarity = duplicate_similarity,
+    duplicate_of = NULL,
+    duplicate_similarity = NULL
+WHERE duplicate_of IS NOT NULL
+    AND duplicate_similarity < 1;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_content_hash ON feedback(user_id, content_hash);
+CREATE INDEX IF NOT EXISTS idx_feedback_duplicate_of ON feedback(duplicate_of);
+CREATE INDEX IF NOT EXISTS idx_feedback_near_duplicate_of ON feedback(near_duplicate_of);
+
+-- When the customer gave the feedback, if the import says so (e.g. the ticket
+-- date of a historical export); created_at is when it was stored. Anomaly
+-- detection counts feedback on this day when it is set.
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_submitted_at ON feedback(user_id, submitted_at);
+
+-- Analyze or upload request the feedback was submitted in (the `uploads` row
+-- for CSV uploads); insights reports can be scoped to it
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS upload_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_upload_id ON feedback(upload_id);
+
+-- Backfill content hashes of feedback stored before they existed
+UPDATE feedback
+SET content_hash = encode(
+    sha256(convert_to(lower(btrim(regexp_replace(normalize(text, NFKC), '\s+', ' ', 'g'))), 'UTF8')),
+    'hex'
+)
+WHERE content_hash IS NULL;
+
 -- Create IVFFLAT index for fast approximate nearest neighbor search on embeddings
 -- This enables efficient semantic similarity searches
 -- Lists = 100 is a good starting point for up to ~100k rows
@@ -85,17 +142,43 @@ CREATE TABLE IF NOT EXISTS feedback_analysis (
     
     -- AI Analysis results
     sentiment TEXT CHECK (sentiment IN ('positive', 'negative', 'neutral', 'mixed')),
-    sentiment_score DECIMAL(3, 2) CHECK (sentiment_score >= -1 AND sentiment_score <= 1),
+    sentiment_score DECIMAL(3, 2) CHECK (sentiment_score >= -1 AND sentiment_score <= 1), -- Polarity: -1 (negative) to 1 (positive)
     
-    -- Topics extracted from feedback (array of strings)
+    -- Emotion, urgency and severity (for triaging angry / churn-risk feedback)
+    emotion TEXT CHECK (emotion IN ('anger', 'frustration', 'disappointment', 'confusion', 'anxiety', 'neutral', 'satisfaction', 'delight')),
+    urgency TEXT CHECK (urgency IN ('low', 'medium', 'high', 'critical')),
+    severity_score DECIMAL(3, 2) CHECK (severity_score >= 0 AND severity_score <= 1), -- 0 (no problem) to 1 (severe)
+    
+    -- What the customer wants (every intent that applies, primary first)
+    intents TEXT[] NOT NULL DEFAULT '{}' CHECK (intents <@ ARRAY['bug_report', 'feature_request', 'praise', 'question', 'complaint', 'pricing_complaint', 'cancellation_intent']),
+    
+    -- Topics extracted from feedback (array of strings, free-form secondary tags)
     topics TEXT[],
     
+    -- Categories of the account's taxonomy (labels, e.g. 'Shipping > Late delivery')
+    categories TEXT[] NOT NULL DEFAULT '{}',
+    
     -- AI-generated summaries and recommendations
     summary TEXT,                   -- Brief summary of the feedback
     recommendation TEXT,            -- Suggested action or response
     
     -- Additional analysis metadata
-    confidence_score DECIMAL(3, 2) CHECK (confidence_score >= 0 AND confidence_score <= 1),
+    confidence_score DECIMAL(3, 2) CHECK (confidence_score >= 0 AND confidence_score <= 1), -- Model confidence in the sentiment
+    
+    -- Outcome of the analysis: 'complete', 'partial' (a secondary step such as
+    -- translation or classification failed) or 'failed' (no analysis, fields empty).
+    -- Only complete analyses are charted and charged.
+    status TEXT NOT NULL DEFAULT 'complete' CHECK (status IN ('complete', 'partial', 'failed')),
+    -- Outcome per pipeline step, e.g. {"translation": "ok", "classification": "failed"}
+    subtask_status JSONB NOT NULL DEFAULT '{}',
+    
+    -- What produced the analysis: LLM model, analysis prompt version, hash of
+    -- the account instructions in the prompt and when it ran (re-analysis
+    -- replaces the row and updates all four)
+    model TEXT,
+    prompt_version INT,
+    instructions_hash TEXT,
+    analyzed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
     
     -- Timestamps
     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
@@ -111,9 +194,333 @@ CREATE INDEX IF NOT EXISTS idx_feedback_analysis_created_at ON feedback_analysis
 CREATE UNIQUE INDEX IF NOT EXISTS idx_feedback_analysis_unique_feedback 
 ON feedback_analysis(feedback_id);
 
+-- Add emotion/urgency/severity to databases created before these columns existed
+ALTER TABLE feedback_analysis ADD COLUMN IF NOT EXISTS emotion TEXT
+    CHECK (emotion IN ('anger', 'frustration', 'disappointment', 'confusion', 'anxiety', 'neutral', 'satisfaction', 'delight'));
+ALTER TABLE feedback_analysis ADD COLUMN IF NOT EXISTS urgency TEXT
+    CHECK (urgency IN ('low', 'medium', 'high', 'critical'));
+ALTER TABLE feedback_analysis ADD COLUMN IF NOT EXISTS severity_score DECIMAL(3, 2)
+    CHECK (severity_score >= 0 AND severity_score <= 1);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_analysis_urgency ON feedback_analysis(urgency);
+
+-- Add taxonomy categories to databases created before they existed
+ALTER TABLE feedback_analysis ADD COLUMN IF NOT EXISTS categories TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_feedback_analysis_categories ON feedback_analysis USING GIN (categories);
+
+-- Add analysis status to databases created before it existed
+ALTER TABLE feedback_analysis ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'complete'
+    CHECK (status IN ('complete', 'partial', 'failed'));
+ALTER TABLE feedback_analysis ADD COLUMN IF NOT EXISTS subtask_status JSONB NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_feedback_analysis_status ON feedback_analysis(status);
+
+-- Add analysis versioning to databases created before it existed; the model
+-- and prompt version of older analyses are unknown (NULL)
+ALTER TABLE feedback_analysis ADD COLUMN IF NOT EXISTS model TEXT;
+ALTER TABLE feedback_analysis ADD COLUMN IF NOT EXISTS prompt_version INT;
+ALTER TABLE feedback_analysis ADD COLUMN IF NOT EXISTS analyzed_at TIMESTAMPTZ;
+
+UPDATE feedback_analysis SET analyzed_at = created_at WHERE analyzed_at IS NULL;
+
+ALTER TABLE feedback_analysis ALTER COLUMN analyzed_at SET DEFAULT NOW();
+ALTER TABLE feedback_analysis ALTER COLUMN analyzed_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_analysis_prompt_version ON feedback_analysis(prompt_version);
+
+-- Add the account instructions hash to databases created before it existed;
+-- the instructions behind older analyses are unknown (NULL)
+ALTER TABLE feedback_analysis ADD COLUMN IF NOT EXISTS instructions_hash TEXT;
+
+-- Add intents to databases created before they existed; older analyses have
+-- none until they are re-analyzed
+ALTER TABLE feedback_analysis ADD COLUMN IF NOT EXISTS intents TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (intents <@ ARRAY['bug_report', 'feature_request', 'praise', 'question', 'complaint', 'pricing_complaint', 'cancellation_intent']);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_analysis_intents ON feedback_analysis USING GIN (intents);
+
+-- Placeholder analyses saved when the LLM call failed were stored as if real
+UPDATE feedback_analysis
+SET status = 'failed', subtask_status = '{"analysis": "failed"}'
+WHERE status = 'complete'
+    AND summary = 'Unable to generate summary'
+    AND recommendation = 'Review feedback manually';
+
 -- Add comment to table
 COMMENT ON TABLE feedback_analysis IS 'AI-generated analysis results for customer feedback';
 
+-- ----------------------------------------------------------------------------
+-- Feedback Topic Sentiment Table
+-- Stores the sentiment towards each topic of a feedback entry
+-- (aspect-based sentiment), one row per feedback and topic
+-- ----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS feedback_topic_sentiment (
+    -- Primary key
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    -- Foreign key to feedback table
+    feedback_id UUID NOT NULL REFERENCES feedback(id) ON DELETE CASCADE,
+    
+    -- Topic as extracted by the analysis (matches an entry in feedback_analysis.topics)
+    topic TEXT NOT NULL,
+    
+    -- Sentiment towards this topic
+    sentiment TEXT NOT NULL CHECK (sentiment IN ('positive', 'negative', 'neutral', 'mixed')),
+    score DECIMAL(3, 2) NOT NULL CHECK (score >= -1 AND score <= 1), -- Polarity: -1 (negative) to 1 (positive)
+    
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for topic sentiment queries
+CREATE INDEX IF NOT EXISTS idx_feedback_topic_sentiment_feedback_id ON feedback_topic_sentiment(feedback_id);
+CREATE INDEX IF NOT EXISTS idx_feedback_topic_sentiment_topic ON feedback_topic_sentiment(topic);
+
+-- Create unique index to ensure one sentiment per topic of a feedback
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feedback_topic_sentiment_unique
+ON feedback_topic_sentiment(feedback_id, topic);
+
+-- Add comment to table
+COMMENT ON TABLE feedback_topic_sentiment IS 'Per-topic (aspect-based) sentiment for customer feedback';
+
+-- Analyses before prompt version 2 stored the model's confidence (0 to 1) in
+-- sentiment_score and left confidence_score empty. Move the confidence to its
+-- column and approximate the polarity: the average of the topic scores, or
+-- the confidence signed by the sentiment label for analyses without topic
+-- sentiment. Re-analysis (/api/feedback/reanalyze) replaces the approximation.
+-- Rows that already have a confidence (e.g. seed data) are left untouched,
+-- so this runs once.
+UPDATE feedback_analysis fa
+SET confidence_score = fa.sentiment_score,
+    sentiment_score = COALESCE(
+        (SELECT ROUND(AVG(fts.score), 2) FROM feedback_topic_sentiment fts WHERE fts.feedback_id = fa.feedback_id),
+        CASE fa.sentiment
+            WHEN 'positive' THEN fa.sentiment_score
+            WHEN 'negative' THEN -fa.sentiment_score
+            ELSE 0
+        END
+    )
+WHERE fa.confidence_score IS NULL
+    AND fa.sentiment_score >= 0
+    AND (fa.prompt_version IS NULL OR fa.prompt_version < 2);
+
+-- ----------------------------------------------------------------------------
+-- Taxonomy Categories Table
+-- Account-defined categories feedback is classified into, optionally nested
+-- under a parent category
+-- ----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS taxonomy_categories (
+    -- Primary key
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    -- User reference
+    user_id TEXT NOT NULL,
+    
+    -- Parent category (NULL for top-level categories); deleting a parent deletes its subcategories
+    parent_id UUID REFERENCES taxonomy_categories(id) ON DELETE CASCADE,
+    
+    -- Category definition, used to guide classification
+    name TEXT NOT NULL,
+    description TEXT,
+    examples TEXT[] NOT NULL DEFAULT '{}',  -- Example phrases that belong in this category
+    
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for taxonomy queries
+CREATE INDEX IF NOT EXISTS idx_taxonomy_categories_user_id ON taxonomy_categories(user_id);
+CREATE INDEX IF NOT EXISTS idx_taxonomy_categories_parent_id ON taxonomy_categories(parent_id);
+
+-- Create unique index to ensure category names are unique per account
+CREATE UNIQUE INDEX IF NOT EXISTS idx_taxonomy_categories_unique_name
+ON taxonomy_categories(user_id, name);
+
+-- Add comment to table
+COMMENT ON TABLE taxonomy_categories IS 'Per-account feedback category taxonomy';
+
+-- ----------------------------------------------------------------------------
+-- Canonical Topics Table
+-- The distinct topics of an account that free-form topic strings are merged
+-- into, with embeddings for similarity matching
+-- ----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS canonical_topics (
+    -- Primary key
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    -- User reference
+    user_id TEXT NOT NULL,
+    
+    -- Topic as first extracted by the analysis
+    topic TEXT NOT NULL,
+    
+    -- Embedding of the topic text (same model as feedback embeddings)
+    embedding VECTOR(1536),
+    
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for canonical topic queries
+CREATE INDEX IF NOT EXISTS idx_canonical_topics_user_id ON canonical_topics(user_id);
+
+-- Create unique index to ensure one row per topic of an account
+CREATE UNIQUE INDEX IF NOT EXISTS idx_canonical_topics_unique_topic
+ON canonical_topics(user_id, topic);
+
+-- Add comment to table
+COMMENT ON TABLE canonical_topics IS 'Canonical topics per account, with embeddings for merging near-synonyms';
+
+-- ----------------------------------------------------------------------------
+-- Topic Aliases Table
+-- Maps topic strings to their canonical topic (merged automatically by
+-- embedding similarity, reviewed by the user)
+-- ----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS topic_aliases (
+    -- Primary key
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    -- User reference
+    user_id TEXT NOT NULL,
+    
+    -- Topic string as extracted by the analysis, and the topic it counts as
+    alias TEXT NOT NULL,
+    canonical TEXT NOT NULL,
+    
+    -- Cosine similarity of the automatic merge (NULL when set by the user)
+    similarity DECIMAL(3, 2),
+    
+    -- Review state
+    status TEXT NOT NULL DEFAULT 'suggested'
+        CHECK (status IN ('suggested', 'accepted', 'overridden')),
+    
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for alias queries
+CREATE INDEX IF NOT EXISTS idx_topic_aliases_user_id ON topic_aliases(user_id);
+
+-- Create unique index to ensure one mapping per topic string of an account
+CREATE UNIQUE INDEX IF NOT EXISTS idx_topic_aliases_unique_alias
+ON topic_aliases(user_id, alias);
+
+-- Add comment to table
+COMMENT ON TABLE topic_aliases IS 'Alias to canonical topic mapping per account';
+
+-- ----------------------------------------------------------------------------
+-- Account Settings Table
+-- Per-account processing options (one row per user, defaults apply without one)
+-- ----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS account_settings (
+    -- Primary key
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    -- User reference (one row per account)
+    user_id TEXT NOT NULL UNIQUE,
+    
+    -- Store redacted feedback text; originals go to the encrypted pii_vault
+    redact_before_storage BOOLEAN NOT NULL DEFAULT false,
+    
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add the duplicate handling column to databases created before it existed
+ALTER TABLE account_settings ADD COLUMN IF NOT EXISTS duplicate_handling TEXT NOT NULL DEFAULT 'skip'
+    CHECK (duplicate_handling IN ('skip', 'link', 'reuse'));
+
+-- Add the custom prompt instruction columns (domain context and rules added
+-- to every analysis prompt, see lib/prompts.ts)
+ALTER TABLE account_settings ADD COLUMN IF NOT EXISTS prompt_context TEXT NOT NULL DEFAULT '';
+ALTER TABLE account_settings ADD COLUMN IF NOT EXISTS prompt_rules TEXT[] NOT NULL DEFAULT '{}';
+
+-- Add comment to table
+COMMENT ON TABLE account_settings IS 'Per-account feedback processing settings';
+
+-- ----------------------------------------------------------------------------
+-- PII Vault Table
+-- Stores the encrypted original values of PII redacted before storage,
+-- so authorized users can reveal them. Only accessed with the service role.
+-- ----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS pii_vault (
+    -- Primary key
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    -- Foreign key to feedback table
+    feedback_id UUID NOT NULL REFERENCES feedback(id) ON DELETE CASCADE,
+    
+    -- User reference (denormalized for ownership checks)
+    user_id TEXT NOT NULL,
+    
+    -- Placeholder in the stored text (e.g. '[EMAIL_1]') and the kind of PII
+    placeholder TEXT NOT NULL,
+    pii_type TEXT NOT NULL
+        CHECK (pii_type IN ('email', 'credit_card', 'iban', 'phone', 'order_number', 'address')),
+    
+    -- AES-256-GCM encrypted original value (iv:tag:ciphertext, base64)
+    value_encrypted TEXT NOT NULL,
+    
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for vault lookups
+CREATE INDEX IF NOT EXISTS idx_pii_vault_feedback_id ON pii_vault(feedback_id);
+CREATE INDEX IF NOT EXISTS idx_pii_vault_user_id ON pii_vault(user_id);
+
+-- Add comment to table
+COMMENT ON TABLE pii_vault IS 'Encrypted originals of PII redacted from stored feedback';
+
+-- ----------------------------------------------------------------------------
+-- LLM Usage Table
+-- Tokens and estimated cost of the provider requests made for each feedback
+-- entry, one row per operation and model (see lib/usage.ts and lib/costs.ts)
+-- ----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS llm_usage (
+    -- Primary key
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    -- User reference
+    user_id TEXT NOT NULL,
+    
+    -- Feedback the requests were made for (kept for accounting if deleted;
+    -- null for work spanning many entries, such as insights reports)
+    feedback_id UUID REFERENCES feedback(id) ON DELETE SET NULL,
+    
+    -- Analyze or upload request the usage belongs to (null for re-analysis
+    -- and re-classification)
+    upload_id UUID,
+    
+    -- Operation ('embedding', 'feedback_analysis', 'feedback_translation', ...)
+    operation TEXT NOT NULL,
+    model TEXT NOT NULL,
+    
+    -- Tokens as reported by the provider (estimated when it reports none)
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    estimated BOOLEAN NOT NULL DEFAULT false,
+    
+    -- Estimated cost in USD from the model price table
+    cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for usage rollups
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created_at ON llm_usage(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created_at ON llm_usage(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_upload_id ON llm_usage(upload_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_feedback_id ON llm_usage(feedback_id);
+
+-- Add comment to table
+COMMENT ON TABLE llm_usage IS 'Tokens and estimated LLM/embedding cost per feedback entry and operation';
+
 -- ----------------------------------------------------------------------------
 -- Uploads Table (optional but useful for tracking CSV uploads)
 -- Tracks uploaded files and their processing status
@@ -148,6 +555,220 @@ CREATE INDEX IF NOT EXISTS idx_uploads_created_at ON uploads(created_at DESC);
 -- Add comment to table
 COMMENT ON TABLE uploads IS 'Tracks CSV upload history and processing status';
 
+-- ----------------------------------------------------------------------------
+-- Insights Reports Table
+-- Executive reports map-reduced from the analyses of a period or an upload
+-- (see lib/insights.ts). Regenerating a report for the same scope adds a new
+-- version, so earlier versions can be revisited.
+-- ----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS insights_reports (
+    -- Primary key
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    -- User reference
+    user_id TEXT NOT NULL,
+    
+    title TEXT NOT NULL,
+    
+    -- Scope: feedback created in [period_start, period_end), or of one upload
+    scope TEXT NOT NULL CHECK (scope IN ('period', 'upload')),
+    period_start TIMESTAMPTZ,
+    period_end TIMESTAMPTZ,
+    upload_id UUID,
+    
+    -- Identifies the scope across versions ('period:<start>..<end>' or 'upload:<id>')
+    scope_key TEXT NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    
+    -- Number of analyzed feedback entries the report covers
+    feedback_count INTEGER NOT NULL DEFAULT 0,
+    
+    -- Executive summary, ranked issues with quotes and trends, recommendations
+    report JSONB NOT NULL,
+    
+    -- Model and insights prompt version the report was generated with
+    model TEXT,
+    prompt_version INTEGER,
+    
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    
+    UNIQUE (user_id, scope_key, version)
+);
+
+-- Create indexes for report lookups
+CREATE INDEX IF NOT EXISTS idx_insights_reports_user_created_at ON insights_reports(user_id, created_at DESC);
+
+-- Add comment to table
+COMMENT ON TABLE insights_reports IS 'Versioned executive insights reports per period or upload';
+
+-- ----------------------------------------------------------------------------
+-- Theme Runs Table
+-- Themes discovered by clustering the feedback embeddings of a period or an
+-- upload (see lib/themes.ts). Every run is kept.
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS theme_runs (
+    -- Primary key
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    -- User reference
+    user_id TEXT NOT NULL,
+    
+    title TEXT NOT NULL,
+    
+    -- Scope: feedback created in [period_start, period_end), or of one upload
+    scope TEXT NOT NULL CHECK (scope IN ('period', 'upload')),
+    period_start TIMESTAMPTZ,
+    period_end TIMESTAMPTZ,
+    upload_id UUID,
+    
+    -- Number of embedded feedback entries clustered, and of those in a theme
+    feedback_count INTEGER NOT NULL DEFAULT 0,
+    clustered_count INTEGER NOT NULL DEFAULT 0,
+    
+    -- True if the scope had more feedback than a run covers
+    truncated BOOLEAN NOT NULL DEFAULT FALSE,
+    
+    -- Named themes with size, sentiment, topics and examples (largest first)
+    themes JSONB NOT NULL,
+    
+    -- Model and theme naming prompt version the themes were named with
+    model TEXT,
+    prompt_version INTEGER,
+    
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for run lookups
+CREATE INDEX IF NOT EXISTS idx_theme_runs_user_created_at ON theme_runs(user_id, created_at DESC);
+
+-- Add comment to table
+COMMENT ON TABLE theme_runs IS 'Themes discovered by clustering feedback embeddings per period or upload';
+
+-- ----------------------------------------------------------------------------
+-- Anomalies Table
+-- Spikes and drops of daily feedback volume (overall and per topic, source
+-- and product) and of the negative share, against a rolling baseline (see
+-- lib/anomalies.ts). One row per account, day, series and metric; checking a
+-- day again updates it.
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS anomalies (
+    -- Primary key
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    -- User reference
+    user_id TEXT NOT NULL,
+    
+    -- Day (UTC) the anomaly was observed on
+    day DATE NOT NULL,
+    
+    -- Series: all feedback, or one topic, source or product
+    dimension TEXT NOT NULL CHECK (dimension IN ('all', 'topic', 'source', 'product')),
+    key TEXT NOT NULL,
+    
+    -- Daily count ('volume') or share of negative analyses ('negative_share')
+    metric TEXT NOT NULL CHECK (metric IN ('volume', 'negative_share')),
+    direction TEXT NOT NULL CHECK (direction IN ('spike', 'drop')),
+    
+    -- Observed value, baseline average and z-score
+    observed DECIMAL(10, 4) NOT NULL,
+    baseline DECIMAL(10, 4) NOT NULL,
+    z_score DECIMAL(8, 2) NOT NULL,
+    
+    -- Human-readable description, e.g. "'login failure' mentions up 4x vs 14-day baseline, 80% negative"
+    message TEXT NOT NULL,
+    
+    -- Baseline series and statistics the anomaly was flagged on
+    evidence JSONB NOT NULL,
+    
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    
+    UNIQUE (user_id, day, dimension, key, metric)
+);
+
+-- Create indexes for anomaly lookups
+CREATE INDEX IF NOT EXISTS idx_anomalies_user_day ON anomalies(user_id, day DESC);
+
+-- Add comment to table
+COMMENT ON TABLE anomalies IS 'Detected spikes and drops of daily feedback volume and negative share';
+
+-- ----------------------------------------------------------------------------
+-- Entity Dictionary Table
+-- Known products, features and competitors of an account, with aliases;
+-- extracted entities matching a name or alias are stored under the name
+-- (see lib/entities.ts)
+-- ----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS entity_dictionary (
+    -- Primary key
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    -- User reference
+    user_id TEXT NOT NULL,
+    
+    -- Kind of entity
+    type TEXT NOT NULL CHECK (type IN ('product', 'feature', 'competitor')),
+    
+    -- Canonical name and other spellings that mean the same entity
+    name TEXT NOT NULL,
+    aliases TEXT[] NOT NULL DEFAULT '{}',
+    
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for dictionary lookups
+CREATE INDEX IF NOT EXISTS idx_entity_dictionary_user_id ON entity_dictionary(user_id);
+
+-- Create unique index to ensure names are unique per account (case-insensitive)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entity_dictionary_unique_name
+ON entity_dictionary(user_id, lower(name));
+
+-- Add comment to table
+COMMENT ON TABLE entity_dictionary IS 'Per-account known products, features and competitors used to normalize extracted entities';
+
+-- ----------------------------------------------------------------------------
+-- Feedback Entities Table
+-- Named entities mentioned in a feedback entry (products, features,
+-- competitors, versions, platforms and amounts), one row per feedback,
+-- type and normalized value
+-- ----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS feedback_entities (
+    -- Primary key
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    -- Foreign key to feedback table
+    feedback_id UUID NOT NULL REFERENCES feedback(id) ON DELETE CASCADE,
+    
+    -- Kind of entity
+    type TEXT NOT NULL CHECK (type IN ('product', 'feature', 'competitor', 'version', 'platform', 'amount')),
+    
+    -- Normalized value (dictionary name, e.g. "Acme Pay"; version "2.3.1"; platform "iOS"; amount "USD 49")
+    value TEXT NOT NULL,
+    
+    -- Entity as written in the feedback
+    mention TEXT NOT NULL,
+    
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for entity queries
+CREATE INDEX IF NOT EXISTS idx_feedback_entities_feedback_id ON feedback_entities(feedback_id);
+CREATE INDEX IF NOT EXISTS idx_feedback_entities_type_value ON feedback_entities(type, value);
+
+-- Create unique index to ensure an entity is stored once per feedback
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feedback_entities_unique
+ON feedback_entities(feedback_id, type, value);
+
+-- Add comment to table
+COMMENT ON TABLE feedback_entities IS 'Normalized named entities mentioned in customer feedback';
+
 -- ----------------------------------------------------------------------------
 -- 3. ROW LEVEL SECURITY (RLS)
 -- ----------------------------------------------------------------------------
@@ -160,9 +781,45 @@ ALTER TABLE feedback ENABLE ROW LEVEL SECURITY;
 -- Enable RLS on feedback_analysis table
 ALTER TABLE feedback_analysis ENABLE ROW LEVEL SECURITY;
 
+-- Enable RLS on feedback_topic_sentiment table
+ALTER TABLE feedback_topic_sentiment ENABLE ROW LEVEL SECURITY;
+
 -- Enable RLS on uploads table
 ALTER TABLE uploads ENABLE ROW LEVEL SECURITY;
 
+-- Enable RLS on insights_reports table
+ALTER TABLE insights_reports ENABLE ROW LEVEL SECURITY;
+
+-- Enable RLS on theme_runs table
+ALTER TABLE theme_runs ENABLE ROW LEVEL SECURITY;
+
+-- Enable RLS on anomalies table
+ALTER TABLE anomalies ENABLE ROW LEVEL SECURITY;
+
+-- Enable RLS on entity_dictionary table
+ALTER TABLE entity_dictionary ENABLE ROW LEVEL SECURITY;
+
+-- Enable RLS on feedback_entities table
+ALTER TABLE feedback_entities ENABLE ROW LEVEL SECURITY;
+
+-- Enable RLS on taxonomy_categories table
+ALTER TABLE taxonomy_categories ENABLE ROW LEVEL SECURITY;
+
+-- Enable RLS on canonical_topics table
+ALTER TABLE canonical_topics ENABLE ROW LEVEL SECURITY;
+
+-- Enable RLS on topic_aliases table
+ALTER TABLE topic_aliases ENABLE ROW LEVEL SECURITY;
+
+-- Enable RLS on account_settings table
+ALTER TABLE account_settings ENABLE ROW LEVEL SECURITY;
+
+-- Enable RLS on pii_vault table (no policies: service role access only)
+ALTER TABLE pii_vault ENABLE ROW LEVEL SECURITY;
+
+-- Enable RLS on llm_usage table
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+
 -- ----------------------------------------------------------------------------
 -- 4. RLS POLICIES
 -- ----------------------------------------------------------------------------
@@ -264,6 +921,49 @@ USING (
     )
 );
 
+-- ----------------------------------------------------------------------------
+-- Feedback Topic Sentiment Policies
+-- Users can only see topic sentiment of their own feedback
+-- ----------------------------------------------------------------------------
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Users can view topic sentiment of their own feedback" ON feedback_topic_sentiment;
+DROP POLICY IF EXISTS "Users can insert topic sentiment for their own feedback" ON feedback_topic_sentiment;
+DROP POLICY IF EXISTS "Users can delete topic sentiment of their own feedback" ON feedback_topic_sentiment;
+
+-- Policy: Users can view topic sentiment of their own feedback
+CREATE POLICY "Users can view topic sentiment of their own feedback"
+ON feedback_topic_sentiment
+FOR SELECT
+USING (
+    feedback_id IN (
+        SELECT id FROM feedback 
+        WHERE user_id = auth.jwt()->>'sub'
+    )
+);
+
+-- Policy: Users can insert topic sentiment for their own feedback
+CREATE POLICY "Users can insert topic sentiment for their own feedback"
+ON feedback_topic_sentiment
+FOR INSERT
+WITH CHECK (
+    feedback_id IN (
+        SELECT id FROM feedback 
+        WHERE user_id = auth.jwt()->>'sub'
+    )
+);
+
+-- Policy: Users can delete topic sentiment of their own feedback
+CREATE POLICY "Users can delete topic sentiment of their own feedback"
+ON feedback_topic_sentiment
+FOR DELETE
+USING (
+    feedback_id IN (
+        SELECT id FROM feedback 
+        WHERE user_id = auth.jwt()->>'sub'
+    )
+);
+
 -- ----------------------------------------------------------------------------
 -- Uploads Policies
 -- Users can only see their own uploads
@@ -293,6 +993,170 @@ FOR UPDATE
 USING (user_id = auth.jwt()->>'sub')
 WITH CHECK (user_id = auth.jwt()->>'sub');
 
+-- ----------------------------------------------------------------------------
+-- Insights Reports Policies
+-- Users can only see their own reports (generated server-side)
+-- ----------------------------------------------------------------------------
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Users can view their own insights reports" ON insights_reports;
+
+-- Policy: Users can view their own insights reports
+CREATE POLICY "Users can view their own insights reports"
+ON insights_reports
+FOR SELECT
+USING (user_id = auth.jwt()->>'sub');
+
+-- ----------------------------------------------------------------------------
+-- Theme Run Policies
+-- Users can only see their own runs (generated server-side)
+-- ----------------------------------------------------------------------------
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Users can view their own theme runs" ON theme_runs;
+
+-- Policy: Users can view their own theme runs
+CREATE POLICY "Users can view their own theme runs"
+ON theme_runs
+FOR SELECT
+USING (user_id = auth.jwt()->>'sub');
+
+-- ----------------------------------------------------------------------------
+-- Anomaly Policies
+-- Users can only see their own anomalies (detected server-side)
+-- ----------------------------------------------------------------------------
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Users can view their own anomalies" ON anomalies;
+
+-- Policy: Users can view their own anomalies
+CREATE POLICY "Users can view their own anomalies"
+ON anomalies
+FOR SELECT
+USING (user_id = auth.jwt()->>'sub');
+
+-- ----------------------------------------------------------------------------
+-- Entity Policies
+-- Users can only manage their own dictionary and see entities of their own
+-- feedback
+-- ----------------------------------------------------------------------------
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Users can view their own entity dictionary" ON entity_dictionary;
+DROP POLICY IF EXISTS "Users can manage their own entity dictionary" ON entity_dictionary;
+DROP POLICY IF EXISTS "Users can view entities of their own feedback" ON feedback_entities;
+
+-- Policy: Users can view their own entity dictionary
+CREATE POLICY "Users can view their own entity dictionary"
+ON entity_dictionary
+FOR SELECT
+USING (user_id = auth.jwt()->>'sub');
+
+-- Policy: Users can insert, update and delete their own dictionary entries
+CREATE POLICY "Users can manage their own entity dictionary"
+ON entity_dictionary
+FOR ALL
+USING (user_id = auth.jwt()->>'sub')
+WITH CHECK (user_id = auth.jwt()->>'sub');
+
+-- Policy: Users can view entities of their own feedback
+CREATE POLICY "Users can view entities of their own feedback"
+ON feedback_entities
+FOR SELECT
+USING (
+    feedback_id IN (
+        SELECT id FROM feedback 
+        WHERE user_id = auth.jwt()->>'sub'
+    )
+);
+
+-- ----------------------------------------------------------------------------
+-- Taxonomy Category Policies
+-- Users can only see and manage their own taxonomy
+-- ----------------------------------------------------------------------------
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Users can view their own taxonomy" ON taxonomy_categories;
+DROP POLICY IF EXISTS "Users can manage their own taxonomy" ON taxonomy_categories;
+
+-- Policy: Users can view their own taxonomy
+CREATE POLICY "Users can view their own taxonomy"
+ON taxonomy_categories
+FOR SELECT
+USING (user_id = auth.jwt()->>'sub');
+
+-- Policy: Users can insert, update and delete their own categories
+CREATE POLICY "Users can manage their own taxonomy"
+ON taxonomy_categories
+FOR ALL
+USING (user_id = auth.jwt()->>'sub')
+WITH CHECK (user_id = auth.jwt()->>'sub');
+
+-- ----------------------------------------------------------------------------
+-- Topic Policies
+-- Users can only see their own canonical topics and manage their own aliases
+-- ----------------------------------------------------------------------------
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Users can view their own canonical topics" ON canonical_topics;
+DROP POLICY IF EXISTS "Users can view their own topic aliases" ON topic_aliases;
+DROP POLICY IF EXISTS "Users can manage their own topic aliases" ON topic_aliases;
+
+-- Policy: Users can view their own canonical topics
+CREATE POLICY "Users can view their own canonical topics"
+ON canonical_topics
+FOR SELECT
+USING (user_id = auth.jwt()->>'sub');
+
+-- Policy: Users can view their own topic aliases
+CREATE POLICY "Users can view their own topic aliases"
+ON topic_aliases
+FOR SELECT
+USING (user_id = auth.jwt()->>'sub');
+
+-- Policy: Users can insert, update and delete their own topic aliases
+CREATE POLICY "Users can manage their own topic aliases"
+ON topic_aliases
+FOR ALL
+USING (user_id = auth.jwt()->>'sub')
+WITH CHECK (user_id = auth.jwt()->>'sub');
+
+-- ----------------------------------------------------------------------------
+-- Account Settings Policies
+-- Users can only see and change their own settings
+-- ----------------------------------------------------------------------------
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Users can view their own settings" ON account_settings;
+DROP POLICY IF EXISTS "Users can update their own settings" ON account_settings;
+
+-- Policy: Users can view their own settings
+CREATE POLICY "Users can view their own settings"
+ON account_settings
+FOR SELECT
+USING (user_id = auth.jwt()->>'sub');
+
+-- Policy: Users can update their own settings
+CREATE POLICY "Users can update their own settings"
+ON account_settings
+FOR UPDATE
+USING (user_id = auth.jwt()->>'sub')
+WITH CHECK (user_id = auth.jwt()->>'sub');
+
+-- ----------------------------------------------------------------------------
+-- LLM Usage Policies
+-- Users can only see their own usage; rows are written with the service role
+-- ----------------------------------------------------------------------------
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Users can view their own LLM usage" ON llm_usage;
+
+-- Policy: Users can view their own LLM usage
+CREATE POLICY "Users can view their own LLM usage"
+ON llm_usage
+FOR SELECT
+USING (user_id = auth.jwt()->>'sub');
+
 -- ----------------------------------------------------------------------------
 -- 5. FUNCTIONS
 -- ----------------------------------------------------------------------------
@@ -309,6 +1173,11 @@ $$ LANGUAGE plpgsql;
 -- Drop existing triggers if they exist (for re-running script)
 DROP TRIGGER IF EXISTS update_feedback_updated_at ON feedback;
 DROP TRIGGER IF EXISTS update_feedback_analysis_updated_at ON feedback_analysis;
+DROP TRIGGER IF EXISTS update_account_settings_updated_at ON account_settings;
+DROP TRIGGER IF EXISTS update_taxonomy_categories_updated_at ON taxonomy_categories;
+DROP TRIGGER IF EXISTS update_topic_aliases_updated_at ON topic_aliases;
+DROP TRIGGER IF EXISTS update_anomalies_updated_at ON anomalies;
+DROP TRIGGER IF EXISTS update_entity_dictionary_updated_at ON entity_dictionary;
 
 -- Apply the trigger to feedback table
 CREATE TRIGGER update_feedback_updated_at
@@ -322,6 +1191,36 @@ CREATE TRIGGER update_feedback_analysis_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+-- Apply the trigger to account_settings table
+CREATE TRIGGER update_account_settings_updated_at
+    BEFORE UPDATE ON account_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Apply the trigger to taxonomy_categories table
+CREATE TRIGGER update_taxonomy_categories_updated_at
+    BEFORE UPDATE ON taxonomy_categories
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Apply the trigger to topic_aliases table
+CREATE TRIGGER update_topic_aliases_updated_at
+    BEFORE UPDATE ON topic_aliases
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Apply the trigger to anomalies table
+CREATE TRIGGER update_anomalies_updated_at
+    BEFORE UPDATE ON anomalies
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Apply the trigger to entity_dictionary table
+CREATE TRIGGER update_entity_dictionary_updated_at
+    BEFORE UPDATE ON entity_dictionary
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 -- ----------------------------------------------------------------------------
 -- Function for semantic similarity search
 -- Finds feedback similar to a given query vector
@@ -358,6 +1257,254 @@ $$;
 -- Add comment to function
 COMMENT ON FUNCTION match_feedback IS 'Performs semantic similarity search on feedback using vector embeddings';
 
+-- ----------------------------------------------------------------------------
+-- Function for canonical topic matching
+-- Finds the canonical topics of an account most similar to a topic embedding
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION match_canonical_topics(
+    query_embedding VECTOR(1536),
+    match_threshold FLOAT DEFAULT 0.8,
+    match_count INT DEFAULT 1,
+    filter_user_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    topic TEXT,
+    similarity FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        canonical_topics.topic,
+        1 - (canonical_topics.embedding <=> query_embedding) AS similarity
+    FROM canonical_topics
+    WHERE 
+        canonical_topics.embedding IS NOT NULL
+        AND (filter_user_id IS NULL OR canonical_topics.user_id = filter_user_id)
+        AND 1 - (canonical_topics.embedding <=> query_embedding) > match_threshold
+    ORDER BY canonical_topics.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION match_canonical_topics IS 'Finds the closest canonical topics of an account for topic merging';
+
+-- ----------------------------------------------------------------------------
+-- Function for bulk embedding updates
+-- Stores the embeddings of a whole analysis batch in one round trip
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION update_feedback_embeddings(
+    updates JSONB
+)
+RETURNS INT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    updated_count INT;
+BEGIN
+    UPDATE feedback
+    SET embedding = (item->>'embedding')::VECTOR(1536)
+    FROM jsonb_array_elements(updates) AS item
+    WHERE feedback.id = (item->>'id')::UUID;
+
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+    RETURN updated_count;
+END;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION update_feedback_embeddings IS 'Sets the embeddings of many feedback entries from a JSON array of {id, embedding}';
+
+-- ----------------------------------------------------------------------------
+-- Function for daily feedback counts
+-- Counts the feedback of an account per UTC day, overall and per topic,
+-- source and product, for anomaly detection. Entries count on the day they
+-- were given (submitted_at) if known, else on the day they were stored.
+-- Topics are lowercased and mapped to their canonical topic; an entry counts
+-- once per canonical topic.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION feedback_daily_counts(
+    filter_user_id TEXT,
+    since TIMESTAMPTZ,
+    aliases JSONB DEFAULT '{}'::JSONB
+)
+RETURNS TABLE (
+    day DATE,
+    dimension TEXT,
+    key TEXT,
+    total BIGINT,
+    analyzed BIGINT,
+    negative BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH entries AS (
+        SELECT
+            f.id,
+            (COALESCE(f.submitted_at, f.created_at) AT TIME ZONE 'UTC')::date AS day,
+            f.source,
+            f.product_id,
+            a.topics,
+            a.id IS NOT NULL AS analyzed,
+            COALESCE(a.sentiment = 'negative', FALSE) AS negative
+        FROM feedback f
+        LEFT JOIN feedback_analysis a ON a.feedback_id = f.id AND a.status = 'complete'
+        WHERE f.user_id = filter_user_id AND COALESCE(f.submitted_at, f.created_at) >= since
+    ),
+    keyed AS (
+        SELECT id, entries.day, analyzed, negative, 'all' AS dimension, 'all' AS key FROM entries
+        UNION ALL
+        SELECT id, entries.day, analyzed, negative, 'source', source FROM entries WHERE source IS NOT NULL
+        UNION ALL
+        SELECT id, entries.day, analyzed, negative, 'product', product_id FROM entries WHERE product_id IS NOT NULL
+        UNION ALL
+        SELECT DISTINCT id, entries.day, analyzed, negative, 'topic', COALESCE(aliases->>t.topic, t.topic)
+        FROM entries
+        CROSS JOIN LATERAL (SELECT lower(trim(raw)) AS topic FROM unnest(entries.topics) AS raw) t
+        WHERE t.topic <> ''
+    )
+    SELECT
+        keyed.day,
+        keyed.dimension,
+        keyed.key,
+        COUNT(*) AS total,
+        COUNT(*) FILTER (WHERE analyzed) AS analyzed,
+        COUNT(*) FILTER (WHERE negative) AS negative
+    FROM keyed
+    GROUP BY keyed.day, keyed.dimension, keyed.key;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION feedback_daily_counts IS 'Daily feedback, analyzed and negative counts per account, overall and per topic, source and product';
+
+-- ----------------------------------------------------------------------------
+-- Function for entity mention statistics
+-- Counts the feedback of an account mentioning each entity value since a
+-- date (of one type, or of every type when entity_type is NULL), with the
+-- sentiment and intents of their complete analyses. Near-duplicates and
+-- duplicates count like any other feedback.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION entity_mention_stats(
+    filter_user_id TEXT,
+    since TIMESTAMPTZ,
+    entity_type TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    type TEXT,
+    value TEXT,
+    mentions BIGINT,
+    analyzed BIGINT,
+    positive BIGINT,
+    negative BIGINT,
+    neutral BIGINT,
+    mixed BIGINT,
+    avg_score DECIMAL,
+    complaints BIGINT,
+    bug_reports BIGINT,
+    cancellations BIGINT,
+    last_mentioned_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        e.type,
+        e.value,
+        COUNT(*) AS mentions,
+        COUNT(a.id) AS analyzed,
+        COUNT(*) FILTER (WHERE a.sentiment = 'positive') AS positive,
+        COUNT(*) FILTER (WHERE a.sentiment = 'negative') AS negative,
+        COUNT(*) FILTER (WHERE a.sentiment = 'neutral') AS neutral,
+        COUNT(*) FILTER (WHERE a.sentiment = 'mixed') AS mixed,
+        ROUND(AVG(a.sentiment_score), 2) AS avg_score,
+        COUNT(*) FILTER (
+            WHERE a.intents && ARRAY['bug_report', 'complaint', 'pricing_complaint', 'cancellation_intent']
+        ) AS complaints,
+        COUNT(*) FILTER (WHERE 'bug_report' = ANY(a.intents)) AS bug_reports,
+        COUNT(*) FILTER (WHERE 'cancellation_intent' = ANY(a.intents)) AS cancellations,
+        MAX(f.created_at) AS last_mentioned_at
+    FROM feedback_entities e
+    JOIN feedback f ON f.id = e.feedback_id
+    LEFT JOIN feedback_analysis a ON a.feedback_id = f.id AND a.status = 'complete'
+    WHERE f.user_id = filter_user_id
+        AND f.created_at >= since
+        AND (entity_type IS NULL OR e.type = entity_type)
+    GROUP BY e.type, e.value;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION entity_mention_stats IS 'Feedback mentioning each entity value, with sentiment and complaint counts of their analyses';
+
+-- ----------------------------------------------------------------------------
+-- Function for question answering (see lib/ask.ts)
+-- Semantic search over one account's feedback, narrowed by metadata and
+-- analysis filters. Unlike match_feedback, the account is required.
+-- Exact duplicates are left out (they repeat their original); near-duplicates
+-- have their own analysis and are kept. Sentiment, intent and category
+-- filters only match complete analyses.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION search_feedback(
+    query_embedding VECTOR(1536),
+    filter_user_id TEXT,
+    match_threshold FLOAT DEFAULT 0.25,
+    match_count INT DEFAULT 20,
+    filter_source TEXT DEFAULT NULL,
+    filter_product_id TEXT DEFAULT NULL,
+    filter_sentiment TEXT DEFAULT NULL,
+    filter_intent TEXT DEFAULT NULL,
+    filter_category TEXT DEFAULT NULL,
+    since TIMESTAMPTZ DEFAULT NULL,
+    until TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    text TEXT,
+    translated_text TEXT,
+    source TEXT,
+    product_id TEXT,
+    created_at TIMESTAMPTZ,
+    sentiment TEXT,
+    intents TEXT[],
+    summary TEXT,
+    similarity FLOAT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        f.id,
+        f.text,
+        f.translated_text,
+        f.source,
+        f.product_id,
+        f.created_at,
+        a.sentiment,
+        COALESCE(a.intents, '{}'),
+        a.summary,
+        1 - (f.embedding <=> query_embedding) AS similarity
+    FROM feedback f
+    LEFT JOIN feedback_analysis a ON a.feedback_id = f.id AND a.status = 'complete'
+    WHERE f.user_id = filter_user_id
+        AND f.embedding IS NOT NULL
+        AND f.duplicate_of IS NULL
+        AND 1 - (f.embedding <=> query_embedding) > match_threshold
+        AND (filter_source IS NULL OR f.source = filter_source)
+        AND (filter_product_id IS NULL OR f.product_id = filter_product_id)
+        AND (filter_sentiment IS NULL OR a.sentiment = filter_sentiment)
+        AND (filter_intent IS NULL OR filter_intent = ANY(a.intents))
+        AND (filter_category IS NULL OR filter_category = ANY(a.categories))
+        AND (since IS NULL OR f.created_at >= since)
+        AND (until IS NULL OR f.created_at < until)
+    ORDER BY f.embedding <=> query_embedding
+    LIMIT match_count;
+$$;
+
+-- Add comment to function
+COMMENT ON FUNCTION search_feedback IS 'Semantic search over the feedback of one account with metadata filters, for answering questions';
+
 -- ----------------------------------------------------------------------------
 -- 6. VIEWS (Optional but useful)
 -- ----------------------------------------------------------------------------
@@ -383,13 +1530,66 @@ SELECT
     fa.summary,
     fa.recommendation,
     fa.confidence_score,
-    fa.created_at AS analysis_created_at
+    fa.created_at AS analysis_created_at,
+    fa.emotion,
+    fa.urgency,
+    fa.severity_score,
+    f.language,
+    f.translated_text,
+    fa.categories,
+    f.duplicate_of,
+    f.duplicate_similarity,
+    fa.status AS analysis_status,
+    fa.subtask_status,
+    fa.model AS analysis_model,
+    fa.prompt_version,
+    fa.analyzed_at,
+    fa.intents,
+    f.near_duplicate_of,
+    f.near_duplicate_similarity
 FROM feedback f
 LEFT JOIN feedback_analysis fa ON f.id = fa.feedback_id;
 
 -- Add comment to view
 COMMENT ON VIEW feedback_with_analysis IS 'Combined view of feedback and their analysis results (with RLS enforcement)';
 
+-- View: LLM usage per account and day (UTC)
+-- `analyses` counts the feedback entries analyzed that day
+CREATE OR REPLACE VIEW llm_usage_daily
+WITH (security_invoker = true)
+AS
+SELECT
+    user_id,
+    (created_at AT TIME ZONE 'UTC')::date AS day,
+    COUNT(DISTINCT feedback_id) FILTER (WHERE operation = 'feedback_analysis') AS analyses,
+    SUM(prompt_tokens)::BIGINT AS prompt_tokens,
+    SUM(completion_tokens)::BIGINT AS completion_tokens,
+    SUM(cost_usd) AS cost_usd
+FROM llm_usage
+GROUP BY user_id, (created_at AT TIME ZONE 'UTC')::date;
+
+-- Add comment to view
+COMMENT ON VIEW llm_usage_daily IS 'LLM tokens and estimated cost per account and day (with RLS enforcement)';
+
+-- View: LLM usage per upload (analyze or upload request)
+CREATE OR REPLACE VIEW llm_usage_by_upload
+WITH (security_invoker = true)
+AS
+SELECT
+    user_id,
+    upload_id,
+    MIN(created_at) AS created_at,
+    COUNT(DISTINCT feedback_id) AS feedback_count,
+    SUM(prompt_tokens)::BIGINT AS prompt_tokens,
+    SUM(completion_tokens)::BIGINT AS completion_tokens,
+    SUM(cost_usd) AS cost_usd
+FROM llm_usage
+WHERE upload_id IS NOT NULL
+GROUP BY user_id, upload_id;
+
+-- Add comment to view
+COMMENT ON VIEW llm_usage_by_upload IS 'LLM tokens and estimated cost per upload (with RLS enforcement)';
+
 -- ----------------------------------------------------------------------------
 -- 7. SEED DATA (Optional - for testing)
 -- ----------------------------------------------------------------------------